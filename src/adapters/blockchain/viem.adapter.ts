@@ -1,7 +1,7 @@
 import { createPublicClient, http, isAddress } from 'viem';
 import { polygon } from 'viem/chains';
 import { getEnvironment } from '../../config/environment.js';
-import { ERC20_ABI } from '../../config/constants.js';
+import { CONDITIONAL_TOKENS_ABI, ERC20_ABI, getContractAddress } from '../../config/constants.js';
 import { BlockchainError } from '../../utils/errors.js';
 import { UnsignedTransaction } from '../../types/trade.types.js';
 import { BlockchainAdapter } from './blockchain.adapter.js';
@@ -53,7 +53,7 @@ export class ViemAdapter implements BlockchainAdapter {
 
   async readContract<T>(params: {
     address: `0x${string}`;
-    abi: unknown[];
+    abi: readonly unknown[];
     functionName: string;
     args?: unknown[];
   }): Promise<T> {
@@ -71,6 +71,43 @@ export class ViemAdapter implements BlockchainAdapter {
     }
   }
 
+  /**
+   * Reported payouts of a Conditional Tokens condition, one numerator per
+   * outcome slot in outcome order. A zero denominator means the condition
+   * hasn't been resolved on-chain yet.
+   */
+  async getConditionPayouts(
+    conditionId: `0x${string}`,
+    outcomeCount: number,
+  ): Promise<{ numerators: bigint[]; denominator: bigint }> {
+    const address = getContractAddress('CONDITIONAL_TOKENS');
+
+    const denominator = await this.readContract<bigint>({
+      address,
+      abi: CONDITIONAL_TOKENS_ABI,
+      functionName: 'payoutDenominator',
+      args: [conditionId],
+    });
+
+    if (denominator === 0n) {
+      return { numerators: [], denominator };
+    }
+
+    const numerators: bigint[] = [];
+    for (let index = 0; index < outcomeCount; index++) {
+      numerators.push(
+        await this.readContract<bigint>({
+          address,
+          abi: CONDITIONAL_TOKENS_ABI,
+          functionName: 'payoutNumerators',
+          args: [conditionId, BigInt(index)],
+        }),
+      );
+    }
+
+    return { numerators, denominator };
+  }
+
   async prepareTransaction(params: {
     to: `0x${string}`;
     data: `0x${string}`;
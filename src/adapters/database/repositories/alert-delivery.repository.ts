@@ -0,0 +1,168 @@
+import { PrismaClient, AlertDelivery as PrismaAlertDelivery } from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+import type {
+  AlertChannel,
+  AlertDeliveryFilters,
+  AlertDeliveryRecord,
+  AlertDeliveryStatus,
+  SignalAlertPayload,
+} from '../../../types/alert.types.js';
+import { toJsonValue } from '../../../utils/prisma-json.js';
+
+export class AlertDeliveryRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  async create(input: {
+    ruleId: string;
+    signalId: string;
+    channel: AlertChannel;
+    status: AlertDeliveryStatus;
+    payload: SignalAlertPayload;
+    nextAttemptAt?: Date | null;
+    deliveredAt?: Date | null;
+  }): Promise<AlertDeliveryRecord> {
+    const delivery = await this.prisma.alertDelivery.create({
+      data: {
+        ruleId: input.ruleId,
+        signalId: input.signalId,
+        channel: input.channel,
+        status: input.status,
+        payload: toJsonValue(input.payload),
+        nextAttemptAt: input.nextAttemptAt ?? null,
+        deliveredAt: input.deliveredAt ?? null,
+      },
+    });
+
+    return this.toModel(delivery);
+  }
+
+  /**
+   * Atomically move a pending delivery into "delivering" until leaseUntil.
+   * Returns false if another process already claimed it.
+   */
+  async claim(id: string, leaseUntil: Date): Promise<boolean> {
+    const result = await this.prisma.alertDelivery.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'delivering', nextAttemptAt: leaseUntil },
+    });
+
+    return result.count === 1;
+  }
+
+  async markDelivered(id: string, attempts: number, responseStatus: number): Promise<void> {
+    await this.prisma.alertDelivery.update({
+      where: { id },
+      data: {
+        status: 'delivered',
+        attempts,
+        responseStatus,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Record a failed attempt. A null nextAttemptAt means retries are exhausted.
+   */
+  async markAttemptFailed(
+    id: string,
+    attempts: number,
+    error: string,
+    responseStatus: number | null,
+    nextAttemptAt: Date | null,
+  ): Promise<void> {
+    await this.prisma.alertDelivery.update({
+      where: { id },
+      data: {
+        status: nextAttemptAt ? 'pending' : 'failed',
+        attempts,
+        lastError: error,
+        responseStatus,
+        nextAttemptAt,
+      },
+    });
+  }
+
+  /**
+   * Find pending deliveries whose retry time has passed
+   */
+  async findDue(now: Date, limit: number): Promise<AlertDeliveryRecord[]> {
+    const deliveries = await this.prisma.alertDelivery.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: now },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    });
+
+    return deliveries.map((d) => this.toModel(d));
+  }
+
+  /**
+   * Return deliveries whose lease expired (crashed process) to the queue
+   */
+  async releaseExpiredLeases(now: Date): Promise<number> {
+    const result = await this.prisma.alertDelivery.updateMany({
+      where: {
+        status: 'delivering',
+        nextAttemptAt: { lt: now },
+      },
+      data: { status: 'pending', nextAttemptAt: now },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Delivery log for all rules owned by a wallet
+   */
+  async findByWallet(
+    walletAddress: string,
+    filters: AlertDeliveryFilters,
+  ): Promise<{ deliveries: AlertDeliveryRecord[]; total: number }> {
+    const where = {
+      rule: { walletAddress: walletAddress.toLowerCase() },
+      ...(filters.ruleId && { ruleId: filters.ruleId }),
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.alertDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: Number(filters.limit || 50),
+        skip: Number(filters.offset || 0),
+      }),
+      this.prisma.alertDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries: deliveries.map((d) => this.toModel(d)),
+      total,
+    };
+  }
+
+  private toModel(delivery: PrismaAlertDelivery): AlertDeliveryRecord {
+    return {
+      id: delivery.id,
+      ruleId: delivery.ruleId,
+      signalId: delivery.signalId,
+      channel: delivery.channel as AlertChannel,
+      status: delivery.status as AlertDeliveryStatus,
+      payload: delivery.payload as unknown as SignalAlertPayload,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt,
+      responseStatus: delivery.responseStatus,
+      lastError: delivery.lastError,
+      createdAt: delivery.createdAt,
+      deliveredAt: delivery.deliveredAt,
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { Prisma, PrismaClient, AlertRule as PrismaAlertRule } from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+import type {
+  AlertRuleRecord,
+  AlertRuleWithSecret,
+  CreateAlertRuleInput,
+  UpdateAlertRuleInput,
+} from '../../../types/alert.types.js';
+import { SignalSeverity, SignalType } from '../../../types/edgar.types.js';
+
+export class AlertRuleRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Find all rules owned by a wallet
+   */
+  async findByWallet(walletAddress: string): Promise<AlertRuleRecord[]> {
+    const rules = await this.prisma.alertRule.findMany({
+      where: { walletAddress: walletAddress.toLowerCase() },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return rules.map((r) => this.toModel(r));
+  }
+
+  /**
+   * Find a rule by ID, scoped to its owner
+   */
+  async findByIdForWallet(id: string, walletAddress: string): Promise<AlertRuleRecord | null> {
+    const rule = await this.prisma.alertRule.findFirst({
+      where: { id, walletAddress: walletAddress.toLowerCase() },
+    });
+
+    return rule ? this.toModel(rule) : null;
+  }
+
+  /**
+   * Find a rule by ID including its webhook secret (delivery use only)
+   */
+  async findByIdWithSecret(id: string): Promise<AlertRuleWithSecret | null> {
+    const rule = await this.prisma.alertRule.findUnique({
+      where: { id },
+    });
+
+    return rule ? this.toModelWithSecret(rule) : null;
+  }
+
+  /**
+   * Find every enabled rule (delivery use only)
+   */
+  async findEnabled(): Promise<AlertRuleWithSecret[]> {
+    const rules = await this.prisma.alertRule.findMany({
+      where: { enabled: true },
+    });
+
+    return rules.map((r) => this.toModelWithSecret(r));
+  }
+
+  async create(
+    walletAddress: string,
+    input: CreateAlertRuleInput,
+    webhookSecret: string | null,
+  ): Promise<AlertRuleWithSecret> {
+    const rule = await this.prisma.alertRule.create({
+      data: {
+        walletAddress: walletAddress.toLowerCase(),
+        name: input.name,
+        signalTypes: input.signalTypes ?? [],
+        minSeverity: input.minSeverity ?? SignalSeverity.LOW,
+        instrumentIds: input.instrumentIds ?? undefined,
+        watchlistId: input.watchlistId ?? null,
+        minScore: input.minScore ?? null,
+        webhookUrl: input.webhookUrl ?? null,
+        webhookSecret,
+        websocketEnabled: input.websocketEnabled ?? true,
+        enabled: input.enabled ?? true,
+      },
+    });
+
+    return this.toModelWithSecret(rule);
+  }
+
+  async update(
+    id: string,
+    input: UpdateAlertRuleInput,
+    webhookSecret?: string | null,
+  ): Promise<AlertRuleWithSecret> {
+    const rule = await this.prisma.alertRule.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.signalTypes !== undefined && { signalTypes: input.signalTypes }),
+        ...(input.minSeverity !== undefined && { minSeverity: input.minSeverity }),
+        ...(input.instrumentIds !== undefined && {
+          instrumentIds: input.instrumentIds ?? Prisma.JsonNull,
+        }),
+        ...(input.watchlistId !== undefined && { watchlistId: input.watchlistId }),
+        ...(input.minScore !== undefined && { minScore: input.minScore }),
+        ...(input.webhookUrl !== undefined && { webhookUrl: input.webhookUrl }),
+        ...(webhookSecret !== undefined && { webhookSecret }),
+        ...(input.websocketEnabled !== undefined && { websocketEnabled: input.websocketEnabled }),
+        ...(input.enabled !== undefined && { enabled: input.enabled }),
+      },
+    });
+
+    return this.toModelWithSecret(rule);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.alertRule.delete({
+      where: { id },
+    });
+  }
+
+  private toModel(rule: PrismaAlertRule): AlertRuleRecord {
+    return {
+      id: rule.id,
+      walletAddress: rule.walletAddress,
+      name: rule.name,
+      signalTypes: (rule.signalTypes as SignalType[] | null) ?? [],
+      minSeverity: rule.minSeverity as SignalSeverity,
+      instrumentIds: (rule.instrumentIds as string[] | null) ?? null,
+      watchlistId: rule.watchlistId,
+      minScore: rule.minScore !== null ? Number(rule.minScore) : null,
+      webhookUrl: rule.webhookUrl,
+      websocketEnabled: rule.websocketEnabled,
+      enabled: rule.enabled,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+
+  private toModelWithSecret(rule: PrismaAlertRule): AlertRuleWithSecret {
+    return {
+      ...this.toModel(rule),
+      webhookSecret: rule.webhookSecret,
+    };
+  }
+}
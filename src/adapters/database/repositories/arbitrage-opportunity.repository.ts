@@ -0,0 +1,126 @@
+import {
+  Prisma,
+  PrismaClient,
+  ArbitrageOpportunity as PrismaArbitrageOpportunity,
+} from '@prisma/client';
+import {
+  ArbitrageFilters,
+  ArbitrageKind,
+  ArbitrageLeg,
+  ArbitrageOpportunityRecord,
+  ArbitrageStatus,
+  DetectedOpportunity,
+} from '../../../types/arbitrage.types.js';
+import { getPrismaClient } from '../client.js';
+
+export class ArbitrageOpportunityRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  async create(opportunity: DetectedOpportunity): Promise<ArbitrageOpportunityRecord> {
+    const created = await this.prisma.arbitrageOpportunity.create({
+      data: { key: opportunity.key, kind: opportunity.kind, ...this.toData(opportunity) },
+    });
+
+    return this.toModel(created);
+  }
+
+  async update(id: string, opportunity: DetectedOpportunity): Promise<ArbitrageOpportunityRecord> {
+    const updated = await this.prisma.arbitrageOpportunity.update({
+      where: { id },
+      data: this.toData(opportunity),
+    });
+
+    return this.toModel(updated);
+  }
+
+  async close(id: string): Promise<ArbitrageOpportunityRecord> {
+    const closed = await this.prisma.arbitrageOpportunity.update({
+      where: { id },
+      data: { status: 'closed', closedAt: new Date() },
+    });
+
+    return this.toModel(closed);
+  }
+
+  /**
+   * Close everything still open, e.g. left over by a process that stopped
+   * watching the books
+   */
+  async closeAllOpen(): Promise<number> {
+    const result = await this.prisma.arbitrageOpportunity.updateMany({
+      where: { status: 'open' },
+      data: { status: 'closed', closedAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Opportunities with the largest expected profit first
+   */
+  async findMany(
+    filters: ArbitrageFilters,
+  ): Promise<{ opportunities: ArbitrageOpportunityRecord[]; total: number }> {
+    const where: Prisma.ArbitrageOpportunityWhereInput = {
+      status: filters.status ?? 'open',
+      ...(filters.kind && { kind: filters.kind }),
+      ...(filters.eventId && { eventId: filters.eventId }),
+      ...(filters.marketId && { marketIds: { array_contains: [filters.marketId] } }),
+      ...(filters.minEdge !== undefined && { sizeAdjustedEdge: { gte: filters.minEdge } }),
+    };
+
+    const [opportunities, total] = await Promise.all([
+      this.prisma.arbitrageOpportunity.findMany({
+        where,
+        orderBy: [{ expectedProfit: 'desc' }, { detectedAt: 'desc' }],
+        take: Number(filters.limit || 50),
+        skip: Number(filters.offset || 0),
+      }),
+      this.prisma.arbitrageOpportunity.count({ where }),
+    ]);
+
+    return {
+      opportunities: opportunities.map((o) => this.toModel(o)),
+      total,
+    };
+  }
+
+  private toData(
+    opportunity: DetectedOpportunity,
+  ): Omit<Prisma.ArbitrageOpportunityCreateInput, 'key' | 'kind'> {
+    return {
+      eventId: opportunity.eventId,
+      marketIds: opportunity.marketIds,
+      legs: opportunity.legs as unknown as Prisma.InputJsonValue,
+      priceSum: opportunity.priceSum,
+      edge: opportunity.edge,
+      executableSize: opportunity.executableSize,
+      expectedProfit: opportunity.expectedProfit,
+      sizeAdjustedEdge: opportunity.sizeAdjustedEdge,
+    };
+  }
+
+  private toModel(opportunity: PrismaArbitrageOpportunity): ArbitrageOpportunityRecord {
+    return {
+      id: opportunity.id,
+      key: opportunity.key,
+      kind: opportunity.kind as ArbitrageKind,
+      status: opportunity.status as ArbitrageStatus,
+      eventId: opportunity.eventId,
+      marketIds: opportunity.marketIds as string[],
+      legs: opportunity.legs as unknown as ArbitrageLeg[],
+      priceSum: Number(opportunity.priceSum),
+      edge: Number(opportunity.edge),
+      executableSize: Number(opportunity.executableSize),
+      expectedProfit: Number(opportunity.expectedProfit),
+      sizeAdjustedEdge: Number(opportunity.sizeAdjustedEdge),
+      detectedAt: opportunity.detectedAt,
+      updatedAt: opportunity.updatedAt,
+      closedAt: opportunity.closedAt,
+    };
+  }
+}
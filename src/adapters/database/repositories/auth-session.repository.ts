@@ -0,0 +1,132 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+import { AuthSessionRecord } from '../../../types/auth.types.js';
+
+export class AuthSessionRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  async create(input: {
+    walletAddress: string;
+    refreshTokenHash: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    expiresAt: Date;
+  }): Promise<AuthSessionRecord> {
+    const session = await this.prisma.authSession.create({
+      data: {
+        ...input,
+        walletAddress: input.walletAddress.toLowerCase(),
+      },
+    });
+
+    return this.toModel(session);
+  }
+
+  async findById(id: string): Promise<AuthSessionRecord | null> {
+    const session = await this.prisma.authSession.findUnique({
+      where: { id },
+    });
+
+    return session ? this.toModel(session) : null;
+  }
+
+  async findByRefreshTokenHash(refreshTokenHash: string): Promise<AuthSessionRecord | null> {
+    const session = await this.prisma.authSession.findUnique({
+      where: { refreshTokenHash },
+    });
+
+    return session ? this.toModel(session) : null;
+  }
+
+  /**
+   * Active (unrevoked, unexpired) sessions for a wallet, newest first
+   */
+  async findActiveByWallet(walletAddress: string, now: Date): Promise<AuthSessionRecord[]> {
+    const sessions = await this.prisma.authSession.findMany({
+      where: {
+        walletAddress: walletAddress.toLowerCase(),
+        revokedAt: null,
+        expiresAt: { gt: now },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return sessions.map((s) => this.toModel(s));
+  }
+
+  /**
+   * Swap in a new refresh token. Matching on the old hash makes concurrent
+   * refreshes with the same token fail instead of forking the session.
+   */
+  async rotateRefreshToken(
+    id: string,
+    currentHash: string,
+    nextHash: string,
+    expiresAt: Date,
+  ): Promise<boolean> {
+    const result = await this.prisma.authSession.updateMany({
+      where: { id, refreshTokenHash: currentHash, revokedAt: null },
+      data: { refreshTokenHash: nextHash, expiresAt, lastUsedAt: new Date() },
+    });
+
+    return result.count === 1;
+  }
+
+  async revoke(id: string): Promise<void> {
+    await this.prisma.authSession.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async revokeMany(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const result = await this.prisma.authSession.updateMany({
+      where: { id: { in: ids }, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  async revokeAllForWallet(walletAddress: string): Promise<number> {
+    const result = await this.prisma.authSession.updateMany({
+      where: { walletAddress: walletAddress.toLowerCase(), revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const result = await this.prisma.authSession.deleteMany({
+      where: { expiresAt: { lt: now } },
+    });
+    return result.count;
+  }
+
+  private toModel(session: {
+    id: string;
+    walletAddress: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    revokedAt: Date | null;
+  }): AuthSessionRecord {
+    return {
+      id: session.id,
+      walletAddress: session.walletAddress,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      revokedAt: session.revokedAt,
+    };
+  }
+}
@@ -1,6 +1,8 @@
 import { PrismaClient, Candle as PrismaCandle } from '@prisma/client';
 import { getLogger } from '../../../utils/logger.js';
 import { TradingViewCandle } from '../../../services/market-data/tradingview-data.service.js';
+import { FactorType } from '../../../types/document.types.js';
+import type { FactorCandle, FactorInterval } from '../../../types/factor.types.js';
 
 const prisma = new PrismaClient();
 
@@ -54,6 +56,7 @@ export class CandleRepository {
               timestamp: candle.timestamp,
               source: candle.source,
               marketId: null,
+              factorType: null,
               outcome: null,
             },
           });
@@ -125,6 +128,34 @@ export class CandleRepository {
     return candles;
   }
 
+  /**
+   * Find candles for several instruments at once (e.g. return correlations)
+   */
+  async findByInstruments(
+    instrumentIds: string[],
+    interval: string,
+    from: Date,
+    to: Date,
+  ): Promise<PrismaCandle[]> {
+    if (instrumentIds.length === 0) {
+      return [];
+    }
+
+    return prisma.candle.findMany({
+      where: {
+        instrumentId: { in: instrumentIds },
+        interval,
+        timestamp: {
+          gte: from,
+          lte: to,
+        },
+      },
+      orderBy: {
+        timestamp: 'asc',
+      },
+    });
+  }
+
   /**
    * Find candles by market (for backward compatibility with existing market candles)
    */
@@ -153,6 +184,23 @@ export class CandleRepository {
     return candles;
   }
 
+  /**
+   * Instruments with at least one candle of the interval since `since`
+   */
+  async findInstrumentIdsWithCandles(interval: string, since: Date): Promise<string[]> {
+    const rows = await prisma.candle.findMany({
+      where: {
+        instrumentId: { not: null },
+        interval,
+        timestamp: { gte: since },
+      },
+      select: { instrumentId: true },
+      distinct: ['instrumentId'],
+    });
+
+    return rows.map((row) => row.instrumentId as string);
+  }
+
   /**
    * Get the latest candle timestamp for an instrument
    * Useful for watermark tracking (only fetch candles after this timestamp)
@@ -174,6 +222,113 @@ export class CandleRepository {
     return latest?.timestamp || null;
   }
 
+  /**
+   * Upsert factor candles; returns the number written
+   */
+  async upsertFactorCandles(candles: FactorCandle[]): Promise<number> {
+    if (candles.length === 0) {
+      return 0;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const candle of candles) {
+        const existing = await tx.candle.findFirst({
+          where: {
+            factorType: candle.factorType,
+            interval: candle.interval,
+            timestamp: candle.timestamp,
+            source: candle.source,
+            marketId: null,
+            instrumentId: null,
+            outcome: null,
+          },
+        });
+
+        const prices = {
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: candle.volume,
+          endTime: candle.endTime,
+        };
+
+        if (existing) {
+          await tx.candle.update({ where: { id: existing.id }, data: prices });
+        } else {
+          await tx.candle.create({
+            data: {
+              ...prices,
+              factorType: candle.factorType,
+              interval: candle.interval,
+              timestamp: candle.timestamp,
+              source: candle.source,
+            },
+          });
+        }
+      }
+    });
+
+    this.logger.debug({ count: candles.length }, 'Factor candles upserted');
+    return candles.length;
+  }
+
+  /**
+   * Find factor candles (all sources) in a time range, oldest first
+   */
+  async findByFactor(
+    factorType: FactorType,
+    interval: FactorInterval,
+    from: Date,
+    to: Date,
+  ): Promise<PrismaCandle[]> {
+    return prisma.candle.findMany({
+      where: {
+        factorType,
+        interval,
+        timestamp: {
+          gte: from,
+          lte: to,
+        },
+      },
+      orderBy: {
+        timestamp: 'asc',
+      },
+    });
+  }
+
+  /**
+   * Latest factor candle timestamp for a source (ingestion watermark)
+   */
+  async getLatestFactorTimestamp(
+    factorType: FactorType,
+    interval: FactorInterval,
+    source: string,
+  ): Promise<Date | null> {
+    const latest = await prisma.candle.findFirst({
+      where: { factorType, interval, source },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    });
+
+    return latest?.timestamp || null;
+  }
+
+  /**
+   * Delete factor candles of one interval older than a given date
+   */
+  async deleteFactorCandlesOlderThan(interval: FactorInterval, cutoffDate: Date): Promise<number> {
+    const result = await prisma.candle.deleteMany({
+      where: {
+        factorType: { not: null },
+        interval,
+        timestamp: { lt: cutoffDate },
+      },
+    });
+
+    return result.count;
+  }
+
   /**
    * Delete candles older than a given date (for cleanup/archival)
    */
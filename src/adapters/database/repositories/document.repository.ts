@@ -92,6 +92,26 @@ export class DocumentRepository {
     return documents.map((d) => this.toModel(d));
   }
 
+  /**
+   * Publish date of the newest document of a type whose sourceId starts
+   * with a prefix (incremental sync cursor)
+   */
+  async findLatestPublishedAt(
+    documentType: DocumentType,
+    sourceIdPrefix: string,
+  ): Promise<Date | null> {
+    const latest = await this.prisma.document.findFirst({
+      where: {
+        documentType,
+        sourceId: { startsWith: sourceIdPrefix },
+      },
+      orderBy: { publishedAt: 'desc' },
+      select: { publishedAt: true },
+    });
+
+    return latest?.publishedAt ?? null;
+  }
+
   async findMany(
     filters: DocumentFilters,
   ): Promise<{ documents: DocumentRecord[]; total: number }> {
@@ -254,6 +274,42 @@ export class DocumentRepository {
     return links.map((l) => this.toModel(l.document));
   }
 
+  /**
+   * Other instruments linked to the same documents as an instrument,
+   * counted over documents published since a date (most recent first,
+   * capped at documentLimit)
+   */
+  async countCoMentions(
+    instrumentId: string,
+    since: Date,
+    documentLimit = 1000,
+  ): Promise<Array<{ instrumentId: string; count: number }>> {
+    const links = await this.prisma.documentInstrument.findMany({
+      where: {
+        instrumentId,
+        document: { publishedAt: { gte: since } },
+      },
+      select: { documentId: true },
+      orderBy: { document: { publishedAt: 'desc' } },
+      take: documentLimit,
+    });
+
+    if (links.length === 0) {
+      return [];
+    }
+
+    const counts = await this.prisma.documentInstrument.groupBy({
+      by: ['instrumentId'],
+      where: {
+        documentId: { in: links.map((l) => l.documentId) },
+        instrumentId: { not: instrumentId },
+      },
+      _count: { documentId: true },
+    });
+
+    return counts.map((c) => ({ instrumentId: c.instrumentId, count: c._count.documentId }));
+  }
+
   // ============================================================================
   // DOCUMENT FACTS
   // ============================================================================
@@ -0,0 +1,219 @@
+import { PrismaClient, EtfHolding } from '@prisma/client';
+import {
+  CreateEtfHoldingInput,
+  EtfExposureRecord,
+  EtfHolderRecord,
+  EtfHoldingRecord,
+  LiquidityBucket,
+} from '../../../types/etf.types.js';
+
+/**
+ * Repository for ETF portfolio holdings parsed from N-PORT filings
+ */
+export class EtfHoldingRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Replace all holdings for a filing (re-processing is idempotent)
+   */
+  async replaceForFiling(filingId: string, holdings: CreateEtfHoldingInput[]): Promise<number> {
+    const [, created] = await this.prisma.$transaction([
+      this.prisma.etfHolding.deleteMany({ where: { filingId } }),
+      this.prisma.etfHolding.createMany({
+        data: holdings,
+        skipDuplicates: true,
+      }),
+    ]);
+
+    return created.count;
+  }
+
+  /**
+   * Holdings from an ETF's latest N-PORT, largest position first
+   */
+  async findLatestByEtf(
+    instrumentId: string,
+    options: { limit?: number; offset?: number } = {},
+  ): Promise<{
+    filingId: string;
+    asOfDate: Date;
+    holdings: EtfHoldingRecord[];
+    total: number;
+  } | null> {
+    const latest = await this.prisma.etfHolding.findFirst({
+      where: { instrumentId },
+      orderBy: [{ asOfDate: 'desc' }, { createdAt: 'desc' }],
+      select: { filingId: true, asOfDate: true },
+    });
+
+    if (!latest) return null;
+
+    const where = { filingId: latest.filingId };
+    const [holdings, total] = await Promise.all([
+      this.prisma.etfHolding.findMany({
+        where,
+        orderBy: [{ valueUsd: 'desc' }, { position: 'asc' }],
+        take: options.limit ?? 100,
+        skip: options.offset ?? 0,
+      }),
+      this.prisma.etfHolding.count({ where }),
+    ]);
+
+    return {
+      filingId: latest.filingId,
+      asOfDate: latest.asOfDate,
+      holdings: holdings.map((h) => this.toModel(h)),
+      total,
+    };
+  }
+
+  /**
+   * Portfolio value per liquidity bucket for a filing
+   */
+  async summarizeLiquidity(
+    filingId: string,
+  ): Promise<Array<{ liquidityBucket: LiquidityBucket | null; valueUsd: string; count: number }>> {
+    const groups = await this.prisma.etfHolding.groupBy({
+      by: ['liquidityBucket'],
+      where: { filingId },
+      _sum: { valueUsd: true },
+      _count: { _all: true },
+    });
+
+    return groups.map((g) => ({
+      liquidityBucket: g.liquidityBucket as LiquidityBucket | null,
+      valueUsd: g._sum.valueUsd?.toString() ?? '0',
+      count: g._count._all,
+    }));
+  }
+
+  /**
+   * ETFs whose latest N-PORT holds the instrument, largest position first.
+   * Several lines for the same issuer in one filing are summed.
+   */
+  async findHoldersOf(underlyingInstrumentId: string): Promise<EtfHolderRecord[]> {
+    const rows = await this.prisma.etfHolding.findMany({
+      where: { underlyingInstrumentId },
+      include: { instrument: { select: { symbol: true, name: true } } },
+    });
+
+    if (rows.length === 0) return [];
+
+    // Only count each ETF's most recent portfolio; older filings may hold
+    // positions that have since been sold
+    const latest = await this.prisma.etfHolding.groupBy({
+      by: ['instrumentId'],
+      where: { instrumentId: { in: [...new Set(rows.map((r) => r.instrumentId))] } },
+      _max: { asOfDate: true },
+    });
+    const latestDate = new Map(latest.map((l) => [l.instrumentId, l._max.asOfDate?.getTime()]));
+
+    const holders = new Map<string, EtfHolderRecord>();
+    for (const row of rows) {
+      if (row.asOfDate.getTime() !== latestDate.get(row.instrumentId)) continue;
+
+      const existing = holders.get(row.instrumentId);
+      if (!existing) {
+        holders.set(row.instrumentId, {
+          etfInstrumentId: row.instrumentId,
+          etfSymbol: row.instrument.symbol,
+          etfName: row.instrument.name,
+          filingId: row.filingId,
+          asOfDate: row.asOfDate,
+          valueUsd: row.valueUsd.toString(),
+          pctOfNav: row.pctOfNav ? Number(row.pctOfNav) : null,
+          balance: row.balance?.toString() ?? null,
+          units: row.units,
+        });
+        continue;
+      }
+
+      if (existing.filingId !== row.filingId) continue;
+      existing.valueUsd = row.valueUsd.plus(existing.valueUsd).toString();
+      if (row.pctOfNav) {
+        existing.pctOfNav = (existing.pctOfNav ?? 0) + Number(row.pctOfNav);
+      }
+      if (row.balance && existing.balance && row.units === existing.units) {
+        existing.balance = row.balance.plus(existing.balance).toString();
+      }
+    }
+
+    return [...holders.values()].sort((a, b) => Number(b.valueUsd) - Number(a.valueUsd));
+  }
+
+  /**
+   * Holdings of the given instruments in each holder ETF's latest N-PORT,
+   * with the holding's weight as a fraction of that portfolio (% of NAV
+   * where reported, otherwise share of the filing's total value)
+   */
+  async findLatestExposuresTo(underlyingInstrumentIds: string[]): Promise<EtfExposureRecord[]> {
+    if (underlyingInstrumentIds.length === 0) return [];
+
+    const rows = await this.prisma.etfHolding.findMany({
+      where: { underlyingInstrumentId: { in: underlyingInstrumentIds } },
+    });
+
+    if (rows.length === 0) return [];
+
+    const etfIds = [...new Set(rows.map((r) => r.instrumentId))];
+    const latest = await this.prisma.etfHolding.groupBy({
+      by: ['instrumentId'],
+      where: { instrumentId: { in: etfIds } },
+      _max: { asOfDate: true },
+    });
+    const latestDate = new Map(latest.map((l) => [l.instrumentId, l._max.asOfDate?.getTime()]));
+    const current = rows.filter((r) => r.asOfDate.getTime() === latestDate.get(r.instrumentId));
+
+    const totals = await this.prisma.etfHolding.groupBy({
+      by: ['filingId'],
+      where: { filingId: { in: [...new Set(current.map((r) => r.filingId))] } },
+      _sum: { valueUsd: true },
+    });
+    const totalValue = new Map(totals.map((t) => [t.filingId, Number(t._sum.valueUsd ?? 0)]));
+
+    return current.map((row) => {
+      const total = totalValue.get(row.filingId) ?? 0;
+      return {
+        etfInstrumentId: row.instrumentId,
+        underlyingInstrumentId: row.underlyingInstrumentId as string,
+        filingId: row.filingId,
+        asOfDate: row.asOfDate,
+        issuerName: row.issuerName,
+        valueUsd: row.valueUsd.toString(),
+        weight: row.pctOfNav
+          ? Number(row.pctOfNav) / 100
+          : total > 0
+            ? Number(row.valueUsd) / total
+            : 0,
+        liquidityBucket: row.liquidityBucket as LiquidityBucket | null,
+      };
+    });
+  }
+
+  private toModel(holding: EtfHolding): EtfHoldingRecord {
+    return {
+      id: holding.id,
+      instrumentId: holding.instrumentId,
+      filingId: holding.filingId,
+      asOfDate: holding.asOfDate,
+      position: holding.position,
+      issuerName: holding.issuerName,
+      title: holding.title,
+      lei: holding.lei,
+      cusip: holding.cusip,
+      isin: holding.isin,
+      ticker: holding.ticker,
+      balance: holding.balance?.toString() ?? null,
+      units: holding.units,
+      valueUsd: holding.valueUsd.toString(),
+      pctOfNav: holding.pctOfNav ? Number(holding.pctOfNav) : null,
+      assetCategory: holding.assetCategory,
+      issuerCategory: holding.issuerCategory,
+      country: holding.country,
+      fairValueLevel: holding.fairValueLevel,
+      liquidityBucket: holding.liquidityBucket as LiquidityBucket | null,
+      underlyingInstrumentId: holding.underlyingInstrumentId,
+      createdAt: holding.createdAt,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { PrismaClient, Event as PrismaEvent } from '@prisma/client';
+import { EventRecord, UpsertEventInput } from '../../../types/event.types.js';
+import { getPrismaClient } from '../client.js';
+
+export class EventRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  async findById(id: string): Promise<EventRecord | null> {
+    const event = await this.prisma.event.findUnique({
+      where: { id },
+    });
+
+    return event ? this.toModel(event) : null;
+  }
+
+  async findBySlug(slug: string): Promise<EventRecord | null> {
+    const event = await this.prisma.event.findFirst({
+      where: { slug },
+    });
+
+    return event ? this.toModel(event) : null;
+  }
+
+  /**
+   * Live markets of every active mutually exclusive (negRisk) event
+   */
+  async findExclusiveGroups(): Promise<Array<{ eventId: string; marketIds: string[] }>> {
+    const events = await this.prisma.event.findMany({
+      where: { negRisk: true, active: true, closed: false },
+      select: {
+        id: true,
+        markets: {
+          where: { active: true, resolvedAt: null },
+          select: { id: true },
+        },
+      },
+    });
+
+    return events.map((event) => ({
+      eventId: event.id,
+      marketIds: event.markets.map((market) => market.id),
+    }));
+  }
+
+  async upsert(event: UpsertEventInput): Promise<EventRecord> {
+    const data = {
+      slug: event.slug,
+      title: event.title,
+      description: event.description,
+      negRisk: event.negRisk,
+      active: event.active,
+      closed: event.closed,
+      endDate: event.endDate,
+    };
+
+    const upserted = await this.prisma.event.upsert({
+      where: { id: event.id },
+      create: { id: event.id, ...data },
+      update: data,
+    });
+
+    return this.toModel(upserted);
+  }
+
+  private toModel(prismaEvent: PrismaEvent): EventRecord {
+    return {
+      id: prismaEvent.id,
+      slug: prismaEvent.slug,
+      title: prismaEvent.title,
+      description: prismaEvent.description,
+      negRisk: prismaEvent.negRisk,
+      active: prismaEvent.active,
+      closed: prismaEvent.closed,
+      endDate: prismaEvent.endDate,
+      createdAt: prismaEvent.createdAt,
+      lastUpdated: prismaEvent.lastUpdated,
+    };
+  }
+}
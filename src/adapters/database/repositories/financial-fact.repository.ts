@@ -0,0 +1,91 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+import {
+  FinancialFactRecord,
+  FinancialMetric,
+  XbrlFinancialFact,
+} from '../../../types/edgar.types.js';
+
+export class FinancialFactRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Replace all financial facts for a filing (re-parsing is idempotent)
+   */
+  async replaceForFiling(filingId: string, cik: string, facts: XbrlFinancialFact[]): Promise<number> {
+    const [, created] = await this.prisma.$transaction([
+      this.prisma.financialFact.deleteMany({ where: { filingId } }),
+      this.prisma.financialFact.createMany({
+        data: facts.map((fact) => ({
+          filingId,
+          cik,
+          metric: fact.metric,
+          concept: fact.concept,
+          value: fact.value,
+          unit: fact.unit,
+          periodStart: fact.periodStart,
+          periodEnd: fact.periodEnd,
+          fiscalYear: fact.fiscalYear,
+          fiscalPeriod: fact.fiscalPeriod,
+        })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    return created.count;
+  }
+
+  /**
+   * Facts for a company, most recent period first
+   */
+  async findByCik(
+    cik: string,
+    metrics?: FinancialMetric[],
+    since?: Date,
+  ): Promise<FinancialFactRecord[]> {
+    const facts = await this.prisma.financialFact.findMany({
+      where: {
+        cik,
+        ...(metrics && metrics.length > 0 && { metric: { in: metrics } }),
+        ...(since && { periodEnd: { gte: since } }),
+      },
+      orderBy: [{ periodEnd: 'desc' }, { extractedAt: 'desc' }],
+    });
+
+    return facts.map((f) => this.toModel(f));
+  }
+
+  private toModel(prismaFact: {
+    id: string;
+    filingId: string;
+    cik: string;
+    metric: string;
+    concept: string;
+    value: { toString(): string };
+    unit: string;
+    periodStart: Date;
+    periodEnd: Date;
+    fiscalYear: number | null;
+    fiscalPeriod: string | null;
+    extractedAt: Date;
+  }): FinancialFactRecord {
+    return {
+      id: prismaFact.id,
+      filingId: prismaFact.filingId,
+      cik: prismaFact.cik,
+      metric: prismaFact.metric as FinancialMetric,
+      concept: prismaFact.concept,
+      value: Number(prismaFact.value),
+      unit: prismaFact.unit,
+      periodStart: prismaFact.periodStart,
+      periodEnd: prismaFact.periodEnd,
+      fiscalYear: prismaFact.fiscalYear,
+      fiscalPeriod: prismaFact.fiscalPeriod,
+      extractedAt: prismaFact.extractedAt,
+    };
+  }
+}
@@ -14,10 +14,14 @@ import {
   CreateInstrumentClassificationInput,
   CreateCompetitorRelationshipInput,
   CreateFactorExposureInput,
+  FactorType,
   IndustryType,
+  PeerEvidence,
   SectorType,
 } from '../../../types/document.types.js';
+import type { FactorBetaEstimate } from '../../../types/factor.types.js';
 import { getPrismaClient } from '../client.js';
+import { toJsonValue } from '../../../utils/prisma-json.js';
 import { getLogger } from '../../../utils/logger.js';
 
 export class InstrumentRepository {
@@ -125,6 +129,54 @@ export class InstrumentRepository {
     return instruments.map((i) => this.toModel(i));
   }
 
+  /**
+   * Symbol/name index rows for active equities and ETFs (market linking)
+   */
+  async findLinkCandidates(): Promise<
+    Array<{ id: string; symbol: string; name: string; formerNames: string[] | null }>
+  > {
+    const instruments = await this.prisma.instrument.findMany({
+      where: {
+        isActive: true,
+        type: { in: ['EQUITY', 'ETF'] },
+      },
+      select: { id: true, symbol: true, name: true, formerNames: true },
+    });
+
+    return instruments.map((i) => ({
+      id: i.id,
+      symbol: i.symbol,
+      name: i.name,
+      formerNames: i.formerNames as string[] | null,
+    }));
+  }
+
+  /**
+   * Link candidates restricted to instruments classified in the given
+   * industries (regulatory catalyst linking)
+   */
+  async findLinkCandidatesByIndustry(
+    industries: IndustryType[],
+  ): Promise<
+    Array<{ id: string; symbol: string; name: string; formerNames: string[] | null }>
+  > {
+    const instruments = await this.prisma.instrument.findMany({
+      where: {
+        isActive: true,
+        type: 'EQUITY',
+        classification: { industry: { in: industries } },
+      },
+      select: { id: true, symbol: true, name: true, formerNames: true },
+    });
+
+    return instruments.map((i) => ({
+      id: i.id,
+      symbol: i.symbol,
+      name: i.name,
+      formerNames: i.formerNames as string[] | null,
+    }));
+  }
+
   async create(input: CreateInstrumentInput): Promise<InstrumentRecord> {
     const created = await this.prisma.instrument.create({
       data: {
@@ -250,6 +302,58 @@ export class InstrumentRepository {
     return identifier ? this.toModel(identifier.instrument) : null;
   }
 
+  /**
+   * An instrument's identifier of the given type (e.g. its CIK), if it has one
+   */
+  async findIdentifierValue(instrumentId: string, type: IdentifierType): Promise<string | null> {
+    const identifier = await this.prisma.instrumentIdentifier.findFirst({
+      where: { instrumentId, type },
+      select: { value: true },
+    });
+
+    return identifier?.value ?? null;
+  }
+
+  /**
+   * Batch identifier lookup: instrument IDs keyed by identifier value
+   */
+  async findIdsByIdentifierValues(
+    type: IdentifierType,
+    values: string[],
+  ): Promise<Map<string, string>> {
+    if (values.length === 0) return new Map();
+
+    const identifiers = await this.prisma.instrumentIdentifier.findMany({
+      where: { type, value: { in: values } },
+      select: { instrumentId: true, value: true },
+    });
+
+    return new Map(identifiers.map((i) => [i.value, i.instrumentId]));
+  }
+
+  /**
+   * Instrument IDs keyed by symbol, for equity/ETF symbols that match
+   * exactly one instrument (symbols listed on several exchanges are skipped)
+   */
+  async findIdsByUniqueSymbols(symbols: string[]): Promise<Map<string, string>> {
+    if (symbols.length === 0) return new Map();
+
+    const instruments = await this.prisma.instrument.findMany({
+      where: { symbol: { in: symbols }, type: { in: ['EQUITY', 'ETF'] } },
+      select: { id: true, symbol: true },
+    });
+
+    const ids = new Map<string, string>();
+    const ambiguous = new Set<string>();
+    for (const instrument of instruments) {
+      if (ids.has(instrument.symbol)) ambiguous.add(instrument.symbol);
+      ids.set(instrument.symbol, instrument.id);
+    }
+    ambiguous.forEach((symbol) => ids.delete(symbol));
+
+    return ids;
+  }
+
   /**
    * Update TradingView symbol and exchange for an instrument
    */
@@ -513,6 +617,43 @@ export class InstrumentRepository {
     return relationships.map((r) => this.toCompetitorModel(r));
   }
 
+  /**
+   * Replace an instrument's outgoing competitor relationships with a fresh
+   * set; relationships not in the set are removed. Returns the number stored.
+   */
+  async replaceCompetitorRelationships(
+    instrumentId: string,
+    inputs: CreateCompetitorRelationshipInput[],
+  ): Promise<number> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.competitorRelationship.deleteMany({
+        where: {
+          instrumentId,
+          competitorId: { notIn: inputs.map((input) => input.competitorId) },
+        },
+      });
+
+      for (const input of inputs) {
+        const data = {
+          relationshipType: input.relationshipType,
+          confidence: input.confidence ?? 0.7,
+          rationale: input.rationale ?? null,
+          evidence: toJsonValue(input.evidence),
+        };
+
+        await tx.competitorRelationship.upsert({
+          where: {
+            instrumentId_competitorId: { instrumentId, competitorId: input.competitorId },
+          },
+          create: { instrumentId, competitorId: input.competitorId, ...data },
+          update: data,
+        });
+      }
+
+      return inputs.length;
+    });
+  }
+
   // ============================================================================
   // FACTOR EXPOSURES
   // ============================================================================
@@ -572,6 +713,41 @@ export class InstrumentRepository {
     }
   }
 
+  /**
+   * Instruments with at least one factor exposure, for beta estimation
+   */
+  async findInstrumentIdsWithFactorExposures(): Promise<string[]> {
+    const rows = await this.prisma.factorExposure.findMany({
+      distinct: ['instrumentId'],
+      select: { instrumentId: true },
+    });
+
+    return rows.map((r) => r.instrumentId);
+  }
+
+  /**
+   * Store a realized beta on an existing exposure. The keyword-mapped
+   * direction, magnitude and confidence are left untouched.
+   */
+  async updateFactorExposureBeta(
+    instrumentId: string,
+    factorType: FactorType,
+    estimate: FactorBetaEstimate,
+  ): Promise<void> {
+    await this.prisma.factorExposure.update({
+      where: { instrumentId_factorType: { instrumentId, factorType } },
+      data: {
+        beta: estimate.beta.toFixed(6),
+        betaStdError: estimate.stdError.toFixed(6),
+        rSquared: estimate.rSquared.toFixed(6),
+        betaObservations: estimate.observations,
+        betaWindowDays: estimate.windowDays,
+        betaEstimatedAt: estimate.estimatedAt,
+        betaDisagreement: estimate.disagreement,
+      },
+    });
+  }
+
   // ============================================================================
   // PRIVATE HELPERS
   // ============================================================================
@@ -664,6 +840,7 @@ export class InstrumentRepository {
       relationshipType: prismaCompetitor.relationshipType,
       confidence: prismaCompetitor.confidence.toString(),
       rationale: prismaCompetitor.rationale,
+      evidence: prismaCompetitor.evidence as PeerEvidence | null,
       discoveredAt: prismaCompetitor.discoveredAt,
       updatedAt: prismaCompetitor.updatedAt,
     };
@@ -680,6 +857,13 @@ export class InstrumentRepository {
       rationale: prismaExposure.rationale,
       discoveredAt: prismaExposure.discoveredAt,
       updatedAt: prismaExposure.updatedAt,
+      beta: prismaExposure.beta?.toString() ?? null,
+      betaStdError: prismaExposure.betaStdError?.toString() ?? null,
+      rSquared: prismaExposure.rSquared?.toString() ?? null,
+      betaObservations: prismaExposure.betaObservations,
+      betaWindowDays: prismaExposure.betaWindowDays,
+      betaEstimatedAt: prismaExposure.betaEstimatedAt,
+      betaDisagreement: prismaExposure.betaDisagreement,
     };
   }
 }
@@ -0,0 +1,163 @@
+import { Prisma, PrismaClient, MacroRelease as PrismaMacroRelease } from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+import type {
+  MacroCalendarFilters,
+  MacroImportance,
+  MacroReleaseRecord,
+  MacroSeries,
+  UpsertMacroReleaseInput,
+} from '../../../types/macro.types.js';
+
+export class MacroReleaseRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Insert or update calendar entries keyed by (series, releaseAt).
+   * Values left undefined keep their stored value; a changed actual
+   * clears processedAt so the release is processed again.
+   *
+   * @returns Number of entries written
+   */
+  async upsertMany(inputs: UpsertMacroReleaseInput[]): Promise<number> {
+    let written = 0;
+
+    for (const input of inputs) {
+      const where = { series_releaseAt: { series: input.series, releaseAt: input.releaseAt } };
+      const existing = await this.prisma.macroRelease.findUnique({ where });
+
+      const values = {
+        period: input.period,
+        ...(input.importance !== undefined && { importance: input.importance }),
+        ...(input.consensus !== undefined && { consensus: toDecimal(input.consensus) }),
+        ...(input.previous !== undefined && { previous: toDecimal(input.previous) }),
+        ...(input.actual !== undefined && { actual: toDecimal(input.actual) }),
+        ...(input.source !== undefined && { source: input.source }),
+      };
+
+      if (!existing) {
+        await this.prisma.macroRelease.create({
+          data: { series: input.series, releaseAt: input.releaseAt, ...values },
+        });
+      } else {
+        const actualChanged =
+          input.actual !== undefined &&
+          (existing.actual === null
+            ? input.actual !== null
+            : Number(existing.actual) !== input.actual);
+        const consensusChanged =
+          input.consensus !== undefined &&
+          (existing.consensus === null
+            ? input.consensus !== null
+            : Number(existing.consensus) !== input.consensus);
+
+        await this.prisma.macroRelease.update({
+          where,
+          data: {
+            ...values,
+            ...((actualChanged || (consensusChanged && existing.actual !== null)) && {
+              processedAt: null,
+            }),
+          },
+        });
+      }
+      written++;
+    }
+
+    return written;
+  }
+
+  async findById(id: string): Promise<MacroReleaseRecord | null> {
+    const release = await this.prisma.macroRelease.findUnique({ where: { id } });
+    return release ? this.toModel(release) : null;
+  }
+
+  /**
+   * Calendar entries in a window, earliest first
+   */
+  async findMany(filters: MacroCalendarFilters): Promise<MacroReleaseRecord[]> {
+    const releases = await this.prisma.macroRelease.findMany({
+      where: {
+        releaseAt: { gte: filters.from, lte: filters.to },
+        ...(filters.series && { series: filters.series }),
+      },
+      orderBy: { releaseAt: 'asc' },
+      take: Number(filters.limit || 200),
+    });
+
+    return releases.map((r) => this.toModel(r));
+  }
+
+  /**
+   * Releases with an actual value that haven't been processed yet
+   */
+  async findUnprocessed(limit = 100): Promise<MacroReleaseRecord[]> {
+    const releases = await this.prisma.macroRelease.findMany({
+      where: { actual: { not: null }, processedAt: null },
+      orderBy: { releaseAt: 'asc' },
+      take: limit,
+    });
+
+    return releases.map((r) => this.toModel(r));
+  }
+
+  /**
+   * Surprises of a series' earlier releases, most recent first
+   */
+  async findPastSurprises(series: MacroSeries, before: Date, limit: number): Promise<number[]> {
+    const releases = await this.prisma.macroRelease.findMany({
+      where: { series, releaseAt: { lt: before }, surprise: { not: null } },
+      orderBy: { releaseAt: 'desc' },
+      select: { surprise: true },
+      take: limit,
+    });
+
+    return releases.map((r) => Number(r.surprise));
+  }
+
+  async markProcessed(
+    id: string,
+    result: {
+      surprise: number | null;
+      standardizedSurprise: number | null;
+      documentId: string | null;
+    },
+  ): Promise<void> {
+    await this.prisma.macroRelease.update({
+      where: { id },
+      data: {
+        surprise: toDecimal(result.surprise),
+        standardizedSurprise: toDecimal(result.standardizedSurprise),
+        documentId: result.documentId,
+        processedAt: new Date(),
+      },
+    });
+  }
+
+  private toModel(release: PrismaMacroRelease): MacroReleaseRecord {
+    return {
+      id: release.id,
+      series: release.series as MacroSeries,
+      period: release.period,
+      releaseAt: release.releaseAt,
+      importance: release.importance as MacroImportance,
+      consensus: release.consensus?.toString() ?? null,
+      previous: release.previous?.toString() ?? null,
+      actual: release.actual?.toString() ?? null,
+      surprise: release.surprise?.toString() ?? null,
+      standardizedSurprise: release.standardizedSurprise?.toString() ?? null,
+      source: release.source,
+      documentId: release.documentId,
+      processedAt: release.processedAt,
+      createdAt: release.createdAt,
+      updatedAt: release.updatedAt,
+    };
+  }
+}
+
+function toDecimal(value: number | null): Prisma.Decimal | null {
+  return value === null ? null : new Prisma.Decimal(value.toFixed(6));
+}
@@ -0,0 +1,245 @@
+import {
+  Prisma,
+  PrismaClient,
+  MarketInstrumentLink as PrismaMarketInstrumentLink,
+} from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+import type {
+  InstrumentMarketLink,
+  MarketInstrumentLink,
+  MarketInstrumentLinkRecord,
+  MarketLinkMatchMethod,
+  MarketLinkStatus,
+  ProposedMarketLinkInput,
+} from '../../../types/market-link.types.js';
+
+const MARKET_SELECT = {
+  id: true,
+  question: true,
+  marketSlug: true,
+  categoryTag: true,
+  yesPrice: true,
+  noPrice: true,
+  expiryDate: true,
+  active: true,
+} as const;
+
+const INSTRUMENT_SELECT = {
+  id: true,
+  type: true,
+  symbol: true,
+  name: true,
+  exchange: true,
+  lastPrice: true,
+} as const;
+
+interface LinkQueryOptions {
+  minConfidence?: number;
+  includeRejected?: boolean;
+  // Only confirmed links, or proposed links at least this confident
+  trustedConfidence?: number;
+}
+
+export class MarketLinkRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Markets linked to an instrument, strongest link first
+   */
+  async findByInstrument(
+    instrumentId: string,
+    options: LinkQueryOptions = {},
+  ): Promise<InstrumentMarketLink[]> {
+    const links = await this.prisma.marketInstrumentLink.findMany({
+      where: {
+        instrumentId,
+        ...this.visibilityFilter(options),
+      },
+      include: { market: { select: MARKET_SELECT } },
+      orderBy: [{ confidence: 'desc' }, { market: { liquidity: 'desc' } }],
+    });
+
+    return links.map((link) => ({
+      ...this.toModel(link),
+      market: {
+        ...link.market,
+        yesPrice: link.market.yesPrice?.toString() ?? null,
+        noPrice: link.market.noPrice?.toString() ?? null,
+      },
+    }));
+  }
+
+  /**
+   * Instruments with at least one non-rejected link to an active market
+   */
+  async findLinkedInstrumentIds(): Promise<string[]> {
+    const links = await this.prisma.marketInstrumentLink.findMany({
+      where: { status: { not: 'rejected' }, market: { active: true } },
+      select: { instrumentId: true },
+      distinct: ['instrumentId'],
+    });
+
+    return links.map((link) => link.instrumentId);
+  }
+
+  /**
+   * Instruments linked to a market, strongest link first
+   */
+  async findByMarket(
+    marketId: string,
+    options: LinkQueryOptions = {},
+  ): Promise<MarketInstrumentLink[]> {
+    const links = await this.prisma.marketInstrumentLink.findMany({
+      where: {
+        marketId,
+        ...this.visibilityFilter(options),
+      },
+      include: { instrument: { select: INSTRUMENT_SELECT } },
+      orderBy: { confidence: 'desc' },
+    });
+
+    return links.map((link) => ({
+      ...this.toModel(link),
+      instrument: {
+        ...link.instrument,
+        lastPrice: link.instrument.lastPrice?.toString() ?? null,
+      },
+    }));
+  }
+
+  /**
+   * Replace a market's automatic links with a fresh set of proposals.
+   *
+   * Rows pinned by a manual override are never updated or removed. Rows
+   * whose confidence, methods and evidence are unchanged are not rewritten.
+   */
+  async replaceProposals(
+    marketId: string,
+    proposals: ProposedMarketLinkInput[],
+  ): Promise<{ proposed: number; removed: number }> {
+    return this.prisma.$transaction(async (tx) => {
+      const existing = await tx.marketInstrumentLink.findMany({ where: { marketId } });
+      const byInstrument = new Map(existing.map((link) => [link.instrumentId, link]));
+      const proposedIds = new Set(proposals.map((p) => p.instrumentId));
+
+      const stale = existing.filter(
+        (link) => !link.manualOverride && !proposedIds.has(link.instrumentId),
+      );
+      if (stale.length > 0) {
+        await tx.marketInstrumentLink.deleteMany({
+          where: { id: { in: stale.map((link) => link.id) } },
+        });
+      }
+
+      let proposed = 0;
+      for (const proposal of proposals) {
+        const current = byInstrument.get(proposal.instrumentId);
+        if (current?.manualOverride) continue;
+
+        const confidence = proposal.confidence.toFixed(2);
+        if (
+          current &&
+          current.confidence.toFixed(2) === confidence &&
+          current.evidence === proposal.evidence &&
+          JSON.stringify(current.matchMethods) === JSON.stringify(proposal.matchMethods)
+        ) {
+          continue;
+        }
+
+        await tx.marketInstrumentLink.upsert({
+          where: {
+            marketId_instrumentId: { marketId, instrumentId: proposal.instrumentId },
+          },
+          create: {
+            marketId,
+            instrumentId: proposal.instrumentId,
+            confidence,
+            matchMethods: proposal.matchMethods,
+            evidence: proposal.evidence,
+            status: 'proposed',
+          },
+          update: {
+            confidence,
+            matchMethods: proposal.matchMethods,
+            evidence: proposal.evidence,
+          },
+        });
+        proposed++;
+      }
+
+      return { proposed, removed: stale.length };
+    });
+  }
+
+  /**
+   * Pin a link as confirmed or rejected, creating it if the matcher never
+   * proposed it
+   */
+  async setOverride(
+    marketId: string,
+    instrumentId: string,
+    status: Exclude<MarketLinkStatus, 'proposed'>,
+  ): Promise<MarketInstrumentLinkRecord> {
+    const confidence = status === 'confirmed' ? '1.00' : '0.00';
+    const link = await this.prisma.marketInstrumentLink.upsert({
+      where: { marketId_instrumentId: { marketId, instrumentId } },
+      create: {
+        marketId,
+        instrumentId,
+        confidence,
+        matchMethods: ['MANUAL'],
+        status,
+        manualOverride: true,
+      },
+      update: {
+        confidence,
+        status,
+        manualOverride: true,
+      },
+    });
+
+    return this.toModel(link);
+  }
+
+  /**
+   * Drop a manual override; the next linking run re-proposes the pair if
+   * the matcher still finds it. Returns false when there was no override.
+   */
+  async clearOverride(marketId: string, instrumentId: string): Promise<boolean> {
+    const { count } = await this.prisma.marketInstrumentLink.deleteMany({
+      where: { marketId, instrumentId, manualOverride: true },
+    });
+    return count > 0;
+  }
+
+  private visibilityFilter(options: LinkQueryOptions): Prisma.MarketInstrumentLinkWhereInput {
+    return {
+      ...(!options.includeRejected && { status: { not: 'rejected' } }),
+      ...(options.minConfidence !== undefined && {
+        confidence: { gte: options.minConfidence },
+      }),
+      ...(options.trustedConfidence !== undefined && {
+        OR: [{ status: 'confirmed' }, { confidence: { gte: options.trustedConfidence } }],
+      }),
+    };
+  }
+
+  private toModel(link: PrismaMarketInstrumentLink): MarketInstrumentLinkRecord {
+    return {
+      id: link.id,
+      marketId: link.marketId,
+      instrumentId: link.instrumentId,
+      confidence: link.confidence.toString(),
+      matchMethods: link.matchMethods as MarketLinkMatchMethod[],
+      evidence: link.evidence,
+      status: link.status as MarketLinkStatus,
+      manualOverride: link.manualOverride,
+      createdAt: link.createdAt,
+      updatedAt: link.updatedAt,
+    };
+  }
+}
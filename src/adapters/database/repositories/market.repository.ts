@@ -1,5 +1,10 @@
 import { Prisma, PrismaClient, Market as PrismaMarket } from '@prisma/client';
-import { MarketFilters, MarketRecord } from '../../../types/market.types.js';
+import {
+  MarketFilters,
+  MarketRecord,
+  MarketResolution,
+  ResolutionSource,
+} from '../../../types/market.types.js';
 import { getPrismaClient } from '../client.js';
 
 export class MarketRepository {
@@ -84,6 +89,44 @@ export class MarketRepository {
     };
   }
 
+  /**
+   * Markets linked to an instrument (rejected links excluded), strongest
+   * link first
+   *
+   * @param trustedConfidence - Only confirmed links, or proposed links at
+   *                            least this confident
+   */
+  async findByInstrument(
+    instrumentId: string,
+    trustedConfidence?: number,
+  ): Promise<MarketRecord[]> {
+    const links = await this.prisma.marketInstrumentLink.findMany({
+      where: {
+        instrumentId,
+        status: { not: 'rejected' },
+        ...(trustedConfidence !== undefined && {
+          OR: [{ status: 'confirmed' }, { confidence: { gte: trustedConfidence } }],
+        }),
+      },
+      include: { market: true },
+      orderBy: [{ confidence: 'desc' }, { market: { liquidity: 'desc' } }],
+    });
+
+    return links.map((link) => this.toModel(link.market));
+  }
+
+  /**
+   * Sibling markets of an event, highest YES price first
+   */
+  async findByEvent(eventId: string): Promise<MarketRecord[]> {
+    const markets = await this.prisma.market.findMany({
+      where: { eventId },
+      orderBy: [{ yesPrice: { sort: 'desc', nulls: 'last' } }, { question: 'asc' }],
+    });
+
+    return markets.map((m) => this.toModel(m));
+  }
+
   async findAll(): Promise<MarketRecord[]> {
     const markets = await this.prisma.market.findMany({
       orderBy: { lastUpdated: 'desc' },
@@ -110,6 +153,8 @@ export class MarketRepository {
         volume: market.volume,
         lastIndexedBlock: market.lastIndexedBlock ? BigInt(market.lastIndexedBlock) : null,
         completedEarly: market.completedEarly,
+        eventId: market.eventId ?? null,
+        groupItemTitle: market.groupItemTitle ?? null,
       },
     });
 
@@ -151,6 +196,8 @@ export class MarketRepository {
         volume: market.volume,
         lastIndexedBlock: market.lastIndexedBlock ? BigInt(market.lastIndexedBlock) : null,
         completedEarly: market.completedEarly,
+        eventId: market.eventId ?? null,
+        groupItemTitle: market.groupItemTitle ?? null,
       },
       update: {
         question: market.question,
@@ -168,12 +215,59 @@ export class MarketRepository {
         volume: market.volume,
         lastIndexedBlock: market.lastIndexedBlock ? BigInt(market.lastIndexedBlock) : null,
         completedEarly: market.completedEarly,
+        eventId: market.eventId ?? null,
+        groupItemTitle: market.groupItemTitle ?? null,
       },
     });
 
     return this.toModel(upserted);
   }
 
+  /**
+   * Unresolved markets that closed or passed expiry, least recently checked
+   * first. `withPositions` restricts to markets somebody holds.
+   */
+  async findPendingResolution(options: {
+    now: Date;
+    limit: number;
+    withPositions?: boolean;
+  }): Promise<MarketRecord[]> {
+    const markets = await this.prisma.market.findMany({
+      where: {
+        resolvedAt: null,
+        OR: [{ active: false }, { expiryDate: { lte: options.now } }],
+        ...(options.withPositions && { positions: { some: { settledAt: null } } }),
+      },
+      orderBy: [{ resolutionCheckedAt: { sort: 'asc', nulls: 'first' } }, { expiryDate: 'desc' }],
+      take: options.limit,
+    });
+
+    return markets.map((m) => this.toModel(m));
+  }
+
+  async markResolved(id: string, resolution: MarketResolution): Promise<MarketRecord> {
+    const updated = await this.prisma.market.update({
+      where: { id },
+      data: {
+        active: false,
+        resolvedOutcome: resolution.outcome,
+        resolvedAt: resolution.resolvedAt,
+        payouts: resolution.payouts,
+        resolutionSource: resolution.source,
+        resolutionCheckedAt: new Date(),
+      },
+    });
+
+    return this.toModel(updated);
+  }
+
+  async markResolutionChecked(id: string): Promise<void> {
+    await this.prisma.market.update({
+      where: { id },
+      data: { resolutionCheckedAt: new Date() },
+    });
+  }
+
   /**
    * Centralised exclusion list for markets that are resolved or effectively
    * non-tradeable.  Used by both findMany() and searchMarkets() so the rules
@@ -241,6 +335,16 @@ export class MarketRepository {
         ? prismaMarket.lastIndexedBlock.toString()
         : null,
       completedEarly: prismaMarket.completedEarly,
+      eventId: prismaMarket.eventId,
+      groupItemTitle: prismaMarket.groupItemTitle,
+      resolution: prismaMarket.resolvedAt
+        ? {
+            outcome: prismaMarket.resolvedOutcome,
+            payouts: (prismaMarket.payouts ?? {}) as Record<string, number>,
+            resolvedAt: prismaMarket.resolvedAt,
+            source: prismaMarket.resolutionSource as ResolutionSource,
+          }
+        : null,
       createdAt: prismaMarket.createdAt,
       lastUpdated: prismaMarket.lastUpdated,
       imageUrl: null, // TODO: Fetch from Polymarket when available
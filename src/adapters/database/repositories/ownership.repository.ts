@@ -0,0 +1,240 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+import {
+  InsiderTransactionDirection,
+  InsiderTransactionRecord,
+  OwnershipStakeRecord,
+  ParsedInsiderTransaction,
+  ParsedOwnershipStake,
+} from '../../../types/edgar.types.js';
+
+type DecimalLike = { toString(): string };
+
+export class OwnershipRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Replace all insider transactions for a filing (re-parsing is idempotent)
+   */
+  async replaceInsiderTransactions(
+    filingId: string,
+    instrumentId: string,
+    formType: string,
+    transactions: ParsedInsiderTransaction[],
+  ): Promise<number> {
+    const [, created] = await this.prisma.$transaction([
+      this.prisma.insiderTransaction.deleteMany({ where: { filingId } }),
+      this.prisma.insiderTransaction.createMany({
+        data: transactions.map((tx) => ({
+          filingId,
+          instrumentId,
+          formType,
+          issuerCik: tx.issuerCik,
+          ownerCik: tx.ownerCik,
+          ownerName: tx.ownerName,
+          isDirector: tx.isDirector,
+          isOfficer: tx.isOfficer,
+          isTenPercentOwner: tx.isTenPercentOwner,
+          officerTitle: tx.officerTitle,
+          securityTitle: tx.securityTitle,
+          transactionDate: tx.transactionDate,
+          transactionCode: tx.transactionCode,
+          direction: tx.direction,
+          shares: tx.shares,
+          pricePerShare: tx.pricePerShare,
+          sharesOwnedAfter: tx.sharesOwnedAfter,
+        })),
+      }),
+    ]);
+
+    return created.count;
+  }
+
+  /**
+   * Insert or replace the stake reported by a 13D/13G filing
+   */
+  async upsertStake(
+    filingId: string,
+    instrumentId: string,
+    formType: string,
+    filingDate: Date,
+    stake: ParsedOwnershipStake,
+  ): Promise<OwnershipStakeRecord> {
+    const data = {
+      instrumentId,
+      formType,
+      filingDate,
+      subjectCik: stake.subjectCik,
+      filerCik: stake.filerCik,
+      filerName: stake.filerName,
+      isActivist: stake.isActivist,
+      isAmendment: stake.isAmendment,
+      percentOfClass: stake.percentOfClass,
+      sharesOwned: stake.sharesOwned,
+      eventDate: stake.eventDate,
+    };
+
+    const record = await this.prisma.ownershipStake.upsert({
+      where: { filingId },
+      create: { filingId, ...data },
+      update: data,
+    });
+
+    return this.toStakeModel(record);
+  }
+
+  /**
+   * Insider transactions for an instrument, most recent first
+   */
+  async findInsiderTransactions(
+    instrumentId: string,
+    options: { since?: Date; direction?: InsiderTransactionDirection; limit?: number } = {},
+  ): Promise<InsiderTransactionRecord[]> {
+    const transactions = await this.prisma.insiderTransaction.findMany({
+      where: {
+        instrumentId,
+        ...(options.since && { transactionDate: { gte: options.since } }),
+        ...(options.direction && { direction: options.direction }),
+      },
+      orderBy: [{ transactionDate: 'desc' }, { createdAt: 'desc' }],
+      ...(options.limit && { take: options.limit }),
+    });
+
+    return transactions.map((t) => this.toTransactionModel(t));
+  }
+
+  /**
+   * 13D/13G stakes for an instrument, most recent filing first
+   */
+  async findStakes(instrumentId: string, since?: Date): Promise<OwnershipStakeRecord[]> {
+    const stakes = await this.prisma.ownershipStake.findMany({
+      where: {
+        instrumentId,
+        ...(since && { filingDate: { gte: since } }),
+      },
+      orderBy: { filingDate: 'desc' },
+    });
+
+    return stakes.map((s) => this.toStakeModel(s));
+  }
+
+  /**
+   * Most recent stake a filer reported in a company before a given date
+   */
+  async findPriorStake(
+    instrumentId: string,
+    filerCik: string,
+    before: Date,
+  ): Promise<OwnershipStakeRecord | null> {
+    const stake = await this.prisma.ownershipStake.findFirst({
+      where: { instrumentId, filerCik, filingDate: { lt: before } },
+      orderBy: { filingDate: 'desc' },
+    });
+
+    return stake ? this.toStakeModel(stake) : null;
+  }
+
+  /**
+   * Instruments referenced by ownership records of the given filings
+   */
+  async findInstrumentIdsForFilings(filingIds: string[]): Promise<string[]> {
+    if (filingIds.length === 0) return [];
+
+    const [transactions, stakes] = await Promise.all([
+      this.prisma.insiderTransaction.findMany({
+        where: { filingId: { in: filingIds } },
+        select: { instrumentId: true },
+        distinct: ['instrumentId'],
+      }),
+      this.prisma.ownershipStake.findMany({
+        where: { filingId: { in: filingIds } },
+        select: { instrumentId: true },
+        distinct: ['instrumentId'],
+      }),
+    ]);
+
+    return [...new Set([...transactions, ...stakes].map((row) => row.instrumentId))];
+  }
+
+  private toTransactionModel(prismaTx: {
+    id: string;
+    filingId: string;
+    instrumentId: string;
+    issuerCik: string;
+    formType: string;
+    ownerCik: string;
+    ownerName: string;
+    isDirector: boolean;
+    isOfficer: boolean;
+    isTenPercentOwner: boolean;
+    officerTitle: string | null;
+    securityTitle: string;
+    transactionDate: Date;
+    transactionCode: string;
+    direction: string;
+    shares: DecimalLike;
+    pricePerShare: DecimalLike | null;
+    sharesOwnedAfter: DecimalLike | null;
+    createdAt: Date;
+  }): InsiderTransactionRecord {
+    return {
+      id: prismaTx.id,
+      filingId: prismaTx.filingId,
+      instrumentId: prismaTx.instrumentId,
+      issuerCik: prismaTx.issuerCik,
+      formType: prismaTx.formType,
+      ownerCik: prismaTx.ownerCik,
+      ownerName: prismaTx.ownerName,
+      isDirector: prismaTx.isDirector,
+      isOfficer: prismaTx.isOfficer,
+      isTenPercentOwner: prismaTx.isTenPercentOwner,
+      officerTitle: prismaTx.officerTitle,
+      securityTitle: prismaTx.securityTitle,
+      transactionDate: prismaTx.transactionDate,
+      transactionCode: prismaTx.transactionCode,
+      direction: prismaTx.direction as InsiderTransactionDirection,
+      shares: Number(prismaTx.shares),
+      pricePerShare: prismaTx.pricePerShare !== null ? Number(prismaTx.pricePerShare) : null,
+      sharesOwnedAfter: prismaTx.sharesOwnedAfter !== null ? Number(prismaTx.sharesOwnedAfter) : null,
+      createdAt: prismaTx.createdAt,
+    };
+  }
+
+  private toStakeModel(prismaStake: {
+    id: string;
+    filingId: string;
+    instrumentId: string;
+    subjectCik: string;
+    formType: string;
+    filingDate: Date;
+    filerCik: string | null;
+    filerName: string | null;
+    isActivist: boolean;
+    isAmendment: boolean;
+    percentOfClass: DecimalLike;
+    sharesOwned: DecimalLike | null;
+    eventDate: Date | null;
+    createdAt: Date;
+  }): OwnershipStakeRecord {
+    return {
+      id: prismaStake.id,
+      filingId: prismaStake.filingId,
+      instrumentId: prismaStake.instrumentId,
+      subjectCik: prismaStake.subjectCik,
+      formType: prismaStake.formType,
+      filingDate: prismaStake.filingDate,
+      filerCik: prismaStake.filerCik,
+      filerName: prismaStake.filerName,
+      isActivist: prismaStake.isActivist,
+      isAmendment: prismaStake.isAmendment,
+      percentOfClass: Number(prismaStake.percentOfClass),
+      sharesOwned: prismaStake.sharesOwned !== null ? Number(prismaStake.sharesOwned) : null,
+      eventDate: prismaStake.eventDate,
+      createdAt: prismaStake.createdAt,
+    };
+  }
+}
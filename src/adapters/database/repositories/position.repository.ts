@@ -1,18 +1,24 @@
-import { PrismaClient, Position as PrismaPosition } from '@prisma/client';
+import { Prisma, PrismaClient, Position as PrismaPosition } from '@prisma/client';
 import { Position } from '../../../types/position.types.js';
-import { Outcome } from '../../../types/trade.types.js';
+import { Outcome, TradingAccount } from '../../../types/trade.types.js';
 import { getPrismaClient } from '../client.js';
 
 export class PositionRepository {
-  private prisma: PrismaClient;
+  private prisma: PrismaClient | Prisma.TransactionClient;
 
-  constructor() {
-    this.prisma = getPrismaClient();
+  /**
+   * @param prisma - Pass a transaction client to read and write inside it
+   */
+  constructor(prisma: PrismaClient | Prisma.TransactionClient = getPrismaClient()) {
+    this.prisma = prisma;
   }
 
-  async findByWallet(walletAddress?: string): Promise<Position[]> {
+  async findByWallet(
+    walletAddress?: string,
+    account: TradingAccount = 'live',
+  ): Promise<Position[]> {
     const positions = await this.prisma.position.findMany({
-      where: walletAddress ? { walletAddress } : undefined,
+      where: walletAddress ? { account, walletAddress } : { account },
       orderBy: { updatedAt: 'desc' },
     });
 
@@ -31,10 +37,12 @@ export class PositionRepository {
     walletAddress: string,
     marketId: string,
     outcome: Outcome,
+    account: TradingAccount = 'live',
   ): Promise<Position | null> {
     const position = await this.prisma.position.findUnique({
       where: {
-        walletAddress_marketId_outcome: {
+        account_walletAddress_marketId_outcome: {
+          account,
           walletAddress,
           marketId,
           outcome,
@@ -45,6 +53,22 @@ export class PositionRepository {
     return position ? this.toModel(position) : null;
   }
 
+  /**
+   * Serialize writers of one position until the surrounding transaction ends,
+   * including positions that don't exist yet. Only meaningful on a
+   * transaction client.
+   */
+  async lock(
+    walletAddress: string,
+    marketId: string,
+    outcome: Outcome,
+    account: TradingAccount = 'live',
+  ): Promise<void> {
+    const key = `position:${account}:${walletAddress}:${marketId}:${outcome}`;
+    // Cast because Prisma cannot deserialize the function's void result
+    await this.prisma.$queryRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))::text`;
+  }
+
   async upsert(
     walletAddress: string,
     marketId: string,
@@ -55,18 +79,21 @@ export class PositionRepository {
       realizedPnl?: string;
       unrealizedPnl?: string;
     },
+    account: TradingAccount = 'live',
   ): Promise<Position> {
     const now = new Date();
 
     const upserted = await this.prisma.position.upsert({
       where: {
-        walletAddress_marketId_outcome: {
+        account_walletAddress_marketId_outcome: {
+          account,
           walletAddress,
           marketId,
           outcome,
         },
       },
       create: {
+        account,
         walletAddress,
         marketId,
         outcome,
@@ -93,10 +120,12 @@ export class PositionRepository {
     marketId: string,
     outcome: Outcome,
     unrealizedPnl: string,
+    account: TradingAccount = 'live',
   ): Promise<Position | null> {
     const updated = await this.prisma.position.update({
       where: {
-        walletAddress_marketId_outcome: {
+        account_walletAddress_marketId_outcome: {
+          account,
           walletAddress,
           marketId,
           outcome,
@@ -110,8 +139,61 @@ export class PositionRepository {
     return this.toModel(updated);
   }
 
+  /**
+   * Open positions on a market that haven't been settled yet
+   */
+  async findUnsettledByMarket(marketId: string): Promise<Position[]> {
+    const positions = await this.prisma.position.findMany({
+      where: { marketId, settledAt: null },
+    });
+
+    return positions.map((p) => this.toModel(p));
+  }
+
+  /**
+   * Markets that already resolved but still have unsettled positions, e.g.
+   * positions created from trades ingested after resolution
+   */
+  async findResolvedMarketsWithUnsettledPositions(): Promise<string[]> {
+    const positions = await this.prisma.position.findMany({
+      where: { settledAt: null, market: { resolvedAt: { not: null } } },
+      select: { marketId: true },
+      distinct: ['marketId'],
+    });
+
+    return positions.map((p) => p.marketId);
+  }
+
+  async settle(
+    walletAddress: string,
+    marketId: string,
+    outcome: Outcome,
+    data: { realizedPnl: string; settlementPrice: string },
+    account: TradingAccount = 'live',
+  ): Promise<Position> {
+    const updated = await this.prisma.position.update({
+      where: {
+        account_walletAddress_marketId_outcome: {
+          account,
+          walletAddress,
+          marketId,
+          outcome,
+        },
+      },
+      data: {
+        realizedPnl: data.realizedPnl,
+        unrealizedPnl: '0',
+        settlementPrice: data.settlementPrice,
+        settledAt: new Date(),
+      },
+    });
+
+    return this.toModel(updated);
+  }
+
   private toModel(prismaPosition: PrismaPosition): Position {
     return {
+      account: prismaPosition.account as TradingAccount,
       walletAddress: prismaPosition.walletAddress,
       marketId: prismaPosition.marketId,
       outcome: prismaPosition.outcome as Outcome,
@@ -119,6 +201,8 @@ export class PositionRepository {
       size: prismaPosition.size.toString(),
       realizedPnl: prismaPosition.realizedPnl.toString(),
       unrealizedPnl: prismaPosition.unrealizedPnl.toString(),
+      settlementPrice: prismaPosition.settlementPrice?.toString() ?? null,
+      settledAt: prismaPosition.settledAt,
       lastTradeAt: prismaPosition.lastTradeAt,
       updatedAt: prismaPosition.updatedAt,
     };
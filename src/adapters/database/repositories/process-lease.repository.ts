@@ -0,0 +1,36 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+
+export class ProcessLeaseRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Take or renew a lease. Succeeds when nobody holds it, the current
+   * holder is `holder`, or the previous holder let it expire. Expiry is
+   * judged on the database clock so app servers' clocks don't matter.
+   * @returns Whether `holder` holds the lease for the next `ttlMs`
+   */
+  async acquire(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const rows = await this.prisma.$queryRaw<Array<{ holder: string }>>`
+      INSERT INTO process_leases (name, holder, expires_at, updated_at)
+      VALUES (${name}, ${holder}, now() + ${ttlMs} * interval '1 millisecond', now())
+      ON CONFLICT (name) DO UPDATE
+        SET holder = EXCLUDED.holder, expires_at = EXCLUDED.expires_at, updated_at = now()
+        WHERE process_leases.holder = EXCLUDED.holder OR process_leases.expires_at < now()
+      RETURNING holder`;
+
+    return rows.length > 0;
+  }
+
+  /**
+   * Give up a lease early so another process can take over without waiting
+   * for it to expire
+   */
+  async release(name: string, holder: string): Promise<void> {
+    await this.prisma.processLease.deleteMany({ where: { name, holder } });
+  }
+}
@@ -0,0 +1,87 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+import { toJsonValue } from '../../../utils/prisma-json.js';
+import type {
+  RiskContributor,
+  RiskScoreRecord,
+  RiskScoreResult,
+  RiskSubScores,
+} from '../../../types/risk-score.types.js';
+
+export class RiskScoreRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  async create(instrumentId: string, result: RiskScoreResult, computedAt: Date): Promise<RiskScoreRecord> {
+    const row = await this.prisma.instrumentRiskScore.create({
+      data: {
+        instrumentId,
+        score: result.score,
+        subScores: toJsonValue(result.subScores),
+        contributors: toJsonValue(result.contributors),
+        signalCount: result.signalCount,
+        computedAt,
+      },
+    });
+
+    return this.toModel(row);
+  }
+
+  async findLatest(instrumentId: string): Promise<RiskScoreRecord | null> {
+    const row = await this.prisma.instrumentRiskScore.findFirst({
+      where: { instrumentId },
+      orderBy: { computedAt: 'desc' },
+    });
+
+    return row ? this.toModel(row) : null;
+  }
+
+  async findHistory(instrumentId: string, since: Date, limit: number): Promise<RiskScoreRecord[]> {
+    const rows = await this.prisma.instrumentRiskScore.findMany({
+      where: { instrumentId, computedAt: { gte: since } },
+      orderBy: { computedAt: 'desc' },
+      take: limit,
+    });
+
+    return rows.map((r) => this.toModel(r));
+  }
+
+  /**
+   * Most recent score for every instrument scored since the cutoff
+   */
+  async findLatestPerInstrument(since: Date): Promise<RiskScoreRecord[]> {
+    const rows = await this.prisma.instrumentRiskScore.findMany({
+      where: { computedAt: { gte: since } },
+      distinct: ['instrumentId'],
+      orderBy: [{ instrumentId: 'asc' }, { computedAt: 'desc' }],
+    });
+
+    return rows.map((r) => this.toModel(r));
+  }
+
+  private toModel(row: {
+    id: string;
+    instrumentId: string;
+    score: { toString(): string };
+    subScores: unknown;
+    contributors: unknown;
+    signalCount: number;
+    computedAt: Date;
+  }): RiskScoreRecord {
+    return {
+      id: row.id,
+      instrumentId: row.instrumentId,
+      score: Number(row.score),
+      subScores: row.subScores as RiskSubScores,
+      contributors: ((row.contributors as RiskContributor[]) ?? []).map((c) => ({
+        ...c,
+        computedAt: new Date(c.computedAt),
+      })),
+      signalCount: row.signalCount,
+      computedAt: row.computedAt,
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { PrismaClient, SearchReindexRun as PrismaSearchReindexRun } from '@prisma/client';
+import { getPrismaClient } from '../client.js';
+
+export type SearchReindexStatus = 'in_progress' | 'completed' | 'failed';
+
+export type SearchReindexPhase =
+  'creating' | 'backfilling' | 'catching_up' | 'swapping' | 'cleaning_up' | 'done';
+
+export interface SearchReindexRunRecord {
+  id: string;
+  alias: string;
+  targetIndex: string;
+  previousIndex: string | null;
+  status: SearchReindexStatus;
+  phase: SearchReindexPhase;
+  marketsIndexed: number;
+  instrumentsIndexed: number;
+  signalsIndexed: number;
+  caughtUp: number;
+  errorMessage: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+  updatedAt: Date;
+}
+
+export type SearchReindexRunUpdate = Partial<
+  Pick<
+    SearchReindexRunRecord,
+    | 'previousIndex'
+    | 'status'
+    | 'phase'
+    | 'marketsIndexed'
+    | 'instrumentsIndexed'
+    | 'signalsIndexed'
+    | 'caughtUp'
+    | 'errorMessage'
+    | 'completedAt'
+  >
+>;
+
+export class SearchReindexRunRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  async create(input: {
+    alias: string;
+    targetIndex: string;
+    previousIndex: string | null;
+  }): Promise<SearchReindexRunRecord> {
+    const created = await this.prisma.searchReindexRun.create({
+      data: {
+        alias: input.alias,
+        targetIndex: input.targetIndex,
+        previousIndex: input.previousIndex,
+        status: 'in_progress',
+        phase: 'creating',
+      },
+    });
+
+    return this.toModel(created);
+  }
+
+  async update(id: string, update: SearchReindexRunUpdate): Promise<SearchReindexRunRecord> {
+    const updated = await this.prisma.searchReindexRun.update({
+      where: { id },
+      data: update,
+    });
+
+    return this.toModel(updated);
+  }
+
+  async findById(id: string): Promise<SearchReindexRunRecord | null> {
+    const record = await this.prisma.searchReindexRun.findUnique({
+      where: { id },
+    });
+
+    return record ? this.toModel(record) : null;
+  }
+
+  async findInProgress(alias: string): Promise<SearchReindexRunRecord | null> {
+    const record = await this.prisma.searchReindexRun.findFirst({
+      where: { alias, status: 'in_progress' },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    return record ? this.toModel(record) : null;
+  }
+
+  async findRecent(limit = 10): Promise<SearchReindexRunRecord[]> {
+    const records = await this.prisma.searchReindexRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+
+    return records.map((record) => this.toModel(record));
+  }
+
+  private toModel(record: PrismaSearchReindexRun): SearchReindexRunRecord {
+    return {
+      id: record.id,
+      alias: record.alias,
+      targetIndex: record.targetIndex,
+      previousIndex: record.previousIndex,
+      status: record.status as SearchReindexStatus,
+      phase: record.phase as SearchReindexPhase,
+      marketsIndexed: record.marketsIndexed,
+      instrumentsIndexed: record.instrumentsIndexed,
+      signalsIndexed: record.signalsIndexed,
+      caughtUp: record.caughtUp,
+      errorMessage: record.errorMessage,
+      startedAt: record.startedAt,
+      completedAt: record.completedAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
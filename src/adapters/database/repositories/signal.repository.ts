@@ -6,7 +6,9 @@ import {
   SignalType,
   SignalSeverity,
 } from '../../../types/edgar.types.js';
+import type { SignalBacktestQuery } from '../../../types/backtest.types.js';
 import { getPrismaClient } from '../client.js';
+import { emitSignalPersisted } from '../../../services/signals/signal-events.js';
 
 export class SignalRepository {
   private prisma: PrismaClient;
@@ -132,6 +134,54 @@ export class SignalRepository {
     return signals.map((s) => this.toModel(s));
   }
 
+  /**
+   * Instruments that currently have at least one active signal
+   */
+  async findInstrumentIdsWithActiveSignals(): Promise<string[]> {
+    const rows = await this.prisma.instrumentSignal.findMany({
+      where: {
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: new Date() } },
+        ],
+      },
+      distinct: ['instrumentId'],
+      select: { instrumentId: true },
+    });
+
+    return rows.map((r) => r.instrumentId);
+  }
+
+  /**
+   * Historical signals for backtesting, oldest first by first emission
+   * (includes expired rows)
+   */
+  async findForBacktest(query: SignalBacktestQuery): Promise<SignalRecord[]> {
+    const range = {
+      ...(query.from && { gte: query.from }),
+      ...(query.to && { lte: query.to }),
+    };
+    const signals = await this.prisma.instrumentSignal.findMany({
+      where: {
+        ...(query.signalTypes?.length && { signalType: { in: query.signalTypes } }),
+        ...(query.severities?.length && { severity: { in: query.severities } }),
+        ...(query.instrumentIds?.length && { instrumentId: { in: query.instrumentIds } }),
+        ...(query.minScore !== undefined && { score: { gte: query.minScore } }),
+        // By first emission, falling back to the last refresh for older rows
+        ...((query.from || query.to) && {
+          OR: [
+            { firstSeenAt: range },
+            { firstSeenAt: null, computedAt: range },
+          ],
+        }),
+      },
+      orderBy: [{ firstSeenAt: { sort: 'asc', nulls: 'first' } }, { computedAt: 'asc' }],
+      take: query.limit,
+    });
+
+    return signals.map((s) => this.toModel(s));
+  }
+
   async upsertSignal(input: CreateSignalInput): Promise<SignalRecord> {
     // Find existing signal of same type for this instrument
     const existing = await this.prisma.instrumentSignal.findFirst({
@@ -160,9 +210,17 @@ export class SignalRepository {
         },
       });
 
-      return this.toModel(updated);
+      const record = this.toModel(updated);
+      emitSignalPersisted({
+        signal: record,
+        created: false,
+        previousSeverity: existing.severity as SignalSeverity,
+      });
+
+      return record;
     } else {
       // Create new signal
+      const computedAt = input.computedAt ?? new Date();
       const created = await this.prisma.instrumentSignal.create({
         data: {
           instrumentId: input.instrumentId,
@@ -172,12 +230,16 @@ export class SignalRepository {
           reason: input.reason,
           evidenceFacts: input.evidenceFacts,
           sourceFiling: input.sourceFiling,
-          computedAt: input.computedAt ?? new Date(),
+          computedAt,
+          firstSeenAt: computedAt,
           expiresAt: input.expiresAt,
         },
       });
 
-      return this.toModel(created);
+      const record = this.toModel(created);
+      emitSignalPersisted({ signal: record, created: true, previousSeverity: null });
+
+      return record;
     }
   }
 
@@ -239,6 +301,7 @@ export class SignalRepository {
       evidenceFacts: prismaSignal.evidenceFacts as string[],
       sourceFiling: prismaSignal.sourceFiling,
       computedAt: prismaSignal.computedAt,
+      firstSeenAt: prismaSignal.firstSeenAt ?? null,
       expiresAt: prismaSignal.expiresAt,
     };
   }
@@ -85,6 +85,34 @@ export class TradeEventRepository {
     return rows.map((row) => this.toModel(row));
   }
 
+  /**
+   * The most recent `limit` trades in the range, oldest first
+   */
+  async findLatestByMarket(
+    marketId: string,
+    outcome: string,
+    from: Date,
+    to: Date,
+    limit: number,
+  ): Promise<TradeEventRecord[]> {
+    const rows = await this.prisma.tradeEvent.findMany({
+      where: {
+        marketId,
+        outcome,
+        timestamp: {
+          gte: from,
+          lte: to,
+        },
+      },
+      orderBy: {
+        timestamp: 'desc',
+      },
+      take: limit,
+    });
+
+    return rows.reverse().map((row) => this.toModel(row));
+  }
+
   private toModel(event: PrismaTradeEvent): TradeEventRecord {
     return {
       id: event.id,
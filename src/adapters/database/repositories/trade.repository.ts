@@ -1,12 +1,15 @@
-import { PrismaClient, Trade as PrismaTrade } from '@prisma/client';
-import { Trade } from '../../../types/trade.types.js';
+import { Prisma, PrismaClient, Trade as PrismaTrade } from '@prisma/client';
+import { Trade, TradingAccount } from '../../../types/trade.types.js';
 import { getPrismaClient } from '../client.js';
 
 export class TradeRepository {
-  private prisma: PrismaClient;
+  private prisma: PrismaClient | Prisma.TransactionClient;
 
-  constructor() {
-    this.prisma = getPrismaClient();
+  /**
+   * @param prisma - Pass a transaction client to read and write inside it
+   */
+  constructor(prisma: PrismaClient | Prisma.TransactionClient = getPrismaClient()) {
+    this.prisma = prisma;
   }
 
   async findById(id: string): Promise<Trade | null> {
@@ -17,9 +20,9 @@ export class TradeRepository {
     return trade ? this.toModel(trade) : null;
   }
 
-  async findByWallet(walletAddress: string): Promise<Trade[]> {
+  async findByWallet(walletAddress: string, account: TradingAccount = 'live'): Promise<Trade[]> {
     const trades = await this.prisma.trade.findMany({
-      where: { walletAddress },
+      where: { account, walletAddress },
       orderBy: { timestamp: 'desc' },
     });
 
@@ -37,7 +40,7 @@ export class TradeRepository {
 
   async findLatestTimestampByWallet(walletAddress: string): Promise<Date | null> {
     const trade = await this.prisma.trade.findFirst({
-      where: { walletAddress },
+      where: { account: 'live', walletAddress },
       orderBy: { timestamp: 'desc' },
       select: { timestamp: true },
     });
@@ -48,6 +51,7 @@ export class TradeRepository {
   async create(trade: Omit<Trade, 'id' | 'timestamp' | 'confirmedAt'>): Promise<Trade> {
     const created = await this.prisma.trade.create({
       data: {
+        account: trade.account,
         walletAddress: trade.walletAddress,
         marketId: trade.marketId,
         outcome: trade.outcome,
@@ -69,6 +73,7 @@ export class TradeRepository {
       where: { id: trade.id },
       create: {
         id: trade.id,
+        account: trade.account,
         walletAddress: trade.walletAddress,
         marketId: trade.marketId,
         outcome: trade.outcome,
@@ -97,6 +102,7 @@ export class TradeRepository {
   private toModel(prismaTrade: PrismaTrade): Trade {
     return {
       id: prismaTrade.id,
+      account: prismaTrade.account as TradingAccount,
       walletAddress: prismaTrade.walletAddress,
       marketId: prismaTrade.marketId,
       outcome: prismaTrade.outcome as 'YES' | 'NO',
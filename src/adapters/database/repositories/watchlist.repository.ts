@@ -3,11 +3,43 @@ import { getPrismaClient } from '../client.js';
 import type {
   WatchlistRecord,
   WatchlistItemRecord,
-  WatchlistWithMarkets,
+  WatchlistWithItems,
+  WatchlistTargetType,
   CreateWatchlistInput,
   UpdateWatchlistInput,
 } from '../../../types/watchlist.types.js';
 
+const ITEM_INCLUDE = {
+  market: {
+    select: {
+      id: true,
+      question: true,
+      categoryTag: true,
+      yesPrice: true,
+      noPrice: true,
+      expiryDate: true,
+      active: true,
+    },
+  },
+  instrument: {
+    select: {
+      id: true,
+      type: true,
+      symbol: true,
+      name: true,
+      exchange: true,
+      lastPrice: true,
+    },
+  },
+} as const;
+
+type DecimalLike = { toString(): string };
+
+interface WatchlistTarget {
+  type: WatchlistTargetType;
+  id: string;
+}
+
 export class WatchlistRepository {
   private prisma: PrismaClient;
 
@@ -16,10 +48,11 @@ export class WatchlistRepository {
   }
 
   /**
-   * Find all watchlists, ordered by sortOrder
+   * Find all watchlists for a wallet, ordered by sortOrder
    */
-  async findAll(): Promise<WatchlistRecord[]> {
+  async findByOwner(ownerWallet: string): Promise<WatchlistRecord[]> {
     const watchlists = await this.prisma.watchlist.findMany({
+      where: { ownerWallet: ownerWallet.toLowerCase() },
       orderBy: { sortOrder: 'asc' },
     });
 
@@ -27,80 +60,73 @@ export class WatchlistRepository {
   }
 
   /**
-   * Find a watchlist by ID
+   * Find a watchlist by ID, scoped to its owner
    */
-  async findById(id: string): Promise<WatchlistRecord | null> {
-    const watchlist = await this.prisma.watchlist.findUnique({
-      where: { id },
+  async findByIdForOwner(id: string, ownerWallet: string): Promise<WatchlistRecord | null> {
+    const watchlist = await this.prisma.watchlist.findFirst({
+      where: { id, ownerWallet: ownerWallet.toLowerCase() },
     });
 
     return watchlist ? this.toModel(watchlist) : null;
   }
 
   /**
-   * Find a watchlist by sortOrder (1-9)
+   * Find a wallet's watchlist by sortOrder (1-9)
    */
-  async findBySortOrder(sortOrder: number): Promise<WatchlistRecord | null> {
+  async findBySortOrder(ownerWallet: string, sortOrder: number): Promise<WatchlistRecord | null> {
     const watchlist = await this.prisma.watchlist.findUnique({
-      where: { sortOrder },
+      where: {
+        ownerWallet_sortOrder: {
+          ownerWallet: ownerWallet.toLowerCase(),
+          sortOrder,
+        },
+      },
     });
 
     return watchlist ? this.toModel(watchlist) : null;
   }
 
   /**
-   * Get a watchlist with all its markets (with full market details)
+   * Get a watchlist with all its items (with market / instrument details)
    */
-  async findByIdWithMarkets(id: string): Promise<WatchlistWithMarkets | null> {
+  async findByIdWithItems(id: string): Promise<WatchlistWithItems | null> {
     const watchlist = await this.prisma.watchlist.findUnique({
       where: { id },
       include: {
         items: {
-          include: {
-            market: {
-              select: {
-                id: true,
-                question: true,
-                categoryTag: true,
-                yesPrice: true,
-                noPrice: true,
-                expiryDate: true,
-                active: true,
-              },
-            },
-          },
+          include: ITEM_INCLUDE,
           orderBy: { addedAt: 'desc' },
         },
       },
     });
 
-    if (!watchlist) return null;
+    return watchlist ? this.toModelWithItems(watchlist) : null;
+  }
 
-    return {
-      ...this.toModel(watchlist),
-      items: watchlist.items.map((item) => ({
-        id: item.id,
-        marketId: item.marketId,
-        addedAt: item.addedAt,
-        market: {
-          id: item.market.id,
-          question: item.market.question,
-          categoryTag: item.market.categoryTag,
-          yesPrice: item.market.yesPrice?.toString() ?? null,
-          noPrice: item.market.noPrice?.toString() ?? null,
-          expiryDate: item.market.expiryDate,
-          active: item.market.active,
+  /**
+   * Get a shared watchlist with its items by share token
+   */
+  async findByShareToken(shareToken: string): Promise<WatchlistWithItems | null> {
+    const watchlist = await this.prisma.watchlist.findUnique({
+      where: { shareToken },
+      include: {
+        items: {
+          include: ITEM_INCLUDE,
+          orderBy: { addedAt: 'desc' },
         },
-      })),
-    };
+      },
+    });
+
+    return watchlist ? this.toModelWithItems(watchlist) : null;
   }
 
   /**
    * Create a new watchlist
    */
-  async create(input: CreateWatchlistInput): Promise<WatchlistRecord> {
+  async create(ownerWallet: string, input: CreateWatchlistInput): Promise<WatchlistRecord> {
     const watchlist = await this.prisma.watchlist.create({
       data: {
+        ownerWallet: ownerWallet.toLowerCase(),
         name: input.name,
         sortOrder: input.sortOrder,
       },
@@ -112,132 +138,131 @@ export class WatchlistRepository {
   /**
    * Update a watchlist
    */
-  async update(id: string, input: UpdateWatchlistInput): Promise<WatchlistRecord | null> {
-    try {
-      const watchlist = await this.prisma.watchlist.update({
-        where: { id },
-        data: {
-          ...(input.name !== undefined && { name: input.name }),
-          ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
-        },
-      });
+  async update(id: string, input: UpdateWatchlistInput): Promise<WatchlistRecord> {
+    const watchlist = await this.prisma.watchlist.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
+      },
+    });
 
-      return this.toModel(watchlist);
-    } catch (error) {
-      return null;
-    }
+    return this.toModel(watchlist);
   }
 
   /**
-   * Delete a watchlist (cascade deletes all items)
+   * Set or clear the read-only share token
    */
-  async delete(id: string): Promise<boolean> {
-    try {
-      await this.prisma.watchlist.delete({
-        where: { id },
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
+  async setShareToken(id: string, shareToken: string | null): Promise<WatchlistRecord> {
+    const watchlist = await this.prisma.watchlist.update({
+      where: { id },
+      data: { shareToken },
+    });
+
+    return this.toModel(watchlist);
   }
 
   /**
-   * Add a market to a watchlist
+   * Delete a watchlist (cascade deletes all items)
    */
-  async addMarket(watchlistId: string, marketId: string): Promise<WatchlistItemRecord> {
-    const item = await this.prisma.watchlistItem.create({
-      data: {
-        watchlistId,
-        marketId,
-      },
+  async delete(id: string): Promise<void> {
+    await this.prisma.watchlist.delete({
+      where: { id },
     });
-
-    return this.toItemModel(item);
   }
 
   /**
-   * Remove a market from a watchlist
+   * Toggle membership of a market or instrument (add if not present, remove if present)
+   * Returns true if added, false if removed
    */
-  async removeMarket(watchlistId: string, marketId: string): Promise<boolean> {
-    try {
-      await this.prisma.watchlistItem.delete({
-        where: {
-          watchlistId_marketId: {
-            watchlistId,
-            marketId,
-          },
-        },
-      });
-      return true;
-    } catch (error) {
+  async toggleItem(watchlistId: string, target: WatchlistTarget): Promise<boolean> {
+    const where = {
+      watchlistId,
+      ...(target.type === 'market' ? { marketId: target.id } : { instrumentId: target.id }),
+    };
+
+    const existing = await this.prisma.watchlistItem.findFirst({ where });
+
+    if (existing) {
+      await this.prisma.watchlistItem.delete({ where: { id: existing.id } });
       return false;
     }
+
+    await this.prisma.watchlistItem.create({ data: where });
+    return true;
   }
 
   /**
-   * Check if a market is in a watchlist
+   * Get a wallet's watchlists that contain a specific market or instrument
    */
-  async isMarketInWatchlist(watchlistId: string, marketId: string): Promise<boolean> {
-    const item = await this.prisma.watchlistItem.findUnique({
+  async findByOwnerContaining(ownerWallet: string, target: WatchlistTarget): Promise<WatchlistRecord[]> {
+    const watchlists = await this.prisma.watchlist.findMany({
       where: {
-        watchlistId_marketId: {
-          watchlistId,
-          marketId,
+        ownerWallet: ownerWallet.toLowerCase(),
+        items: {
+          some: target.type === 'market' ? { marketId: target.id } : { instrumentId: target.id },
         },
       },
+      orderBy: { sortOrder: 'asc' },
     });
 
-    return item !== null;
+    return watchlists.map((w) => this.toModel(w));
   }
 
   /**
-   * Toggle market membership (add if not present, remove if present)
-   * Returns true if added, false if removed
+   * Of the given watchlists, the IDs of those that hold an instrument
    */
-  async toggleMarket(watchlistId: string, marketId: string): Promise<boolean> {
-    const exists = await this.isMarketInWatchlist(watchlistId, marketId);
-
-    if (exists) {
-      await this.removeMarket(watchlistId, marketId);
-      return false;
-    } else {
-      await this.addMarket(watchlistId, marketId);
-      return true;
+  async findIdsContainingInstrument(watchlistIds: string[], instrumentId: string): Promise<Set<string>> {
+    if (watchlistIds.length === 0) {
+      return new Set();
     }
+
+    const items = await this.prisma.watchlistItem.findMany({
+      where: { watchlistId: { in: watchlistIds }, instrumentId },
+      select: { watchlistId: true },
+    });
+
+    return new Set(items.map((item) => item.watchlistId));
   }
 
   /**
-   * Get all watchlists that contain a specific market
+   * Reassign watchlists from one owner to another, skipping any whose
+   * sortOrder the new owner already uses. Returns the number moved.
    */
-  async findWatchlistsForMarket(marketId: string): Promise<WatchlistRecord[]> {
-    const watchlists = await this.prisma.watchlist.findMany({
+  async reassignOwner(fromWallet: string, toWallet: string): Promise<number> {
+    const taken = await this.prisma.watchlist.findMany({
+      where: { ownerWallet: toWallet.toLowerCase() },
+      select: { sortOrder: true },
+    });
+
+    const result = await this.prisma.watchlist.updateMany({
       where: {
-        items: {
-          some: {
-            marketId,
-          },
-        },
+        ownerWallet: fromWallet.toLowerCase(),
+        sortOrder: { notIn: taken.map((w) => w.sortOrder) },
       },
-      orderBy: { sortOrder: 'asc' },
+      data: { ownerWallet: toWallet.toLowerCase() },
     });
 
-    return watchlists.map((w) => this.toModel(w));
+    return result.count;
   }
 
   // Private helper methods
 
   private toModel(watchlist: {
     id: string;
+    ownerWallet: string;
     name: string;
     sortOrder: number;
+    shareToken: string | null;
     createdAt: Date;
     updatedAt: Date;
   }): WatchlistRecord {
     return {
       id: watchlist.id,
+      ownerWallet: watchlist.ownerWallet,
       name: watchlist.name,
       sortOrder: watchlist.sortOrder,
+      shareToken: watchlist.shareToken,
       createdAt: watchlist.createdAt,
       updatedAt: watchlist.updatedAt,
     };
@@ -246,14 +271,71 @@ export class WatchlistRepository {
   private toItemModel(item: {
     id: string;
     watchlistId: string;
-    marketId: string;
+    marketId: string | null;
+    instrumentId: string | null;
     addedAt: Date;
   }): WatchlistItemRecord {
     return {
       id: item.id,
       watchlistId: item.watchlistId,
+      targetType: item.instrumentId ? 'instrument' : 'market',
       marketId: item.marketId,
+      instrumentId: item.instrumentId,
       addedAt: item.addedAt,
     };
   }
+
+  private toModelWithItems(
+    watchlist: Parameters<WatchlistRepository['toModel']>[0] & {
+      items: Array<
+        Parameters<WatchlistRepository['toItemModel']>[0] & {
+          market: {
+            id: string;
+            question: string;
+            categoryTag: string | null;
+            yesPrice: DecimalLike | null;
+            noPrice: DecimalLike | null;
+            expiryDate: Date;
+            active: boolean;
+          } | null;
+          instrument: {
+            id: string;
+            type: string;
+            symbol: string;
+            name: string;
+            exchange: string | null;
+            lastPrice: DecimalLike | null;
+          } | null;
+        }
+      >;
+    },
+  ): WatchlistWithItems {
+    return {
+      ...this.toModel(watchlist),
+      items: watchlist.items.map((item) => ({
+        ...this.toItemModel(item),
+        market: item.market
+          ? {
+              id: item.market.id,
+              question: item.market.question,
+              categoryTag: item.market.categoryTag,
+              yesPrice: item.market.yesPrice?.toString() ?? null,
+              noPrice: item.market.noPrice?.toString() ?? null,
+              expiryDate: item.market.expiryDate,
+              active: item.market.active,
+            }
+          : null,
+        instrument: item.instrument
+          ? {
+              id: item.instrument.id,
+              type: item.instrument.type,
+              symbol: item.instrument.symbol,
+              name: item.instrument.name,
+              exchange: item.instrument.exchange,
+              lastPrice: item.instrument.lastPrice?.toString() ?? null,
+            }
+          : null,
+      })),
+    };
+  }
 }
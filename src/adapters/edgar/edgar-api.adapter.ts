@@ -264,6 +264,21 @@ export class EdgarApiAdapter {
     if (normalized === 'N-PORT' || normalized.startsWith('N-PORT/')) {
       return FilingType.FORM_N_PORT;
     }
+    if (normalized === '3' || normalized === '3/A') {
+      return FilingType.FORM_3;
+    }
+    if (normalized === '4' || normalized === '4/A') {
+      return FilingType.FORM_4;
+    }
+    if (normalized === '5' || normalized === '5/A') {
+      return FilingType.FORM_5;
+    }
+    if (normalized.startsWith('SC13D') || normalized.startsWith('SCHEDULE13D')) {
+      return FilingType.SC_13D;
+    }
+    if (normalized.startsWith('SC13G') || normalized.startsWith('SCHEDULE13G')) {
+      return FilingType.SC_13G;
+    }
 
     return FilingType.OTHER;
   }
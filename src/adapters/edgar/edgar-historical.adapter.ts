@@ -292,12 +292,13 @@ export class EdgarHistoricalAdapter {
 
         // Extract required fields
         const accessionNumber = source.adsh;
-        const cik = source.ciks?.[0]?.padStart(10, '0');
         const formType = source.form;
+        const filerIndex = this.primaryFilerIndex(formType, source.display_names);
+        const cik = source.ciks?.[filerIndex]?.padStart(10, '0');
         const filingDate = source.file_date
           ? new Date(source.file_date)
           : new Date();
-        const companyName = source.display_names?.[0];
+        const companyName = source.display_names?.[filerIndex];
         const reportDate = source.period_ending
           ? new Date(source.period_ending)
           : undefined;
@@ -327,6 +328,32 @@ export class EdgarHistoricalAdapter {
     return filings;
   }
 
+  /**
+   * Index of the filer to attribute a filing to. Ownership filings
+   * (Forms 3/4/5, Schedules 13D/13G) list insiders and funds alongside the
+   * company; the company is the entry whose display name carries a ticker,
+   * e.g. "Tesla, Inc.  (TSLA)  (CIK 0001318605)".
+   */
+  private primaryFilerIndex(formType: string | undefined, displayNames: string[] | undefined): number {
+    if (!formType || !displayNames || displayNames.length < 2) {
+      return 0;
+    }
+
+    const ownershipTypes = [
+      FilingType.FORM_3,
+      FilingType.FORM_4,
+      FilingType.FORM_5,
+      FilingType.SC_13D,
+      FilingType.SC_13G,
+    ];
+    if (!ownershipTypes.includes(this.mapFormTypeToFilingType(formType))) {
+      return 0;
+    }
+
+    const issuerIndex = displayNames.findIndex((name) => /\([A-Z][A-Z0-9.\-, ]*\)\s*\(CIK/.test(name));
+    return issuerIndex >= 0 ? issuerIndex : 0;
+  }
+
   /**
    * Map SEC form type to our FilingType enum
    */
@@ -360,6 +387,21 @@ export class EdgarHistoricalAdapter {
     if (normalized === 'N-PORT' || normalized.startsWith('N-PORT/')) {
       return FilingType.FORM_N_PORT;
     }
+    if (normalized === '3' || normalized === '3/A') {
+      return FilingType.FORM_3;
+    }
+    if (normalized === '4' || normalized === '4/A') {
+      return FilingType.FORM_4;
+    }
+    if (normalized === '5' || normalized === '5/A') {
+      return FilingType.FORM_5;
+    }
+    if (normalized.startsWith('SC13D') || normalized.startsWith('SCHEDULE13D')) {
+      return FilingType.SC_13D;
+    }
+    if (normalized.startsWith('SC13G') || normalized.startsWith('SCHEDULE13G')) {
+      return FilingType.SC_13G;
+    }
 
     return FilingType.OTHER;
   }
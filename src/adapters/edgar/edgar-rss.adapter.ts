@@ -62,7 +62,7 @@ export class EdgarRssAdapter {
         // For multiple types, we'd need to make multiple requests
         const formType = options.formTypes[0];
         const startOffset = options.startOffset || 0;
-        url = `https://www.sec.gov/cgi-bin/browse-edgar?action=getcurrent&type=${formType}&company=&dateb=&owner=include&start=${startOffset}&count=${options.limit || 100}&output=atom`;
+        url = `https://www.sec.gov/cgi-bin/browse-edgar?action=getcurrent&type=${encodeURIComponent(formType)}&company=&dateb=&owner=include&start=${startOffset}&count=${options.limit || 100}&output=atom`;
       }
 
       const response = await fetch(url, {
@@ -162,6 +162,14 @@ export class EdgarRssAdapter {
         const nameMatch = title.match(/- (.+?) \(/);
         const companyName = nameMatch ? nameMatch[1].trim() : undefined;
 
+        // Ownership filings appear once per party; keep only the issuer/subject
+        // entry so the filing is attributed to the company, not the insider or fund
+        const roleMatch = title.match(/\(([A-Za-z ]+)\)\s*$/);
+        const role = roleMatch ? roleMatch[1].trim().toLowerCase() : null;
+        if ((role === 'reporting' || role === 'filed by') && this.isOwnershipForm(formType)) {
+          continue;
+        }
+
         if (cik && accessionNumber && formType) {
           filings.push({
             accessionNumber,
@@ -190,6 +198,19 @@ export class EdgarRssAdapter {
     return filings;
   }
 
+  /**
+   * Forms 3/4/5 and Schedules 13D/13G (listed per filer, not per company)
+   */
+  private isOwnershipForm(formType: string): boolean {
+    return [
+      FilingType.FORM_3,
+      FilingType.FORM_4,
+      FilingType.FORM_5,
+      FilingType.SC_13D,
+      FilingType.SC_13G,
+    ].includes(this.mapFormTypeToFilingType(formType));
+  }
+
   /**
    * Map SEC form type to our FilingType enum
    */
@@ -223,6 +244,21 @@ export class EdgarRssAdapter {
     if (normalized === 'N-PORT' || normalized.startsWith('N-PORT/')) {
       return FilingType.FORM_N_PORT;
     }
+    if (normalized === '3' || normalized === '3/A') {
+      return FilingType.FORM_3;
+    }
+    if (normalized === '4' || normalized === '4/A') {
+      return FilingType.FORM_4;
+    }
+    if (normalized === '5' || normalized === '5/A') {
+      return FilingType.FORM_5;
+    }
+    if (normalized.startsWith('SC13D') || normalized.startsWith('SCHEDULE13D')) {
+      return FilingType.SC_13D;
+    }
+    if (normalized.startsWith('SC13G') || normalized.startsWith('SCHEDULE13G')) {
+      return FilingType.SC_13G;
+    }
 
     return FilingType.OTHER;
   }
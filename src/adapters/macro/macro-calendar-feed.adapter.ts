@@ -0,0 +1,49 @@
+import axios, { AxiosInstance } from 'axios';
+import { getEnvironment } from '../../config/environment.js';
+import { getLogger } from '../../utils/logger.js';
+
+/**
+ * Adapter for an external macro calendar feed
+ *
+ * The feed is a JSON array in the same shape as the admin import body
+ * (series, period, releaseAt, importance, consensus, previous, actual), so
+ * any vendor export can be served through a small translation proxy.
+ */
+export class MacroCalendarFeedAdapter {
+  private client: AxiosInstance;
+  private logger;
+
+  constructor() {
+    this.logger = getLogger();
+    this.client = axios.create({ timeout: 30000 });
+  }
+
+  isConfigured(): boolean {
+    return Boolean(getEnvironment().MACRO_CALENDAR_FEED_URL);
+  }
+
+  /**
+   * Fetch the raw calendar
+   *
+   * @returns Parsed JSON body, or null when no feed is configured
+   */
+  async fetchCalendar(): Promise<unknown> {
+    const url = getEnvironment().MACRO_CALENDAR_FEED_URL;
+    if (!url) {
+      return null;
+    }
+
+    try {
+      const response = await this.client.get<unknown>(url);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        this.logger.error(
+          { error: error.message, status: error.response?.status },
+          'Macro calendar feed request failed',
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -14,6 +14,24 @@ export interface PolymarketMarket {
   categoryTag: string | null;
   active: boolean;
   tokens: Record<string, string>;
+  eventId: string | null;
+  groupItemTitle: string | null;
+  event: PolymarketEvent | null;
+}
+
+/**
+ * Gamma event a market belongs to. Mutually exclusive events (one market
+ * per candidate/outcome) are flagged negRisk.
+ */
+export interface PolymarketEvent {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  negRisk: boolean;
+  active: boolean;
+  closed: boolean;
+  endDate: Date | null;
 }
 
 export interface PolymarketMarketState {
@@ -24,6 +42,26 @@ export interface PolymarketMarketState {
   lastUpdatedBlock: string | null;
 }
 
+export interface PolymarketResolutionState {
+  closed: boolean;
+  umaResolutionStatus: string | null;
+  closedTime: Date | null;
+  outcomes: string[];
+  outcomePrices: number[];
+}
+
+interface PolymarketGammaEventResponse {
+  id?: string | number;
+  slug?: string;
+  title?: string;
+  description?: string;
+  negRisk?: boolean;
+  enableNegRisk?: boolean;
+  active?: boolean;
+  closed?: boolean;
+  endDate?: string;
+}
+
 interface PolymarketGammaMarketResponse {
   conditionId?: string;
   id?: string;
@@ -39,6 +77,12 @@ interface PolymarketGammaMarketResponse {
   category?: string;
   tags?: string[];
   active?: boolean;
+  closed?: boolean;
+  closedTime?: string;
+  umaResolutionStatus?: string;
+  negRisk?: boolean;
+  groupItemTitle?: string;
+  events?: PolymarketGammaEventResponse[];
   clobTokenIds?: string[] | string;
   liquidity?: string;
   volume?: string;
@@ -170,6 +214,32 @@ export class PolymarketAdapter {
     }
   }
 
+  /**
+   * Closing state of a market. Once a market resolves Gamma reports it as
+   * closed with outcome prices pinned to the payouts.
+   */
+  async getResolutionState(conditionId: string): Promise<PolymarketResolutionState | null> {
+    try {
+      const gammaMarket = await this.fetchGammaMarket(conditionId);
+      if (!gammaMarket) {
+        return null;
+      }
+
+      const closedTime = gammaMarket.closedTime ? new Date(gammaMarket.closedTime) : null;
+
+      return {
+        closed: gammaMarket.closed ?? false,
+        umaResolutionStatus: gammaMarket.umaResolutionStatus ?? null,
+        closedTime: closedTime && !Number.isNaN(closedTime.getTime()) ? closedTime : null,
+        outcomes: this.normalizeStringArray(gammaMarket.outcomes),
+        outcomePrices: this.normalizeStringArray(gammaMarket.outcomePrices).map(Number),
+      };
+    } catch (error) {
+      this.logger.error({ error, conditionId }, 'Failed to fetch resolution state from Gamma API');
+      throw error;
+    }
+  }
+
   async getOutcomePrices(conditionId: string): Promise<{ yesPrice: string | null; noPrice: string | null }> {
     const state = await this.getMarketState(conditionId);
     return { yesPrice: state.yesPrice, noPrice: state.noPrice };
@@ -238,6 +308,7 @@ export class PolymarketAdapter {
     const expiryDateRaw =
       data.endDate || data.end_date_iso || data.endDateIso || data.end_date || undefined;
     const expiryDate = expiryDateRaw ? new Date(expiryDateRaw) : new Date(0);
+    const event = this.toEvent(data.events?.[0], data.negRisk);
 
     return {
       id: data.conditionId || data.id || '',
@@ -250,6 +321,31 @@ export class PolymarketAdapter {
       categoryTag: data.tags?.[0] || data.category || null,
       active: data.active ?? true,
       tokens,
+      eventId: event?.id ?? null,
+      groupItemTitle: data.groupItemTitle || null,
+      event,
+    };
+  }
+
+  private toEvent(
+    data: PolymarketGammaEventResponse | undefined,
+    marketNegRisk?: boolean,
+  ): PolymarketEvent | null {
+    if (!data?.id) {
+      return null;
+    }
+
+    const endDate = data.endDate ? new Date(data.endDate) : null;
+
+    return {
+      id: data.id.toString(),
+      slug: data.slug || data.id.toString(),
+      title: data.title || 'Unknown event',
+      description: data.description || null,
+      negRisk: data.negRisk ?? data.enableNegRisk ?? marketNegRisk ?? false,
+      active: data.active ?? true,
+      closed: data.closed ?? false,
+      endDate: endDate && !Number.isNaN(endDate.getTime()) ? endDate : null,
     };
   }
 
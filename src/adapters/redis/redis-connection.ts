@@ -0,0 +1,318 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { getLogger } from '../../utils/logger.js';
+
+/**
+ * Minimal Redis client speaking RESP2 over a single socket.
+ *
+ * Only what pub/sub fan-out needs: fire-and-forget commands, push replies
+ * delivered to one handler, AUTH/SELECT from the URL, and reconnection with
+ * exponential backoff. Replies are not correlated with commands, except the
+ * AUTH/SELECT handshake, which must succeed before the connection is ready.
+ */
+
+export type RespValue = string | number | null | RespError | RespValue[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+type ConnectionOptions = {
+  url: string;
+  name: string;
+  reconnectBaseMs: number;
+  reconnectMaxMs: number;
+  maxPendingCommands?: number;
+};
+
+type ReplyHandler = (reply: RespValue) => void;
+
+const CRLF = '\r\n';
+const DEFAULT_MAX_PENDING_COMMANDS = 1000;
+
+export function encodeCommand(args: string[]): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}${CRLF}`)];
+  for (const arg of args) {
+    const value = Buffer.from(arg, 'utf8');
+    parts.push(Buffer.from(`$${value.length}${CRLF}`), value, Buffer.from(CRLF));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Incremental RESP2 decoder; feed socket chunks, get back complete replies
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): RespValue[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    const replies: RespValue[] = [];
+    let offset = 0;
+    for (;;) {
+      const result = this.parseValue(offset);
+      if (!result) break;
+      replies.push(result.value);
+      offset = result.next;
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+    return replies;
+  }
+
+  private parseValue(offset: number): { value: RespValue; next: number } | null {
+    const lineEnd = this.buffer.indexOf(CRLF, offset);
+    if (lineEnd === -1) return null;
+
+    const prefix = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const afterLine = lineEnd + 2;
+
+    switch (prefix) {
+      case '+':
+        return { value: line, next: afterLine };
+      case '-':
+        return { value: new RespError(line), next: afterLine };
+      case ':':
+        return { value: Number(line), next: afterLine };
+      case '$': {
+        const length = Number(line);
+        if (length === -1) return { value: null, next: afterLine };
+        if (this.buffer.length < afterLine + length + 2) return null;
+        return {
+          value: this.buffer.toString('utf8', afterLine, afterLine + length),
+          next: afterLine + length + 2,
+        };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count === -1) return { value: null, next: afterLine };
+        const items: RespValue[] = [];
+        let next = afterLine;
+        for (let i = 0; i < count; i++) {
+          const item = this.parseValue(next);
+          if (!item) return null;
+          items.push(item.value);
+          next = item.next;
+        }
+        return { value: items, next };
+      }
+      default:
+        throw new RespError(`Unexpected RESP type byte: ${JSON.stringify(prefix)}`);
+    }
+  }
+}
+
+export class RedisConnection {
+  private options: ConnectionOptions;
+  private socket: net.Socket | null = null;
+  private parser = new RespParser();
+  private logger = getLogger();
+  private ready = false;
+  private closed = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private handshakeReplies = 0;
+  private pending: Buffer[] = [];
+  private replyHandler: ReplyHandler | null = null;
+  private readyHandler: (() => void) | null = null;
+
+  constructor(options: ConnectionOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Called with every reply, including pub/sub pushes
+   */
+  onReply(handler: ReplyHandler): void {
+    this.replyHandler = handler;
+  }
+
+  /**
+   * Called after each (re)connect, once AUTH/SELECT have succeeded
+   */
+  onReady(handler: () => void): void {
+    this.readyHandler = handler;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  connect(): void {
+    if (this.socket || this.closed) {
+      return;
+    }
+
+    const url = new URL(this.options.url);
+    const port = Number(url.port || 6379);
+    const host = url.hostname;
+
+    this.logger.info({ name: this.options.name, host, port }, 'Connecting to Redis');
+
+    const socket =
+      url.protocol === 'rediss:'
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+    this.socket = socket;
+    this.parser = new RespParser();
+
+    socket.setNoDelay(true);
+    socket.setKeepAlive(true, 30000);
+
+    socket.once(url.protocol === 'rediss:' ? 'secureConnect' : 'connect', () => {
+      this.logger.info({ name: this.options.name }, 'Redis connected');
+
+      const handshake: string[][] = [];
+      const password = decodeURIComponent(url.password);
+      const username = decodeURIComponent(url.username);
+      if (password) {
+        handshake.push(username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+      const db = url.pathname.replace('/', '');
+      if (db) {
+        handshake.push(['SELECT', db]);
+      }
+
+      // Queued commands wait for the handshake replies in the data handler
+      this.handshakeReplies = handshake.length;
+      for (const command of handshake) {
+        socket.write(encodeCommand(command));
+      }
+      if (this.handshakeReplies === 0) {
+        this.markReady();
+      }
+    });
+
+    socket.on('data', (chunk: Buffer) => {
+      let replies: RespValue[];
+      try {
+        replies = this.parser.push(chunk);
+      } catch (error) {
+        this.logger.error({ err: error, name: this.options.name }, 'Corrupt Redis reply stream');
+        socket.destroy();
+        return;
+      }
+      for (const reply of replies) {
+        if (this.handshakeReplies > 0) {
+          if (reply instanceof RespError) {
+            this.logger.error(
+              { name: this.options.name, error: reply.message },
+              'Redis AUTH/SELECT failed',
+            );
+            socket.destroy();
+            return;
+          }
+          this.handshakeReplies -= 1;
+          if (this.handshakeReplies === 0) {
+            this.markReady();
+          }
+          continue;
+        }
+
+        if (reply instanceof RespError) {
+          this.logger.error({ name: this.options.name, error: reply.message }, 'Redis error reply');
+        }
+        this.replyHandler?.(reply);
+      }
+    });
+
+    socket.on('error', (error) => {
+      this.logger.error({ err: error, name: this.options.name }, 'Redis connection error');
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.cleanup();
+      if (!this.closed) {
+        this.logger.warn({ name: this.options.name }, 'Redis connection closed');
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * Send a command now, or queue it until the connection is ready.
+   * When the queue is full the oldest command is dropped.
+   */
+  send(args: string[]): void {
+    const command = encodeCommand(args);
+
+    if (this.ready && this.socket) {
+      this.socket.write(command);
+      return;
+    }
+
+    const limit = this.options.maxPendingCommands ?? DEFAULT_MAX_PENDING_COMMANDS;
+    if (this.pending.length >= limit) {
+      this.pending.shift();
+      this.logger.debug(
+        { name: this.options.name },
+        'Redis offline queue full, dropping oldest command',
+      );
+    }
+    this.pending.push(command);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.pending = [];
+
+    const socket = this.socket;
+    if (!socket) return;
+
+    await new Promise<void>((resolve) => {
+      socket.once('close', () => resolve());
+      socket.end(encodeCommand(['QUIT']));
+      setTimeout(() => socket.destroy(), 1000).unref();
+    });
+  }
+
+  private markReady(): void {
+    this.reconnectAttempts = 0;
+    this.ready = true;
+    this.readyHandler?.();
+    this.flushPending();
+  }
+
+  private flushPending(): void {
+    if (!this.socket) return;
+    const queued = this.pending;
+    this.pending = [];
+    for (const command of queued) {
+      this.socket.write(command);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+    const delay = Math.min(
+      this.options.reconnectBaseMs * 2 ** this.reconnectAttempts,
+      this.options.reconnectMaxMs,
+    );
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private cleanup(): void {
+    this.ready = false;
+    this.handshakeReplies = 0;
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket = null;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import axios, { AxiosInstance } from 'axios';
+import { getEnvironment } from '../../config/environment.js';
+import { getLogger } from '../../utils/logger.js';
+import { RateLimiter } from '../../utils/rate-limiter.js';
+
+/**
+ * ClinicalTrials.gov API v2 study (only the fields we read)
+ */
+export interface ClinicalTrialsStudy {
+  protocolSection?: {
+    identificationModule?: {
+      nctId?: string;
+      briefTitle?: string;
+      officialTitle?: string;
+    };
+    statusModule?: {
+      overallStatus?: string;
+      whyStopped?: string;
+      primaryCompletionDateStruct?: { date?: string };
+      lastUpdatePostDateStruct?: { date?: string };
+    };
+    sponsorCollaboratorsModule?: {
+      leadSponsor?: { name?: string; class?: string };
+    };
+    descriptionModule?: {
+      briefSummary?: string;
+    };
+    designModule?: {
+      phases?: string[];
+    };
+    armsInterventionsModule?: {
+      interventions?: Array<{ type?: string; name?: string }>;
+    };
+  };
+  hasResults?: boolean;
+}
+
+interface StudiesResponse {
+  studies: ClinicalTrialsStudy[];
+  nextPageToken?: string;
+}
+
+const PAGE_SIZE = 100;
+
+/**
+ * Adapter for the ClinicalTrials.gov v2 studies API
+ *
+ * Lists industry-sponsored studies updated since a date, oldest update
+ * first so an interrupted run resumes from the last stored update.
+ */
+export class ClinicalTrialsApiAdapter {
+  private client: AxiosInstance;
+  private rateLimiter: RateLimiter;
+  private logger;
+
+  constructor() {
+    const env = getEnvironment();
+    this.logger = getLogger();
+
+    this.client = axios.create({
+      baseURL: env.CLINICAL_TRIALS_API_BASE_URL,
+      timeout: 30000,
+    });
+
+    this.rateLimiter = new RateLimiter(env.REGULATORY_API_RATE_LIMIT_MS);
+  }
+
+  /**
+   * Industry-sponsored studies whose record was updated on or after a date
+   *
+   * @param since Earliest last-update date
+   * @param maxPages Page cap per call (100 studies per page)
+   * @returns Studies ordered by last update, oldest first
+   */
+  async getUpdatedStudies(since: Date, maxPages: number): Promise<ClinicalTrialsStudy[]> {
+    const studies: ClinicalTrialsStudy[] = [];
+    const sinceStr = since.toISOString().split('T')[0];
+    let pageToken: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      await this.rateLimiter.wait();
+
+      try {
+        const response = await this.client.get<StudiesResponse>('/api/v2/studies', {
+          params: {
+            'filter.advanced': `AREA[LeadSponsorClass]INDUSTRY AND AREA[LastUpdatePostDate]RANGE[${sinceStr},MAX]`,
+            sort: 'LastUpdatePostDate:asc',
+            pageSize: PAGE_SIZE,
+            ...(pageToken && { pageToken }),
+          },
+        });
+
+        studies.push(...response.data.studies);
+        pageToken = response.data.nextPageToken;
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          this.logger.error(
+            { error: error.message, status: error.response?.status, since: sinceStr },
+            'ClinicalTrials.gov request failed',
+          );
+        }
+        throw error;
+      }
+
+      if (!pageToken) break;
+    }
+
+    this.logger.debug(
+      { since: sinceStr, count: studies.length, truncated: Boolean(pageToken) },
+      'Fetched updated clinical trials',
+    );
+
+    return studies;
+  }
+}
@@ -0,0 +1,76 @@
+import axios, { AxiosInstance } from 'axios';
+import { getEnvironment } from '../../config/environment.js';
+import { getLogger } from '../../utils/logger.js';
+import { RateLimiter } from '../../utils/rate-limiter.js';
+
+/**
+ * Adapter for FDA RSS feeds
+ *
+ * Fetches the raw XML of the press release feed and the advisory committee
+ * calendar feed. Feed URLs are configurable so a mirror or internal proxy
+ * can be used; an empty URL disables that feed.
+ */
+export class FdaFeedAdapter {
+  private client: AxiosInstance;
+  private rateLimiter: RateLimiter;
+  private logger;
+
+  constructor() {
+    const env = getEnvironment();
+    this.logger = getLogger();
+
+    this.client = axios.create({
+      timeout: 30000,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; TradingTerminal/1.0; +https://example.com)',
+        Accept: 'application/rss+xml, application/xml, text/xml',
+      },
+      responseType: 'text',
+    });
+
+    this.rateLimiter = new RateLimiter(env.REGULATORY_API_RATE_LIMIT_MS);
+  }
+
+  /**
+   * FDA press releases feed
+   *
+   * @returns Raw RSS XML, or null when the feed is disabled
+   */
+  async getPressReleasesFeed(): Promise<string | null> {
+    return this.fetchFeed(getEnvironment().FDA_PRESS_RELEASES_FEED_URL, 'press releases');
+  }
+
+  /**
+   * FDA advisory committee calendar feed
+   *
+   * @returns Raw RSS XML, or null when the feed is disabled
+   */
+  async getAdvisoryCalendarFeed(): Promise<string | null> {
+    return this.fetchFeed(
+      getEnvironment().FDA_ADVISORY_CALENDAR_FEED_URL,
+      'advisory committee calendar',
+    );
+  }
+
+  private async fetchFeed(url: string | undefined, feed: string): Promise<string | null> {
+    if (!url) {
+      return null;
+    }
+
+    await this.rateLimiter.wait();
+
+    try {
+      this.logger.debug({ feed, url }, 'Fetching FDA feed');
+      const response = await this.client.get<string>(url);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        this.logger.error(
+          { error: error.message, status: error.response?.status, feed },
+          'FDA feed request failed',
+        );
+      }
+      throw error;
+    }
+  }
+}
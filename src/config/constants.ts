@@ -84,6 +84,24 @@ export const CONDITIONAL_TOKENS_ABI = [
     ],
     outputs: [{ name: '', type: 'uint256' }],
   },
+  {
+    // Non-zero once the oracle has reported payouts for the condition
+    name: 'payoutDenominator',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'conditionId', type: 'bytes32' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'payoutNumerators',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'conditionId', type: 'bytes32' },
+      { name: 'index', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
 ] as const;
 
 // ERC20 ABI - for USDC
@@ -71,8 +71,27 @@ const envSchema = z.object({
 
   // Security
   NONCE_TTL_MS: z.string().transform(Number).pipe(z.number().int().positive()).default(300000),
+  AUTH_TOKEN_SECRET: optionalString, // HMAC key for access tokens; required in production
+  AUTH_ACCESS_TOKEN_TTL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(900000), // 15 minutes
+  AUTH_REFRESH_TOKEN_TTL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(2592000000), // 30 days
+  AUTH_MAX_SESSIONS_PER_WALLET: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(10),
   CORS_ORIGIN: z.string().default('*'),
 
+  // Watchlists created before per-wallet ownership are assigned to this wallet on startup
+  WATCHLIST_DEFAULT_OWNER: optionalAddress,
+
   // Caching
   MARKET_CACHE_TTL_MS: z.string().transform(Number).pipe(z.number().int().positive()).default(60000),
   ORDERBOOK_CACHE_TTL_MS: z
@@ -103,6 +122,22 @@ const envSchema = z.object({
     .pipe(z.number().int().positive())
     .default(30000),
 
+  // Pub/Sub fan-out between market data producers and WebSocket gateways
+  // memory: single process only; redis: API pods and workers share channels
+  PUBSUB_DRIVER: z.enum(['memory', 'redis']).default('memory'),
+  REDIS_URL: optionalUrl,
+  PUBSUB_CHANNEL_PREFIX: z.string().default('terminal:'),
+  PUBSUB_RECONNECT_BASE_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(500),
+  PUBSUB_RECONNECT_MAX_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(30000),
+
   // Background Jobs
   MARKET_SYNC_INTERVAL_MS: z
     .string()
@@ -114,6 +149,22 @@ const envSchema = z.object({
     .transform(Number)
     .pipe(z.number().int().positive())
     .default(300000),
+  MARKET_RESOLUTION_INTERVAL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(600000),
+  MARKET_RESOLUTION_BATCH_SIZE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(100),
+  // Fall back to Conditional Tokens payouts when Gamma hasn't reported a resolution
+  MARKET_RESOLUTION_ONCHAIN_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(true),
 
   // Historical Data Backfill
   HISTORICAL_BACKFILL_RATE_LIMIT_MS: z
@@ -133,6 +184,37 @@ const envSchema = z.object({
     .transform((val) => val === 'true')
     .pipe(z.boolean())
     .default(false),
+  // Allowed |sum of YES prices - 1| for mutually exclusive events
+  EVENT_PROBABILITY_TOLERANCE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0).max(1))
+    .default(0.05),
+
+  // Arbitrage / overround detection on the live CLOB books
+  ARBITRAGE_DETECTION_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(true),
+  // Minimum per-share edge at the best levels (1 = one full payout)
+  ARBITRAGE_MIN_EDGE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0).max(1))
+    .default(0.005),
+  // Minimum full sets executable before the edge disappears
+  ARBITRAGE_MIN_SIZE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0))
+    .default(10),
+  // Book changes are batched and re-evaluated at most this often
+  ARBITRAGE_EVALUATION_INTERVAL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(1000),
 
   // ============================================================================
   // EDGAR Worker Configuration
@@ -232,6 +314,18 @@ const envSchema = z.object({
     .pipe(z.number().int().positive())
     .default(12),
 
+  SIGNAL_INSIDER_CLUSTER_WINDOW_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(30),
+
+  SIGNAL_INSIDER_CLUSTER_MIN_SELLERS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().min(2))
+    .default(3), // Distinct insiders selling within the window
+
   // ============================================================================
   // News Worker Configuration
   // ============================================================================
@@ -304,6 +398,68 @@ const envSchema = z.object({
     .pipe(z.number())
     .default(0.7),
 
+  // ============================================================================
+  // Regulatory Worker Configuration (FDA + ClinicalTrials.gov)
+  // ============================================================================
+
+  REGULATORY_WORKER_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(false),
+
+  REGULATORY_SYNC_INTERVAL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(3600000), // 1 hour
+
+  REGULATORY_BATCH_SIZE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(50),
+
+  REGULATORY_LOOKBACK_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(30), // First ClinicalTrials.gov sync
+
+  REGULATORY_CATALYST_HORIZON_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(90),
+
+  REGULATORY_API_RATE_LIMIT_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(1000),
+
+  // Empty disables the feed
+  FDA_PRESS_RELEASES_FEED_URL: optionalUrl.default(
+    'https://www.fda.gov/about-fda/contact-fda/stay-informed/rss-feeds/press-releases/rss.xml',
+  ),
+  FDA_ADVISORY_CALENDAR_FEED_URL: optionalUrl.default(
+    'https://www.fda.gov/about-fda/contact-fda/stay-informed/rss-feeds/advisory-committee-calendar/rss.xml',
+  ),
+
+  CLINICAL_TRIALS_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(true),
+
+  CLINICAL_TRIALS_API_BASE_URL: z
+    .string()
+    .url()
+    .default('https://clinicaltrials.gov'),
+
+  // Directory polled for JSON record files (PDUFA calendars, vendor exports)
+  REGULATORY_DROP_PATH: optionalString,
+
   // ============================================================================
   // Transcripts Worker Configuration
   // ============================================================================
@@ -404,6 +560,184 @@ const envSchema = z.object({
     .pipe(z.number().int().positive())
     .default(100),
 
+  // industry: every same-industry instrument at a flat confidence
+  // peers: ranked by return correlation, 10-K named competitors and news co-mentions
+  COMPETITOR_DISCOVERY_MODE: z.enum(['industry', 'peers']).default('industry'),
+
+  PEER_CORRELATION_WINDOW_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(365),
+
+  PEER_CORRELATION_MIN_OBSERVATIONS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().min(3))
+    .default(60),
+
+  PEER_CO_MENTION_WINDOW_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(180),
+
+  PEER_DISCOVERY_MAX_PEERS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(25),
+
+  PEER_DISCOVERY_MIN_STRENGTH: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0).max(1))
+    .default(0.3),
+
+  // ============================================================================
+  // Market-Instrument Linking Configuration
+  // ============================================================================
+
+  MARKET_LINKING_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(true),
+
+  MARKET_LINKING_INTERVAL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(3600000), // 1 hour
+
+  MARKET_LINKING_MIN_CONFIDENCE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0).max(1))
+    .default(0.6),
+
+  // Proposed links below this only feed price-based signals once confirmed
+  MARKET_LINK_TRUSTED_CONFIDENCE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0).max(1))
+    .default(0.85),
+
+  // ============================================================================
+  // Factor Price Configuration
+  // ============================================================================
+
+  // tradingview: fetch candles from TradingView; csv: history only via CSV import
+  FACTOR_PRICE_SOURCE: z.enum(['tradingview', 'csv']).default('tradingview'),
+
+  FACTOR_PRICE_SYNC_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(true),
+
+  FACTOR_PRICE_SYNC_INTERVAL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(900000), // 15 minutes
+
+  FACTOR_PRICE_BACKFILL_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(365),
+
+  FACTOR_INTRADAY_RETENTION_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(30),
+
+  // Change window and threshold for a factor move to trigger exposure signals
+  FACTOR_MOVE_WINDOW_HOURS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().positive())
+    .default(24),
+
+  FACTOR_MOVE_THRESHOLD_PCT: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().positive())
+    .default(2),
+
+  // Realized factor betas (regression of daily instrument returns on factor returns)
+  FACTOR_BETA_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(true),
+
+  FACTOR_BETA_INTERVAL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(86400000), // 24 hours (daily)
+
+  FACTOR_BETA_WINDOW_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(365),
+
+  FACTOR_BETA_MIN_OBSERVATIONS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().min(3))
+    .default(60),
+
+  // ============================================================================
+  // Macro Calendar Configuration
+  // ============================================================================
+
+  MACRO_CALENDAR_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(false),
+
+  MACRO_CALENDAR_INTERVAL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(900000), // 15 minutes
+
+  // JSON calendar in the admin import shape; empty means manual imports only
+  MACRO_CALENDAR_FEED_URL: optionalUrl,
+
+  MACRO_UPCOMING_WINDOW_HOURS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(72),
+
+  // Minimum |standardized surprise| that fans out MACRO_SURPRISE signals
+  MACRO_SURPRISE_MIN_Z: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0))
+    .default(1),
+
+  // Past surprises used to estimate a series' surprise scale
+  MACRO_SURPRISE_HISTORY: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(24),
+
+  // Factor exposures below this magnitude don't receive macro signals
+  MACRO_SIGNAL_MIN_MAGNITUDE: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().min(0).max(1))
+    .default(0.3),
+
   // ============================================================================
   // ETF Metrics Enrichment Configuration
   // ============================================================================
@@ -454,6 +788,52 @@ const envSchema = z.object({
     .pipe(z.number().int().positive())
     .default(7),
 
+  // ============================================================================
+  // Signal Alert Configuration
+  // ============================================================================
+
+  ALERT_DELIVERY_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(true),
+
+  ALERT_RULE_CACHE_TTL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(30000), // 30 seconds
+
+  ALERT_RETRY_INTERVAL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(30000), // 30 seconds
+
+  ALERT_WEBHOOK_TIMEOUT_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(5000),
+
+  ALERT_WEBHOOK_MAX_ATTEMPTS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(6),
+
+  ALERT_WEBHOOK_RETRY_BASE_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(30000), // doubles per attempt: 30s, 1m, 2m, 4m...
+
+  ALERT_WEBHOOK_RETRY_MAX_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(3600000), // 1 hour
+
   // ============================================================================
   // Elasticsearch Configuration
   // ============================================================================
@@ -470,9 +850,25 @@ const envSchema = z.object({
     .transform(Number)
     .pipe(z.number().int().positive())
     .default(100),
+  // auto: OpenSearch while it answers pings, the database otherwise
+  SEARCH_BACKEND: z.enum(['auto', 'opensearch', 'database']).default('auto'),
+  SEARCH_HEALTH_CHECK_INTERVAL_MS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .default(30000),
 
   // Logging
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
+}).superRefine((value, ctx) => {
+  // A per-process secret would reject tokens issued by every other instance
+  if (value.NODE_ENV === 'production' && !value.AUTH_TOKEN_SECRET) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['AUTH_TOKEN_SECRET'],
+      message: 'AUTH_TOKEN_SECRET is required when NODE_ENV=production',
+    });
+  }
 });
 
 export type Environment = z.infer<typeof envSchema>;
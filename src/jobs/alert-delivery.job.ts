@@ -0,0 +1,77 @@
+import { AlertDispatcherService } from '../services/alerts/alert-dispatcher.service.js';
+import { MarketDataPubSub } from '../services/market-data/market-pubsub.service.js';
+import { getEnvironment } from '../config/environment.js';
+import { getLogger } from '../utils/logger.js';
+
+/**
+ * Alert delivery background job.
+ *
+ * Subscribes the alert dispatcher to signals persisted in this process and
+ * periodically retries failed webhook deliveries. Runs in every process that
+ * produces signals (API server, signal computation, EDGAR, news, transcripts).
+ */
+export class AlertDeliveryJob {
+  private dispatcher: AlertDispatcherService;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRetrying = false;
+
+  /**
+   * @param pubsub - Enables WebSocket delivery when the gateway shares this process
+   *                 or the pubsub is shared (PUBSUB_DRIVER=redis)
+   */
+  constructor(pubsub?: MarketDataPubSub) {
+    this.dispatcher = new AlertDispatcherService(pubsub);
+  }
+
+  start(): void {
+    const env = getEnvironment();
+    const logger = getLogger();
+
+    if (!env.ALERT_DELIVERY_ENABLED) {
+      logger.info('Alert delivery disabled by configuration');
+      return;
+    }
+
+    if (this.intervalId) {
+      logger.warn('Alert delivery job already running');
+      return;
+    }
+
+    this.dispatcher.start();
+
+    this.intervalId = setInterval(() => {
+      this.retry().catch((error) => {
+        logger.error({ err: error }, 'Alert delivery retry run failed');
+      });
+    }, env.ALERT_RETRY_INTERVAL_MS);
+
+    logger.info({ retryIntervalMs: env.ALERT_RETRY_INTERVAL_MS }, 'Alert delivery job started');
+  }
+
+  stop(): void {
+    this.dispatcher.stop();
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      getLogger().info('Alert delivery job stopped');
+    }
+  }
+
+  private async retry(): Promise<void> {
+    // Re-entrancy guard: a slow webhook must not stack retry runs
+    if (this.isRetrying) {
+      return;
+    }
+
+    this.isRetrying = true;
+    try {
+      const attempted = await this.dispatcher.retryDueDeliveries();
+      if (attempted > 0) {
+        getLogger().info({ attempted }, 'Retried pending webhook deliveries');
+      }
+    } finally {
+      this.isRetrying = false;
+    }
+  }
+}
@@ -269,23 +269,10 @@ export class EntityEnrichmentJob {
             continue;
           }
 
-          // Stage 2: Discover competitors
+          // Stage 2: Discover competitors (industry or peer mode)
           try {
-            const competitors =
-              await this.competitorService.discoverCompetitors(instrumentId);
-
-            for (const competitor of competitors) {
-              try {
-                await this.instrumentRepo.createCompetitorRelationship(competitor);
-                stats.competitorRelationshipsCreated++;
-              } catch (error: any) {
-                // Ignore duplicate key errors (expected due to bidirectional creation)
-                if (error?.code === '23505' || error?.code === 'P2002') {
-                  continue;
-                }
-                throw error;
-              }
-            }
+            stats.competitorRelationshipsCreated +=
+              await this.competitorService.refreshCompetitors(instrumentId);
           } catch (error) {
             this.logger.error(
               { err: error, instrumentId },
@@ -6,6 +6,7 @@ import { InstrumentRepository } from '../adapters/database/repositories/instrume
 import { EtfMetricsExtractionService } from '../services/etf/etf-metrics-extraction.service.js';
 import { EtfMetricsRepository } from '../adapters/database/repositories/etf-metrics.repository.js';
 import { EtfApDetailRepository } from '../adapters/database/repositories/etf-ap-detail.repository.js';
+import { EtfHoldingRepository } from '../adapters/database/repositories/etf-holding.repository.js';
 import { FilingStatus, FilingType } from '../types/edgar.types.js';
 import { getPrismaClient } from '../adapters/database/client.js';
 
@@ -13,6 +14,7 @@ interface EtfEnrichmentStats {
   totalFilings: number;
   metricsExtracted: number;
   apDetailsExtracted: number;
+  holdingsExtracted: number;
   errors: number;
   startTime: Date;
   endTime?: Date;
@@ -28,6 +30,7 @@ export class EtfMetricsEnrichmentJob {
   private extractionService: EtfMetricsExtractionService;
   private etfMetricsRepo: EtfMetricsRepository;
   private etfApRepo: EtfApDetailRepository;
+  private etfHoldingRepo: EtfHoldingRepository;
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning = false;
 
@@ -39,6 +42,7 @@ export class EtfMetricsEnrichmentJob {
     this.extractionService = new EtfMetricsExtractionService(prisma);
     this.etfMetricsRepo = new EtfMetricsRepository(prisma);
     this.etfApRepo = new EtfApDetailRepository(prisma);
+    this.etfHoldingRepo = new EtfHoldingRepository(prisma);
   }
 
   /**
@@ -91,6 +95,7 @@ export class EtfMetricsEnrichmentJob {
         totalFilings: 0,
         metricsExtracted: 0,
         apDetailsExtracted: 0,
+        holdingsExtracted: 0,
         errors: 0,
         startTime: new Date(),
       };
@@ -102,6 +107,7 @@ export class EtfMetricsEnrichmentJob {
       totalFilings: 0,
       metricsExtracted: 0,
       apDetailsExtracted: 0,
+      holdingsExtracted: 0,
       errors: 0,
       startTime: new Date(),
     };
@@ -278,6 +284,26 @@ export class EtfMetricsEnrichmentJob {
       stats.metricsExtracted++;
       this.logger.debug({ instrumentId, filingId: filing.id }, 'Extracted N-PORT metrics');
     }
+
+    // Extract holdings for look-through exposure
+    const holdings = await this.extractionService.extractHoldingsFromNPORT(
+      filing,
+      instrumentId
+    );
+
+    if (holdings.length > 0) {
+      const count = await this.etfHoldingRepo.replaceForFiling(filing.id, holdings);
+      stats.holdingsExtracted += count;
+      this.logger.debug(
+        {
+          instrumentId,
+          filingId: filing.id,
+          holdingCount: count,
+          resolvedCount: holdings.filter((h) => h.underlyingInstrumentId).length,
+        },
+        'Extracted N-PORT holdings'
+      );
+    }
   }
 
   /**
@@ -0,0 +1,64 @@
+import { FactorBetaService } from '../services/factors/factor-beta.service.js';
+import { getLogger } from '../utils/logger.js';
+import { getEnvironment } from '../config/environment.js';
+
+/**
+ * Periodically re-estimates realized factor betas over the trailing window
+ */
+export class FactorBetaJob {
+  private betaService: FactorBetaService;
+  private logger;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor() {
+    this.betaService = new FactorBetaService();
+    this.logger = getLogger();
+  }
+
+  start(): void {
+    const env = getEnvironment();
+
+    if (!env.FACTOR_BETA_ENABLED) {
+      this.logger.info('Factor beta job is disabled');
+      return;
+    }
+
+    this.logger.info(
+      { intervalMs: env.FACTOR_BETA_INTERVAL_MS, windowDays: env.FACTOR_BETA_WINDOW_DAYS },
+      'Starting factor beta job',
+    );
+
+    // Run immediately on start
+    this.run();
+
+    // Then run at intervals
+    this.intervalId = setInterval(() => {
+      this.run();
+    }, env.FACTOR_BETA_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.info('Factor beta job stopped');
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Factor beta job already running, skipping');
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.betaService.estimateAll();
+    } catch (error) {
+      this.logger.error({ error }, 'Factor beta job failed');
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
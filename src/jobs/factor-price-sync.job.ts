@@ -0,0 +1,65 @@
+import { FactorIngestionService } from '../services/factors/factor-ingestion.service.js';
+import { getLogger } from '../utils/logger.js';
+import { getEnvironment } from '../config/environment.js';
+
+/**
+ * Periodically pulls new factor candles (gold, oil, SPX, VIX, 10Y, DXY, ...)
+ * so factor change windows stay current
+ */
+export class FactorPriceSyncJob {
+  private ingestionService: FactorIngestionService;
+  private logger;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor() {
+    this.ingestionService = new FactorIngestionService();
+    this.logger = getLogger();
+  }
+
+  start(): void {
+    const env = getEnvironment();
+
+    if (!env.FACTOR_PRICE_SYNC_ENABLED) {
+      this.logger.info('Factor price sync job is disabled');
+      return;
+    }
+
+    this.logger.info(
+      { intervalMs: env.FACTOR_PRICE_SYNC_INTERVAL_MS, source: env.FACTOR_PRICE_SOURCE },
+      'Starting factor price sync job',
+    );
+
+    // Run immediately on start
+    this.run();
+
+    // Then run at intervals
+    this.intervalId = setInterval(() => {
+      this.run();
+    }, env.FACTOR_PRICE_SYNC_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.info('Factor price sync job stopped');
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Factor price sync job already running, skipping');
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.ingestionService.syncAll();
+    } catch (error) {
+      this.logger.error({ error }, 'Factor price sync job failed');
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
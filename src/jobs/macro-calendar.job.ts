@@ -0,0 +1,62 @@
+import { MacroCalendarService } from '../services/macro/macro-calendar.service.js';
+import { getLogger } from '../utils/logger.js';
+import { getEnvironment } from '../config/environment.js';
+
+/**
+ * Periodically syncs the macro calendar, processes new prints and refreshes
+ * upcoming-release signals
+ */
+export class MacroCalendarJob {
+  private macroService: MacroCalendarService;
+  private logger;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor() {
+    this.macroService = new MacroCalendarService();
+    this.logger = getLogger();
+  }
+
+  start(): void {
+    const env = getEnvironment();
+
+    if (!env.MACRO_CALENDAR_ENABLED) {
+      this.logger.info('Macro calendar job is disabled');
+      return;
+    }
+
+    this.logger.info({ intervalMs: env.MACRO_CALENDAR_INTERVAL_MS }, 'Starting macro calendar job');
+
+    // Run immediately on start
+    this.run();
+
+    // Then run at intervals
+    this.intervalId = setInterval(() => {
+      this.run();
+    }, env.MACRO_CALENDAR_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.info('Macro calendar job stopped');
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Macro calendar job already running, skipping');
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.macroService.runAll();
+    } catch (error) {
+      this.logger.error({ error }, 'Macro calendar job failed');
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { MarketLinkingService } from '../services/market-linking/market-linking.service.js';
+import { getLogger } from '../utils/logger.js';
+import { getEnvironment } from '../config/environment.js';
+
+/**
+ * Periodically re-matches active markets to instruments so newly listed
+ * markets and newly discovered issuers get linked
+ */
+export class MarketLinkingJob {
+  private linkingService: MarketLinkingService;
+  private logger;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor() {
+    this.linkingService = new MarketLinkingService();
+    this.logger = getLogger();
+  }
+
+  start(): void {
+    const env = getEnvironment();
+
+    if (!env.MARKET_LINKING_ENABLED) {
+      this.logger.info('Market linking job is disabled');
+      return;
+    }
+
+    this.logger.info({ intervalMs: env.MARKET_LINKING_INTERVAL_MS }, 'Starting market linking job');
+
+    // Run immediately on start
+    this.run();
+
+    // Then run at intervals
+    this.intervalId = setInterval(() => {
+      this.run();
+    }, env.MARKET_LINKING_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.info('Market linking job stopped');
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Market linking job already running, skipping');
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.linkingService.linkActiveMarkets();
+    } catch (error) {
+      this.logger.error({ error }, 'Market linking job failed');
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { MarketResolutionService } from '../services/market-resolution/market-resolution.service.js';
+import { getLogger } from '../utils/logger.js';
+import { getEnvironment } from '../config/environment.js';
+
+/**
+ * Periodically records resolved markets and settles positions on them
+ */
+export class MarketResolutionJob {
+  private resolutionService: MarketResolutionService;
+  private logger;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor() {
+    this.resolutionService = new MarketResolutionService();
+    this.logger = getLogger();
+  }
+
+  start(): void {
+    const env = getEnvironment();
+    this.logger.info(
+      { intervalMs: env.MARKET_RESOLUTION_INTERVAL_MS },
+      'Starting market resolution job',
+    );
+
+    // Run immediately on start
+    this.run();
+
+    // Then run at intervals
+    this.intervalId = setInterval(() => {
+      this.run();
+    }, env.MARKET_RESOLUTION_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.info('Market resolution job stopped');
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Market resolution job already running, skipping');
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.resolutionService.run();
+    } catch (error) {
+      this.logger.error({ error }, 'Market resolution job failed');
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
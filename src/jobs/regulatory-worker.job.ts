@@ -0,0 +1,137 @@
+import { RegulatoryIndexerService } from '../services/regulatory/regulatory-indexer.service.js';
+import { RegulatoryDownloaderService } from '../services/regulatory/regulatory-downloader.service.js';
+import { RegulatorySignalExtractorService } from '../services/regulatory/regulatory-signal-extractor.service.js';
+import { getEnvironment } from '../config/environment.js';
+import { getLogger } from '../utils/logger.js';
+
+/**
+ * Regulatory Worker Job
+ *
+ * Imports FDA press releases, advisory committee meetings, ClinicalTrials.gov
+ * updates and drop-file records, then raises catalyst signals on the linked
+ * pharmaceutical/biotechnology instruments.
+ *
+ * Pipeline per iteration:
+ * discover → download → extract facts and signals
+ */
+export class RegulatoryWorkerJob {
+  private indexer: RegulatoryIndexerService;
+  private downloader: RegulatoryDownloaderService;
+  private signalExtractor: RegulatorySignalExtractorService;
+  private logger;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor() {
+    this.indexer = new RegulatoryIndexerService();
+    this.downloader = new RegulatoryDownloaderService();
+    this.signalExtractor = new RegulatorySignalExtractorService();
+    this.logger = getLogger();
+  }
+
+  /**
+   * Start the regulatory worker job
+   */
+  async start(): Promise<void> {
+    const env = getEnvironment();
+
+    this.logger.info(
+      {
+        interval: env.REGULATORY_SYNC_INTERVAL_MS,
+        batchSize: env.REGULATORY_BATCH_SIZE,
+        clinicalTrials: env.CLINICAL_TRIALS_ENABLED,
+        dropPath: env.REGULATORY_DROP_PATH ?? null,
+      },
+      'Starting regulatory worker job',
+    );
+
+    // Initial run
+    await this.run();
+
+    this.intervalId = setInterval(() => {
+      this.run().catch((error) => {
+        this.logger.error({ err: error, phase: 'SCHEDULED' }, 'Regulatory worker job error');
+      });
+    }, env.REGULATORY_SYNC_INTERVAL_MS);
+
+    this.logger.info('Regulatory worker job started');
+  }
+
+  /**
+   * Stop the regulatory worker job
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.info('Regulatory worker job stopped');
+    }
+  }
+
+  /**
+   * Run one iteration of the pipeline
+   *
+   * Stage 1: Discover new records
+   * Stage 2: Store full text
+   * Stage 3: Extract facts and catalyst signals
+   */
+  private async run(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Regulatory worker already running, skipping this iteration');
+      return;
+    }
+
+    this.isRunning = true;
+    const env = getEnvironment();
+    const startTime = Date.now();
+
+    try {
+      const stats = {
+        newRecords: 0,
+        downloaded: 0,
+        extracted: 0,
+      };
+
+      // Stage 1: Discovery
+      const discovery = await this.indexer.discover();
+      stats.newRecords = discovery.inserted;
+
+      // Stage 2: Download
+      stats.downloaded = await this.downloader.processPendingDocuments(env.REGULATORY_BATCH_SIZE);
+
+      // Stage 3: Extract facts and signals
+      stats.extracted = await this.signalExtractor.processDownloadedDocuments(
+        env.REGULATORY_BATCH_SIZE,
+      );
+
+      this.logger.info(
+        { stats, durationMs: Date.now() - startTime },
+        'Regulatory sync iteration complete',
+      );
+    } catch (error) {
+      this.logger.error({ err: error }, 'Regulatory sync iteration failed');
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Run one iteration immediately (for manual trigger)
+   */
+  async runOnce(): Promise<void> {
+    return this.run();
+  }
+
+  /**
+   * Get job status
+   */
+  getStatus(): {
+    running: boolean;
+    hasScheduledRuns: boolean;
+  } {
+    return {
+      running: this.isRunning,
+      hasScheduledRuns: this.intervalId !== null,
+    };
+  }
+}
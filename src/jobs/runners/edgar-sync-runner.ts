@@ -2,6 +2,9 @@ import { loadEnvironment } from '../../config/environment.js';
 import { createLogger } from '../../utils/logger.js';
 import { createPrismaClient, disconnectPrisma } from '../../adapters/database/client.js';
 import { EdgarSyncJob } from '../edgar-sync.job.js';
+import { EtfMetricsEnrichmentJob } from '../etf-metrics-enrichment.job.js';
+import { AlertDeliveryJob } from '../alert-delivery.job.js';
+import { createMarketDataPubSub } from '../../services/market-data/market-pubsub.service.js';
 
 /**
  * EDGAR Filing Sync Worker
@@ -22,15 +25,30 @@ async function main(): Promise<void> {
   createPrismaClient();
   logger.info('✅ Database connected');
 
+  // Deliver webhook alerts for signals persisted by this worker; WebSocket
+  // alerts too when a shared pubsub reaches the API gateways
+  const pubsub = env.PUBSUB_DRIVER === 'redis' ? createMarketDataPubSub() : undefined;
+  const alertDeliveryJob = new AlertDeliveryJob(pubsub);
+  alertDeliveryJob.start();
+
   const job = new EdgarSyncJob();
 
   logger.info('📄 Starting EDGAR filing sync job...');
   await job.start();
   logger.info('✅ EDGAR filing sync worker running');
 
+  // ETF metrics and holdings from the N-CEN and N-PORT filings synced above
+  const etfMetricsJob = new EtfMetricsEnrichmentJob();
+  etfMetricsJob.start().catch((error) => {
+    logger.error({ err: error }, 'Failed to start ETF metrics enrichment job');
+  });
+
   const shutdown = async (signal: string): Promise<void> => {
     logger.info(`${signal} received, shutting down EDGAR sync worker...`);
     job.stop();
+    etfMetricsJob.stop();
+    alertDeliveryJob.stop();
+    await pubsub?.close();
     await disconnectPrisma();
     logger.info('EDGAR sync worker stopped');
     process.exit(0);
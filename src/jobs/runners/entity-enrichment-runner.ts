@@ -2,6 +2,7 @@ import { loadEnvironment } from '../../config/environment.js';
 import { createLogger } from '../../utils/logger.js';
 import { createPrismaClient, disconnectPrisma } from '../../adapters/database/client.js';
 import { EntityEnrichmentJob } from '../entity-enrichment.job.js';
+import { FactorBetaJob } from '../factor-beta.job.js';
 
 /**
  * Entity Enrichment Worker
@@ -28,9 +29,14 @@ async function main(): Promise<void> {
   await job.start();
   logger.info('✅ Entity enrichment worker running');
 
+  // Realized betas for the factor exposures mapped above
+  const factorBetaJob = new FactorBetaJob();
+  factorBetaJob.start();
+
   const shutdown = async (signal: string): Promise<void> => {
     logger.info(`${signal} received, shutting down entity enrichment worker...`);
     job.stop();
+    factorBetaJob.stop();
     await disconnectPrisma();
     logger.info('Entity enrichment worker stopped');
     process.exit(0);
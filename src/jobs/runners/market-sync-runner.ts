@@ -2,8 +2,10 @@ import { loadEnvironment } from '../../config/environment.js';
 import { createLogger } from '../../utils/logger.js';
 import { createPrismaClient, disconnectPrisma } from '../../adapters/database/client.js';
 import { MarketSyncJob } from '../market-sync.job.js';
-import { MarketDataPubSub } from '../../services/market-data/market-pubsub.service.js';
+import { MarketLinkingJob } from '../market-linking.job.js';
+import { createMarketDataPubSub } from '../../services/market-data/market-pubsub.service.js';
 import { MarketDataStreamService } from '../../services/market-data/market-data-stream.service.js';
+import { ArbitrageDetectorService } from '../../services/arbitrage/arbitrage-detector.service.js';
 
 /**
  * Market Sync Worker
@@ -14,11 +16,13 @@ import { MarketDataStreamService } from '../../services/market-data/market-data-
  * Responsibilities:
  * - Fetch markets from Polymarket API
  * - Subscribe to CLOB WebSocket for orderbook updates
- * - Publish updates to MarketDataPubSub (consumed by API server)
+ * - Publish updates to MarketDataPubSub (consumed by API servers when PUBSUB_DRIVER=redis)
  * - Store market data and orderbook snapshots in database
+ * - Link markets to the instruments they concern (MARKET_LINKING_ENABLED)
+ * - Detect arbitrage on the streamed books (ARBITRAGE_DETECTION_ENABLED)
  */
 async function main(): Promise<void> {
-  loadEnvironment();
+  const env = loadEnvironment();
   const logger = createLogger();
 
   logger.info('🔄 Starting Market Sync Worker...');
@@ -28,21 +32,32 @@ async function main(): Promise<void> {
   logger.info('✅ Database connected');
 
   // Initialize market data services
-  const pubsub = new MarketDataPubSub();
+  const pubsub = createMarketDataPubSub();
   const streamService = new MarketDataStreamService(pubsub);
   const job = new MarketSyncJob();
+  const linkingJob = new MarketLinkingJob();
 
   // Start WebSocket stream
   logger.info('🔌 Starting WebSocket stream...');
   await streamService.start();
   logger.info('✅ WebSocket stream started');
 
+  // Arbitrage detection runs on the books the stream service keeps
+  let arbitrageDetector: ArbitrageDetectorService | null = null;
+  if (env.ARBITRAGE_DETECTION_ENABLED) {
+    arbitrageDetector = new ArbitrageDetectorService(pubsub, streamService);
+    arbitrageDetector.start().catch((error) => {
+      logger.error({ error }, 'Failed to start arbitrage detector');
+    });
+  }
+
   // Pass stream service to market sync job
   job.setStreamService(streamService);
 
   // Start market sync job
   logger.info('🔄 Starting market sync job...');
   await job.start();
+  linkingJob.start();
   logger.info('✅ Market sync worker running');
 
   // Graceful shutdown
@@ -50,7 +65,10 @@ async function main(): Promise<void> {
     logger.info(`${signal} received, shutting down market sync worker...`);
 
     job.stop();
+    linkingJob.stop();
+    arbitrageDetector?.stop();
     streamService.stop();
+    await pubsub.close();
     await disconnectPrisma();
 
     logger.info('Market sync worker stopped');
@@ -2,6 +2,8 @@ import { loadEnvironment } from '../../config/environment.js';
 import { createLogger } from '../../utils/logger.js';
 import { createPrismaClient, disconnectPrisma } from '../../adapters/database/client.js';
 import { NewsWorkerJob } from '../news-worker.job.js';
+import { AlertDeliveryJob } from '../alert-delivery.job.js';
+import { createMarketDataPubSub } from '../../services/market-data/market-pubsub.service.js';
 
 /**
  * News Worker
@@ -22,6 +24,12 @@ async function main(): Promise<void> {
   createPrismaClient();
   logger.info('✅ Database connected');
 
+  // Deliver webhook alerts for signals persisted by this worker; WebSocket
+  // alerts too when a shared pubsub reaches the API gateways
+  const pubsub = env.PUBSUB_DRIVER === 'redis' ? createMarketDataPubSub() : undefined;
+  const alertDeliveryJob = new AlertDeliveryJob(pubsub);
+  alertDeliveryJob.start();
+
   const job = new NewsWorkerJob();
 
   logger.info('📰 Starting news worker job...');
@@ -31,6 +39,8 @@ async function main(): Promise<void> {
   const shutdown = async (signal: string): Promise<void> => {
     logger.info(`${signal} received, shutting down news worker...`);
     job.stop();
+    alertDeliveryJob.stop();
+    await pubsub?.close();
     await disconnectPrisma();
     logger.info('News worker stopped');
     process.exit(0);
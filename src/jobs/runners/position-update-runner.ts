@@ -2,6 +2,7 @@ import { loadEnvironment } from '../../config/environment.js';
 import { createLogger } from '../../utils/logger.js';
 import { createPrismaClient, disconnectPrisma } from '../../adapters/database/client.js';
 import { PositionUpdateJob } from '../position-update.job.js';
+import { MarketResolutionJob } from '../market-resolution.job.js';
 
 /**
  * Position Update Worker
@@ -21,11 +22,16 @@ async function main(): Promise<void> {
 
   logger.info('💼 Starting position update job...');
   await job.start();
+
+  // Record resolved markets and settle the positions held in them
+  const marketResolutionJob = new MarketResolutionJob();
+  marketResolutionJob.start();
   logger.info('✅ Position update worker running');
 
   const shutdown = async (signal: string): Promise<void> => {
     logger.info(`${signal} received, shutting down position update worker...`);
     job.stop();
+    marketResolutionJob.stop();
     await disconnectPrisma();
     logger.info('Position update worker stopped');
     process.exit(0);
@@ -0,0 +1,56 @@
+import { loadEnvironment } from '../../config/environment.js';
+import { createLogger } from '../../utils/logger.js';
+import { createPrismaClient, disconnectPrisma } from '../../adapters/database/client.js';
+import { RegulatoryWorkerJob } from '../regulatory-worker.job.js';
+import { AlertDeliveryJob } from '../alert-delivery.job.js';
+import { createMarketDataPubSub } from '../../services/market-data/market-pubsub.service.js';
+
+/**
+ * Regulatory Worker
+ *
+ * Imports FDA and ClinicalTrials.gov records and raises catalyst signals.
+ */
+async function main(): Promise<void> {
+  const env = loadEnvironment();
+  const logger = createLogger();
+
+  logger.info('💊 Starting Regulatory Worker...');
+
+  if (!env.REGULATORY_WORKER_ENABLED) {
+    logger.warn('REGULATORY_WORKER_ENABLED is false, exiting...');
+    process.exit(0);
+  }
+
+  createPrismaClient();
+  logger.info('✅ Database connected');
+
+  // Deliver webhook alerts for signals persisted by this worker; WebSocket
+  // alerts too when a shared pubsub reaches the API gateways
+  const pubsub = env.PUBSUB_DRIVER === 'redis' ? createMarketDataPubSub() : undefined;
+  const alertDeliveryJob = new AlertDeliveryJob(pubsub);
+  alertDeliveryJob.start();
+
+  const job = new RegulatoryWorkerJob();
+
+  logger.info('💊 Starting regulatory worker job...');
+  await job.start();
+  logger.info('✅ Regulatory worker running');
+
+  const shutdown = async (signal: string): Promise<void> => {
+    logger.info(`${signal} received, shutting down regulatory worker...`);
+    job.stop();
+    alertDeliveryJob.stop();
+    await pubsub?.close();
+    await disconnectPrisma();
+    logger.info('Regulatory worker stopped');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
+
+main().catch((error) => {
+  console.error('Regulatory worker failed:', error);
+  process.exit(1);
+});
@@ -2,6 +2,10 @@ import { loadEnvironment } from '../../config/environment.js';
 import { createLogger } from '../../utils/logger.js';
 import { createPrismaClient, disconnectPrisma } from '../../adapters/database/client.js';
 import { SignalComputationJob } from '../signal-computation.job.js';
+import { AlertDeliveryJob } from '../alert-delivery.job.js';
+import { FactorPriceSyncJob } from '../factor-price-sync.job.js';
+import { MacroCalendarJob } from '../macro-calendar.job.js';
+import { createMarketDataPubSub } from '../../services/market-data/market-pubsub.service.js';
 
 /**
  * Signal Computation Worker
@@ -22,6 +26,20 @@ async function main(): Promise<void> {
   createPrismaClient();
   logger.info('✅ Database connected');
 
+  // Deliver webhook alerts for signals persisted by this worker; WebSocket
+  // alerts too when a shared pubsub reaches the API gateways
+  const pubsub = env.PUBSUB_DRIVER === 'redis' ? createMarketDataPubSub() : undefined;
+  const alertDeliveryJob = new AlertDeliveryJob(pubsub);
+  alertDeliveryJob.start();
+
+  // Keep factor candles current for the factor correlation generator
+  const factorPriceSyncJob = new FactorPriceSyncJob();
+  factorPriceSyncJob.start();
+
+  // Macro releases and the factor-exposure signals computed from them
+  const macroCalendarJob = new MacroCalendarJob();
+  macroCalendarJob.start();
+
   const job = new SignalComputationJob();
 
   logger.info('🔔 Starting signal computation job...');
@@ -31,6 +49,10 @@ async function main(): Promise<void> {
   const shutdown = async (signal: string): Promise<void> => {
     logger.info(`${signal} received, shutting down signal computation worker...`);
     job.stop();
+    factorPriceSyncJob.stop();
+    macroCalendarJob.stop();
+    alertDeliveryJob.stop();
+    await pubsub?.close();
     await disconnectPrisma();
     logger.info('Signal computation worker stopped');
     process.exit(0);
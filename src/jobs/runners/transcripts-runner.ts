@@ -1,4 +1,6 @@
 import { TranscriptsWorkerJob } from '../transcripts.job.js';
+import { AlertDeliveryJob } from '../alert-delivery.job.js';
+import { createMarketDataPubSub } from '../../services/market-data/market-pubsub.service.js';
 import { loadEnvironment } from '../../config/environment.js';
 import { getLogger } from '../../utils/logger.js';
 
@@ -20,21 +22,26 @@ async function main() {
 
     // Create and start job
     const job = new TranscriptsWorkerJob();
+    const pubsub = env.PUBSUB_DRIVER === 'redis' ? createMarketDataPubSub() : undefined;
+    const alertDeliveryJob = new AlertDeliveryJob(pubsub);
 
     // Graceful shutdown handlers
     process.on('SIGTERM', () => {
       logger.info('SIGTERM received, stopping transcripts worker');
       job.stop();
+      alertDeliveryJob.stop();
       process.exit(0);
     });
 
     process.on('SIGINT', () => {
       logger.info('SIGINT received, stopping transcripts worker');
       job.stop();
+      alertDeliveryJob.stop();
       process.exit(0);
     });
 
-    // Start job
+    // Start jobs
+    alertDeliveryJob.start();
     await job.start();
 
     logger.info('Transcripts worker runner started successfully');
@@ -54,8 +54,9 @@ export class SearchIndexerJob {
 
       logger.info('✅ OpenSearch connection verified');
 
-      // Initialize index (idempotent)
+      // Initialize indexes (idempotent)
       await this.indexManager.initializeIndex();
+      const documentIndexCreated = await this.indexManager.initializeDocumentIndex();
 
       // Perform full initial indexing
       logger.info('Starting initial full indexing...');
@@ -63,8 +64,16 @@ export class SearchIndexerJob {
       await this.indexer.indexAllInstruments();
       await this.indexer.indexAllSignals();
 
-      // Refresh index to make all documents searchable
+      // Filing and document bodies are too large to reindex on every start;
+      // backfill them once, after which parsers index new content incrementally
+      if (documentIndexCreated) {
+        await this.indexer.indexAllFilings();
+        await this.indexer.indexAllDocuments();
+      }
+
+      // Refresh indexes to make all documents searchable
       await this.indexManager.refreshIndex();
+      await this.indexManager.refreshDocumentIndex();
 
       logger.info('✅ Search indexer initialization complete');
       this.isRunning = true;
@@ -114,6 +123,30 @@ export class SearchIndexerJob {
     }
   }
 
+  /**
+   * Index a filing's parsed content (for incremental updates).
+   */
+  async indexFilingContent(filingId: string): Promise<void> {
+    try {
+      await this.indexer.indexFilingContent(filingId);
+    } catch (error) {
+      const logger = getLogger();
+      logger.error({ error, filingId }, `Failed to incrementally index filing ${filingId}`);
+    }
+  }
+
+  /**
+   * Index a document's content (for incremental updates).
+   */
+  async indexDocumentContent(documentId: string): Promise<void> {
+    try {
+      await this.indexer.indexDocumentContent(documentId);
+    } catch (error) {
+      const logger = getLogger();
+      logger.error({ error, documentId }, `Failed to incrementally index document ${documentId}`);
+    }
+  }
+
   /**
    * Delete a document from the index.
    */
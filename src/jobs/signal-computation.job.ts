@@ -6,6 +6,7 @@
  */
 
 import { SignalComputationService } from '../services/signals/signal-computation.service.js';
+import { RiskScoreService } from '../services/signals/risk-score.service.js';
 import { PriceTrackerService } from '../services/signals/adapters/price-tracker.service.js';
 import { FactorPriceService } from '../services/signals/adapters/factor-price.service.js';
 import { CompetitorImpactGenerator } from '../services/signals/generators/competitor-impact.generator.js';
@@ -16,13 +17,18 @@ import { APFragilityGenerator } from '../services/signals/generators/etf-ap-frag
 import { LiquidityMismatchGenerator } from '../services/signals/generators/etf-liquidity-mismatch.generator.js';
 import { MicrostructureDeteriorationGenerator } from '../services/signals/generators/etf-microstructure-deterioration.generator.js';
 import { DisclosureDriftGenerator } from '../services/signals/generators/etf-disclosure-drift.generator.js';
+import { VolatilitySpikeGenerator } from '../services/signals/generators/volatility-spike.generator.js';
+import { ConstituentStressGenerator } from '../services/signals/generators/etf-constituent-stress.generator.js';
 import { MarketRepository } from '../adapters/database/repositories/market.repository.js';
 import { InstrumentRepository } from '../adapters/database/repositories/instrument.repository.js';
 import { SignalRepository } from '../adapters/database/repositories/signal.repository.js';
 import { CandleRepository } from '../adapters/database/repositories/candle.repository.js';
 import { FilingRepository } from '../adapters/database/repositories/filing.repository.js';
+import { MarketLinkRepository } from '../adapters/database/repositories/market-link.repository.js';
+import { TradeEventRepository } from '../adapters/database/repositories/trade-event.repository.js';
 import { EtfNavDataService } from '../services/etf/etf-nav-data.service.js';
 import { EtfMetricsRepository } from '../adapters/database/repositories/etf-metrics.repository.js';
+import { EtfHoldingRepository } from '../adapters/database/repositories/etf-holding.repository.js';
 import { getPrismaClient } from '../adapters/database/client.js';
 import { env } from '../config/environment.js';
 import { logger } from '../utils/logger.js';
@@ -42,6 +48,7 @@ interface JobStatus {
  */
 export class SignalComputationJob {
   private readonly service: SignalComputationService;
+  private readonly riskScoreService: RiskScoreService;
   private intervalId?: NodeJS.Timeout;
   private isRunning = false;
   private lastRunTime?: Date;
@@ -53,8 +60,11 @@ export class SignalComputationJob {
     const instrumentRepo = new InstrumentRepository();
     const signalRepo = new SignalRepository();
     const etfMetricsRepo = new EtfMetricsRepository(prisma);
+    const etfHoldingRepo = new EtfHoldingRepository(prisma);
     const candleRepo = new CandleRepository(prisma);
     const filingRepo = new FilingRepository();
+    const marketLinkRepo = new MarketLinkRepository();
+    const tradeEventRepo = new TradeEventRepository();
 
     // Instantiate services
     const priceTracker = new PriceTrackerService(marketRepo, instrumentRepo);
@@ -68,6 +78,8 @@ export class SignalComputationJob {
       signalRepo
     );
 
+    this.riskScoreService = new RiskScoreService();
+
     // Register all generators
     this.service.registerGenerator(
       new CompetitorImpactGenerator(instrumentRepo, priceTracker)
@@ -75,6 +87,9 @@ export class SignalComputationJob {
     this.service.registerGenerator(
       new FactorCorrelationGenerator(instrumentRepo, factorPrices)
     );
+    this.service.registerGenerator(
+      new VolatilitySpikeGenerator(candleRepo, marketLinkRepo, tradeEventRepo)
+    );
     this.service.registerGenerator(
       new CrossEntityPropagationGenerator(instrumentRepo, signalRepo)
     );
@@ -101,6 +116,9 @@ export class SignalComputationJob {
     this.service.registerGenerator(
       new DisclosureDriftGenerator(instrumentRepo, filingRepo)
     );
+    this.service.registerGenerator(
+      new ConstituentStressGenerator(etfHoldingRepo, signalRepo)
+    );
 
     logger.info('Signal computation job initialized', {
       generators: this.service.getRegisteredGenerators().length,
@@ -170,12 +188,17 @@ export class SignalComputationJob {
 
       const stats = await this.service.computeSignals();
 
+      // Composite scores also pick up EDGAR/news/transcript signals written
+      // by other workers, and decay even when no new signals arrive
+      const riskStats = await this.riskScoreService.refreshAll();
+
       this.lastRunTime = new Date();
 
       logger.info('Signal computation run complete', {
         totalSignalsGenerated: stats.totalSignalsGenerated,
         totalErrors: stats.totalErrors,
         durationMs: stats.durationMs,
+        riskScoresWritten: riskStats.written,
       });
     } catch (error) {
       logger.error('Signal computation run failed', {
@@ -5,8 +5,11 @@ import { validateAddress } from '../utils/validators.js';
 import { NonceData } from '../types/auth.types.js';
 import { getEnvironment } from '../config/environment.js';
 import { NonceRepository } from '../adapters/database/repositories/nonce.repository.js';
+import { AuthSessionService } from '../services/auth/auth-session.service.js';
+import { isAccessToken } from '../utils/session-token.js';
 
 let nonceRepo: NonceRepository | null = null;
+let sessionService: AuthSessionService | null = null;
 
 function getNonceRepo(): NonceRepository {
   if (!nonceRepo) {
@@ -15,6 +18,13 @@ function getNonceRepo(): NonceRepository {
   return nonceRepo;
 }
 
+function getSessionService(): AuthSessionService {
+  if (!sessionService) {
+    sessionService = new AuthSessionService();
+  }
+  return sessionService;
+}
+
 export function storeNonce(wallet: string, nonce: string, timestamp: number): void {
   const env = getEnvironment();
   const expiresAt = Date.now() + env.NONCE_TTL_MS;
@@ -33,6 +43,62 @@ export function deleteNonce(wallet: string): void {
   void getNonceRepo().delete(wallet);
 }
 
+/**
+ * Verify an EIP-712 sign-in signature against the wallet's stored nonce.
+ * The nonce is single-use and deleted once the signature checks out.
+ */
+export async function verifyNonceSignature(
+  walletAddress: string,
+  signature: `0x${string}`,
+): Promise<void> {
+  validateAddress(walletAddress);
+
+  // Get stored nonce
+  const nonceData = await getNonceRepo().find(walletAddress);
+  if (!nonceData) {
+    throw new UnauthorizedError('No nonce found. Request a new nonce first.');
+  }
+
+  // Check if nonce is expired
+  if (Date.now() > nonceData.expiresAt) {
+    await getNonceRepo().delete(walletAddress);
+    throw new UnauthorizedError('Nonce expired. Request a new nonce.');
+  }
+
+  // Verify signature
+  const message = {
+    wallet: walletAddress as `0x${string}`,
+    nonce: nonceData.nonce,
+    timestamp: BigInt(nonceData.timestamp),
+  };
+
+  await verifySignInSignature(message, signature, walletAddress as `0x${string}`);
+
+  // Signature is valid - invalidate nonce (single-use)
+  await getNonceRepo().delete(walletAddress);
+}
+
+/**
+ * Check that `credential` proves control of `walletAddress`: a session access
+ * token issued to that wallet, or an EIP-712 signature over its current nonce.
+ */
+export async function authenticateWallet(walletAddress: string, credential: string): Promise<void> {
+  if (isAccessToken(credential)) {
+    const auth = await getSessionService().authenticate(credential);
+    if (auth.wallet !== walletAddress.toLowerCase()) {
+      throw new UnauthorizedError('Access token was issued to a different wallet');
+    }
+    return;
+  }
+
+  await verifyNonceSignature(walletAddress, credential as `0x${string}`);
+}
+
+/**
+ * Accepts either a session access token from /api/v1/auth/login or a one-off
+ * EIP-712 signature over the wallet's current nonce. Either way the
+ * authenticated wallet must match the :wallet param / body wallet.
+ */
 export async function authMiddleware(
   request: FastifyRequest<{
     Params: { wallet?: string };
@@ -46,7 +112,7 @@ export async function authMiddleware(
       throw new UnauthorizedError('Missing or invalid authorization header');
     }
 
-    const signature = authHeader.substring(7) as `0x${string}`;
+    const credential = authHeader.substring(7);
 
     // Get wallet address from params or body
     const walletAddress =
@@ -57,31 +123,7 @@ export async function authMiddleware(
       throw new UnauthorizedError('Wallet address required');
     }
 
-    validateAddress(walletAddress);
-
-    // Get stored nonce
-    const nonceData = await getNonceRepo().find(walletAddress);
-    if (!nonceData) {
-      throw new UnauthorizedError('No nonce found. Request a new nonce first.');
-    }
-
-    // Check if nonce is expired
-    if (Date.now() > nonceData.expiresAt) {
-      await getNonceRepo().delete(walletAddress);
-      throw new UnauthorizedError('Nonce expired. Request a new nonce.');
-    }
-
-    // Verify signature
-    const message = {
-      wallet: walletAddress as `0x${string}`,
-      nonce: nonceData.nonce,
-      timestamp: BigInt(nonceData.timestamp),
-    };
-
-    await verifySignInSignature(message, signature, walletAddress as `0x${string}`);
-
-    // Signature is valid - invalidate nonce (single-use)
-    await getNonceRepo().delete(walletAddress);
+    await authenticateWallet(walletAddress, credential);
   } catch (error) {
     if (error instanceof UnauthorizedError) {
       throw error;
@@ -0,0 +1,60 @@
+import { FastifyInstance } from 'fastify';
+import { FactorIngestionService } from '../../services/factors/factor-ingestion.service.js';
+import { FactorType } from '../../types/document.types.js';
+import { FACTOR_INTERVALS, FactorInterval } from '../../types/factor.types.js';
+
+export async function factorPricesRoutes(app: FastifyInstance): Promise<void> {
+  const ingestionService = new FactorIngestionService();
+
+  app.post(
+    '/sync',
+    {
+      schema: {
+        tags: ['admin'],
+        description: 'Fetch new factor candles from the configured source in the background',
+      },
+    },
+    async () => {
+      ingestionService.syncAll().catch((error) => {
+        app.log.error({ error }, 'Factor price sync failed');
+      });
+
+      return { message: 'Factor price sync triggered' };
+    },
+  );
+
+  app.post<{
+    Params: { type: FactorType };
+    Body: { interval: FactorInterval; csv: string };
+  }>(
+    '/:type/import',
+    {
+      // Multi-year hourly histories exceed the default 1 MB body limit
+      bodyLimit: 20 * 1024 * 1024,
+      schema: {
+        tags: ['admin'],
+        description:
+          'Import a CSV price history (date + close columns, optional open/high/low/volume). Imported rows override fetched candles at the same timestamp.',
+        params: {
+          type: 'object',
+          required: ['type'],
+          properties: {
+            type: { type: 'string', enum: Object.values(FactorType), description: 'Factor type' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['interval', 'csv'],
+          properties: {
+            interval: { type: 'string', enum: FACTOR_INTERVALS },
+            csv: { type: 'string', minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const { interval, csv } = request.body;
+      return ingestionService.importCsv(request.params.type, interval, csv);
+    },
+  );
+}
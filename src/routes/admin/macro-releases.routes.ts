@@ -0,0 +1,58 @@
+import { FastifyInstance } from 'fastify';
+import { MacroCalendarService } from '../../services/macro/macro-calendar.service.js';
+import { MACRO_IMPORTANCE, MACRO_SERIES } from '../../types/macro.types.js';
+
+export async function macroReleasesRoutes(app: FastifyInstance): Promise<void> {
+  const macroService = new MacroCalendarService();
+
+  app.post<{ Body: unknown[] }>(
+    '/',
+    {
+      schema: {
+        tags: ['admin'],
+        description:
+          'Import scheduled macro releases or their prints. Entries are keyed by (series, releaseAt); omitted values keep their stored value, and a new actual is reprocessed on the next run.',
+        body: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['series', 'period', 'releaseAt'],
+            properties: {
+              series: { type: 'string', enum: MACRO_SERIES },
+              period: {
+                type: 'string',
+                minLength: 1,
+                description: 'Reference period, e.g. 2025-05',
+              },
+              releaseAt: { type: 'string', description: 'ISO release timestamp' },
+              importance: { type: 'string', enum: MACRO_IMPORTANCE },
+              consensus: { type: ['number', 'null'] },
+              previous: { type: ['number', 'null'] },
+              actual: { type: ['number', 'null'] },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      return macroService.importReleases(request.body);
+    },
+  );
+
+  app.post(
+    '/process',
+    {
+      schema: {
+        tags: ['admin'],
+        description:
+          'Process new prints and refresh upcoming-release signals now instead of waiting for the macro calendar job',
+      },
+    },
+    async () => {
+      const processed = await macroService.processReleased();
+      const upcomingSignals = await macroService.refreshUpcoming();
+      return { ...processed, upcomingSignals };
+    },
+  );
+}
@@ -0,0 +1,106 @@
+import { FastifyInstance } from 'fastify';
+import { MarketLinkingService } from '../../services/market-linking/market-linking.service.js';
+
+export async function marketLinksRoutes(app: FastifyInstance): Promise<void> {
+  const linkingService = new MarketLinkingService();
+
+  app.post(
+    '/run',
+    {
+      schema: {
+        tags: ['admin'],
+        description: 'Re-match all active markets to instruments in the background',
+      },
+    },
+    async () => {
+      linkingService.linkActiveMarkets().catch((error) => {
+        app.log.error({ error }, 'Market linking run failed');
+      });
+
+      return { message: 'Market linking run triggered' };
+    },
+  );
+
+  app.post<{
+    Params: { marketId: string };
+  }>(
+    '/:marketId/relink',
+    {
+      schema: {
+        tags: ['admin'],
+        description: 'Re-match one market and return its links (including rejected)',
+        params: {
+          type: 'object',
+          required: ['marketId'],
+          properties: {
+            marketId: { type: 'string', description: 'Market condition ID' },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const links = await linkingService.linkMarket(request.params.marketId);
+      return { links };
+    },
+  );
+
+  app.put<{
+    Params: { marketId: string; instrumentId: string };
+    Body: { status: 'confirmed' | 'rejected' };
+  }>(
+    '/:marketId/:instrumentId',
+    {
+      schema: {
+        tags: ['admin'],
+        description:
+          'Confirm or reject a market-instrument link. Overrides are never changed by automatic linking.',
+        params: {
+          type: 'object',
+          required: ['marketId', 'instrumentId'],
+          properties: {
+            marketId: { type: 'string', description: 'Market condition ID' },
+            instrumentId: { type: 'string', description: 'Instrument ID' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['status'],
+          properties: {
+            status: { type: 'string', enum: ['confirmed', 'rejected'] },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const { marketId, instrumentId } = request.params;
+      const link = await linkingService.overrideLink(marketId, instrumentId, request.body.status);
+      return { link };
+    },
+  );
+
+  app.delete<{
+    Params: { marketId: string; instrumentId: string };
+  }>(
+    '/:marketId/:instrumentId',
+    {
+      schema: {
+        tags: ['admin'],
+        description:
+          'Remove a manual override; the next linking run re-proposes the link if it still matches',
+        params: {
+          type: 'object',
+          required: ['marketId', 'instrumentId'],
+          properties: {
+            marketId: { type: 'string', description: 'Market condition ID' },
+            instrumentId: { type: 'string', description: 'Instrument ID' },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { marketId, instrumentId } = request.params;
+      await linkingService.clearOverride(marketId, instrumentId);
+      return reply.status(204).send();
+    },
+  );
+}
@@ -0,0 +1,105 @@
+import { FastifyInstance } from 'fastify';
+import { SearchReindexService } from '../../services/search/search-reindex.service.js';
+
+const reindexRunSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    alias: { type: 'string' },
+    targetIndex: { type: 'string' },
+    previousIndex: { type: 'string', nullable: true },
+    status: { type: 'string' },
+    phase: { type: 'string' },
+    marketsIndexed: { type: 'number' },
+    instrumentsIndexed: { type: 'number' },
+    signalsIndexed: { type: 'number' },
+    caughtUp: { type: 'number' },
+    errorMessage: { type: 'string', nullable: true },
+    startedAt: { type: 'string' },
+    completedAt: { type: 'string', nullable: true },
+    updatedAt: { type: 'string' },
+  },
+};
+
+export async function searchReindexRoutes(app: FastifyInstance): Promise<void> {
+  const reindexService = new SearchReindexService();
+
+  app.post(
+    '/reindex',
+    {
+      schema: {
+        tags: ['admin'],
+        description:
+          'Rebuild the unified search index into a new versioned index and swap the alias when it has caught up',
+        response: {
+          202: reindexRunSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      const run = await reindexService.startRebuild();
+      return reply.code(202).send(run);
+    },
+  );
+
+  app.get<{
+    Querystring: { limit?: number };
+  }>(
+    '/reindex',
+    {
+      schema: {
+        tags: ['admin'],
+        description: 'Recent search reindex runs, newest first',
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              runs: { type: 'array', items: reindexRunSchema },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const runs = await reindexService.getRecentRuns(request.query.limit);
+      return { runs };
+    },
+  );
+
+  app.get<{
+    Params: { id: string };
+  }>(
+    '/reindex/:id',
+    {
+      schema: {
+        tags: ['admin'],
+        description: 'Progress of a search reindex run',
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string' },
+          },
+        },
+        response: {
+          200: reindexRunSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const run = await reindexService.getRun(request.params.id);
+
+      if (!run) {
+        return reply.code(404).send({ error: 'Reindex run not found' });
+      }
+
+      return run;
+    },
+  );
+}
@@ -0,0 +1,172 @@
+import { FastifyInstance } from 'fastify';
+import { AlertRuleService } from '../../services/alerts/alert-rule.service.js';
+import { authMiddleware } from '../../middleware/auth.middleware.js';
+import { SignalSeverity, SignalType } from '../../types/edgar.types.js';
+import type {
+  AlertDeliveryStatus,
+  CreateAlertRuleInput,
+  UpdateAlertRuleInput,
+} from '../../types/alert.types.js';
+
+const authHeaders = {
+  type: 'object',
+  required: ['authorization'],
+  properties: {
+    authorization: {
+      type: 'string',
+      description: 'Bearer access token from /auth/login, or an EIP-712 signature',
+    },
+  },
+};
+
+const ruleBodyProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  signalTypes: {
+    type: 'array',
+    items: { type: 'string', enum: Object.values(SignalType) },
+    description: 'Signal types to match (empty = all)',
+  },
+  minSeverity: { type: 'string', enum: Object.values(SignalSeverity) },
+  instrumentIds: {
+    type: ['array', 'null'],
+    items: { type: 'string' },
+    description: 'Instruments to match (null = all)',
+  },
+  watchlistId: {
+    type: ['string', 'null'],
+    description: "Only match instruments on this wallet's watchlist (null = no watchlist scope)",
+  },
+  minScore: { type: ['number', 'null'], minimum: 0, maximum: 100 },
+  webhookUrl: { type: ['string', 'null'], description: 'HTTPS endpoint for signed webhook delivery' },
+  websocketEnabled: { type: 'boolean', description: 'Publish matches on the alerts WebSocket channel' },
+  enabled: { type: 'boolean' },
+};
+
+export async function alertsRoutes(app: FastifyInstance): Promise<void> {
+  const alertRuleService = new AlertRuleService();
+
+  // Every alert route is scoped to the authenticated :wallet
+  app.addHook('preHandler', authMiddleware);
+
+  // List alert rules for a wallet
+  app.get<{
+    Params: { wallet: string };
+  }>(
+    '/:wallet/rules',
+    {
+      schema: {
+        tags: ['alerts'],
+        description: 'List signal alert rules for a wallet (requires authentication)',
+        headers: authHeaders,
+      },
+    },
+    async (request) => {
+      const rules = await alertRuleService.listRules(request.params.wallet);
+      return { rules };
+    },
+  );
+
+  // Create an alert rule
+  app.post<{
+    Params: { wallet: string };
+    Body: CreateAlertRuleInput;
+  }>(
+    '/:wallet/rules',
+    {
+      schema: {
+        tags: ['alerts'],
+        description:
+          'Create a signal alert rule. The response includes the webhook signing secret, which is not shown again.',
+        headers: authHeaders,
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: ruleBodyProperties,
+        },
+      },
+    },
+    async (request, reply) => {
+      const rule = await alertRuleService.createRule(request.params.wallet, request.body);
+      return reply.status(201).send(rule);
+    },
+  );
+
+  // Update an alert rule
+  app.patch<{
+    Params: { wallet: string; ruleId: string };
+    Body: UpdateAlertRuleInput & { rotateSecret?: boolean };
+  }>(
+    '/:wallet/rules/:ruleId',
+    {
+      schema: {
+        tags: ['alerts'],
+        description: 'Update a signal alert rule; set rotateSecret to issue a new webhook secret',
+        headers: authHeaders,
+        body: {
+          type: 'object',
+          properties: {
+            ...ruleBodyProperties,
+            rotateSecret: { type: 'boolean' },
+          },
+        },
+      },
+    },
+    async (request) => {
+      return alertRuleService.updateRule(
+        request.params.wallet,
+        request.params.ruleId,
+        request.body,
+      );
+    },
+  );
+
+  // Delete an alert rule
+  app.delete<{
+    Params: { wallet: string; ruleId: string };
+  }>(
+    '/:wallet/rules/:ruleId',
+    {
+      schema: {
+        tags: ['alerts'],
+        description: 'Delete a signal alert rule',
+        headers: authHeaders,
+      },
+    },
+    async (request, reply) => {
+      await alertRuleService.deleteRule(request.params.wallet, request.params.ruleId);
+      return reply.status(204).send();
+    },
+  );
+
+  // Delivery log
+  app.get<{
+    Params: { wallet: string };
+    Querystring: {
+      ruleId?: string;
+      status?: AlertDeliveryStatus;
+      limit?: number;
+      offset?: number;
+    };
+  }>(
+    '/:wallet/deliveries',
+    {
+      schema: {
+        tags: ['alerts'],
+        description: 'Alert delivery log (webhook attempts and WebSocket publishes)',
+        headers: authHeaders,
+        querystring: {
+          type: 'object',
+          properties: {
+            ruleId: { type: 'string' },
+            status: { type: 'string', enum: ['pending', 'delivering', 'delivered', 'failed'] },
+            limit: { type: 'number', default: 50, maximum: 200 },
+            offset: { type: 'number', default: 0 },
+          },
+        },
+      },
+    },
+    async (request) => {
+      return alertRuleService.listDeliveries(request.params.wallet, request.query);
+    },
+  );
+}
@@ -0,0 +1,47 @@
+import { FastifyInstance } from 'fastify';
+import { ArbitrageOpportunityRepository } from '../../adapters/database/repositories/arbitrage-opportunity.repository.js';
+import { ARBITRAGE_KINDS, ArbitrageKind, ArbitrageStatus } from '../../types/arbitrage.types.js';
+
+export async function arbitrageRoutes(app: FastifyInstance): Promise<void> {
+  const opportunityRepo = new ArbitrageOpportunityRepository();
+
+  app.get<{
+    Querystring: {
+      status?: ArbitrageStatus;
+      kind?: ArbitrageKind;
+      marketId?: string;
+      eventId?: string;
+      minEdge?: number;
+      limit?: number;
+      offset?: number;
+    };
+  }>(
+    '/',
+    {
+      schema: {
+        tags: ['markets'],
+        description:
+          'List arbitrage and overround opportunities across YES/NO books and exclusive events, largest expected profit first',
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['open', 'closed'], default: 'open' },
+            kind: { type: 'string', enum: ARBITRAGE_KINDS },
+            marketId: { type: 'string' },
+            eventId: { type: 'string' },
+            minEdge: {
+              type: 'number',
+              minimum: 0,
+              description: 'Minimum size-adjusted edge per share',
+            },
+            limit: { type: 'number', minimum: 1, maximum: 200, default: 50 },
+            offset: { type: 'number', minimum: 0, default: 0 },
+          },
+        },
+      },
+    },
+    async (request) => {
+      return opportunityRepo.findMany(request.query);
+    },
+  );
+}
@@ -0,0 +1,171 @@
+import { FastifyInstance } from 'fastify';
+import { authMiddleware, verifyNonceSignature } from '../../middleware/auth.middleware.js';
+import { AuthSessionService } from '../../services/auth/auth-session.service.js';
+import { LoginRequest } from '../../types/auth.types.js';
+
+const authHeaders = {
+  type: 'object',
+  required: ['authorization'],
+  properties: {
+    authorization: {
+      type: 'string',
+      description: 'Bearer access token or EIP-712 signature',
+    },
+  },
+};
+
+const tokensResponse = {
+  type: 'object',
+  properties: {
+    tokenType: { type: 'string' },
+    accessToken: { type: 'string' },
+    accessTokenExpiresAt: { type: 'string' },
+    refreshToken: { type: 'string' },
+    refreshTokenExpiresAt: { type: 'string' },
+    sessionId: { type: 'string' },
+  },
+};
+
+const refreshBody = {
+  type: 'object',
+  required: ['refreshToken'],
+  properties: {
+    refreshToken: { type: 'string' },
+  },
+};
+
+export async function sessionRoutes(app: FastifyInstance): Promise<void> {
+  const sessionService = new AuthSessionService();
+
+  // Exchange a signed nonce for session tokens
+  app.post<{
+    Body: LoginRequest;
+  }>(
+    '/login',
+    {
+      schema: {
+        tags: ['auth'],
+        description:
+          'Verify the EIP-712 sign-in signature for the current nonce and issue an access token and refresh token',
+        body: {
+          type: 'object',
+          required: ['wallet', 'signature'],
+          properties: {
+            wallet: { type: 'string', description: 'Wallet address' },
+            signature: { type: 'string', description: 'EIP-712 signature of the nonce message' },
+          },
+        },
+        response: {
+          200: tokensResponse,
+        },
+      },
+    },
+    async (request) => {
+      const { wallet, signature } = request.body;
+
+      await verifyNonceSignature(wallet, signature);
+
+      return sessionService.createSession(wallet, {
+        userAgent: request.headers['user-agent'] ?? null,
+        ipAddress: request.ip,
+      });
+    },
+  );
+
+  // Rotate the refresh token and issue a new access token
+  app.post<{
+    Body: { refreshToken: string };
+  }>(
+    '/refresh',
+    {
+      schema: {
+        tags: ['auth'],
+        description: 'Exchange a refresh token for new tokens; the old refresh token stops working',
+        body: refreshBody,
+        response: {
+          200: tokensResponse,
+        },
+      },
+    },
+    async (request) => {
+      return sessionService.refresh(request.body.refreshToken);
+    },
+  );
+
+  // Revoke the session behind a refresh token
+  app.post<{
+    Body: { refreshToken: string };
+  }>(
+    '/logout',
+    {
+      schema: {
+        tags: ['auth'],
+        description: 'Revoke the session a refresh token belongs to',
+        body: refreshBody,
+      },
+    },
+    async (request, reply) => {
+      await sessionService.logout(request.body.refreshToken);
+      return reply.status(204).send();
+    },
+  );
+
+  // Session management is scoped to the :wallet that authenticated
+  await app.register(async (owned) => {
+    owned.addHook('preHandler', authMiddleware);
+
+    // List active sessions
+    owned.get<{
+      Params: { wallet: string };
+    }>(
+      '/sessions/:wallet',
+      {
+        schema: {
+          tags: ['auth'],
+          description: 'List active sessions for a wallet (requires authentication)',
+          headers: authHeaders,
+        },
+      },
+      async (request) => {
+        const sessions = await sessionService.listSessions(request.params.wallet);
+        return { sessions };
+      },
+    );
+
+    // Revoke one session
+    owned.delete<{
+      Params: { wallet: string; sessionId: string };
+    }>(
+      '/sessions/:wallet/:sessionId',
+      {
+        schema: {
+          tags: ['auth'],
+          description: 'Revoke a session; its access and refresh tokens stop working immediately',
+          headers: authHeaders,
+        },
+      },
+      async (request, reply) => {
+        await sessionService.revokeSession(request.params.wallet, request.params.sessionId);
+        return reply.status(204).send();
+      },
+    );
+
+    // Revoke every session
+    owned.delete<{
+      Params: { wallet: string };
+    }>(
+      '/sessions/:wallet',
+      {
+        schema: {
+          tags: ['auth'],
+          description: 'Revoke all sessions for a wallet',
+          headers: authHeaders,
+        },
+      },
+      async (request) => {
+        const revoked = await sessionService.revokeAllSessions(request.params.wallet);
+        return { revoked };
+      },
+    );
+  });
+}
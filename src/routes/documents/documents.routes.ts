@@ -0,0 +1,59 @@
+import { FastifyInstance } from 'fastify';
+import { DocumentService } from '../../services/documents/document.service.js';
+
+export async function documentsRoutes(app: FastifyInstance): Promise<void> {
+  const documentService = new DocumentService();
+
+  app.get<{
+    Params: {
+      id: string;
+    };
+  }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['documents'],
+        description: 'Get document by ID',
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const document = await documentService.getDocumentById(request.params.id);
+
+      if (!document) {
+        return reply.code(404).send({ error: 'Document not found' });
+      }
+
+      return document;
+    },
+  );
+
+  app.get<{
+    Params: {
+      id: string;
+    };
+  }>(
+    '/:id/content',
+    {
+      schema: {
+        tags: ['documents'],
+        description: 'Get document content (full text)',
+      },
+    },
+    async (request, reply) => {
+      const content = await documentService.getDocumentContent(request.params.id);
+
+      if (!content) {
+        return reply.code(404).send({ error: 'Document content not found' });
+      }
+
+      return content;
+    },
+  );
+}
@@ -0,0 +1,151 @@
+import { FastifyInstance } from 'fastify';
+import { EventService } from '../../services/events/event.service.js';
+import { CandleInterval, MarketOutcome } from '../../types/market-data.types.js';
+import { ValidationError } from '../../utils/errors.js';
+
+const INTERVALS: CandleInterval[] = ['1s', '5s', '1m', '5m', '15m', '1h', '1d'];
+
+function parseTimestamp(value: string): Date {
+  const asNumber = Number(value);
+  const date = Number.isNaN(asNumber) ? new Date(value) : new Date(asNumber);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid timestamp: ${value}`);
+  }
+  return date;
+}
+
+function intervalToMs(interval: CandleInterval): number {
+  switch (interval) {
+    case '1s':
+      return 1000;
+    case '5s':
+      return 5000;
+    case '1m':
+      return 60_000;
+    case '5m':
+      return 300_000;
+    case '15m':
+      return 900_000;
+    case '1h':
+      return 3_600_000;
+    case '1d':
+      return 86_400_000;
+  }
+}
+
+function parseOutcome(value?: string): MarketOutcome {
+  const outcome = (value || 'YES').toUpperCase();
+  if (outcome !== 'YES' && outcome !== 'NO') {
+    throw new ValidationError(`Unsupported outcome: ${outcome}`);
+  }
+  return outcome;
+}
+
+const idParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Gamma event ID or slug' },
+  },
+};
+
+export async function eventsRoutes(app: FastifyInstance): Promise<void> {
+  const eventService = new EventService();
+
+  app.get<{
+    Params: { id: string };
+  }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['markets'],
+        description:
+          'Get a multi-outcome event with every sibling market price and an implied-probability check',
+        params: idParams,
+      },
+    },
+    async (request) => {
+      return eventService.getEvent(request.params.id);
+    },
+  );
+
+  app.get<{
+    Params: { id: string };
+    Querystring: {
+      interval?: string;
+      outcome?: string;
+      from?: string;
+      to?: string;
+      limit?: string;
+    };
+  }>(
+    '/:id/candles',
+    {
+      schema: {
+        tags: ['markets'],
+        description: 'Get OHLC candles for every market in an event',
+        params: idParams,
+        querystring: {
+          type: 'object',
+          properties: {
+            interval: { type: 'string', description: 'Candle interval', default: '1m' },
+            outcome: { type: 'string', description: 'Outcome (YES or NO)', default: 'YES' },
+            from: { type: 'string', description: 'Start timestamp (ms or ISO)' },
+            to: { type: 'string', description: 'End timestamp (ms or ISO)' },
+            limit: { type: 'string', description: 'Max candles per market' },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const interval = (request.query.interval || '1m') as CandleInterval;
+      if (!INTERVALS.includes(interval)) {
+        throw new ValidationError(`Unsupported interval: ${interval}`);
+      }
+
+      const limit = request.query.limit ? Number(request.query.limit) : 200;
+      if (!Number.isFinite(limit) || limit <= 0) {
+        throw new ValidationError('Invalid limit');
+      }
+
+      const to = request.query.to ? parseTimestamp(request.query.to) : new Date();
+      const from = request.query.from
+        ? parseTimestamp(request.query.from)
+        : new Date(to.getTime() - intervalToMs(interval) * limit);
+
+      return eventService.getEventCandles(request.params.id, {
+        outcome: parseOutcome(request.query.outcome),
+        interval,
+        from,
+        to,
+        limit,
+      });
+    },
+  );
+
+  app.get<{
+    Params: { id: string };
+    Querystring: { outcome?: string };
+  }>(
+    '/:id/orderbook',
+    {
+      schema: {
+        tags: ['markets'],
+        description: 'Get the orderbook of every active market in an event',
+        params: idParams,
+        querystring: {
+          type: 'object',
+          properties: {
+            outcome: { type: 'string', description: 'Outcome (YES or NO)', default: 'YES' },
+          },
+        },
+      },
+    },
+    async (request) => {
+      return eventService.getEventOrderbooks(
+        request.params.id,
+        parseOutcome(request.query.outcome),
+      );
+    },
+  );
+}
@@ -0,0 +1,96 @@
+import { FastifyInstance } from 'fastify';
+import { FactorPriceService } from '../../services/signals/adapters/factor-price.service.js';
+import { FactorType } from '../../types/document.types.js';
+import { FACTOR_INTERVALS, FactorInterval } from '../../types/factor.types.js';
+import { FACTOR_INTERVAL_MS } from '../../services/factors/factor-series.js';
+import { ValidationError } from '../../utils/errors.js';
+
+function parseTimestamp(value: string): Date {
+  const asNumber = Number(value);
+  const date = Number.isNaN(asNumber) ? new Date(value) : new Date(asNumber);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid timestamp: ${value}`);
+  }
+  return date;
+}
+
+export async function factorsRoutes(app: FastifyInstance): Promise<void> {
+  const factorPrices = new FactorPriceService();
+
+  app.get(
+    '/',
+    {
+      schema: {
+        tags: ['factors'],
+        description: 'Get the latest price of every factor with recent candles',
+      },
+    },
+    async () => {
+      const prices = await factorPrices.getAllPrices();
+      return { prices };
+    },
+  );
+
+  app.get<{
+    Params: { type: FactorType };
+    Querystring: {
+      interval?: FactorInterval;
+      from?: string;
+      to?: string;
+      limit?: number;
+    };
+  }>(
+    '/:type/candles',
+    {
+      schema: {
+        tags: ['factors'],
+        description: 'Get stored OHLC candles for a factor (gold, oil, SPX, VIX, 10Y, DXY, ...)',
+        params: {
+          type: 'object',
+          required: ['type'],
+          properties: {
+            type: { type: 'string', enum: Object.values(FactorType), description: 'Factor type' },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            interval: { type: 'string', enum: FACTOR_INTERVALS, default: '1d' },
+            from: { type: 'string', description: 'Start timestamp (ms or ISO)' },
+            to: { type: 'string', description: 'End timestamp (ms or ISO)' },
+            limit: {
+              type: 'number',
+              minimum: 1,
+              maximum: 5000,
+              default: 200,
+              description: 'Max candles to return (most recent in range)',
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const { type } = request.params;
+      const interval = request.query.interval ?? '1d';
+      const limit = request.query.limit ?? 200;
+
+      const to = request.query.to ? parseTimestamp(request.query.to) : new Date();
+      const from = request.query.from
+        ? parseTimestamp(request.query.from)
+        : new Date(to.getTime() - FACTOR_INTERVAL_MS[interval] * limit);
+
+      const candles = await factorPrices.getCandles(type, interval, from, to, limit);
+
+      return {
+        candles,
+        meta: {
+          factorType: type,
+          interval,
+          from: from.toISOString(),
+          to: to.toISOString(),
+          count: candles.length,
+        },
+      };
+    },
+  );
+}
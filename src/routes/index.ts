@@ -1,18 +1,30 @@
 import { FastifyInstance } from 'fastify';
 import { healthRoute } from './health.route.js';
 import { nonceRoutes } from './auth/nonce.js';
+import { sessionRoutes } from './auth/session.js';
 import { getMarketsRoutes } from './markets/get-markets.js';
 import { getCandlesRoutes } from './markets/get-candles.js';
+import { eventsRoutes } from './events/events.routes.js';
+import { arbitrageRoutes } from './arbitrage/arbitrage.routes.js';
 import { getPositionsRoutes } from './positions/get-positions.js';
 import { prepareTradeRoutes } from './trades/prepare-trade.js';
+import { paperTradeRoutes } from './trades/paper-trade.js';
 import { backfillRoutes } from './admin/backfill.routes.js';
 import { exchangeResolutionRoutes } from './admin/exchange-resolution.routes.js';
+import { marketLinksRoutes } from './admin/market-links.routes.js';
+import { factorPricesRoutes } from './admin/factor-prices.routes.js';
+import { macroReleasesRoutes } from './admin/macro-releases.routes.js';
+import { searchReindexRoutes } from './admin/search-reindex.routes.js';
 import { instrumentsRoutes } from './instruments/instruments.routes.js';
 import { signalsRoutes } from './signals/signals.routes.js';
 import { filingsRoutes } from './filings/filings.routes.js';
+import { documentsRoutes } from './documents/documents.routes.js';
 import { universeRoutes } from './universe/universe.routes.js';
 import { searchRoutes } from './search/search.routes.js';
 import { watchlistRoutes } from './watchlist/watchlist.routes.js';
+import { alertsRoutes } from './alerts/alerts.routes.js';
+import { factorsRoutes } from './factors/factors.routes.js';
+import { macroRoutes } from './macro/macro.routes.js';
 
 export async function registerRoutes(app: FastifyInstance): Promise<void> {
   // Health check (no prefix)
@@ -20,25 +32,34 @@ export async function registerRoutes(app: FastifyInstance): Promise<void> {
 
   // Auth routes
   await app.register(nonceRoutes, { prefix: '/api/v1/auth' });
+  await app.register(sessionRoutes, { prefix: '/api/v1/auth' });
 
   // Market routes
   await app.register(getMarketsRoutes, { prefix: '/api/v1/markets' });
   await app.register(getCandlesRoutes, { prefix: '/api/v1/markets' });
+  await app.register(eventsRoutes, { prefix: '/api/v1/events' });
+  await app.register(arbitrageRoutes, { prefix: '/api/v1/arbitrage' });
 
   // Position routes
   await app.register(getPositionsRoutes, { prefix: '/api/v1/positions' });
 
   // Trade routes
   await app.register(prepareTradeRoutes, { prefix: '/api/v1/trades' });
+  await app.register(paperTradeRoutes, { prefix: '/api/v1/trades' });
 
   // Admin routes
   await app.register(backfillRoutes, { prefix: '/api/v1/admin' });
   await app.register(exchangeResolutionRoutes, { prefix: '/api/v1/admin/exchange-resolution' });
+  await app.register(marketLinksRoutes, { prefix: '/api/v1/admin/market-links' });
+  await app.register(factorPricesRoutes, { prefix: '/api/v1/admin/factor-prices' });
+  await app.register(macroReleasesRoutes, { prefix: '/api/v1/admin/macro-releases' });
+  await app.register(searchReindexRoutes, { prefix: '/api/v1/admin/search' });
 
   // EDGAR routes
   await app.register(instrumentsRoutes, { prefix: '/api/v1/instruments' });
   await app.register(signalsRoutes, { prefix: '/api/v1/signals' });
   await app.register(filingsRoutes, { prefix: '/api/v1/filings' });
+  await app.register(documentsRoutes, { prefix: '/api/v1/documents' });
   await app.register(universeRoutes, { prefix: '/api/v1/universe' });
 
   // Search routes
@@ -46,4 +67,13 @@ export async function registerRoutes(app: FastifyInstance): Promise<void> {
 
   // Watchlist routes
   await app.register(watchlistRoutes, { prefix: '/api/v1/watchlists' });
+
+  // Alert routes
+  await app.register(alertsRoutes, { prefix: '/api/v1/alerts' });
+
+  // Factor price routes
+  await app.register(factorsRoutes, { prefix: '/api/v1/factors' });
+
+  // Macro calendar routes
+  await app.register(macroRoutes, { prefix: '/api/v1/macro' });
 }
@@ -1,7 +1,10 @@
 import { FastifyInstance } from 'fastify';
 import { InstrumentService } from '../../services/instruments/instrument.service.js';
 import { UnifiedCandleService } from '../../services/market-data/unified-candle.service.js';
+import { RiskScoreService } from '../../services/signals/risk-score.service.js';
+import { MarketLinkingService } from '../../services/market-linking/market-linking.service.js';
 import { CandleInterval } from '../../types/market-data.types.js';
+import { InsiderTransactionDirection } from '../../types/edgar.types.js';
 import { ValidationError } from '../../utils/errors.js';
 import { PrismaClient } from '@prisma/client';
 import type {
@@ -10,6 +13,7 @@ import type {
   ConnectionCompetitor,
   ConnectionFactorExposure,
   FactorType,
+  PeerEvidence,
 } from '../../types/document.types.js';
 
 const prisma = new PrismaClient();
@@ -47,6 +51,8 @@ function intervalToMs(interval: CandleInterval): number {
 export async function instrumentsRoutes(app: FastifyInstance): Promise<void> {
   const instrumentService = new InstrumentService();
   const candleService = new UnifiedCandleService();
+  const riskScoreService = new RiskScoreService();
+  const marketLinkingService = new MarketLinkingService();
 
   app.get<{
     Querystring: {
@@ -90,7 +96,7 @@ export async function instrumentsRoutes(app: FastifyInstance): Promise<void> {
     {
       schema: {
         tags: ['instruments'],
-        description: 'Get instrument by ID',
+        description: 'Get instrument by ID, including its latest composite risk score',
         params: {
           type: 'object',
           required: ['id'],
@@ -107,7 +113,36 @@ export async function instrumentsRoutes(app: FastifyInstance): Promise<void> {
         return reply.code(404).send({ error: 'Instrument not found' });
       }
 
-      return instrument;
+      const riskScore = await riskScoreService.getLatest(instrument.id);
+
+      return { ...instrument, riskScore };
+    },
+  );
+
+  app.get<{
+    Params: {
+      id: string;
+    };
+    Querystring: {
+      days?: number;
+    };
+  }>(
+    '/:id/risk-score/history',
+    {
+      schema: {
+        tags: ['instruments'],
+        description: 'Composite risk score history for an instrument',
+        querystring: {
+          type: 'object',
+          properties: {
+            days: { type: 'number', default: 30, minimum: 1, maximum: 365 },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const history = await riskScoreService.getHistory(request.params.id, request.query.days);
+      return { history };
     },
   );
 
@@ -129,6 +164,168 @@ export async function instrumentsRoutes(app: FastifyInstance): Promise<void> {
     },
   );
 
+  app.get<{
+    Params: {
+      id: string;
+    };
+    Querystring: {
+      minConfidence?: number;
+      includeRejected?: boolean;
+    };
+  }>(
+    '/:id/markets',
+    {
+      schema: {
+        tags: ['instruments'],
+        description: 'Prediction markets linked to an instrument, strongest link first',
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', description: 'Instrument ID' },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            minConfidence: { type: 'number', minimum: 0, maximum: 1 },
+            includeRejected: { type: 'boolean', default: false },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const links = await marketLinkingService.getMarketsForInstrument(
+        request.params.id,
+        request.query,
+      );
+      return { links };
+    },
+  );
+
+  app.get<{
+    Params: {
+      id: string;
+    };
+    Querystring: {
+      days?: number;
+      direction?: InsiderTransactionDirection;
+    };
+  }>(
+    '/:id/insiders',
+    {
+      schema: {
+        tags: ['instruments'],
+        description: 'Insider purchases/sales (Forms 4/5) and 13D/13G ownership stakes for an instrument',
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string' },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            days: { type: 'number', default: 180, minimum: 1, maximum: 730 },
+            direction: { type: 'string', enum: Object.values(InsiderTransactionDirection) },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const instrument = await instrumentService.getInstrumentById(request.params.id);
+
+      if (!instrument) {
+        return reply.code(404).send({ error: 'Instrument not found' });
+      }
+
+      return instrumentService.getInsiderActivity(
+        instrument.id,
+        request.query.days ?? 180,
+        request.query.direction,
+      );
+    },
+  );
+
+  app.get<{
+    Params: {
+      id: string;
+    };
+    Querystring: {
+      limit?: number;
+      offset?: number;
+    };
+  }>(
+    '/:id/holdings',
+    {
+      schema: {
+        tags: ['instruments'],
+        description:
+          'Holdings from the latest N-PORT of an ETF, largest position first, with look-through to held instruments',
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', description: 'ETF instrument ID' },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'number', default: 100, minimum: 1, maximum: 1000 },
+            offset: { type: 'number', default: 0, minimum: 0 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const instrument = await instrumentService.getInstrumentById(request.params.id);
+
+      if (!instrument) {
+        return reply.code(404).send({ error: 'Instrument not found' });
+      }
+
+      const holdings = await instrumentService.getEtfHoldings(instrument.id, request.query);
+
+      if (!holdings) {
+        return reply.code(404).send({ error: 'No holdings found for instrument' });
+      }
+
+      return holdings;
+    },
+  );
+
+  app.get<{
+    Params: {
+      id: string;
+    };
+  }>(
+    '/:id/held-by',
+    {
+      schema: {
+        tags: ['instruments'],
+        description: 'ETFs holding an instrument in their latest N-PORT, largest position first',
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', description: 'Instrument ID' },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const instrument = await instrumentService.getInstrumentById(request.params.id);
+
+      if (!instrument) {
+        return reply.code(404).send({ error: 'Instrument not found' });
+      }
+
+      return instrumentService.getEtfHolders(instrument.id);
+    },
+  );
+
   app.get<{
     Params: {
       id: string;
@@ -380,6 +577,8 @@ export async function instrumentsRoutes(app: FastifyInstance): Promise<void> {
         symbol: record.competitor.symbol,
         relationshipType: record.relationshipType,
         confidence: Number(record.confidence),
+        rationale: record.rationale,
+        evidence: record.evidence as PeerEvidence | null,
         discoveredAt: record.discoveredAt.toISOString(),
       }));
 
@@ -404,6 +603,18 @@ export async function instrumentsRoutes(app: FastifyInstance): Promise<void> {
         magnitude: Number(record.magnitude),
         confidence: Number(record.confidence),
         discoveredAt: record.discoveredAt.toISOString(),
+        realized:
+          record.beta !== null && record.betaEstimatedAt
+            ? {
+                beta: Number(record.beta),
+                rSquared: Number(record.rSquared),
+                stdError: Number(record.betaStdError),
+                observations: record.betaObservations ?? 0,
+                windowDays: record.betaWindowDays ?? 0,
+                estimatedAt: record.betaEstimatedAt.toISOString(),
+                disagreement: record.betaDisagreement,
+              }
+            : null,
       }));
 
       // Metadata
@@ -0,0 +1,65 @@
+import { FastifyInstance } from 'fastify';
+import { MacroCalendarService } from '../../services/macro/macro-calendar.service.js';
+import { MACRO_SERIES, MacroSeries } from '../../types/macro.types.js';
+import { ValidationError } from '../../utils/errors.js';
+
+const DAY_MS = 86_400_000;
+
+function parseTimestamp(value: string): Date {
+  const asNumber = Number(value);
+  const date = Number.isNaN(asNumber) ? new Date(value) : new Date(asNumber);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid timestamp: ${value}`);
+  }
+  return date;
+}
+
+export async function macroRoutes(app: FastifyInstance): Promise<void> {
+  const macroService = new MacroCalendarService();
+
+  app.get<{
+    Querystring: {
+      from?: string;
+      to?: string;
+      series?: MacroSeries;
+      limit?: number;
+    };
+  }>(
+    '/calendar',
+    {
+      schema: {
+        tags: ['macro'],
+        description:
+          'Get scheduled and past macro releases with consensus, actual and standardized surprise',
+        querystring: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              description: 'Start timestamp (ms or ISO), default 7 days ago',
+            },
+            to: { type: 'string', description: 'End timestamp (ms or ISO), default 30 days ahead' },
+            series: { type: 'string', enum: MACRO_SERIES },
+            limit: { type: 'number', minimum: 1, maximum: 1000, default: 200 },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const now = Date.now();
+      const from = request.query.from
+        ? parseTimestamp(request.query.from)
+        : new Date(now - 7 * DAY_MS);
+      const to = request.query.to ? parseTimestamp(request.query.to) : new Date(now + 30 * DAY_MS);
+
+      const releases = await macroService.getCalendar({
+        from,
+        to,
+        series: request.query.series,
+        limit: request.query.limit,
+      });
+
+      return { releases };
+    },
+  );
+}
@@ -1,10 +1,12 @@
 import { FastifyInstance } from 'fastify';
 import { MarketDataService } from '../../services/market-data/market-data.service.js';
+import { MarketLinkingService } from '../../services/market-linking/market-linking.service.js';
 import { MarketListResponse } from '../../types/market.types.js';
 import { validatePagination } from '../../utils/validators.js';
 
 export async function getMarketsRoutes(app: FastifyInstance): Promise<void> {
   const marketDataService = new MarketDataService();
+  const marketLinkingService = new MarketLinkingService();
 
   app.get<{
     Querystring: {
@@ -175,6 +177,40 @@ export async function getMarketsRoutes(app: FastifyInstance): Promise<void> {
     },
   );
 
+  app.get<{
+    Params: { id: string };
+    Querystring: { minConfidence?: number; includeRejected?: boolean };
+  }>(
+    '/:id/instruments',
+    {
+      schema: {
+        tags: ['markets'],
+        description: 'Instruments a market is linked to, strongest link first',
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', description: 'Market condition ID' },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            minConfidence: { type: 'number', minimum: 0, maximum: 1 },
+            includeRejected: { type: 'boolean', default: false },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const links = await marketLinkingService.getInstrumentsForMarket(
+        request.params.id,
+        request.query,
+      );
+      return { links };
+    },
+  );
+
   app.get<{
     Params: { id: string };
     Querystring: { outcome?: string };
@@ -1,20 +1,25 @@
 import { FastifyInstance } from 'fastify';
 import { PositionTrackingService } from '../../services/position-tracking/position-tracking.service.js';
+import { PortfolioAnalyticsService } from '../../services/position-tracking/portfolio-analytics.service.js';
 import { authMiddleware } from '../../middleware/auth.middleware.js';
-import { PositionListResponse } from '../../types/position.types.js';
+import { PortfolioAnalytics, PositionListResponse } from '../../types/position.types.js';
+import { TradingAccount } from '../../types/trade.types.js';
 
 export async function getPositionsRoutes(app: FastifyInstance): Promise<void> {
   const positionService = new PositionTrackingService();
+  const analyticsService = new PortfolioAnalyticsService();
 
   app.get<{
     Params: { wallet: string };
+    Querystring: { account?: TradingAccount };
   }>(
     '/:wallet',
     {
       preHandler: authMiddleware,
       schema: {
         tags: ['positions'],
-        description: 'Get positions for a wallet (requires authentication)',
+        description:
+          'Get positions for a wallet (requires authentication). Use account=paper for simulated positions from paper orders (POST /api/v1/trades)',
         params: {
           type: 'object',
           required: ['wallet'],
@@ -22,13 +27,24 @@ export async function getPositionsRoutes(app: FastifyInstance): Promise<void> {
             wallet: { type: 'string', description: 'Wallet address' },
           },
         },
+        querystring: {
+          type: 'object',
+          properties: {
+            account: {
+              type: 'string',
+              enum: ['live', 'paper'],
+              default: 'live',
+              description: 'Account namespace',
+            },
+          },
+        },
         headers: {
           type: 'object',
           required: ['authorization'],
           properties: {
             authorization: {
               type: 'string',
-              description: 'Bearer token with EIP-712 signature',
+              description: 'Bearer access token from /auth/login, or an EIP-712 signature',
             },
           },
         },
@@ -36,11 +52,13 @@ export async function getPositionsRoutes(app: FastifyInstance): Promise<void> {
           200: {
             type: 'object',
             properties: {
+              account: { type: 'string' },
               positions: {
                 type: 'array',
                 items: {
                   type: 'object',
                   properties: {
+                    account: { type: 'string' },
                     walletAddress: { type: 'string' },
                     marketId: { type: 'string' },
                     outcome: { type: 'string' },
@@ -48,6 +66,8 @@ export async function getPositionsRoutes(app: FastifyInstance): Promise<void> {
                     size: { type: 'string' },
                     realizedPnl: { type: 'string' },
                     unrealizedPnl: { type: 'string' },
+                    settlementPrice: { type: 'string', nullable: true },
+                    settledAt: { type: 'string', nullable: true },
                     lastTradeAt: { type: 'string' },
                     updatedAt: { type: 'string' },
                   },
@@ -61,7 +81,64 @@ export async function getPositionsRoutes(app: FastifyInstance): Promise<void> {
     },
     async (request): Promise<PositionListResponse> => {
       const { wallet } = request.params;
-      return await positionService.getPositions(wallet);
+      return await positionService.getPositions(wallet, request.query.account ?? 'live');
+    },
+  );
+
+  app.get<{
+    Params: { wallet: string };
+    Querystring: { account?: TradingAccount; days?: number };
+  }>(
+    '/:wallet/analytics',
+    {
+      preHandler: authMiddleware,
+      schema: {
+        tags: ['positions'],
+        description:
+          'Portfolio analytics for a wallet: realized vs unrealized PnL, exposure by category and ' +
+          'time to resolution, concentration, win rate on resolved markets and a daily equity curve ' +
+          'replayed from trades (requires authentication)',
+        params: {
+          type: 'object',
+          required: ['wallet'],
+          properties: {
+            wallet: { type: 'string', description: 'Wallet address' },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            account: {
+              type: 'string',
+              enum: ['live', 'paper'],
+              default: 'live',
+              description: 'Account namespace',
+            },
+            days: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 365,
+              default: 90,
+              description: 'Equity curve length in days',
+            },
+          },
+        },
+        headers: {
+          type: 'object',
+          required: ['authorization'],
+          properties: {
+            authorization: {
+              type: 'string',
+              description: 'Bearer access token from /auth/login, or an EIP-712 signature',
+            },
+          },
+        },
+      },
+    },
+    async (request): Promise<PortfolioAnalytics> => {
+      const { wallet } = request.params;
+      const { account, days } = request.query;
+      return await analyticsService.getAnalytics(wallet, { account, days });
     },
   );
 }
@@ -27,6 +27,20 @@ interface FullSearchQuery {
   entity_types?: string;
 }
 
+/**
+ * Query parameters for document search endpoint
+ */
+interface DocumentSearchQuery {
+  q: string;
+  limit?: string;
+  offset?: string;
+  form_types?: string;
+  document_types?: string;
+  instrument_id?: string;
+  from?: string;
+  to?: string;
+}
+
 /**
  * Register search routes.
  */
@@ -166,4 +180,93 @@ export async function searchRoutes(app: FastifyInstance): Promise<void> {
       }
     }
   );
+
+  /**
+   * GET /api/v1/search/documents?q="going concern" AND -restatement&form_types=10-K,10-Q
+   * Full-text search over filings, news and transcripts with highlighted snippets.
+   */
+  app.get<{ Querystring: DocumentSearchQuery }>(
+    '/documents',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          required: ['q'],
+          properties: {
+            q: { type: 'string', minLength: 1 },
+            limit: { type: 'string', pattern: '^[0-9]+$' },
+            offset: { type: 'string', pattern: '^[0-9]+$' },
+            form_types: { type: 'string' },
+            document_types: { type: 'string' },
+            instrument_id: { type: 'string' },
+            from: { type: 'string', description: 'Earliest published date (ISO date)' },
+            to: { type: 'string', description: 'Latest published date (ISO date)' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              results: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    source: { type: 'string' },
+                    entity_id: { type: 'string' },
+                    title: { type: 'string' },
+                    form_type: { type: ['string', 'null'] },
+                    document_type: { type: 'string' },
+                    instrument_ids: { type: 'array', items: { type: 'string' } },
+                    company_name: { type: ['string', 'null'] },
+                    published_at: { type: 'string' },
+                    link: { type: 'string' },
+                    score: { type: 'number' },
+                    highlights: { type: 'array', items: { type: 'string' } },
+                  },
+                },
+              },
+              total: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: DocumentSearchQuery }>, reply: FastifyReply) => {
+      const { q, limit, offset, form_types, document_types, instrument_id, from, to } = request.query;
+
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return reply.status(400).send({
+          error: 'Invalid date',
+          message: 'from and to must be ISO dates',
+        });
+      }
+
+      try {
+        const { results, total } = await getSearchService().searchDocuments(q, {
+          limit: limit ? Math.min(parseInt(limit, 10), 100) : 20,
+          offset: offset ? parseInt(offset, 10) : 0,
+          form_types: form_types ? form_types.split(',') : undefined,
+          document_types: document_types ? document_types.split(',') : undefined,
+          instrument_id,
+          from: fromDate,
+          to: toDate,
+        });
+
+        return reply.send({ results, total });
+      } catch (error) {
+        request.log.error({
+          err: error,
+          message: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        }, 'Document search failed');
+        return reply.status(500).send({
+          error: 'Search failed',
+          message: 'An error occurred while searching',
+        });
+      }
+    }
+  );
 }
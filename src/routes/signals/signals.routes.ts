@@ -1,8 +1,16 @@
 import { FastifyInstance } from 'fastify';
 import { SignalService } from '../../services/signals/signal.service.js';
+import { SignalBacktestService } from '../../services/signals/signal-backtest.service.js';
+import { RiskScoreService } from '../../services/signals/risk-score.service.js';
+import { SignalSeverity, SignalType } from '../../types/edgar.types.js';
+import { FactorType } from '../../types/document.types.js';
+import { RiskCategory, RiskLeaderboardFilters } from '../../types/risk-score.types.js';
+import type { SignalBacktestRequest } from '../../types/backtest.types.js';
 
 export async function signalsRoutes(app: FastifyInstance): Promise<void> {
   const signalService = new SignalService();
+  const backtestService = new SignalBacktestService();
+  const riskScoreService = new RiskScoreService();
 
   app.get<{
     Querystring: {
@@ -94,4 +102,73 @@ export async function signalsRoutes(app: FastifyInstance): Promise<void> {
       return signalService.getSignalStatistics();
     },
   );
+
+  app.get<{
+    Querystring: RiskLeaderboardFilters;
+  }>(
+    '/leaderboard',
+    {
+      schema: {
+        tags: ['signals'],
+        description: 'Instruments ranked by composite risk score, optionally by a single category',
+        querystring: {
+          type: 'object',
+          properties: {
+            category: { type: 'string', enum: Object.values(RiskCategory) },
+            minScore: { type: 'number', minimum: 0, maximum: 100 },
+            limit: { type: 'number', default: 25, maximum: 200 },
+            offset: { type: 'number', default: 0 },
+          },
+        },
+      },
+    },
+    async (request) => {
+      return riskScoreService.getLeaderboard(request.query);
+    },
+  );
+
+  app.post<{
+    Body: SignalBacktestRequest;
+  }>(
+    '/backtest',
+    {
+      schema: {
+        tags: ['signals'],
+        description:
+          'Replay historical signals against daily candles: forward returns, hit rate and excess return vs a benchmark factor. Returns are measured from when each signal first fired; signals stored before first-seen tracking fall back to their last recompute.',
+        body: {
+          type: 'object',
+          properties: {
+            signalTypes: {
+              type: 'array',
+              items: { type: 'string', enum: Object.values(SignalType) },
+            },
+            severities: {
+              type: 'array',
+              items: { type: 'string', enum: Object.values(SignalSeverity) },
+            },
+            instrumentIds: { type: 'array', items: { type: 'string' } },
+            minScore: { type: 'number' },
+            from: { type: 'string', description: 'Earliest first emission (ISO date)' },
+            to: { type: 'string', description: 'Latest first emission (ISO date)' },
+            horizons: {
+              type: 'array',
+              items: { type: 'integer', minimum: 1, maximum: 252 },
+              maxItems: 10,
+              description: 'Forward horizons in trading days (default [1, 5, 20])',
+            },
+            benchmark: {
+              type: 'string',
+              enum: Object.values(FactorType),
+              description: 'Benchmark factor for excess returns (default INDEX_SPX)',
+            },
+            limit: { type: 'integer', minimum: 1, maximum: 20000, default: 5000 },
+          },
+        },
+      },
+    },
+    async (request) => {
+      return backtestService.runBacktest(request.body ?? {});
+    },
+  );
 }
@@ -0,0 +1,152 @@
+import { FastifyInstance } from 'fastify';
+import { PaperTradingService } from '../../services/trade-execution/paper-trading.service.js';
+import { authMiddleware } from '../../middleware/auth.middleware.js';
+import { PaperOrderRequest, PaperOrderResponse, Trade } from '../../types/trade.types.js';
+
+const authHeaders = {
+  type: 'object',
+  required: ['authorization'],
+  properties: {
+    authorization: {
+      type: 'string',
+      description: 'Bearer access token from /auth/login, or an EIP-712 signature',
+    },
+  },
+};
+
+const tradeSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    account: { type: 'string' },
+    walletAddress: { type: 'string' },
+    marketId: { type: 'string' },
+    outcome: { type: 'string' },
+    side: { type: 'string' },
+    price: { type: 'string' },
+    size: { type: 'string' },
+    timestamp: { type: 'string' },
+  },
+};
+
+export async function paperTradeRoutes(app: FastifyInstance): Promise<void> {
+  const paperTradingService = new PaperTradingService();
+
+  // Every paper trading route is scoped to the authenticated wallet
+  app.addHook('preHandler', authMiddleware);
+
+  app.post<{
+    Body: PaperOrderRequest;
+  }>(
+    '/',
+    {
+      schema: {
+        tags: ['trades'],
+        description:
+          'Place an order in a trading account. Only `account: "paper"` is accepted: the ' +
+          'order is simulated, filled immediately against the live orderbook. ' +
+          'Limit orders fill only at the limit or better; the rest is cancelled. ' +
+          'Results appear under GET /api/v1/positions/:wallet?account=paper',
+        headers: authHeaders,
+        body: {
+          type: 'object',
+          required: ['account', 'walletAddress', 'marketId', 'outcome', 'side', 'size'],
+          properties: {
+            account: {
+              type: 'string',
+              enum: ['paper'],
+              description: 'Trading account; live trades go through POST /trades/prepare',
+            },
+            walletAddress: {
+              type: 'string',
+              description: 'Wallet address owning the paper account',
+            },
+            marketId: { type: 'string', description: 'Market condition ID' },
+            outcome: {
+              type: 'string',
+              enum: ['YES', 'NO'],
+              description: 'Outcome to trade',
+            },
+            side: {
+              type: 'string',
+              enum: ['buy', 'sell'],
+              description: 'Buy or sell',
+            },
+            size: { type: 'string', description: 'Size in outcome tokens' },
+            orderType: {
+              type: 'string',
+              enum: ['market', 'limit'],
+              description: 'Order type (default: market)',
+            },
+            limitPrice: { type: 'string', description: 'Limit price (required for limit orders)' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              trade: tradeSchema,
+              position: {
+                type: 'object',
+                properties: {
+                  account: { type: 'string' },
+                  walletAddress: { type: 'string' },
+                  marketId: { type: 'string' },
+                  outcome: { type: 'string' },
+                  avgPrice: { type: 'string' },
+                  size: { type: 'string' },
+                  realizedPnl: { type: 'string' },
+                  unrealizedPnl: { type: 'string' },
+                  settlementPrice: { type: 'string', nullable: true },
+                  settledAt: { type: 'string', nullable: true },
+                  lastTradeAt: { type: 'string' },
+                  updatedAt: { type: 'string' },
+                },
+              },
+              fill: {
+                type: 'object',
+                properties: {
+                  requestedSize: { type: 'string' },
+                  filledSize: { type: 'string' },
+                  avgPrice: { type: 'string' },
+                  bestPrice: { type: 'string' },
+                  notional: { type: 'string' },
+                  slippage: { type: 'string', description: 'Percent vs. best price' },
+                  levelsConsumed: { type: 'number' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request): Promise<PaperOrderResponse> => {
+      return paperTradingService.placeOrder(request.body);
+    },
+  );
+
+  app.get<{
+    Params: { wallet: string };
+  }>(
+    '/paper/:wallet',
+    {
+      schema: {
+        tags: ['trades'],
+        description: 'List paper trades for a wallet, newest first (requires authentication)',
+        headers: authHeaders,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              trades: { type: 'array', items: tradeSchema },
+            },
+          },
+        },
+      },
+    },
+    async (request): Promise<{ trades: Trade[] }> => {
+      const trades = await paperTradingService.getTrades(request.params.wallet);
+      return { trades };
+    },
+  );
+}
@@ -21,7 +21,7 @@ export async function prepareTradeRoutes(app: FastifyInstance): Promise<void> {
           properties: {
             authorization: {
               type: 'string',
-              description: 'Bearer token with EIP-712 signature',
+              description: 'Bearer access token from /auth/login, or an EIP-712 signature',
             },
           },
         },
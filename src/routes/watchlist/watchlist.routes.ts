@@ -1,222 +1,276 @@
 import { FastifyInstance } from 'fastify';
 import { WatchlistService } from '../../services/watchlist/watchlist.service.js';
+import { authMiddleware } from '../../middleware/auth.middleware.js';
+import type { CreateWatchlistInput, UpdateWatchlistInput } from '../../types/watchlist.types.js';
+
+const authHeaders = {
+  type: 'object',
+  required: ['authorization'],
+  properties: {
+    authorization: {
+      type: 'string',
+      description: 'Bearer access token from /auth/login, or an EIP-712 signature',
+    },
+  },
+};
 
 export async function watchlistRoutes(app: FastifyInstance): Promise<void> {
   const watchlistService = new WatchlistService();
 
-  // List all watchlists
-  app.get(
-    '/',
-    {
-      schema: {
-        tags: ['watchlists'],
-        description: 'List all watchlists',
-      },
-    },
-    async () => {
-      return watchlistService.getAllWatchlists();
-    },
-  );
-
-  // Get a specific watchlist
+  // Read-only view through a share link (no authentication)
   app.get<{
-    Params: { id: string };
+    Params: { token: string };
   }>(
-    '/:id',
+    '/shared/:token',
     {
       schema: {
         tags: ['watchlists'],
-        description: 'Get a watchlist by ID',
+        description: 'Get a shared watchlist with its markets and instruments (read-only)',
         params: {
           type: 'object',
           properties: {
-            id: { type: 'string' },
+            token: { type: 'string' },
           },
-          required: ['id'],
+          required: ['token'],
         },
       },
     },
-    async (request, reply) => {
-      const watchlist = await watchlistService.getWatchlistById(request.params.id);
-      if (!watchlist) {
-        return reply.status(404).send({ error: 'Watchlist not found' });
-      }
-      return watchlist;
+    async (request) => {
+      return watchlistService.getSharedWatchlist(request.params.token);
     },
   );
 
-  // Get watchlist with markets
-  app.get<{
-    Params: { id: string };
-  }>(
-    '/:id/markets',
-    {
-      schema: {
-        tags: ['watchlists'],
-        description: 'Get a watchlist with all its markets (includes full market details)',
-        params: {
-          type: 'object',
-          properties: {
-            id: { type: 'string' },
-          },
-          required: ['id'],
+  // Everything else is scoped to the authenticated :wallet
+  await app.register(async (owned) => {
+    owned.addHook('preHandler', authMiddleware);
+
+    // List a wallet's watchlists
+    owned.get<{
+      Params: { wallet: string };
+    }>(
+      '/:wallet',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: 'List watchlists for a wallet (requires authentication)',
+          headers: authHeaders,
         },
       },
-    },
-    async (request, reply) => {
-      const watchlist = await watchlistService.getWatchlistWithMarkets(request.params.id);
-      if (!watchlist) {
-        return reply.status(404).send({ error: 'Watchlist not found' });
-      }
-      return watchlist;
-    },
-  );
+      async (request) => {
+        return watchlistService.getWatchlists(request.params.wallet);
+      },
+    );
 
-  // Create a new watchlist
-  app.post<{
-    Body: {
-      name: string;
-      sortOrder: number;
-    };
-  }>(
-    '/',
-    {
-      schema: {
-        tags: ['watchlists'],
-        description: 'Create a new watchlist',
-        body: {
-          type: 'object',
-          properties: {
-            name: { type: 'string' },
-            sortOrder: { type: 'number', minimum: 1, maximum: 9 },
+    // Get a watchlist with its items
+    owned.get<{
+      Params: { wallet: string; id: string };
+    }>(
+      '/:wallet/:id',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: 'Get a watchlist with all its markets and instruments',
+          headers: authHeaders,
+        },
+      },
+      async (request) => {
+        return watchlistService.getWatchlistWithItems(request.params.wallet, request.params.id);
+      },
+    );
+
+    // Create a new watchlist
+    owned.post<{
+      Params: { wallet: string };
+      Body: CreateWatchlistInput;
+    }>(
+      '/:wallet',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: 'Create a new watchlist',
+          headers: authHeaders,
+          body: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              sortOrder: { type: 'number', minimum: 1, maximum: 9 },
+            },
+            required: ['name', 'sortOrder'],
           },
-          required: ['name', 'sortOrder'],
         },
       },
-    },
-    async (request, reply) => {
-      try {
-        const watchlist = await watchlistService.createWatchlist(request.body);
+      async (request, reply) => {
+        const watchlist = await watchlistService.createWatchlist(request.params.wallet, request.body);
         return reply.status(201).send(watchlist);
-      } catch (error: any) {
-        return reply.status(400).send({ error: error.message });
-      }
-    },
-  );
+      },
+    );
 
-  // Update a watchlist
-  app.patch<{
-    Params: { id: string };
-    Body: {
-      name?: string;
-      sortOrder?: number;
-    };
-  }>(
-    '/:id',
-    {
-      schema: {
-        tags: ['watchlists'],
-        description: 'Update a watchlist',
-        params: {
-          type: 'object',
-          properties: {
-            id: { type: 'string' },
+    // Update a watchlist
+    owned.patch<{
+      Params: { wallet: string; id: string };
+      Body: UpdateWatchlistInput;
+    }>(
+      '/:wallet/:id',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: 'Update a watchlist',
+          headers: authHeaders,
+          body: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              sortOrder: { type: 'number', minimum: 1, maximum: 9 },
+            },
           },
-          required: ['id'],
         },
-        body: {
-          type: 'object',
-          properties: {
-            name: { type: 'string' },
-            sortOrder: { type: 'number', minimum: 1, maximum: 9 },
-          },
+      },
+      async (request) => {
+        return watchlistService.updateWatchlist(
+          request.params.wallet,
+          request.params.id,
+          request.body,
+        );
+      },
+    );
+
+    // Delete a watchlist
+    owned.delete<{
+      Params: { wallet: string; id: string };
+    }>(
+      '/:wallet/:id',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: 'Delete a watchlist',
+          headers: authHeaders,
         },
       },
-    },
-    async (request, reply) => {
-      try {
-        const watchlist = await watchlistService.updateWatchlist(request.params.id, request.body);
-        if (!watchlist) {
-          return reply.status(404).send({ error: 'Watchlist not found' });
-        }
-        return watchlist;
-      } catch (error: any) {
-        return reply.status(400).send({ error: error.message });
-      }
-    },
-  );
+      async (request, reply) => {
+        await watchlistService.deleteWatchlist(request.params.wallet, request.params.id);
+        return reply.status(204).send();
+      },
+    );
 
-  // Delete a watchlist
-  app.delete<{
-    Params: { id: string };
-  }>(
-    '/:id',
-    {
-      schema: {
-        tags: ['watchlists'],
-        description: 'Delete a watchlist',
-        params: {
-          type: 'object',
-          properties: {
-            id: { type: 'string' },
-          },
-          required: ['id'],
+    // Create (or rotate) a read-only share link
+    owned.post<{
+      Params: { wallet: string; id: string };
+    }>(
+      '/:wallet/:id/share',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description:
+            'Create a read-only share link; any previous link stops working. Share at /api/v1/watchlists/shared/:shareToken',
+          headers: authHeaders,
         },
       },
-    },
-    async (request, reply) => {
-      const success = await watchlistService.deleteWatchlist(request.params.id);
-      if (!success) {
-        return reply.status(404).send({ error: 'Watchlist not found' });
-      }
-      return reply.status(204).send();
-    },
-  );
+      async (request) => {
+        return watchlistService.shareWatchlist(request.params.wallet, request.params.id);
+      },
+    );
 
-  // Toggle market membership in a watchlist
-  app.post<{
-    Params: { id: string; marketId: string };
-  }>(
-    '/:id/markets/:marketId/toggle',
-    {
-      schema: {
-        tags: ['watchlists'],
-        description: 'Toggle market membership in a watchlist (add if not present, remove if present)',
-        params: {
-          type: 'object',
-          properties: {
-            id: { type: 'string' },
-            marketId: { type: 'string' },
-          },
-          required: ['id', 'marketId'],
+    // Revoke the share link
+    owned.delete<{
+      Params: { wallet: string; id: string };
+    }>(
+      '/:wallet/:id/share',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: 'Revoke the read-only share link',
+          headers: authHeaders,
         },
       },
-    },
-    async (request) => {
-      return watchlistService.toggleMarket(request.params.id, request.params.marketId);
-    },
-  );
+      async (request) => {
+        return watchlistService.unshareWatchlist(request.params.wallet, request.params.id);
+      },
+    );
 
-  // Get watchlists for a specific market
-  app.get<{
-    Params: { marketId: string };
-  }>(
-    '/by-market/:marketId',
-    {
-      schema: {
-        tags: ['watchlists'],
-        description: 'Get all watchlists that contain a specific market',
-        params: {
-          type: 'object',
-          properties: {
-            marketId: { type: 'string' },
-          },
-          required: ['marketId'],
+    // Toggle market membership in a watchlist
+    owned.post<{
+      Params: { wallet: string; id: string; marketId: string };
+    }>(
+      '/:wallet/:id/markets/:marketId/toggle',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: 'Toggle market membership in a watchlist (add if not present, remove if present)',
+          headers: authHeaders,
         },
       },
-    },
-    async (request) => {
-      return watchlistService.getWatchlistsForMarket(request.params.marketId);
-    },
-  );
+      async (request) => {
+        return watchlistService.toggleItem(
+          request.params.wallet,
+          request.params.id,
+          'market',
+          request.params.marketId,
+        );
+      },
+    );
+
+    // Toggle instrument membership in a watchlist
+    owned.post<{
+      Params: { wallet: string; id: string; instrumentId: string };
+    }>(
+      '/:wallet/:id/instruments/:instrumentId/toggle',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: 'Toggle instrument membership in a watchlist (add if not present, remove if present)',
+          headers: authHeaders,
+        },
+      },
+      async (request) => {
+        return watchlistService.toggleItem(
+          request.params.wallet,
+          request.params.id,
+          'instrument',
+          request.params.instrumentId,
+        );
+      },
+    );
+
+    // Get a wallet's watchlists for a specific market
+    owned.get<{
+      Params: { wallet: string; marketId: string };
+    }>(
+      '/:wallet/by-market/:marketId',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: "Get the wallet's watchlists that contain a specific market",
+          headers: authHeaders,
+        },
+      },
+      async (request) => {
+        return watchlistService.getWatchlistsContaining(
+          request.params.wallet,
+          'market',
+          request.params.marketId,
+        );
+      },
+    );
+
+    // Get a wallet's watchlists for a specific instrument
+    owned.get<{
+      Params: { wallet: string; instrumentId: string };
+    }>(
+      '/:wallet/by-instrument/:instrumentId',
+      {
+        schema: {
+          tags: ['watchlists'],
+          description: "Get the wallet's watchlists that contain a specific instrument",
+          headers: authHeaders,
+        },
+      },
+      async (request) => {
+        return watchlistService.getWatchlistsContaining(
+          request.params.wallet,
+          'instrument',
+          request.params.instrumentId,
+        );
+      },
+    );
+  });
 }
@@ -0,0 +1,43 @@
+import { loadEnvironment } from '../config/environment.js';
+import { createLogger } from '../utils/logger.js';
+import { createPrismaClient, disconnectPrisma } from '../adapters/database/client.js';
+import { SearchReindexService } from '../services/search/search-reindex.service.js';
+
+/**
+ * Blue/green rebuild of the unified search index.
+ * Follow progress via GET /api/v1/admin/search/reindex/:id.
+ */
+async function reindexSearch(): Promise<void> {
+  loadEnvironment();
+  const logger = createLogger();
+  createPrismaClient();
+
+  try {
+    const run = await new SearchReindexService().rebuild();
+
+    if (run.status !== 'completed') {
+      logger.error({ runId: run.id, error: run.errorMessage }, 'Search reindex failed');
+      process.exitCode = 1;
+      return;
+    }
+
+    logger.info(
+      {
+        runId: run.id,
+        index: run.targetIndex,
+        markets: run.marketsIndexed,
+        instruments: run.instrumentsIndexed,
+        signals: run.signalsIndexed,
+        caughtUp: run.caughtUp,
+      },
+      'Search reindex complete',
+    );
+  } finally {
+    await disconnectPrisma();
+  }
+}
+
+reindexSearch().catch((error) => {
+  console.error('Search reindex failed:', error);
+  process.exit(1);
+});
@@ -3,9 +3,10 @@ import { createLogger } from '../utils/logger.js';
 import { createApp } from './app.js';
 import { createPrismaClient, disconnectPrisma } from '../adapters/database/client.js';
 import { registerRoutes } from '../routes/index.js';
-import { MarketDataPubSub } from '../services/market-data/market-pubsub.service.js';
+import { createMarketDataPubSub } from '../services/market-data/market-pubsub.service.js';
 import { MarketDataService } from '../services/market-data/market-data.service.js';
 import { MarketRealtimeGateway } from './market-realtime.gateway.js';
+import { WatchlistService } from '../services/watchlist/watchlist.service.js';
 
 /**
  * Production API Server
@@ -33,6 +34,9 @@ async function start(): Promise<void> {
     createPrismaClient();
     logger.info('✅ Database connected');
 
+    // Assign pre-ownership watchlists to the configured default wallet
+    await new WatchlistService().claimLegacyWatchlists();
+
     // Create Fastify app
     const app = await createApp();
 
@@ -52,12 +56,16 @@ async function start(): Promise<void> {
 
     // Initialize real-time WebSocket gateway
     // This provides real-time market data to connected clients
-    // The actual market sync runs in a separate worker container
-    const pubsub = new MarketDataPubSub();
+    // The actual market sync runs in a separate worker container; set
+    // PUBSUB_DRIVER=redis so its updates reach this process
+    const pubsub = createMarketDataPubSub();
     const marketDataService = new MarketDataService();
     const realtimeGateway = new MarketRealtimeGateway(app, pubsub, marketDataService);
 
     logger.info('✅ WebSocket gateway initialized');
+    if (env.PUBSUB_DRIVER === 'memory') {
+      logger.warn('PUBSUB_DRIVER=memory: updates from worker processes will not reach this gateway');
+    }
     logger.info('ℹ️  Background workers run in separate containers');
 
     // Graceful shutdown
@@ -70,6 +78,9 @@ async function start(): Promise<void> {
       // Close HTTP server
       await app.close();
 
+      // Close pubsub connections
+      await pubsub.close();
+
       // Disconnect database
       await disconnectPrisma();
 
@@ -1,11 +1,17 @@
 import { FastifyInstance } from 'fastify';
 import WebSocket, { WebSocketServer } from 'ws';
+import { isAddress } from 'viem';
 import { MarketDataPubSub } from '../services/market-data/market-pubsub.service.js';
 import { MarketDataService } from '../services/market-data/market-data.service.js';
 import { TradingViewStreamService } from '../services/market-data/tradingview-stream.service.js';
 import { InstrumentRepository } from '../adapters/database/repositories/instrument.repository.js';
 import { getLogger } from '../utils/logger.js';
 import { NormalizedMarketDataMessage } from '../types/market-data.types.js';
+import { SignalAlertPayload } from '../types/alert.types.js';
+import { alertChannelFor } from '../services/alerts/alert-dispatcher.service.js';
+import { ARBITRAGE_CHANNEL } from '../services/arbitrage/arbitrage-detector.service.js';
+import { ArbitrageEventPayload } from '../types/arbitrage.types.js';
+import { authenticateWallet } from '../middleware/auth.middleware.js';
 
 type ClientSubscription = {
   channel: string;
@@ -73,6 +79,31 @@ export class MarketRealtimeGateway {
     const type = String(record.type || '');
     const channelType = String(record.channel || '');
 
+    // Signal alerts for a wallet's alert rules
+    if (channelType === 'alerts') {
+      const walletAddress = String(record.walletAddress || '');
+      if (type === 'subscribe') {
+        void this.subscribeAlerts(socket, walletAddress, String(record.token || ''));
+        return;
+      }
+      if (type === 'unsubscribe') {
+        this.unsubscribeAlerts(socket, walletAddress);
+      }
+      return;
+    }
+
+    // Arbitrage opportunities across all markets
+    if (channelType === 'arbitrage') {
+      if (type === 'subscribe') {
+        this.subscribeArbitrage(socket);
+        return;
+      }
+      if (type === 'unsubscribe') {
+        this.unsubscribeArbitrage(socket);
+      }
+      return;
+    }
+
     // Check if this is an instrument subscription (new)
     const instrumentId = String(record.instrumentId || '');
     if (instrumentId) {
@@ -222,6 +253,112 @@ export class MarketRealtimeGateway {
     return null;
   }
 
+  // ── Alert subscription handlers ─────────────────────────────────────────
+
+  /**
+   * Alerts are private to a wallet, so subscribing takes the same proof as
+   * /api/v1/alerts: a session access token or a signature over the nonce
+   */
+  private async subscribeAlerts(
+    socket: WebSocket,
+    walletAddress: string,
+    token: string,
+  ): Promise<void> {
+    if (!isAddress(walletAddress)) {
+      socket.send(
+        JSON.stringify({
+          type: 'error',
+          code: 'INVALID_SUBSCRIPTION',
+          message: 'alerts channel requires a valid walletAddress',
+        }),
+      );
+      return;
+    }
+
+    try {
+      if (!token) {
+        throw new Error('Missing token');
+      }
+      await authenticateWallet(walletAddress, token);
+    } catch {
+      this.logger.warn({ walletAddress }, 'Rejected unauthenticated alerts subscription');
+      socket.send(
+        JSON.stringify({
+          type: 'error',
+          code: 'UNAUTHORIZED',
+          message: 'alerts channel requires a token for walletAddress',
+        }),
+      );
+      return;
+    }
+
+    const channel = alertChannelFor(walletAddress);
+    const subscriptions = this.clientSubscriptions.get(socket);
+    // The socket may have closed while the token was verified
+    if (!subscriptions || subscriptions.has(channel) || socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const unsubscribe = this.pubsub.subscribe<SignalAlertPayload>(channel, (event) => {
+      socket.send(
+        JSON.stringify({
+          type: 'alerts',
+          walletAddress,
+          payload: event,
+        }),
+      );
+    });
+
+    subscriptions.set(channel, { channel, unsubscribe });
+
+    this.logger.info({ walletAddress }, 'Client subscribed to alerts channel');
+  }
+
+  private unsubscribeAlerts(socket: WebSocket, walletAddress: string): void {
+    if (!isAddress(walletAddress)) {
+      return;
+    }
+
+    const channel = alertChannelFor(walletAddress);
+    const subscriptions = this.clientSubscriptions.get(socket);
+    const subscription = subscriptions?.get(channel);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.unsubscribe();
+    subscriptions?.delete(channel);
+  }
+
+  private subscribeArbitrage(socket: WebSocket): void {
+    const subscriptions = this.clientSubscriptions.get(socket);
+    if (!subscriptions || subscriptions.has(ARBITRAGE_CHANNEL)) {
+      return;
+    }
+
+    const unsubscribe = this.pubsub.subscribe<ArbitrageEventPayload>(ARBITRAGE_CHANNEL, (event) => {
+      socket.send(
+        JSON.stringify({
+          type: 'arbitrage',
+          payload: event,
+        }),
+      );
+    });
+
+    subscriptions.set(ARBITRAGE_CHANNEL, { channel: ARBITRAGE_CHANNEL, unsubscribe });
+  }
+
+  private unsubscribeArbitrage(socket: WebSocket): void {
+    const subscriptions = this.clientSubscriptions.get(socket);
+    const subscription = subscriptions?.get(ARBITRAGE_CHANNEL);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.unsubscribe();
+    subscriptions?.delete(ARBITRAGE_CHANNEL);
+  }
+
   // ── Instrument subscription handlers ────────────────────────────────────
 
   private subscribeInstrument(socket: WebSocket, instrumentId: string, channelType: string): void {
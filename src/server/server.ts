@@ -3,17 +3,26 @@ import { createLogger } from '../utils/logger.js';
 import { createApp } from './app.js';
 import { createPrismaClient, disconnectPrisma } from '../adapters/database/client.js';
 import { registerRoutes } from '../routes/index.js';
+import { WatchlistService } from '../services/watchlist/watchlist.service.js';
 import { MarketSyncJob } from '../jobs/market-sync.job.js';
 import { PositionUpdateJob } from '../jobs/position-update.job.js';
+import { MarketResolutionJob } from '../jobs/market-resolution.job.js';
+import { MarketLinkingJob } from '../jobs/market-linking.job.js';
+import { FactorPriceSyncJob } from '../jobs/factor-price-sync.job.js';
+import { FactorBetaJob } from '../jobs/factor-beta.job.js';
+import { MacroCalendarJob } from '../jobs/macro-calendar.job.js';
 import { EdgarSyncJob } from '../jobs/edgar-sync.job.js';
 import { EdgarUniverseDiscoveryJob } from '../jobs/edgar-universe-discovery.job.js';
 import { NewsWorkerJob } from '../jobs/news-worker.job.js';
+import { RegulatoryWorkerJob } from '../jobs/regulatory-worker.job.js';
 import { SearchIndexerJob } from '../jobs/search-indexer.job.js';
 import { EntityEnrichmentJob } from '../jobs/entity-enrichment.job.js';
 import { SignalComputationJob } from '../jobs/signal-computation.job.js';
-import { MarketDataPubSub } from '../services/market-data/market-pubsub.service.js';
+import { AlertDeliveryJob } from '../jobs/alert-delivery.job.js';
+import { createMarketDataPubSub } from '../services/market-data/market-pubsub.service.js';
 import { MarketDataStreamService } from '../services/market-data/market-data-stream.service.js';
 import { MarketDataService } from '../services/market-data/market-data.service.js';
+import { ArbitrageDetectorService } from '../services/arbitrage/arbitrage-detector.service.js';
 import { MarketRealtimeGateway } from './market-realtime.gateway.js';
 
 async function start(): Promise<void> {
@@ -31,6 +40,9 @@ async function start(): Promise<void> {
     createPrismaClient();
     logger.info('✅ Database connected');
 
+    // Assign pre-ownership watchlists to the configured default wallet
+    await new WatchlistService().claimLegacyWatchlists();
+
     // Create Fastify app
     const app = await createApp();
 
@@ -50,17 +62,35 @@ async function start(): Promise<void> {
     // Start background jobs
     const marketSyncJob = new MarketSyncJob();
     const positionUpdateJob = new PositionUpdateJob();
+    const marketResolutionJob = new MarketResolutionJob();
+    const marketLinkingJob = new MarketLinkingJob();
+    const factorPriceSyncJob = new FactorPriceSyncJob();
+    const factorBetaJob = new FactorBetaJob();
+    const macroCalendarJob = new MacroCalendarJob();
 
-    const pubsub = new MarketDataPubSub();
+    const pubsub = createMarketDataPubSub();
     const marketDataService = new MarketDataService();
     const streamService = new MarketDataStreamService(pubsub);
     const realtimeGateway = new MarketRealtimeGateway(app, pubsub, marketDataService);
 
+    // Alert delivery (webhooks + alerts WebSocket channel) for signals computed in-process
+    const alertDeliveryJob = new AlertDeliveryJob(pubsub);
+    alertDeliveryJob.start();
+
     // Start WebSocket stream immediately (subscribes to existing markets)
     logger.info('🔌 Starting WebSocket stream...');
     await streamService.start();
     logger.info('✅ WebSocket stream started');
 
+    // Arbitrage detection runs on the books the stream service keeps
+    let arbitrageDetector: ArbitrageDetectorService | null = null;
+    if (env.ARBITRAGE_DETECTION_ENABLED) {
+      arbitrageDetector = new ArbitrageDetectorService(pubsub, streamService);
+      arbitrageDetector.start().catch((error) => {
+        logger.error({ error }, 'Failed to start arbitrage detector');
+      });
+    }
+
     // Pass streamService to marketSyncJob so it can subscribe to new markets
     marketSyncJob.setStreamService(streamService);
 
@@ -71,6 +101,11 @@ async function start(): Promise<void> {
     });
 
     positionUpdateJob.start();
+    marketResolutionJob.start();
+    marketLinkingJob.start();
+    factorPriceSyncJob.start();
+    factorBetaJob.start();
+    macroCalendarJob.start();
     logger.info('✅ Background jobs started');
 
     // Start EDGAR worker if enabled
@@ -109,6 +144,17 @@ async function start(): Promise<void> {
       logger.info('✅ News worker started');
     }
 
+    // Start regulatory worker if enabled
+    let regulatoryWorkerJob: RegulatoryWorkerJob | null = null;
+    if (env.REGULATORY_WORKER_ENABLED) {
+      logger.info('💊 Starting regulatory worker...');
+      regulatoryWorkerJob = new RegulatoryWorkerJob();
+      regulatoryWorkerJob.start().catch((error) => {
+        logger.error({ err: error }, 'Failed to start regulatory worker');
+      });
+      logger.info('✅ Regulatory worker started');
+    }
+
     // Start search indexer if enabled
     let searchIndexerJob: SearchIndexerJob | null = null;
     if (env.SEARCH_INDEXER_ENABLED) {
@@ -158,8 +204,15 @@ async function start(): Promise<void> {
       // Stop background jobs
       marketSyncJob.stop();
       positionUpdateJob.stop();
+      marketResolutionJob.stop();
+      marketLinkingJob.stop();
+      factorPriceSyncJob.stop();
+      factorBetaJob.stop();
+      macroCalendarJob.stop();
+      arbitrageDetector?.stop();
       streamService.stop();
       realtimeGateway.close();
+      alertDeliveryJob.stop();
 
       if (edgarSyncJob) {
         logger.info('Stopping EDGAR sync job...');
@@ -176,6 +229,11 @@ async function start(): Promise<void> {
         newsWorkerJob.stop();
       }
 
+      if (regulatoryWorkerJob) {
+        logger.info('Stopping regulatory worker...');
+        regulatoryWorkerJob.stop();
+      }
+
       if (searchIndexerJob) {
         logger.info('Stopping search indexer job...');
         searchIndexerJob.stop();
@@ -192,6 +250,7 @@ async function start(): Promise<void> {
       }
 
       await app.close();
+      await pubsub.close();
       await disconnectPrisma();
       logger.info('Server closed');
       process.exit(0);
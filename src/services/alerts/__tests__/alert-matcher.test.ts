@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { alertTriggerFor, matchesAlertRule } from '../alert-matcher';
+import { signWebhookPayload, verifyWebhookSignature } from '../../../utils/webhook-signature';
+import { SignalSeverity, SignalType, SignalRecord } from '../../../types/edgar.types';
+
+function makeSignal(overrides: Partial<SignalRecord> = {}): SignalRecord {
+  return {
+    id: 'sig-1',
+    instrumentId: 'inst-1',
+    signalType: SignalType.DILUTION_RISK,
+    severity: SignalSeverity.HIGH,
+    score: '72',
+    reason: 'Large shelf registration',
+    evidenceFacts: [],
+    sourceFiling: null,
+    computedAt: new Date('2026-01-01T00:00:00Z'),
+    firstSeenAt: new Date('2026-01-01T00:00:00Z'),
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+const baseRule = {
+  enabled: true,
+  signalTypes: [] as SignalType[],
+  minSeverity: SignalSeverity.LOW,
+  instrumentIds: null as string[] | null,
+  watchlistId: null as string | null,
+  minScore: null as number | null,
+};
+
+describe('alert matching', () => {
+  describe('alertTriggerFor', () => {
+    it('should trigger on newly created signals', () => {
+      const trigger = alertTriggerFor({ signal: makeSignal(), created: true, previousSeverity: null });
+      expect(trigger).toBe('created');
+    });
+
+    it('should trigger on severity escalation', () => {
+      const trigger = alertTriggerFor({
+        signal: makeSignal({ severity: SignalSeverity.CRITICAL }),
+        created: false,
+        previousSeverity: SignalSeverity.MEDIUM,
+      });
+      expect(trigger).toBe('escalated');
+    });
+
+    it('should ignore re-upserts at the same or lower severity', () => {
+      expect(
+        alertTriggerFor({ signal: makeSignal(), created: false, previousSeverity: SignalSeverity.HIGH }),
+      ).toBeNull();
+      expect(
+        alertTriggerFor({ signal: makeSignal(), created: false, previousSeverity: SignalSeverity.CRITICAL }),
+      ).toBeNull();
+    });
+  });
+
+  describe('matchesAlertRule', () => {
+    it('should match everything with an empty rule', () => {
+      expect(matchesAlertRule(baseRule, makeSignal())).toBe(true);
+    });
+
+    it('should respect disabled rules', () => {
+      expect(matchesAlertRule({ ...baseRule, enabled: false }, makeSignal())).toBe(false);
+    });
+
+    it('should filter by signal type', () => {
+      const rule = { ...baseRule, signalTypes: [SignalType.DISTRESS_RISK] };
+      expect(matchesAlertRule(rule, makeSignal())).toBe(false);
+      expect(matchesAlertRule(rule, makeSignal({ signalType: SignalType.DISTRESS_RISK }))).toBe(true);
+    });
+
+    it('should filter by minimum severity', () => {
+      const rule = { ...baseRule, minSeverity: SignalSeverity.CRITICAL };
+      expect(matchesAlertRule(rule, makeSignal())).toBe(false);
+      expect(matchesAlertRule(rule, makeSignal({ severity: SignalSeverity.CRITICAL }))).toBe(true);
+    });
+
+    it('should filter by instrument scope', () => {
+      const rule = { ...baseRule, instrumentIds: ['inst-2'] };
+      expect(matchesAlertRule(rule, makeSignal())).toBe(false);
+      expect(matchesAlertRule(rule, makeSignal({ instrumentId: 'inst-2' }))).toBe(true);
+    });
+
+    it('should filter by watchlist scope', () => {
+      const rule = { ...baseRule, watchlistId: 'wl-1' };
+      expect(matchesAlertRule(rule, makeSignal())).toBe(false);
+      expect(matchesAlertRule(rule, makeSignal(), new Set(['wl-2']))).toBe(false);
+      expect(matchesAlertRule(rule, makeSignal(), new Set(['wl-1']))).toBe(true);
+    });
+
+    it('should filter by score threshold', () => {
+      const rule = { ...baseRule, minScore: 80 };
+      expect(matchesAlertRule(rule, makeSignal())).toBe(false);
+      expect(matchesAlertRule(rule, makeSignal({ score: '80' }))).toBe(true);
+    });
+  });
+
+  describe('webhook signatures', () => {
+    it('should verify a payload signed with the same secret', () => {
+      const body = JSON.stringify({ hello: 'world' });
+      const signature = signWebhookPayload('whsec_test', 1700000000, body);
+
+      expect(signature.startsWith('sha256=')).toBe(true);
+      expect(verifyWebhookSignature('whsec_test', 1700000000, body, signature)).toBe(true);
+    });
+
+    it('should reject tampered bodies, timestamps or secrets', () => {
+      const body = JSON.stringify({ hello: 'world' });
+      const signature = signWebhookPayload('whsec_test', 1700000000, body);
+
+      expect(verifyWebhookSignature('whsec_test', 1700000000, '{}', signature)).toBe(false);
+      expect(verifyWebhookSignature('whsec_test', 1700000001, body, signature)).toBe(false);
+      expect(verifyWebhookSignature('whsec_other', 1700000000, body, signature)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import axios from 'axios';
+import { AlertRuleRepository } from '../../adapters/database/repositories/alert-rule.repository.js';
+import { AlertDeliveryRepository } from '../../adapters/database/repositories/alert-delivery.repository.js';
+import { WatchlistRepository } from '../../adapters/database/repositories/watchlist.repository.js';
+import { MarketDataPubSub } from '../market-data/market-pubsub.service.js';
+import { onSignalPersisted } from '../signals/signal-events.js';
+import { alertTriggerFor, matchesAlertRule } from './alert-matcher.js';
+import { getEnvironment } from '../../config/environment.js';
+import { getLogger } from '../../utils/logger.js';
+import {
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../../utils/webhook-signature.js';
+import {
+  parseWebhookUrl,
+  webhookHttpAgent,
+  webhookHttpsAgent,
+} from '../../utils/webhook-url.js';
+import type {
+  AlertDeliveryRecord,
+  AlertRuleWithSecret,
+  SignalAlertPayload,
+  SignalPersistedEvent,
+} from '../../types/alert.types.js';
+
+export function alertChannelFor(walletAddress: string): string {
+  return `alerts:${walletAddress.toLowerCase()}`;
+}
+
+/**
+ * Alert Dispatcher Service
+ *
+ * Matches every persisted signal against enabled alert rules and delivers
+ * matches over signed webhooks and the `alerts` WebSocket channel.
+ *
+ * Webhook delivery is at-least-once: each attempt is logged in
+ * AlertDelivery, failures are retried with exponential backoff by
+ * retryDueDeliveries() until ALERT_WEBHOOK_MAX_ATTEMPTS is reached.
+ */
+export class AlertDispatcherService {
+  private ruleRepo: AlertRuleRepository;
+  private deliveryRepo: AlertDeliveryRepository;
+  private watchlistRepo: WatchlistRepository;
+  private pubsub: MarketDataPubSub | null;
+  private logger = getLogger();
+  private unsubscribe: (() => void) | null = null;
+  private ruleCache: { rules: AlertRuleWithSecret[]; loadedAt: number } | null = null;
+
+  /**
+   * @param pubsub - WebSocket fan-out; omit in worker processes without a gateway
+   *                 unless PUBSUB_DRIVER=redis shares channels with the API pods
+   */
+  constructor(pubsub?: MarketDataPubSub) {
+    this.ruleRepo = new AlertRuleRepository();
+    this.deliveryRepo = new AlertDeliveryRepository();
+    this.watchlistRepo = new WatchlistRepository();
+    this.pubsub = pubsub ?? null;
+  }
+
+  /**
+   * Start listening for persisted signals
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = onSignalPersisted((event) => {
+      this.handleSignal(event).catch((error) => {
+        this.logger.error(
+          { err: error, signalId: event.signal.id },
+          'Failed to dispatch alerts for signal',
+        );
+      });
+    });
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  /**
+   * Drop cached rules so the next signal sees rule changes immediately
+   */
+  invalidateRules(): void {
+    this.ruleCache = null;
+  }
+
+  async handleSignal(event: SignalPersistedEvent): Promise<number> {
+    const trigger = alertTriggerFor(event);
+    if (!trigger) {
+      return 0;
+    }
+
+    const enabledRules = await this.getEnabledRules();
+
+    // Watchlist membership is read per signal, so item edits apply immediately
+    const scopedWatchlists = [
+      ...new Set(enabledRules.flatMap((rule) => (rule.watchlistId ? [rule.watchlistId] : []))),
+    ];
+    const watchlistsWithInstrument = await this.watchlistRepo.findIdsContainingInstrument(
+      scopedWatchlists,
+      event.signal.instrumentId,
+    );
+
+    const rules = enabledRules.filter((rule) =>
+      matchesAlertRule(rule, event.signal, watchlistsWithInstrument),
+    );
+
+    for (const rule of rules) {
+      const payload: SignalAlertPayload = {
+        type: 'signal_alert',
+        alertId: `${rule.id}:${event.signal.id}:${event.signal.computedAt.getTime()}`,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        trigger,
+        signal: event.signal,
+        timestamp: new Date().toISOString(),
+      };
+
+      if (rule.websocketEnabled && this.pubsub) {
+        this.pubsub.publish(alertChannelFor(rule.walletAddress), payload);
+        await this.deliveryRepo.create({
+          ruleId: rule.id,
+          signalId: event.signal.id,
+          channel: 'websocket',
+          status: 'delivered',
+          payload,
+          deliveredAt: new Date(),
+        });
+      }
+
+      if (rule.webhookUrl) {
+        const delivery = await this.deliveryRepo.create({
+          ruleId: rule.id,
+          signalId: event.signal.id,
+          channel: 'webhook',
+          status: 'pending',
+          payload,
+          nextAttemptAt: new Date(),
+        });
+        await this.attemptWebhook(delivery, rule);
+      }
+    }
+
+    if (rules.length > 0) {
+      this.logger.info(
+        { signalId: event.signal.id, signalType: event.signal.signalType, matchedRules: rules.length },
+        'Dispatched signal alerts',
+      );
+    }
+
+    return rules.length;
+  }
+
+  /**
+   * Retry webhook deliveries whose backoff has elapsed
+   *
+   * @returns Number of deliveries attempted
+   */
+  async retryDueDeliveries(limit = 50): Promise<number> {
+    const now = new Date();
+    await this.deliveryRepo.releaseExpiredLeases(now);
+
+    const due = await this.deliveryRepo.findDue(now, limit);
+    for (const delivery of due) {
+      const rule = await this.ruleRepo.findByIdWithSecret(delivery.ruleId);
+      if (!rule || !rule.enabled || !rule.webhookUrl) {
+        await this.deliveryRepo.markAttemptFailed(
+          delivery.id,
+          delivery.attempts,
+          'Rule disabled, deleted or has no webhook URL',
+          null,
+          null,
+        );
+        continue;
+      }
+      await this.attemptWebhook(delivery, rule);
+    }
+
+    return due.length;
+  }
+
+  private async attemptWebhook(
+    delivery: AlertDeliveryRecord,
+    rule: AlertRuleWithSecret,
+  ): Promise<void> {
+    const env = getEnvironment();
+    const leaseUntil = new Date(Date.now() + env.ALERT_WEBHOOK_TIMEOUT_MS * 2);
+
+    if (!(await this.deliveryRepo.claim(delivery.id, leaseUntil))) {
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      // Rules may predate the host checks; the agents re-check after DNS
+      const url = parseWebhookUrl(rule.webhookUrl as string);
+      const response = await axios.post(url.toString(), body, {
+        timeout: env.ALERT_WEBHOOK_TIMEOUT_MS,
+        httpAgent: webhookHttpAgent,
+        httpsAgent: webhookHttpsAgent,
+        // Redirects and env proxies would bypass the agents' address check
+        maxRedirects: 0,
+        proxy: false,
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          ...(rule.webhookSecret && {
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(rule.webhookSecret, timestamp, body),
+          }),
+        },
+        validateStatus: () => true,
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        await this.deliveryRepo.markDelivered(delivery.id, attempts, response.status);
+        return;
+      }
+
+      await this.recordFailure(delivery.id, attempts, `HTTP ${response.status}`, response.status);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.recordFailure(delivery.id, attempts, message, null);
+    }
+  }
+
+  private async recordFailure(
+    deliveryId: string,
+    attempts: number,
+    error: string,
+    responseStatus: number | null,
+  ): Promise<void> {
+    const env = getEnvironment();
+    const exhausted = attempts >= env.ALERT_WEBHOOK_MAX_ATTEMPTS;
+    const backoffMs = Math.min(
+      env.ALERT_WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1),
+      env.ALERT_WEBHOOK_RETRY_MAX_MS,
+    );
+    const nextAttemptAt = exhausted ? null : new Date(Date.now() + backoffMs);
+
+    await this.deliveryRepo.markAttemptFailed(
+      deliveryId,
+      attempts,
+      error,
+      responseStatus,
+      nextAttemptAt,
+    );
+
+    this.logger.warn(
+      { deliveryId, attempts, error, responseStatus, nextAttemptAt },
+      exhausted ? 'Webhook delivery failed permanently' : 'Webhook delivery failed, will retry',
+    );
+  }
+
+  private async getEnabledRules(): Promise<AlertRuleWithSecret[]> {
+    const env = getEnvironment();
+    const now = Date.now();
+
+    if (!this.ruleCache || now - this.ruleCache.loadedAt > env.ALERT_RULE_CACHE_TTL_MS) {
+      this.ruleCache = { rules: await this.ruleRepo.findEnabled(), loadedAt: now };
+    }
+
+    return this.ruleCache.rules;
+  }
+}
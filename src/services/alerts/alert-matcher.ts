@@ -0,0 +1,81 @@
+import { SignalSeverity } from '../../types/edgar.types.js';
+import type {
+  AlertRuleRecord,
+  SignalAlertPayload,
+  SignalPersistedEvent,
+} from '../../types/alert.types.js';
+
+const SEVERITY_ORDER: SignalSeverity[] = [
+  SignalSeverity.LOW,
+  SignalSeverity.MEDIUM,
+  SignalSeverity.HIGH,
+  SignalSeverity.CRITICAL,
+];
+
+export function severityRank(severity: SignalSeverity): number {
+  return SEVERITY_ORDER.indexOf(severity);
+}
+
+/**
+ * Decide whether a persisted signal should trigger alerts at all.
+ *
+ * Generators re-upsert the same signal on every run, so only newly created
+ * signals and severity escalations are alert-worthy.
+ */
+export function alertTriggerFor(
+  event: SignalPersistedEvent,
+): SignalAlertPayload['trigger'] | null {
+  if (event.created) {
+    return 'created';
+  }
+
+  if (
+    event.previousSeverity &&
+    severityRank(event.signal.severity) > severityRank(event.previousSeverity)
+  ) {
+    return 'escalated';
+  }
+
+  return null;
+}
+
+/**
+ * Check a signal against a rule's type, severity, scope and score criteria
+ *
+ * @param watchlistsWithInstrument - IDs of the watchlists holding the signal's
+ *                                   instrument, for watchlist-scoped rules
+ */
+export function matchesAlertRule(
+  rule: Pick<
+    AlertRuleRecord,
+    'enabled' | 'signalTypes' | 'minSeverity' | 'instrumentIds' | 'watchlistId' | 'minScore'
+  >,
+  signal: SignalPersistedEvent['signal'],
+  watchlistsWithInstrument: ReadonlySet<string> = new Set(),
+): boolean {
+  if (!rule.enabled) {
+    return false;
+  }
+
+  if (rule.signalTypes.length > 0 && !rule.signalTypes.includes(signal.signalType)) {
+    return false;
+  }
+
+  if (severityRank(signal.severity) < severityRank(rule.minSeverity)) {
+    return false;
+  }
+
+  if (rule.instrumentIds && !rule.instrumentIds.includes(signal.instrumentId)) {
+    return false;
+  }
+
+  if (rule.watchlistId && !watchlistsWithInstrument.has(rule.watchlistId)) {
+    return false;
+  }
+
+  if (rule.minScore !== null && Number(signal.score) < rule.minScore) {
+    return false;
+  }
+
+  return true;
+}
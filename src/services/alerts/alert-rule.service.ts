@@ -0,0 +1,143 @@
+import { AlertRuleRepository } from '../../adapters/database/repositories/alert-rule.repository.js';
+import { AlertDeliveryRepository } from '../../adapters/database/repositories/alert-delivery.repository.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import { WatchlistRepository } from '../../adapters/database/repositories/watchlist.repository.js';
+import { SignalSeverity, SignalType } from '../../types/edgar.types.js';
+import { NotFoundError, ValidationError } from '../../utils/errors.js';
+import { generateWebhookSecret } from '../../utils/webhook-signature.js';
+import { parseWebhookUrl } from '../../utils/webhook-url.js';
+import type {
+  AlertDeliveryFilters,
+  AlertDeliveryRecord,
+  AlertRuleRecord,
+  CreateAlertRuleInput,
+  UpdateAlertRuleInput,
+} from '../../types/alert.types.js';
+
+const MAX_RULES_PER_WALLET = 50;
+
+/**
+ * Alert Rule Service
+ * Business logic for managing a wallet's signal alert rules
+ */
+export class AlertRuleService {
+  private ruleRepo: AlertRuleRepository;
+  private deliveryRepo: AlertDeliveryRepository;
+  private instrumentRepo: InstrumentRepository;
+  private watchlistRepo: WatchlistRepository;
+
+  constructor() {
+    this.ruleRepo = new AlertRuleRepository();
+    this.deliveryRepo = new AlertDeliveryRepository();
+    this.instrumentRepo = new InstrumentRepository();
+    this.watchlistRepo = new WatchlistRepository();
+  }
+
+  async listRules(walletAddress: string): Promise<AlertRuleRecord[]> {
+    return this.ruleRepo.findByWallet(walletAddress);
+  }
+
+  async getRule(walletAddress: string, ruleId: string): Promise<AlertRuleRecord> {
+    const rule = await this.ruleRepo.findByIdForWallet(ruleId, walletAddress);
+    if (!rule) {
+      throw new NotFoundError('Alert rule', ruleId);
+    }
+    return rule;
+  }
+
+  /**
+   * Create a rule. The webhook secret is only ever returned here
+   * (and on rotation) so the caller can verify delivery signatures.
+   */
+  async createRule(
+    walletAddress: string,
+    input: CreateAlertRuleInput,
+  ): Promise<AlertRuleRecord & { webhookSecret: string | null }> {
+    const existing = await this.ruleRepo.findByWallet(walletAddress);
+    if (existing.length >= MAX_RULES_PER_WALLET) {
+      throw new ValidationError(`A wallet may have at most ${MAX_RULES_PER_WALLET} alert rules`);
+    }
+
+    await this.validateInput(walletAddress, input);
+
+    const hasChannel = input.webhookUrl || input.websocketEnabled !== false;
+    if (!hasChannel) {
+      throw new ValidationError('Alert rule needs a webhookUrl or websocketEnabled');
+    }
+
+    const secret = input.webhookUrl ? generateWebhookSecret() : null;
+    return this.ruleRepo.create(walletAddress, input, secret);
+  }
+
+  async updateRule(
+    walletAddress: string,
+    ruleId: string,
+    input: UpdateAlertRuleInput & { rotateSecret?: boolean },
+  ): Promise<AlertRuleRecord & { webhookSecret?: string | null }> {
+    const current = await this.getRule(walletAddress, ruleId);
+    await this.validateInput(walletAddress, input);
+
+    const { rotateSecret, ...changes } = input;
+    const gainsWebhook = !!changes.webhookUrl && !current.webhookUrl;
+
+    let secret: string | null | undefined;
+    if (rotateSecret || gainsWebhook) {
+      secret = generateWebhookSecret();
+    } else if (changes.webhookUrl === null) {
+      secret = null;
+    }
+
+    const updated = await this.ruleRepo.update(ruleId, changes, secret);
+
+    // Only echo the secret back when it was just (re)generated
+    return { ...updated, webhookSecret: secret ? updated.webhookSecret : undefined };
+  }
+
+  async deleteRule(walletAddress: string, ruleId: string): Promise<void> {
+    await this.getRule(walletAddress, ruleId);
+    await this.ruleRepo.delete(ruleId);
+  }
+
+  async listDeliveries(
+    walletAddress: string,
+    filters: AlertDeliveryFilters,
+  ): Promise<{ deliveries: AlertDeliveryRecord[]; total: number }> {
+    return this.deliveryRepo.findByWallet(walletAddress, filters);
+  }
+
+  private async validateInput(walletAddress: string, input: UpdateAlertRuleInput): Promise<void> {
+    if (input.signalTypes) {
+      const invalid = input.signalTypes.filter(
+        (t) => !Object.values(SignalType).includes(t),
+      );
+      if (invalid.length > 0) {
+        throw new ValidationError('Unknown signal types', { invalid });
+      }
+    }
+
+    if (input.minSeverity && !Object.values(SignalSeverity).includes(input.minSeverity)) {
+      throw new ValidationError(`Unknown severity: ${input.minSeverity}`);
+    }
+
+    if (input.webhookUrl) {
+      parseWebhookUrl(input.webhookUrl);
+    }
+
+    if (input.instrumentIds) {
+      for (const instrumentId of input.instrumentIds) {
+        const instrument = await this.instrumentRepo.findById(instrumentId);
+        if (!instrument) {
+          throw new NotFoundError('Instrument', instrumentId);
+        }
+      }
+    }
+
+    // Rules may only watch the caller's own watchlists
+    if (input.watchlistId) {
+      const watchlist = await this.watchlistRepo.findByIdForOwner(input.watchlistId, walletAddress);
+      if (!watchlist) {
+        throw new NotFoundError('Watchlist', input.watchlistId);
+      }
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectBookArbitrage,
+  detectEventArbitrage,
+  walkFullSets,
+  type OutcomeBook,
+} from '../arbitrage';
+
+const options = { minEdge: 0.005, minSize: 1 };
+
+function book(
+  marketId: string,
+  outcome: 'YES' | 'NO',
+  bids: Array<[string, string]>,
+  asks: Array<[string, string]>,
+): OutcomeBook {
+  return {
+    marketId,
+    outcome,
+    bids: bids.map(([price, size]) => ({ price, size })),
+    asks: asks.map(([price, size]) => ({ price, size })),
+  };
+}
+
+describe('walkFullSets', () => {
+  it('should stop at the depth where a full set no longer beats 1', () => {
+    const result = walkFullSets(
+      [
+        [
+          { price: '0.40', size: '100' },
+          { price: '0.45', size: '100' },
+        ],
+        [
+          { price: '0.50', size: '50' },
+          { price: '0.58', size: '500' },
+        ],
+      ],
+      'buy',
+    );
+
+    // 50 sets at 0.90, 50 at 0.98, then 0.45 + 0.58 > 1
+    expect(result.size).toBe(100);
+    expect(result.profit).toBe(6);
+  });
+
+  it('should walk bids when selling', () => {
+    const result = walkFullSets(
+      [[{ price: '0.60', size: '10' }], [{ price: '0.45', size: '20' }]],
+      'sell',
+    );
+
+    expect(result).toEqual({ size: 10, profit: 0.5 });
+  });
+});
+
+describe('detectBookArbitrage', () => {
+  it('should flag YES and NO asks summing below 1 with a size-adjusted edge', () => {
+    const yes = book(
+      'm1',
+      'YES',
+      [['0.38', '100']],
+      [
+        ['0.40', '100'],
+        ['0.45', '100'],
+      ],
+    );
+    const no = book(
+      'm1',
+      'NO',
+      [['0.48', '100']],
+      [
+        ['0.50', '50'],
+        ['0.58', '500'],
+      ],
+    );
+
+    const [opportunity, ...rest] = detectBookArbitrage('m1', yes, no, options);
+
+    expect(rest).toHaveLength(0);
+    expect(opportunity.kind).toBe('BOOK_UNDERPRICED');
+    expect(opportunity.key).toBe('BOOK_UNDERPRICED:m1');
+    expect(opportunity.priceSum).toBe(0.9);
+    expect(opportunity.edge).toBe(0.1);
+    expect(opportunity.executableSize).toBe(100);
+    expect(opportunity.sizeAdjustedEdge).toBe(0.06);
+    expect(opportunity.legs.map((leg) => [leg.outcome, leg.side, leg.price])).toEqual([
+      ['YES', 'buy', '0.40'],
+      ['NO', 'buy', '0.50'],
+    ]);
+  });
+
+  it('should flag bids summing above 1', () => {
+    const yes = book('m1', 'YES', [['0.55', '10']], [['0.57', '10']]);
+    const no = book('m1', 'NO', [['0.47', '10']], [['0.49', '10']]);
+
+    const opportunities = detectBookArbitrage('m1', yes, no, options);
+
+    expect(opportunities.map((o) => o.kind)).toEqual(['BOOK_OVERPRICED']);
+    expect(opportunities[0].edge).toBe(0.02);
+  });
+
+  it('should ignore consistent books, edges below the minimum and missing sides', () => {
+    const yes = book('m1', 'YES', [['0.49', '10']], [['0.51', '10']]);
+    const no = book('m1', 'NO', [['0.48', '10']], [['0.496', '10']]);
+
+    expect(detectBookArbitrage('m1', yes, no, options)).toEqual([]);
+    expect(detectBookArbitrage('m1', yes, book('m1', 'NO', [], []), options)).toEqual([]);
+  });
+});
+
+describe('detectEventArbitrage', () => {
+  it('should flag YES asks of exclusive outcomes summing below 1', () => {
+    const books = [
+      book('a', 'YES', [['0.30', '10']], [['0.32', '10']]),
+      book('b', 'YES', [['0.28', '10']], [['0.30', '20']]),
+      book('c', 'YES', [['0.25', '10']], [['0.28', '5']]),
+    ];
+
+    const [opportunity] = detectEventArbitrage('e1', books, options);
+
+    expect(opportunity.kind).toBe('EVENT_UNDERPRICED');
+    expect(opportunity.eventId).toBe('e1');
+    expect(opportunity.marketIds).toEqual(['a', 'b', 'c']);
+    expect(opportunity.priceSum).toBe(0.9);
+    expect(opportunity.executableSize).toBe(5);
+  });
+
+  it('should need at least two outcomes', () => {
+    expect(detectEventArbitrage('e1', [book('a', 'YES', [], [['0.5', '10']])], options)).toEqual(
+      [],
+    );
+  });
+});
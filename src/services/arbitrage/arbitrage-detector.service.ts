@@ -0,0 +1,330 @@
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import { ArbitrageOpportunityRepository } from '../../adapters/database/repositories/arbitrage-opportunity.repository.js';
+import { EventRepository } from '../../adapters/database/repositories/event.repository.js';
+import { ProcessLeaseRepository } from '../../adapters/database/repositories/process-lease.repository.js';
+import { getEnvironment } from '../../config/environment.js';
+import { getLogger } from '../../utils/logger.js';
+import { MarketDataPubSub } from '../market-data/market-pubsub.service.js';
+import { MarketDataStreamService } from '../market-data/market-data-stream.service.js';
+import {
+  ArbitrageEventPayload,
+  ArbitrageOpportunityRecord,
+  DetectedOpportunity,
+} from '../../types/arbitrage.types.js';
+import { MarketOutcome } from '../../types/market-data.types.js';
+import {
+  DetectionOptions,
+  OutcomeBook,
+  detectBookArbitrage,
+  detectEventArbitrage,
+  opportunityKey,
+} from './arbitrage.js';
+
+export const ARBITRAGE_CHANNEL = 'arbitrage:opportunities';
+
+const LEASE_NAME = 'arbitrage-detector';
+// The leader renews well before expiry; a dead leader is replaced within the TTL
+const LEASE_TTL_MS = 30_000;
+const LEASE_RENEW_MS = 10_000;
+
+/**
+ * Arbitrage Detector Service
+ *
+ * Watches the live books kept by MarketDataStreamService. Markets whose
+ * books changed are re-checked on a fixed interval: their YES/NO books, and
+ * the YES books of every sibling when the market belongs to a mutually
+ * exclusive event. Opportunities are persisted while open and every
+ * open/update/close is published on `arbitrage:opportunities`.
+ *
+ * It runs wherever the book stream does (the market sync worker, or the
+ * all-in-one dev server). Only the holder of the `arbitrage-detector` lease
+ * evaluates books, so each opportunity is stored and published once even
+ * when several of those processes run; the others keep trying to take the
+ * lease over.
+ */
+export class ArbitrageDetectorService {
+  private opportunityRepo = new ArbitrageOpportunityRepository();
+  private eventRepo = new EventRepository();
+  private leaseRepo = new ProcessLeaseRepository();
+  private instanceId = `${hostname()}:${process.pid}:${randomUUID()}`;
+  private pubsub: MarketDataPubSub;
+  private streamService: MarketDataStreamService;
+  private env = getEnvironment();
+  private logger = getLogger();
+  private open = new Map<string, ArbitrageOpportunityRecord>();
+  private marketEvents = new Map<string, string>();
+  private eventMarkets = new Map<string, string[]>();
+  private dirtyMarkets = new Set<string>();
+  private unsubscribe: (() => void) | null = null;
+  private evaluationTimer: NodeJS.Timeout | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private leaseTimer: NodeJS.Timeout | null = null;
+  private isLeader = false;
+  private isEvaluating = false;
+
+  constructor(pubsub: MarketDataPubSub, streamService: MarketDataStreamService) {
+    this.pubsub = pubsub;
+    this.streamService = streamService;
+  }
+
+  async start(): Promise<void> {
+    await this.checkLease();
+
+    this.leaseTimer = setInterval(() => {
+      this.checkLease().catch((error) => {
+        this.logger.error({ error }, 'Arbitrage detector lease check failed');
+      });
+    }, LEASE_RENEW_MS);
+  }
+
+  stop(): void {
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+
+    if (this.isLeader) {
+      this.deactivate();
+      this.leaseRepo.release(LEASE_NAME, this.instanceId).catch((error) => {
+        this.logger.warn({ error }, 'Failed to release arbitrage detector lease');
+      });
+    }
+  }
+
+  /**
+   * Take or renew the lease and start or stop detecting to match. A failed
+   * renewal counts as lost: another process may take over once it expires.
+   */
+  private async checkLease(): Promise<void> {
+    let held = false;
+    try {
+      held = await this.leaseRepo.acquire(LEASE_NAME, this.instanceId, LEASE_TTL_MS);
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to renew arbitrage detector lease');
+    }
+
+    if (held && !this.isLeader) {
+      await this.activate();
+      this.logger.info({ instanceId: this.instanceId }, 'Arbitrage detector took the lease');
+    } else if (!held && this.isLeader) {
+      this.deactivate();
+      this.logger.warn({ instanceId: this.instanceId }, 'Arbitrage detector lost the lease');
+    }
+  }
+
+  private async activate(): Promise<void> {
+    // Only the lease holder writes opportunities, so open rows were left by a
+    // previous holder and can't be tracked to their close
+    const stale = await this.opportunityRepo.closeAllOpen();
+    if (stale > 0) {
+      this.logger.info({ stale }, 'Closed arbitrage opportunities left open by a previous run');
+    }
+
+    await this.refreshGroups();
+
+    this.unsubscribe = this.streamService.onOrderbookChange((marketId) => {
+      this.dirtyMarkets.add(marketId);
+    });
+
+    this.evaluationTimer = setInterval(() => {
+      this.evaluate().catch((error) => {
+        this.logger.error({ error }, 'Arbitrage evaluation failed');
+      });
+    }, this.env.ARBITRAGE_EVALUATION_INTERVAL_MS);
+
+    this.refreshTimer = setInterval(() => {
+      this.refreshGroups().catch((error) => {
+        this.logger.error({ error }, 'Failed refreshing exclusive event groups');
+      });
+    }, this.env.MARKET_SYNC_INTERVAL_MS);
+
+    this.isLeader = true;
+  }
+
+  /**
+   * Stop detecting. Open rows are left for the next holder to close.
+   */
+  private deactivate(): void {
+    this.isLeader = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.evaluationTimer) {
+      clearInterval(this.evaluationTimer);
+      this.evaluationTimer = null;
+    }
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.open.clear();
+    this.dirtyMarkets.clear();
+  }
+
+  /**
+   * Reload which markets form mutually exclusive events. Markets of open
+   * opportunities are re-checked too, so ones whose books stopped
+   * streaming get closed.
+   */
+  private async refreshGroups(): Promise<void> {
+    const groups = await this.eventRepo.findExclusiveGroups();
+
+    this.marketEvents.clear();
+    this.eventMarkets.clear();
+    for (const { eventId, marketIds } of groups) {
+      if (marketIds.length < 2) continue;
+      this.eventMarkets.set(eventId, marketIds);
+      for (const marketId of marketIds) {
+        this.marketEvents.set(marketId, eventId);
+      }
+    }
+
+    for (const opportunity of this.open.values()) {
+      opportunity.marketIds.forEach((marketId) => this.dirtyMarkets.add(marketId));
+    }
+
+    this.logger.debug({ events: this.eventMarkets.size }, 'Exclusive event groups refreshed');
+  }
+
+  private async evaluate(): Promise<void> {
+    if (this.isEvaluating || this.dirtyMarkets.size === 0) {
+      return;
+    }
+
+    this.isEvaluating = true;
+    const marketIds = [...this.dirtyMarkets];
+    this.dirtyMarkets.clear();
+
+    try {
+      const options: DetectionOptions = {
+        minEdge: this.env.ARBITRAGE_MIN_EDGE,
+        minSize: this.env.ARBITRAGE_MIN_SIZE,
+      };
+      const evaluatedKeys = new Set<string>();
+      const detected: DetectedOpportunity[] = [];
+      const eventIds = new Set<string>();
+
+      for (const marketId of marketIds) {
+        evaluatedKeys.add(opportunityKey('BOOK_UNDERPRICED', marketId));
+        evaluatedKeys.add(opportunityKey('BOOK_OVERPRICED', marketId));
+
+        const yes = this.outcomeBook(marketId, 'YES');
+        const no = this.outcomeBook(marketId, 'NO');
+        if (yes && no) {
+          detected.push(...detectBookArbitrage(marketId, yes, no, options));
+        }
+
+        const eventId = this.marketEvents.get(marketId);
+        if (eventId) eventIds.add(eventId);
+      }
+
+      // Closing stale event opportunities needs the event key even when the
+      // market has since left the group
+      for (const opportunity of this.open.values()) {
+        if (opportunity.eventId && opportunity.marketIds.some((id) => marketIds.includes(id))) {
+          eventIds.add(opportunity.eventId);
+        }
+      }
+
+      for (const eventId of eventIds) {
+        evaluatedKeys.add(opportunityKey('EVENT_UNDERPRICED', eventId));
+        evaluatedKeys.add(opportunityKey('EVENT_OVERPRICED', eventId));
+
+        // Every live outcome needs a book, otherwise the sum is meaningless
+        const books = (this.eventMarkets.get(eventId) ?? []).map((marketId) =>
+          this.outcomeBook(marketId, 'YES'),
+        );
+        if (books.length > 0 && books.every((book): book is OutcomeBook => book !== null)) {
+          detected.push(...detectEventArbitrage(eventId, books, options));
+        }
+      }
+
+      await this.reconcile(evaluatedKeys, detected);
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  /**
+   * Open new opportunities, update changed ones and close the evaluated
+   * keys that no longer show a mispricing
+   */
+  private async reconcile(
+    evaluatedKeys: Set<string>,
+    detected: DetectedOpportunity[],
+  ): Promise<void> {
+    // The lease may have been lost while this batch was being evaluated
+    if (!this.isLeader) return;
+
+    const detectedKeys = new Set(detected.map((opportunity) => opportunity.key));
+
+    for (const opportunity of detected) {
+      const existing = this.open.get(opportunity.key);
+      try {
+        if (!existing) {
+          const record = await this.opportunityRepo.create(opportunity);
+          this.open.set(record.key, record);
+          this.publish('arbitrage_opened', record);
+          this.logger.info(
+            {
+              kind: record.kind,
+              marketIds: record.marketIds,
+              edge: record.edge,
+              size: record.executableSize,
+            },
+            'Arbitrage opportunity opened',
+          );
+        } else if (this.hasChanged(existing, opportunity)) {
+          const record = await this.opportunityRepo.update(existing.id, opportunity);
+          this.open.set(record.key, record);
+          this.publish('arbitrage_updated', record);
+        }
+      } catch (error) {
+        this.logger.error({ error, key: opportunity.key }, 'Failed to store arbitrage opportunity');
+      }
+    }
+
+    for (const key of evaluatedKeys) {
+      const existing = this.open.get(key);
+      if (!existing || detectedKeys.has(key)) continue;
+
+      try {
+        const record = await this.opportunityRepo.close(existing.id);
+        this.open.delete(key);
+        this.publish('arbitrage_closed', record);
+        this.logger.debug({ key }, 'Arbitrage opportunity closed');
+      } catch (error) {
+        this.logger.error({ error, key }, 'Failed to close arbitrage opportunity');
+      }
+    }
+  }
+
+  private outcomeBook(marketId: string, outcome: MarketOutcome): OutcomeBook | null {
+    const state = this.streamService.getOrderbookState(marketId, outcome);
+    if (!state) {
+      return null;
+    }
+
+    return {
+      marketId,
+      outcome,
+      bids: state.getFullBids(),
+      asks: state.getFullAsks(),
+    };
+  }
+
+  private hasChanged(existing: ArbitrageOpportunityRecord, next: DetectedOpportunity): boolean {
+    return (
+      existing.edge !== next.edge ||
+      existing.executableSize !== next.executableSize ||
+      existing.expectedProfit !== next.expectedProfit
+    );
+  }
+
+  private publish(
+    type: ArbitrageEventPayload['type'],
+    opportunity: ArbitrageOpportunityRecord,
+  ): void {
+    this.pubsub.publish(ARBITRAGE_CHANNEL, { type, opportunity, timestamp: new Date() });
+  }
+}
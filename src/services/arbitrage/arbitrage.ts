@@ -0,0 +1,145 @@
+import type {
+  ArbitrageKind,
+  ArbitrageLeg,
+  BookLadder,
+  DetectedOpportunity,
+} from '../../types/arbitrage.types.js';
+import type { MarketOutcome } from '../../types/market-data.types.js';
+
+export interface OutcomeBook {
+  marketId: string;
+  outcome: MarketOutcome;
+  bids: BookLadder;
+  asks: BookLadder;
+}
+
+export interface DetectionOptions {
+  minEdge: number; // Minimum per-share edge at the best levels
+  minSize: number; // Minimum executable full sets
+}
+
+/**
+ * Identity of an opportunity while the mispricing persists: one per kind
+ * and market (book kinds) or event (event kinds)
+ */
+export function opportunityKey(kind: ArbitrageKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+/**
+ * Walk several ladders in lockstep, one share of each per full set, for as
+ * long as a set still beats the payout of 1.
+ *
+ * Buying, a set costs the sum of the current asks; selling, it raises the
+ * sum of the current bids. Each step takes the smallest size left at the
+ * current levels, then moves past every level it emptied.
+ */
+export function walkFullSets(
+  ladders: BookLadder[],
+  side: 'buy' | 'sell',
+): { size: number; profit: number } {
+  const levels = ladders.map((ladder) =>
+    ladder.map((level) => ({ price: Number(level.price), size: Number(level.size) })),
+  );
+  const index = levels.map(() => 0);
+  let size = 0;
+  let profit = 0;
+
+  while (levels.length > 0 && levels.every((ladder, i) => index[i] < ladder.length)) {
+    const current = levels.map((ladder, i) => ladder[index[i]]);
+    const priceSum = current.reduce((sum, level) => sum + level.price, 0);
+    const edge = side === 'buy' ? 1 - priceSum : priceSum - 1;
+    if (!(edge > 0)) break;
+
+    const take = Math.min(...current.map((level) => level.size));
+    if (!(take > 0)) break;
+
+    size += take;
+    profit += edge * take;
+    for (let i = 0; i < current.length; i++) {
+      current[i].size -= take;
+      if (current[i].size <= 1e-9) index[i]++;
+    }
+  }
+
+  return { size: round6(size), profit: round6(profit) };
+}
+
+/**
+ * YES/NO books of one binary market. A YES share plus a NO share always
+ * redeems for 1, so asks summing below 1 or bids summing above 1 is free
+ * money up to the depth that keeps the sum on the wrong side of 1.
+ */
+export function detectBookArbitrage(
+  marketId: string,
+  yes: OutcomeBook,
+  no: OutcomeBook,
+  options: DetectionOptions,
+): DetectedOpportunity[] {
+  return [
+    detect('BOOK_UNDERPRICED', marketId, null, [yes, no], 'buy', options),
+    detect('BOOK_OVERPRICED', marketId, null, [yes, no], 'sell', options),
+  ].filter((opportunity): opportunity is DetectedOpportunity => opportunity !== null);
+}
+
+/**
+ * YES books of every live outcome of a mutually exclusive event. Exactly
+ * one outcome resolves YES, so the set of YES shares pays 1 and the
+ * books' implied probabilities should sum to 100%.
+ */
+export function detectEventArbitrage(
+  eventId: string,
+  yesBooks: OutcomeBook[],
+  options: DetectionOptions,
+): DetectedOpportunity[] {
+  if (yesBooks.length < 2) return [];
+
+  return [
+    detect('EVENT_UNDERPRICED', eventId, eventId, yesBooks, 'buy', options),
+    detect('EVENT_OVERPRICED', eventId, eventId, yesBooks, 'sell', options),
+  ].filter((opportunity): opportunity is DetectedOpportunity => opportunity !== null);
+}
+
+function detect(
+  kind: ArbitrageKind,
+  id: string,
+  eventId: string | null,
+  books: OutcomeBook[],
+  side: 'buy' | 'sell',
+  options: DetectionOptions,
+): DetectedOpportunity | null {
+  const ladders = books.map((book) => (side === 'buy' ? book.asks : book.bids));
+  if (ladders.some((ladder) => ladder.length === 0)) return null;
+
+  const priceSum = ladders.reduce((sum, ladder) => sum + Number(ladder[0].price), 0);
+  const edge = side === 'buy' ? 1 - priceSum : priceSum - 1;
+  if (!Number.isFinite(edge) || edge < options.minEdge) return null;
+
+  const { size, profit } = walkFullSets(ladders, side);
+  if (size < options.minSize) return null;
+
+  const legs: ArbitrageLeg[] = books.map((book, i) => ({
+    marketId: book.marketId,
+    outcome: book.outcome,
+    side,
+    price: ladders[i][0].price,
+    size: ladders[i][0].size,
+  }));
+
+  return {
+    kind,
+    key: opportunityKey(kind, id),
+    eventId,
+    marketIds: [...new Set(books.map((book) => book.marketId))],
+    legs,
+    priceSum: round6(priceSum),
+    edge: round6(edge),
+    executableSize: size,
+    expectedProfit: profit,
+    sizeAdjustedEdge: round6(profit / size),
+  };
+}
+
+function round6(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
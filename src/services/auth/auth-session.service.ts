@@ -0,0 +1,162 @@
+import { randomBytes } from 'node:crypto';
+import { AuthSessionRepository } from '../../adapters/database/repositories/auth-session.repository.js';
+import { getEnvironment } from '../../config/environment.js';
+import { getLogger } from '../../utils/logger.js';
+import { NotFoundError, UnauthorizedError } from '../../utils/errors.js';
+import {
+  generateRefreshToken,
+  hashRefreshToken,
+  signAccessToken,
+  verifyAccessToken,
+} from '../../utils/session-token.js';
+import type { AuthContext, AuthSessionRecord, SessionTokens } from '../../types/auth.types.js';
+
+let tokenSecret: string | null = null;
+
+function getTokenSecret(): string {
+  if (!tokenSecret) {
+    const configured = getEnvironment().AUTH_TOKEN_SECRET;
+    if (configured) {
+      tokenSecret = configured;
+    } else {
+      tokenSecret = randomBytes(32).toString('hex');
+      // Only reachable outside production; the environment schema requires it there
+      getLogger().warn('AUTH_TOKEN_SECRET not set; using a per-process secret (sessions end on restart)');
+    }
+  }
+  return tokenSecret;
+}
+
+/**
+ * Auth Session Service
+ *
+ * A wallet signs the EIP-712 sign-in message once at login and receives a
+ * short-lived access token plus a refresh token. Access tokens are stateless
+ * HS256 JWTs, but each names its session, and a session marked revoked
+ * rejects its access tokens immediately.
+ */
+export class AuthSessionService {
+  private sessionRepo: AuthSessionRepository;
+  private logger;
+
+  constructor() {
+    this.sessionRepo = new AuthSessionRepository();
+    this.logger = getLogger();
+  }
+
+  /**
+   * Open a session for a wallet whose signature has already been verified.
+   * The oldest sessions beyond AUTH_MAX_SESSIONS_PER_WALLET are revoked.
+   */
+  async createSession(
+    walletAddress: string,
+    meta: { userAgent?: string | null; ipAddress?: string | null } = {},
+  ): Promise<SessionTokens> {
+    const env = getEnvironment();
+    const now = new Date();
+
+    const refreshToken = generateRefreshToken();
+    const session = await this.sessionRepo.create({
+      walletAddress,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      userAgent: meta.userAgent?.slice(0, 512) ?? null,
+      ipAddress: meta.ipAddress ?? null,
+      expiresAt: new Date(now.getTime() + env.AUTH_REFRESH_TOKEN_TTL_MS),
+    });
+
+    const active = await this.sessionRepo.findActiveByWallet(walletAddress, now);
+    const excess = active.slice(env.AUTH_MAX_SESSIONS_PER_WALLET).map((s) => s.id);
+    if (excess.length > 0) {
+      await this.sessionRepo.revokeMany(excess);
+      this.logger.info({ wallet: walletAddress, revoked: excess.length }, 'Revoked oldest sessions over limit');
+    }
+
+    void this.sessionRepo.deleteExpired(now);
+
+    this.logger.info({ wallet: walletAddress, sessionId: session.id }, 'Session created');
+
+    return this.issueTokens(session, refreshToken, now);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a rotated refresh token
+   */
+  async refresh(refreshToken: string): Promise<SessionTokens> {
+    const env = getEnvironment();
+    const now = new Date();
+    const currentHash = hashRefreshToken(refreshToken);
+
+    const session = await this.sessionRepo.findByRefreshTokenHash(currentHash);
+    if (!session || session.revokedAt || session.expiresAt <= now) {
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
+
+    const nextToken = generateRefreshToken();
+    const expiresAt = new Date(now.getTime() + env.AUTH_REFRESH_TOKEN_TTL_MS);
+    const rotated = await this.sessionRepo.rotateRefreshToken(
+      session.id,
+      currentHash,
+      hashRefreshToken(nextToken),
+      expiresAt,
+    );
+
+    if (!rotated) {
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
+
+    return this.issueTokens({ ...session, expiresAt }, nextToken, now);
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (logout)
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const session = await this.sessionRepo.findByRefreshTokenHash(hashRefreshToken(refreshToken));
+    if (session) {
+      await this.sessionRepo.revoke(session.id);
+    }
+  }
+
+  /**
+   * Validate an access token and the session behind it
+   */
+  async authenticate(accessToken: string): Promise<AuthContext> {
+    const claims = verifyAccessToken(accessToken, getTokenSecret());
+
+    const session = await this.sessionRepo.findById(claims.sid);
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedError('Session revoked or expired');
+    }
+
+    return { wallet: claims.sub, sessionId: claims.sid };
+  }
+
+  async listSessions(walletAddress: string): Promise<AuthSessionRecord[]> {
+    return this.sessionRepo.findActiveByWallet(walletAddress, new Date());
+  }
+
+  async revokeSession(walletAddress: string, sessionId: string): Promise<void> {
+    const session = await this.sessionRepo.findById(sessionId);
+    if (!session || session.walletAddress !== walletAddress.toLowerCase()) {
+      throw new NotFoundError('Session', sessionId);
+    }
+    await this.sessionRepo.revoke(sessionId);
+  }
+
+  async revokeAllSessions(walletAddress: string): Promise<number> {
+    return this.sessionRepo.revokeAllForWallet(walletAddress);
+  }
+
+  private issueTokens(session: AuthSessionRecord, refreshToken: string, now: Date): SessionTokens {
+    const ttlMs = getEnvironment().AUTH_ACCESS_TOKEN_TTL_MS;
+
+    return {
+      tokenType: 'Bearer',
+      accessToken: signAccessToken(session.walletAddress, session.id, getTokenSecret(), ttlMs, now.getTime()),
+      accessTokenExpiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+      refreshToken,
+      refreshTokenExpiresAt: session.expiresAt.toISOString(),
+      sessionId: session.id,
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { DocumentRepository } from '../../adapters/database/repositories/document.repository.js';
+import { DocumentContentRecord, DocumentRecord } from '../../types/document.types.js';
+
+/**
+ * Document Service
+ * Business logic for ingested documents (news, transcripts, regulatory releases)
+ */
+export class DocumentService {
+  private documentRepo: DocumentRepository;
+
+  constructor() {
+    this.documentRepo = new DocumentRepository();
+  }
+
+  /**
+   * Get document by ID
+   */
+  async getDocumentById(id: string): Promise<DocumentRecord | null> {
+    return this.documentRepo.findById(id);
+  }
+
+  /**
+   * Get document content
+   */
+  async getDocumentContent(documentId: string): Promise<DocumentContentRecord | null> {
+    return this.documentRepo.findContentById(documentId);
+  }
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { OwnershipParserService } from '../ownership-parser.service';
+import { crossedActivistThreshold, detectInsiderClusterSelling } from '../ownership-analysis';
+import {
+  InsiderTransactionDirection,
+  ParsedInsiderTransaction,
+  ParsedOwnershipStake,
+} from '../../../types/edgar.types';
+
+const FORM_4 = `
+<SEC-DOCUMENT>
+<XML>
+<ownershipDocument>
+  <documentType>4</documentType>
+  <issuer>
+    <issuerCik>0000123456</issuerCik>
+    <issuerName>ACME CORP</issuerName>
+    <issuerTradingSymbol>ACME</issuerTradingSymbol>
+  </issuer>
+  <reportingOwner>
+    <reportingOwnerId>
+      <rptOwnerCik>0001111111</rptOwnerCik>
+      <rptOwnerName>Doe Jane</rptOwnerName>
+    </reportingOwnerId>
+    <reportingOwnerRelationship>
+      <isDirector>0</isDirector>
+      <isOfficer>1</isOfficer>
+      <officerTitle>Chief Financial Officer</officerTitle>
+    </reportingOwnerRelationship>
+  </reportingOwner>
+  <nonDerivativeTable>
+    <nonDerivativeTransaction>
+      <securityTitle><value>Common Stock</value></securityTitle>
+      <transactionDate><value>2026-02-10</value></transactionDate>
+      <transactionCoding><transactionFormType>4</transactionFormType><transactionCode>S</transactionCode></transactionCoding>
+      <transactionAmounts>
+        <transactionShares><value>10,000</value></transactionShares>
+        <transactionPricePerShare><value>12.50</value><footnoteId id="F1"/></transactionPricePerShare>
+        <transactionAcquiredDisposedCode><value>D</value></transactionAcquiredDisposedCode>
+      </transactionAmounts>
+      <postTransactionAmounts><sharesOwnedFollowingTransaction><value>40000</value></sharesOwnedFollowingTransaction></postTransactionAmounts>
+    </nonDerivativeTransaction>
+    <nonDerivativeTransaction>
+      <securityTitle><value>Common Stock</value></securityTitle>
+      <transactionDate><value>2026-02-10</value></transactionDate>
+      <transactionCoding><transactionFormType>4</transactionFormType><transactionCode>F</transactionCode></transactionCoding>
+      <transactionAmounts><transactionShares><value>2000</value></transactionShares></transactionAmounts>
+    </nonDerivativeTransaction>
+  </nonDerivativeTable>
+</ownershipDocument>
+</XML>
+</SEC-DOCUMENT>`;
+
+const SC_13D = `
+SUBJECT COMPANY:
+	COMPANY DATA:
+		COMPANY CONFORMED NAME:			ACME CORP
+		CENTRAL INDEX KEY:			0000123456
+
+FILED BY:
+	COMPANY DATA:
+		COMPANY CONFORMED NAME:			VALUE PARTNERS LP
+		CENTRAL INDEX KEY:			0000999999
+<DOCUMENT>
+<TEXT>
+<p>March 2, 2026</p><p>(Date of Event Which Requires Filing of this Statement)</p>
+<p>11. AGGREGATE AMOUNT BENEFICIALLY OWNED BY EACH REPORTING PERSON</p><p>1,250,000</p>
+<p>13. PERCENT OF CLASS REPRESENTED BY AMOUNT IN ROW (11)</p><p>6.8%</p>
+<p>11. AGGREGATE AMOUNT BENEFICIALLY OWNED BY EACH REPORTING PERSON</p><p>400,000</p>
+<p>13. PERCENT OF CLASS REPRESENTED BY AMOUNT IN ROW (11)</p><p>2.2%</p>
+</TEXT>
+</DOCUMENT>`;
+
+function sale(ownerCik: string, date: string, overrides: Partial<ParsedInsiderTransaction> = {}): ParsedInsiderTransaction {
+  return {
+    issuerCik: '0000123456',
+    ownerCik,
+    ownerName: `Owner ${ownerCik}`,
+    isDirector: false,
+    isOfficer: false,
+    isTenPercentOwner: false,
+    officerTitle: null,
+    securityTitle: 'Common Stock',
+    transactionDate: new Date(date),
+    transactionCode: 'S',
+    direction: InsiderTransactionDirection.SELL,
+    shares: 1000,
+    pricePerShare: 10,
+    sharesOwnedAfter: null,
+    ...overrides,
+  };
+}
+
+function stake(overrides: Partial<ParsedOwnershipStake> = {}): ParsedOwnershipStake {
+  return {
+    subjectCik: '0000123456',
+    filerCik: '0000999999',
+    filerName: 'VALUE PARTNERS LP',
+    isActivist: true,
+    isAmendment: false,
+    percentOfClass: 6.8,
+    sharesOwned: null,
+    eventDate: null,
+    ...overrides,
+  };
+}
+
+describe('OwnershipParserService', () => {
+  const parser = new OwnershipParserService();
+
+  it('should extract open-market insider sales from a Form 4', () => {
+    const { issuerCik, transactions } = parser.parseInsiderTransactions(FORM_4);
+
+    expect(issuerCik).toBe('0000123456');
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toMatchObject({
+      ownerCik: '0001111111',
+      ownerName: 'Doe Jane',
+      isOfficer: true,
+      officerTitle: 'Chief Financial Officer',
+      direction: InsiderTransactionDirection.SELL,
+      shares: 10_000,
+      pricePerShare: 12.5,
+      sharesOwnedAfter: 40_000,
+    });
+  });
+
+  it('should parse the largest cover-page stake from a legacy 13D', () => {
+    const parsed = parser.parseOwnershipStake(SC_13D, 'SC 13D');
+
+    expect(parsed).toMatchObject({
+      subjectCik: '0000123456',
+      filerCik: '0000999999',
+      filerName: 'VALUE PARTNERS LP',
+      isActivist: true,
+      isAmendment: false,
+      percentOfClass: 6.8,
+      sharesOwned: 1_250_000,
+    });
+    expect(parsed?.eventDate?.toISOString()).toBe('2026-03-02T00:00:00.000Z');
+  });
+
+  it('should parse structured 13G XML', () => {
+    const xml = `SUBJECT COMPANY:\n\tCOMPANY DATA:\n\t\tCENTRAL INDEX KEY:\t\t\t0000123456\n
+      <edgarSubmission><formData><coverPageHeaderReportingPersonDetails>
+        <reportingPersonName>Index Fund Co</reportingPersonName>
+        <aggregateAmountOwned>900000</aggregateAmountOwned>
+        <classPercent>5.1</classPercent>
+      </coverPageHeaderReportingPersonDetails></formData></edgarSubmission>`;
+
+    const parsed = parser.parseOwnershipStake(xml, 'SCHEDULE 13G/A');
+
+    expect(parsed?.isActivist).toBe(false);
+    expect(parsed?.isAmendment).toBe(true);
+    expect(parsed?.percentOfClass).toBe(5.1);
+    expect(parsed?.sharesOwned).toBe(900_000);
+  });
+});
+
+describe('ownership analysis', () => {
+  const now = new Date('2026-03-01T00:00:00Z');
+
+  it('should detect a cluster of distinct insider sellers', () => {
+    const cluster = detectInsiderClusterSelling(
+      [
+        sale('a', '2026-02-20', { isOfficer: true }),
+        sale('a', '2026-02-21'),
+        sale('b', '2026-02-15'),
+        sale('c', '2026-02-05'),
+        sale('d', '2025-12-01'), // Outside the window
+      ],
+      now,
+      30,
+      3,
+    );
+
+    expect(cluster?.sellerCount).toBe(3);
+    expect(cluster?.officerSellerCount).toBe(1);
+    expect(cluster?.totalValue).toBe(40_000);
+  });
+
+  it('should ignore selling offset by insider buying', () => {
+    const buy = { direction: InsiderTransactionDirection.BUY, transactionCode: 'P' };
+    const cluster = detectInsiderClusterSelling(
+      [
+        sale('a', '2026-02-20'),
+        sale('b', '2026-02-15'),
+        sale('c', '2026-02-05'),
+        sale('x', '2026-02-10', buy),
+        sale('y', '2026-02-11', buy),
+        sale('z', '2026-02-12', buy),
+      ],
+      now,
+      30,
+      3,
+    );
+
+    expect(cluster).toBeNull();
+  });
+
+  it('should flag activist stakes crossing 5%', () => {
+    expect(crossedActivistThreshold(stake(), null)).toBe(true);
+    expect(crossedActivistThreshold(stake({ isAmendment: true }), stake({ percentOfClass: 4.2 }))).toBe(true);
+    expect(crossedActivistThreshold(stake(), stake({ isActivist: false }))).toBe(true);
+    expect(crossedActivistThreshold(stake({ isAmendment: true }), stake({ percentOfClass: 6 }))).toBe(false);
+    expect(crossedActivistThreshold(stake({ isAmendment: true }), null)).toBe(false);
+    expect(crossedActivistThreshold(stake({ isActivist: false }), null)).toBe(false);
+  });
+});
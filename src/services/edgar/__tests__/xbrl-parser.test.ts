@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { XbrlParserService } from '../xbrl-parser.service';
+import { computeCashRunway, computeShareGrowth } from '../financial-analysis';
+import { FinancialMetric, XbrlFinancialFact } from '../../../types/edgar.types';
+
+const INLINE_FILING = `
+<html><body>
+<ix:header><ix:resources>
+  <xbrli:context id="c-1">
+    <xbrli:entity><xbrli:identifier scheme="http://www.sec.gov/CIK">0000123456</xbrli:identifier></xbrli:entity>
+    <xbrli:period><xbrli:startDate>2025-01-01</xbrli:startDate><xbrli:endDate>2025-09-30</xbrli:endDate></xbrli:period>
+  </xbrli:context>
+  <xbrli:context id="c-2">
+    <xbrli:entity><xbrli:identifier scheme="http://www.sec.gov/CIK">0000123456</xbrli:identifier></xbrli:entity>
+    <xbrli:period><xbrli:instant>2025-09-30</xbrli:instant></xbrli:period>
+  </xbrli:context>
+  <xbrli:context id="c-3">
+    <xbrli:entity>
+      <xbrli:identifier scheme="http://www.sec.gov/CIK">0000123456</xbrli:identifier>
+      <xbrli:segment><xbrldi:explicitMember dimension="us-gaap:StatementBusinessSegmentsAxis">x:DevicesMember</xbrldi:explicitMember></xbrli:segment>
+    </xbrli:entity>
+    <xbrli:period><xbrli:instant>2025-09-30</xbrli:instant></xbrli:period>
+  </xbrli:context>
+  <xbrli:unit id="usd"><xbrli:measure>iso4217:USD</xbrli:measure></xbrli:unit>
+  <xbrli:unit id="shares"><xbrli:measure>xbrli:shares</xbrli:measure></xbrli:unit>
+</ix:resources></ix:header>
+<ix:nonNumeric name="dei:DocumentFiscalYearFocus" contextRef="c-1">2025</ix:nonNumeric>
+<ix:nonNumeric name="dei:DocumentFiscalPeriodFocus" contextRef="c-1">Q3</ix:nonNumeric>
+<td>$<ix:nonFraction name="us-gaap:CashAndCashEquivalentsAtCarryingValue" contextRef="c-2" unitRef="usd" decimals="-3" scale="3">4,500</ix:nonFraction></td>
+<td><ix:nonFraction name="us-gaap:Cash" contextRef="c-2" unitRef="usd" scale="3">9,999</ix:nonFraction></td>
+<td><ix:nonFraction name="us-gaap:CashAndCashEquivalentsAtCarryingValue" contextRef="c-3" unitRef="usd" scale="3">100</ix:nonFraction></td>
+<td>(<ix:nonFraction name="us-gaap:NetCashProvidedByUsedInOperatingActivities" contextRef="c-1" unitRef="usd" scale="3" sign="-">9,000</ix:nonFraction>)</td>
+<td><ix:nonFraction name="us-gaap:LongTermDebtNoncurrent" contextRef="c-2" unitRef="usd" scale="6">12.5</ix:nonFraction></td>
+<td><ix:nonFraction name="us-gaap:DebtCurrent" contextRef="c-2" unitRef="usd" scale="6" format="ixt:fixed-zero">—</ix:nonFraction></td>
+<td><ix:nonFraction name="dei:EntityCommonStockSharesOutstanding" contextRef="c-2" unitRef="shares">42,000,000</ix:nonFraction></td>
+</body></html>`;
+
+function fact(metric: FinancialMetric, value: number, start: string, end: string): XbrlFinancialFact {
+  return {
+    metric,
+    concept: 'test',
+    value,
+    unit: metric === FinancialMetric.SHARES_OUTSTANDING ? 'shares' : 'USD',
+    periodStart: new Date(start),
+    periodEnd: new Date(end),
+    fiscalYear: null,
+    fiscalPeriod: null,
+  };
+}
+
+describe('XbrlParserService', () => {
+  const parser = new XbrlParserService();
+
+  it('should extract scaled and signed inline XBRL values', () => {
+    const { facts, fiscalYear, fiscalPeriod } = parser.parse(INLINE_FILING);
+    const byMetric = (m: FinancialMetric): XbrlFinancialFact[] => facts.filter((f) => f.metric === m);
+
+    expect(fiscalYear).toBe(2025);
+    expect(fiscalPeriod).toBe('Q3');
+
+    expect(byMetric(FinancialMetric.OPERATING_CASH_FLOW)[0].value).toBe(-9_000_000);
+    expect(byMetric(FinancialMetric.SHARES_OUTSTANDING)[0].value).toBe(42_000_000);
+  });
+
+  it('should prefer the canonical concept and ignore dimensional contexts', () => {
+    const cash = parser.parse(INLINE_FILING).facts.filter((f) => f.metric === FinancialMetric.CASH);
+
+    expect(cash).toHaveLength(1);
+    expect(cash[0].concept).toBe('us-gaap:CashAndCashEquivalentsAtCarryingValue');
+    expect(cash[0].value).toBe(4_500_000);
+  });
+
+  it('should derive total debt from current and non-current debt', () => {
+    const debt = parser
+      .parse(INLINE_FILING)
+      .facts.find((f) => f.metric === FinancialMetric.TOTAL_DEBT);
+
+    expect(debt?.concept).toBe('derived');
+    expect(debt?.value).toBe(12_500_000);
+  });
+
+  it('should parse classic XBRL instance documents', () => {
+    const instance = `
+      <xbrli:context id="FY25"><xbrli:entity></xbrli:entity>
+        <xbrli:period><xbrli:instant>2025-12-31</xbrli:instant></xbrli:period></xbrli:context>
+      <xbrli:unit id="USD"><xbrli:measure>iso4217:USD</xbrli:measure></xbrli:unit>
+      <us-gaap:Assets contextRef="FY25" unitRef="USD" decimals="-3">250000000</us-gaap:Assets>`;
+
+    const assets = parser.parse(instance).facts.find((f) => f.metric === FinancialMetric.TOTAL_ASSETS);
+    expect(assets?.value).toBe(250_000_000);
+  });
+
+  it('should return nothing for filings without XBRL', () => {
+    expect(parser.parse('<html>plain 8-K text</html>').facts).toHaveLength(0);
+  });
+});
+
+describe('financial analysis', () => {
+  it('should compute cash runway from year-to-date burn', () => {
+    const runway = computeCashRunway([
+      fact(FinancialMetric.CASH, 4_500_000, '2025-09-30', '2025-09-30'),
+      fact(FinancialMetric.OPERATING_CASH_FLOW, -9_000_000, '2025-01-01', '2025-09-30'),
+    ]);
+
+    expect(runway?.monthlyBurn).toBeCloseTo(1_000_000, -4);
+    expect(runway?.runwayMonths).toBeCloseTo(4.5, 1);
+  });
+
+  it('should report no runway limit for cash-generating companies', () => {
+    const runway = computeCashRunway([
+      fact(FinancialMetric.CASH, 1_000_000, '2025-09-30', '2025-09-30'),
+      fact(FinancialMetric.OPERATING_CASH_FLOW, 2_000_000, '2025-07-01', '2025-09-30'),
+    ]);
+
+    expect(runway?.runwayMonths).toBeNull();
+  });
+
+  it('should measure year-over-year share growth', () => {
+    const growth = computeShareGrowth([
+      fact(FinancialMetric.SHARES_OUTSTANDING, 150, '2025-10-31', '2025-10-31'),
+      fact(FinancialMetric.SHARES_OUTSTANDING, 120, '2025-05-01', '2025-05-01'),
+      fact(FinancialMetric.SHARES_OUTSTANDING, 100, '2024-11-01', '2024-11-01'),
+    ]);
+
+    expect(growth?.prior.value).toBe(100);
+    expect(growth?.growthPct).toBeCloseTo(50);
+  });
+});
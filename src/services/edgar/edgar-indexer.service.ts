@@ -8,6 +8,26 @@ import { FilingMetadata, FilingType } from '../../types/edgar.types.js';
 import { InstrumentType } from '../../types/instrument.types.js';
 import { RateLimiter } from '../../utils/rate-limiter.js';
 
+// Form types discovered by both ingestion paths. Schedules 13D/13G are listed
+// under both their legacy ("SC 13D") and post-2024 EDGAR ("SCHEDULE 13D") names.
+const EDGAR_FORM_TYPES = [
+  '8-K',
+  '424B5',
+  'S-3',
+  'S-3/A',
+  '10-Q',
+  '10-K',
+  'N-CEN',
+  'N-PORT',
+  '3',
+  '4',
+  '5',
+  'SC 13D',
+  'SC 13G',
+  'SCHEDULE 13D',
+  'SCHEDULE 13G',
+];
+
 /**
  * EDGAR Indexer Service (Dual-Path Ingestion)
  *
@@ -61,12 +81,14 @@ export class EdgarIndexerService {
    * - 424B5 (prospectus supplements = shelf usage)
    * - S-3 (shelf registrations)
    * - 10-Q, 10-K (periodic reports)
+   * - 3, 4, 5 (insider ownership and transactions)
+   * - SC 13D, SC 13G (5%+ beneficial ownership stakes)
    */
   async discoverRecentFilings(): Promise<number> {
     this.logger.info({ mode: 'REALTIME' }, 'Starting real-time RSS discovery');
 
     try {
-      const formTypes = ['8-K', '424B5', 'S-3', 'S-3/A', '10-Q', '10-K', 'N-CEN', 'N-PORT'];
+      const formTypes = EDGAR_FORM_TYPES;
       const allFilings: FilingMetadata[] = [];
 
       // Fetch recent filings (first page only, no pagination)
@@ -153,7 +175,7 @@ export class EdgarIndexerService {
     );
 
     try {
-      const formTypes = ['8-K', '424B5', 'S-3', 'S-3/A', '10-Q', '10-K', 'N-CEN', 'N-PORT'];
+      const formTypes = EDGAR_FORM_TYPES;
       const allFilings: FilingMetadata[] = [];
 
       // Fetch historical filings for each form type
@@ -1,9 +1,24 @@
 import { FilingRepository } from '../../adapters/database/repositories/filing.repository.js';
+import { FinancialFactRepository } from '../../adapters/database/repositories/financial-fact.repository.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import { OwnershipRepository } from '../../adapters/database/repositories/ownership.repository.js';
 import { FilingStorage } from './storage.interface.js';
 import { createFilingStorage } from './storage.factory.js';
 import { getLogger } from '../../utils/logger.js';
-import { FilingType, FilingStatus } from '../../types/edgar.types.js';
+import { SearchIndexerService } from '../search/search-indexer.service.js';
+import { getEnvironment } from '../../config/environment.js';
+import { FilingType, FilingStatus, FilingRecord } from '../../types/edgar.types.js';
 import { decodeHtmlEntities } from '../../utils/html-entities.js';
+import { XbrlParserService } from './xbrl-parser.service.js';
+import { OwnershipParserService } from './ownership-parser.service.js';
+
+const OWNERSHIP_FILING_TYPES = new Set<FilingType>([
+  FilingType.FORM_3,
+  FilingType.FORM_4,
+  FilingType.FORM_5,
+  FilingType.SC_13D,
+  FilingType.SC_13G,
+]);
 
 /**
  * Filing Parser Service
@@ -11,13 +26,29 @@ import { decodeHtmlEntities } from '../../utils/html-entities.js';
  */
 export class FilingParserService {
   private filingRepo: FilingRepository;
+  private financialFactRepo: FinancialFactRepository;
+  private instrumentRepo: InstrumentRepository;
+  private ownershipRepo: OwnershipRepository;
+  private xbrlParser: XbrlParserService;
+  private ownershipParser: OwnershipParserService;
   private storage: FilingStorage;
   private logger;
+  private searchIndexer: SearchIndexerService | null = null;
 
   constructor(storage?: FilingStorage) {
     this.filingRepo = new FilingRepository();
+    this.financialFactRepo = new FinancialFactRepository();
+    this.instrumentRepo = new InstrumentRepository();
+    this.ownershipRepo = new OwnershipRepository();
+    this.xbrlParser = new XbrlParserService();
+    this.ownershipParser = new OwnershipParserService();
     this.storage = storage || createFilingStorage();
     this.logger = getLogger();
+
+    // Initialize search indexer if enabled
+    if (getEnvironment().SEARCH_INDEXER_ENABLED) {
+      this.searchIndexer = new SearchIndexerService();
+    }
   }
 
   /**
@@ -62,11 +93,28 @@ export class FilingParserService {
           exhibits,
         });
 
+        // Periodic reports carry tagged financial statements
+        if (filing.filingType === FilingType.FORM_10K || filing.filingType === FilingType.FORM_10Q) {
+          await this.extractFinancialFacts(filing.id, filing.cik, raw.toString('utf-8'));
+        }
+
+        // Insider and beneficial ownership filings carry structured holdings
+        if (OWNERSHIP_FILING_TYPES.has(filing.filingType)) {
+          await this.extractOwnership(filing, raw.toString('utf-8'));
+        }
+
         // Update filing status
         await this.filingRepo.updateStatus(filing.id, FilingStatus.PARSED, {
           parsedAt: new Date(),
         });
 
+        // Index content for full-text search (don't block)
+        if (this.searchIndexer) {
+          this.searchIndexer.indexFilingContent(filing.id).catch((error) => {
+            this.logger.warn({ error, filingId: filing.id }, 'Search indexing failed');
+          });
+        }
+
         this.logger.info(
           {
             filingId: filing.id,
@@ -100,6 +148,94 @@ export class FilingParserService {
     return successCount;
   }
 
+  /**
+   * Extract XBRL financial facts. Failures are logged but never fail the
+   * filing, since the text pipeline does not depend on them.
+   */
+  private async extractFinancialFacts(filingId: string, cik: string, content: string): Promise<void> {
+    try {
+      const { facts, fiscalYear, fiscalPeriod } = this.xbrlParser.parse(content);
+
+      if (facts.length === 0) {
+        this.logger.debug({ filingId }, 'No XBRL financial facts found');
+        return;
+      }
+
+      const count = await this.financialFactRepo.replaceForFiling(filingId, cik, facts);
+
+      this.logger.info(
+        { filingId, count, fiscalYear, fiscalPeriod },
+        'Extracted XBRL financial facts',
+      );
+    } catch (error) {
+      this.logger.warn({ filingId, error }, 'Failed to extract XBRL financial facts');
+    }
+  }
+
+  /**
+   * Extract insider transactions (Forms 3/4/5) or a beneficial ownership
+   * stake (13D/13G). Records are linked to the issuer named in the document,
+   * which can differ from the CIK the filing was indexed under. Failures are
+   * logged but never fail the filing.
+   */
+  private async extractOwnership(filing: FilingRecord, content: string): Promise<void> {
+    try {
+      if (filing.filingType === FilingType.SC_13D || filing.filingType === FilingType.SC_13G) {
+        const stake = this.ownershipParser.parseOwnershipStake(content, filing.formType);
+        if (!stake) {
+          this.logger.debug({ filingId: filing.id }, 'No ownership stake found');
+          return;
+        }
+
+        const instrument = await this.instrumentRepo.findByCik(stake.subjectCik);
+        if (!instrument) {
+          this.logger.debug({ filingId: filing.id, cik: stake.subjectCik }, 'No instrument for stake subject');
+          return;
+        }
+
+        await this.ownershipRepo.upsertStake(
+          filing.id,
+          instrument.id,
+          filing.formType,
+          filing.filingDate,
+          stake,
+        );
+
+        this.logger.info(
+          { filingId: filing.id, instrumentId: instrument.id, percentOfClass: stake.percentOfClass },
+          'Extracted ownership stake',
+        );
+        return;
+      }
+
+      const { issuerCik, transactions } = this.ownershipParser.parseInsiderTransactions(content);
+      if (!issuerCik) {
+        this.logger.debug({ filingId: filing.id }, 'No ownership document found');
+        return;
+      }
+
+      const instrument = await this.instrumentRepo.findByCik(issuerCik);
+      if (!instrument) {
+        this.logger.debug({ filingId: filing.id, cik: issuerCik }, 'No instrument for insider issuer');
+        return;
+      }
+
+      const count = await this.ownershipRepo.replaceInsiderTransactions(
+        filing.id,
+        instrument.id,
+        filing.formType,
+        transactions,
+      );
+
+      this.logger.info(
+        { filingId: filing.id, instrumentId: instrument.id, count },
+        'Extracted insider transactions',
+      );
+    } catch (error) {
+      this.logger.warn({ filingId: filing.id, error }, 'Failed to extract ownership data');
+    }
+  }
+
   /**
    * Convert HTML to plain text
    * Strips tags and normalizes whitespace
@@ -0,0 +1,100 @@
+/**
+ * Pure calculations over XBRL financial facts used by EDGAR signal computation
+ */
+
+import { FinancialMetric, XbrlFinancialFact } from '../../types/edgar.types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export interface CashRunway<T extends XbrlFinancialFact> {
+  cash: T;
+  operatingCashFlow: T;
+  monthlyBurn: number; // Positive = cash consumed per month
+  runwayMonths: number | null; // null when operations generate cash
+}
+
+export interface ShareGrowth<T extends XbrlFinancialFact> {
+  current: T;
+  prior: T;
+  growthPct: number;
+}
+
+function durationMonths(fact: XbrlFinancialFact): number {
+  const span = fact.periodEnd.getTime() - fact.periodStart.getTime();
+  // XBRL durations are inclusive of both dates
+  return span === 0 ? 0 : (span / DAY_MS + 1) / DAYS_PER_MONTH;
+}
+
+/**
+ * Most recent fact for a metric (ties broken by the longest period)
+ */
+export function latestFact<T extends XbrlFinancialFact>(facts: T[], metric: FinancialMetric): T | null {
+  let latest: T | null = null;
+  for (const fact of facts) {
+    if (fact.metric !== metric) continue;
+    if (
+      !latest ||
+      fact.periodEnd > latest.periodEnd ||
+      (fact.periodEnd.getTime() === latest.periodEnd.getTime() && durationMonths(fact) > durationMonths(latest))
+    ) {
+      latest = fact;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Months of cash left at the latest operating cash burn rate.
+ * Year-to-date cash flow periods are normalised to a monthly rate.
+ */
+export function computeCashRunway<T extends XbrlFinancialFact>(facts: T[]): CashRunway<T> | null {
+  const cash = latestFact(facts, FinancialMetric.CASH);
+  const ocf = latestFact(facts, FinancialMetric.OPERATING_CASH_FLOW);
+
+  if (!cash || !ocf) return null;
+
+  const months = durationMonths(ocf);
+  if (months < 1) return null;
+
+  const monthlyBurn = -ocf.value / months;
+
+  return {
+    cash,
+    operatingCashFlow: ocf,
+    monthlyBurn,
+    runwayMonths: monthlyBurn > 0 ? Math.max(cash.value, 0) / monthlyBurn : null,
+  };
+}
+
+/**
+ * Year-over-year growth in shares outstanding, comparing the latest count
+ * to the one reported closest to a year earlier (9-15 months back)
+ */
+export function computeShareGrowth<T extends XbrlFinancialFact>(facts: T[]): ShareGrowth<T> | null {
+  const current = latestFact(facts, FinancialMetric.SHARES_OUTSTANDING);
+  if (!current || current.value <= 0) return null;
+
+  let prior: T | null = null;
+  let bestDistance = Infinity;
+
+  for (const fact of facts) {
+    if (fact.metric !== FinancialMetric.SHARES_OUTSTANDING || fact.value <= 0) continue;
+    const daysBack = (current.periodEnd.getTime() - fact.periodEnd.getTime()) / DAY_MS;
+    if (daysBack < 270 || daysBack > 450) continue;
+
+    const distance = Math.abs(daysBack - 365);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      prior = fact;
+    }
+  }
+
+  if (!prior) return null;
+
+  return {
+    current,
+    prior,
+    growthPct: ((current.value - prior.value) / prior.value) * 100,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Pure calculations over insider transactions and 13D/13G stakes used by
+ * EDGAR signal computation
+ */
+
+import {
+  InsiderTransactionDirection,
+  ParsedInsiderTransaction,
+  ParsedOwnershipStake,
+} from '../../types/edgar.types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Schedule 13D/13G filing threshold (% of a class of voting equity)
+export const BENEFICIAL_OWNERSHIP_THRESHOLD_PCT = 5;
+
+export interface InsiderCluster<T extends ParsedInsiderTransaction> {
+  sales: T[];
+  sellerCount: number;
+  officerSellerCount: number;
+  buyerCount: number;
+  totalShares: number;
+  totalValue: number; // Sum of shares × price where a price was reported
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+/**
+ * Open-market sales by distinct insiders within a trailing window.
+ * Returns null when fewer than minSellers insiders sold, or when at least as
+ * many insiders bought over the same window.
+ */
+export function detectInsiderClusterSelling<T extends ParsedInsiderTransaction>(
+  transactions: T[],
+  now: Date,
+  windowDays: number,
+  minSellers: number,
+): InsiderCluster<T> | null {
+  const windowStart = new Date(now.getTime() - windowDays * DAY_MS);
+  const recent = transactions.filter(
+    (tx) => tx.transactionDate >= windowStart && tx.transactionDate <= now,
+  );
+
+  const sales = recent.filter((tx) => tx.direction === InsiderTransactionDirection.SELL);
+  const sellers = new Set(sales.map((tx) => tx.ownerCik));
+  const buyers = new Set(
+    recent.filter((tx) => tx.direction === InsiderTransactionDirection.BUY).map((tx) => tx.ownerCik),
+  );
+
+  if (sellers.size < minSellers || buyers.size >= sellers.size) {
+    return null;
+  }
+
+  const officerSellers = new Set(sales.filter((tx) => tx.isOfficer).map((tx) => tx.ownerCik));
+
+  return {
+    sales,
+    sellerCount: sellers.size,
+    officerSellerCount: officerSellers.size,
+    buyerCount: buyers.size,
+    totalShares: sales.reduce((sum, tx) => sum + tx.shares, 0),
+    totalValue: sales.reduce((sum, tx) => sum + tx.shares * (tx.pricePerShare ?? 0), 0),
+    windowStart,
+    windowEnd: now,
+  };
+}
+
+/**
+ * Whether a stake newly puts an activist (13D) holder at or above 5%:
+ * an initial 13D, a 13D amendment after a sub-5% position, or a passive
+ * 13G holder switching to a 13D
+ */
+export function crossedActivistThreshold(
+  stake: ParsedOwnershipStake,
+  prior: ParsedOwnershipStake | null,
+): boolean {
+  if (!stake.isActivist || stake.percentOfClass < BENEFICIAL_OWNERSHIP_THRESHOLD_PCT) {
+    return false;
+  }
+
+  // An amendment without a known prior filing means the position predates our data
+  if (!prior) {
+    return !stake.isAmendment;
+  }
+
+  return prior.percentOfClass < BENEFICIAL_OWNERSHIP_THRESHOLD_PCT || !prior.isActivist;
+}
@@ -0,0 +1,297 @@
+import {
+  InsiderTransactionDirection,
+  ParsedInsiderTransaction,
+  ParsedOwnershipStake,
+} from '../../types/edgar.types.js';
+import { decodeHtmlEntities } from '../../utils/html-entities.js';
+
+// Open-market purchases and sales; grants, exercises and tax withholding are
+// not discretionary trades and carry no signal
+const TRADE_CODES: Record<string, InsiderTransactionDirection> = {
+  P: InsiderTransactionDirection.BUY,
+  S: InsiderTransactionDirection.SELL,
+};
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+export interface InsiderParseResult {
+  issuerCik: string | null;
+  transactions: ParsedInsiderTransaction[];
+}
+
+/**
+ * Ownership Parser Service
+ *
+ * Extracts structured ownership data from a filing submission:
+ * - Forms 3/4/5: the ownershipDocument XML (issuer, reporting owner and
+ *   non-derivative open-market transactions)
+ * - Schedules 13D/13G: the subject company from the SGML header and the
+ *   cover-page percent of class, from either the structured XML (filed
+ *   since December 2024) or the legacy text/HTML cover page
+ */
+export class OwnershipParserService {
+  /**
+   * Parse insider purchases/sales from a Form 3/4/5 submission.
+   * The first reporting owner is treated as the beneficial owner of record.
+   */
+  parseInsiderTransactions(content: string): InsiderParseResult {
+    const doc = this.firstBlock(content, 'ownershipDocument');
+    if (!doc) {
+      return { issuerCik: null, transactions: [] };
+    }
+
+    const issuer = this.firstBlock(doc, 'issuer') ?? '';
+    const issuerCik = this.normalizeCik(this.tagText(issuer, 'issuerCik'));
+
+    const owner = this.firstBlock(doc, 'reportingOwner') ?? '';
+    const ownerCik = this.normalizeCik(this.tagText(owner, 'rptOwnerCik'));
+    const ownerName = this.tagText(owner, 'rptOwnerName');
+
+    if (!issuerCik || !ownerCik || !ownerName) {
+      return { issuerCik, transactions: [] };
+    }
+
+    const relationship = this.firstBlock(owner, 'reportingOwnerRelationship') ?? '';
+    const ownerFields = {
+      issuerCik,
+      ownerCik,
+      ownerName,
+      isDirector: this.parseFlag(this.tagText(relationship, 'isDirector')),
+      isOfficer: this.parseFlag(this.tagText(relationship, 'isOfficer')),
+      isTenPercentOwner: this.parseFlag(this.tagText(relationship, 'isTenPercentOwner')),
+      officerTitle: this.tagText(relationship, 'officerTitle'),
+    };
+
+    const transactions: ParsedInsiderTransaction[] = [];
+
+    for (const row of this.allBlocks(doc, 'nonDerivativeTransaction')) {
+      const code = this.tagText(this.firstBlock(row, 'transactionCoding') ?? '', 'transactionCode');
+      const direction = code ? TRADE_CODES[code.toUpperCase()] : undefined;
+      if (!code || !direction) continue;
+
+      const transactionDate = this.parseDate(this.valueOf(row, 'transactionDate'));
+      const shares = this.parseNumber(this.valueOf(row, 'transactionShares'));
+      if (!transactionDate || shares === null || shares <= 0) continue;
+
+      transactions.push({
+        ...ownerFields,
+        securityTitle: this.valueOf(row, 'securityTitle') ?? 'Common Stock',
+        transactionDate,
+        transactionCode: code.toUpperCase(),
+        direction,
+        shares,
+        pricePerShare: this.parseNumber(this.valueOf(row, 'transactionPricePerShare')),
+        sharesOwnedAfter: this.parseNumber(this.valueOf(row, 'sharesOwnedFollowingTransaction')),
+      });
+    }
+
+    return { issuerCik, transactions };
+  }
+
+  /**
+   * Parse the reported stake from a Schedule 13D/13G submission.
+   * With several reporting persons (a filing group) the largest cover-page
+   * percentage is the group's aggregate position.
+   */
+  parseOwnershipStake(content: string, formType: string): ParsedOwnershipStake | null {
+    const subject = this.headerCompany(content, 'SUBJECT COMPANY');
+    if (!subject) return null;
+
+    const filer = this.headerCompany(content, 'FILED BY');
+    const normalizedForm = formType.toUpperCase().replace(/\s+/g, '');
+
+    const stake = this.parseStructuredStake(content) ?? this.parseCoverPageStake(content);
+    if (!stake) return null;
+
+    return {
+      subjectCik: subject.cik,
+      filerCik: filer?.cik ?? null,
+      filerName: filer?.name ?? null,
+      isActivist: normalizedForm.includes('13D'),
+      isAmendment: normalizedForm.endsWith('/A'),
+      percentOfClass: stake.percentOfClass,
+      sharesOwned: stake.sharesOwned,
+      eventDate: stake.eventDate,
+    };
+  }
+
+  /**
+   * Structured Schedule 13D/13G XML (mandatory on EDGAR since December 2024)
+   */
+  private parseStructuredStake(
+    content: string,
+  ): { percentOfClass: number; sharesOwned: number | null; eventDate: Date | null } | null {
+    const percents = [
+      ...this.allTagTexts(content, 'percentOfClass'),
+      ...this.allTagTexts(content, 'classPercent'),
+    ]
+      .map((text) => this.parseNumber(text))
+      .filter((value): value is number => value !== null);
+
+    if (percents.length === 0) return null;
+
+    const index = percents.indexOf(Math.max(...percents));
+    const amounts = this.allTagTexts(content, 'aggregateAmountOwned').map((text) => this.parseNumber(text));
+    const eventDate =
+      this.tagText(content, 'dateOfEvent') ?? this.tagText(content, 'eventDateRequiresFilingThisStatement');
+
+    return {
+      percentOfClass: percents[index],
+      sharesOwned: amounts[index] ?? null,
+      eventDate: this.parseDate(eventDate),
+    };
+  }
+
+  /**
+   * Legacy cover page, e.g.
+   *   "11. AGGREGATE AMOUNT BENEFICIALLY OWNED BY EACH REPORTING PERSON  1,250,000
+   *    13. PERCENT OF CLASS REPRESENTED BY AMOUNT IN ROW (11)  7.3%"
+   */
+  private parseCoverPageStake(
+    content: string,
+  ): { percentOfClass: number; sharesOwned: number | null; eventDate: Date | null } | null {
+    const text = this.toText(content);
+
+    const percentPattern = /PERCENT\s+OF\s+CLASS\s+REPRESENTED\s+BY\s+AMOUNT\s+IN\s+ROW\s*\(?\s*\d+\s*\)?\s*:?\s*([\d.]+)\s*%/gi;
+    const amountPattern = /AGGREGATE\s+AMOUNT\s+BENEFICIALLY\s+OWNED\s+BY\s+EACH\s+REPORTING\s+PERSON\s*:?\s*([\d,]+)/gi;
+
+    let best: number | null = null;
+    let bestOffset = 0;
+    let match;
+
+    while ((match = percentPattern.exec(text)) !== null) {
+      const value = parseFloat(match[1]);
+      if (!isNaN(value) && value <= 100 && (best === null || value > best)) {
+        best = value;
+        bestOffset = match.index;
+      }
+    }
+
+    if (best === null) return null;
+
+    // Amount reported on the same cover page (closest row before the percentage)
+    let sharesOwned: number | null = null;
+    while ((match = amountPattern.exec(text)) !== null && match.index < bestOffset) {
+      sharesOwned = this.parseNumber(match[1]);
+    }
+
+    const eventMatch = text.match(
+      /([A-Z][a-z]+\s+\d{1,2},\s+\d{4}|\d{1,2}\/\d{1,2}\/\d{4})\s*\(?\s*Date\s+of\s+Event\s+Which\s+Requires\s+Filing/i,
+    );
+
+    return {
+      percentOfClass: best,
+      sharesOwned,
+      eventDate: eventMatch ? this.parseDate(eventMatch[1]) : null,
+    };
+  }
+
+  /**
+   * Company block from the SGML submission header, e.g.
+   *   SUBJECT COMPANY:
+   *     COMPANY DATA:
+   *       COMPANY CONFORMED NAME:  ACME CORP
+   *       CENTRAL INDEX KEY:       0000123456
+   */
+  private headerCompany(content: string, label: string): { cik: string; name: string | null } | null {
+    const start = content.indexOf(`${label}:`);
+    if (start < 0) return null;
+
+    const block = content.slice(start, start + 2000);
+    const cik = this.normalizeCik(block.match(/CENTRAL INDEX KEY:\s*(\d+)/)?.[1] ?? null);
+    if (!cik) return null;
+
+    const name = block.match(/COMPANY CONFORMED NAME:\s*([^\r\n]+)/)?.[1]?.trim() ?? null;
+    return { cik, name };
+  }
+
+  private firstBlock(content: string, tag: string): string | null {
+    const match = content.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    return match ? match[1] : null;
+  }
+
+  private allBlocks(content: string, tag: string): string[] {
+    const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi');
+    return [...content.matchAll(pattern)].map((m) => m[1]);
+  }
+
+  /**
+   * Text of a leaf element, matching any namespace prefix
+   */
+  private tagText(content: string, tag: string): string | null {
+    return this.allTagTexts(content, tag)[0] ?? null;
+  }
+
+  private allTagTexts(content: string, tag: string): string[] {
+    const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([^<]*)</(?:[\\w-]+:)?${tag}>`, 'gi');
+    return [...content.matchAll(pattern)]
+      .map((m) => decodeHtmlEntities(m[1]).trim())
+      .filter((text) => text.length > 0);
+  }
+
+  /**
+   * Ownership XML wraps most values as <field><value>...</value></field>
+   */
+  private valueOf(content: string, tag: string): string | null {
+    const block = this.firstBlock(content, tag);
+    if (block === null) return null;
+    return this.tagText(block, 'value') ?? (block.includes('<') ? null : block.trim() || null);
+  }
+
+  private parseFlag(value: string | null): boolean {
+    return value === '1' || value?.toLowerCase() === 'true';
+  }
+
+  private parseNumber(value: string | null | undefined): number | null {
+    if (!value) return null;
+    const parsed = parseFloat(value.replace(/[,$%\s]/g, ''));
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private parseDate(value: string | null): Date | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+
+    const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) {
+      return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+    }
+
+    const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (us) {
+      return new Date(Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2])));
+    }
+
+    const long = trimmed.match(/^([A-Za-z]+)\s+(\d{1,2}),\s+(\d{4})$/);
+    if (long) {
+      const month = MONTHS.indexOf(long[1].toLowerCase());
+      if (month >= 0) {
+        return new Date(Date.UTC(Number(long[3]), month, Number(long[2])));
+      }
+    }
+
+    return null;
+  }
+
+  private normalizeCik(value: string | null): string | null {
+    if (!value || !/^\d+$/.test(value.trim())) return null;
+    return value.trim().padStart(10, '0');
+  }
+
+  private toText(content: string): string {
+    return decodeHtmlEntities(content.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ');
+  }
+}
@@ -1,9 +1,38 @@
 import { FilingRepository } from '../../adapters/database/repositories/filing.repository.js';
 import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
 import { SignalRepository } from '../../adapters/database/repositories/signal.repository.js';
+import { FinancialFactRepository } from '../../adapters/database/repositories/financial-fact.repository.js';
+import { OwnershipRepository } from '../../adapters/database/repositories/ownership.repository.js';
 import { getEnvironment } from '../../config/environment.js';
 import { getLogger } from '../../utils/logger.js';
-import { SignalType, SignalSeverity, FactType, FilingStatus } from '../../types/edgar.types.js';
+import {
+  SignalType,
+  SignalSeverity,
+  FactType,
+  FilingStatus,
+  FinancialMetric,
+} from '../../types/edgar.types.js';
+import { computeCashRunway, computeShareGrowth, latestFact } from './financial-analysis.js';
+import { crossedActivistThreshold, detectInsiderClusterSelling } from './ownership-analysis.js';
+
+// Look-back for XBRL facts (covers a year-over-year share comparison)
+const FINANCIALS_LOOKBACK_MS = 2 * 365 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a newly crossed activist stake stays actionable
+const ACTIVIST_STAKE_LOOKBACK_DAYS = 90;
+
+interface ComputedSignal {
+  instrumentId: string;
+  signalType: SignalType;
+  severity: SignalSeverity;
+  score: number;
+  reason: string;
+  evidenceFacts: string[];
+  sourceFiling?: string;
+  expiresAt?: Date;
+}
 
 /**
  * Signal Computer Service
@@ -13,12 +42,16 @@ export class SignalComputerService {
   private filingRepo: FilingRepository;
   private instrumentRepo: InstrumentRepository;
   private signalRepo: SignalRepository;
+  private financialFactRepo: FinancialFactRepository;
+  private ownershipRepo: OwnershipRepository;
   private logger;
 
   constructor() {
     this.filingRepo = new FilingRepository();
     this.instrumentRepo = new InstrumentRepository();
     this.signalRepo = new SignalRepository();
+    this.financialFactRepo = new FinancialFactRepository();
+    this.ownershipRepo = new OwnershipRepository();
     this.logger = getLogger();
   }
 
@@ -45,6 +78,7 @@ export class SignalComputerService {
       const ciks = [...new Set(enrichedFilings.filings.map((f) => f.cik))];
 
       let signalCount = 0;
+      const instrumentIds = new Set<string>();
 
       for (const cik of ciks) {
         const instrument = await this.instrumentRepo.findByCik(cik);
@@ -54,6 +88,8 @@ export class SignalComputerService {
           continue;
         }
 
+        instrumentIds.add(instrument.id);
+
         // Compute all signal types for this instrument
         const signals = await Promise.all([
           this.computeDilutionRisk(instrument.id, cik),
@@ -70,6 +106,29 @@ export class SignalComputerService {
         }
       }
 
+      // Ownership records are linked to the issuer named in the document,
+      // which need not be the CIK the filing was indexed under
+      const ownershipInstrumentIds = await this.ownershipRepo.findInstrumentIdsForFilings(
+        enrichedFilings.filings.map((f) => f.id),
+      );
+      for (const instrumentId of ownershipInstrumentIds) {
+        instrumentIds.add(instrumentId);
+      }
+
+      for (const instrumentId of instrumentIds) {
+        const signals = await Promise.all([
+          this.computeInsiderClusterSelling(instrumentId),
+          this.computeActivistStake(instrumentId),
+        ]);
+
+        for (const signal of signals) {
+          if (signal) {
+            await this.signalRepo.upsertSignal(signal);
+            signalCount++;
+          }
+        }
+      }
+
       this.logger.info({ signalCount }, 'Computed signals');
 
       return signalCount;
@@ -81,7 +140,8 @@ export class SignalComputerService {
 
   /**
    * Compute DILUTION_RISK signal
-   * Triggered by: Large shelf registrations relative to market cap
+   * Triggered by: Large shelf registrations relative to market cap,
+   * or fast growth in XBRL-reported shares outstanding
    */
   private async computeDilutionRisk(
     instrumentId: string,
@@ -98,16 +158,19 @@ export class SignalComputerService {
     const env = getEnvironment();
     const threshold = env.SIGNAL_DILUTION_SHELF_THRESHOLD_PCT;
 
-    // Get ATM + Shelf facts for this CIK
-    const facts = await this.filingRepo.findFactsByCik(cik, [
-      FactType.ATM_PROGRAM,
-      FactType.SHELF_REGISTRATION,
+    // Get ATM + Shelf facts and share counts for this CIK
+    const [facts, shareFacts] = await Promise.all([
+      this.filingRepo.findFactsByCik(cik, [
+        FactType.ATM_PROGRAM,
+        FactType.SHELF_REGISTRATION,
+      ]),
+      this.financialFactRepo.findByCik(
+        cik,
+        [FinancialMetric.SHARES_OUTSTANDING],
+        new Date(Date.now() - FINANCIALS_LOOKBACK_MS),
+      ),
     ]);
 
-    if (facts.length === 0) {
-      return null;
-    }
-
     // Calculate total shelf capacity
     let shelfCapacity = 0;
     const factIds: string[] = [];
@@ -119,17 +182,48 @@ export class SignalComputerService {
       factIds.push(fact.id);
     }
 
-    if (shelfCapacity === 0) {
+    const shareGrowth = computeShareGrowth(shareFacts);
+    const growthPct = shareGrowth && shareGrowth.growthPct > 0 ? shareGrowth.growthPct : 0;
+
+    if (shelfCapacity === 0 && growthPct === 0) {
       return null;
     }
 
-    // Get instrument to check market cap (price-based estimate)
+    // Market cap from last price and XBRL shares outstanding
     const instrument = await this.instrumentRepo.findById(instrumentId);
+    const shares = latestFact(shareFacts, FinancialMetric.SHARES_OUTSTANDING)?.value ?? null;
+    const price = instrument?.lastPrice ? parseFloat(instrument.lastPrice) : null;
+    const marketCapMillions = price && shares ? (price * shares) / 1_000_000 : null;
 
-    if (!instrument || !instrument.lastPrice) {
-      // Can't compute without price data; assume moderate dilution risk
-      const score = Math.min(shelfCapacity / 10, 100); // Heuristic: $100M shelf = score 10
+    const indicators: string[] = [];
+
+    let shelfScore = 0;
+    if (shelfCapacity > 0 && marketCapMillions) {
+      const shelfPct = (shelfCapacity / marketCapMillions) * 100;
+      shelfScore = Math.min(shelfPct, 100);
+      indicators.push(
+        `shelf capacity of $${shelfCapacity.toFixed(1)}M (${shelfPct.toFixed(0)}% of market cap)`,
+      );
+    } else if (shelfCapacity > 0) {
+      shelfScore = Math.min(shelfCapacity / 10, 100); // Heuristic: $100M shelf = score 10
+      indicators.push(`shelf capacity of $${shelfCapacity.toFixed(1)}M`);
+    }
 
+    let growthScore = 0;
+    if (shareGrowth && growthPct > 0) {
+      growthScore = Math.min(growthPct * 2, 100); // 50% YoY share growth = score 100
+      indicators.push(`shares outstanding up ${growthPct.toFixed(1)}% year over year`);
+      factIds.push(shareGrowth.current.id, shareGrowth.prior.id);
+    }
+
+    // Strongest indicator dominates; a second one adds a quarter of its weight
+    const score = Math.min(
+      Math.max(shelfScore, growthScore) + 0.25 * Math.min(shelfScore, growthScore),
+      100,
+    );
+
+    if (marketCapMillions === null && growthScore === 0) {
+      // Can't size the shelf without market cap; assume moderate dilution risk
       return {
         instrumentId,
         signalType: SignalType.DILUTION_RISK,
@@ -140,17 +234,13 @@ export class SignalComputerService {
       };
     }
 
-    // Rough market cap estimate (would need shares outstanding)
-    // For now, use shelf amount alone as score
-    const score = Math.min(shelfCapacity / 10, 100);
-
     if (score > threshold) {
       return {
         instrumentId,
         signalType: SignalType.DILUTION_RISK,
         severity: score > 50 ? SignalSeverity.CRITICAL : SignalSeverity.HIGH,
         score,
-        reason: `Shelf capacity of $${shelfCapacity.toFixed(1)}M. Potential for significant dilution.`,
+        reason: `Potential for significant dilution: ${indicators.join(', ')}.`,
         evidenceFacts: factIds,
       };
     }
@@ -227,7 +317,8 @@ export class SignalComputerService {
 
   /**
    * Compute DISTRESS_RISK signal
-   * Triggered by: Going concern warnings, liquidity stress, covenant breaches
+   * Triggered by: Going concern warnings, liquidity stress, covenant breaches,
+   * short XBRL cash runway or negative stockholders' equity
    */
   private async computeDistressRisk(
     instrumentId: string,
@@ -241,22 +332,30 @@ export class SignalComputerService {
     evidenceFacts: string[];
     sourceFiling?: string;
   } | null> {
-    // Get distress-related facts
-    const facts = await this.filingRepo.findFactsByCik(cik, [
-      FactType.GOING_CONCERN,
-      FactType.LIQUIDITY_STRESS,
-      FactType.COVENANT_BREACH,
-      FactType.DIRECTOR_RESIGNATION,
-      FactType.RESTATEMENT,
+    // Get distress-related facts and balance sheet / cash flow values
+    const [facts, financials] = await Promise.all([
+      this.filingRepo.findFactsByCik(cik, [
+        FactType.GOING_CONCERN,
+        FactType.LIQUIDITY_STRESS,
+        FactType.COVENANT_BREACH,
+        FactType.DIRECTOR_RESIGNATION,
+        FactType.RESTATEMENT,
+      ]),
+      this.financialFactRepo.findByCik(
+        cik,
+        [
+          FinancialMetric.CASH,
+          FinancialMetric.OPERATING_CASH_FLOW,
+          FinancialMetric.STOCKHOLDERS_EQUITY,
+        ],
+        new Date(Date.now() - FINANCIALS_LOOKBACK_MS),
+      ),
     ]);
 
-    if (facts.length === 0) {
-      return null;
-    }
-
     // Score based on severity of facts
     let score = 0;
     const indicators: string[] = [];
+    const evidenceFacts = facts.map((f) => f.id);
 
     for (const fact of facts) {
       switch (fact.factType) {
@@ -283,6 +382,31 @@ export class SignalComputerService {
       }
     }
 
+    // Cash runway at the latest operating burn rate
+    const runway = computeCashRunway(financials);
+    if (runway && runway.runwayMonths !== null && runway.runwayMonths < 18) {
+      if (runway.runwayMonths < 6) {
+        score += 40;
+      } else if (runway.runwayMonths < 12) {
+        score += 25;
+      } else {
+        score += 10;
+      }
+      indicators.push(`cash runway of ~${runway.runwayMonths.toFixed(1)} months`);
+      evidenceFacts.push(runway.cash.id, runway.operatingCashFlow.id);
+    }
+
+    const equity = latestFact(financials, FinancialMetric.STOCKHOLDERS_EQUITY);
+    if (equity && equity.value < 0) {
+      score += 15;
+      indicators.push("stockholders' deficit");
+      evidenceFacts.push(equity.id);
+    }
+
+    if (score === 0) {
+      return null;
+    }
+
     score = Math.min(score, 100);
 
     // Determine severity
@@ -303,7 +427,113 @@ export class SignalComputerService {
       severity,
       score,
       reason: `Company showing signs of financial distress: ${indicators.join(', ')}.`,
-      evidenceFacts: facts.map((f) => f.id),
+      evidenceFacts,
     };
   }
+
+  /**
+   * Compute INSIDER_CLUSTER_SELLING signal
+   * Triggered by: Several distinct insiders selling on the open market
+   * within a short window, without offsetting insider purchases
+   */
+  private async computeInsiderClusterSelling(instrumentId: string): Promise<ComputedSignal | null> {
+    const env = getEnvironment();
+    const now = new Date();
+    const windowDays = env.SIGNAL_INSIDER_CLUSTER_WINDOW_DAYS;
+
+    const transactions = await this.ownershipRepo.findInsiderTransactions(instrumentId, {
+      since: new Date(now.getTime() - windowDays * DAY_MS),
+    });
+
+    const cluster = detectInsiderClusterSelling(
+      transactions,
+      now,
+      windowDays,
+      env.SIGNAL_INSIDER_CLUSTER_MIN_SELLERS,
+    );
+
+    if (!cluster) {
+      return null;
+    }
+
+    // 3 sellers = 40, each additional seller +10; officers and size add weight
+    let score = 40 + (cluster.sellerCount - env.SIGNAL_INSIDER_CLUSTER_MIN_SELLERS) * 10;
+    score += Math.min(cluster.officerSellerCount * 10, 20);
+    if (cluster.totalValue >= 10_000_000) {
+      score += 20;
+    } else if (cluster.totalValue >= 1_000_000) {
+      score += 10;
+    }
+    score = Math.min(score, 100);
+
+    let severity: SignalSeverity;
+    if (score >= 80) {
+      severity = SignalSeverity.CRITICAL;
+    } else if (score >= 60) {
+      severity = SignalSeverity.HIGH;
+    } else {
+      severity = SignalSeverity.MEDIUM;
+    }
+
+    const indicators = [
+      `${cluster.sellerCount} insiders sold ${Math.round(cluster.totalShares).toLocaleString('en-US')} shares in ${windowDays} days`,
+    ];
+    if (cluster.totalValue > 0) {
+      indicators.push(`~$${(cluster.totalValue / 1_000_000).toFixed(1)}M in proceeds`);
+    }
+    if (cluster.officerSellerCount > 0) {
+      indicators.push(`${cluster.officerSellerCount} officer(s) among sellers`);
+    }
+
+    const latestSale = cluster.sales[0];
+
+    return {
+      instrumentId,
+      signalType: SignalType.INSIDER_CLUSTER_SELLING,
+      severity,
+      score,
+      reason: `Cluster of insider selling: ${indicators.join(', ')}.`,
+      evidenceFacts: cluster.sales.map((tx) => tx.id),
+      sourceFiling: latestSale.filingId,
+      expiresAt: new Date(latestSale.transactionDate.getTime() + windowDays * DAY_MS),
+    };
+  }
+
+  /**
+   * Compute ACTIVIST_STAKE_CROSSED signal
+   * Triggered by: A Schedule 13D reporting a new position of 5% or more
+   */
+  private async computeActivistStake(instrumentId: string): Promise<ComputedSignal | null> {
+    const stakes = await this.ownershipRepo.findStakes(
+      instrumentId,
+      new Date(Date.now() - ACTIVIST_STAKE_LOOKBACK_DAYS * DAY_MS),
+    );
+
+    for (const stake of stakes) {
+      const prior = stake.filerCik
+        ? await this.ownershipRepo.findPriorStake(instrumentId, stake.filerCik, stake.filingDate)
+        : null;
+
+      if (!crossedActivistThreshold(stake, prior)) {
+        continue;
+      }
+
+      const pct = stake.percentOfClass;
+      const score = Math.min(50 + (pct - 5) * 4, 100); // 5% = 50, 17.5%+ = 100
+      const filer = stake.filerName ?? 'An activist investor';
+
+      return {
+        instrumentId,
+        signalType: SignalType.ACTIVIST_STAKE_CROSSED,
+        severity: pct >= 10 ? SignalSeverity.HIGH : SignalSeverity.MEDIUM,
+        score,
+        reason: `${filer} disclosed a ${pct.toFixed(1)}% activist stake (${stake.formType}).`,
+        evidenceFacts: [stake.id],
+        sourceFiling: stake.filingId,
+        expiresAt: new Date(stake.filingDate.getTime() + ACTIVIST_STAKE_LOOKBACK_DAYS * DAY_MS),
+      };
+    }
+
+    return null;
+  }
 }
@@ -0,0 +1,330 @@
+import { FinancialMetric, XbrlFinancialFact } from '../../types/edgar.types.js';
+import { decodeHtmlEntities } from '../../utils/html-entities.js';
+
+/**
+ * XBRL concepts per metric, in priority order. The first concept present for
+ * a given period wins, so issuer-specific fallbacks never override the
+ * canonical tag.
+ */
+const METRIC_CONCEPTS: Record<FinancialMetric, string[]> = {
+  [FinancialMetric.CASH]: [
+    'us-gaap:CashAndCashEquivalentsAtCarryingValue',
+    'us-gaap:CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents',
+    'us-gaap:Cash',
+  ],
+  [FinancialMetric.REVENUE]: [
+    'us-gaap:Revenues',
+    'us-gaap:RevenueFromContractWithCustomerExcludingAssessedTax',
+    'us-gaap:SalesRevenueNet',
+  ],
+  [FinancialMetric.NET_INCOME]: ['us-gaap:NetIncomeLoss', 'us-gaap:ProfitLoss'],
+  [FinancialMetric.OPERATING_CASH_FLOW]: [
+    'us-gaap:NetCashProvidedByUsedInOperatingActivities',
+    'us-gaap:NetCashProvidedByUsedInOperatingActivitiesContinuingOperations',
+  ],
+  [FinancialMetric.SHARES_OUTSTANDING]: [
+    'dei:EntityCommonStockSharesOutstanding',
+    'us-gaap:CommonStockSharesOutstanding',
+  ],
+  [FinancialMetric.TOTAL_ASSETS]: ['us-gaap:Assets'],
+  [FinancialMetric.TOTAL_LIABILITIES]: ['us-gaap:Liabilities'],
+  [FinancialMetric.CURRENT_ASSETS]: ['us-gaap:AssetsCurrent'],
+  [FinancialMetric.CURRENT_LIABILITIES]: ['us-gaap:LiabilitiesCurrent'],
+  [FinancialMetric.STOCKHOLDERS_EQUITY]: [
+    'us-gaap:StockholdersEquity',
+    'us-gaap:StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest',
+  ],
+  [FinancialMetric.DEBT_CURRENT]: [
+    'us-gaap:DebtCurrent',
+    'us-gaap:LongTermDebtCurrent',
+    'us-gaap:ShortTermBorrowings',
+  ],
+  [FinancialMetric.DEBT_NONCURRENT]: [
+    'us-gaap:LongTermDebtNoncurrent',
+    'us-gaap:LongTermNotesPayable',
+    'us-gaap:ConvertibleNotesPayable',
+  ],
+  [FinancialMetric.TOTAL_DEBT]: ['us-gaap:LongTermDebt', 'us-gaap:DebtAndCapitalLeaseObligations'],
+};
+
+const SHARE_METRICS = new Set<FinancialMetric>([FinancialMetric.SHARES_OUTSTANDING]);
+
+interface XbrlContext {
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+interface RawFact {
+  concept: string;
+  contextRef: string;
+  unitRef: string | null;
+  value: number;
+}
+
+export interface XbrlParseResult {
+  facts: XbrlFinancialFact[];
+  fiscalYear: number | null;
+  fiscalPeriod: string | null;
+}
+
+/**
+ * XBRL Parser Service
+ *
+ * Extracts tagged financial statement values from a filing submission.
+ * Handles inline XBRL (ix:nonFraction in the primary 10-K/10-Q document)
+ * and classic XBRL instance documents (EX-101.INS). Only facts in
+ * dimensionless contexts are used, i.e. consolidated totals rather than
+ * segment or class breakdowns.
+ */
+export class XbrlParserService {
+  /**
+   * Parse all supported facts from raw submission content
+   */
+  parse(content: string): XbrlParseResult {
+    const contexts = this.parseContexts(content);
+    const units = this.parseUnits(content);
+
+    if (contexts.size === 0) {
+      return { facts: [], fiscalYear: null, fiscalPeriod: null };
+    }
+
+    const rawFacts = [...this.parseInlineFacts(content), ...this.parseInstanceFacts(content)];
+
+    const fiscalYearText = this.parseTextValue(content, 'dei:DocumentFiscalYearFocus');
+    const fiscalYear = fiscalYearText ? parseInt(fiscalYearText, 10) || null : null;
+    const fiscalPeriod = this.parseTextValue(content, 'dei:DocumentFiscalPeriodFocus');
+
+    const facts: XbrlFinancialFact[] = [];
+
+    for (const metric of Object.values(FinancialMetric)) {
+      const concepts = METRIC_CONCEPTS[metric];
+      const chosen = new Map<string, { rank: number; fact: XbrlFinancialFact }>();
+
+      for (const raw of rawFacts) {
+        const rank = concepts.indexOf(raw.concept);
+        if (rank < 0) continue;
+
+        const context = contexts.get(raw.contextRef);
+        if (!context) continue;
+
+        const unit = this.normalizeUnit(raw.unitRef ? units.get(raw.unitRef) ?? raw.unitRef : null);
+        const expectedUnit = SHARE_METRICS.has(metric) ? 'shares' : 'USD';
+        if (unit !== expectedUnit) continue;
+
+        const periodKey = `${context.periodStart.getTime()}_${context.periodEnd.getTime()}`;
+        const existing = chosen.get(periodKey);
+        if (existing && existing.rank <= rank) continue;
+
+        chosen.set(periodKey, {
+          rank,
+          fact: {
+            metric,
+            concept: raw.concept,
+            value: raw.value,
+            unit,
+            periodStart: context.periodStart,
+            periodEnd: context.periodEnd,
+            fiscalYear,
+            fiscalPeriod,
+          },
+        });
+      }
+
+      for (const { fact } of chosen.values()) {
+        facts.push(fact);
+      }
+    }
+
+    return { facts: this.deriveTotalDebt(facts), fiscalYear, fiscalPeriod };
+  }
+
+  /**
+   * Fill TOTAL_DEBT from current + non-current debt for periods where the
+   * issuer did not tag a total
+   */
+  private deriveTotalDebt(facts: XbrlFinancialFact[]): XbrlFinancialFact[] {
+    const periodKey = (f: XbrlFinancialFact): string => `${f.periodStart.getTime()}_${f.periodEnd.getTime()}`;
+    const tagged = new Set(
+      facts.filter((f) => f.metric === FinancialMetric.TOTAL_DEBT).map(periodKey),
+    );
+
+    const components = new Map<string, XbrlFinancialFact[]>();
+    for (const fact of facts) {
+      if (fact.metric !== FinancialMetric.DEBT_CURRENT && fact.metric !== FinancialMetric.DEBT_NONCURRENT) {
+        continue;
+      }
+      const key = periodKey(fact);
+      if (tagged.has(key)) continue;
+      components.set(key, [...(components.get(key) ?? []), fact]);
+    }
+
+    const derived: XbrlFinancialFact[] = [];
+    for (const parts of components.values()) {
+      derived.push({
+        ...parts[0],
+        metric: FinancialMetric.TOTAL_DEBT,
+        concept: 'derived',
+        value: parts.reduce((sum, p) => sum + p.value, 0),
+      });
+    }
+
+    return [...facts, ...derived];
+  }
+
+  /**
+   * Map context id -> period, skipping dimensional (segment/scenario) contexts
+   */
+  private parseContexts(content: string): Map<string, XbrlContext> {
+    const contexts = new Map<string, XbrlContext>();
+    const contextPattern = /<(?:xbrli:)?context\b[^>]*\bid="([^"]+)"[^>]*>([\s\S]*?)<\/(?:xbrli:)?context>/gi;
+
+    for (const match of content.matchAll(contextPattern)) {
+      const [, id, body] = match;
+      if (/<(?:xbrli:)?(?:segment|scenario)\b/i.test(body)) continue;
+
+      const instant = body.match(/<(?:xbrli:)?instant>\s*([^<\s]+)\s*</i);
+      const start = body.match(/<(?:xbrli:)?startDate>\s*([^<\s]+)\s*</i);
+      const end = body.match(/<(?:xbrli:)?endDate>\s*([^<\s]+)\s*</i);
+
+      const periodEnd = this.parseDate(instant?.[1] ?? end?.[1]);
+      const periodStart = instant ? periodEnd : this.parseDate(start?.[1]);
+      if (!periodStart || !periodEnd) continue;
+
+      contexts.set(id, { periodStart, periodEnd });
+    }
+
+    return contexts;
+  }
+
+  /**
+   * Map unit id -> measure (e.g. "usd" -> "iso4217:USD")
+   */
+  private parseUnits(content: string): Map<string, string> {
+    const units = new Map<string, string>();
+    const unitPattern = /<(?:xbrli:)?unit\b[^>]*\bid="([^"]+)"[^>]*>([\s\S]*?)<\/(?:xbrli:)?unit>/gi;
+
+    for (const match of content.matchAll(unitPattern)) {
+      const [, id, body] = match;
+      // Ratio units (divide) are never monetary totals or share counts
+      if (/<(?:xbrli:)?divide\b/i.test(body)) continue;
+      const measure = body.match(/<(?:xbrli:)?measure>\s*([^<\s]+)\s*</i);
+      if (measure) {
+        units.set(id, measure[1]);
+      }
+    }
+
+    return units;
+  }
+
+  private parseInlineFacts(content: string): RawFact[] {
+    const facts: RawFact[] = [];
+    const pattern = /<ix:nonFraction\b([^>]*)>([\s\S]*?)<\/ix:nonFraction>/gi;
+
+    for (const match of content.matchAll(pattern)) {
+      const attrs = this.parseAttributes(match[1]);
+      if (!attrs.name || !attrs.contextref || attrs['xsi:nil'] === 'true') continue;
+
+      const text = decodeHtmlEntities(match[2].replace(/<[^>]+>/g, '')).trim();
+      let value = this.parseInlineNumber(text, attrs.format);
+      if (value === null) continue;
+
+      const scale = attrs.scale ? parseInt(attrs.scale, 10) : 0;
+      if (scale) value *= Math.pow(10, scale);
+      if (attrs.sign === '-') value = -value;
+
+      facts.push({
+        concept: attrs.name,
+        contextRef: attrs.contextref,
+        unitRef: attrs.unitref ?? null,
+        value,
+      });
+    }
+
+    return facts;
+  }
+
+  private parseInstanceFacts(content: string): RawFact[] {
+    const facts: RawFact[] = [];
+    const concepts = new Set(Object.values(METRIC_CONCEPTS).flat());
+
+    for (const concept of concepts) {
+      const escaped = concept.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern = new RegExp(`<${escaped}\\b([^>]*)>\\s*([^<]*?)\\s*</${escaped}>`, 'g');
+
+      for (const match of content.matchAll(pattern)) {
+        const attrs = this.parseAttributes(match[1]);
+        const value = Number(match[2]);
+        if (!attrs.contextref || match[2] === '' || !Number.isFinite(value)) continue;
+
+        facts.push({
+          concept,
+          contextRef: attrs.contextref,
+          unitRef: attrs.unitref ?? null,
+          value,
+        });
+      }
+    }
+
+    return facts;
+  }
+
+  /**
+   * Text value of a dei cover-page element (inline or instance)
+   */
+  private parseTextValue(content: string, concept: string): string | null {
+    const escaped = concept.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const inline = content.match(
+      new RegExp(`<ix:nonNumeric\\b[^>]*\\bname="${escaped}"[^>]*>([\\s\\S]*?)</ix:nonNumeric>`, 'i'),
+    );
+    const instance = content.match(new RegExp(`<${escaped}\\b[^>]*>\\s*([^<]+?)\\s*</${escaped}>`));
+    const raw = inline?.[1] ?? instance?.[1];
+
+    if (!raw) return null;
+    const text = decodeHtmlEntities(raw.replace(/<[^>]+>/g, '')).trim();
+    return text || null;
+  }
+
+  /**
+   * Parse displayed inline XBRL numbers ("1,234.5", "(12)", "—", "1.234,5")
+   */
+  private parseInlineNumber(text: string, format?: string): number | null {
+    if (format && /zerodash|fixed-zero/i.test(format)) return 0;
+    if (/^[-–—]$/.test(text)) return 0;
+
+    let cleaned = text.replace(/[()$\s]/g, '');
+    if (format && /numcommadecimal|num-comma-decimal/i.test(format)) {
+      cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+    } else {
+      cleaned = cleaned.replace(/,/g, '');
+    }
+
+    if (cleaned === '') return null;
+    const value = Number(cleaned);
+    return Number.isFinite(value) ? value : null;
+  }
+
+  /**
+   * Lower-cased attribute map (contextRef -> contextref)
+   */
+  private parseAttributes(raw: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const match of raw.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+      attrs[match[1].toLowerCase()] = match[2];
+    }
+    return attrs;
+  }
+
+  private normalizeUnit(measure: string | null): string | null {
+    if (!measure) return null;
+    const lower = measure.toLowerCase();
+    if (lower === 'iso4217:usd' || lower === 'usd') return 'USD';
+    if (lower === 'xbrli:shares' || lower === 'shares') return 'shares';
+    return measure;
+  }
+
+  private parseDate(value: string | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(`${value.slice(0, 10)}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
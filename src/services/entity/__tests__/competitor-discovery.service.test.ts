@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CompetitorDiscoveryService } from '../competitor-discovery.service';
+import { FilingStatus } from '../../../types/edgar.types';
+
+const state = vi.hoisted(() => ({
+  identifiers: new Map<string, string>(),
+  cikLookups: [] as string[],
+}));
+
+const TEN_K = [
+  'Item 1. Business',
+  'We design GPUs.',
+  'Competition',
+  'We compete with Advanced Micro Devices and Intel Corporation.',
+  'Human Capital',
+  'We have 30,000 employees.',
+].join('\n');
+
+vi.mock('../../../adapters/database/repositories/instrument.repository', () => ({
+  InstrumentRepository: class {
+    async findIdentifierValue(instrumentId: string, type: string): Promise<string | null> {
+      return state.identifiers.get(`${instrumentId}:${type}`) ?? null;
+    }
+
+    async findLinkCandidates(): Promise<
+      Array<{ id: string; symbol: string; name: string; formerNames: null }>
+    > {
+      return [
+        { id: 'nvda', symbol: 'NVDA', name: 'NVIDIA Corporation', formerNames: null },
+        { id: 'amd', symbol: 'AMD', name: 'Advanced Micro Devices, Inc.', formerNames: null },
+        { id: 'intc', symbol: 'INTC', name: 'Intel Corporation', formerNames: null },
+      ];
+    }
+
+    async getClassification(): Promise<null> {
+      return null;
+    }
+  },
+}));
+
+vi.mock('../../../adapters/database/repositories/filing.repository', () => ({
+  FilingRepository: class {
+    async findByCik(cik: string): Promise<{ filings: unknown[] }> {
+      state.cikLookups.push(cik);
+      return {
+        filings: [
+          { id: 'filing-1', accessionNumber: '0001045810-26-000010', status: FilingStatus.PARSED },
+        ],
+      };
+    }
+
+    async findContentByFilingId(): Promise<{ fullText: string }> {
+      return { fullText: TEN_K };
+    }
+  },
+}));
+
+vi.mock('../../../adapters/database/repositories/candle.repository', () => ({
+  CandleRepository: class {
+    async findByInstruments(): Promise<[]> {
+      return [];
+    }
+  },
+}));
+
+vi.mock('../../../adapters/database/repositories/document.repository', () => ({
+  DocumentRepository: class {
+    async countCoMentions(): Promise<[]> {
+      return [];
+    }
+  },
+}));
+
+vi.mock('../../../config/environment', () => ({
+  getEnvironment: (): Record<string, number | string> => ({
+    COMPETITOR_DISCOVERY_MODE: 'peers',
+    PEER_CORRELATION_WINDOW_DAYS: 180,
+    PEER_CORRELATION_MIN_OBSERVATIONS: 60,
+    PEER_CO_MENTION_WINDOW_DAYS: 90,
+    PEER_DISCOVERY_MAX_PEERS: 10,
+    PEER_DISCOVERY_MIN_STRENGTH: 0.3,
+  }),
+}));
+
+vi.mock('../../../utils/logger', () => ({
+  getLogger: (): { child: () => { info: () => void } } => ({
+    child: () => ({ info: () => undefined }),
+  }),
+}));
+
+describe('CompetitorDiscoveryService', () => {
+  beforeEach(() => {
+    state.identifiers = new Map([['nvda:CIK', '0001045810']]);
+    state.cikLookups = [];
+  });
+
+  describe('discoverPeers', () => {
+    it("should find competitors named in the 10-K filed under the instrument's CIK", async () => {
+      const peers = await new CompetitorDiscoveryService().discoverPeers('nvda');
+
+      expect(state.cikLookups).toEqual(['0001045810']);
+      // "Intel" alone is a single-word name, below the matcher's confidence floor
+      expect(peers.map((p) => p.competitorId)).toEqual(['amd']);
+      expect(peers[0].relationshipType).toBe('NAMED_COMPETITOR');
+      expect(peers[0].evidence?.namedAccessionNumber).toBe('0001045810-26-000010');
+    });
+
+    it('should skip the filing lookup for instruments without a CIK', async () => {
+      state.identifiers.clear();
+
+      const peers = await new CompetitorDiscoveryService().discoverPeers('nvda');
+
+      expect(state.cikLookups).toEqual([]);
+      expect(peers).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { extractCompetitionSection, returnCorrelation, scorePeer } from '../peer-scoring';
+
+function series(closes: number[]): { timestamp: Date; close: number }[] {
+  const start = Date.parse('2024-01-01T21:00:00Z');
+  return closes.map((close, i) => ({ timestamp: new Date(start + i * 86_400_000), close }));
+}
+
+describe('returnCorrelation', () => {
+  it('should correlate daily returns, not price levels', () => {
+    const a = series([100, 102, 101, 104, 103, 106]);
+    const same = series([50, 51, 50.5, 52, 51.5, 53]);
+    const opposite = series([50, 49, 49.5, 48, 48.5, 47]);
+
+    expect(returnCorrelation(a, same)?.correlation).toBeGreaterThan(0.99);
+    expect(returnCorrelation(a, opposite)?.correlation).toBeLessThan(-0.9);
+    expect(returnCorrelation(a, same)?.observations).toBe(5);
+  });
+
+  it('should return null without overlapping history', () => {
+    expect(returnCorrelation(series([100, 101, 102]), [])).toBeNull();
+  });
+});
+
+describe('extractCompetitionSection', () => {
+  const tenK = [
+    'Item 1. Business',
+    'We design GPUs.',
+    'Competition',
+    'We compete with Advanced Micro Devices and Intel Corporation.',
+    'Our markets are highly competitive.',
+    'Human Capital',
+    'We have 30,000 employees. Intel is not mentioned here as a competitor.',
+  ].join('\n');
+
+  it('should cut the section at the next heading', () => {
+    const section = extractCompetitionSection(tenK);
+
+    expect(section).toContain('Advanced Micro Devices');
+    expect(section).toContain('highly competitive');
+    expect(section).not.toContain('employees');
+  });
+
+  it('should return null when there is no Competition heading', () => {
+    expect(extractCompetitionSection('Item 1. Business\nWe compete on price.')).toBeNull();
+  });
+});
+
+describe('scorePeer', () => {
+  it('should ignore weak or thin evidence', () => {
+    expect(scorePeer({ correlation: 0.25, correlationObservations: 250 }, 60)).toBeNull();
+    expect(scorePeer({ correlation: 0.9, correlationObservations: 20 }, 60)).toBeNull();
+    expect(scorePeer({ coMentions: 1 }, 60)).toBeNull();
+  });
+
+  it('should type the relationship by its strongest source', () => {
+    expect(scorePeer({ correlation: 0.8, correlationObservations: 250 }, 60)).toMatchObject({
+      relationshipType: 'PRICE_CORRELATED',
+      strength: 0.8,
+    });
+    expect(
+      scorePeer({ correlation: 0.5, correlationObservations: 250, namedConfidence: 0.85 }, 60)
+        ?.relationshipType,
+    ).toBe('NAMED_COMPETITOR');
+  });
+
+  it('should reinforce agreeing sources without exceeding 1', () => {
+    const correlated = scorePeer({ correlation: 0.6, correlationObservations: 250 }, 60)!;
+    const both = scorePeer(
+      { correlation: 0.6, correlationObservations: 250, coMentions: 10, namedConfidence: 0.95 },
+      60,
+    )!;
+
+    expect(both.strength).toBeGreaterThan(correlated.strength);
+    expect(both.strength).toBeLessThanOrEqual(1);
+    expect(both.rationale).toContain('10-K');
+    expect(both.rationale).toContain('10 shared news articles');
+  });
+});
@@ -1,25 +1,189 @@
 import { getLogger } from '../../utils/logger.js';
 import type { Logger } from 'pino';
 import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import { CandleRepository } from '../../adapters/database/repositories/candle.repository.js';
+import { DocumentRepository } from '../../adapters/database/repositories/document.repository.js';
+import { FilingRepository } from '../../adapters/database/repositories/filing.repository.js';
+import {
+  buildInstrumentIndex,
+  InstrumentIndex,
+  matchCompanyMentions,
+} from '../market-linking/instrument-matcher.js';
+import {
+  ClosePoint,
+  extractCompetitionSection,
+  returnCorrelation,
+  scorePeer,
+} from './peer-scoring.js';
+import { getEnvironment } from '../../config/environment.js';
+import type { CompetitorRelationshipType, PeerEvidence } from '../../types/document.types.js';
+import { FilingStatus, FilingType } from '../../types/edgar.types.js';
+import { IdentifierType } from '../../types/instrument.types.js';
 
 export interface CompetitorRelationship {
   instrumentId: string;
   competitorId: string;
-  relationshipType: 'SAME_INDUSTRY' | 'SAME_SECTOR';
+  relationshipType: CompetitorRelationshipType;
   confidence: number;
   rationale: string;
+  evidence?: PeerEvidence;
 }
 
+const DAY_MS = 86_400_000;
+// Same-industry instruments checked for return correlation
+const CORRELATION_CANDIDATE_LIMIT = 200;
+// Names in a Competition section below this matcher confidence are ignored;
+// only cashtags and multi-word names are considered
+const NAMED_COMPETITOR_MIN_CONFIDENCE = 0.6;
+// The name index covers every listed instrument; rebuild it at most hourly
+const NAME_INDEX_TTL_MS = 3_600_000;
+
 /**
  * Service for discovering competitor relationships between instruments
  */
 export class CompetitorDiscoveryService {
   private logger: Logger;
   private instrumentRepo: InstrumentRepository;
+  private candleRepo: CandleRepository;
+  private documentRepo: DocumentRepository;
+  private filingRepo: FilingRepository;
+  private nameIndex: { index: Promise<InstrumentIndex>; builtAt: number } | null = null;
 
   constructor() {
     this.logger = getLogger().child({ service: 'CompetitorDiscoveryService' });
     this.instrumentRepo = new InstrumentRepository();
+    this.candleRepo = new CandleRepository();
+    this.documentRepo = new DocumentRepository();
+    this.filingRepo = new FilingRepository();
+  }
+
+  /**
+   * Discover and store competitors using the configured mode.
+   * Returns the number of relationships written.
+   */
+  async refreshCompetitors(instrumentId: string): Promise<number> {
+    const env = getEnvironment();
+
+    if (env.COMPETITOR_DISCOVERY_MODE === 'peers') {
+      const peers = await this.discoverPeers(instrumentId);
+      return this.instrumentRepo.replaceCompetitorRelationships(instrumentId, peers);
+    }
+
+    let created = 0;
+    const relationships = await this.discoverCompetitors(instrumentId);
+    for (const rel of relationships) {
+      try {
+        await this.instrumentRepo.createCompetitorRelationship(rel);
+        created++;
+      } catch (error) {
+        // Ignore duplicate key errors (expected due to bidirectional creation)
+        const code = (error as { code?: string } | null)?.code;
+        if (code === '23505' || code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Rank peers for a single instrument
+   *
+   * Candidates come from same-industry instruments, competitors named in the
+   * latest 10-K Competition section and instruments co-mentioned in news.
+   * Each candidate is scored from its return correlation, named-competitor
+   * match and co-mention count; only the strongest peers are returned.
+   * Relationships are one-directional (this instrument → peer).
+   */
+  async discoverPeers(instrumentId: string): Promise<CompetitorRelationship[]> {
+    const env = getEnvironment();
+    const now = Date.now();
+    const evidence = new Map<string, PeerEvidence>();
+    const evidenceFor = (id: string): PeerEvidence => {
+      let peer = evidence.get(id);
+      if (!peer) {
+        peer = {};
+        evidence.set(id, peer);
+      }
+      return peer;
+    };
+
+    // Named competitors from the latest 10-K
+    const named = await this.findNamedCompetitors(instrumentId);
+    for (const match of named.matches) {
+      const peer = evidenceFor(match.instrumentId);
+      peer.namedConfidence = match.confidence;
+      peer.namedAccessionNumber = named.accessionNumber ?? undefined;
+    }
+
+    // News co-mentions
+    const coMentions = await this.documentRepo.countCoMentions(
+      instrumentId,
+      new Date(now - env.PEER_CO_MENTION_WINDOW_DAYS * DAY_MS)
+    );
+    for (const { instrumentId: peerId, count } of coMentions) {
+      evidenceFor(peerId).coMentions = count;
+    }
+
+    // Return correlation against every candidate plus same-industry instruments
+    const classification = await this.instrumentRepo.getClassification(instrumentId);
+    if (classification) {
+      const sameIndustry = await this.instrumentRepo.findByIndustry(
+        classification.industry,
+        CORRELATION_CANDIDATE_LIMIT
+      );
+      for (const candidate of sameIndustry) {
+        evidenceFor(candidate.id);
+      }
+    }
+    evidence.delete(instrumentId);
+
+    const closes = await this.loadDailyCloses(
+      [instrumentId, ...evidence.keys()],
+      new Date(now - env.PEER_CORRELATION_WINDOW_DAYS * DAY_MS),
+      new Date(now)
+    );
+    const ownCloses = closes.get(instrumentId) ?? [];
+    if (ownCloses.length > 0) {
+      for (const [peerId, peer] of evidence) {
+        const fit = returnCorrelation(ownCloses, closes.get(peerId) ?? []);
+        if (fit) {
+          peer.correlation = Math.round(fit.correlation * 1000) / 1000;
+          peer.correlationObservations = fit.observations;
+        }
+      }
+    }
+
+    const peers: CompetitorRelationship[] = [];
+    for (const [peerId, peer] of evidence) {
+      const score = scorePeer(peer, env.PEER_CORRELATION_MIN_OBSERVATIONS);
+      if (!score || score.strength < env.PEER_DISCOVERY_MIN_STRENGTH) continue;
+
+      peers.push({
+        instrumentId,
+        competitorId: peerId,
+        relationshipType: score.relationshipType,
+        confidence: score.strength,
+        rationale: score.rationale,
+        evidence: peer,
+      });
+    }
+
+    peers.sort((a, b) => b.confidence - a.confidence);
+    const ranked = peers.slice(0, env.PEER_DISCOVERY_MAX_PEERS);
+
+    this.logger.info(
+      {
+        instrumentId,
+        candidates: evidence.size,
+        namedCompetitors: named.matches.length,
+        peers: ranked.length,
+      },
+      'Discovered peers'
+    );
+
+    return ranked;
   }
 
   /**
@@ -96,22 +260,7 @@ export class CompetitorDiscoveryService {
 
     for (const id of instrumentIds) {
       try {
-        const relationships = await this.discoverCompetitors(id);
-
-        // Persist relationships
-        for (const rel of relationships) {
-          try {
-            await this.instrumentRepo.createCompetitorRelationship(rel);
-            totalCreated++;
-          } catch (error: any) {
-            // Ignore duplicate key errors (expected due to bidirectional creation)
-            if (error?.code === '23505' || error?.code === 'P2002') {
-              // Postgres unique violation or Prisma unique constraint
-              continue;
-            }
-            throw error;
-          }
-        }
+        totalCreated += await this.refreshCompetitors(id);
       } catch (error) {
         this.logger.error(
           { error, instrumentId: id },
@@ -123,4 +272,82 @@ export class CompetitorDiscoveryService {
 
     return totalCreated;
   }
+
+  /**
+   * Competitors named in the Competition section of the instrument's
+   * latest parsed 10-K
+   */
+  private async findNamedCompetitors(
+    instrumentId: string
+  ): Promise<{
+    accessionNumber: string | null;
+    matches: Array<{ instrumentId: string; confidence: number }>;
+  }> {
+    const cik = await this.instrumentRepo.findIdentifierValue(instrumentId, IdentifierType.CIK);
+    if (!cik) {
+      return { accessionNumber: null, matches: [] };
+    }
+
+    const { filings } = await this.filingRepo.findByCik(cik, {
+      filingType: FilingType.FORM_10K,
+      limit: 3,
+    });
+    const filing = filings.find(
+      (f) => f.status === FilingStatus.PARSED || f.status === FilingStatus.ENRICHED
+    );
+    if (!filing) {
+      return { accessionNumber: null, matches: [] };
+    }
+
+    const content = await this.filingRepo.findContentByFilingId(filing.id);
+    const section = content ? extractCompetitionSection(content.fullText) : null;
+    if (!section) {
+      return { accessionNumber: filing.accessionNumber, matches: [] };
+    }
+
+    const matches = matchCompanyMentions(
+      section,
+      await this.getNameIndex(),
+      NAMED_COMPETITOR_MIN_CONFIDENCE
+    );
+
+    return {
+      accessionNumber: filing.accessionNumber,
+      matches: matches
+        .filter((m) => m.instrumentId !== instrumentId)
+        .map((m) => ({ instrumentId: m.instrumentId, confidence: m.confidence })),
+    };
+  }
+
+  private getNameIndex(): Promise<InstrumentIndex> {
+    if (!this.nameIndex || Date.now() - this.nameIndex.builtAt > NAME_INDEX_TTL_MS) {
+      const index = this.instrumentRepo
+        .findLinkCandidates()
+        .then(buildInstrumentIndex)
+        .catch((error) => {
+          this.nameIndex = null;
+          throw error;
+        });
+      this.nameIndex = { index, builtAt: Date.now() };
+    }
+    return this.nameIndex.index;
+  }
+
+  private async loadDailyCloses(
+    instrumentIds: string[],
+    from: Date,
+    to: Date
+  ): Promise<Map<string, ClosePoint[]>> {
+    const candles = await this.candleRepo.findByInstruments(instrumentIds, '1d', from, to);
+    const closes = new Map<string, ClosePoint[]>();
+
+    for (const candle of candles) {
+      if (!candle.instrumentId) continue;
+      const series = closes.get(candle.instrumentId) ?? [];
+      series.push({ timestamp: candle.timestamp, close: Number(candle.close) });
+      closes.set(candle.instrumentId, series);
+    }
+
+    return closes;
+  }
 }
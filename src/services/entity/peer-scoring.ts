@@ -0,0 +1,175 @@
+import type { CompetitorRelationshipType, PeerEvidence } from '../../types/document.types.js';
+
+export interface ClosePoint {
+  timestamp: Date;
+  close: number;
+}
+
+export type PeerSource = Extract<
+  CompetitorRelationshipType,
+  'PRICE_CORRELATED' | 'NAMED_COMPETITOR' | 'CO_MENTIONED'
+>;
+
+export interface PeerScore {
+  relationshipType: PeerSource;
+  strength: number;
+  rationale: string;
+}
+
+/**
+ * How far each source alone can be trusted. A named competitor in the
+ * issuer's own 10-K is the strongest evidence; co-mentions are the noisiest
+ * (index roundups, market wraps).
+ */
+const SOURCE_RELIABILITY: Record<PeerSource, number> = {
+  NAMED_COMPETITOR: 0.9,
+  PRICE_CORRELATED: 0.8,
+  CO_MENTIONED: 0.6,
+};
+
+// Correlations at or below the floor carry no peer information (broad
+// market beta alone produces ~0.3); the ceiling maps to full strength
+const CORRELATION_FLOOR = 0.3;
+const CORRELATION_CEILING = 0.8;
+const MIN_CO_MENTIONS = 2;
+const CO_MENTION_SATURATION = 10;
+
+// Ties go to the more specific source
+const SOURCE_PRIORITY: PeerSource[] = ['NAMED_COMPETITOR', 'PRICE_CORRELATED', 'CO_MENTIONED'];
+
+const COMPETITION_HEADING =
+  /(?:^|\n)[ \t]*(?:competition|competitive (?:landscape|environment|conditions|position))[ \t]*:?[ \t]*\n/i;
+const NEXT_HEADING =
+  /\n[ \t]*(?:item[ \t]+1a\b|item[ \t]+2\b|employees|human capital|intellectual property|patents|government regulation|regulation|seasonality|research and development|available information|properties|backlog|environmental matters)[^\n]{0,60}\n/i;
+const MAX_SECTION_LENGTH = 15_000;
+
+/**
+ * Pearson correlation of daily returns. Closes are paired by UTC date and
+ * a return is only taken between two dates present in both series.
+ */
+export function returnCorrelation(
+  a: ClosePoint[],
+  b: ClosePoint[],
+): { correlation: number; observations: number } | null {
+  const bByDate = new Map(b.map((p) => [dateKey(p.timestamp), p.close]));
+  const common = a
+    .map((p) => ({ date: dateKey(p.timestamp), a: p.close, b: bByDate.get(dateKey(p.timestamp)) }))
+    .filter((p): p is { date: string; a: number; b: number } => p.b !== undefined)
+    .sort((x, y) => x.date.localeCompare(y.date));
+
+  const ra: number[] = [];
+  const rb: number[] = [];
+  for (let i = 1; i < common.length; i++) {
+    const prev = common[i - 1];
+    const curr = common[i];
+    if (prev.date === curr.date || prev.a <= 0 || prev.b <= 0) continue;
+    ra.push(curr.a / prev.a - 1);
+    rb.push(curr.b / prev.b - 1);
+  }
+
+  const n = ra.length;
+  if (n < 3) return null;
+
+  const meanA = ra.reduce((sum, v) => sum + v, 0) / n;
+  const meanB = rb.reduce((sum, v) => sum + v, 0) / n;
+  let sab = 0;
+  let saa = 0;
+  let sbb = 0;
+  for (let i = 0; i < n; i++) {
+    sab += (ra[i] - meanA) * (rb[i] - meanB);
+    saa += (ra[i] - meanA) ** 2;
+    sbb += (rb[i] - meanB) ** 2;
+  }
+
+  if (saa === 0 || sbb === 0) return null;
+  return { correlation: sab / Math.sqrt(saa * sbb), observations: n };
+}
+
+/**
+ * The "Competition" part of a 10-K business section, or null when the
+ * filing has no such heading
+ */
+export function extractCompetitionSection(fullText: string): string | null {
+  const heading = COMPETITION_HEADING.exec(fullText);
+  if (!heading) return null;
+
+  const start = heading.index + heading[0].length;
+  const rest = fullText.slice(start, start + MAX_SECTION_LENGTH);
+  const end = NEXT_HEADING.exec(rest);
+  const section = (end ? rest.slice(0, end.index) : rest).trim();
+
+  return section.length > 0 ? section : null;
+}
+
+/**
+ * Combine per-source evidence into one calibrated strength.
+ *
+ * Each source maps to a 0-1 score scaled by its reliability; the scores
+ * combine as a noisy-OR, so agreeing sources reinforce each other without
+ * exceeding 1. The relationship type is the source contributing most.
+ * Returns null when no source clears its minimum.
+ */
+export function scorePeer(evidence: PeerEvidence, minObservations: number): PeerScore | null {
+  const contributions = new Map<PeerSource, { score: number; reason: string }>();
+
+  if (
+    evidence.correlation !== undefined &&
+    (evidence.correlationObservations ?? 0) >= minObservations &&
+    evidence.correlation > CORRELATION_FLOOR
+  ) {
+    const score = Math.min(
+      (evidence.correlation - CORRELATION_FLOOR) / (CORRELATION_CEILING - CORRELATION_FLOOR),
+      1,
+    );
+    contributions.set('PRICE_CORRELATED', {
+      score,
+      reason: `daily return correlation ${evidence.correlation.toFixed(2)} over ${evidence.correlationObservations} days`,
+    });
+  }
+
+  if (evidence.namedConfidence !== undefined && evidence.namedConfidence > 0) {
+    contributions.set('NAMED_COMPETITOR', {
+      score: evidence.namedConfidence,
+      reason: 'named in 10-K Competition section',
+    });
+  }
+
+  if ((evidence.coMentions ?? 0) >= MIN_CO_MENTIONS) {
+    const coMentions = evidence.coMentions as number;
+    contributions.set('CO_MENTIONED', {
+      score: Math.min(coMentions / CO_MENTION_SATURATION, 1),
+      reason: `${coMentions} shared news articles`,
+    });
+  }
+
+  if (contributions.size === 0) return null;
+
+  let missProbability = 1;
+  let best: PeerSource | null = null;
+  let bestWeighted = 0;
+  for (const source of SOURCE_PRIORITY) {
+    const contribution = contributions.get(source);
+    if (!contribution) continue;
+
+    const weighted = contribution.score * SOURCE_RELIABILITY[source];
+    missProbability *= 1 - weighted;
+    if (weighted > bestWeighted) {
+      best = source;
+      bestWeighted = weighted;
+    }
+  }
+
+  if (!best) return null;
+
+  return {
+    relationshipType: best,
+    strength: Math.round((1 - missProbability) * 100) / 100,
+    rationale: SOURCE_PRIORITY.filter((s) => contributions.has(s))
+      .map((s) => contributions.get(s)!.reason)
+      .join('; '),
+  };
+}
+
+function dateKey(timestamp: Date): string {
+  return timestamp.toISOString().slice(0, 10);
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { parseNPortHoldings, liquidityBucketFromFairValueLevel } from '../nport-holdings';
+
+const EQUITY = `
+<invstOrSec>
+  <name>Apple Inc</name>
+  <lei>HWUPKR0MPOU8FGXBT394</lei>
+  <title>Apple Inc</title>
+  <cusip>037833100</cusip>
+  <identifiers>
+    <isin value="US0378331005"/>
+    <ticker value="aapl"/>
+  </identifiers>
+  <balance>1000</balance>
+  <units>NS</units>
+  <curCd>USD</curCd>
+  <valUSD>190000.00</valUSD>
+  <pctVal>6.5</pctVal>
+  <payoffProfile>Long</payoffProfile>
+  <assetCat>EC</assetCat>
+  <issuerCat>CORP</issuerCat>
+  <invCountry>US</invCountry>
+  <isRestrictedSec>N</isRestrictedSec>
+  <fairValLevel>1</fairValLevel>
+</invstOrSec>`;
+
+const PRIVATE_LOAN = `
+<invstOrSec>
+  <name>Acme Holdings LLC</name>
+  <lei>N/A</lei>
+  <title>Term Loan B</title>
+  <cusip>000000000</cusip>
+  <identifiers>
+    <other otherDesc="Internal" value="LN-42"/>
+  </identifiers>
+  <balance>500000</balance>
+  <units>PA</units>
+  <valUSD>480000</valUSD>
+  <pctVal>0.8</pctVal>
+  <assetConditional assetCat="OTHER" desc="Bank loan"/>
+  <issuerConditional issuerCat="OTHER" desc="Private company"/>
+  <invCountry>US</invCountry>
+  <fairValLevel>3</fairValLevel>
+</invstOrSec>`;
+
+const NO_VALUE = `
+<invstOrSec>
+  <name>Pending Settlement</name>
+  <balance>10</balance>
+</invstOrSec>`;
+
+describe('parseNPortHoldings', () => {
+  it('parses identity, size and classification of each holding', () => {
+    const [holding] = parseNPortHoldings(`<invstOrSecs>${EQUITY}</invstOrSecs>`);
+
+    expect(holding.name).toBe('Apple Inc');
+    expect(holding.lei).toBe('HWUPKR0MPOU8FGXBT394');
+    expect(holding.cusip).toBe('037833100');
+    expect(holding.isin).toBe('US0378331005');
+    expect(holding.ticker).toBe('AAPL');
+    expect(holding.shares.toNumber()).toBe(1000);
+    expect(holding.units).toBe('NS');
+    expect(holding.value.toNumber()).toBe(190000);
+    expect(holding.price.toNumber()).toBe(190);
+    expect(holding.percentOfNav).toBe(6.5);
+    expect(holding.assetCategory).toBe('EC');
+    expect(holding.issuerCategory).toBe('CORP');
+    expect(holding.country).toBe('US');
+    expect(holding.fairValueLevel).toBe(1);
+    expect(holding.liquidityBucket).toBe('HIGHLY_LIQUID');
+  });
+
+  it('drops placeholder identifiers and reads conditional categories', () => {
+    const [holding] = parseNPortHoldings(PRIVATE_LOAN);
+
+    expect(holding.lei).toBeUndefined();
+    expect(holding.cusip).toBeUndefined();
+    expect(holding.isin).toBeUndefined();
+    expect(holding.ticker).toBeUndefined();
+    expect(holding.assetCategory).toBe('OTHER');
+    expect(holding.issuerCategory).toBe('OTHER');
+    expect(holding.liquidityBucket).toBe('ILLIQUID');
+  });
+
+  it('keeps filing order and skips holdings without a USD value', () => {
+    const holdings = parseNPortHoldings(EQUITY + NO_VALUE + PRIVATE_LOAN);
+
+    expect(holdings.map((h) => h.name)).toEqual(['Apple Inc', 'Acme Holdings LLC']);
+  });
+
+  it('does not cap the number of holdings', () => {
+    const holdings = parseNPortHoldings(EQUITY.repeat(250));
+
+    expect(holdings).toHaveLength(250);
+  });
+});
+
+describe('liquidityBucketFromFairValueLevel', () => {
+  it('maps fair value levels to buckets', () => {
+    expect(liquidityBucketFromFairValueLevel(1)).toBe('HIGHLY_LIQUID');
+    expect(liquidityBucketFromFairValueLevel(2)).toBe('MODERATELY_LIQUID');
+    expect(liquidityBucketFromFairValueLevel(3)).toBe('ILLIQUID');
+    expect(liquidityBucketFromFairValueLevel(null)).toBeNull();
+  });
+});
@@ -3,7 +3,15 @@ import { FilingRecord, FilingStatus } from '../../types/edgar.types.js';
 import { FilingRepository } from '../../adapters/database/repositories/filing.repository.js';
 import { EtfMetricsRepository } from '../../adapters/database/repositories/etf-metrics.repository.js';
 import { EtfApDetailRepository } from '../../adapters/database/repositories/etf-ap-detail.repository.js';
-import { CreateEtfMetricsInput, CreateEtfApDetailInput, NPortHolding } from '../../types/etf.types.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import {
+  CreateEtfMetricsInput,
+  CreateEtfApDetailInput,
+  CreateEtfHoldingInput,
+  NPortHolding,
+} from '../../types/etf.types.js';
+import { IdentifierType } from '../../types/instrument.types.js';
+import { parseNPortHoldings } from './nport-holdings.js';
 import { getLogger } from '../../utils/logger.js';
 import { PrismaClient } from '@prisma/client';
 import { getPrismaClient } from '../../adapters/database/client.js';
@@ -15,6 +23,7 @@ export class EtfMetricsExtractionService {
   private filingRepo: FilingRepository;
   private etfMetricsRepo: EtfMetricsRepository;
   private etfApRepo: EtfApDetailRepository;
+  private instrumentRepo: InstrumentRepository;
   private logger;
 
   constructor(prisma?: PrismaClient) {
@@ -22,6 +31,7 @@ export class EtfMetricsExtractionService {
     this.filingRepo = new FilingRepository();
     this.etfMetricsRepo = new EtfMetricsRepository(client);
     this.etfApRepo = new EtfApDetailRepository(client);
+    this.instrumentRepo = new InstrumentRepository();
     this.logger = getLogger().child({ service: 'EtfMetricsExtraction' });
   }
 
@@ -33,7 +43,7 @@ export class EtfMetricsExtractionService {
     instrumentId: string
   ): Promise<CreateEtfMetricsInput | null> {
     try {
-      const content = await this.filingRepo.getContent(filing.id);
+      const content = await this.filingRepo.findContentByFilingId(filing.id);
       if (!content || !content.sections) {
         this.logger.warn({ filingId: filing.id }, 'No sections found in N-CEN filing');
         return null;
@@ -84,7 +94,7 @@ export class EtfMetricsExtractionService {
     instrumentId: string
   ): Promise<CreateEtfMetricsInput | null> {
     try {
-      const content = await this.filingRepo.getContent(filing.id);
+      const content = await this.filingRepo.findContentByFilingId(filing.id);
       if (!content) {
         this.logger.warn({ filingId: filing.id }, 'No content found in N-PORT filing');
         return null;
@@ -112,6 +122,56 @@ export class EtfMetricsExtractionService {
     }
   }
 
+  /**
+   * Extract the full holdings list from N-PORT filing, with each holding
+   * resolved to its underlying instrument where an identifier matches
+   */
+  async extractHoldingsFromNPORT(
+    filing: FilingRecord,
+    instrumentId: string
+  ): Promise<CreateEtfHoldingInput[]> {
+    try {
+      const content = await this.filingRepo.findContentByFilingId(filing.id);
+      if (!content) {
+        return [];
+      }
+
+      const holdings = parseNPortHoldings(content.fullText);
+      if (holdings.length === 0) {
+        return [];
+      }
+
+      const underlyingIds = await this.resolveUnderlyingInstruments(holdings);
+      const asOfDate = filing.reportDate || filing.filingDate;
+
+      return holdings.map((holding, index) => ({
+        instrumentId,
+        filingId: filing.id,
+        asOfDate,
+        position: index,
+        issuerName: holding.name,
+        title: holding.title ?? null,
+        lei: holding.lei ?? null,
+        cusip: holding.cusip ?? null,
+        isin: holding.isin ?? null,
+        ticker: holding.ticker ?? null,
+        balance: holding.shares.isZero() ? null : holding.shares.toString(),
+        units: holding.units ?? null,
+        valueUsd: holding.value.toString(),
+        pctOfNav: holding.percentOfNav ?? null,
+        assetCategory: holding.assetCategory ?? null,
+        issuerCategory: holding.issuerCategory ?? null,
+        country: holding.country ?? null,
+        fairValueLevel: holding.fairValueLevel ?? null,
+        liquidityBucket: holding.liquidityBucket ?? null,
+        underlyingInstrumentId: underlyingIds[index],
+      }));
+    } catch (error) {
+      this.logger.error({ filingId: filing.id, error }, 'Failed to extract N-PORT holdings');
+      return [];
+    }
+  }
+
   /**
    * Extract authorized participant list from N-CEN filing
    */
@@ -120,7 +180,7 @@ export class EtfMetricsExtractionService {
     instrumentId: string
   ): Promise<CreateEtfApDetailInput[]> {
     try {
-      const content = await this.filingRepo.getContent(filing.id);
+      const content = await this.filingRepo.findContentByFilingId(filing.id);
       if (!content || !content.sections) {
         return [];
       }
@@ -184,7 +244,7 @@ export class EtfMetricsExtractionService {
       }
 
       // Try to calculate from holdings XML if available
-      const holdings = this.parseNPortHoldings(fullText);
+      const holdings = parseNPortHoldings(fullText);
       if (holdings.length > 0) {
         return this.calculateNavFromHoldings(holdings);
       }
@@ -210,61 +270,34 @@ export class EtfMetricsExtractionService {
   }
 
   /**
-   * Parse N-PORT holdings from XML
-   */
-  private parseNPortHoldings(fullText: string): NPortHolding[] {
-    const holdings: NPortHolding[] = [];
-
-    // Simple XML parsing - look for invstOrSec elements
-    const holdingPattern = /<invstOrSec>[\s\S]*?<\/invstOrSec>/gi;
-    const holdingMatches = fullText.match(holdingPattern);
-
-    if (!holdingMatches) return holdings;
-
-    for (const holdingXml of holdingMatches.slice(0, 100)) { // Limit to first 100
-      const holding = this.parseHoldingXml(holdingXml);
-      if (holding) {
-        holdings.push(holding);
-      }
-    }
-
-    return holdings;
-  }
-
-  /**
-   * Parse a single holding XML element
-   */
-  private parseHoldingXml(xml: string): NPortHolding | null {
-    try {
-      const name = this.extractXmlTag(xml, 'name') || 'Unknown';
-      const cusip = this.extractXmlTag(xml, 'cusip');
-      const shares = this.extractXmlTag(xml, 'balance');
-      const price = this.extractXmlTag(xml, 'curCd'); // This might need adjustment
-      const value = this.extractXmlTag(xml, 'valUSD');
-
-      if (value) {
-        return {
-          name,
-          cusip: cusip || undefined,
-          shares: shares ? new Decimal(shares) : new Decimal(0),
-          price: price ? new Decimal(price) : new Decimal(0),
-          value: new Decimal(value),
-        };
-      }
-
-      return null;
-    } catch (error) {
-      return null;
-    }
-  }
-
-  /**
-   * Extract XML tag value
+   * Match holdings to instruments by CUSIP, then ISIN, then ticker
+   * (identifier first, falling back to an unambiguous symbol)
    */
-  private extractXmlTag(xml: string, tagName: string): string | null {
-    const pattern = new RegExp(`<${tagName}>([^<]+)<\/${tagName}>`, 'i');
-    const match = xml.match(pattern);
-    return match ? match[1].trim() : null;
+  private async resolveUnderlyingInstruments(holdings: NPortHolding[]): Promise<(string | null)[]> {
+    const distinct = (values: (string | undefined)[]): string[] =>
+      [...new Set(values.filter((v): v is string => !!v))];
+
+    const tickers = distinct(holdings.map((h) => h.ticker));
+    const [byCusip, byIsin, byTicker, bySymbol] = await Promise.all([
+      this.instrumentRepo.findIdsByIdentifierValues(
+        IdentifierType.CUSIP,
+        distinct(holdings.map((h) => h.cusip))
+      ),
+      this.instrumentRepo.findIdsByIdentifierValues(
+        IdentifierType.ISIN,
+        distinct(holdings.map((h) => h.isin))
+      ),
+      this.instrumentRepo.findIdsByIdentifierValues(IdentifierType.TICKER, tickers),
+      this.instrumentRepo.findIdsByUniqueSymbols(tickers),
+    ]);
+
+    return holdings.map(
+      (h) =>
+        (h.cusip && byCusip.get(h.cusip)) ||
+        (h.isin && byIsin.get(h.isin)) ||
+        (h.ticker && (byTicker.get(h.ticker) || bySymbol.get(h.ticker))) ||
+        null
+    );
   }
 
   /**
@@ -0,0 +1,113 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { LiquidityBucket, NPortHolding } from '../../types/etf.types.js';
+
+/**
+ * Pure N-PORT portfolio parsing.
+ *
+ * Each `<invstOrSec>` element of an N-PORT-P filing describes one position.
+ * Per-holding liquidity classifications (Item C.7) are non-public, so the
+ * liquidity bucket is derived from the ASC 820 fair value level instead:
+ * level 1 (quoted prices) → highly liquid, level 2 (observable inputs) →
+ * moderately liquid, level 3 (unobservable inputs) → illiquid.
+ */
+
+const HOLDING_PATTERN = /<invstOrSec>[\s\S]*?<\/invstOrSec>/gi;
+
+// Placeholder values filers use when an identifier doesn't exist
+const MISSING_VALUES = new Set(['N/A', 'NA', 'NONE', '000000000']);
+
+/**
+ * Parse every holding of an N-PORT filing, in filing order
+ */
+export function parseNPortHoldings(fullText: string): NPortHolding[] {
+  const holdings: NPortHolding[] = [];
+
+  for (const xml of fullText.match(HOLDING_PATTERN) ?? []) {
+    const holding = parseHoldingXml(xml);
+    if (holding) {
+      holdings.push(holding);
+    }
+  }
+
+  return holdings;
+}
+
+/**
+ * Parse a single `<invstOrSec>` element; null when it carries no USD value
+ */
+export function parseHoldingXml(xml: string): NPortHolding | null {
+  const value = parseNumber(extractTag(xml, 'valUSD'));
+  if (value === null) return null;
+
+  const balance = parseNumber(extractTag(xml, 'balance'));
+  const percentOfNav = parseNumber(extractTag(xml, 'pctVal'));
+  const fairValueLevel = parseNumber(extractTag(xml, 'fairValLevel'));
+
+  const shares = new Decimal(balance ?? 0);
+  const valueDecimal = new Decimal(value);
+
+  return {
+    name: extractTag(xml, 'name') ?? 'Unknown',
+    title: extractTag(xml, 'title') ?? undefined,
+    lei: extractTag(xml, 'lei') ?? undefined,
+    cusip: extractTag(xml, 'cusip') ?? undefined,
+    isin: extractAttribute(xml, 'isin', 'value') ?? undefined,
+    ticker: extractAttribute(xml, 'ticker', 'value')?.toUpperCase() ?? undefined,
+    shares,
+    units: extractTag(xml, 'units') ?? undefined,
+    price: shares.isZero() ? new Decimal(0) : valueDecimal.dividedBy(shares),
+    value: valueDecimal,
+    percentOfNav: percentOfNav ?? undefined,
+    assetCategory:
+      extractTag(xml, 'assetCat') ??
+      extractAttribute(xml, 'assetConditional', 'assetCat') ??
+      undefined,
+    issuerCategory:
+      extractTag(xml, 'issuerCat') ??
+      extractAttribute(xml, 'issuerConditional', 'issuerCat') ??
+      undefined,
+    country: extractTag(xml, 'invCountry') ?? undefined,
+    fairValueLevel: fairValueLevel ?? undefined,
+    liquidityBucket: liquidityBucketFromFairValueLevel(fairValueLevel) ?? undefined,
+  };
+}
+
+/**
+ * Liquidity proxy from the fair value hierarchy level
+ */
+export function liquidityBucketFromFairValueLevel(
+  level: number | null | undefined,
+): LiquidityBucket | null {
+  switch (level) {
+    case 1:
+      return 'HIGHLY_LIQUID';
+    case 2:
+      return 'MODERATELY_LIQUID';
+    case 3:
+      return 'ILLIQUID';
+    default:
+      return null;
+  }
+}
+
+function extractTag(xml: string, tagName: string): string | null {
+  const match = xml.match(new RegExp(`<${tagName}>([^<]+)</${tagName}>`, 'i'));
+  return clean(match?.[1]);
+}
+
+function extractAttribute(xml: string, tagName: string, attribute: string): string | null {
+  const match = xml.match(new RegExp(`<${tagName}\\b[^>]*\\b${attribute}="([^"]*)"`, 'i'));
+  return clean(match?.[1]);
+}
+
+function clean(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed || MISSING_VALUES.has(trimmed.toUpperCase())) return null;
+  return trimmed;
+}
+
+function parseNumber(value: string | null): number | null {
+  if (value === null) return null;
+  const parsed = Number(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
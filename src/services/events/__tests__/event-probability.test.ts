@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { checkImpliedProbabilities } from '../event-probability';
+import type { EventOutcome } from '../../../types/event.types';
+
+function outcome(
+  yesPrice: string | null,
+  active = true,
+): Pick<EventOutcome, 'yesPrice' | 'active' | 'resolution'> {
+  return { yesPrice, active, resolution: null };
+}
+
+describe('checkImpliedProbabilities', () => {
+  it('should accept an exclusive event whose prices sum to about 1', () => {
+    const check = checkImpliedProbabilities(
+      [outcome('0.52'), outcome('0.45'), outcome('0.04')],
+      true,
+      0.05,
+    );
+
+    expect(check.status).toBe('CONSISTENT');
+    expect(check.sum).toBe(1.01);
+    expect(check.deviation).toBe(0.01);
+  });
+
+  it('should flag sums outside the tolerance', () => {
+    expect(checkImpliedProbabilities([outcome('0.7'), outcome('0.4')], true, 0.05).status).toBe(
+      'OVERPRICED',
+    );
+    expect(checkImpliedProbabilities([outcome('0.5'), outcome('0.3')], true, 0.05).status).toBe(
+      'UNDERPRICED',
+    );
+  });
+
+  it('should ignore inactive outcomes and report missing prices as incomplete', () => {
+    expect(
+      checkImpliedProbabilities([outcome('0.6'), outcome('0.4'), outcome('0.3', false)], true, 0.05)
+        .status,
+    ).toBe('CONSISTENT');
+    expect(checkImpliedProbabilities([outcome('0.6'), outcome(null)], true, 0.05)).toMatchObject({
+      status: 'INCOMPLETE',
+      pricedOutcomes: 1,
+      liveOutcomes: 2,
+    });
+  });
+
+  it('should not judge the sum of non-exclusive events', () => {
+    const check = checkImpliedProbabilities([outcome('0.8'), outcome('0.7')], false, 0.05);
+
+    expect(check.status).toBe('NOT_EXCLUSIVE');
+    expect(check.sum).toBe(1.5);
+    expect(check.deviation).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import type { EventOutcome, ProbabilityCheck } from '../../types/event.types.js';
+
+/**
+ * Check that the YES prices of a mutually exclusive event sum to about 1.
+ *
+ * Resolved and inactive outcomes are left out: a resolved loser trades at
+ * 0 and a resolved winner closes the whole event. Events whose markets can
+ * co-occur (negRisk off) are reported as NOT_EXCLUSIVE with the raw sum.
+ */
+export function checkImpliedProbabilities(
+  outcomes: Pick<EventOutcome, 'yesPrice' | 'active' | 'resolution'>[],
+  mutuallyExclusive: boolean,
+  tolerance: number,
+): ProbabilityCheck {
+  const live = outcomes.filter((o) => o.active && !o.resolution);
+  const prices = live
+    .map((o) => (o.yesPrice !== null ? parseFloat(o.yesPrice) : NaN))
+    .filter((p) => Number.isFinite(p));
+
+  const sum = prices.length > 0 ? round4(prices.reduce((total, p) => total + p, 0)) : null;
+  const base = {
+    sum,
+    deviation: null,
+    pricedOutcomes: prices.length,
+    liveOutcomes: live.length,
+  };
+
+  if (!mutuallyExclusive) {
+    return { ...base, status: 'NOT_EXCLUSIVE' };
+  }
+  if (sum === null || prices.length < live.length) {
+    return { ...base, status: 'INCOMPLETE' };
+  }
+
+  const deviation = round4(sum - 1);
+  const status =
+    deviation > tolerance ? 'OVERPRICED' : deviation < -tolerance ? 'UNDERPRICED' : 'CONSISTENT';
+  return { ...base, deviation, status };
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
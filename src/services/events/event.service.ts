@@ -0,0 +1,136 @@
+import { EventRepository } from '../../adapters/database/repositories/event.repository.js';
+import { MarketRepository } from '../../adapters/database/repositories/market.repository.js';
+import { MarketDataService } from '../market-data/market-data.service.js';
+import { CandleAggregator } from '../market-data/candle-aggregator.service.js';
+import { checkImpliedProbabilities } from './event-probability.js';
+import { getEnvironment } from '../../config/environment.js';
+import type {
+  EventCandles,
+  EventDetail,
+  EventOrderbook,
+  EventOutcome,
+  EventRecord,
+} from '../../types/event.types.js';
+import type { MarketRecord } from '../../types/market.types.js';
+import type { CandleInterval, MarketOutcome } from '../../types/market-data.types.js';
+import { NotFoundError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+
+/**
+ * Multi-outcome Polymarket events: sibling binary markets grouped under one
+ * Gamma event, served together with a sanity check on implied probabilities
+ */
+export class EventService {
+  private eventRepo: EventRepository;
+  private marketRepo: MarketRepository;
+  private marketDataService: MarketDataService;
+  private candleAggregator: CandleAggregator;
+  private logger;
+
+  constructor() {
+    this.eventRepo = new EventRepository();
+    this.marketRepo = new MarketRepository();
+    this.marketDataService = new MarketDataService();
+    this.candleAggregator = new CandleAggregator();
+    this.logger = getLogger();
+  }
+
+  /**
+   * Event with every outcome's prices
+   *
+   * @param idOrSlug - Gamma event ID or slug
+   * @throws NotFoundError when the event isn't stored
+   */
+  async getEvent(idOrSlug: string): Promise<EventDetail> {
+    const { event, markets } = await this.loadEvent(idOrSlug);
+    const outcomes = markets.map((m) => this.toOutcome(m));
+
+    return {
+      ...event,
+      outcomes,
+      probability: checkImpliedProbabilities(
+        outcomes,
+        event.negRisk,
+        getEnvironment().EVENT_PROBABILITY_TOLERANCE,
+      ),
+    };
+  }
+
+  /**
+   * Candles for one outcome side of every market in the event
+   */
+  async getEventCandles(
+    idOrSlug: string,
+    params: {
+      outcome: MarketOutcome;
+      interval: CandleInterval;
+      from: Date;
+      to: Date;
+      limit?: number;
+    },
+  ): Promise<{ event: EventRecord; markets: EventCandles[] }> {
+    const { event, markets } = await this.loadEvent(idOrSlug);
+
+    const series: EventCandles[] = [];
+    for (const market of markets) {
+      const candles = await this.candleAggregator.getCandles({ marketId: market.id, ...params });
+      series.push({ marketId: market.id, title: this.outcomeTitle(market), candles });
+    }
+
+    return { event, markets: series };
+  }
+
+  /**
+   * Orderbooks for one outcome side of every market in the event. Markets
+   * whose book can't be loaded (e.g. closed on the CLOB) come back null.
+   */
+  async getEventOrderbooks(
+    idOrSlug: string,
+    outcome: string,
+  ): Promise<{ event: EventRecord; markets: EventOrderbook[] }> {
+    const { event, markets } = await this.loadEvent(idOrSlug);
+
+    const books: EventOrderbook[] = [];
+    for (const market of markets) {
+      let orderbook = null;
+      if (market.active) {
+        try {
+          orderbook = await this.marketDataService.getOrderbook(market.id, outcome);
+        } catch (error) {
+          this.logger.warn({ error, marketId: market.id }, 'Failed to load event orderbook');
+        }
+      }
+      books.push({ marketId: market.id, title: this.outcomeTitle(market), orderbook });
+    }
+
+    return { event, markets: books };
+  }
+
+  private async loadEvent(
+    idOrSlug: string,
+  ): Promise<{ event: EventRecord; markets: MarketRecord[] }> {
+    const event =
+      (await this.eventRepo.findById(idOrSlug)) ?? (await this.eventRepo.findBySlug(idOrSlug));
+    if (!event) {
+      throw new NotFoundError('Event', idOrSlug);
+    }
+
+    const markets = await this.marketRepo.findByEvent(event.id);
+    return { event, markets };
+  }
+
+  private toOutcome(market: MarketRecord): EventOutcome {
+    return {
+      marketId: market.id,
+      title: this.outcomeTitle(market),
+      yesPrice: market.yesPrice,
+      noPrice: market.noPrice,
+      active: market.active,
+      resolution: market.resolution ?? null,
+    };
+  }
+
+  private outcomeTitle(market: MarketRecord): string {
+    return market.groupItemTitle || market.question;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { FactorType } from '../../../types/document.types';
+import { alignDailyReturns, assessDisagreement, regress } from '../factor-beta';
+
+function series(
+  start: string,
+  closes: number[],
+  skip: number[] = [],
+): { timestamp: Date; close: number }[] {
+  const startMs = Date.parse(start);
+  return closes
+    .map((close, i) => ({ timestamp: new Date(startMs + i * 86_400_000), close }))
+    .filter((_, i) => !skip.includes(i));
+}
+
+describe('alignDailyReturns', () => {
+  it('should only pair returns between dates both series share', () => {
+    const instrument = series('2024-01-01T21:00:00Z', [100, 110, 121, 133.1]);
+    // Factor is missing the second day
+    const factor = series('2024-01-01T05:00:00Z', [10, 99, 12, 12.6], [1]);
+
+    const aligned = alignDailyReturns(instrument, factor, FactorType.COMMODITY_GOLD);
+
+    expect(aligned.instrument.map((r) => +r.toFixed(4))).toEqual([0.21, 0.1]);
+    expect(aligned.factor.map((r) => +r.toFixed(4))).toEqual([0.2, 0.05]);
+  });
+
+  it('should difference rate factors instead of taking returns', () => {
+    const instrument = series('2024-01-01', [100, 101]);
+    const factor = series('2024-01-01', [4.2, 4.35]);
+
+    const aligned = alignDailyReturns(instrument, factor, FactorType.INTEREST_RATE_10Y);
+
+    expect(aligned.factor[0]).toBeCloseTo(0.15, 10);
+  });
+});
+
+describe('regress', () => {
+  it('should recover an exact linear relationship', () => {
+    const x = [0.01, -0.02, 0.015, 0.005, -0.01];
+    const y = x.map((v) => 0.001 + 1.5 * v);
+
+    const fit = regress(x, y);
+
+    expect(fit?.beta).toBeCloseTo(1.5, 10);
+    expect(fit?.rSquared).toBeCloseTo(1, 10);
+    expect(fit?.stdError).toBeCloseTo(0, 6);
+    expect(fit?.observations).toBe(5);
+  });
+
+  it('should return null without enough points or variance', () => {
+    expect(regress([0.01, 0.02], [0.01, 0.02])).toBeNull();
+    expect(regress([0.01, 0.01, 0.01], [0.01, 0.02, 0.03])).toBeNull();
+  });
+});
+
+describe('assessDisagreement', () => {
+  it('should flag significant betas with the wrong sign', () => {
+    expect(assessDisagreement('NEGATIVE', { beta: 0.8, stdError: 0.2 })).toBe('SIGN_MISMATCH');
+    expect(assessDisagreement('POSITIVE', { beta: 0.8, stdError: 0.2 })).toBeNull();
+  });
+
+  it('should flag exposures the data cannot detect', () => {
+    expect(assessDisagreement('POSITIVE', { beta: 0.1, stdError: 0.2 })).toBe('NOT_SIGNIFICANT');
+    // Between the thresholds: weak but not contradicted
+    expect(assessDisagreement('NEGATIVE', { beta: 0.3, stdError: 0.2 })).toBeNull();
+  });
+});
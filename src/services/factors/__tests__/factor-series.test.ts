@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { FactorType } from '../../../types/document.types';
+import { mergeCandleSources, parseFactorCsv, windowChange } from '../factor-series';
+import { ValidationError } from '../../../utils/errors';
+
+describe('parseFactorCsv', () => {
+  it('should parse OHLCV exports', () => {
+    const csv = [
+      'Date,Open,High,Low,Close,Volume',
+      '2024-01-03,2050.1,2061.5,2040.0,2042.3,1000',
+      '2024-01-02,2062.0,2070.0,2055.2,2058.9,"1,200"',
+    ].join('\n');
+
+    const candles = parseFactorCsv(csv, FactorType.COMMODITY_GOLD, '1d');
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({
+      factorType: FactorType.COMMODITY_GOLD,
+      interval: '1d',
+      open: '2062',
+      close: '2058.9',
+      volume: '1200',
+      source: 'csv',
+    });
+    expect(candles[0].timestamp.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+    expect(candles[0].endTime.toISOString()).toBe('2024-01-03T00:00:00.000Z');
+  });
+
+  it('should accept FRED two-column exports and skip missing values', () => {
+    const csv = 'observation_date,DGS10\r\n2024-01-01,.\r\n2024-01-02,3.95\r\n';
+
+    const candles = parseFactorCsv(csv, FactorType.INTEREST_RATE_10Y, '1d');
+
+    expect(candles).toHaveLength(1);
+    expect(candles[0]).toMatchObject({ open: '3.95', high: '3.95', low: '3.95', close: '3.95' });
+  });
+
+  it('should reject files without usable columns or rows', () => {
+    expect(() => parseFactorCsv('foo,bar\n1,2', FactorType.VOLATILITY_VIX, '1d')).toThrow(
+      ValidationError,
+    );
+    expect(() =>
+      parseFactorCsv('date,close\n2024-01-01,.', FactorType.VOLATILITY_VIX, '1d'),
+    ).toThrow('no rows');
+    expect(() =>
+      parseFactorCsv('date,close\n2024-01-01,abc', FactorType.VOLATILITY_VIX, '1d'),
+    ).toThrow('Line 2');
+  });
+});
+
+describe('mergeCandleSources', () => {
+  it('should prefer CSV rows at the same timestamp', () => {
+    const t1 = new Date('2024-01-02T00:00:00Z');
+    const t2 = new Date('2024-01-03T00:00:00Z');
+
+    const merged = mergeCandleSources([
+      { timestamp: t2, source: 'tradingview', close: '3' },
+      { timestamp: t1, source: 'tradingview', close: '1' },
+      { timestamp: t1, source: 'csv', close: '2' },
+    ]);
+
+    expect(merged.map((c) => c.close)).toEqual(['2', '3']);
+  });
+});
+
+describe('windowChange', () => {
+  const hour = 3_600_000;
+  const start = Date.parse('2024-01-02T00:00:00Z');
+  const series = [100, 101, 99, 104].map((close, i) => ({
+    timestamp: new Date(start + i * 12 * hour),
+    close,
+  }));
+
+  it('should measure from the last close at or before the window start', () => {
+    const change = windowChange(series, 24 * hour);
+
+    expect(change?.previous.close).toBe(101);
+    expect(change?.latest.close).toBe(104);
+    expect(change?.changePct).toBeCloseTo(2.97, 2);
+  });
+
+  it('should return null when history is shorter than the window', () => {
+    expect(windowChange(series, 48 * hour)).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { CandleRepository } from '../../adapters/database/repositories/candle.repository.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import { alignDailyReturns, assessDisagreement, regress } from './factor-beta.js';
+import { mergeCandleSources, SeriesPoint } from './factor-series.js';
+import { getEnvironment } from '../../config/environment.js';
+import { FactorType } from '../../types/document.types.js';
+import type { FactorBetaEstimate, FactorBetaRunResult } from '../../types/factor.types.js';
+import { getLogger } from '../../utils/logger.js';
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Realized factor betas
+ *
+ * Regresses each instrument's daily candle returns on the daily returns of
+ * every factor it is mapped to, over a trailing window that rolls forward
+ * with each run. Estimates are stored alongside the keyword-mapped exposure
+ * (which stays as the prior) and flagged when the two disagree.
+ */
+export class FactorBetaService {
+  private candleRepo: CandleRepository;
+  private instrumentRepo: InstrumentRepository;
+  private logger;
+
+  constructor() {
+    this.candleRepo = new CandleRepository();
+    this.instrumentRepo = new InstrumentRepository();
+    this.logger = getLogger();
+  }
+
+  /**
+   * Re-estimate betas for every instrument with factor exposures
+   */
+  async estimateAll(): Promise<FactorBetaRunResult> {
+    const result: FactorBetaRunResult = {
+      instrumentsProcessed: 0,
+      exposuresEstimated: 0,
+      exposuresFlagged: 0,
+      skippedInsufficientData: 0,
+      errors: 0,
+    };
+
+    const to = new Date();
+    const factorSeries = new Map<FactorType, Promise<SeriesPoint[]>>();
+    const instrumentIds = await this.instrumentRepo.findInstrumentIdsWithFactorExposures();
+
+    for (const instrumentId of instrumentIds) {
+      try {
+        const counts = await this.estimateInstrument(instrumentId, to, factorSeries);
+        result.instrumentsProcessed++;
+        result.exposuresEstimated += counts.estimated;
+        result.exposuresFlagged += counts.flagged;
+        result.skippedInsufficientData += counts.skipped;
+      } catch (error) {
+        result.errors++;
+        this.logger.error({ error, instrumentId }, 'Failed to estimate factor betas');
+      }
+    }
+
+    this.logger.info(result, 'Factor beta estimation complete');
+    return result;
+  }
+
+  /**
+   * Estimate and store betas for one instrument's mapped factors
+   */
+  async estimateInstrument(
+    instrumentId: string,
+    to: Date = new Date(),
+    factorSeries: Map<FactorType, Promise<SeriesPoint[]>> = new Map(),
+  ): Promise<{ estimated: number; flagged: number; skipped: number }> {
+    const env = getEnvironment();
+    const from = new Date(to.getTime() - env.FACTOR_BETA_WINDOW_DAYS * DAY_MS);
+    const counts = { estimated: 0, flagged: 0, skipped: 0 };
+
+    const exposures = await this.instrumentRepo.findFactorExposures(instrumentId);
+    const candles = await this.candleRepo.findByInstrument({
+      instrumentId,
+      interval: '1d',
+      from,
+      to,
+    });
+    const instrumentSeries = toSeries(candles);
+
+    for (const exposure of exposures) {
+      // Share factor series across instruments within a run
+      if (!factorSeries.has(exposure.factorType)) {
+        factorSeries.set(
+          exposure.factorType,
+          this.candleRepo
+            .findByFactor(exposure.factorType, '1d', from, to)
+            .then((factorCandles) => toSeries(factorCandles)),
+        );
+      }
+
+      const aligned = alignDailyReturns(
+        instrumentSeries,
+        await factorSeries.get(exposure.factorType)!,
+        exposure.factorType,
+      );
+      const fit = regress(aligned.factor, aligned.instrument);
+
+      if (!fit || fit.observations < env.FACTOR_BETA_MIN_OBSERVATIONS) {
+        counts.skipped++;
+        continue;
+      }
+
+      const estimate: FactorBetaEstimate = {
+        ...fit,
+        windowDays: env.FACTOR_BETA_WINDOW_DAYS,
+        estimatedAt: to,
+        disagreement: assessDisagreement(exposure.direction, fit),
+      };
+
+      await this.instrumentRepo.updateFactorExposureBeta(
+        instrumentId,
+        exposure.factorType,
+        estimate,
+      );
+
+      counts.estimated++;
+      if (estimate.disagreement) {
+        counts.flagged++;
+        this.logger.debug(
+          {
+            instrumentId,
+            factorType: exposure.factorType,
+            direction: exposure.direction,
+            beta: estimate.beta,
+            stdError: estimate.stdError,
+            disagreement: estimate.disagreement,
+          },
+          'Realized beta disagrees with mapped exposure',
+        );
+      }
+    }
+
+    return counts;
+  }
+}
+
+function toSeries(candles: { timestamp: Date; source: string; close: unknown }[]): SeriesPoint[] {
+  return mergeCandleSources(candles).map((c) => ({
+    timestamp: c.timestamp,
+    close: Number(c.close),
+  }));
+}
@@ -0,0 +1,118 @@
+import { FactorType } from '../../types/document.types.js';
+import type { FactorBetaDisagreement, FactorBetaEstimate } from '../../types/factor.types.js';
+import type { SeriesPoint } from './factor-series.js';
+
+/**
+ * Rate factors are regressed on daily changes (in points); everything else
+ * on simple percentage returns
+ */
+const DIFFERENCED_FACTORS = new Set<FactorType>([
+  FactorType.INTEREST_RATE_10Y,
+  FactorType.INTEREST_RATE_FED_FUNDS,
+]);
+
+/** |t| at or above this counts as a significant beta */
+const SIGNIFICANT_T_STAT = 2;
+/** |t| below this means the data show no exposure at all */
+const NO_EFFECT_T_STAT = 1;
+
+export interface AlignedReturns {
+  instrument: number[];
+  factor: number[];
+}
+
+/**
+ * Pair daily instrument returns with same-day factor returns.
+ *
+ * Closes are keyed by UTC date; a return is only taken between two dates
+ * on which both series have a close, so holidays on either side drop out
+ * instead of producing multi-day returns paired with one-day ones.
+ */
+export function alignDailyReturns(
+  instrumentSeries: SeriesPoint[],
+  factorSeries: SeriesPoint[],
+  factorType: FactorType,
+): AlignedReturns {
+  const factorByDate = new Map(factorSeries.map((p) => [dateKey(p.timestamp), p.close]));
+  const differenced = DIFFERENCED_FACTORS.has(factorType);
+
+  const common = instrumentSeries
+    .map((p) => ({ date: dateKey(p.timestamp), instrument: p.close }))
+    .filter((p) => factorByDate.has(p.date))
+    .map((p) => ({ ...p, factor: factorByDate.get(p.date) as number }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const aligned: AlignedReturns = { instrument: [], factor: [] };
+  for (let i = 1; i < common.length; i++) {
+    const prev = common[i - 1];
+    const curr = common[i];
+    if (prev.date === curr.date || prev.instrument <= 0) continue;
+    if (!differenced && prev.factor <= 0) continue;
+
+    aligned.instrument.push(curr.instrument / prev.instrument - 1);
+    aligned.factor.push(differenced ? curr.factor - prev.factor : curr.factor / prev.factor - 1);
+  }
+
+  return aligned;
+}
+
+/**
+ * Ordinary least squares of y on x with an intercept.
+ * Null when there are fewer than three points or x has no variance.
+ */
+export function regress(
+  x: number[],
+  y: number[],
+): Pick<FactorBetaEstimate, 'beta' | 'rSquared' | 'stdError' | 'observations'> | null {
+  const n = Math.min(x.length, y.length);
+  if (n < 3) return null;
+
+  const meanX = x.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+  const meanY = y.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+  }
+
+  if (sxx === 0) return null;
+
+  const beta = sxy / sxx;
+  const residualSs = Math.max(syy - beta * sxy, 0);
+  const rSquared = syy === 0 ? 0 : 1 - residualSs / syy;
+  const stdError = Math.sqrt(residualSs / (n - 2) / sxx);
+
+  return { beta, rSquared, stdError, observations: n };
+}
+
+/**
+ * Compare a realized beta with the keyword mapping's direction.
+ *
+ * SIGN_MISMATCH: the beta is significant and points the other way.
+ * NOT_SIGNIFICANT: the data show no measurable exposure at all.
+ */
+export function assessDisagreement(
+  direction: string,
+  estimate: Pick<FactorBetaEstimate, 'beta' | 'stdError'>,
+): FactorBetaDisagreement | null {
+  const tStat = estimate.stdError > 0 ? estimate.beta / estimate.stdError : Infinity;
+  const expectedSign = direction === 'NEGATIVE' ? -1 : 1;
+
+  if (Math.abs(tStat) >= SIGNIFICANT_T_STAT && Math.sign(estimate.beta) !== expectedSign) {
+    return 'SIGN_MISMATCH';
+  }
+  if (Math.abs(tStat) < NO_EFFECT_T_STAT) {
+    return 'NOT_SIGNIFICANT';
+  }
+  return null;
+}
+
+function dateKey(timestamp: Date): string {
+  return timestamp.toISOString().slice(0, 10);
+}
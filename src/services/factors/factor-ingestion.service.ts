@@ -0,0 +1,98 @@
+import { CandleRepository } from '../../adapters/database/repositories/candle.repository.js';
+import { createFactorPriceSource, FactorPriceSource } from './factor-price-source.js';
+import { parseFactorCsv } from './factor-series.js';
+import { getEnvironment } from '../../config/environment.js';
+import { FactorType } from '../../types/document.types.js';
+import { FACTOR_INTERVALS, FactorInterval, FactorSyncResult } from '../../types/factor.types.js';
+import { getLogger } from '../../utils/logger.js';
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Factor price ingestion
+ *
+ * Pulls hourly and daily candles for every factor from the configured
+ * source, resuming from the latest stored candle, and accepts CSV history
+ * imports. Hourly candles are pruned after the retention window; daily
+ * candles are kept for long change windows.
+ */
+export class FactorIngestionService {
+  private candleRepo: CandleRepository;
+  private source: FactorPriceSource;
+  private logger;
+
+  constructor(source: FactorPriceSource = createFactorPriceSource()) {
+    this.candleRepo = new CandleRepository();
+    this.source = source;
+    this.logger = getLogger();
+  }
+
+  /**
+   * Fetch new candles for every factor and interval, then prune old
+   * intraday candles
+   */
+  async syncAll(): Promise<FactorSyncResult> {
+    const env = getEnvironment();
+    const result: FactorSyncResult = {
+      source: this.source.name,
+      candlesStored: 0,
+      intradayPruned: 0,
+      errors: 0,
+    };
+
+    const now = new Date();
+    const backfillStart = new Date(now.getTime() - env.FACTOR_PRICE_BACKFILL_DAYS * DAY_MS);
+
+    for (const factorType of Object.values(FactorType)) {
+      for (const interval of FACTOR_INTERVALS) {
+        try {
+          const latest = await this.candleRepo.getLatestFactorTimestamp(
+            factorType,
+            interval,
+            this.source.name,
+          );
+          // Re-fetch the latest candle so a partial bar gets its final close
+          const from = latest ?? backfillStart;
+
+          const candles = await this.source.fetchCandles(factorType, interval, from, now);
+          result.candlesStored += await this.candleRepo.upsertFactorCandles(candles);
+        } catch (error) {
+          result.errors++;
+          this.logger.error({ error, factorType, interval }, 'Failed to sync factor candles');
+        }
+      }
+    }
+
+    result.intradayPruned = await this.pruneIntraday(now);
+
+    this.logger.info(result, 'Factor price sync complete');
+    return result;
+  }
+
+  /**
+   * Import a CSV price history for one factor. Imported rows take
+   * precedence over fetched candles at the same timestamp.
+   */
+  async importCsv(
+    factorType: FactorType,
+    interval: FactorInterval,
+    csv: string,
+  ): Promise<{ imported: number; from: Date; to: Date }> {
+    const candles = parseFactorCsv(csv, factorType, interval);
+    const imported = await this.candleRepo.upsertFactorCandles(candles);
+
+    this.logger.info({ factorType, interval, imported }, 'Imported factor candles from CSV');
+
+    return {
+      imported,
+      from: candles[0].timestamp,
+      to: candles[candles.length - 1].timestamp,
+    };
+  }
+
+  private async pruneIntraday(now: Date): Promise<number> {
+    const env = getEnvironment();
+    const cutoff = new Date(now.getTime() - env.FACTOR_INTRADAY_RETENTION_DAYS * DAY_MS);
+    return this.candleRepo.deleteFactorCandlesOlderThan('1h', cutoff);
+  }
+}
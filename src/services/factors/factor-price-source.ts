@@ -0,0 +1,95 @@
+import { TradingViewDataService } from '../market-data/tradingview-data.service.js';
+import { getEnvironment } from '../../config/environment.js';
+import { FactorType } from '../../types/document.types.js';
+import type { FactorCandle, FactorInterval } from '../../types/factor.types.js';
+
+/**
+ * Where factor candles come from. Implementations return whatever history
+ * they can for the range; the ingestion service handles storage.
+ */
+export interface FactorPriceSource {
+  readonly name: string;
+  fetchCandles(
+    factorType: FactorType,
+    interval: FactorInterval,
+    from: Date,
+    to: Date,
+  ): Promise<FactorCandle[]>;
+}
+
+/**
+ * TradingView symbols for each factor (continuous futures or TVC indices)
+ */
+export const FACTOR_TRADINGVIEW_SYMBOLS: Record<FactorType, string> = {
+  [FactorType.COMMODITY_GOLD]: 'TVC:GOLD',
+  [FactorType.COMMODITY_SILVER]: 'TVC:SILVER',
+  [FactorType.COMMODITY_OIL]: 'TVC:USOIL',
+  [FactorType.COMMODITY_NATURAL_GAS]: 'NYMEX:NG1!',
+  [FactorType.COMMODITY_COPPER]: 'COMEX:HG1!',
+  [FactorType.INTEREST_RATE_10Y]: 'TVC:US10Y',
+  [FactorType.INTEREST_RATE_FED_FUNDS]: 'FRED:DFF',
+  [FactorType.INDEX_SPX]: 'SP:SPX',
+  [FactorType.INDEX_NASDAQ]: 'NASDAQ:IXIC',
+  [FactorType.CURRENCY_USD]: 'TVC:DXY',
+  [FactorType.VOLATILITY_VIX]: 'TVC:VIX',
+};
+
+export class TradingViewFactorSource implements FactorPriceSource {
+  readonly name = 'tradingview';
+  private tradingViewData: TradingViewDataService;
+
+  constructor() {
+    this.tradingViewData = new TradingViewDataService();
+  }
+
+  async fetchCandles(
+    factorType: FactorType,
+    interval: FactorInterval,
+    from: Date,
+    to: Date,
+  ): Promise<FactorCandle[]> {
+    const tvSymbol = FACTOR_TRADINGVIEW_SYMBOLS[factorType];
+    // The factor type stands in for the instrument ID, which is dropped below
+    const candles = await this.tradingViewData.fetchHistoricalCandles(
+      factorType,
+      tvSymbol,
+      interval,
+      from,
+      to,
+      tvSymbol,
+    );
+
+    return candles
+      .filter((c) => c.timestamp >= from && c.timestamp <= to)
+      .map((c) => ({
+        factorType,
+        interval,
+        open: c.open,
+        high: c.high,
+        low: c.low,
+        close: c.close,
+        volume: c.volume,
+        timestamp: c.timestamp,
+        endTime: c.endTime,
+        source: 'tradingview' as const,
+      }));
+  }
+}
+
+/**
+ * No remote source: history only arrives through CSV imports
+ */
+export class CsvOnlyFactorSource implements FactorPriceSource {
+  readonly name = 'csv';
+
+  async fetchCandles(): Promise<FactorCandle[]> {
+    return [];
+  }
+}
+
+export function createFactorPriceSource(): FactorPriceSource {
+  const env = getEnvironment();
+  return env.FACTOR_PRICE_SOURCE === 'csv'
+    ? new CsvOnlyFactorSource()
+    : new TradingViewFactorSource();
+}
@@ -0,0 +1,190 @@
+import type { FactorType } from '../../types/document.types.js';
+import type { FactorCandle, FactorInterval } from '../../types/factor.types.js';
+import { ValidationError } from '../../utils/errors.js';
+
+export const FACTOR_INTERVAL_MS: Record<FactorInterval, number> = {
+  '1h': 3_600_000,
+  '1d': 86_400_000,
+};
+
+const DATE_COLUMNS = ['date', 'time', 'timestamp', 'datetime', 'observation_date'];
+const CLOSE_COLUMNS = ['close', 'adj close', 'adj_close', 'price', 'value'];
+// FRED exports use "." for missing observations
+const MISSING_VALUES = new Set(['', '.', 'null', 'nan', 'n/a']);
+
+export interface SeriesPoint {
+  timestamp: Date;
+  close: number;
+}
+
+/**
+ * Parse a CSV price history into factor candles.
+ *
+ * Needs a date column and a close column (close / adj close / price /
+ * value, or the only other column as in FRED exports). Open, high and low
+ * default to the close. Dates may be ISO strings or epoch seconds/ms.
+ * Rows with a missing close are skipped; anything else unparseable throws,
+ * as does a file with no usable rows.
+ */
+export function parseFactorCsv(
+  text: string,
+  factorType: FactorType,
+  interval: FactorInterval,
+): FactorCandle[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length < 2) {
+    throw new ValidationError('CSV must have a header row and at least one data row');
+  }
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const dateIndex = header.findIndex((h) => DATE_COLUMNS.includes(h));
+  if (dateIndex === -1) {
+    throw new ValidationError(`CSV needs a date column (${DATE_COLUMNS.join(', ')})`);
+  }
+
+  let closeIndex = header.findIndex((h) => CLOSE_COLUMNS.includes(h));
+  if (closeIndex === -1 && header.length === 2) {
+    closeIndex = 1 - dateIndex;
+  }
+  if (closeIndex === -1) {
+    throw new ValidationError(`CSV needs a close column (${CLOSE_COLUMNS.join(', ')})`);
+  }
+
+  const column = (name: string): number => header.indexOf(name);
+  const [openIndex, highIndex, lowIndex, volumeIndex] = ['open', 'high', 'low', 'volume'].map(
+    column,
+  );
+
+  const byTimestamp = new Map<number, FactorCandle>();
+  for (let i = 1; i < lines.length; i++) {
+    const cells = splitCsvLine(lines[i]);
+    const lineNumber = i + 1;
+
+    const close = parseNumber(cells[closeIndex], lineNumber, 'close');
+    if (close === null) continue;
+
+    const timestamp = parseDate(cells[dateIndex], lineNumber);
+    const price = (index: number, name: string): number =>
+      index === -1 ? close : (parseNumber(cells[index], lineNumber, name) ?? close);
+
+    byTimestamp.set(timestamp.getTime(), {
+      factorType,
+      interval,
+      open: price(openIndex, 'open').toString(),
+      high: price(highIndex, 'high').toString(),
+      low: price(lowIndex, 'low').toString(),
+      close: close.toString(),
+      volume:
+        volumeIndex === -1
+          ? '0'
+          : (parseNumber(cells[volumeIndex], lineNumber, 'volume') ?? 0).toString(),
+      timestamp,
+      endTime: new Date(timestamp.getTime() + FACTOR_INTERVAL_MS[interval]),
+      source: 'csv',
+    });
+  }
+
+  if (byTimestamp.size === 0) {
+    throw new ValidationError('CSV has no rows with a close price');
+  }
+
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * One candle per timestamp, ascending. Imported CSV rows win over fetched
+ * ones so manual corrections stick.
+ */
+export function mergeCandleSources<T extends { timestamp: Date; source: string }>(
+  candles: T[],
+): T[] {
+  const byTimestamp = new Map<number, T>();
+  for (const candle of candles) {
+    const key = candle.timestamp.getTime();
+    const existing = byTimestamp.get(key);
+    if (!existing || (candle.source === 'csv' && existing.source !== 'csv')) {
+      byTimestamp.set(key, candle);
+    }
+  }
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Change from the last close at or before (latest − window) to the latest
+ * close. Null when the series doesn't reach back far enough.
+ */
+export function windowChange(
+  series: SeriesPoint[],
+  windowMs: number,
+): { previous: SeriesPoint; latest: SeriesPoint; changePct: number } | null {
+  if (series.length < 2) return null;
+
+  const latest = series[series.length - 1];
+  const target = latest.timestamp.getTime() - windowMs;
+
+  let previous: SeriesPoint | null = null;
+  for (let i = series.length - 2; i >= 0; i--) {
+    if (series[i].timestamp.getTime() <= target) {
+      previous = series[i];
+      break;
+    }
+  }
+
+  if (!previous || previous.close <= 0) return null;
+
+  return {
+    previous,
+    latest,
+    changePct: ((latest.close - previous.close) / previous.close) * 100,
+  };
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseNumber(value: string | undefined, lineNumber: number, name: string): number | null {
+  const raw = (value ?? '').replace(/,/g, '').trim();
+  if (MISSING_VALUES.has(raw.toLowerCase())) return null;
+
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) {
+    throw new ValidationError(`Line ${lineNumber}: invalid ${name} "${value}"`);
+  }
+  return parsed;
+}
+
+function parseDate(value: string | undefined, lineNumber: number): Date {
+  const raw = (value ?? '').trim();
+  const numeric = Number(raw);
+  const date =
+    raw !== '' && Number.isFinite(numeric)
+      ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+      : new Date(raw);
+
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Line ${lineNumber}: invalid date "${value}"`);
+  }
+  return date;
+}
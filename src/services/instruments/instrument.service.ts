@@ -1,8 +1,30 @@
 import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
 import { SignalRepository } from '../../adapters/database/repositories/signal.repository.js';
 import { FilingRepository } from '../../adapters/database/repositories/filing.repository.js';
+import { OwnershipRepository } from '../../adapters/database/repositories/ownership.repository.js';
+import { EtfHoldingRepository } from '../../adapters/database/repositories/etf-holding.repository.js';
+import { getPrismaClient } from '../../adapters/database/client.js';
 import { InstrumentFilters, InstrumentRecord } from '../../types/instrument.types.js';
-import { SignalRecord } from '../../types/edgar.types.js';
+import {
+  InsiderTransactionDirection,
+  InsiderTransactionRecord,
+  OwnershipStakeRecord,
+  SignalRecord,
+} from '../../types/edgar.types.js';
+import { EtfHolderRecord, EtfHoldingsView } from '../../types/etf.types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface InsiderActivity {
+  transactions: InsiderTransactionRecord[];
+  stakes: OwnershipStakeRecord[];
+  summary: {
+    buyCount: number;
+    sellCount: number;
+    distinctInsiders: number;
+    netShares: number; // Bought minus sold
+  };
+}
 
 /**
  * Instrument Service
@@ -12,11 +34,15 @@ export class InstrumentService {
   private instrumentRepo: InstrumentRepository;
   private signalRepo: SignalRepository;
   private filingRepo: FilingRepository;
+  private ownershipRepo: OwnershipRepository;
+  private etfHoldingRepo: EtfHoldingRepository;
 
   constructor() {
     this.instrumentRepo = new InstrumentRepository();
     this.signalRepo = new SignalRepository();
     this.filingRepo = new FilingRepository();
+    this.ownershipRepo = new OwnershipRepository();
+    this.etfHoldingRepo = new EtfHoldingRepository(getPrismaClient());
   }
 
   /**
@@ -50,6 +76,79 @@ export class InstrumentService {
     return this.signalRepo.findByInstrument(instrumentId);
   }
 
+  /**
+   * Get insider transactions (Forms 4/5) and 13D/13G stakes for an instrument
+   */
+  async getInsiderActivity(
+    instrumentId: string,
+    days: number,
+    direction?: InsiderTransactionDirection,
+  ): Promise<InsiderActivity> {
+    const since = new Date(Date.now() - days * DAY_MS);
+
+    const [transactions, stakes] = await Promise.all([
+      this.ownershipRepo.findInsiderTransactions(instrumentId, { since, direction }),
+      this.ownershipRepo.findStakes(instrumentId, since),
+    ]);
+
+    const buys = transactions.filter((tx) => tx.direction === InsiderTransactionDirection.BUY);
+    const sells = transactions.filter((tx) => tx.direction === InsiderTransactionDirection.SELL);
+    const sum = (txs: InsiderTransactionRecord[]): number => txs.reduce((total, tx) => total + tx.shares, 0);
+
+    return {
+      transactions,
+      stakes,
+      summary: {
+        buyCount: buys.length,
+        sellCount: sells.length,
+        distinctInsiders: new Set(transactions.map((tx) => tx.ownerCik)).size,
+        netShares: sum(buys) - sum(sells),
+      },
+    };
+  }
+
+  /**
+   * Latest N-PORT holdings of an ETF, largest position first, with the
+   * whole portfolio's value split by liquidity bucket
+   */
+  async getEtfHoldings(
+    instrumentId: string,
+    options: { limit?: number; offset?: number },
+  ): Promise<EtfHoldingsView | null> {
+    const latest = await this.etfHoldingRepo.findLatestByEtf(instrumentId, options);
+    if (!latest) return null;
+
+    const buckets = await this.etfHoldingRepo.summarizeLiquidity(latest.filingId);
+    const totalValue = buckets.reduce((sum, b) => sum + Number(b.valueUsd), 0);
+
+    return {
+      filingId: latest.filingId,
+      asOfDate: latest.asOfDate,
+      total: latest.total,
+      totalValueUsd: totalValue.toFixed(2),
+      liquidity: buckets.map((b) => ({
+        liquidityBucket: b.liquidityBucket,
+        valueUsd: b.valueUsd,
+        pctOfPortfolio: totalValue > 0 ? (Number(b.valueUsd) / totalValue) * 100 : 0,
+        holdingCount: b.count,
+      })),
+      holdings: latest.holdings,
+    };
+  }
+
+  /**
+   * ETFs that hold an instrument in their latest N-PORT
+   */
+  async getEtfHolders(instrumentId: string): Promise<{
+    holders: EtfHolderRecord[];
+    totalValueUsd: string;
+  }> {
+    const holders = await this.etfHoldingRepo.findHoldersOf(instrumentId);
+    const totalValue = holders.reduce((sum, h) => sum + Number(h.valueUsd), 0);
+
+    return { holders, totalValueUsd: totalValue.toFixed(2) };
+  }
+
   /**
    * Get filings for an instrument (via CIK lookup)
    */
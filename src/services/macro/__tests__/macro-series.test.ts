@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSurpriseSignals,
+  buildUpcomingSignals,
+  exposureSign,
+  parseCalendarEntries,
+  standardizeSurprise,
+} from '../macro-series';
+import { FactorType } from '../../../types/document.types';
+import type { MacroExposure, MacroSurprise } from '../../../types/macro.types';
+
+const NOW = new Date('2025-06-10T12:00:00Z');
+
+function exposures(list: MacroExposure[]): Map<FactorType, MacroExposure[]> {
+  const map = new Map<FactorType, MacroExposure[]>();
+  for (const exposure of list) {
+    map.set(exposure.factorType, [...(map.get(exposure.factorType) ?? []), exposure]);
+  }
+  return map;
+}
+
+function cpi(actual: number, consensus: number, z: number): MacroSurprise {
+  return {
+    releaseId: 'r1',
+    series: 'CPI_YOY',
+    period: '2025-05',
+    releaseAt: NOW,
+    actual,
+    consensus,
+    surprise: actual - consensus,
+    standardizedSurprise: z,
+  };
+}
+
+describe('standardizeSurprise', () => {
+  it('should use the default scale until enough history exists', () => {
+    expect(standardizeSurprise(0.2, [0.1, -0.1], 0.1)).toBeCloseTo(2);
+  });
+
+  it('should use the RMS of past surprises once history is available', () => {
+    const history = [0.2, -0.2, 0.2, -0.2, 0.2, -0.2, 0.2, -0.2];
+    expect(standardizeSurprise(0.4, history, 0.1)).toBeCloseTo(2);
+  });
+});
+
+describe('exposureSign', () => {
+  it('should follow the mapped direction unless the realized beta contradicts it', () => {
+    expect(exposureSign({ direction: 'NEGATIVE', beta: null, betaDisagreement: null })).toBe(-1);
+    expect(
+      exposureSign({ direction: 'NEGATIVE', beta: '0.8', betaDisagreement: 'SIGN_MISMATCH' }),
+    ).toBe(1);
+    expect(
+      exposureSign({ direction: 'POSITIVE', beta: '0.01', betaDisagreement: 'NOT_SIGNIFICANT' }),
+    ).toBe(1);
+  });
+});
+
+describe('buildSurpriseSignals', () => {
+  it('should fan a hot CPI print out as bearish for rate-sensitive instruments', () => {
+    const signals = buildSurpriseSignals(
+      [cpi(3.4, 3.1, 3)],
+      exposures([
+        {
+          instrumentId: 'reit',
+          factorType: FactorType.INTEREST_RATE_10Y,
+          sign: -1,
+          magnitude: 0.8,
+        },
+        { instrumentId: 'bank', factorType: FactorType.INTEREST_RATE_10Y, sign: 1, magnitude: 0.5 },
+        { instrumentId: 'miner', factorType: FactorType.COMMODITY_GOLD, sign: 1, magnitude: 0.9 },
+      ]),
+      1,
+    );
+
+    const reit = signals.find((s) => s.instrumentId === 'reit');
+    const bank = signals.find((s) => s.instrumentId === 'bank');
+
+    expect(signals).toHaveLength(2);
+    expect(reit?.signalType).toBe('MACRO_SURPRISE');
+    expect(reit?.score).toBe(80);
+    expect(reit?.severity).toBe('HIGH');
+    expect(reit?.reason).toContain('bearish');
+    expect(bank?.reason).toContain('bullish');
+    expect(reit?.expiresAt.toISOString()).toBe('2025-06-13T12:00:00.000Z');
+  });
+
+  it('should keep the strongest combination per instrument and skip small surprises', () => {
+    const exposed = exposures([
+      { instrumentId: 'bank', factorType: FactorType.INTEREST_RATE_10Y, sign: 1, magnitude: 0.4 },
+      {
+        instrumentId: 'bank',
+        factorType: FactorType.INTEREST_RATE_FED_FUNDS,
+        sign: 1,
+        magnitude: 0.7,
+      },
+    ]);
+
+    const signals = buildSurpriseSignals([cpi(3.2, 3.1, 1.5)], exposed, 1);
+    expect(signals).toHaveLength(1);
+    expect(signals[0].factorType).toBe(FactorType.INTEREST_RATE_FED_FUNDS);
+
+    expect(buildSurpriseSignals([cpi(3.15, 3.1, 0.5)], exposed, 1)).toHaveLength(0);
+  });
+});
+
+describe('buildUpcomingSignals', () => {
+  it('should keep one upcoming release per instrument and expire at release time', () => {
+    const exposed = exposures([
+      {
+        instrumentId: 'bank',
+        factorType: FactorType.INTEREST_RATE_FED_FUNDS,
+        sign: 1,
+        magnitude: 0.6,
+      },
+    ]);
+    const releases = [
+      {
+        id: 'fomc',
+        series: 'FED_FUNDS_RATE' as const,
+        period: '2025-06',
+        releaseAt: new Date('2025-06-11T18:00:00Z'),
+        importance: 'HIGH' as const,
+        consensus: '4.375',
+      },
+      {
+        id: 'cpi',
+        series: 'CPI_YOY' as const,
+        period: '2025-05',
+        releaseAt: new Date('2025-06-12T12:30:00Z'),
+        importance: 'HIGH' as const,
+        consensus: null,
+      },
+      {
+        id: 'past',
+        series: 'CPI_YOY' as const,
+        period: '2025-04',
+        releaseAt: new Date('2025-06-01T12:30:00Z'),
+        importance: 'HIGH' as const,
+        consensus: null,
+      },
+    ];
+
+    const signals = buildUpcomingSignals(releases, exposed, NOW);
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0].releaseId).toBe('fomc');
+    expect(signals[0].severity).toBe('LOW');
+    expect(signals[0].score).toBe(42);
+    expect(signals[0].expiresAt).toEqual(releases[0].releaseAt);
+    expect(signals[0].reason).toContain('consensus 4.375%');
+  });
+});
+
+describe('parseCalendarEntries', () => {
+  it('should default importance from the series and keep omitted values undefined', () => {
+    const [entry] = parseCalendarEntries(
+      [
+        {
+          series: 'INDUSTRIAL_PRODUCTION_MOM',
+          period: '2025-05',
+          releaseAt: '2025-06-17T13:15:00Z',
+          consensus: 0.1,
+        },
+      ],
+      'feed',
+    );
+
+    expect(entry.importance).toBe('MEDIUM');
+    expect(entry.consensus).toBe(0.1);
+    expect(entry.actual).toBeUndefined();
+    expect(entry.releaseAt.toISOString()).toBe('2025-06-17T13:15:00.000Z');
+  });
+
+  it('should reject unknown series and non-numeric values', () => {
+    expect(() =>
+      parseCalendarEntries([{ series: 'GDP', period: 'Q1', releaseAt: '2025-06-01' }], 'manual'),
+    ).toThrow('unknown series');
+    expect(() =>
+      parseCalendarEntries(
+        [
+          {
+            series: 'CPI_YOY',
+            period: '2025-05',
+            releaseAt: '2025-06-11T12:30:00Z',
+            actual: '3.1',
+          },
+        ],
+        'manual',
+      ),
+    ).toThrow('actual must be a number');
+  });
+});
@@ -0,0 +1,307 @@
+import { MacroReleaseRepository } from '../../adapters/database/repositories/macro-release.repository.js';
+import { DocumentRepository } from '../../adapters/database/repositories/document.repository.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import { SignalRepository } from '../../adapters/database/repositories/signal.repository.js';
+import { MacroCalendarFeedAdapter } from '../../adapters/macro/macro-calendar-feed.adapter.js';
+import {
+  buildSurpriseSignals,
+  buildUpcomingSignals,
+  exposureSign,
+  MACRO_SERIES_CONFIG,
+  parseCalendarEntries,
+  seriesFactors,
+  standardizeSurprise,
+} from './macro-series.js';
+import { getEnvironment } from '../../config/environment.js';
+import { DocumentType, FactorType } from '../../types/document.types.js';
+import { FilingStatus } from '../../types/edgar.types.js';
+import type {
+  MacroCalendarFilters,
+  MacroCalendarRunResult,
+  MacroExposure,
+  MacroReleaseRecord,
+  MacroSeries,
+  MacroSignalCandidate,
+  MacroSurprise,
+} from '../../types/macro.types.js';
+import { getLogger } from '../../utils/logger.js';
+
+const HOUR_MS = 3_600_000;
+
+/**
+ * Macro economic calendar
+ *
+ * Stores scheduled releases with consensus and actual values. When an
+ * actual arrives the release gets a standardized surprise, a MACRO_EVENT
+ * document with the matching fact, and MACRO_SURPRISE signals on
+ * instruments exposed to the factors the series moves. Releases inside the
+ * upcoming window raise MACRO_EVENT_UPCOMING on the same instruments.
+ */
+export class MacroCalendarService {
+  private releaseRepo: MacroReleaseRepository;
+  private documentRepo: DocumentRepository;
+  private instrumentRepo: InstrumentRepository;
+  private signalRepo: SignalRepository;
+  private feed: MacroCalendarFeedAdapter;
+  private logger;
+
+  constructor() {
+    this.releaseRepo = new MacroReleaseRepository();
+    this.documentRepo = new DocumentRepository();
+    this.instrumentRepo = new InstrumentRepository();
+    this.signalRepo = new SignalRepository();
+    this.feed = new MacroCalendarFeedAdapter();
+    this.logger = getLogger();
+  }
+
+  /**
+   * Store calendar entries (admin import)
+   *
+   * @throws ValidationError when an entry is malformed
+   */
+  async importReleases(raw: unknown, source = 'manual'): Promise<{ imported: number }> {
+    const entries = parseCalendarEntries(raw, source);
+    const imported = await this.releaseRepo.upsertMany(entries);
+
+    this.logger.info({ imported, source }, 'Imported macro calendar entries');
+    return { imported };
+  }
+
+  async getCalendar(filters: MacroCalendarFilters): Promise<MacroReleaseRecord[]> {
+    return this.releaseRepo.findMany(filters);
+  }
+
+  /**
+   * Sync the feed, process new prints and refresh upcoming-release signals
+   */
+  async runAll(now: Date = new Date()): Promise<MacroCalendarRunResult> {
+    const result: MacroCalendarRunResult = {
+      fetched: 0,
+      released: 0,
+      surpriseSignals: 0,
+      upcomingSignals: 0,
+      errors: 0,
+    };
+
+    if (this.feed.isConfigured()) {
+      try {
+        const raw = await this.feed.fetchCalendar();
+        result.fetched = (await this.importReleases(raw, 'feed')).imported;
+      } catch (error) {
+        result.errors++;
+        this.logger.error({ err: error }, 'Failed to sync macro calendar feed');
+      }
+    }
+
+    try {
+      const processed = await this.processReleased(now);
+      result.released = processed.released;
+      result.surpriseSignals = processed.signals;
+    } catch (error) {
+      result.errors++;
+      this.logger.error({ err: error }, 'Failed to process macro releases');
+    }
+
+    try {
+      result.upcomingSignals = await this.refreshUpcoming(now);
+    } catch (error) {
+      result.errors++;
+      this.logger.error({ err: error }, 'Failed to refresh upcoming macro signals');
+    }
+
+    this.logger.info(result, 'Macro calendar run complete');
+    return result;
+  }
+
+  /**
+   * Compute surprises for releases with a new actual, record them as
+   * MACRO_EVENT documents and fan out MACRO_SURPRISE signals
+   */
+  async processReleased(now: Date = new Date()): Promise<{ released: number; signals: number }> {
+    const env = getEnvironment();
+    const pending = await this.releaseRepo.findUnprocessed();
+    const surprises: MacroSurprise[] = [];
+
+    for (const release of pending) {
+      try {
+        const surprise = await this.computeSurprise(release);
+        const documentId = await this.recordRelease(release, surprise);
+
+        await this.releaseRepo.markProcessed(release.id, {
+          surprise: surprise?.surprise ?? null,
+          standardizedSurprise: surprise?.standardizedSurprise ?? null,
+          documentId,
+        });
+
+        if (surprise) surprises.push(surprise);
+      } catch (error) {
+        this.logger.error(
+          { err: error, releaseId: release.id, series: release.series },
+          'Failed to process macro release',
+        );
+      }
+    }
+
+    if (surprises.length === 0) {
+      return { released: pending.length, signals: 0 };
+    }
+
+    const exposures = await this.loadExposures(surprises.map((s) => s.series));
+    // Backfilled prints still get documents but are too old to signal on
+    const candidates = buildSurpriseSignals(surprises, exposures, env.MACRO_SURPRISE_MIN_Z).filter(
+      (c) => c.expiresAt > now,
+    );
+
+    const signals = await this.upsertSignals(candidates);
+    return { released: pending.length, signals };
+  }
+
+  /**
+   * Raise MACRO_EVENT_UPCOMING for releases inside the upcoming window
+   */
+  async refreshUpcoming(now: Date = new Date()): Promise<number> {
+    const env = getEnvironment();
+    const releases = await this.releaseRepo.findMany({
+      from: now,
+      to: new Date(now.getTime() + env.MACRO_UPCOMING_WINDOW_HOURS * HOUR_MS),
+    });
+
+    if (releases.length === 0) {
+      return 0;
+    }
+
+    const exposures = await this.loadExposures(releases.map((r) => r.series));
+    const candidates = buildUpcomingSignals(releases, exposures, now);
+    return this.upsertSignals(candidates);
+  }
+
+  private async computeSurprise(release: MacroReleaseRecord): Promise<MacroSurprise | null> {
+    if (release.actual === null || release.consensus === null) {
+      return null;
+    }
+
+    const env = getEnvironment();
+    const actual = Number(release.actual);
+    const consensus = Number(release.consensus);
+    const surprise = actual - consensus;
+    const history = await this.releaseRepo.findPastSurprises(
+      release.series,
+      release.releaseAt,
+      env.MACRO_SURPRISE_HISTORY,
+    );
+
+    return {
+      releaseId: release.id,
+      series: release.series,
+      period: release.period,
+      releaseAt: release.releaseAt,
+      actual,
+      consensus,
+      surprise,
+      standardizedSurprise: standardizeSurprise(
+        surprise,
+        history,
+        MACRO_SERIES_CONFIG[release.series].defaultScale,
+      ),
+    };
+  }
+
+  /**
+   * MACRO_EVENT document plus fact for a print. A revised print reuses the
+   * release's document and adds a new fact.
+   */
+  private async recordRelease(
+    release: MacroReleaseRecord,
+    surprise: MacroSurprise | null,
+  ): Promise<string> {
+    const config = MACRO_SERIES_CONFIG[release.series];
+    const sourceId = `macro-${release.series}-${release.releaseAt.toISOString()}`;
+    const data = {
+      series: release.series,
+      period: release.period,
+      unit: config.unit,
+      actual: Number(release.actual),
+      consensus: release.consensus !== null ? Number(release.consensus) : null,
+      previous: release.previous !== null ? Number(release.previous) : null,
+      surprise: surprise?.surprise ?? null,
+      standardizedSurprise: surprise?.standardizedSurprise ?? null,
+    };
+
+    let document = await this.documentRepo.findBySourceId(sourceId);
+    if (!document) {
+      const consensus =
+        data.consensus !== null ? ` vs ${data.consensus}${config.unit} consensus` : '';
+      document = await this.documentRepo.create({
+        documentType: DocumentType.MACRO_EVENT,
+        sourceId,
+        title: `${config.label} (${release.period}): ${data.actual}${config.unit}${consensus}`,
+        publishedAt: release.releaseAt,
+        metadata: data,
+      });
+      await this.documentRepo.updateStatus(document.id, FilingStatus.ENRICHED, { parsedAt: new Date() });
+    }
+
+    await this.documentRepo.createFact({
+      documentId: document.id,
+      factType: config.factType,
+      data,
+      confidence: 1,
+    });
+
+    return document.id;
+  }
+
+  /**
+   * Exposures to every factor the given series move, keyed by factor
+   */
+  private async loadExposures(series: MacroSeries[]): Promise<Map<FactorType, MacroExposure[]>> {
+    const env = getEnvironment();
+    const factors = new Set(series.flatMap((s) => seriesFactors(s)));
+    const byFactor = new Map<FactorType, MacroExposure[]>();
+
+    for (const factorType of factors) {
+      const exposures = await this.instrumentRepo.findFactorExposures(factorType);
+      byFactor.set(
+        factorType,
+        exposures
+          .filter((e) => Number(e.magnitude) >= env.MACRO_SIGNAL_MIN_MAGNITUDE)
+          .map((e) => ({
+            instrumentId: e.instrumentId,
+            factorType,
+            sign: exposureSign(e),
+            magnitude: Number(e.magnitude),
+          })),
+      );
+    }
+
+    return byFactor;
+  }
+
+  private async upsertSignals(candidates: MacroSignalCandidate[]): Promise<number> {
+    let created = 0;
+
+    for (const candidate of candidates) {
+      try {
+        await this.signalRepo.upsertSignal({
+          instrumentId: candidate.instrumentId,
+          signalType: candidate.signalType,
+          severity: candidate.severity,
+          score: candidate.score,
+          reason: candidate.reason,
+          // The macro release the signal was computed from
+          evidenceFacts: [candidate.releaseId],
+          computedAt: new Date(),
+          expiresAt: candidate.expiresAt,
+        });
+        created++;
+      } catch (error) {
+        this.logger.error(
+          { err: error, instrumentId: candidate.instrumentId, signalType: candidate.signalType },
+          'Failed to upsert macro signal',
+        );
+      }
+    }
+
+    return created;
+  }
+}
@@ -0,0 +1,325 @@
+import { FactorType } from '../../types/document.types.js';
+import { FactType, SignalSeverity, SignalType } from '../../types/edgar.types.js';
+import {
+  MACRO_IMPORTANCE,
+  MACRO_SERIES,
+  MacroExposure,
+  MacroImportance,
+  MacroReleaseRecord,
+  MacroSeries,
+  MacroSignalCandidate,
+  MacroSurprise,
+  UpsertMacroReleaseInput,
+} from '../../types/macro.types.js';
+import { ValidationError } from '../../utils/errors.js';
+
+interface MacroSeriesConfig {
+  label: string;
+  unit: string;
+  factType: FactType;
+  importance: MacroImportance;
+  /**
+   * Typical |actual - consensus|, used until the series has enough stored
+   * history to estimate its own scale
+   */
+  defaultScale: number;
+  /** How each factor moves when the release beats consensus */
+  factors: Partial<Record<FactorType, 1 | -1>>;
+}
+
+export const MACRO_SERIES_CONFIG: Record<MacroSeries, MacroSeriesConfig> = {
+  FED_FUNDS_RATE: {
+    label: 'Fed funds rate decision',
+    unit: '%',
+    factType: FactType.INTEREST_RATE_DECISION,
+    importance: 'HIGH',
+    defaultScale: 0.125,
+    factors: {
+      [FactorType.INTEREST_RATE_FED_FUNDS]: 1,
+      [FactorType.INTEREST_RATE_10Y]: 1,
+      [FactorType.CURRENCY_USD]: 1,
+    },
+  },
+  CPI_YOY: {
+    label: 'CPI YoY',
+    unit: '%',
+    factType: FactType.CPI_RELEASE,
+    importance: 'HIGH',
+    defaultScale: 0.1,
+    factors: {
+      [FactorType.INTEREST_RATE_10Y]: 1,
+      [FactorType.INTEREST_RATE_FED_FUNDS]: 1,
+    },
+  },
+  CORE_CPI_MOM: {
+    label: 'Core CPI MoM',
+    unit: '%',
+    factType: FactType.CPI_RELEASE,
+    importance: 'HIGH',
+    defaultScale: 0.1,
+    factors: {
+      [FactorType.INTEREST_RATE_10Y]: 1,
+      [FactorType.INTEREST_RATE_FED_FUNDS]: 1,
+    },
+  },
+  NONFARM_PAYROLLS: {
+    label: 'Nonfarm payrolls',
+    unit: 'K',
+    factType: FactType.UNEMPLOYMENT_DATA,
+    importance: 'HIGH',
+    defaultScale: 60,
+    factors: {
+      [FactorType.INTEREST_RATE_10Y]: 1,
+      [FactorType.CURRENCY_USD]: 1,
+    },
+  },
+  UNEMPLOYMENT_RATE: {
+    label: 'Unemployment rate',
+    unit: '%',
+    factType: FactType.UNEMPLOYMENT_DATA,
+    importance: 'HIGH',
+    defaultScale: 0.1,
+    factors: {
+      [FactorType.INTEREST_RATE_10Y]: -1,
+      [FactorType.CURRENCY_USD]: -1,
+    },
+  },
+  INDUSTRIAL_PRODUCTION_MOM: {
+    label: 'Industrial production MoM',
+    unit: '%',
+    factType: FactType.INDUSTRIAL_PRODUCTION,
+    importance: 'MEDIUM',
+    defaultScale: 0.3,
+    factors: {
+      [FactorType.COMMODITY_COPPER]: 1,
+      [FactorType.COMMODITY_OIL]: 1,
+    },
+  },
+};
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
+// Surprise signals stay active while the market digests the print
+const SURPRISE_TTL_MS = 3 * DAY_MS;
+// Standardized surprises at or beyond this map to full strength
+const FULL_STRENGTH_Z = 3;
+// History needed before a series' own surprise scale replaces the default
+const MIN_SCALE_HISTORY = 8;
+
+const IMPORTANCE_WEIGHT: Record<MacroImportance, number> = {
+  HIGH: 1,
+  MEDIUM: 0.6,
+  LOW: 0.3,
+};
+
+/**
+ * Factors whose exposures a series fans out to
+ */
+export function seriesFactors(series: MacroSeries): FactorType[] {
+  return Object.keys(MACRO_SERIES_CONFIG[series].factors) as FactorType[];
+}
+
+/**
+ * Surprise in units of the series' typical surprise.
+ *
+ * The scale is the root mean square of past surprises (consensus is taken
+ * as unbiased, so surprises are centred on zero); the series default is
+ * used until MIN_SCALE_HISTORY prints are stored.
+ */
+export function standardizeSurprise(
+  surprise: number,
+  pastSurprises: number[],
+  defaultScale: number,
+): number {
+  let scale = defaultScale;
+  if (pastSurprises.length >= MIN_SCALE_HISTORY) {
+    const rms = Math.sqrt(pastSurprises.reduce((sum, s) => sum + s * s, 0) / pastSurprises.length);
+    if (rms > 0) scale = rms;
+  }
+  return surprise / scale;
+}
+
+/**
+ * Which way an instrument moves with a factor. A realized beta that
+ * significantly contradicts the mapped direction wins.
+ */
+export function exposureSign(exposure: {
+  direction: string;
+  beta: string | null;
+  betaDisagreement: string | null;
+}): 1 | -1 {
+  if (exposure.betaDisagreement === 'SIGN_MISMATCH' && exposure.beta !== null) {
+    return Number(exposure.beta) < 0 ? -1 : 1;
+  }
+  return exposure.direction === 'NEGATIVE' ? -1 : 1;
+}
+
+/**
+ * MACRO_SURPRISE candidates, one per instrument: the strongest
+ * surprise-factor-exposure combination among the releases.
+ *
+ * The implied move is sign(surprise) x factor reaction x exposure sign;
+ * the score scales with |z| (full at FULL_STRENGTH_Z) and the exposure
+ * magnitude. Releases below minZ are ignored.
+ */
+export function buildSurpriseSignals(
+  surprises: MacroSurprise[],
+  exposuresByFactor: Map<FactorType, MacroExposure[]>,
+  minZ: number,
+): MacroSignalCandidate[] {
+  const best = new Map<string, MacroSignalCandidate>();
+
+  for (const release of surprises) {
+    const z = release.standardizedSurprise;
+    if (Math.abs(z) < minZ) continue;
+
+    const config = MACRO_SERIES_CONFIG[release.series];
+    const strength = Math.min(Math.abs(z) / FULL_STRENGTH_Z, 1);
+
+    for (const [factorType, reaction] of Object.entries(config.factors) as [FactorType, 1 | -1][]) {
+      for (const exposure of exposuresByFactor.get(factorType) ?? []) {
+        const score = Math.round(strength * exposure.magnitude * 100);
+        const current = best.get(exposure.instrumentId);
+        if (current && current.score >= score) continue;
+
+        const implied = Math.sign(z) * reaction * exposure.sign > 0 ? 'bullish' : 'bearish';
+        best.set(exposure.instrumentId, {
+          instrumentId: exposure.instrumentId,
+          signalType: SignalType.MACRO_SURPRISE,
+          severity:
+            score >= 70
+              ? SignalSeverity.HIGH
+              : score >= 40
+                ? SignalSeverity.MEDIUM
+                : SignalSeverity.LOW,
+          score,
+          reason:
+            `${config.label} ${formatValue(release.actual, config.unit)} vs ` +
+            `${formatValue(release.consensus, config.unit)} consensus ` +
+            `(z=${z >= 0 ? '+' : ''}${z.toFixed(1)}): ${implied} via ${factorType} exposure`,
+          releaseId: release.releaseId,
+          factorType,
+          expiresAt: new Date(release.releaseAt.getTime() + SURPRISE_TTL_MS),
+        });
+      }
+    }
+  }
+
+  return [...best.values()];
+}
+
+/**
+ * MACRO_EVENT_UPCOMING candidates, one per instrument: the most important
+ * scheduled release (weighted by exposure magnitude, and nearer releases
+ * first) within the window. Signals expire at release time.
+ */
+export function buildUpcomingSignals(
+  releases: Pick<
+    MacroReleaseRecord,
+    'id' | 'series' | 'period' | 'releaseAt' | 'importance' | 'consensus'
+  >[],
+  exposuresByFactor: Map<FactorType, MacroExposure[]>,
+  now: Date,
+): MacroSignalCandidate[] {
+  const best = new Map<string, MacroSignalCandidate>();
+
+  for (const release of releases) {
+    const hoursOut = (release.releaseAt.getTime() - now.getTime()) / HOUR_MS;
+    if (hoursOut <= 0) continue;
+
+    const config = MACRO_SERIES_CONFIG[release.series];
+    const proximity = hoursOut <= 24 ? 1 : 0.7;
+    const weight = IMPORTANCE_WEIGHT[release.importance] * proximity;
+    const consensus =
+      release.consensus !== null
+        ? `, consensus ${formatValue(Number(release.consensus), config.unit)}`
+        : '';
+
+    for (const factorType of seriesFactors(release.series)) {
+      for (const exposure of exposuresByFactor.get(factorType) ?? []) {
+        const score = Math.round(weight * exposure.magnitude * 100);
+        const current = best.get(exposure.instrumentId);
+        if (current && current.score >= score) continue;
+
+        best.set(exposure.instrumentId, {
+          instrumentId: exposure.instrumentId,
+          signalType: SignalType.MACRO_EVENT_UPCOMING,
+          severity:
+            release.importance === 'HIGH' && hoursOut <= 24
+              ? SignalSeverity.MEDIUM
+              : SignalSeverity.LOW,
+          score,
+          reason:
+            `${config.label} (${release.period}) at ${release.releaseAt.toISOString()}` +
+            `${consensus}; ${factorType} exposure`,
+          releaseId: release.id,
+          factorType,
+          expiresAt: release.releaseAt,
+        });
+      }
+    }
+  }
+
+  return [...best.values()];
+}
+
+function formatValue(value: number, unit: string): string {
+  const rounded = Number(value.toFixed(3));
+  return unit === '%' ? `${rounded}%` : `${rounded}${unit}`;
+}
+
+/**
+ * Calendar entries from an import body or feed: an array of objects with
+ * `series`, `period`, `releaseAt` and optional `importance`, `consensus`,
+ * `previous`, `actual` (numbers or null). Importance defaults to the
+ * series' configured importance.
+ *
+ * @throws ValidationError naming the first invalid entry
+ */
+export function parseCalendarEntries(raw: unknown, source: string): UpsertMacroReleaseInput[] {
+  if (!Array.isArray(raw)) {
+    throw new ValidationError('Macro calendar must be an array of releases');
+  }
+
+  return raw.map((entry, index) => {
+    const value = (entry ?? {}) as Record<string, unknown>;
+    const series = value.series as MacroSeries;
+    const releaseAt = new Date(value.releaseAt as string);
+
+    if (!MACRO_SERIES.includes(series)) {
+      throw new ValidationError(`Release ${index}: unknown series "${String(value.series)}"`);
+    }
+    if (typeof value.period !== 'string' || value.period.length === 0) {
+      throw new ValidationError(`Release ${index}: period is required`);
+    }
+    if (typeof value.releaseAt !== 'string' || Number.isNaN(releaseAt.getTime())) {
+      throw new ValidationError(`Release ${index}: releaseAt must be an ISO timestamp`);
+    }
+
+    const importance = value.importance ?? MACRO_SERIES_CONFIG[series].importance;
+    if (!MACRO_IMPORTANCE.includes(importance as MacroImportance)) {
+      throw new ValidationError(`Release ${index}: invalid importance "${String(importance)}"`);
+    }
+
+    const numeric = (field: string): number | null | undefined => {
+      const v = value[field];
+      if (v === undefined || v === null) return v as null | undefined;
+      if (typeof v !== 'number' || !Number.isFinite(v)) {
+        throw new ValidationError(`Release ${index}: ${field} must be a number or null`);
+      }
+      return v;
+    };
+
+    return {
+      series,
+      period: value.period,
+      releaseAt,
+      importance: importance as MacroImportance,
+      consensus: numeric('consensus'),
+      previous: numeric('previous'),
+      actual: numeric('actual'),
+      source,
+    };
+  });
+}
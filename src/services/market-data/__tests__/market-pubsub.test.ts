@@ -0,0 +1,251 @@
+import net from 'node:net';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { channelPatternToRegExp, InMemoryMarketDataPubSub } from '../market-pubsub.service';
+import { deserializeMarketEvent, serializeMarketEvent } from '../redis-pubsub.service';
+import {
+  encodeCommand,
+  RedisConnection,
+  RespError,
+  RespParser,
+  RespValue,
+} from '../../../adapters/redis/redis-connection';
+import type { NormalizedMarketDataMessage } from '../../../types/market-data.types';
+
+vi.mock('../../../utils/logger', () => ({
+  getLogger: (): Record<string, () => void> => ({
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+    debug: () => undefined,
+  }),
+}));
+
+const priceUpdate: NormalizedMarketDataMessage = {
+  type: 'price_update',
+  marketId: 'm1',
+  outcome: 'YES',
+  midPrice: '0.42',
+  timestamp: new Date('2026-03-01T12:00:00.000Z'),
+};
+
+describe('channel patterns', () => {
+  it('should follow Redis glob semantics', () => {
+    expect(channelPatternToRegExp('market:*:price').test('market:abc:price')).toBe(true);
+    expect(channelPatternToRegExp('market:*:price').test('market:abc:orderbook')).toBe(false);
+    expect(channelPatternToRegExp('alerts:0x?').test('alerts:0xa')).toBe(true);
+    expect(channelPatternToRegExp('alerts:0x?').test('alerts:0xab')).toBe(false);
+    expect(channelPatternToRegExp('h[ae]llo').test('hallo')).toBe(true);
+    expect(channelPatternToRegExp('h[^e]llo').test('hello')).toBe(false);
+    expect(channelPatternToRegExp('a\\*b').test('a*b')).toBe(true);
+    expect(channelPatternToRegExp('a\\*b').test('axb')).toBe(false);
+    expect(channelPatternToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('InMemoryMarketDataPubSub', () => {
+  it('should deliver to channel and pattern subscribers until unsubscribed', () => {
+    const pubsub = new InMemoryMarketDataPubSub();
+    const direct: NormalizedMarketDataMessage[] = [];
+    const matched: string[] = [];
+
+    const offDirect = pubsub.subscribe('market:m1:price', (event) => direct.push(event));
+    const offPattern = pubsub.psubscribe('market:*:price', (_event, channel) =>
+      matched.push(channel),
+    );
+
+    pubsub.publish('market:m1:price', priceUpdate);
+    pubsub.publish('market:m2:price', priceUpdate);
+    pubsub.publish('market:m1:orderbook', priceUpdate);
+    offDirect();
+    offPattern();
+    pubsub.publish('market:m1:price', priceUpdate);
+
+    expect(direct).toHaveLength(1);
+    expect(matched).toEqual(['market:m1:price', 'market:m2:price']);
+  });
+});
+
+describe('pubsub serialization', () => {
+  it('should restore Date fields but leave string timestamps alone', () => {
+    const decoded = deserializeMarketEvent(
+      serializeMarketEvent(priceUpdate),
+    ) as NormalizedMarketDataMessage;
+    expect(decoded.timestamp).toBeInstanceOf(Date);
+    expect(decoded.timestamp.toISOString()).toBe('2026-03-01T12:00:00.000Z');
+    expect(decoded.midPrice).toBe('0.42');
+
+    const alert = deserializeMarketEvent(
+      serializeMarketEvent({
+        type: 'signal_alert',
+        alertId: 'a1',
+        ruleId: 'r1',
+        ruleName: 'rule',
+        trigger: 'created',
+        signal: {} as never,
+        timestamp: '2026-03-01T12:00:00.000Z',
+      }),
+    );
+    expect(alert.timestamp).toBe('2026-03-01T12:00:00.000Z');
+  });
+
+  it('should reject unknown envelopes', () => {
+    expect(() => deserializeMarketEvent(JSON.stringify({ v: 99, event: {} }))).toThrow(
+      'Unsupported pubsub envelope version',
+    );
+  });
+});
+
+describe('RESP', () => {
+  it('should encode commands as arrays of bulk strings', () => {
+    expect(encodeCommand(['PUBLISH', 'ch', 'hé']).toString()).toBe(
+      '*3\r\n$7\r\nPUBLISH\r\n$2\r\nch\r\n$3\r\nhé\r\n',
+    );
+  });
+
+  it('should parse replies split across chunks', () => {
+    const parser = new RespParser();
+    const wire = Buffer.from(
+      '+OK\r\n:3\r\n-ERR wrong\r\n$-1\r\n*3\r\n$7\r\nmessage\r\n$2\r\nch\r\n$5\r\nhello\r\n',
+    );
+
+    const replies = [
+      ...parser.push(wire.subarray(0, 7)),
+      ...parser.push(wire.subarray(7, 40)),
+      ...parser.push(wire.subarray(40)),
+    ];
+
+    expect(replies[0]).toBe('OK');
+    expect(replies[1]).toBe(3);
+    expect(replies[2]).toBeInstanceOf(RespError);
+    expect(replies[3]).toBeNull();
+    expect(replies[4]).toEqual(['message', 'ch', 'hello']);
+  });
+});
+
+/**
+ * Just enough of a Redis server to exercise the handshake: AUTH checks the
+ * password, SELECT and PING succeed, and every command is recorded
+ */
+async function startFakeRedis(password: string): Promise<{
+  port: number;
+  commands: string[][];
+  sockets: net.Socket[];
+  close: () => Promise<void>;
+}> {
+  const commands: string[][] = [];
+  const sockets: net.Socket[] = [];
+
+  const server = net.createServer((socket) => {
+    sockets.push(socket);
+    const parser = new RespParser();
+    socket.on('data', (chunk: Buffer) => {
+      for (const command of parser.push(chunk) as string[][]) {
+        commands.push(command);
+        if (command[0] === 'AUTH') {
+          socket.write(command.at(-1) === password ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        } else if (command[0] === 'PING') {
+          socket.write('+PONG\r\n');
+        } else {
+          socket.write('+OK\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    commands,
+    sockets,
+    close: () =>
+      new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('RedisConnection', () => {
+  const cleanups: Array<() => Promise<void>> = [];
+
+  afterEach(async () => {
+    for (const cleanup of cleanups.splice(0)) {
+      await cleanup();
+    }
+  });
+
+  async function connectTo(
+    password: string,
+    urlPassword: string,
+  ): Promise<{
+    connection: RedisConnection;
+    server: Awaited<ReturnType<typeof startFakeRedis>>;
+    replies: RespValue[];
+  }> {
+    const server = await startFakeRedis(password);
+    const connection = new RedisConnection({
+      url: `redis://:${urlPassword}@127.0.0.1:${server.port}/2`,
+      name: 'test',
+      reconnectBaseMs: 10,
+      reconnectMaxMs: 20,
+    });
+    const replies: RespValue[] = [];
+    connection.onReply((reply) => replies.push(reply));
+    cleanups.push(() => connection.close(), server.close);
+
+    return { connection, server, replies };
+  }
+
+  it('should send queued commands only after AUTH and SELECT succeed', async () => {
+    const { connection, server, replies } = await connectTo('secret', 'secret');
+    let readyCount = 0;
+    connection.onReady(() => readyCount++);
+
+    connection.send(['PING']);
+    connection.connect();
+
+    await waitFor(() => replies.length === 1);
+    expect(server.commands).toEqual([['AUTH', 'secret'], ['SELECT', '2'], ['PING']]);
+    expect(replies).toEqual(['PONG']);
+    expect(readyCount).toBe(1);
+  });
+
+  it('should stay not ready and retry when AUTH is rejected', async () => {
+    const { connection, server } = await connectTo('secret', 'wrong');
+
+    connection.send(['PING']);
+    connection.connect();
+
+    await waitFor(() => server.sockets.length >= 2);
+    expect(connection.isReady()).toBe(false);
+    expect(server.commands.some((command) => command[0] === 'PING')).toBe(false);
+  });
+
+  it('should redo the handshake and flush offline commands after a reconnect', async () => {
+    const { connection, server, replies } = await connectTo('secret', 'secret');
+    connection.connect();
+    await waitFor(() => connection.isReady());
+
+    server.sockets[0].destroy();
+    await waitFor(() => !connection.isReady());
+    connection.send(['PING']);
+
+    await waitFor(() => replies.length === 1);
+    expect(server.sockets).toHaveLength(2);
+    expect(server.commands).toEqual([
+      ['AUTH', 'secret'],
+      ['SELECT', '2'],
+      ['AUTH', 'secret'],
+      ['SELECT', '2'],
+      ['PING'],
+    ]);
+  });
+});
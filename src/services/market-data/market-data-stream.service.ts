@@ -13,6 +13,8 @@ import { NormalizedMarketDataMessage, MarketOutcome } from '../../types/market-d
 
 type OrderbookKey = `${string}:${MarketOutcome}`;
 
+export type OrderbookChangeListener = (marketId: string, outcome: MarketOutcome) => void;
+
 export class MarketDataStreamService {
   private marketRepo = new MarketRepository();
   private orderbookEventRepo = new OrderbookEventRepository();
@@ -25,6 +27,7 @@ export class MarketDataStreamService {
   private orderbookStates = new Map<OrderbookKey, OrderbookState>();
   private subscriptionKeys = new Set<OrderbookKey>();
   private closedMarkets = new Set<string>();
+  private orderbookListeners = new Set<OrderbookChangeListener>();
   private refreshTimer: NodeJS.Timeout | null = null;
   private env = getEnvironment();
 
@@ -79,6 +82,24 @@ export class MarketDataStreamService {
     }
   }
 
+  /**
+   * Live book of a streamed outcome, null when it isn't subscribed
+   */
+  getOrderbookState(marketId: string, outcome: MarketOutcome): OrderbookState | null {
+    return this.orderbookStates.get(this.orderbookKey(marketId, outcome)) ?? null;
+  }
+
+  /**
+   * Called after a book is seeded and after each applied delta (once per
+   * snapshot). Returns an unsubscribe function.
+   */
+  onOrderbookChange(listener: OrderbookChangeListener): () => void {
+    this.orderbookListeners.add(listener);
+    return () => {
+      this.orderbookListeners.delete(listener);
+    };
+  }
+
   private async subscribeToActiveMarkets(): Promise<void> {
     const markets = await this.marketRepo.findAll();
     const activeMarkets = markets.filter((market) => market.active);
@@ -205,6 +226,7 @@ export class MarketDataStreamService {
       const state = new OrderbookState();
       state.seed(snapshot.bids, snapshot.asks);
       this.orderbookStates.set(this.orderbookKey(marketId, outcome), state);
+      this.notifyOrderbookChange(marketId, outcome);
 
       this.logger.debug(
         {
@@ -294,6 +316,7 @@ export class MarketDataStreamService {
       };
 
       if (!message.snapshot || message.snapshot === 'end') {
+        this.notifyOrderbookChange(message.marketId, message.outcome);
         await this.orderbookEventRepo.insert({
           marketId: event.marketId,
           outcome: event.outcome,
@@ -358,6 +381,16 @@ export class MarketDataStreamService {
     }
   }
 
+  private notifyOrderbookChange(marketId: string, outcome: MarketOutcome): void {
+    for (const listener of this.orderbookListeners) {
+      try {
+        listener(marketId, outcome);
+      } catch (error) {
+        this.logger.error({ error, marketId, outcome }, 'Orderbook change listener failed');
+      }
+    }
+  }
+
   private orderbookKey(marketId: string, outcome: MarketOutcome): OrderbookKey {
     return `${marketId}:${outcome}`;
   }
@@ -214,6 +214,8 @@ export class MarketDataService {
       tokens: record.tokens,
       yesPrice: record.yesPrice ?? null,
       noPrice: record.noPrice ?? null,
+      eventId: record.eventId ?? null,
+      resolution: record.resolution ?? null,
       createdAt: record.createdAt,
       lastUpdated: record.lastUpdated,
     };
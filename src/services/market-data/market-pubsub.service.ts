@@ -1,10 +1,81 @@
 import { EventEmitter } from 'node:events';
+import { getEnvironment } from '../../config/environment.js';
 import { NormalizedMarketDataMessage } from '../../types/market-data.types.js';
+import type { SignalAlertPayload } from '../../types/alert.types.js';
+import type { ArbitrageEventPayload } from '../../types/arbitrage.types.js';
+import { RedisMarketDataPubSub } from './redis-pubsub.service.js';
 
-type MarketEvent = NormalizedMarketDataMessage;
+export type MarketEvent = NormalizedMarketDataMessage | SignalAlertPayload | ArbitrageEventPayload;
 
-export class MarketDataPubSub {
+export type PatternListener<T> = (event: T, channel: string) => void;
+
+/**
+ * Channel fan-out between market data producers and the WebSocket gateway.
+ *
+ * Channels look like `market:<id>:orderbook`, `instrument:<id>:price`,
+ * `alerts:<wallet>` and `arbitrage:opportunities`. Patterns use Redis glob
+ * syntax (`*`, `?`, `[abc]`, `\` escapes) with every implementation.
+ */
+export interface MarketDataPubSub {
+  publish(channel: string, event: MarketEvent): void;
+
+  subscribe<T extends MarketEvent = NormalizedMarketDataMessage>(
+    channel: string,
+    listener: (event: T) => void,
+  ): () => void;
+
+  psubscribe<T extends MarketEvent = NormalizedMarketDataMessage>(
+    pattern: string,
+    listener: PatternListener<T>,
+  ): () => void;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Convert a Redis glob pattern to an anchored regular expression
+ */
+export function channelPatternToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = pattern.slice(i + 1, end);
+      const negated = body.startsWith('^');
+      if (negated) body = body.slice(1);
+      source += `[${negated ? '^' : ''}${body.replace(/[\\\]]/g, '\\$&')}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Single-process pubsub; producers and the gateway must share the process
+ */
+export class InMemoryMarketDataPubSub implements MarketDataPubSub {
   private emitter: EventEmitter;
+  private patterns = new Map<
+    string,
+    { regex: RegExp; listeners: Set<PatternListener<MarketEvent>> }
+  >();
 
   constructor() {
     this.emitter = new EventEmitter();
@@ -13,12 +84,71 @@ export class MarketDataPubSub {
 
   publish(channel: string, event: MarketEvent): void {
     this.emitter.emit(channel, event);
+
+    for (const { regex, listeners } of this.patterns.values()) {
+      if (!regex.test(channel)) continue;
+      for (const listener of listeners) {
+        listener(event, channel);
+      }
+    }
   }
 
-  subscribe(channel: string, listener: (event: MarketEvent) => void): () => void {
+  subscribe<T extends MarketEvent = NormalizedMarketDataMessage>(
+    channel: string,
+    listener: (event: T) => void,
+  ): () => void {
     this.emitter.on(channel, listener);
     return () => {
       this.emitter.off(channel, listener);
     };
   }
+
+  psubscribe<T extends MarketEvent = NormalizedMarketDataMessage>(
+    pattern: string,
+    listener: PatternListener<T>,
+  ): () => void {
+    let entry = this.patterns.get(pattern);
+    if (!entry) {
+      entry = { regex: channelPatternToRegExp(pattern), listeners: new Set() };
+      this.patterns.set(pattern, entry);
+    }
+    entry.listeners.add(listener as PatternListener<MarketEvent>);
+
+    return () => {
+      const current = this.patterns.get(pattern);
+      if (!current) return;
+      current.listeners.delete(listener as PatternListener<MarketEvent>);
+      if (current.listeners.size === 0) {
+        this.patterns.delete(pattern);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+    this.patterns.clear();
+  }
+}
+
+/**
+ * Build the pubsub selected by PUBSUB_DRIVER. With `redis`, API pods and
+ * workers share channels, so the gateway no longer has to run next to
+ * MarketDataStreamService.
+ */
+export function createMarketDataPubSub(): MarketDataPubSub {
+  const env = getEnvironment();
+
+  if (env.PUBSUB_DRIVER === 'redis') {
+    if (!env.REDIS_URL) {
+      throw new Error('PUBSUB_DRIVER=redis requires REDIS_URL');
+    }
+    return new RedisMarketDataPubSub({
+      url: env.REDIS_URL,
+      channelPrefix: env.PUBSUB_CHANNEL_PREFIX,
+      reconnectBaseMs: env.PUBSUB_RECONNECT_BASE_MS,
+      reconnectMaxMs: env.PUBSUB_RECONNECT_MAX_MS,
+    });
+  }
+
+  return new InMemoryMarketDataPubSub();
 }
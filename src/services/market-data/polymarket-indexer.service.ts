@@ -1,5 +1,9 @@
 import { MarketRepository } from '../../adapters/database/repositories/market.repository.js';
-import { PolymarketAdapter } from '../../adapters/polymarket/polymarket.adapter.js';
+import { EventRepository } from '../../adapters/database/repositories/event.repository.js';
+import {
+  PolymarketAdapter,
+  type PolymarketMarket,
+} from '../../adapters/polymarket/polymarket.adapter.js';
 import { MarketCacheService } from './market-cache.service.js';
 import { MarketRecord } from '../../types/market.types.js';
 import { getEnvironment } from '../../config/environment.js';
@@ -18,6 +22,7 @@ interface SyncResult {
 export class PolymarketIndexer {
   private adapter: PolymarketAdapter;
   private marketRepo: MarketRepository;
+  private eventRepo: EventRepository;
   private cache: MarketCacheService;
   private env;
   private logger;
@@ -30,6 +35,7 @@ export class PolymarketIndexer {
   constructor() {
     this.adapter = new PolymarketAdapter();
     this.marketRepo = new MarketRepository();
+    this.eventRepo = new EventRepository();
     this.cache = new MarketCacheService();
     this.logger = getLogger();
     this.env = getEnvironment();
@@ -57,7 +63,7 @@ export class PolymarketIndexer {
     };
 
     this.logger.info('📥 Fetching all markets from Polymarket...');
-    let markets: any;
+    let markets: PolymarketMarket[];
     try {
       markets = await this.adapter.getAllMarkets();
       this.logger.info({ count: markets.length }, '✅ Fetched markets from Polymarket');
@@ -72,6 +78,9 @@ export class PolymarketIndexer {
       return result;
     }
 
+    // Events first so markets can reference them
+    const failedEvents = await this.syncEvents(markets);
+
     this.logger.info({ total: markets.length }, '🔄 Starting market state sync...');
     const currentBlock = await this.safeCurrentBlock();
 
@@ -81,7 +90,12 @@ export class PolymarketIndexer {
         const existing = await this.marketRepo.findById(market.id);
         const state = await this.safeMarketState(market.id);
 
-        const upsertPayload = this.mergeMarketRecord(existing, market, state, currentBlock);
+        const upsertPayload = this.mergeMarketRecord(
+          existing,
+          market.eventId && failedEvents.has(market.eventId) ? { ...market, eventId: null } : market,
+          state,
+          currentBlock,
+        );
         await this.marketRepo.upsert(upsertPayload);
 
         // Index market in search (don't block)
@@ -155,6 +169,31 @@ export class PolymarketIndexer {
     return result;
   }
 
+  /**
+   * Upsert the events the fetched markets belong to
+   *
+   * @returns IDs of events that failed to store
+   */
+  private async syncEvents(markets: PolymarketMarket[]): Promise<Set<string>> {
+    const events = new Map<string, NonNullable<PolymarketMarket['event']>>();
+    for (const market of markets) {
+      if (market.event) events.set(market.event.id, market.event);
+    }
+
+    const failed = new Set<string>();
+    for (const event of events.values()) {
+      try {
+        await this.eventRepo.upsert(event);
+      } catch (error) {
+        failed.add(event.id);
+        this.logger.error({ error, eventId: event.id }, 'Failed to sync event');
+      }
+    }
+
+    this.logger.info({ events: events.size, failed: failed.size }, 'Synced market events');
+    return failed;
+  }
+
   private async safeCurrentBlock(): Promise<bigint> {
     try {
       return await this.adapter.getCurrentBlockNumber();
@@ -249,6 +288,8 @@ export class PolymarketIndexer {
       categoryTag: string | null;
       active: boolean;
       tokens: Record<string, string>;
+      eventId?: string | null;
+      groupItemTitle?: string | null;
     } | null,
     state: {
       yesPrice: string | null;
@@ -276,6 +317,8 @@ export class PolymarketIndexer {
       marketSlug: source.marketSlug || base.marketSlug || source.id,
       active: source.active ?? base.active ?? true,
       tokens: Object.keys(source.tokens || {}).length > 0 ? source.tokens : base.tokens || {},
+      eventId: source.eventId ?? base.eventId ?? null,
+      groupItemTitle: source.groupItemTitle ?? base.groupItemTitle ?? null,
       polymarketMarketId: source.polymarketMarketId ?? base.polymarketMarketId ?? null,
       yesPrice: state.yesPrice ?? base.yesPrice ?? null,
       noPrice: state.noPrice ?? base.noPrice ?? null,
@@ -0,0 +1,216 @@
+import { RedisConnection, RespValue } from '../../adapters/redis/redis-connection.js';
+import { getLogger } from '../../utils/logger.js';
+import type { NormalizedMarketDataMessage } from '../../types/market-data.types.js';
+import type { MarketDataPubSub, MarketEvent, PatternListener } from './market-pubsub.service.js';
+
+type RedisPubSubOptions = {
+  url: string;
+  channelPrefix: string;
+  reconnectBaseMs: number;
+  reconnectMaxMs: number;
+};
+
+const ENVELOPE_VERSION = 1;
+const DATE_TAG = '$date';
+
+/**
+ * Encode an event for the wire. Dates are tagged so they come back as Date
+ * objects rather than ISO strings (plain string timestamps stay strings).
+ */
+export function serializeMarketEvent(event: MarketEvent): string {
+  return JSON.stringify({ v: ENVELOPE_VERSION, event }, function (key, value) {
+    const original = (this as Record<string, unknown>)[key];
+    if (original instanceof Date) {
+      return { [DATE_TAG]: original.toISOString() };
+    }
+    return value;
+  });
+}
+
+export function deserializeMarketEvent(payload: string): MarketEvent {
+  const envelope = JSON.parse(payload, (_key, value) => {
+    if (
+      value &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      typeof value[DATE_TAG] === 'string' &&
+      Object.keys(value).length === 1
+    ) {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  }) as { v?: number; event?: MarketEvent };
+
+  if (envelope?.v !== ENVELOPE_VERSION || !envelope.event) {
+    throw new Error(`Unsupported pubsub envelope version: ${String(envelope?.v)}`);
+  }
+  return envelope.event;
+}
+
+/**
+ * Redis-backed pubsub for fanning market data and alerts out across processes.
+ *
+ * Uses one connection for PUBLISH and one in subscriber mode. Redis
+ * subscriptions are reference counted per channel/pattern and re-issued
+ * after every reconnect; events published while disconnected are queued.
+ * Events published here reach local listeners via Redis, not directly.
+ */
+export class RedisMarketDataPubSub implements MarketDataPubSub {
+  private publisher: RedisConnection;
+  private subscriber: RedisConnection;
+  private prefix: string;
+  private logger = getLogger();
+  private channels = new Map<string, Set<(event: MarketEvent) => void>>();
+  private patterns = new Map<string, Set<PatternListener<MarketEvent>>>();
+
+  constructor(options: RedisPubSubOptions) {
+    this.prefix = options.channelPrefix;
+
+    const connectionOptions = {
+      url: options.url,
+      reconnectBaseMs: options.reconnectBaseMs,
+      reconnectMaxMs: options.reconnectMaxMs,
+    };
+    this.publisher = new RedisConnection({ ...connectionOptions, name: 'pubsub-publisher' });
+    this.subscriber = new RedisConnection({ ...connectionOptions, name: 'pubsub-subscriber' });
+
+    this.subscriber.onReady(() => this.resubscribeAll());
+    this.subscriber.onReply((reply) => this.handleReply(reply));
+
+    this.publisher.connect();
+    this.subscriber.connect();
+  }
+
+  publish(channel: string, event: MarketEvent): void {
+    this.publisher.send(['PUBLISH', this.prefix + channel, serializeMarketEvent(event)]);
+  }
+
+  subscribe<T extends MarketEvent = NormalizedMarketDataMessage>(
+    channel: string,
+    listener: (event: T) => void,
+  ): () => void {
+    return this.addListener(
+      this.channels,
+      channel,
+      listener as (event: MarketEvent) => void,
+      'SUBSCRIBE',
+      'UNSUBSCRIBE',
+    );
+  }
+
+  psubscribe<T extends MarketEvent = NormalizedMarketDataMessage>(
+    pattern: string,
+    listener: PatternListener<T>,
+  ): () => void {
+    return this.addListener(
+      this.patterns,
+      pattern,
+      listener as PatternListener<MarketEvent>,
+      'PSUBSCRIBE',
+      'PUNSUBSCRIBE',
+    );
+  }
+
+  async close(): Promise<void> {
+    this.channels.clear();
+    this.patterns.clear();
+    await Promise.all([this.publisher.close(), this.subscriber.close()]);
+  }
+
+  private addListener<L>(
+    registry: Map<string, Set<L>>,
+    key: string,
+    listener: L,
+    subscribeCommand: string,
+    unsubscribeCommand: string,
+  ): () => void {
+    let listeners = registry.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      registry.set(key, listeners);
+      // Sent on the next connect by resubscribeAll if currently offline
+      if (this.subscriber.isReady()) {
+        this.subscriber.send([subscribeCommand, this.prefix + key]);
+      }
+    }
+    listeners.add(listener);
+
+    return () => {
+      const current = registry.get(key);
+      if (!current || !current.delete(listener) || current.size > 0) {
+        return;
+      }
+      registry.delete(key);
+      if (this.subscriber.isReady()) {
+        this.subscriber.send([unsubscribeCommand, this.prefix + key]);
+      }
+    };
+  }
+
+  private resubscribeAll(): void {
+    const channels = [...this.channels.keys()].map((c) => this.prefix + c);
+    const patterns = [...this.patterns.keys()].map((p) => this.prefix + p);
+
+    if (channels.length > 0) {
+      this.subscriber.send(['SUBSCRIBE', ...channels]);
+    }
+    if (patterns.length > 0) {
+      this.subscriber.send(['PSUBSCRIBE', ...patterns]);
+    }
+
+    this.logger.info(
+      { channels: channels.length, patterns: patterns.length },
+      'Redis pubsub subscriptions restored',
+    );
+  }
+
+  private handleReply(reply: RespValue): void {
+    if (!Array.isArray(reply)) {
+      return;
+    }
+
+    const [kind] = reply;
+    if (kind === 'message' && reply.length === 3) {
+      const channel = this.stripPrefix(String(reply[1]));
+      const event = this.decode(String(reply[2]), channel);
+      if (!event) return;
+
+      for (const listener of this.channels.get(channel) ?? []) {
+        this.invoke(() => listener(event), channel);
+      }
+      return;
+    }
+
+    if (kind === 'pmessage' && reply.length === 4) {
+      const pattern = this.stripPrefix(String(reply[1]));
+      const channel = this.stripPrefix(String(reply[2]));
+      const event = this.decode(String(reply[3]), channel);
+      if (!event) return;
+
+      for (const listener of this.patterns.get(pattern) ?? []) {
+        this.invoke(() => listener(event, channel), channel);
+      }
+    }
+  }
+
+  private decode(payload: string, channel: string): MarketEvent | null {
+    try {
+      return deserializeMarketEvent(payload);
+    } catch (error) {
+      this.logger.warn({ err: error, channel }, 'Dropping undecodable pubsub message');
+      return null;
+    }
+  }
+
+  private invoke(deliver: () => void, channel: string): void {
+    try {
+      deliver();
+    } catch (error) {
+      this.logger.error({ err: error, channel }, 'Pubsub listener failed');
+    }
+  }
+
+  private stripPrefix(value: string): string {
+    return value.startsWith(this.prefix) ? value.slice(this.prefix.length) : value;
+  }
+}
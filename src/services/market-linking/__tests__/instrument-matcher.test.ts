@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildInstrumentIndex,
+  matchCompanyMentions,
+  matchMarket,
+  normalizeCompanyName,
+  type LinkCandidate,
+  type MarketText,
+} from '../instrument-matcher';
+
+const candidates: LinkCandidate[] = [
+  { id: 'nvda', symbol: 'NVDA', name: 'NVIDIA CORP', formerNames: null },
+  { id: 'mrna', symbol: 'MRNA', name: 'Moderna, Inc.', formerNames: ['ModeRNA Therapeutics'] },
+  { id: 'tgt', symbol: 'TGT', name: 'TARGET CORP', formerNames: null },
+  { id: 'gm', symbol: 'GM', name: 'General Motors Co', formerNames: null },
+  { id: 'ai', symbol: 'AI', name: 'C3.ai, Inc.', formerNames: null },
+  { id: 'fb', symbol: 'META', name: 'Meta Platforms, Inc.', formerNames: ['Facebook Inc'] },
+  { id: 'win', symbol: 'WIN', name: 'Windstream Holdings', formerNames: null },
+  { id: 'now', symbol: 'NOW', name: 'ServiceNow, Inc.', formerNames: null },
+  { id: 'ip', symbol: 'IP', name: 'International Paper Co', formerNames: null },
+  { id: 'cost', symbol: 'COST', name: 'Costco Wholesale Corp', formerNames: null },
+];
+
+const index = buildInstrumentIndex(candidates);
+
+function market(question: string, marketSlug = '', categoryTag: string | null = null): MarketText {
+  return { question, marketSlug, categoryTag };
+}
+
+describe('normalizeCompanyName', () => {
+  it('should strip legal suffixes, state tags and share classes', () => {
+    expect(normalizeCompanyName('NVIDIA CORP /DE/')).toEqual(['nvidia']);
+    expect(normalizeCompanyName('The Walt Disney Company')).toEqual(['walt', 'disney']);
+    expect(normalizeCompanyName('Alphabet Inc. Class A')).toEqual(['alphabet']);
+    expect(normalizeCompanyName('Procter & Gamble Co')).toEqual(['procter', 'and', 'gamble']);
+  });
+});
+
+describe('matchMarket', () => {
+  it('should rank a cashtag above a bare ticker', () => {
+    const [cashtag] = matchMarket(market('Will $NVDA close above $150 on Friday?'), index);
+    const [bare] = matchMarket(market('Will NVDA close above $150 on Friday?'), index);
+
+    expect(cashtag).toMatchObject({ instrumentId: 'nvda', matchMethods: ['CASHTAG'] });
+    expect(bare).toMatchObject({ instrumentId: 'nvda', matchMethods: ['SYMBOL'] });
+    expect(cashtag.confidence).toBeGreaterThan(bare.confidence);
+  });
+
+  it('should match company names and boost agreeing slugs', () => {
+    const nameOnly = matchMarket(market("Will Nvidia's market cap exceed $5T?"), index);
+    const withSlug = matchMarket(
+      market("Will Nvidia's market cap exceed $5T?", 'nvidia-market-cap-5t'),
+      index,
+    );
+
+    expect(nameOnly[0]).toMatchObject({ instrumentId: 'nvda', matchMethods: ['NAME'] });
+    expect(withSlug[0].matchMethods).toEqual(['NAME', 'SLUG']);
+    expect(withSlug[0].confidence).toBeGreaterThan(nameOnly[0].confidence);
+  });
+
+  it('should match former names with lower confidence', () => {
+    const [current] = matchMarket(market('Will Meta Platforms announce layoffs?'), index);
+    const [former] = matchMarket(market('Will Facebook announce layoffs?'), index);
+
+    expect(current.instrumentId).toBe('fb');
+    expect(former.instrumentId).toBe('fb');
+    expect(former.confidence).toBeLessThan(current.confidence);
+  });
+
+  it('should skip stopwords and lowercase common words', () => {
+    expect(matchMarket(market('Will an AI model win the IMO?'), index)).toEqual([]);
+    expect(matchMarket(market('Will the Fed hit its inflation target?'), index)).toEqual([]);
+    expect(matchMarket(market('Will General Motors recall 1M cars?'), index)[0].instrumentId).toBe(
+      'gm',
+    );
+  });
+
+  it('should use the category tag', () => {
+    const [match] = matchMarket(market('Will Q3 revenue beat estimates?', '', 'Moderna'), index);
+    expect(match).toMatchObject({ instrumentId: 'mrna', matchMethods: ['CATEGORY'] });
+  });
+
+  it('should discount bare tickers in off-topic categories', () => {
+    const [sports] = matchMarket(market('Will GM win the draft lottery?', '', 'Sports'), index);
+    const [business] = matchMarket(market('Will GM beat earnings?', '', 'Business'), index);
+
+    expect(sports.confidence).toBeLessThan(business.confidence);
+  });
+
+  it('should only count slug tickers that corroborate another match', () => {
+    expect(
+      matchMarket(
+        market('Will Trump win the election?', 'will-trump-win-the-election-now', 'Politics'),
+        index,
+      ),
+    ).toEqual([]);
+
+    const [corroborated] = matchMarket(market('Will NVDA hit $200?', 'will-nvda-hit-200'), index);
+    expect(corroborated).toMatchObject({ instrumentId: 'nvda', matchMethods: ['SYMBOL', 'SLUG'] });
+  });
+
+  it('should drop matches below the minimum confidence', () => {
+    const question = 'Will Target raise guidance?';
+    expect(matchMarket(market(question), index).map((m) => m.instrumentId)).toEqual(['tgt']);
+    expect(matchMarket(market(question), index, 0.6)).toEqual([]);
+  });
+});
+
+describe('matchCompanyMentions', () => {
+  it('should ignore bare tickers and acronyms in prose', () => {
+    const text =
+      'We compete on total COST of ownership and rely on our IP. Competitors include Target and NVDA.';
+    expect(matchCompanyMentions(text, index)).toEqual([]);
+  });
+
+  it('should match multi-word names and cashtags', () => {
+    const text = 'Our competitors include International Paper, Costco Wholesale and $NVDA.';
+    const ids = matchCompanyMentions(text, index).map((m) => m.instrumentId);
+
+    expect(ids.sort()).toEqual(['cost', 'ip', 'nvda']);
+  });
+});
@@ -0,0 +1,458 @@
+import type { MarketLinkMatchMethod } from '../../types/market-link.types.js';
+
+export interface LinkCandidate {
+  id: string;
+  symbol: string;
+  name: string;
+  formerNames: string[] | null;
+}
+
+export interface MarketText {
+  question: string;
+  marketSlug: string;
+  categoryTag: string | null;
+}
+
+export interface InstrumentMatch {
+  instrumentId: string;
+  confidence: number;
+  matchMethods: MarketLinkMatchMethod[];
+  evidence: string;
+}
+
+interface NamePhrase {
+  candidate: LinkCandidate;
+  tokens: string[];
+  former: boolean;
+}
+
+export interface InstrumentIndex {
+  bySymbol: Map<string, LinkCandidate[]>;
+  // Keyed by the first token of each normalized name
+  byNameToken: Map<string, NamePhrase[]>;
+}
+
+interface Hit {
+  instrumentId: string;
+  method: MarketLinkMatchMethod;
+  confidence: number;
+  evidence: string;
+  // Only counts when another hit for the same instrument is not supporting
+  supporting?: boolean;
+}
+
+const CONFIDENCE = {
+  CASHTAG: 0.95,
+  SYMBOL: 0.8,
+  SHORT_SYMBOL: 0.7,
+  NAME: 0.85,
+  SINGLE_WORD_NAME: 0.65,
+  SLUG: 0.6,
+  CATEGORY: 0.7,
+} as const;
+
+// Former names are weaker evidence than the current name
+const FORMER_NAME_PENALTY = 0.1;
+const AMBIGUOUS_NAME_PENALTY = 0.1;
+// Bare tickers in sports/politics/crypto markets are usually something else
+const OFF_TOPIC_SYMBOL_PENALTY = 0.2;
+const CORROBORATION_BONUS = 0.05;
+const MAX_CONFIDENCE = 0.99;
+
+const LEGAL_SUFFIXES = new Set([
+  'inc',
+  'incorporated',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'ltd',
+  'limited',
+  'plc',
+  'llc',
+  'lp',
+  'holdings',
+  'holding',
+  'group',
+  'sa',
+  'nv',
+  'ag',
+  'se',
+  'the',
+]);
+
+// Uppercase words that show up in market questions but are rarely tickers
+const SYMBOL_STOPWORDS = new Set([
+  'A',
+  'I',
+  'AI',
+  'AM',
+  'PM',
+  'ET',
+  'EST',
+  'PST',
+  'UTC',
+  'US',
+  'USA',
+  'UK',
+  'EU',
+  'UN',
+  'CEO',
+  'CFO',
+  'IPO',
+  'ETF',
+  'GDP',
+  'CPI',
+  'PCE',
+  'FED',
+  'FOMC',
+  'FDA',
+  'SEC',
+  'DOJ',
+  'FTC',
+  'NFL',
+  'NBA',
+  'MLB',
+  'NHL',
+  'UFC',
+  'ATH',
+  'YES',
+  'NO',
+  'OR',
+  'AND',
+  'THE',
+  'ON',
+  'BY',
+  'IN',
+  'AT',
+  'TO',
+  'IS',
+  'IT',
+  'BE',
+  'OF',
+  'Q1',
+  'Q2',
+  'Q3',
+  'Q4',
+]);
+
+// Single-word company names that are also ordinary words
+const AMBIGUOUS_NAMES = new Set([
+  'target',
+  'gap',
+  'ford',
+  'visa',
+  'shell',
+  'block',
+  'snap',
+  'match',
+  'square',
+  'general',
+  'american',
+  'first',
+  'united',
+  'national',
+]);
+
+const OFF_TOPIC_CATEGORIES = ['sports', 'politics', 'elections', 'crypto', 'pop culture'];
+
+const CASHTAG_PATTERN = /\$([A-Za-z]{1,5}(?:\.[A-Za-z])?)\b/g;
+const UPPERCASE_TOKEN_PATTERN = /\b[A-Z][A-Z0-9.]{0,5}\b/g;
+
+/**
+ * Lowercase word tokens; possessives and punctuation are dropped
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']s\b/g, '')
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Company name tokens without EDGAR state tags ("/DE/") or trailing legal
+ * suffixes, e.g. "NVIDIA CORP /DE/" → ["nvidia"]
+ */
+export function normalizeCompanyName(name: string): string[] {
+  const tokens = tokenize(name.replace(/\/[A-Za-z]{2}\//g, ' '));
+  if (tokens[0] === 'the') tokens.shift();
+  // "Class A" share-class markers
+  if (
+    tokens.length > 2 &&
+    tokens[tokens.length - 2] === 'class' &&
+    tokens[tokens.length - 1].length === 1
+  ) {
+    tokens.splice(-2, 2);
+  }
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  return tokens;
+}
+
+export function buildInstrumentIndex(candidates: LinkCandidate[]): InstrumentIndex {
+  const bySymbol = new Map<string, LinkCandidate[]>();
+  const byNameToken = new Map<string, NamePhrase[]>();
+
+  const addPhrase = (candidate: LinkCandidate, name: string, former: boolean): void => {
+    const tokens = normalizeCompanyName(name);
+    // Too short to tell apart from ordinary words
+    if (tokens.length === 0 || tokens.join(' ').length < 4) return;
+
+    const bucket = byNameToken.get(tokens[0]) ?? [];
+    bucket.push({ candidate, tokens, former });
+    byNameToken.set(tokens[0], bucket);
+  };
+
+  for (const candidate of candidates) {
+    const symbol = candidate.symbol.toUpperCase();
+    const bucket = bySymbol.get(symbol) ?? [];
+    bucket.push(candidate);
+    bySymbol.set(symbol, bucket);
+
+    addPhrase(candidate, candidate.name, false);
+    for (const formerName of candidate.formerNames ?? []) {
+      addPhrase(candidate, formerName, true);
+    }
+  }
+
+  return { bySymbol, byNameToken };
+}
+
+/**
+ * Propose instruments a market is about, from its question, slug and
+ * category tag. Each instrument gets its strongest signal's confidence plus
+ * a small bonus for every other method that agrees.
+ */
+export function matchMarket(
+  market: MarketText,
+  index: InstrumentIndex,
+  minConfidence = 0,
+): InstrumentMatch[] {
+  const hits: Hit[] = [
+    ...cashtagHits(market.question, index),
+    ...symbolHits(market, index),
+    ...nameHits(market.question, index),
+    ...slugHits(market, index),
+    ...categoryHits(market.categoryTag, index),
+  ];
+
+  return combineHits(hits, minConfidence);
+}
+
+/**
+ * Companies named in free prose, such as the Competition section of a 10-K.
+ * Only cashtags and multi-word names count: prose is full of capitalised
+ * words and acronyms that collide with tickers ("our IP", "total COST of
+ * ownership") and with one-word names.
+ */
+export function matchCompanyMentions(
+  text: string,
+  index: InstrumentIndex,
+  minConfidence = 0,
+): InstrumentMatch[] {
+  const hits: Hit[] = cashtagHits(text, index);
+
+  for (const phrase of findPhrases(tokenize(text), index)) {
+    if (phrase.tokens.length < 2) continue;
+    hits.push({
+      instrumentId: phrase.candidate.id,
+      method: 'NAME',
+      confidence: phraseConfidence(phrase),
+      evidence: phrase.tokens.join(' '),
+    });
+  }
+
+  return combineHits(hits, minConfidence);
+}
+
+/**
+ * One match per instrument: its strongest hit plus a bonus for each other
+ * method that agrees
+ */
+function combineHits(hits: Hit[], minConfidence: number): InstrumentMatch[] {
+  const byInstrument = new Map<string, Hit[]>();
+  for (const hit of hits) {
+    const list = byInstrument.get(hit.instrumentId) ?? [];
+    list.push(hit);
+    byInstrument.set(hit.instrumentId, list);
+  }
+
+  const matches: InstrumentMatch[] = [];
+  for (const [instrumentId, instrumentHits] of byInstrument) {
+    if (instrumentHits.every((hit) => hit.supporting)) continue;
+
+    const strongest = instrumentHits.reduce((best, hit) =>
+      hit.confidence > best.confidence ? hit : best,
+    );
+    const methods = [...new Set(instrumentHits.map((h) => h.method))];
+    const confidence = Math.min(
+      strongest.confidence + CORROBORATION_BONUS * (methods.length - 1),
+      MAX_CONFIDENCE,
+    );
+
+    if (confidence < minConfidence) continue;
+
+    matches.push({
+      instrumentId,
+      confidence: Math.round(confidence * 100) / 100,
+      matchMethods: methods,
+      evidence: strongest.evidence,
+    });
+  }
+
+  return matches.sort((a, b) => b.confidence - a.confidence);
+}
+
+function cashtagHits(question: string, index: InstrumentIndex): Hit[] {
+  const hits: Hit[] = [];
+  for (const match of question.matchAll(CASHTAG_PATTERN)) {
+    for (const candidate of index.bySymbol.get(match[1].toUpperCase()) ?? []) {
+      hits.push({
+        instrumentId: candidate.id,
+        method: 'CASHTAG',
+        confidence: CONFIDENCE.CASHTAG,
+        evidence: match[0],
+      });
+    }
+  }
+  return hits;
+}
+
+function symbolHits(market: MarketText, index: InstrumentIndex): Hit[] {
+  const offTopic = isOffTopicCategory(market.categoryTag);
+  // Cashtags are handled separately; drop them so "$NVDA" doesn't count twice
+  const text = market.question.replace(CASHTAG_PATTERN, ' ');
+
+  const hits: Hit[] = [];
+  for (const token of new Set(text.match(UPPERCASE_TOKEN_PATTERN) ?? [])) {
+    const symbol = token.replace(/\.$/, '');
+    if (symbol.length < 2 || SYMBOL_STOPWORDS.has(symbol)) continue;
+
+    const base = symbol.length === 2 ? CONFIDENCE.SHORT_SYMBOL : CONFIDENCE.SYMBOL;
+    for (const candidate of index.bySymbol.get(symbol) ?? []) {
+      hits.push({
+        instrumentId: candidate.id,
+        method: 'SYMBOL',
+        confidence: offTopic ? base - OFF_TOPIC_SYMBOL_PENALTY : base,
+        evidence: symbol,
+      });
+    }
+  }
+  return hits;
+}
+
+function nameHits(question: string, index: InstrumentIndex): Hit[] {
+  const tokens = tokenize(question);
+  const hits: Hit[] = [];
+
+  for (const phrase of findPhrases(tokens, index)) {
+    if (phrase.tokens.length === 1) {
+      // A lone word only counts when capitalised in the original question
+      const pattern = new RegExp(`\\b${phrase.tokens[0]}\\b`, 'i');
+      const found = question.match(pattern)?.[0];
+      if (!found || !/^[A-Z]/.test(found)) continue;
+    }
+
+    hits.push({
+      instrumentId: phrase.candidate.id,
+      method: 'NAME',
+      confidence: phraseConfidence(phrase),
+      evidence: phrase.tokens.join(' '),
+    });
+  }
+  return hits;
+}
+
+function slugHits(market: MarketText, index: InstrumentIndex): Hit[] {
+  const offTopic = isOffTopicCategory(market.categoryTag);
+  const tokens = market.marketSlug.toLowerCase().split('-').filter(Boolean);
+  const hits: Hit[] = [];
+
+  // Slugs are lowercase, so every word looks like a ticker ("win", "now");
+  // a slug ticker only corroborates a match found elsewhere
+  for (const token of new Set(tokens)) {
+    const symbol = token.toUpperCase();
+    if (symbol.length < 3 || SYMBOL_STOPWORDS.has(symbol)) continue;
+    for (const candidate of index.bySymbol.get(symbol) ?? []) {
+      hits.push({
+        instrumentId: candidate.id,
+        method: 'SLUG',
+        confidence: offTopic ? CONFIDENCE.SLUG - OFF_TOPIC_SYMBOL_PENALTY : CONFIDENCE.SLUG,
+        evidence: token,
+        supporting: true,
+      });
+    }
+  }
+
+  for (const phrase of findPhrases(tokens, index)) {
+    if (phrase.tokens.length === 1 && AMBIGUOUS_NAMES.has(phrase.tokens[0])) continue;
+    hits.push({
+      instrumentId: phrase.candidate.id,
+      method: 'SLUG',
+      confidence: phrase.former ? CONFIDENCE.SLUG - FORMER_NAME_PENALTY : CONFIDENCE.SLUG,
+      evidence: phrase.tokens.join('-'),
+    });
+  }
+  return hits;
+}
+
+function categoryHits(categoryTag: string | null, index: InstrumentIndex): Hit[] {
+  if (!categoryTag) return [];
+
+  const hits: Hit[] = [];
+  for (const candidate of index.bySymbol.get(categoryTag.trim().toUpperCase()) ?? []) {
+    hits.push({
+      instrumentId: candidate.id,
+      method: 'CATEGORY',
+      confidence: CONFIDENCE.CATEGORY,
+      evidence: categoryTag,
+    });
+  }
+
+  const tokens = normalizeCompanyName(categoryTag);
+  for (const phrase of index.byNameToken.get(tokens[0]) ?? []) {
+    if (phrase.former || phrase.tokens.join(' ') !== tokens.join(' ')) continue;
+    hits.push({
+      instrumentId: phrase.candidate.id,
+      method: 'CATEGORY',
+      confidence: CONFIDENCE.CATEGORY,
+      evidence: categoryTag,
+    });
+  }
+  return hits;
+}
+
+/**
+ * Every indexed name phrase that occurs as a contiguous token run
+ */
+function findPhrases(tokens: string[], index: InstrumentIndex): NamePhrase[] {
+  const found: NamePhrase[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    for (const phrase of index.byNameToken.get(tokens[i]) ?? []) {
+      if (phrase.tokens.every((token, offset) => tokens[i + offset] === token)) {
+        found.push(phrase);
+      }
+    }
+  }
+  return found;
+}
+
+function phraseConfidence(phrase: NamePhrase): number {
+  let confidence: number = phrase.tokens.length > 1 ? CONFIDENCE.NAME : CONFIDENCE.SINGLE_WORD_NAME;
+  if (phrase.tokens.length === 1 && AMBIGUOUS_NAMES.has(phrase.tokens[0])) {
+    confidence -= AMBIGUOUS_NAME_PENALTY;
+  }
+  if (phrase.former) {
+    confidence -= FORMER_NAME_PENALTY;
+  }
+  return confidence;
+}
+
+function isOffTopicCategory(categoryTag: string | null): boolean {
+  if (!categoryTag) return false;
+  const category = categoryTag.toLowerCase();
+  return OFF_TOPIC_CATEGORIES.some((topic) => category.includes(topic));
+}
@@ -0,0 +1,196 @@
+import { MarketLinkRepository } from '../../adapters/database/repositories/market-link.repository.js';
+import { MarketRepository } from '../../adapters/database/repositories/market.repository.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import { buildInstrumentIndex, InstrumentIndex, matchMarket } from './instrument-matcher.js';
+import { getEnvironment } from '../../config/environment.js';
+import {
+  InstrumentMarketLink,
+  MarketInstrumentLink,
+  MarketInstrumentLinkRecord,
+  MarketLinkRunResult,
+  MarketLinkStatus,
+} from '../../types/market-link.types.js';
+import { MarketRecord } from '../../types/market.types.js';
+import { NotFoundError, ValidationError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+
+const PAGE_SIZE = 500;
+
+export interface LinkReadOptions {
+  minConfidence?: number;
+  includeRejected?: boolean;
+}
+
+/**
+ * Market ↔ instrument linking
+ *
+ * Matches market questions, slugs and category tags against the instrument
+ * symbol/name index and stores the results as proposed links. Links can be
+ * confirmed or rejected by hand; those overrides survive every later run.
+ */
+export class MarketLinkingService {
+  private linkRepo: MarketLinkRepository;
+  private marketRepo: MarketRepository;
+  private instrumentRepo: InstrumentRepository;
+  private logger;
+
+  constructor() {
+    this.linkRepo = new MarketLinkRepository();
+    this.marketRepo = new MarketRepository();
+    this.instrumentRepo = new InstrumentRepository();
+    this.logger = getLogger();
+  }
+
+  /**
+   * Re-match every active market against a freshly loaded instrument index
+   */
+  async linkActiveMarkets(): Promise<MarketLinkRunResult> {
+    const result: MarketLinkRunResult = {
+      marketsScanned: 0,
+      linksProposed: 0,
+      linksRemoved: 0,
+      errors: 0,
+    };
+
+    const index = await this.loadIndex();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { markets } = await this.marketRepo.findMany({
+        active: true,
+        limit: PAGE_SIZE,
+        offset,
+      });
+
+      for (const market of markets) {
+        try {
+          const { proposed, removed } = await this.proposeLinks(market, index);
+          result.linksProposed += proposed;
+          result.linksRemoved += removed;
+        } catch (error) {
+          result.errors++;
+          this.logger.error({ err: error, marketId: market.id }, 'Failed to link market');
+        }
+      }
+
+      result.marketsScanned += markets.length;
+      if (markets.length < PAGE_SIZE) break;
+    }
+
+    this.logger.info(result, 'Market linking run completed');
+    return result;
+  }
+
+  /**
+   * Re-match a single market and return its current links
+   */
+  async linkMarket(marketId: string): Promise<MarketInstrumentLink[]> {
+    const market = await this.marketRepo.findById(marketId);
+    if (!market) {
+      throw new NotFoundError('Market', marketId);
+    }
+
+    await this.proposeLinks(market, await this.loadIndex());
+    return this.linkRepo.findByMarket(marketId, { includeRejected: true });
+  }
+
+  async getMarketsForInstrument(
+    instrumentId: string,
+    options: LinkReadOptions = {},
+  ): Promise<InstrumentMarketLink[]> {
+    this.validateMinConfidence(options.minConfidence);
+
+    const instrument = await this.instrumentRepo.findById(instrumentId);
+    if (!instrument) {
+      throw new NotFoundError('Instrument', instrumentId);
+    }
+
+    return this.linkRepo.findByInstrument(instrumentId, options);
+  }
+
+  async getInstrumentsForMarket(
+    marketId: string,
+    options: LinkReadOptions = {},
+  ): Promise<MarketInstrumentLink[]> {
+    this.validateMinConfidence(options.minConfidence);
+
+    const market = await this.marketRepo.findById(marketId);
+    if (!market) {
+      throw new NotFoundError('Market', marketId);
+    }
+
+    return this.linkRepo.findByMarket(marketId, options);
+  }
+
+  /**
+   * Confirm or reject a link by hand
+   */
+  async overrideLink(
+    marketId: string,
+    instrumentId: string,
+    status: MarketLinkStatus,
+  ): Promise<MarketInstrumentLinkRecord> {
+    if (status !== 'confirmed' && status !== 'rejected') {
+      throw new ValidationError('status must be "confirmed" or "rejected"');
+    }
+
+    const [market, instrument] = await Promise.all([
+      this.marketRepo.findById(marketId),
+      this.instrumentRepo.findById(instrumentId),
+    ]);
+    if (!market) {
+      throw new NotFoundError('Market', marketId);
+    }
+    if (!instrument) {
+      throw new NotFoundError('Instrument', instrumentId);
+    }
+
+    const link = await this.linkRepo.setOverride(marketId, instrumentId, status);
+    this.logger.info({ marketId, instrumentId, status }, 'Market link overridden');
+    return link;
+  }
+
+  /**
+   * Remove a manual override so the matcher owns the pair again
+   */
+  async clearOverride(marketId: string, instrumentId: string): Promise<void> {
+    const cleared = await this.linkRepo.clearOverride(marketId, instrumentId);
+    if (!cleared) {
+      throw new NotFoundError('Market link override', `${marketId}/${instrumentId}`);
+    }
+    this.logger.info({ marketId, instrumentId }, 'Market link override cleared');
+  }
+
+  private async proposeLinks(
+    market: MarketRecord,
+    index: InstrumentIndex,
+  ): Promise<{ proposed: number; removed: number }> {
+    const env = getEnvironment();
+    const matches = matchMarket(market, index, env.MARKET_LINKING_MIN_CONFIDENCE);
+
+    return this.linkRepo.replaceProposals(
+      market.id,
+      matches.map((match) => ({
+        marketId: market.id,
+        instrumentId: match.instrumentId,
+        confidence: match.confidence,
+        matchMethods: match.matchMethods,
+        evidence: match.evidence,
+      })),
+    );
+  }
+
+  private async loadIndex(): Promise<InstrumentIndex> {
+    const candidates = await this.instrumentRepo.findLinkCandidates();
+    this.logger.debug({ instruments: candidates.length }, 'Loaded instrument index for linking');
+    return buildInstrumentIndex(candidates);
+  }
+
+  private validateMinConfidence(minConfidence: number | undefined): void {
+    if (
+      minConfidence !== undefined &&
+      (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1)
+    ) {
+      throw new ValidationError('minConfidence must be between 0 and 1');
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  outcomeKeys,
+  resolutionFromGamma,
+  resolutionFromPayouts,
+  settledRealizedPnl,
+  winningOutcome,
+} from '../market-resolution';
+import type { PolymarketResolutionState } from '../../../adapters/polymarket/polymarket.adapter';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+function state(overrides: Partial<PolymarketResolutionState>): PolymarketResolutionState {
+  return {
+    closed: true,
+    umaResolutionStatus: 'resolved',
+    closedTime: new Date('2026-02-28T18:00:00Z'),
+    outcomes: ['Yes', 'No'],
+    outcomePrices: [1, 0],
+    ...overrides,
+  };
+}
+
+describe('outcomeKeys', () => {
+  it('should map binary markets to YES/NO and keep other outcome names', () => {
+    expect(outcomeKeys(['Lakers', 'Celtics'], 'Lakers vs. Celtics')).toEqual(['YES', 'NO']);
+    expect(outcomeKeys(['Trump', 'Harris', 'Other'], 'Who wins?')).toEqual([
+      'TRUMP',
+      'HARRIS',
+      'OTHER',
+    ]);
+  });
+});
+
+describe('resolutionFromGamma', () => {
+  it('should resolve a closed market with pinned prices', () => {
+    const resolution = resolutionFromGamma(state({ outcomePrices: [0, 1] }), ['YES', 'NO'], NOW);
+
+    expect(resolution).toEqual({
+      outcome: 'NO',
+      payouts: { YES: 0, NO: 1 },
+      resolvedAt: new Date('2026-02-28T18:00:00Z'),
+      source: 'gamma',
+    });
+  });
+
+  it('should wait while the market is open or prices are still live', () => {
+    expect(resolutionFromGamma(state({ closed: false }), ['YES', 'NO'], NOW)).toBeNull();
+    expect(
+      resolutionFromGamma(state({ outcomePrices: [0.9995, 0.0005] }), ['YES', 'NO'], NOW),
+    ).toBeNull();
+  });
+
+  it('should only accept an even split once UMA reports the market resolved', () => {
+    const split = state({ outcomePrices: [0.5, 0.5], closedTime: null });
+
+    expect(
+      resolutionFromGamma({ ...split, umaResolutionStatus: 'proposed' }, ['YES', 'NO'], NOW),
+    ).toBeNull();
+    expect(resolutionFromGamma(split, ['YES', 'NO'], NOW)).toMatchObject({
+      outcome: null,
+      payouts: { YES: 0.5, NO: 0.5 },
+      resolvedAt: NOW,
+    });
+  });
+});
+
+describe('resolutionFromPayouts', () => {
+  it('should read reported on-chain payouts and ignore unreported conditions', () => {
+    expect(resolutionFromPayouts([1n, 0n], 1n, ['YES', 'NO'], NOW)).toEqual({
+      outcome: 'YES',
+      payouts: { YES: 1, NO: 0 },
+      resolvedAt: NOW,
+      source: 'onchain',
+    });
+    expect(resolutionFromPayouts([], 0n, ['YES', 'NO'], NOW)).toBeNull();
+  });
+});
+
+describe('winningOutcome', () => {
+  it('should return null for split payouts', () => {
+    expect(winningOutcome({ YES: 0.5, NO: 0.5 })).toBeNull();
+  });
+});
+
+describe('settledRealizedPnl', () => {
+  it('should redeem the remaining size at the payout on top of earlier realized PnL', () => {
+    const position = { avgPrice: '0.40', size: '100', realizedPnl: '5' };
+
+    expect(settledRealizedPnl(position, 1)).toBeCloseTo(65);
+    expect(settledRealizedPnl(position, 0)).toBeCloseTo(-35);
+  });
+});
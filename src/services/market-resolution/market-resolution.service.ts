@@ -0,0 +1,122 @@
+import { MarketRepository } from '../../adapters/database/repositories/market.repository.js';
+import { PositionRepository } from '../../adapters/database/repositories/position.repository.js';
+import { PolymarketAdapter } from '../../adapters/polymarket/polymarket.adapter.js';
+import { ViemAdapter } from '../../adapters/blockchain/viem.adapter.js';
+import { PositionTrackingService } from '../position-tracking/position-tracking.service.js';
+import { outcomeKeys, resolutionFromGamma, resolutionFromPayouts } from './market-resolution.js';
+import { getEnvironment } from '../../config/environment.js';
+import type { MarketRecord, MarketResolution } from '../../types/market.types.js';
+import { getLogger } from '../../utils/logger.js';
+
+export interface ResolutionRunResult {
+  checked: number;
+  resolved: number;
+  settledPositions: number;
+  errors: number;
+}
+
+/**
+ * Detects resolved Polymarket markets and settles positions on them.
+ *
+ * Gamma's closing state is checked first; markets it doesn't report as
+ * final fall back to the Conditional Tokens payouts on Polygon, which are
+ * authoritative once the oracle has reported.
+ */
+export class MarketResolutionService {
+  private marketRepo: MarketRepository;
+  private positionRepo: PositionRepository;
+  private polymarket: PolymarketAdapter;
+  private chain: ViemAdapter;
+  private positionService: PositionTrackingService;
+  private logger;
+
+  constructor() {
+    this.marketRepo = new MarketRepository();
+    this.positionRepo = new PositionRepository();
+    this.polymarket = new PolymarketAdapter();
+    this.chain = new ViemAdapter();
+    this.positionService = new PositionTrackingService();
+    this.logger = getLogger();
+  }
+
+  async run(now: Date = new Date()): Promise<ResolutionRunResult> {
+    const env = getEnvironment();
+    const result: ResolutionRunResult = { checked: 0, resolved: 0, settledPositions: 0, errors: 0 };
+
+    // Positions opened from trades ingested after their market resolved
+    for (const marketId of await this.positionRepo.findResolvedMarketsWithUnsettledPositions()) {
+      const market = await this.marketRepo.findById(marketId);
+      if (market?.resolution) {
+        result.settledPositions += await this.positionService.settleMarket(
+          marketId,
+          market.resolution,
+        );
+      }
+    }
+
+    // Held markets first so settlement isn't queued behind the long tail
+    const held = await this.marketRepo.findPendingResolution({
+      now,
+      limit: env.MARKET_RESOLUTION_BATCH_SIZE,
+      withPositions: true,
+    });
+    const rest =
+      held.length < env.MARKET_RESOLUTION_BATCH_SIZE
+        ? await this.marketRepo.findPendingResolution({
+            now,
+            limit: env.MARKET_RESOLUTION_BATCH_SIZE - held.length,
+          })
+        : [];
+    const heldIds = new Set(held.map((m) => m.id));
+    const pending = [...held, ...rest.filter((m) => !heldIds.has(m.id))];
+
+    for (const market of pending) {
+      result.checked++;
+      try {
+        const resolution = await this.resolveMarket(market, now);
+        if (!resolution) {
+          await this.marketRepo.markResolutionChecked(market.id);
+          continue;
+        }
+
+        await this.marketRepo.markResolved(market.id, resolution);
+        result.resolved++;
+        result.settledPositions += await this.positionService.settleMarket(market.id, resolution);
+      } catch (error) {
+        result.errors++;
+        this.logger.error({ error, marketId: market.id }, 'Failed to check market resolution');
+        await this.marketRepo.markResolutionChecked(market.id).catch(() => undefined);
+      }
+    }
+
+    this.logger.info(result, 'Market resolution run complete');
+    return result;
+  }
+
+  /**
+   * Resolution of a single market, or null while it's still pending
+   */
+  async resolveMarket(
+    market: MarketRecord,
+    now: Date = new Date(),
+  ): Promise<MarketResolution | null> {
+    const state = await this.polymarket.getResolutionState(market.id);
+    const outcomes = state?.outcomes.length ? state.outcomes : market.outcomes;
+    const keys = outcomeKeys(outcomes, market.question);
+
+    const fromGamma = state ? resolutionFromGamma(state, keys, now) : null;
+    if (fromGamma) {
+      return fromGamma;
+    }
+
+    if (!getEnvironment().MARKET_RESOLUTION_ONCHAIN_ENABLED || !market.id.startsWith('0x')) {
+      return null;
+    }
+
+    const { numerators, denominator } = await this.chain.getConditionPayouts(
+      market.id as `0x${string}`,
+      keys.length,
+    );
+    return resolutionFromPayouts(numerators, denominator, keys, now);
+  }
+}
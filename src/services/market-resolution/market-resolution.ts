@@ -0,0 +1,101 @@
+/**
+ * Pure helpers for market resolution: payouts from Gamma's closing state or
+ * the Conditional Tokens contract, keyed by the canonical outcomes positions
+ * are stored under, and the PnL a position realizes at settlement.
+ */
+
+import type { PolymarketResolutionState } from '../../adapters/polymarket/polymarket.adapter.js';
+import type { MarketResolution } from '../../types/market.types.js';
+import { normalizeOutcomes } from '../../utils/outcome-normalization.utils.js';
+
+// Closing prices Gamma pins outcomes to: winner/loser, or an even split
+const FINAL_PRICES = new Set([0, 0.5, 1]);
+const PAYOUT_SUM_TOLERANCE = 1e-6;
+
+/**
+ * Canonical key of each outcome in outcome order: YES/NO for binary markets
+ * (as in `Market.tokens`), otherwise the upper-cased outcome name
+ */
+export function outcomeKeys(outcomes: string[], question: string): string[] {
+  const mapping = normalizeOutcomes(outcomes, question);
+  return outcomes.map((outcome, index) => {
+    if (!mapping) return outcome.toUpperCase();
+    return index === outcomes.indexOf(mapping.YES) ? 'YES' : 'NO';
+  });
+}
+
+/**
+ * The outcome paying out in full, or null for split payouts
+ */
+export function winningOutcome(payouts: Record<string, number>): string | null {
+  return Object.entries(payouts).find(([, payout]) => payout === 1)?.[0] ?? null;
+}
+
+/**
+ * Resolution from Gamma's market state. A closed market counts as resolved
+ * when every outcome price is pinned to 0 or 1, or when UMA reports it
+ * resolved with an even split.
+ */
+export function resolutionFromGamma(
+  state: PolymarketResolutionState,
+  keys: string[],
+  now: Date,
+): MarketResolution | null {
+  const prices = state.outcomePrices;
+  if (!state.closed || prices.length === 0 || prices.length !== keys.length) return null;
+  if (!prices.every((price) => FINAL_PRICES.has(price))) return null;
+  if (Math.abs(prices.reduce((sum, p) => sum + p, 0) - 1) > PAYOUT_SUM_TOLERANCE) return null;
+
+  const split = prices.includes(0.5);
+  if (split && state.umaResolutionStatus !== 'resolved') return null;
+
+  const payouts = toPayouts(keys, prices);
+  return {
+    outcome: winningOutcome(payouts),
+    payouts,
+    resolvedAt: state.closedTime ?? now,
+    source: 'gamma',
+  };
+}
+
+/**
+ * Resolution from on-chain `payoutNumerators` / `payoutDenominator`, or null
+ * while the condition is unreported
+ */
+export function resolutionFromPayouts(
+  numerators: bigint[],
+  denominator: bigint,
+  keys: string[],
+  now: Date,
+): MarketResolution | null {
+  if (denominator === 0n || numerators.length === 0 || numerators.length !== keys.length) {
+    return null;
+  }
+
+  const payouts = toPayouts(
+    keys,
+    numerators.map((n) => Number(n) / Number(denominator)),
+  );
+  return { outcome: winningOutcome(payouts), payouts, resolvedAt: now, source: 'onchain' };
+}
+
+/**
+ * Realized PnL of a position after settlement: the remaining size is
+ * redeemed at the outcome's payout (average-cost method, like a sell)
+ */
+export function settledRealizedPnl(
+  position: { avgPrice: string; size: string; realizedPnl: string },
+  payout: number,
+): number {
+  const size = parseFloat(position.size);
+  const avgPrice = parseFloat(position.avgPrice);
+  return parseFloat(position.realizedPnl) + (payout - avgPrice) * size;
+}
+
+function toPayouts(keys: string[], values: number[]): Record<string, number> {
+  const payouts: Record<string, number> = {};
+  keys.forEach((key, index) => {
+    payouts[key] = Math.round(values[index] * 1_000_000) / 1_000_000;
+  });
+  return payouts;
+}
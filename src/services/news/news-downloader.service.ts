@@ -4,6 +4,8 @@ import { DocumentRepository } from '../../adapters/database/repositories/documen
 import { NewsStorage } from './storage.interface.js';
 import { createNewsStorage } from './storage.factory.js';
 import { getLogger } from '../../utils/logger.js';
+import { SearchIndexerService } from '../search/search-indexer.service.js';
+import { getEnvironment } from '../../config/environment.js';
 import { DocumentRecord } from '../../types/document.types.js';
 import { decodeHtmlEntities } from '../../utils/html-entities.js';
 
@@ -20,18 +22,24 @@ import { decodeHtmlEntities } from '../../utils/html-entities.js';
  * - Fetch article content via HTTP
  * - Extract clean text from HTML
  * - Compute SHA256 content hash
- * - Store in NewsStorage
+ * - Store in NewsStorage, and as DocumentContent for full-text search
  * - Update Document status
  */
 export class NewsDownloaderService {
   private documentRepo: DocumentRepository;
   private storage: NewsStorage;
   private logger;
+  private searchIndexer: SearchIndexerService | null = null;
 
   constructor(storage?: NewsStorage) {
     this.documentRepo = new DocumentRepository();
     this.storage = storage || createNewsStorage();
     this.logger = getLogger();
+
+    // Initialize search indexer if enabled
+    if (getEnvironment().SEARCH_INDEXER_ENABLED) {
+      this.searchIndexer = new SearchIndexerService();
+    }
   }
 
   /**
@@ -153,6 +161,13 @@ export class NewsDownloaderService {
         text,
       );
 
+      // Keep the text alongside the document so it can be searched
+      await this.documentRepo.createContent({
+        documentId: document.id,
+        fullText: text,
+        wordCount: text.split(/\s+/).filter(Boolean).length,
+      });
+
       // Update status to DOWNLOADED
       await this.documentRepo.updateStatus(document.id, 'DOWNLOADED', {
         storagePath,
@@ -160,6 +175,13 @@ export class NewsDownloaderService {
         downloadedAt: new Date(),
       });
 
+      // Index content for full-text search (don't block)
+      if (this.searchIndexer) {
+        this.searchIndexer.indexDocumentContent(document.id).catch((error) => {
+          this.logger.warn({ error, documentId: document.id }, 'Search indexing failed');
+        });
+      }
+
       this.logger.info(
         {
           documentId: document.id,
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEquityCurve,
+  concentration,
+  exposureBuckets,
+  positionKey,
+  settlementPrice,
+  winRate,
+} from '../portfolio-analytics';
+import type { Trade } from '../../../types/trade.types';
+
+const DAY = 86_400_000;
+const D0 = Date.UTC(2026, 0, 10);
+
+function trade(overrides: Partial<Trade>): Trade {
+  return {
+    id: 't',
+    account: 'paper',
+    walletAddress: '0xabc',
+    marketId: 'm1',
+    outcome: 'YES',
+    side: 'buy',
+    price: '0.40',
+    size: '100',
+    txHash: null,
+    blockNumber: null,
+    gasUsed: null,
+    fee: null,
+    timestamp: new Date(D0 + 3_600_000),
+    confirmedAt: null,
+    ...overrides,
+  };
+}
+
+describe('buildEquityCurve', () => {
+  it('should split realized and unrealized PnL day by day', () => {
+    const trades = [
+      trade({ side: 'buy', price: '0.40', size: '100' }),
+      trade({ side: 'sell', price: '0.60', size: '50', timestamp: new Date(D0 + 2 * DAY + 1000) }),
+    ];
+    const closes = new Map([
+      [
+        positionKey('m1', 'YES'),
+        new Map([
+          [D0, 0.45],
+          [D0 + DAY, 0.5],
+        ]),
+      ],
+    ]);
+
+    const curve = buildEquityCurve(trades, closes, new Date(D0), new Date(D0 + 3 * DAY));
+
+    expect(curve.map((p) => p.date)).toEqual([
+      '2026-01-10',
+      '2026-01-11',
+      '2026-01-12',
+      '2026-01-13',
+    ]);
+    expect(curve[0]).toMatchObject({ realizedPnl: '0.00', unrealizedPnl: '5.00', equity: '5.00' });
+    expect(curve[1]).toMatchObject({ unrealizedPnl: '10.00', marketValue: '50.00' });
+    // No close on day 2: marked at the sell price
+    expect(curve[2]).toMatchObject({
+      realizedPnl: '10.00',
+      unrealizedPnl: '10.00',
+      equity: '20.00',
+    });
+    expect(curve[3].equity).toBe('20.00');
+  });
+
+  it('should replay trades before the window without emitting points', () => {
+    const trades = [trade({ timestamp: new Date(D0 - 10 * DAY) })];
+    const curve = buildEquityCurve(trades, new Map(), new Date(D0), new Date(D0 + DAY));
+
+    expect(curve).toHaveLength(2);
+    expect(curve[0]).toMatchObject({ date: '2026-01-10', marketValue: '40.00' });
+  });
+});
+
+describe('exposure and concentration', () => {
+  const now = new Date(D0);
+  const exposures = [
+    { marketId: 'm1', marketValue: 60, category: 'politics', expiryDate: new Date(D0 + 3 * DAY) },
+    { marketId: 'm2', marketValue: 30, category: 'sports', expiryDate: new Date(D0 + 60 * DAY) },
+    { marketId: 'm2', marketValue: 10, category: 'sports', expiryDate: new Date(D0 + 60 * DAY) },
+  ];
+
+  it('should bucket by category and time to resolution', () => {
+    const { byCategory, byResolution } = exposureBuckets(exposures, now);
+
+    expect(byCategory).toEqual([
+      { key: 'politics', marketValue: '60.00', share: 0.6, positions: 1 },
+      { key: 'sports', marketValue: '40.00', share: 0.4, positions: 2 },
+    ]);
+    expect(byResolution.map((b) => b.key)).toEqual(['0-7d', '30-90d']);
+  });
+
+  it('should compute Herfindahl concentration per market', () => {
+    expect(concentration(exposures)).toEqual({
+      herfindahl: 0.52,
+      largestPositionShare: 0.6,
+      top5Share: 1,
+    });
+  });
+});
+
+describe('win rate', () => {
+  it('should only treat settled prices as resolved', () => {
+    expect(settlementPrice(0.995)).toBe(1);
+    expect(settlementPrice(0.004)).toBe(0);
+    expect(settlementPrice(0.5)).toBeNull();
+  });
+
+  it('should count settlement value of remaining size', () => {
+    const result = winRate([
+      { realizedPnl: 0, size: 100, avgPrice: 0.4, settlementPrice: 1 },
+      { realizedPnl: 5, size: 100, avgPrice: 0.3, settlementPrice: 0 },
+      { realizedPnl: 12, size: 0, avgPrice: 0.5, settlementPrice: 0 },
+    ]);
+
+    expect(result).toEqual({ resolvedPositions: 3, wins: 2, losses: 1, rate: 0.6667 });
+  });
+});
@@ -0,0 +1,192 @@
+import { MarketRepository } from '../../adapters/database/repositories/market.repository.js';
+import { TradeRepository } from '../../adapters/database/repositories/trade.repository.js';
+import { CandleAggregator } from '../market-data/candle-aggregator.service.js';
+import { PositionTrackingService } from './position-tracking.service.js';
+import {
+  buildEquityCurve,
+  concentration,
+  exposureBuckets,
+  OpenExposure,
+  positionKey,
+  ResolvedPositionPnl,
+  settlementPrice,
+  startOfUtcDay,
+  winRate,
+} from './portfolio-analytics.js';
+import { PortfolioAnalytics } from '../../types/position.types.js';
+import { MarketRecord } from '../../types/market.types.js';
+import { Outcome, TradingAccount } from '../../types/trade.types.js';
+import { ValidationError } from '../../utils/errors.js';
+import { validateAddress } from '../../utils/validators.js';
+import { getLogger } from '../../utils/logger.js';
+
+const MAX_CURVE_DAYS = 365;
+
+/**
+ * Portfolio-level analytics for a wallet's live or paper account
+ */
+export class PortfolioAnalyticsService {
+  private positionService: PositionTrackingService;
+  private tradeRepo: TradeRepository;
+  private marketRepo: MarketRepository;
+  private candleAggregator: CandleAggregator;
+  private logger;
+
+  constructor() {
+    this.positionService = new PositionTrackingService();
+    this.tradeRepo = new TradeRepository();
+    this.marketRepo = new MarketRepository();
+    this.candleAggregator = new CandleAggregator();
+    this.logger = getLogger();
+  }
+
+  async getAnalytics(
+    walletAddress: string,
+    options: { account?: TradingAccount; days?: number } = {},
+  ): Promise<PortfolioAnalytics> {
+    validateAddress(walletAddress);
+
+    const account = options.account ?? 'live';
+    const days = options.days ?? 90;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_CURVE_DAYS) {
+      throw new ValidationError(`days must be between 1 and ${MAX_CURVE_DAYS}`);
+    }
+
+    const now = new Date();
+    const from = new Date(startOfUtcDay(now) - (days - 1) * 86_400_000);
+
+    // Refreshes positions the same way GET /positions/:wallet does
+    const { positions } = await this.positionService.getPositions(walletAddress, account);
+    const trades = await this.tradeRepo.findByWallet(
+      account === 'paper' ? walletAddress.toLowerCase() : walletAddress,
+      account,
+    );
+
+    const marketIds = new Set([
+      ...positions.map((p) => p.marketId),
+      ...trades.map((t) => t.marketId),
+    ]);
+    const markets = new Map<string, MarketRecord>();
+    for (const marketId of marketIds) {
+      const market = await this.marketRepo.findById(marketId);
+      if (market) markets.set(marketId, market);
+    }
+
+    const exposures: OpenExposure[] = [];
+    const resolved: ResolvedPositionPnl[] = [];
+    let realizedPnl = 0;
+    let unrealizedPnl = 0;
+
+    for (const position of positions) {
+      const size = parseFloat(position.size);
+      const avgPrice = parseFloat(position.avgPrice);
+      realizedPnl += parseFloat(position.realizedPnl);
+      unrealizedPnl += parseFloat(position.unrealizedPnl);
+
+      const market = markets.get(position.marketId);
+      if (!market) continue;
+
+      const price = this.outcomePrice(market, position.outcome);
+
+      if (position.settledAt) {
+        // Realized P&L already includes the redeemed size
+        resolved.push({
+          realizedPnl: parseFloat(position.realizedPnl),
+          size: 0,
+          avgPrice,
+          settlementPrice: parseFloat(position.settlementPrice ?? '0'),
+        });
+        continue;
+      }
+
+      const settlement = this.isResolved(market, price, now) ? settlementPrice(price) : null;
+
+      if (settlement !== null) {
+        resolved.push({
+          realizedPnl: parseFloat(position.realizedPnl),
+          size,
+          avgPrice,
+          settlementPrice: settlement,
+        });
+      } else if (size > 0) {
+        exposures.push({
+          marketId: market.id,
+          marketValue: size * (price ?? avgPrice),
+          category: market.categoryTag,
+          expiryDate: market.expiryDate,
+        });
+      }
+    }
+
+    const closes = await this.loadDailyCloses(
+      new Set(trades.map((t) => positionKey(t.marketId, t.outcome))),
+      from,
+      now,
+    );
+
+    return {
+      walletAddress,
+      account,
+      asOf: now,
+      summary: {
+        realizedPnl: realizedPnl.toFixed(2),
+        unrealizedPnl: unrealizedPnl.toFixed(2),
+        totalPnl: (realizedPnl + unrealizedPnl).toFixed(2),
+        marketValue: exposures.reduce((sum, e) => sum + e.marketValue, 0).toFixed(2),
+        openPositions: exposures.length,
+      },
+      exposure: exposureBuckets(exposures, now),
+      concentration: concentration(exposures),
+      winRate: winRate(resolved),
+      equityCurve: buildEquityCurve(trades, closes, from, now),
+    };
+  }
+
+  /**
+   * Daily closes per traded outcome from trade/orderbook events. Failures
+   * leave the outcome marked at its last traded price.
+   */
+  private async loadDailyCloses(
+    keys: Set<string>,
+    from: Date,
+    to: Date,
+  ): Promise<Map<string, Map<number, number>>> {
+    const closes = new Map<string, Map<number, number>>();
+
+    for (const key of keys) {
+      const separator = key.lastIndexOf(':');
+      const marketId = key.slice(0, separator);
+      const outcome = key.slice(separator + 1) as Outcome;
+
+      try {
+        const candles = await this.candleAggregator.getCandles({
+          marketId,
+          outcome,
+          interval: '1d',
+          from,
+          to,
+        });
+        closes.set(
+          key,
+          new Map(candles.map((c) => [startOfUtcDay(c.startTime), parseFloat(c.close)])),
+        );
+      } catch (error) {
+        this.logger.warn({ err: error, marketId, outcome }, 'Failed to load daily closes');
+      }
+    }
+
+    return closes;
+  }
+
+  private outcomePrice(market: MarketRecord, outcome: Outcome): number | null {
+    const yes = market.yesPrice !== null ? parseFloat(market.yesPrice) : null;
+    const no = market.noPrice !== null ? parseFloat(market.noPrice) : null;
+
+    if (outcome === 'YES') return yes;
+    return no ?? (yes !== null ? 1 - yes : null);
+  }
+
+  private isResolved(market: MarketRecord, price: number | null, now: Date): boolean {
+    return (!market.active || market.expiryDate <= now) && settlementPrice(price) !== null;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Pure helpers for portfolio analytics: trade replay into a daily PnL/equity
+ * curve, exposure buckets, concentration and win rate on resolved markets.
+ */
+
+import type { EquityPoint, ExposureBucket } from '../../types/position.types.js';
+import type { Trade } from '../../types/trade.types.js';
+
+const DAY_MS = 86_400_000;
+
+// Outcome prices at or beyond these bounds are treated as settled
+const SETTLED_HIGH = 0.99;
+const SETTLED_LOW = 0.01;
+
+export interface OpenExposure {
+  marketId: string;
+  marketValue: number;
+  category: string | null;
+  expiryDate: Date;
+}
+
+export interface ResolvedPositionPnl {
+  realizedPnl: number;
+  size: number;
+  avgPrice: number;
+  settlementPrice: number;
+}
+
+export function positionKey(marketId: string, outcome: string): string {
+  return `${marketId}:${outcome}`;
+}
+
+export function startOfUtcDay(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS) * DAY_MS;
+}
+
+/**
+ * Settlement value of an outcome token, or null while the price is still live
+ */
+export function settlementPrice(price: number | null): number | null {
+  if (price === null || Number.isNaN(price)) return null;
+  if (price >= SETTLED_HIGH) return 1;
+  if (price <= SETTLED_LOW) return 0;
+  return null;
+}
+
+/**
+ * Replay trades (average-cost method, like PositionTrackingService) and mark
+ * holdings to each day's close. Days without a close for a holding fall back
+ * to the previous close, then to the last traded price.
+ *
+ * @param closes - positionKey -> (UTC day start ms -> close)
+ */
+export function buildEquityCurve(
+  trades: Trade[],
+  closes: Map<string, Map<number, number>>,
+  from: Date,
+  to: Date,
+): EquityPoint[] {
+  const sorted = [...trades].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  if (sorted.length === 0) return [];
+
+  const holdings = new Map<string, { size: number; avgPrice: number; mark: number }>();
+  let realized = 0;
+  let tradeIndex = 0;
+
+  const firstDay = Math.max(startOfUtcDay(sorted[0].timestamp), startOfUtcDay(from));
+  const lastDay = startOfUtcDay(to);
+  const points: EquityPoint[] = [];
+
+  for (let day = startOfUtcDay(sorted[0].timestamp); day <= lastDay; day += DAY_MS) {
+    const dayEnd = day + DAY_MS;
+
+    while (tradeIndex < sorted.length && sorted[tradeIndex].timestamp.getTime() < dayEnd) {
+      const trade = sorted[tradeIndex++];
+      const key = positionKey(trade.marketId, trade.outcome);
+      const price = parseFloat(trade.price);
+      const size = parseFloat(trade.size);
+      const holding = holdings.get(key) ?? { size: 0, avgPrice: 0, mark: price };
+
+      if (trade.side === 'buy') {
+        const newSize = holding.size + size;
+        holding.avgPrice = (holding.avgPrice * holding.size + price * size) / newSize;
+        holding.size = newSize;
+      } else {
+        const sold = Math.min(size, holding.size);
+        realized += (price - holding.avgPrice) * sold;
+        holding.size -= sold;
+      }
+      holding.mark = price;
+      holdings.set(key, holding);
+    }
+
+    for (const [key, holding] of holdings) {
+      const close = closes.get(key)?.get(day);
+      if (close !== undefined) holding.mark = close;
+    }
+
+    // Days before the requested window only advance the replay
+    if (day < firstDay) continue;
+
+    let marketValue = 0;
+    let unrealized = 0;
+    for (const holding of holdings.values()) {
+      if (holding.size <= 0) continue;
+      marketValue += holding.size * holding.mark;
+      unrealized += (holding.mark - holding.avgPrice) * holding.size;
+    }
+
+    points.push({
+      date: new Date(day).toISOString().slice(0, 10),
+      realizedPnl: realized.toFixed(2),
+      unrealizedPnl: unrealized.toFixed(2),
+      equity: (realized + unrealized).toFixed(2),
+      marketValue: marketValue.toFixed(2),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Group open exposure by category and by time to resolution
+ */
+export function exposureBuckets(
+  exposures: OpenExposure[],
+  now: Date,
+): { byCategory: ExposureBucket[]; byResolution: ExposureBucket[] } {
+  const byCategory = groupExposure(exposures, (e) => e.category ?? 'uncategorized');
+  const byResolution = groupExposure(exposures, (e) => resolutionBucket(e.expiryDate, now));
+  return { byCategory, byResolution };
+}
+
+function resolutionBucket(expiryDate: Date, now: Date): string {
+  const days = (expiryDate.getTime() - now.getTime()) / DAY_MS;
+  if (days <= 0) return 'past_expiry';
+  if (days <= 7) return '0-7d';
+  if (days <= 30) return '7-30d';
+  if (days <= 90) return '30-90d';
+  return '90d+';
+}
+
+function groupExposure(
+  exposures: OpenExposure[],
+  keyFor: (exposure: OpenExposure) => string,
+): ExposureBucket[] {
+  const total = exposures.reduce((sum, e) => sum + e.marketValue, 0);
+  const groups = new Map<string, { value: number; positions: number }>();
+
+  for (const exposure of exposures) {
+    const key = keyFor(exposure);
+    const group = groups.get(key) ?? { value: 0, positions: 0 };
+    group.value += exposure.marketValue;
+    group.positions += 1;
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      marketValue: group.value.toFixed(2),
+      share: total > 0 ? round4(group.value / total) : 0,
+      positions: group.positions,
+    }))
+    .sort((a, b) => parseFloat(b.marketValue) - parseFloat(a.marketValue));
+}
+
+/**
+ * Concentration of open market value across markets (YES and NO legs of
+ * one market count together)
+ */
+export function concentration(exposures: OpenExposure[]): {
+  herfindahl: number;
+  largestPositionShare: number;
+  top5Share: number;
+} {
+  const byMarket = new Map<string, number>();
+  for (const exposure of exposures) {
+    byMarket.set(exposure.marketId, (byMarket.get(exposure.marketId) ?? 0) + exposure.marketValue);
+  }
+
+  const total = [...byMarket.values()].reduce((sum, v) => sum + v, 0);
+  if (total <= 0) {
+    return { herfindahl: 0, largestPositionShare: 0, top5Share: 0 };
+  }
+
+  const shares = [...byMarket.values()].map((v) => v / total).sort((a, b) => b - a);
+  return {
+    herfindahl: round4(shares.reduce((sum, s) => sum + s * s, 0)),
+    largestPositionShare: round4(shares[0]),
+    top5Share: round4(shares.slice(0, 5).reduce((sum, s) => sum + s, 0)),
+  };
+}
+
+/**
+ * A resolved position wins when realized PnL plus the settlement value of
+ * any remaining size beats its cost
+ */
+export function winRate(resolved: ResolvedPositionPnl[]): {
+  resolvedPositions: number;
+  wins: number;
+  losses: number;
+  rate: number | null;
+} {
+  let wins = 0;
+  let losses = 0;
+
+  for (const position of resolved) {
+    const pnl =
+      position.realizedPnl + (position.settlementPrice - position.avgPrice) * position.size;
+    if (pnl > 0) wins += 1;
+    else if (pnl < 0) losses += 1;
+  }
+
+  return {
+    resolvedPositions: resolved.length,
+    wins,
+    losses,
+    rate: wins + losses > 0 ? round4(wins / (wins + losses)) : null,
+  };
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
@@ -1,7 +1,9 @@
 import { PositionRepository } from '../../adapters/database/repositories/position.repository.js';
 import { MarketDataService } from '../market-data/market-data.service.js';
 import { Position, PositionListResponse } from '../../types/position.types.js';
-import { Trade, Outcome } from '../../types/trade.types.js';
+import { Trade, Outcome, TradingAccount } from '../../types/trade.types.js';
+import { MarketResolution } from '../../types/market.types.js';
+import { settledRealizedPnl } from '../market-resolution/market-resolution.js';
 import { validateAddress } from '../../utils/validators.js';
 import { getLogger } from '../../utils/logger.js';
 import { TradeIngestionService } from './trade-ingestion.service.js';
@@ -19,21 +21,33 @@ export class PositionTrackingService {
     this.logger = getLogger();
   }
 
-  async getPositions(walletAddress: string): Promise<PositionListResponse> {
-    this.logger.debug({ walletAddress }, 'Getting positions');
+  /**
+   * Positions for one account namespace. Live positions first pull new CLOB
+   * trades; paper positions are marked to the current book instead.
+   */
+  async getPositions(
+    walletAddress: string,
+    account: TradingAccount = 'live',
+  ): Promise<PositionListResponse> {
+    this.logger.debug({ walletAddress, account }, 'Getting positions');
 
     validateAddress(walletAddress);
 
-    const ingestedTrades = await this.tradeIngestionService.ingestTradesForWallet(walletAddress);
-    for (const trade of ingestedTrades) {
-      try {
-        await this.updatePositionFromTrade(trade);
-      } catch (error) {
-        this.logger.error({ error, trade }, 'Failed to update position from ingested trade');
+    if (account === 'paper') {
+      walletAddress = walletAddress.toLowerCase();
+      await this.updateUnrealizedPnl(walletAddress, 'paper');
+    } else {
+      const ingestedTrades = await this.tradeIngestionService.ingestTradesForWallet(walletAddress);
+      for (const trade of ingestedTrades) {
+        try {
+          await this.updatePositionFromTrade(trade);
+        } catch (error) {
+          this.logger.error({ error, trade }, 'Failed to update position from ingested trade');
+        }
       }
     }
 
-    const positions = await this.positionRepo.findByWallet(walletAddress);
+    const positions = await this.positionRepo.findByWallet(walletAddress, account);
 
     // Calculate total P&L
     const totalPnl = positions.reduce((sum, pos) => {
@@ -43,27 +57,42 @@ export class PositionTrackingService {
     }, 0);
 
     return {
+      account,
       positions,
       totalPnl: totalPnl.toFixed(2),
     };
   }
 
-  async updatePositionFromTrade(trade: Trade): Promise<Position> {
+  /**
+   * @param positionRepo - Override to update the position inside a transaction
+   */
+  async updatePositionFromTrade(
+    trade: Trade,
+    positionRepo: PositionRepository = this.positionRepo,
+  ): Promise<Position> {
     this.logger.debug({ trade }, 'Updating position from trade');
 
-    const existing = await this.positionRepo.findOne(
+    const existing = await positionRepo.findOne(
       trade.walletAddress,
       trade.marketId,
       trade.outcome,
+      trade.account,
     );
 
+    // Settlement already realized the position at its payout; redemptions
+    // and late fills don't change it further
+    if (existing?.settledAt) {
+      this.logger.debug({ trade }, 'Position already settled, ignoring trade');
+      return existing;
+    }
+
     const tradePrice = parseFloat(trade.price);
     const tradeSize = parseFloat(trade.size);
     const tradeCost = tradePrice * tradeSize;
 
     if (!existing) {
       // Create new position
-      return await this.positionRepo.upsert(
+      return await positionRepo.upsert(
         trade.walletAddress,
         trade.marketId,
         trade.outcome,
@@ -73,6 +102,7 @@ export class PositionTrackingService {
           realizedPnl: '0',
           unrealizedPnl: '0',
         },
+        trade.account,
       );
     }
 
@@ -103,7 +133,7 @@ export class PositionTrackingService {
       newAvgPrice = existingPrice;
     }
 
-    return await this.positionRepo.upsert(
+    return await positionRepo.upsert(
       trade.walletAddress,
       trade.marketId,
       trade.outcome,
@@ -112,17 +142,24 @@ export class PositionTrackingService {
         size: newSize.toFixed(6),
         realizedPnl: realizedPnl.toFixed(6),
       },
+      trade.account,
     );
   }
 
-  async updateUnrealizedPnl(walletAddress: string): Promise<void> {
-    this.logger.debug({ walletAddress }, 'Updating unrealized P&L');
+  async updateUnrealizedPnl(
+    walletAddress: string,
+    account: TradingAccount = 'live',
+  ): Promise<void> {
+    this.logger.debug({ walletAddress, account }, 'Updating unrealized P&L');
 
     validateAddress(walletAddress);
 
-    const positions = await this.positionRepo.findByWallet(walletAddress);
+    const positions = await this.positionRepo.findByWallet(walletAddress, account);
 
     for (const position of positions) {
+      // Settled positions carry no unrealized P&L
+      if (position.settledAt) continue;
+
       try {
         // Get current market price
         const orderbook = await this.marketDataService.getOrderbook(
@@ -146,6 +183,7 @@ export class PositionTrackingService {
           position.marketId,
           position.outcome as Outcome,
           unrealizedPnl.toFixed(6),
+          account,
         );
       } catch (error) {
         this.logger.error(
@@ -159,21 +197,67 @@ export class PositionTrackingService {
     this.logger.debug({ walletAddress, count: positions.length }, 'Updated unrealized P&L');
   }
 
+  /**
+   * Settle every open position on a resolved market: the remaining size is
+   * redeemed at its outcome's payout, moving unrealized into realized P&L
+   *
+   * @returns Number of positions settled
+   */
+  async settleMarket(marketId: string, resolution: MarketResolution): Promise<number> {
+    const positions = await this.positionRepo.findUnsettledByMarket(marketId);
+    let settled = 0;
+
+    for (const position of positions) {
+      const payout = resolution.payouts[position.outcome];
+      if (payout === undefined) {
+        this.logger.warn(
+          { marketId, outcome: position.outcome, payouts: resolution.payouts },
+          'No payout for position outcome, leaving unsettled',
+        );
+        continue;
+      }
+
+      try {
+        await this.positionRepo.settle(
+          position.walletAddress,
+          marketId,
+          position.outcome,
+          {
+            realizedPnl: settledRealizedPnl(position, payout).toFixed(6),
+            settlementPrice: payout.toFixed(6),
+          },
+          position.account,
+        );
+        settled++;
+      } catch (error) {
+        this.logger.error({ error, position }, 'Failed to settle position');
+      }
+    }
+
+    if (settled > 0) {
+      this.logger.info({ marketId, settled, outcome: resolution.outcome }, 'Settled positions');
+    }
+    return settled;
+  }
+
   async updateAllPositions(): Promise<number> {
     this.logger.info('Updating all positions');
 
     // Get all positions
     const allPositions = await this.positionRepo.findAll();
 
-    const wallets = new Set(allPositions.map((p) => p.walletAddress));
+    const accounts = new Map<string, { wallet: string; account: TradingAccount }>();
+    for (const p of allPositions) {
+      accounts.set(`${p.account}:${p.walletAddress}`, { wallet: p.walletAddress, account: p.account });
+    }
 
     let updated = 0;
-    for (const wallet of wallets) {
+    for (const { wallet, account } of accounts.values()) {
       try {
-        await this.updateUnrealizedPnl(wallet);
+        await this.updateUnrealizedPnl(wallet, account);
         updated++;
       } catch (error) {
-        this.logger.error({ error, wallet }, 'Failed to update positions for wallet');
+        this.logger.error({ error, wallet, account }, 'Failed to update positions for wallet');
       }
     }
 
@@ -135,6 +135,7 @@ export class TradeIngestionService {
 
     return {
       id,
+      account: 'live',
       walletAddress,
       marketId,
       outcome,
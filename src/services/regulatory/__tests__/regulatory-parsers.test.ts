@@ -0,0 +1,256 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCatalystSignals,
+  classifyFdaAction,
+  classifyTrialOutcome,
+  extractPdufaDate,
+  extractSponsor,
+  fdaItemToRecord,
+  normalizeClinicalTrial,
+  parseDropRecords,
+  parseRssItems,
+} from '../regulatory-parsers';
+import type { ClinicalTrialInfo } from '../../../types/regulatory.types';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+function trial(overrides: Partial<ClinicalTrialInfo> = {}): ClinicalTrialInfo {
+  return {
+    nctId: 'NCT01234567',
+    phase: 'PHASE3',
+    status: 'ACTIVE_NOT_RECRUITING',
+    primaryCompletionDate: null,
+    hasResults: false,
+    whyStopped: null,
+    ...overrides,
+  };
+}
+
+describe('parseRssItems', () => {
+  it('should read items with CDATA and entities', () => {
+    const xml = `<?xml version="1.0"?><rss><channel><title>FDA</title>
+      <item>
+        <title><![CDATA[FDA Approves Drug &amp; Device]]></title>
+        <link>https://www.fda.gov/news/1</link>
+        <description>&lt;p&gt;Summary text&lt;/p&gt;</description>
+        <pubDate>Tue, 27 May 2025 14:00:00 GMT</pubDate>
+        <guid>pr-1</guid>
+      </item>
+      <item><title>No date</title></item>
+    </channel></rss>`;
+
+    const items = parseRssItems(xml);
+
+    expect(items).toHaveLength(2);
+    expect(items[0].title).toBe('FDA Approves Drug & Device');
+    expect(items[0].description).toBe('<p>Summary text</p>');
+    expect(items[0].pubDate?.toISOString()).toBe('2025-05-27T14:00:00.000Z');
+    expect(items[1].pubDate).toBeNull();
+  });
+});
+
+describe('fdaItemToRecord', () => {
+  it('should take the advisory meeting date from the title and the sponsor from the text', () => {
+    const record = fdaItemToRecord(
+      {
+        title: 'June 20, 2025: Meeting of the Oncologic Drugs Advisory Committee',
+        link: 'https://www.fda.gov/adcomm/1',
+        description:
+          'The committee will discuss new drug application 212345 for Zentrivo (zentamab), submitted by Acme Therapeutics, Inc.',
+        guid: null,
+        pubDate: null,
+      },
+      'ADVISORY_COMMITTEE',
+      NOW,
+    );
+
+    expect(record.eventDate?.toISOString()).toBe('2025-06-20T00:00:00.000Z');
+    expect(record.sponsor).toBe('Acme Therapeutics');
+    expect(record.drug).toBe('Zentrivo (zentamab)');
+    expect(record.publishedAt).toBe(NOW);
+    expect(record.sourceId).toMatch(/^fda-adcomm-[0-9a-f]{16}$/);
+  });
+});
+
+describe('extractPdufaDate', () => {
+  it('should only use dates in a PDUFA sentence', () => {
+    const text =
+      'The company reported results on May 2, 2025. The FDA assigned a PDUFA target action date of September 14, 2025.';
+    expect(extractPdufaDate(text)?.toISOString()).toBe('2025-09-14T00:00:00.000Z');
+    expect(extractPdufaDate('Results were reported on May 2, 2025.')).toBeNull();
+  });
+});
+
+describe('extractSponsor', () => {
+  it('should stop at the first lowercase word', () => {
+    expect(extractSponsor('application submitted by Beta Bio and Gamma Labs for review')).toBe(
+      'Beta Bio and Gamma Labs',
+    );
+    expect(extractSponsor('no sponsor named here')).toBeNull();
+  });
+});
+
+describe('classifyTrialOutcome', () => {
+  it('should prefer explicit endpoint wording over status', () => {
+    expect(classifyTrialOutcome(null, 'The study met its primary endpoint.')).toBe('POSITIVE');
+    expect(
+      classifyTrialOutcome(null, 'The trial did not meet the prespecified primary endpoint.'),
+    ).toBe('NEGATIVE');
+    expect(classifyTrialOutcome(trial({ status: 'TERMINATED' }), 'met the primary endpoint')).toBe(
+      'POSITIVE',
+    );
+  });
+
+  it('should treat safety and futility stops as negative', () => {
+    expect(
+      classifyTrialOutcome(trial({ status: 'TERMINATED', whyStopped: 'Futility analysis' }), ''),
+    ).toBe('NEGATIVE');
+    expect(
+      classifyTrialOutcome(trial({ status: 'WITHDRAWN', whyStopped: 'Business decision' }), ''),
+    ).toBe('STOPPED');
+    expect(classifyTrialOutcome(trial(), '')).toBeNull();
+  });
+});
+
+describe('classifyFdaAction', () => {
+  it('should recognize holds, rejections and approvals', () => {
+    expect(classifyFdaAction('FDA places clinical hold on study')).toBe('FDA_HOLD');
+    expect(classifyFdaAction('Company receives complete response letter')).toBe('FDA_REJECTION');
+    expect(classifyFdaAction('FDA approves first treatment')).toBe('FDA_APPROVAL');
+    expect(classifyFdaAction('FDA issues guidance')).toBeNull();
+  });
+});
+
+describe('normalizeClinicalTrial', () => {
+  it('should map a v2 study and key the sourceId by update date', () => {
+    const record = normalizeClinicalTrial({
+      protocolSection: {
+        identificationModule: { nctId: 'NCT07654321', briefTitle: 'Study of X' },
+        statusModule: {
+          overallStatus: 'RECRUITING',
+          primaryCompletionDateStruct: { date: '2025-07' },
+          lastUpdatePostDateStruct: { date: '2025-05-30' },
+        },
+        sponsorCollaboratorsModule: {
+          leadSponsor: { name: 'Acme Therapeutics', class: 'INDUSTRY' },
+        },
+        designModule: { phases: ['PHASE2', 'PHASE3'] },
+        armsInterventionsModule: {
+          interventions: [
+            { type: 'DRUG', name: 'zentamab' },
+            { type: 'OTHER', name: 'placebo' },
+          ],
+        },
+      },
+      hasResults: false,
+    });
+
+    expect(record?.sourceId).toBe('ctgov-NCT07654321-2025-05-30');
+    expect(record?.trial?.phase).toBe('PHASE2/PHASE3');
+    expect(record?.trial?.primaryCompletionDate?.toISOString()).toBe('2025-07-31T00:00:00.000Z');
+    expect(record?.drug).toBe('zentamab');
+    expect(normalizeClinicalTrial({})).toBeNull();
+  });
+});
+
+describe('parseDropRecords', () => {
+  it('should skip incomplete entries and uppercase tickers', () => {
+    const records = parseDropRecords(
+      JSON.stringify([
+        {
+          kind: 'PDUFA',
+          title: 'Acme PDUFA',
+          publishedAt: '2025-05-01',
+          eventDate: '2025-06-15',
+          tickers: ['acme'],
+        },
+        { kind: 'PDUFA', title: 'Missing date' },
+        { kind: 'TRIAL_UPDATE', title: 'No trial', publishedAt: '2025-05-01' },
+      ]),
+    );
+
+    expect(records).toHaveLength(1);
+    expect(records[0].documentType).toBe('FDA_ANNOUNCEMENT');
+    expect(records[0].tickers).toEqual(['ACME']);
+    expect(records[0].sourceId).toMatch(/^drop-/);
+  });
+
+  it('should reject files without usable records', () => {
+    expect(() => parseDropRecords('{"kind":"PDUFA"}')).toThrow('JSON array');
+    expect(() => parseDropRecords('[]')).toThrow('no records');
+  });
+});
+
+describe('buildCatalystSignals', () => {
+  it('should raise severity as a PDUFA date approaches', () => {
+    const input = {
+      kind: 'PDUFA' as const,
+      title: 'Zentrivo PDUFA',
+      publishedAt: NOW,
+      text: '',
+      trial: null,
+    };
+
+    const near = buildCatalystSignals({ ...input, eventDate: new Date('2025-06-05') }, NOW, 90);
+    const far = buildCatalystSignals({ ...input, eventDate: new Date('2025-08-15') }, NOW, 90);
+    const beyond = buildCatalystSignals({ ...input, eventDate: new Date('2025-12-01') }, NOW, 90);
+    const past = buildCatalystSignals({ ...input, eventDate: new Date('2025-05-01') }, NOW, 90);
+
+    expect(near).toHaveLength(1);
+    expect(near[0].signalType).toBe('FDA_CATALYST_UPCOMING');
+    expect(near[0].severity).toBe('HIGH');
+    expect(near[0].expiresAt.toISOString()).toBe('2025-06-06T00:00:00.000Z');
+    expect(far[0].severity).toBe('LOW');
+    expect(beyond).toHaveLength(0);
+    expect(past).toHaveLength(0);
+  });
+
+  it('should flag upcoming completions only for active phase 2/3 trials', () => {
+    const base = {
+      kind: 'TRIAL_UPDATE' as const,
+      title: 'Study of X',
+      publishedAt: NOW,
+      text: '',
+      eventDate: null,
+    };
+    const completion = new Date('2025-06-20');
+
+    const phase3 = buildCatalystSignals(
+      { ...base, trial: trial({ primaryCompletionDate: completion }) },
+      NOW,
+      90,
+    );
+    const phase1 = buildCatalystSignals(
+      { ...base, trial: trial({ phase: 'PHASE1', primaryCompletionDate: completion }) },
+      NOW,
+      90,
+    );
+
+    expect(phase3.map((s) => s.signalType)).toEqual(['TRIAL_CATALYST_UPCOMING']);
+    expect(phase3[0].severity).toBe('MEDIUM');
+    expect(phase1).toHaveLength(0);
+  });
+
+  it('should emit a high-severity surprise for a failed trial until it goes stale', () => {
+    const input = {
+      kind: 'TRIAL_UPDATE' as const,
+      title: 'Study of X',
+      text: 'The trial failed to meet its primary endpoint.',
+      eventDate: null,
+      trial: trial({ status: 'COMPLETED', hasResults: true }),
+    };
+
+    const fresh = buildCatalystSignals({ ...input, publishedAt: NOW }, NOW, 90);
+    const stale = buildCatalystSignals(
+      { ...input, publishedAt: new Date('2025-05-01T00:00:00Z') },
+      NOW,
+      90,
+    );
+
+    expect(fresh).toHaveLength(1);
+    expect(fresh[0].signalType).toBe('TRIAL_RESULT_SURPRISE');
+    expect(fresh[0].severity).toBe('HIGH');
+    expect(fresh[0].score).toBe(80);
+    expect(stale).toHaveLength(0);
+  });
+});
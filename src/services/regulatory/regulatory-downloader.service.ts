@@ -0,0 +1,163 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { DocumentRepository } from '../../adapters/database/repositories/document.repository.js';
+import { htmlToText } from './regulatory-parsers.js';
+import { DocumentRecord, DocumentType } from '../../types/document.types.js';
+import { FilingStatus } from '../../types/edgar.types.js';
+import type { RegulatoryDocumentMetadata } from '../../types/regulatory.types.js';
+import { getLogger } from '../../utils/logger.js';
+import { SearchIndexerService } from '../search/search-indexer.service.js';
+import { getEnvironment } from '../../config/environment.js';
+
+const REGULATORY_DOCUMENT_TYPES = [DocumentType.FDA_ANNOUNCEMENT, DocumentType.CLINICAL_TRIAL];
+
+/**
+ * Regulatory Downloader Service
+ *
+ * Stores the full text of regulatory records as DocumentContent.
+ *
+ * Pipeline:
+ * PENDING → DOWNLOADING → DOWNLOADED (with DocumentContent, contentHash)
+ * PENDING → DOWNLOADING → FAILED (with errorMessage)
+ *
+ * FDA press releases and committee announcements are fetched from their
+ * page; trial records and drop files already carry their text. A failed
+ * page fetch falls back to the feed summary.
+ */
+export class RegulatoryDownloaderService {
+  private documentRepo: DocumentRepository;
+  private logger;
+  private searchIndexer: SearchIndexerService | null = null;
+
+  constructor() {
+    this.documentRepo = new DocumentRepository();
+    this.logger = getLogger();
+
+    // Initialize search indexer if enabled
+    if (getEnvironment().SEARCH_INDEXER_ENABLED) {
+      this.searchIndexer = new SearchIndexerService();
+    }
+  }
+
+  /**
+   * Process pending regulatory documents (batch per document type)
+   *
+   * @param batchSize Number of documents to process per type
+   * @returns Number of documents successfully downloaded
+   */
+  async processPendingDocuments(batchSize: number): Promise<number> {
+    let successCount = 0;
+
+    for (const documentType of REGULATORY_DOCUMENT_TYPES) {
+      const pending = await this.documentRepo.findByStatusAndType(
+        FilingStatus.PENDING,
+        documentType,
+        batchSize,
+      );
+
+      for (const document of pending) {
+        if (await this.downloadDocument(document)) {
+          successCount++;
+        }
+      }
+    }
+
+    if (successCount > 0) {
+      this.logger.info({ success: successCount }, 'Completed regulatory download batch');
+    }
+
+    return successCount;
+  }
+
+  /**
+   * Download a single document
+   *
+   * @returns true when the document reached DOWNLOADED
+   */
+  private async downloadDocument(document: DocumentRecord): Promise<boolean> {
+    const metadata = document.metadata as RegulatoryDocumentMetadata | null;
+
+    try {
+      await this.documentRepo.updateStatus(document.id, FilingStatus.DOWNLOADING);
+
+      let body = metadata?.summary ?? '';
+      if (metadata?.source === 'fda' && document.sourceUrl) {
+        const page = await this.fetchPageText(document);
+        if (page && page.length > body.length) {
+          body = page;
+        }
+      }
+
+      const fullText = body ? `${document.title}\n\n${body}` : document.title;
+      const contentHash = crypto.createHash('sha256').update(fullText).digest('hex');
+
+      await this.documentRepo.createContent({
+        documentId: document.id,
+        fullText,
+        structured: metadata ? { ...metadata } : undefined,
+        wordCount: fullText.split(/\s+/).filter(Boolean).length,
+      });
+
+      await this.documentRepo.updateStatus(document.id, FilingStatus.DOWNLOADED, {
+        contentHash,
+        downloadedAt: new Date(),
+      });
+
+      // Index content for full-text search (don't block)
+      if (this.searchIndexer) {
+        this.searchIndexer.indexDocumentContent(document.id).catch((error) => {
+          this.logger.warn({ error, documentId: document.id }, 'Search indexing failed');
+        });
+      }
+
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      this.logger.error(
+        { err: error, documentId: document.id, phase: 'DOWNLOAD' },
+        'Regulatory document download failed',
+      );
+
+      await this.documentRepo.updateStatus(document.id, FilingStatus.FAILED, {
+        errorMessage,
+      });
+
+      return false;
+    }
+  }
+
+  /**
+   * Main text of an FDA page, or null when it can't be fetched
+   */
+  private async fetchPageText(document: DocumentRecord): Promise<string | null> {
+    try {
+      const response = await axios.get(document.sourceUrl as string, {
+        timeout: 30000,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; TradingTerminal/1.0; +https://example.com)',
+        },
+        responseType: 'text',
+        validateStatus: (status) => status < 500,
+      });
+
+      if (response.status >= 400 || typeof response.data !== 'string') {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      // Prefer the <main> region; FDA pages carry long navigation menus
+      const html = /<main\b[\s\S]*?<\/main>/i.exec(response.data)?.[0] ?? response.data;
+      return htmlToText(
+        html
+          .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+          .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, ''),
+      );
+    } catch (error) {
+      this.logger.warn(
+        { err: error, documentId: document.id, sourceUrl: document.sourceUrl },
+        'FDA page fetch failed, using feed summary',
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,335 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FdaFeedAdapter } from '../../adapters/regulatory/fda-feed.adapter.js';
+import { ClinicalTrialsApiAdapter } from '../../adapters/regulatory/clinicaltrials-api.adapter.js';
+import { DocumentRepository } from '../../adapters/database/repositories/document.repository.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import {
+  buildInstrumentIndex,
+  InstrumentIndex,
+  matchMarket,
+} from '../market-linking/instrument-matcher.js';
+import {
+  fdaItemToRecord,
+  normalizeClinicalTrial,
+  parseDropRecords,
+  parseRssItems,
+  toDocumentMetadata,
+} from './regulatory-parsers.js';
+import { getEnvironment } from '../../config/environment.js';
+import {
+  CreateDocumentInput,
+  CreateDocumentInstrumentInput,
+  DocumentType,
+  IndustryType,
+} from '../../types/document.types.js';
+import type { RegulatoryIngestionResult, RegulatoryRecord } from '../../types/regulatory.types.js';
+import { getLogger } from '../../utils/logger.js';
+import { ValidationError } from '../../utils/errors.js';
+
+const DAY_MS = 86_400_000;
+
+// ClinicalTrials.gov pages per run (100 studies each); the update cursor
+// picks up the rest on the next run
+const MAX_TRIAL_PAGES = 20;
+
+// A dedicated sponsor field can match on a single-word company name; free
+// text needs a full name or cashtag
+const SPONSOR_MIN_CONFIDENCE = 0.65;
+const TEXT_MIN_CONFIDENCE = 0.85;
+
+const LINKED_INDUSTRIES = [IndustryType.PHARMACEUTICAL, IndustryType.BIOTECHNOLOGY];
+
+/**
+ * Regulatory Indexer Service
+ *
+ * Discovers FDA press releases, advisory committee meetings and
+ * ClinicalTrials.gov updates, plus records dropped as JSON files, and
+ * creates Document records.
+ *
+ * Responsibilities:
+ * - Fetch the FDA feeds and industry-sponsored trial updates
+ * - Read and archive drop files
+ * - Deduplicate via sourceId
+ * - Link records to pharmaceutical/biotechnology instruments by ticker,
+ *   sponsor name or company names in the text
+ */
+export class RegulatoryIndexerService {
+  private fda: FdaFeedAdapter;
+  private clinicalTrials: ClinicalTrialsApiAdapter;
+  private documentRepo: DocumentRepository;
+  private instrumentRepo: InstrumentRepository;
+  private logger;
+
+  constructor() {
+    this.fda = new FdaFeedAdapter();
+    this.clinicalTrials = new ClinicalTrialsApiAdapter();
+    this.documentRepo = new DocumentRepository();
+    this.instrumentRepo = new InstrumentRepository();
+    this.logger = getLogger();
+  }
+
+  /**
+   * Discover new records from every configured source
+   */
+  async discover(): Promise<RegulatoryIngestionResult> {
+    const env = getEnvironment();
+    const now = new Date();
+    const result: RegulatoryIngestionResult = {
+      fetched: 0,
+      inserted: 0,
+      linked: 0,
+      dropFilesProcessed: 0,
+      errors: 0,
+    };
+    const records: RegulatoryRecord[] = [];
+
+    try {
+      const xml = await this.fda.getPressReleasesFeed();
+      if (xml) {
+        records.push(
+          ...parseRssItems(xml).map((item) => fdaItemToRecord(item, 'PRESS_RELEASE', now)),
+        );
+      }
+    } catch (error) {
+      result.errors++;
+      this.logger.error(
+        { err: error, source: 'FDA_PRESS_RELEASES' },
+        'Failed to fetch FDA press releases',
+      );
+    }
+
+    try {
+      const xml = await this.fda.getAdvisoryCalendarFeed();
+      if (xml) {
+        records.push(
+          ...parseRssItems(xml).map((item) => fdaItemToRecord(item, 'ADVISORY_COMMITTEE', now)),
+        );
+      }
+    } catch (error) {
+      result.errors++;
+      this.logger.error(
+        { err: error, source: 'FDA_ADVISORY_CALENDAR' },
+        'Failed to fetch FDA advisory committee calendar',
+      );
+    }
+
+    if (env.CLINICAL_TRIALS_ENABLED) {
+      try {
+        const latest = await this.documentRepo.findLatestPublishedAt(
+          DocumentType.CLINICAL_TRIAL,
+          'ctgov-',
+        );
+        // Re-read the latest update day; records from it are deduplicated
+        const since = latest ?? new Date(now.getTime() - env.REGULATORY_LOOKBACK_DAYS * DAY_MS);
+        const studies = await this.clinicalTrials.getUpdatedStudies(since, MAX_TRIAL_PAGES);
+
+        for (const study of studies) {
+          const record = normalizeClinicalTrial(study);
+          if (record) records.push(record);
+        }
+      } catch (error) {
+        result.errors++;
+        this.logger.error(
+          { err: error, source: 'CLINICAL_TRIALS' },
+          'Failed to fetch clinical trials',
+        );
+      }
+    }
+
+    if (env.REGULATORY_DROP_PATH) {
+      const drop = await this.readDropDirectory(env.REGULATORY_DROP_PATH);
+      records.push(...drop.records);
+      result.dropFilesProcessed = drop.files;
+      result.errors += drop.errors;
+    }
+
+    result.fetched = records.length;
+    const { inserted, linked } = await this.insertRecords(records);
+    result.inserted = inserted;
+    result.linked = linked;
+
+    this.logger.info(result, 'Regulatory discovery complete');
+    return result;
+  }
+
+  /**
+   * Insert records into the database with deduplication, then link them
+   * to instruments
+   *
+   * @returns Number of new documents and of those linked to an instrument
+   */
+  async insertRecords(records: RegulatoryRecord[]): Promise<{ inserted: number; linked: number }> {
+    if (records.length === 0) {
+      return { inserted: 0, linked: 0 };
+    }
+
+    const bySourceId = new Map(records.map((r) => [r.sourceId, r]));
+    const existing = new Set(await this.documentRepo.findBySourceIds([...bySourceId.keys()]));
+    const newRecords = [...bySourceId.values()].filter((r) => !existing.has(r.sourceId));
+
+    if (newRecords.length === 0) {
+      this.logger.debug('No new regulatory records to insert (all duplicates)');
+      return { inserted: 0, linked: 0 };
+    }
+
+    this.logger.info(
+      { total: records.length, new: newRecords.length },
+      'Inserting new regulatory records',
+    );
+
+    const documents: CreateDocumentInput[] = newRecords.map((record) => ({
+      documentType: DocumentType[record.documentType],
+      sourceId: record.sourceId,
+      sourceUrl: record.url ?? undefined,
+      title: record.title,
+      publishedAt: record.publishedAt,
+      metadata: { ...toDocumentMetadata(record) },
+    }));
+
+    const inserted = await this.documentRepo.batchInsert(documents);
+    const linked = await this.linkRecordsToInstruments(newRecords);
+
+    return { inserted, linked };
+  }
+
+  /**
+   * Link records to pharmaceutical/biotechnology instruments
+   *
+   * @returns Number of records linked to at least one instrument
+   */
+  private async linkRecordsToInstruments(records: RegulatoryRecord[]): Promise<number> {
+    const candidates = await this.instrumentRepo.findLinkCandidatesByIndustry(LINKED_INDUSTRIES);
+    if (candidates.length === 0) {
+      this.logger.warn('No classified pharmaceutical/biotechnology instruments to link against');
+      return 0;
+    }
+
+    const index = buildInstrumentIndex(candidates);
+    let linked = 0;
+
+    for (const record of records) {
+      try {
+        const matches = this.resolveInstruments(record, index);
+        if (matches.size === 0) {
+          this.logger.debug({ sourceId: record.sourceId }, 'No instruments matched for record');
+          continue;
+        }
+
+        const document = await this.documentRepo.findBySourceId(record.sourceId);
+        if (!document) {
+          this.logger.warn({ sourceId: record.sourceId }, 'Document not found after insert');
+          continue;
+        }
+
+        const links: CreateDocumentInstrumentInput[] = [...matches].map(
+          ([instrumentId, match]) => ({
+            documentId: document.id,
+            instrumentId,
+            relevance: match.relevance,
+            matchMethod: match.method,
+          }),
+        );
+
+        await this.documentRepo.batchLinkInstruments(links);
+        linked++;
+      } catch (error) {
+        this.logger.error(
+          { err: error, sourceId: record.sourceId, phase: 'LINK_INSTRUMENTS' },
+          'Failed to link regulatory record to instruments',
+        );
+      }
+    }
+
+    return linked;
+  }
+
+  /**
+   * Instruments a record is about: explicit tickers first, then the
+   * sponsor name, then company names in the title and summary
+   */
+  private resolveInstruments(
+    record: RegulatoryRecord,
+    index: InstrumentIndex,
+  ): Map<string, { relevance: number; method: string }> {
+    const matches = new Map<string, { relevance: number; method: string }>();
+
+    for (const ticker of record.tickers) {
+      for (const candidate of index.bySymbol.get(ticker) ?? []) {
+        matches.set(candidate.id, { relevance: 1, method: 'DIRECT_TICKER' });
+      }
+    }
+    if (matches.size > 0) return matches;
+
+    if (record.sponsor) {
+      const sponsorMatches = matchMarket(
+        { question: record.sponsor, marketSlug: '', categoryTag: null },
+        index,
+        SPONSOR_MIN_CONFIDENCE,
+      );
+      for (const match of sponsorMatches) {
+        matches.set(match.instrumentId, { relevance: match.confidence, method: 'SPONSOR_NAME' });
+      }
+      if (matches.size > 0) return matches;
+    }
+
+    const textMatches = matchMarket(
+      { question: `${record.title}. ${record.summary}`, marketSlug: '', categoryTag: null },
+      index,
+      TEXT_MIN_CONFIDENCE,
+    );
+    for (const match of textMatches) {
+      matches.set(match.instrumentId, { relevance: match.confidence, method: 'NAME_KEYWORD' });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Read every JSON file in the drop directory. Parsed files move to
+   * `processed/`, unreadable ones to `failed/`.
+   */
+  private async readDropDirectory(
+    dropPath: string,
+  ): Promise<{ records: RegulatoryRecord[]; files: number; errors: number }> {
+    const records: RegulatoryRecord[] = [];
+    let files = 0;
+    let errors = 0;
+
+    let entries: string[];
+    try {
+      await fs.mkdir(dropPath, { recursive: true });
+      entries = (await fs.readdir(dropPath)).filter((name) => name.endsWith('.json')).sort();
+    } catch (error) {
+      this.logger.error({ err: error, dropPath }, 'Failed to read regulatory drop directory');
+      return { records, files, errors: 1 };
+    }
+
+    for (const name of entries) {
+      const filePath = path.join(dropPath, name);
+      let target = 'processed';
+
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        records.push(...parseDropRecords(content));
+        files++;
+      } catch (error) {
+        errors++;
+        target = 'failed';
+        this.logger.error(
+          { err: error instanceof ValidationError ? error.message : error, file: name },
+          'Failed to parse regulatory drop file',
+        );
+      }
+
+      try {
+        await fs.mkdir(path.join(dropPath, target), { recursive: true });
+        await fs.rename(filePath, path.join(dropPath, target, name));
+      } catch (error) {
+        this.logger.error({ err: error, file: name }, 'Failed to archive regulatory drop file');
+      }
+    }
+
+    return { records, files, errors };
+  }
+}
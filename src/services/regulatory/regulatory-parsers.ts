@@ -0,0 +1,536 @@
+import crypto from 'crypto';
+import type { ClinicalTrialsStudy } from '../../adapters/regulatory/clinicaltrials-api.adapter.js';
+import { SignalSeverity, SignalType } from '../../types/edgar.types.js';
+import type {
+  CatalystSignal,
+  ClinicalTrialInfo,
+  FdaAction,
+  RegulatoryDocumentMetadata,
+  RegulatoryRecord,
+  RegulatoryRecordKind,
+  TrialOutcome,
+} from '../../types/regulatory.types.js';
+import { decodeHtmlEntities } from '../../utils/html-entities.js';
+import { ValidationError } from '../../utils/errors.js';
+
+export interface RssItem {
+  title: string;
+  link: string | null;
+  description: string;
+  guid: string | null;
+  pubDate: Date | null;
+}
+
+/**
+ * What the catalyst rules need from a stored record
+ */
+export interface CatalystInput {
+  kind: RegulatoryRecordKind;
+  title: string;
+  publishedAt: Date;
+  text: string;
+  eventDate: Date | null;
+  trial: ClinicalTrialInfo | null;
+}
+
+const DAY_MS = 86_400_000;
+
+// How long a trial outcome stays an active signal after it is published
+const TRIAL_SURPRISE_TTL_DAYS = 14;
+
+// Earlier-phase readouts rarely move the sponsor's stock on their own
+const CATALYST_PHASES = ['PHASE2', 'PHASE3'];
+const ACTIVE_TRIAL_STATUSES = new Set([
+  'NOT_YET_RECRUITING',
+  'RECRUITING',
+  'ENROLLING_BY_INVITATION',
+  'ACTIVE_NOT_RECRUITING',
+]);
+const STOPPED_TRIAL_STATUSES = new Set(['TERMINATED', 'SUSPENDED', 'WITHDRAWN']);
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+const LONG_DATE =
+  /\b(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{1,2}),?\s+(\d{4})\b/i;
+
+const PDUFA_CONTEXT = /\b(?:PDUFA|target action date|goal date)\b/i;
+const SPONSOR_PATTERN =
+  /\b(?:submitted|sponsored) by\s+([A-Z][\w.&'-]*(?:\s+(?:[A-Z][\w.&'-]*|&|and|of))*)/;
+const DRUG_PATTERN = /\bfor\s+([A-Z][\w-]{2,})\s+\(([a-z][\w\s-]{2,})\)/;
+
+const NEGATIVE_OUTCOME =
+  /\b(?:did not|does not|didn't|failed to|fail to)\s+(?:meet|achieve|reach|demonstrate)\b[^.]{0,80}\b(?:primary|main)\s+(?:end ?point|objective)|\bmissed\s+(?:its|the)\s+primary\s+end ?point/i;
+const POSITIVE_OUTCOME =
+  /\b(?:met|achieved|reached)\b[^.]{0,60}\b(?:primary|main)\s+(?:end ?point|objective)/i;
+const ADVERSE_STOP_REASON = /\b(?:safety|futility|efficacy|adverse|toxicit|death|lack of benefit)/i;
+
+const FDA_REJECTION =
+  /\b(?:complete response letter|refuse[sd]? to (?:file|approve)|declines? to approve|not approv)/i;
+const FDA_HOLD = /\bclinical hold\b/i;
+const FDA_APPROVAL = /\b(?:approves?|approved|grants? (?:accelerated |full )?approval)\b/i;
+
+// ============================================================================
+// FEED PARSING
+// ============================================================================
+
+/**
+ * Items of an RSS 2.0 document. Only the fields the FDA feeds populate are
+ * read; CDATA sections and HTML entities are unwrapped.
+ */
+export function parseRssItems(xml: string): RssItem[] {
+  const items: RssItem[] = [];
+
+  for (const match of xml.matchAll(/<item\b[^>]*>([\s\S]*?)<\/item>/gi)) {
+    const body = match[1];
+    const title = readTag(body, 'title');
+    if (!title) continue;
+
+    const pubDate = readTag(body, 'pubDate');
+    const parsedDate = pubDate ? new Date(pubDate) : null;
+
+    items.push({
+      title,
+      link: readTag(body, 'link'),
+      description: readTag(body, 'description') ?? '',
+      guid: readTag(body, 'guid'),
+      pubDate: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : null,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Normalize an FDA feed item. Advisory committee items carry the meeting
+ * date at the start of the title ("June 12, 2025: Meeting of the ...").
+ */
+export function fdaItemToRecord(
+  item: RssItem,
+  kind: 'PRESS_RELEASE' | 'ADVISORY_COMMITTEE',
+  now: Date,
+): RegulatoryRecord {
+  const summary = htmlToText(item.description);
+  const text = `${item.title}. ${summary}`;
+
+  const eventDate =
+    kind === 'ADVISORY_COMMITTEE'
+      ? (parseLongDate(item.title) ?? parseLongDate(summary))
+      : extractPdufaDate(text);
+
+  const key = item.guid ?? item.link ?? item.title;
+  const prefix = kind === 'PRESS_RELEASE' ? 'fda-pr' : 'fda-adcomm';
+
+  return {
+    sourceId: `${prefix}-${shortHash(key)}`,
+    documentType: 'FDA_ANNOUNCEMENT',
+    kind,
+    source: 'fda',
+    title: item.title,
+    url: item.link,
+    publishedAt: item.pubDate ?? now,
+    summary,
+    sponsor: extractSponsor(summary),
+    tickers: [],
+    drug: extractDrug(summary),
+    eventDate,
+    trial: null,
+  };
+}
+
+/**
+ * Normalize a ClinicalTrials.gov study. Each record update gets its own
+ * sourceId so status changes and posted results are processed again.
+ *
+ * @returns null when the study has no NCT ID or update date
+ */
+export function normalizeClinicalTrial(study: ClinicalTrialsStudy): RegulatoryRecord | null {
+  const protocol = study.protocolSection;
+  const nctId = protocol?.identificationModule?.nctId;
+  const updatedAt = parseIsoDate(protocol?.statusModule?.lastUpdatePostDateStruct?.date);
+  if (!nctId || !updatedAt) return null;
+
+  const status = protocol?.statusModule;
+  const interventions = (protocol?.armsInterventionsModule?.interventions ?? [])
+    .filter((i) => i.type === 'DRUG' || i.type === 'BIOLOGICAL')
+    .map((i) => i.name)
+    .filter((name): name is string => Boolean(name));
+
+  return {
+    sourceId: `ctgov-${nctId}-${updatedAt.toISOString().slice(0, 10)}`,
+    documentType: 'CLINICAL_TRIAL',
+    kind: 'TRIAL_UPDATE',
+    source: 'clinicaltrials.gov',
+    title: protocol?.identificationModule?.briefTitle ?? nctId,
+    url: `https://clinicaltrials.gov/study/${nctId}`,
+    publishedAt: updatedAt,
+    summary: protocol?.descriptionModule?.briefSummary?.trim() ?? '',
+    sponsor: protocol?.sponsorCollaboratorsModule?.leadSponsor?.name ?? null,
+    tickers: [],
+    drug: interventions.length > 0 ? interventions.join(', ') : null,
+    eventDate: null,
+    trial: {
+      nctId,
+      phase: protocol?.designModule?.phases?.join('/') ?? null,
+      status: status?.overallStatus ?? 'UNKNOWN',
+      primaryCompletionDate: parseIsoDate(status?.primaryCompletionDateStruct?.date, true),
+      hasResults: Boolean(study.hasResults),
+      whyStopped: status?.whyStopped ?? null,
+    },
+  };
+}
+
+/**
+ * Records from a drop file: a JSON array of objects with at least `kind`,
+ * `title` and `publishedAt`. Entries missing those are skipped.
+ *
+ * @throws ValidationError when the file isn't a JSON array or has no usable entries
+ */
+export function parseDropRecords(content: string): RegulatoryRecord[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ValidationError('Drop file is not valid JSON');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new ValidationError('Drop file must contain a JSON array of records');
+  }
+
+  const kinds: RegulatoryRecordKind[] = [
+    'PRESS_RELEASE',
+    'ADVISORY_COMMITTEE',
+    'PDUFA',
+    'TRIAL_UPDATE',
+  ];
+  const records: RegulatoryRecord[] = [];
+
+  for (const entry of parsed) {
+    if (!entry || typeof entry !== 'object') continue;
+    const raw = entry as Record<string, unknown>;
+
+    const kind = raw.kind as RegulatoryRecordKind;
+    const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+    const publishedAt = toDate(raw.publishedAt);
+    if (!kinds.includes(kind) || !title || !publishedAt) continue;
+
+    const trial = raw.trial as Partial<Record<keyof ClinicalTrialInfo, unknown>> | undefined;
+    if (kind === 'TRIAL_UPDATE' && typeof trial?.nctId !== 'string') continue;
+
+    const eventDate = toDate(raw.eventDate);
+    const sourceId =
+      typeof raw.sourceId === 'string' && raw.sourceId
+        ? `drop-${raw.sourceId}`
+        : `drop-${shortHash(`${kind}|${title}|${publishedAt.toISOString()}`)}`;
+
+    records.push({
+      sourceId,
+      documentType: kind === 'TRIAL_UPDATE' ? 'CLINICAL_TRIAL' : 'FDA_ANNOUNCEMENT',
+      kind,
+      source: 'drop',
+      title,
+      url: typeof raw.url === 'string' ? raw.url : null,
+      publishedAt,
+      summary: typeof raw.summary === 'string' ? raw.summary : '',
+      sponsor: typeof raw.sponsor === 'string' ? raw.sponsor : null,
+      tickers: Array.isArray(raw.tickers)
+        ? raw.tickers.filter((t): t is string => typeof t === 'string').map((t) => t.toUpperCase())
+        : [],
+      drug: typeof raw.drug === 'string' ? raw.drug : null,
+      eventDate,
+      trial:
+        kind === 'TRIAL_UPDATE' && trial
+          ? {
+              nctId: trial.nctId as string,
+              phase: typeof trial.phase === 'string' ? trial.phase : null,
+              status: typeof trial.status === 'string' ? trial.status : 'UNKNOWN',
+              primaryCompletionDate: toDate(trial.primaryCompletionDate),
+              hasResults: trial.hasResults === true,
+              whyStopped: typeof trial.whyStopped === 'string' ? trial.whyStopped : null,
+            }
+          : null,
+    });
+  }
+
+  if (records.length === 0) {
+    throw new ValidationError('Drop file has no records with kind, title and publishedAt');
+  }
+
+  return records;
+}
+
+// ============================================================================
+// METADATA ROUND-TRIP
+// ============================================================================
+
+export function toDocumentMetadata(record: RegulatoryRecord): RegulatoryDocumentMetadata {
+  return {
+    kind: record.kind,
+    source: record.source,
+    summary: record.summary,
+    sponsor: record.sponsor,
+    tickers: record.tickers,
+    drug: record.drug,
+    eventDate: record.eventDate?.toISOString() ?? null,
+    trial: record.trial
+      ? {
+          ...record.trial,
+          primaryCompletionDate: record.trial.primaryCompletionDate?.toISOString() ?? null,
+        }
+      : null,
+  };
+}
+
+export function trialFromMetadata(
+  metadata: RegulatoryDocumentMetadata | null | undefined,
+): ClinicalTrialInfo | null {
+  if (!metadata?.trial) return null;
+  return {
+    ...metadata.trial,
+    primaryCompletionDate: toDate(metadata.trial.primaryCompletionDate),
+  };
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * PDUFA target action date mentioned in text ("PDUFA target action date
+ * of March 3, 2026"). Only dates in the same sentence as the PDUFA wording
+ * count.
+ */
+export function extractPdufaDate(text: string): Date | null {
+  for (const sentence of text.split(/(?<=[.;])\s+/)) {
+    if (!PDUFA_CONTEXT.test(sentence)) continue;
+    const date = parseLongDate(sentence);
+    if (date) return date;
+  }
+  return null;
+}
+
+/**
+ * Company named as the submitter or sponsor ("submitted by Acme
+ * Pharmaceuticals, Inc.")
+ */
+export function extractSponsor(text: string): string | null {
+  const match = SPONSOR_PATTERN.exec(text);
+  if (!match) return null;
+  // Trailing connectives belong to the following clause
+  const sponsor = match[1].replace(/\s+(?:&|and|of)$/, '').trim();
+  return sponsor.length >= 3 ? sponsor : null;
+}
+
+/**
+ * Outcome of a trial from its status and any result wording in the text.
+ * Explicit endpoint wording wins over status.
+ */
+export function classifyTrialOutcome(
+  trial: ClinicalTrialInfo | null,
+  text: string,
+): TrialOutcome | null {
+  if (NEGATIVE_OUTCOME.test(text)) return 'NEGATIVE';
+  if (POSITIVE_OUTCOME.test(text)) return 'POSITIVE';
+
+  if (trial && STOPPED_TRIAL_STATUSES.has(trial.status)) {
+    return trial.whyStopped && ADVERSE_STOP_REASON.test(trial.whyStopped) ? 'NEGATIVE' : 'STOPPED';
+  }
+
+  return null;
+}
+
+/**
+ * Regulatory action announced in an FDA press release
+ */
+export function classifyFdaAction(text: string): FdaAction | null {
+  if (FDA_HOLD.test(text)) return 'FDA_HOLD';
+  if (FDA_REJECTION.test(text)) return 'FDA_REJECTION';
+  if (FDA_APPROVAL.test(text)) return 'FDA_APPROVAL';
+  return null;
+}
+
+// ============================================================================
+// CATALYST SIGNALS
+// ============================================================================
+
+/**
+ * Catalyst signals for one record.
+ *
+ * - FDA_CATALYST_UPCOMING: a PDUFA date or advisory committee meeting
+ *   within the horizon; severity rises as the date approaches
+ * - TRIAL_CATALYST_UPCOMING: an active phase 2/3 trial whose primary
+ *   completion falls within the horizon
+ * - TRIAL_RESULT_SURPRISE: a reported endpoint outcome or a stopped trial
+ *
+ * Upcoming signals expire the day after the event; outcomes after
+ * TRIAL_SURPRISE_TTL_DAYS.
+ */
+export function buildCatalystSignals(
+  input: CatalystInput,
+  now: Date,
+  horizonDays: number,
+): CatalystSignal[] {
+  const signals: CatalystSignal[] = [];
+  const horizonEnd = now.getTime() + horizonDays * DAY_MS;
+
+  if (
+    (input.kind === 'PDUFA' ||
+      input.kind === 'ADVISORY_COMMITTEE' ||
+      input.kind === 'PRESS_RELEASE') &&
+    input.eventDate &&
+    input.eventDate.getTime() >= startOfDay(now) &&
+    input.eventDate.getTime() <= horizonEnd
+  ) {
+    const daysOut = daysUntil(input.eventDate, now);
+    const tier = daysOut <= 7 ? 'HIGH' : daysOut <= 30 ? 'MEDIUM' : 'LOW';
+    const event =
+      input.kind === 'ADVISORY_COMMITTEE' ? 'FDA advisory committee meeting' : 'PDUFA date';
+
+    signals.push({
+      signalType: SignalType.FDA_CATALYST_UPCOMING,
+      severity: SignalSeverity[tier],
+      score: { HIGH: 80, MEDIUM: 65, LOW: 45 }[tier],
+      reason: `${event} ${formatDate(input.eventDate)} (${daysOut} days): ${input.title}`,
+      eventDate: input.eventDate,
+      expiresAt: new Date(input.eventDate.getTime() + DAY_MS),
+    });
+  }
+
+  const trial = input.trial;
+  if (input.kind !== 'TRIAL_UPDATE') {
+    return signals;
+  }
+
+  const completion = trial?.primaryCompletionDate ?? null;
+  if (
+    trial &&
+    completion &&
+    isCatalystPhase(trial.phase) &&
+    ACTIVE_TRIAL_STATUSES.has(trial.status) &&
+    completion.getTime() >= startOfDay(now) &&
+    completion.getTime() <= horizonEnd
+  ) {
+    const daysOut = daysUntil(completion, now);
+    const tier = daysOut <= 30 ? 'MEDIUM' : 'LOW';
+
+    signals.push({
+      signalType: SignalType.TRIAL_CATALYST_UPCOMING,
+      severity: SignalSeverity[tier],
+      score: { MEDIUM: 55, LOW: 40 }[tier],
+      reason: `${trial.phase} trial ${trial.nctId} primary completion ${formatDate(completion)} (${daysOut} days): ${input.title}`,
+      eventDate: completion,
+      expiresAt: new Date(completion.getTime() + DAY_MS),
+    });
+  }
+
+  const outcome = classifyTrialOutcome(trial, input.text);
+  const outcomeExpiry = new Date(input.publishedAt.getTime() + TRIAL_SURPRISE_TTL_DAYS * DAY_MS);
+  if (outcome && outcomeExpiry > now) {
+    const label = trial ? `${trial.nctId}${trial.phase ? ` (${trial.phase})` : ''}` : input.title;
+    const description = {
+      NEGATIVE: trial?.whyStopped ? `stopped: ${trial.whyStopped}` : 'missed its primary endpoint',
+      STOPPED: `stopped${trial?.whyStopped ? `: ${trial.whyStopped}` : ''}`,
+      POSITIVE: 'met its primary endpoint',
+    }[outcome];
+
+    signals.push({
+      signalType: SignalType.TRIAL_RESULT_SURPRISE,
+      severity: outcome === 'NEGATIVE' ? SignalSeverity.HIGH : SignalSeverity.MEDIUM,
+      score: outcome === 'NEGATIVE' ? 80 : 60,
+      reason: `Trial ${label} ${description}`,
+      eventDate: null,
+      expiresAt: outcomeExpiry,
+    });
+  }
+
+  return signals;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * First "Month D, YYYY" date in text, as UTC midnight
+ */
+export function parseLongDate(text: string): Date | null {
+  const match = LONG_DATE.exec(text);
+  if (!match) return null;
+
+  const month = MONTHS.indexOf(match[1].toLowerCase());
+  const day = Number(match[2]);
+  const date = new Date(Date.UTC(Number(match[3]), month, day));
+  return date.getUTCDate() === day ? date : null;
+}
+
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function readTag(body: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'i').exec(body);
+  if (!match) return null;
+
+  const value = match[1].replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1');
+  const decoded = decodeHtmlEntities(value).trim();
+  return decoded.length > 0 ? decoded : null;
+}
+
+function extractDrug(text: string): string | null {
+  const match = DRUG_PATTERN.exec(text);
+  return match ? `${match[1]} (${match[2].trim()})` : null;
+}
+
+/**
+ * "2025-06-12" or "2025-06". Month-only dates resolve to the last day of
+ * the month when endOfMonth is set (completion dates), otherwise the first.
+ */
+function parseIsoDate(value: string | undefined, endOfMonth = false): Date | null {
+  const match = value ? /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(value) : null;
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  if (match[3]) return new Date(Date.UTC(year, month, Number(match[3])));
+  return new Date(Date.UTC(year, endOfMonth ? month + 1 : month, endOfMonth ? 0 : 1));
+}
+
+function toDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isCatalystPhase(phase: string | null): boolean {
+  return phase !== null && CATALYST_PHASES.some((p) => phase.includes(p));
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function daysUntil(date: Date, now: Date): number {
+  return Math.max(Math.round((startOfDay(date) - startOfDay(now)) / DAY_MS), 0);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function shortHash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,246 @@
+import { DocumentRepository } from '../../adapters/database/repositories/document.repository.js';
+import { SignalRepository } from '../../adapters/database/repositories/signal.repository.js';
+import {
+  buildCatalystSignals,
+  classifyFdaAction,
+  classifyTrialOutcome,
+  extractPdufaDate,
+  trialFromMetadata,
+} from './regulatory-parsers.js';
+import { getEnvironment } from '../../config/environment.js';
+import {
+  CreateDocumentFactInput,
+  DocumentRecord,
+  DocumentType,
+} from '../../types/document.types.js';
+import { CreateSignalInput, FactType, FilingStatus } from '../../types/edgar.types.js';
+import type { CatalystSignal, RegulatoryDocumentMetadata } from '../../types/regulatory.types.js';
+import { getLogger } from '../../utils/logger.js';
+
+const REGULATORY_DOCUMENT_TYPES = [DocumentType.FDA_ANNOUNCEMENT, DocumentType.CLINICAL_TRIAL];
+
+/**
+ * Regulatory Signal Extractor Service
+ *
+ * Records facts and catalyst signals from downloaded regulatory documents.
+ *
+ * Pipeline:
+ * DOWNLOADED → ENRICHED (with DocumentFacts and InstrumentSignals created)
+ * DOWNLOADED → FAILED (on error)
+ *
+ * Facts: PDUFA_DATE, TRIAL_RESULT, FDA_APPROVAL, FDA_REJECTION, FDA_HOLD
+ * Signals: FDA_CATALYST_UPCOMING, TRIAL_CATALYST_UPCOMING, TRIAL_RESULT_SURPRISE
+ */
+export class RegulatorySignalExtractorService {
+  private documentRepo: DocumentRepository;
+  private signalRepo: SignalRepository;
+  private logger;
+
+  constructor() {
+    this.documentRepo = new DocumentRepository();
+    this.signalRepo = new SignalRepository();
+    this.logger = getLogger();
+  }
+
+  /**
+   * Process downloaded regulatory documents (batch per document type)
+   *
+   * @param batchSize Number of documents to process per type
+   * @returns Number of documents successfully processed
+   */
+  async processDownloadedDocuments(batchSize: number): Promise<number> {
+    let successCount = 0;
+
+    for (const documentType of REGULATORY_DOCUMENT_TYPES) {
+      const downloaded = await this.documentRepo.findByStatusAndType(
+        FilingStatus.DOWNLOADED,
+        documentType,
+        batchSize,
+      );
+
+      for (const document of downloaded) {
+        try {
+          await this.extractFromDocument(document);
+          successCount++;
+        } catch (error) {
+          this.logger.error(
+            { err: error, documentId: document.id, phase: 'SIGNAL_EXTRACTION' },
+            'Failed to extract regulatory signals',
+          );
+          await this.documentRepo.updateStatus(document.id, FilingStatus.FAILED, {
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+
+    if (successCount > 0) {
+      this.logger.info({ success: successCount }, 'Completed regulatory signal extraction batch');
+    }
+
+    return successCount;
+  }
+
+  /**
+   * Extract facts and signals from a single document
+   */
+  private async extractFromDocument(document: DocumentRecord): Promise<void> {
+    const env = getEnvironment();
+    const metadata = document.metadata as RegulatoryDocumentMetadata | null;
+    if (!metadata?.kind) {
+      throw new Error('Document has no regulatory metadata');
+    }
+
+    const content = await this.documentRepo.findContentById(document.id);
+    const text = content?.fullText ?? `${document.title}\n\n${metadata.summary}`;
+    const trial = trialFromMetadata(metadata);
+    const eventDate = metadata.eventDate
+      ? new Date(metadata.eventDate)
+      : metadata.kind === 'PRESS_RELEASE'
+        ? extractPdufaDate(text)
+        : null;
+
+    // Facts
+    const facts = this.buildFacts(document, metadata, text, eventDate);
+    if (facts.length > 0) {
+      await this.documentRepo.batchInsertFacts(facts);
+    }
+
+    // Signals
+    const signals = buildCatalystSignals(
+      {
+        kind: metadata.kind,
+        title: document.title,
+        publishedAt: document.publishedAt,
+        text,
+        eventDate,
+        trial,
+      },
+      new Date(),
+      env.REGULATORY_CATALYST_HORIZON_DAYS,
+    );
+
+    if (signals.length > 0) {
+      const links = await this.documentRepo.findInstrumentLinks(document.id);
+      if (links.length === 0) {
+        this.logger.debug(
+          { documentId: document.id },
+          'No instruments linked to regulatory record, skipping signal creation',
+        );
+      }
+
+      for (const link of links) {
+        await this.upsertSignals(link.instrumentId, document, signals);
+      }
+    }
+
+    await this.documentRepo.updateStatus(document.id, FilingStatus.ENRICHED, {
+      parsedAt: new Date(),
+    });
+
+    this.logger.debug(
+      { documentId: document.id, facts: facts.length, signals: signals.length },
+      'Regulatory record extraction complete',
+    );
+  }
+
+  private buildFacts(
+    document: DocumentRecord,
+    metadata: RegulatoryDocumentMetadata,
+    text: string,
+    eventDate: Date | null,
+  ): CreateDocumentFactInput[] {
+    const facts: CreateDocumentFactInput[] = [];
+
+    if (eventDate && (metadata.kind === 'PDUFA' || metadata.kind === 'PRESS_RELEASE')) {
+      facts.push({
+        documentId: document.id,
+        factType: FactType.PDUFA_DATE,
+        data: { date: eventDate.toISOString(), drug: metadata.drug, sponsor: metadata.sponsor },
+        evidence: document.title,
+      });
+    }
+
+    if (metadata.kind === 'PRESS_RELEASE') {
+      const action = classifyFdaAction(document.title) ?? classifyFdaAction(text);
+      if (action) {
+        facts.push({
+          documentId: document.id,
+          factType: FactType[action],
+          data: { drug: metadata.drug, sponsor: metadata.sponsor },
+          evidence: document.title,
+          confidence: 0.7,
+        });
+      }
+    }
+
+    const trial = trialFromMetadata(metadata);
+    if (metadata.kind === 'TRIAL_UPDATE' && trial) {
+      const outcome = classifyTrialOutcome(trial, text);
+      if (outcome || trial.hasResults) {
+        facts.push({
+          documentId: document.id,
+          factType: FactType.TRIAL_RESULT,
+          data: {
+            nctId: trial.nctId,
+            phase: trial.phase,
+            status: trial.status,
+            outcome,
+            hasResults: trial.hasResults,
+            whyStopped: trial.whyStopped,
+            sponsor: metadata.sponsor,
+          },
+          evidence: trial.whyStopped ?? document.title,
+        });
+      }
+    }
+
+    return facts;
+  }
+
+  /**
+   * Upsert signals for one instrument. An active signal of the same type
+   * with a higher score (a nearer catalyst from another record) is kept.
+   */
+  private async upsertSignals(
+    instrumentId: string,
+    document: DocumentRecord,
+    signals: CatalystSignal[],
+  ): Promise<void> {
+    const active = await this.signalRepo.findByInstrument(instrumentId);
+
+    for (const signal of signals) {
+      const stronger = active.find(
+        (s) => s.signalType === signal.signalType && Number(s.score) > signal.score,
+      );
+      if (stronger) {
+        this.logger.debug(
+          { instrumentId, signalType: signal.signalType, documentId: document.id },
+          'Stronger active catalyst signal exists, skipping',
+        );
+        continue;
+      }
+
+      try {
+        const signalInput: CreateSignalInput = {
+          instrumentId,
+          signalType: signal.signalType,
+          severity: signal.severity,
+          score: signal.score,
+          reason: signal.reason,
+          // The regulatory record the catalyst was read from
+          evidenceFacts: [document.id],
+          computedAt: new Date(),
+          expiresAt: signal.expiresAt,
+        };
+
+        await this.signalRepo.upsertSignal(signalInput);
+      } catch (error) {
+        this.logger.error(
+          { err: error, documentId: document.id, instrumentId, signalType: signal.signalType },
+          'Failed to create regulatory catalyst signal',
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { parseDocumentQuery, toOpenSearchQuery } from '../document-query';
+
+describe('parseDocumentQuery', () => {
+  it('ANDs adjacent terms', () => {
+    expect(parseDocumentQuery('going concern')).toEqual({
+      kind: 'and',
+      children: [
+        { kind: 'term', value: 'going' },
+        { kind: 'term', value: 'concern' },
+      ],
+    });
+  });
+
+  it('keeps quoted phrases together', () => {
+    expect(parseDocumentQuery('"going concern" doubt')).toEqual({
+      kind: 'and',
+      children: [
+        { kind: 'phrase', value: 'going concern' },
+        { kind: 'term', value: 'doubt' },
+      ],
+    });
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(parseDocumentQuery('merger AND tender OR acquisition')).toEqual({
+      kind: 'or',
+      children: [
+        {
+          kind: 'and',
+          children: [
+            { kind: 'term', value: 'merger' },
+            { kind: 'term', value: 'tender' },
+          ],
+        },
+        { kind: 'term', value: 'acquisition' },
+      ],
+    });
+  });
+
+  it('groups with parentheses and negates with NOT or a leading dash', () => {
+    expect(parseDocumentQuery('(merger OR acquisition) NOT rumor -"press release"')).toEqual({
+      kind: 'and',
+      children: [
+        {
+          kind: 'or',
+          children: [
+            { kind: 'term', value: 'merger' },
+            { kind: 'term', value: 'acquisition' },
+          ],
+        },
+        { kind: 'not', child: { kind: 'term', value: 'rumor' } },
+        { kind: 'not', child: { kind: 'phrase', value: 'press release' } },
+      ],
+    });
+  });
+
+  it('treats lowercase operators and hyphenated words as terms', () => {
+    expect(parseDocumentQuery('buy or sell')).toEqual({
+      kind: 'and',
+      children: [
+        { kind: 'term', value: 'buy' },
+        { kind: 'term', value: 'or' },
+        { kind: 'term', value: 'sell' },
+      ],
+    });
+    expect(parseDocumentQuery('10-K')).toEqual({ kind: 'term', value: '10-K' });
+  });
+
+  it('tolerates malformed input', () => {
+    expect(parseDocumentQuery('"unclosed phrase')).toEqual({
+      kind: 'phrase',
+      value: 'unclosed phrase',
+    });
+    expect(parseDocumentQuery('dilution) offering')).toEqual({
+      kind: 'and',
+      children: [
+        { kind: 'term', value: 'dilution' },
+        { kind: 'term', value: 'offering' },
+      ],
+    });
+    expect(parseDocumentQuery('((( AND OR')).toBeNull();
+    expect(parseDocumentQuery('   ')).toBeNull();
+  });
+});
+
+describe('toOpenSearchQuery', () => {
+  const fields = ['title^2', 'body'];
+
+  it('compiles phrases to phrase matches and exclusions to must_not', () => {
+    expect(toOpenSearchQuery(parseDocumentQuery('"going concern" -restated')!, fields)).toEqual({
+      bool: {
+        must: [{ multi_match: { query: 'going concern', fields, type: 'phrase' } }],
+        must_not: [{ multi_match: { query: 'restated', fields, operator: 'and' } }],
+      },
+    });
+  });
+
+  it('compiles OR to should with one required match', () => {
+    expect(toOpenSearchQuery(parseDocumentQuery('merger OR acquisition')!, fields)).toEqual({
+      bool: {
+        should: [
+          { multi_match: { query: 'merger', fields, operator: 'and' } },
+          { multi_match: { query: 'acquisition', fields, operator: 'and' } },
+        ],
+        minimum_should_match: 1,
+      },
+    });
+  });
+
+  it('matches everything except the excluded term for a lone NOT', () => {
+    expect(toOpenSearchQuery(parseDocumentQuery('NOT rumor')!, fields)).toEqual({
+      bool: {
+        must: [{ match_all: {} }],
+        must_not: [{ multi_match: { query: 'rumor', fields, operator: 'and' } }],
+      },
+    });
+  });
+});
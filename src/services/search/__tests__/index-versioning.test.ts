@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAliasSwapActions,
+  describeAliasTarget,
+  retiredIndices,
+  versionedIndexName,
+} from '../index-versioning';
+
+describe('versionedIndexName', () => {
+  it('suffixes the alias with a sortable UTC timestamp', () => {
+    expect(versionedIndexName('prod_unified_search', new Date('2025-03-04T05:06:07.890Z'))).toBe(
+      'prod_unified_search_v20250304050607',
+    );
+  });
+});
+
+describe('buildAliasSwapActions', () => {
+  const alias = 'prod_unified_search';
+  const target = 'prod_unified_search_v2';
+
+  it('moves the alias off the current indices and onto the target', () => {
+    expect(
+      buildAliasSwapActions(alias, target, {
+        kind: 'alias',
+        indices: ['prod_unified_search_v1'],
+      }),
+    ).toEqual([
+      { remove: { index: 'prod_unified_search_v1', alias } },
+      { add: { index: target, alias } },
+    ]);
+  });
+
+  it('drops a legacy index that holds the alias name', () => {
+    expect(buildAliasSwapActions(alias, target, { kind: 'legacy', index: alias })).toEqual([
+      { remove_index: { index: alias } },
+      { add: { index: target, alias } },
+    ]);
+  });
+
+  it('only adds the alias when nothing serves it yet', () => {
+    expect(buildAliasSwapActions(alias, target, { kind: 'missing' })).toEqual([
+      { add: { index: target, alias } },
+    ]);
+  });
+});
+
+describe('retiredIndices', () => {
+  it('lists previously aliased indices other than the target', () => {
+    expect(
+      retiredIndices({ kind: 'alias', indices: ['idx_v1', 'idx_v2', 'idx_v3'] }, 'idx_v3'),
+    ).toEqual(['idx_v1', 'idx_v2']);
+    expect(retiredIndices({ kind: 'legacy', index: 'idx' }, 'idx_v1')).toEqual([]);
+  });
+});
+
+describe('describeAliasTarget', () => {
+  it('names the serving indices', () => {
+    expect(describeAliasTarget({ kind: 'alias', indices: ['a', 'b'] })).toBe('a,b');
+    expect(describeAliasTarget({ kind: 'legacy', index: 'idx' })).toBe('idx');
+    expect(describeAliasTarget({ kind: 'missing' })).toBeNull();
+  });
+});
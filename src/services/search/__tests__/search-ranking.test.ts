@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RankableEntry,
+  compareRanked,
+  scoreEntry,
+  trigramSimilarity,
+  trigrams,
+} from '../search-ranking';
+
+function entry(overrides: Partial<RankableEntry> = {}): RankableEntry {
+  return {
+    symbol: null,
+    primaryText: '',
+    hasSignals: false,
+    signalCount: 0,
+    isActive: false,
+    lastUpdated: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('trigrams', () => {
+  it('pads each word like pg_trgm', () => {
+    expect([...trigrams('Cat')].sort()).toEqual(['  c', ' ca', 'at ', 'cat']);
+  });
+});
+
+describe('trigramSimilarity', () => {
+  it('is 1 for identical words and tolerates a small typo', () => {
+    expect(trigramSimilarity('apple', 'Apple Inc.')).toBe(1);
+    expect(trigramSimilarity('aple', 'Apple Inc.')).toBeGreaterThanOrEqual(0.5);
+    expect(trigramSimilarity('tesla', 'Apple Inc.')).toBe(0);
+  });
+});
+
+describe('scoreEntry', () => {
+  it('returns 0 when nothing matches', () => {
+    expect(scoreEntry('tesla', entry({ symbol: 'AAPL', primaryText: 'Apple Inc.' }))).toBe(0);
+    expect(scoreEntry('   ', entry({ symbol: 'AAPL', primaryText: 'Apple Inc.' }))).toBe(0);
+  });
+
+  it('ranks an exact symbol above a name prefix', () => {
+    const exact = scoreEntry('aapl', entry({ symbol: 'AAPL', primaryText: 'Apple Inc.' }));
+    const prefix = scoreEntry('aapl', entry({ symbol: 'AAPLX', primaryText: 'Aapl Fund' }));
+
+    expect(exact).toBe(10);
+    expect(prefix).toBe(8 + 3);
+    expect(scoreEntry('app', entry({ symbol: 'AAPL', primaryText: 'Apple Inc.' }))).toBe(3);
+  });
+
+  it('matches every query word against word prefixes of the primary text', () => {
+    const market = entry({ primaryText: 'Will the Fed cut rates in June?' });
+
+    expect(scoreEntry('fed rate', market)).toBe(3);
+    expect(scoreEntry('fed hike', market)).toBe(0);
+  });
+
+  it('adds the signal and activity boosts only to matches', () => {
+    const boosted = entry({
+      symbol: 'AAPL',
+      primaryText: 'Apple Inc.',
+      hasSignals: true,
+      signalCount: 2,
+      isActive: true,
+    });
+
+    expect(scoreEntry('aapl', boosted)).toBe(10 + 5 + 2 + 3);
+    expect(scoreEntry('tesla', boosted)).toBe(0);
+  });
+});
+
+describe('compareRanked', () => {
+  it('breaks score ties by signal count, then recency', () => {
+    const older = { score: 3, entry: entry({ lastUpdated: new Date('2025-01-01T00:00:00Z') }) };
+    const newer = { score: 3, entry: entry({ lastUpdated: new Date('2025-02-01T00:00:00Z') }) };
+    const signalled = { score: 3, entry: entry({ signalCount: 1, hasSignals: true }) };
+    const best = { score: 10, entry: entry() };
+
+    expect([older, newer, signalled, best].sort(compareRanked)).toEqual([
+      best,
+      signalled,
+      newer,
+      older,
+    ]);
+  });
+});
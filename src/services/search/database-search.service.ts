@@ -0,0 +1,243 @@
+import { Prisma } from '@prisma/client';
+import { getPrismaClient } from '../../adapters/database/client.js';
+import {
+  MIN_TRIGRAM_SIMILARITY,
+  RankableEntry,
+  compareRanked,
+  normalizeQuery,
+  scoreEntry,
+} from './search-ranking.js';
+import type { SearchOptions, SearchResult } from './search.service.js';
+
+/**
+ * Candidates fetched per entity type before ranking; bounds the work per
+ * query and the reported total
+ */
+const CANDIDATE_LIMIT = 200;
+
+interface RankedResult {
+  score: number;
+  entry: RankableEntry;
+  result: SearchResult;
+}
+
+/**
+ * Search over the primary database, for when OpenSearch is unavailable.
+ *
+ * Candidates are the market questions, instrument names and signal reasons
+ * most similar to the query by pg_trgm word similarity (served by the GIN
+ * trigram indexes), plus instruments whose symbol starts with the query.
+ * They are then ranked in process by prefix and trigram similarity. Returns
+ * the same SearchResult contract as the OpenSearch backend.
+ */
+export class DatabaseSearchService {
+  /**
+   * Ranked search with pagination and entity type filtering.
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<{
+    results: SearchResult[];
+    total: number;
+  }> {
+    const limit = options.limit || 3;
+    const offset = options.offset || 0;
+    const normalized = normalizeQuery(query);
+
+    if (!normalized) {
+      return { results: [], total: 0 };
+    }
+
+    const wants = (type: SearchResult['entity_type']): boolean =>
+      !options.entity_types || options.entity_types.length === 0 || options.entity_types.includes(type);
+
+    const candidates: RankedResult[][] = await Promise.all([
+      wants('polymarket') ? this.searchMarkets(query, normalized) : [],
+      wants('equity') || wants('issuer') ? this.searchInstruments(query, normalized) : [],
+      wants('signal') ? this.searchSignals(query, normalized) : [],
+    ]);
+
+    const ranked = candidates
+      .flat()
+      .filter(candidate => candidate.score > 0 && wants(candidate.result.entity_type))
+      .sort(compareRanked);
+
+    return {
+      results: ranked.slice(offset, offset + limit).map(candidate => candidate.result),
+      total: ranked.length,
+    };
+  }
+
+  private async searchMarkets(query: string, normalized: string): Promise<RankedResult[]> {
+    const db = getPrismaClient();
+    const ids = await this.similarIds(Prisma.sql`
+      SELECT id FROM markets
+      WHERE question %> ${normalized}
+      ORDER BY word_similarity(${normalized}, question) DESC, volume24h DESC
+      LIMIT ${CANDIDATE_LIMIT}`);
+    const markets = await db.market.findMany({ where: { id: { in: ids } } });
+
+    return markets.map(market => {
+      const entry: RankableEntry = {
+        symbol: null,
+        primaryText: market.question,
+        secondaryText: market.categoryTag || undefined,
+        hasSignals: false,
+        signalCount: 0,
+        isActive: market.active,
+        lastUpdated: market.lastUpdated,
+      };
+
+      return {
+        score: scoreEntry(query, entry),
+        entry,
+        result: {
+          entity_type: 'polymarket',
+          entity_id: market.id,
+          primary_text: market.question,
+          secondary_text: market.categoryTag || undefined,
+          symbol: null,
+          category: market.categoryTag || null,
+          has_signals: false,
+          signal_count: 0,
+          metadata: {
+            marketSlug: market.marketSlug,
+            expiryDate: market.expiryDate.toISOString(),
+            yesPrice: market.yesPrice?.toNumber(),
+            noPrice: market.noPrice?.toNumber(),
+          },
+        },
+      };
+    });
+  }
+
+  private async searchInstruments(query: string, normalized: string): Promise<RankedResult[]> {
+    const db = getPrismaClient();
+    const symbolPrefix = `${normalized.replace(/[\\%_]/g, '\\$&')}%`;
+    const ids = await this.similarIds(Prisma.sql`
+      SELECT id FROM instruments
+      WHERE symbol ILIKE ${symbolPrefix} OR name %> ${normalized}
+      ORDER BY symbol ILIKE ${symbolPrefix} DESC, word_similarity(${normalized}, name) DESC,
+        updated_at DESC
+      LIMIT ${CANDIDATE_LIMIT}`);
+    const instruments = await db.instrument.findMany({
+      where: { id: { in: ids } },
+      include: {
+        identifiers: true,
+        signals: {
+          where: this.activeSignalFilter(),
+          select: { id: true },
+        },
+      },
+    });
+
+    return instruments.map(instrument => {
+      const cikIdentifier = instrument.identifiers.find(id => id.type === 'CIK');
+      const entry: RankableEntry = {
+        symbol: instrument.symbol,
+        primaryText: instrument.name,
+        secondaryText: instrument.exchange || undefined,
+        hasSignals: instrument.signals.length > 0,
+        signalCount: instrument.signals.length,
+        isActive: instrument.isActive && instrument.status === 'ACTIVE',
+        lastUpdated: instrument.updatedAt,
+      };
+
+      return {
+        score: scoreEntry(query, entry),
+        entry,
+        result: {
+          entity_type: cikIdentifier ? 'issuer' : 'equity',
+          entity_id: instrument.id,
+          primary_text: instrument.name,
+          secondary_text: instrument.exchange || undefined,
+          symbol: instrument.symbol,
+          category: instrument.type,
+          has_signals: entry.hasSignals,
+          signal_count: entry.signalCount,
+          metadata: {
+            exchange: instrument.exchange,
+            currency: instrument.currency,
+            tradeable: instrument.tradeable,
+            cik: cikIdentifier?.value,
+            lastFilingAt: instrument.lastFilingAt?.toISOString(),
+            firstSeenAt: instrument.firstSeenAt?.toISOString(),
+            metadataSource: instrument.metadataSource,
+          },
+        },
+      };
+    });
+  }
+
+  private async searchSignals(query: string, normalized: string): Promise<RankedResult[]> {
+    const db = getPrismaClient();
+    const ids = await this.similarIds(Prisma.sql`
+      SELECT id FROM instrument_signals
+      WHERE reason %> ${normalized} AND (expires_at IS NULL OR expires_at > now())
+      ORDER BY word_similarity(${normalized}, reason) DESC, computed_at DESC
+      LIMIT ${CANDIDATE_LIMIT}`);
+    const signals = await db.instrumentSignal.findMany({
+      where: { id: { in: ids } },
+      include: { instrument: true },
+    });
+
+    return signals.map(signal => {
+      const secondaryText = `${signal.instrument.name} (${signal.instrument.symbol})`;
+      const entry: RankableEntry = {
+        symbol: signal.instrument.symbol,
+        primaryText: signal.reason,
+        secondaryText,
+        hasSignals: true,
+        signalCount: 1,
+        isActive: true,
+        lastUpdated: signal.computedAt,
+      };
+
+      return {
+        score: scoreEntry(query, entry),
+        entry,
+        result: {
+          entity_type: 'signal',
+          entity_id: signal.id,
+          primary_text: signal.reason,
+          secondary_text: secondaryText,
+          symbol: signal.instrument.symbol,
+          category: signal.signalType,
+          has_signals: true,
+          signal_count: 1,
+          metadata: {
+            instrumentId: signal.instrumentId,
+            instrumentName: signal.instrument.name,
+            severity: signal.severity,
+            score: signal.score.toString(),
+          },
+          signal_type: signal.signalType,
+          signal_severity: signal.severity,
+          signal_score: signal.score.toNumber(),
+          instrument_id: signal.instrumentId,
+        },
+      };
+    });
+  }
+
+  /**
+   * Run a candidate query with the `%>` threshold lowered to the in-process
+   * fuzzy threshold, so a typo the ranker accepts is also retrieved
+   */
+  private async similarIds(candidateQuery: Prisma.Sql): Promise<string[]> {
+    const db = getPrismaClient();
+    const [, rows] = await db.$transaction([
+      db.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(MIN_TRIGRAM_SIMILARITY)}, true)`,
+      db.$queryRaw<Array<{ id: string }>>(candidateQuery),
+    ]);
+
+    return rows.map(row => row.id);
+  }
+
+  private activeSignalFilter(): Prisma.InstrumentSignalWhereInput {
+    return {
+      OR: [
+        { expiresAt: null },
+        { expiresAt: { gt: new Date() } },
+      ],
+    };
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Pure parser for full-text document queries.
+ *
+ * Supported syntax:
+ * - `"quoted phrases"` match the words in order
+ * - `AND`, `OR` and `NOT` (upper case) combine terms; adjacent terms are
+ *   ANDed, and AND binds tighter than OR
+ * - `-term` excludes a term or phrase, `( ... )` groups
+ *
+ * Parsing never fails: an unclosed quote runs to the end of the query and
+ * unbalanced parentheses are ignored, so any user input yields a query.
+ */
+
+export type QueryNode =
+  | { kind: 'term'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode };
+
+type Token =
+  | { kind: 'word'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'and' | 'or' | 'not' | 'open' | 'close' };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      const value = query.slice(i + 1, end === -1 ? query.length : end).trim();
+      if (value) tokens.push({ kind: 'phrase', value });
+      i = end === -1 ? query.length : end + 1;
+    } else if (char === '(') {
+      tokens.push({ kind: 'open' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ kind: 'close' });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s"()]/.test(query[end])) end++;
+      const word = query.slice(i, end);
+      if (word === 'AND') tokens.push({ kind: 'and' });
+      else if (word === 'OR') tokens.push({ kind: 'or' });
+      else if (word === 'NOT') tokens.push({ kind: 'not' });
+      else tokens.push({ kind: 'word', value: word });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a query into a tree; null when it has no searchable terms
+ */
+export function parseDocumentQuery(query: string): QueryNode | null {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  function parseOr(): QueryNode | null {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+
+    while (peek()?.kind === 'or') {
+      position++;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+
+    return combine('or', children);
+  }
+
+  function parseAnd(): QueryNode | null {
+    const children: QueryNode[] = [];
+
+    for (;;) {
+      const token = peek();
+      if (!token || token.kind === 'or' || token.kind === 'close') break;
+      if (token.kind === 'and') {
+        position++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+
+    return combine('and', children);
+  }
+
+  function parseUnary(): QueryNode | null {
+    const token = tokens[position++];
+
+    switch (token.kind) {
+      case 'not': {
+        const child =
+          peek() && !['or', 'and', 'close'].includes(peek()!.kind) ? parseUnary() : null;
+        return child ? { kind: 'not', child } : null;
+      }
+      case 'open': {
+        const inner = parseOr();
+        if (peek()?.kind === 'close') position++;
+        return inner;
+      }
+      case 'phrase':
+        return { kind: 'phrase', value: token.value };
+      case 'word':
+        return { kind: 'term', value: token.value };
+      default:
+        return null;
+    }
+  }
+
+  const root = parseOr();
+
+  // Stray closing parentheses end parseOr early; parse what follows too
+  const rest: QueryNode[] = root ? [root] : [];
+  while (position < tokens.length) {
+    position++;
+    const next = parseOr();
+    if (next) rest.push(next);
+  }
+
+  return combine('and', rest);
+}
+
+function combine(kind: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { kind, children };
+}
+
+/**
+ * Translate a parsed query into an OpenSearch bool query over `fields`
+ */
+export function toOpenSearchQuery(node: QueryNode, fields: string[]): Record<string, unknown> {
+  switch (node.kind) {
+    case 'term':
+      return { multi_match: { query: node.value, fields, operator: 'and' } };
+    case 'phrase':
+      return { multi_match: { query: node.value, fields, type: 'phrase' } };
+    case 'and': {
+      const positive = node.children.filter((c) => c.kind !== 'not');
+      const negative = node.children.filter(
+        (c): c is Extract<QueryNode, { kind: 'not' }> => c.kind === 'not',
+      );
+      return {
+        bool: {
+          must:
+            positive.length > 0
+              ? positive.map((c) => toOpenSearchQuery(c, fields))
+              : [{ match_all: {} }],
+          ...(negative.length > 0 && {
+            must_not: negative.map((c) => toOpenSearchQuery(c.child, fields)),
+          }),
+        },
+      };
+    }
+    case 'or':
+      return {
+        bool: {
+          should: node.children.map((c) => toOpenSearchQuery(c, fields)),
+          minimum_should_match: 1,
+        },
+      };
+    case 'not':
+      return {
+        bool: {
+          must: [{ match_all: {} }],
+          must_not: [toOpenSearchQuery(node.child, fields)],
+        },
+      };
+  }
+}
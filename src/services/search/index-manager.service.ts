@@ -1,5 +1,116 @@
+import type { API } from '@opensearch-project/opensearch';
 import { esClient } from './elasticsearch.client.js';
 import { getLogger } from '../../utils/logger.js';
+import {
+  AliasTarget,
+  buildAliasSwapActions,
+  retiredIndices,
+  versionedIndexName,
+} from './index-versioning.js';
+
+/**
+ * Settings and mappings of the unified search index
+ */
+const UNIFIED_INDEX_BODY: API.Indices_Create_RequestBody = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 0,
+    analysis: {
+      analyzer: {
+        autocomplete_analyzer: {
+          type: 'custom',
+          tokenizer: 'standard',
+          filter: ['lowercase', 'autocomplete_edge_ngram'],
+        },
+        symbol_analyzer: {
+          type: 'custom',
+          tokenizer: 'keyword',
+          filter: ['lowercase'],
+        },
+      },
+      filter: {
+        autocomplete_edge_ngram: {
+          type: 'edge_ngram',
+          min_gram: 2,
+          max_gram: 20,
+        },
+      },
+    },
+  },
+  mappings: {
+    properties: {
+      entity_type: {
+        type: 'keyword',
+      },
+      entity_id: {
+        type: 'keyword',
+      },
+      primary_text: {
+        type: 'text',
+        analyzer: 'autocomplete_analyzer',
+        search_analyzer: 'standard',
+        fields: {
+          exact: {
+            type: 'keyword',
+          },
+        },
+      },
+      secondary_text: {
+        type: 'text',
+        analyzer: 'standard',
+      },
+      symbol: {
+        type: 'text',
+        analyzer: 'symbol_analyzer',
+        fields: {
+          exact: {
+            type: 'keyword',
+          },
+        },
+      },
+      category: {
+        type: 'keyword',
+      },
+      tags: {
+        type: 'keyword',
+      },
+      has_signals: {
+        type: 'boolean',
+      },
+      signal_count: {
+        type: 'integer',
+      },
+      is_active: {
+        type: 'boolean',
+      },
+      liquidity: {
+        type: 'float',
+      },
+      volume: {
+        type: 'float',
+      },
+      last_updated: {
+        type: 'date',
+      },
+      metadata: {
+        type: 'object',
+        enabled: false,
+      },
+      signal_type: {
+        type: 'keyword',
+      },
+      signal_severity: {
+        type: 'keyword',
+      },
+      signal_score: {
+        type: 'float',
+      },
+      instrument_id: {
+        type: 'keyword',
+      },
+    },
+  },
+};
 
 /**
  * Manages Elasticsearch index creation and configuration.
@@ -7,6 +118,7 @@ import { getLogger } from '../../utils/logger.js';
  */
 export class IndexManagerService {
   private indexName: string | null = null;
+  private documentIndexName: string | null = null;
 
   constructor() {
     // Lazy initialization
@@ -19,25 +131,190 @@ export class IndexManagerService {
     return this.indexName;
   }
 
+  private ensureDocumentIndexName(): string {
+    if (!this.documentIndexName) {
+      this.documentIndexName = esClient.getIndexName('documents');
+    }
+    return this.documentIndexName;
+  }
+
   /**
    * Initialize the unified search index.
+   * Creates a versioned index behind the alias on first run; an existing
+   * alias is left alone, mapping changes go through a reindex.
    * This method is idempotent - safe to call multiple times.
    */
   async initializeIndex(): Promise<void> {
     const client = esClient.getClient();
-    const indexName = this.ensureIndexName();
+    const alias = this.ensureIndexName();
+
+    try {
+      const current = await this.resolveAliasTarget();
+
+      if (current.kind === 'alias') {
+        const logger = getLogger();
+        logger.info(`Alias ${alias} already exists (${current.indices.join(', ')})`);
+        return;
+      }
+
+      if (current.kind === 'legacy') {
+        const logger = getLogger();
+        logger.warn(
+          `Index ${alias} predates versioned indices; run a search reindex to move it behind an alias`,
+        );
+        return;
+      }
+
+      const indexName = await this.createVersionedIndex();
+      await client.indices.updateAliases({
+        body: { actions: buildAliasSwapActions(alias, indexName, current) },
+      });
+
+      const logger = getLogger();
+      logger.info(`Created index ${indexName} with autocomplete mappings behind alias ${alias}`);
+    } catch (error) {
+      const logger = getLogger();
+      logger.error({ error, indexName: alias }, `Failed to initialize index ${alias}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new, empty versioned unified index (not yet aliased).
+   */
+  async createVersionedIndex(): Promise<string> {
+    const client = esClient.getClient();
+    const indexName = versionedIndexName(this.ensureIndexName(), new Date());
+
+    await client.indices.create({ index: indexName, body: UNIFIED_INDEX_BODY });
+
+    const logger = getLogger();
+    logger.info(`Created versioned index ${indexName}`);
+    return indexName;
+  }
+
+  /**
+   * Resolve what currently serves the unified search alias.
+   */
+  async resolveAliasTarget(): Promise<AliasTarget> {
+    const client = esClient.getClient();
+    const alias = this.ensureIndexName();
+
+    const aliasExists = await client.indices.existsAlias({ name: alias });
+    if (aliasExists.body) {
+      const response = await client.indices.getAlias({ name: alias });
+      return { kind: 'alias', indices: Object.keys(response.body) };
+    }
+
+    const indexExists = await client.indices.exists({ index: alias });
+    return indexExists.body ? { kind: 'legacy', index: alias } : { kind: 'missing' };
+  }
+
+  /**
+   * Atomically point the alias at `indexName`, away from `current`.
+   */
+  async swapAlias(indexName: string, current: AliasTarget): Promise<void> {
+    const client = esClient.getClient();
+    const alias = this.ensureIndexName();
+
+    try {
+      await client.indices.updateAliases({
+        body: { actions: buildAliasSwapActions(alias, indexName, current) },
+      });
+      const logger = getLogger();
+      logger.info(`Alias ${alias} now points at ${indexName}`);
+    } catch (error) {
+      const logger = getLogger();
+      logger.error({ error, alias, indexName }, `Failed to swap alias ${alias} to ${indexName}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh the index to make documents searchable immediately.
+   * Defaults to the alias; pass a versioned index to refresh one being rebuilt.
+   */
+  async refreshIndex(indexName: string = this.ensureIndexName()): Promise<void> {
+    const client = esClient.getClient();
+
+    try {
+      await client.indices.refresh({ index: indexName });
+      const logger = getLogger();
+      logger.debug(`Refreshed index ${indexName}`);
+    } catch (error) {
+      const logger = getLogger();
+      logger.error({ error, indexName }, `Failed to refresh index ${indexName}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the index (for testing/cleanup).
+   * Removes every index behind the alias, or a legacy index of that name.
+   */
+  async deleteIndex(): Promise<void> {
+    const alias = this.ensureIndexName();
+    const current = await this.resolveAliasTarget();
+
+    if (current.kind === 'alias') {
+      for (const indexName of current.indices) {
+        await this.deleteVersionedIndex(indexName);
+      }
+    } else if (current.kind === 'legacy') {
+      await this.deleteVersionedIndex(alias);
+    }
+  }
+
+  /**
+   * Delete one concrete index, e.g. a version retired by a reindex.
+   */
+  async deleteVersionedIndex(indexName: string): Promise<void> {
+    const client = esClient.getClient();
+
+    try {
+      const exists = await client.indices.exists({ index: indexName });
+
+      if (exists.body) {
+        await client.indices.delete({ index: indexName });
+        const logger = getLogger();
+        logger.info(`Deleted index ${indexName}`);
+      }
+    } catch (error) {
+      const logger = getLogger();
+      logger.error({ error, indexName }, `Failed to delete index ${indexName}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the indices the alias served before it moved to `indexName`.
+   */
+  async deleteRetiredIndices(previous: AliasTarget, indexName: string): Promise<void> {
+    for (const retired of retiredIndices(previous, indexName)) {
+      await this.deleteVersionedIndex(retired);
+    }
+  }
+
+  /**
+   * Initialize the full-text document index for filing and document content.
+   * Kept separate from the unified index, whose edge n-gram analysis would
+   * explode on long bodies. Idempotent.
+   *
+   * @returns true when the index was created by this call
+   */
+  async initializeDocumentIndex(): Promise<boolean> {
+    const client = esClient.getClient();
+    const indexName = this.ensureDocumentIndexName();
 
     try {
-      // Check if index already exists
       const exists = await client.indices.exists({ index: indexName });
 
-      if (exists) {
+      if (exists.body) {
         const logger = getLogger();
         logger.info(`Index ${indexName} already exists`);
-        return;
+        return false;
       }
 
-      // Create index with mappings and analyzers
       await client.indices.create({
         index: indexName,
         body: {
@@ -46,96 +323,54 @@ export class IndexManagerService {
             number_of_replicas: 0,
             analysis: {
               analyzer: {
-                autocomplete_analyzer: {
+                document_analyzer: {
                   type: 'custom',
                   tokenizer: 'standard',
-                  filter: ['lowercase', 'autocomplete_edge_ngram'],
-                },
-                symbol_analyzer: {
-                  type: 'custom',
-                  tokenizer: 'keyword',
-                  filter: ['lowercase'],
-                },
-              },
-              filter: {
-                autocomplete_edge_ngram: {
-                  type: 'edge_ngram',
-                  min_gram: 2,
-                  max_gram: 20,
+                  filter: ['lowercase', 'asciifolding'],
                 },
               },
             },
           },
           mappings: {
             properties: {
-              entity_type: {
+              source: {
                 type: 'keyword',
               },
               entity_id: {
                 type: 'keyword',
               },
-              primary_text: {
-                type: 'text',
-                analyzer: 'autocomplete_analyzer',
-                search_analyzer: 'standard',
-                fields: {
-                  exact: {
-                    type: 'keyword',
-                  },
-                },
-              },
-              secondary_text: {
+              title: {
                 type: 'text',
-                analyzer: 'standard',
+                analyzer: 'document_analyzer',
               },
-              symbol: {
+              // Offsets make highlighting long bodies cheap
+              body: {
                 type: 'text',
-                analyzer: 'symbol_analyzer',
-                fields: {
-                  exact: {
-                    type: 'keyword',
-                  },
-                },
+                analyzer: 'document_analyzer',
+                index_options: 'offsets',
               },
-              category: {
+              form_type: {
                 type: 'keyword',
               },
-              tags: {
+              document_type: {
                 type: 'keyword',
               },
-              has_signals: {
-                type: 'boolean',
-              },
-              signal_count: {
-                type: 'integer',
-              },
-              is_active: {
-                type: 'boolean',
-              },
-              liquidity: {
-                type: 'float',
-              },
-              volume: {
-                type: 'float',
-              },
-              last_updated: {
-                type: 'date',
-              },
-              metadata: {
-                type: 'object',
-                enabled: false,
-              },
-              signal_type: {
+              instrument_ids: {
                 type: 'keyword',
               },
-              signal_severity: {
+              cik: {
                 type: 'keyword',
               },
-              signal_score: {
-                type: 'float',
+              company_name: {
+                type: 'text',
+                analyzer: 'document_analyzer',
               },
-              instrument_id: {
+              published_at: {
+                type: 'date',
+              },
+              link: {
                 type: 'keyword',
+                index: false,
               },
             },
           },
@@ -143,7 +378,8 @@ export class IndexManagerService {
       });
 
       const logger = getLogger();
-      logger.info(`Created index ${indexName} with autocomplete mappings`);
+      logger.info(`Created index ${indexName} with full-text document mappings`);
+      return true;
     } catch (error) {
       const logger = getLogger();
       logger.error({ error, indexName }, `Failed to initialize index ${indexName}`);
@@ -152,11 +388,11 @@ export class IndexManagerService {
   }
 
   /**
-   * Refresh the index to make documents searchable immediately.
+   * Refresh the document index to make content searchable immediately.
    */
-  async refreshIndex(): Promise<void> {
+  async refreshDocumentIndex(): Promise<void> {
     const client = esClient.getClient();
-    const indexName = this.ensureIndexName();
+    const indexName = this.ensureDocumentIndexName();
 
     try {
       await client.indices.refresh({ index: indexName });
@@ -170,31 +406,16 @@ export class IndexManagerService {
   }
 
   /**
-   * Delete the index (for testing/cleanup).
+   * Get the index name (the read/write alias).
    */
-  async deleteIndex(): Promise<void> {
-    const client = esClient.getClient();
-    const indexName = this.ensureIndexName();
-
-    try {
-      const exists = await client.indices.exists({ index: indexName });
-
-      if (exists) {
-        await client.indices.delete({ index: indexName });
-        const logger = getLogger();
-        logger.info(`Deleted index ${indexName}`);
-      }
-    } catch (error) {
-      const logger = getLogger();
-      logger.error({ error, indexName }, `Failed to delete index ${indexName}`);
-      throw error;
-    }
+  getIndexName(): string {
+    return this.ensureIndexName();
   }
 
   /**
-   * Get the index name.
+   * Get the document index name.
    */
-  getIndexName(): string {
-    return this.ensureIndexName();
+  getDocumentIndexName(): string {
+    return this.ensureDocumentIndexName();
   }
 }
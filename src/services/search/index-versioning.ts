@@ -0,0 +1,68 @@
+/**
+ * Pure helpers for versioned search indices behind an alias.
+ *
+ * Readers and incremental writers use the alias; a rebuild fills a fresh
+ * `<alias>_v<timestamp>` index and repoints the alias in one atomic
+ * `_aliases` call. Indices created before aliasing carry the alias name
+ * themselves ("legacy") and are dropped by the same call.
+ */
+
+export type AliasTarget =
+  { kind: 'alias'; indices: string[] } | { kind: 'legacy'; index: string } | { kind: 'missing' };
+
+export type AliasAction =
+  | { add: { index: string; alias: string } }
+  | { remove: { index: string; alias: string } }
+  | { remove_index: { index: string } };
+
+/**
+ * Versioned index name, e.g. `prod_unified_search_v20250101120000`
+ */
+export function versionedIndexName(alias: string, at: Date): string {
+  const stamp = at.toISOString().replace(/\D/g, '').slice(0, 14);
+  return `${alias}_v${stamp}`;
+}
+
+/**
+ * Actions that point `alias` at `targetIndex` alone, in a single request
+ */
+export function buildAliasSwapActions(
+  alias: string,
+  targetIndex: string,
+  current: AliasTarget,
+): AliasAction[] {
+  const actions: AliasAction[] = [];
+
+  if (current.kind === 'alias') {
+    for (const index of current.indices) {
+      if (index !== targetIndex) actions.push({ remove: { index, alias } });
+    }
+  } else if (current.kind === 'legacy') {
+    // An alias can't share a name with an index, so the legacy index goes first
+    actions.push({ remove_index: { index: current.index } });
+  }
+
+  actions.push({ add: { index: targetIndex, alias } });
+  return actions;
+}
+
+/**
+ * Indices left serving nothing once the alias points at `targetIndex`
+ */
+export function retiredIndices(current: AliasTarget, targetIndex: string): string[] {
+  return current.kind === 'alias' ? current.indices.filter((index) => index !== targetIndex) : [];
+}
+
+/**
+ * Human-readable description of what the alias serves, for run records
+ */
+export function describeAliasTarget(current: AliasTarget): string | null {
+  switch (current.kind) {
+    case 'alias':
+      return current.indices.join(',') || null;
+    case 'legacy':
+      return current.index;
+    case 'missing':
+      return null;
+  }
+}
@@ -1,5 +1,6 @@
 import { esClient } from './elasticsearch.client.js';
 import { IndexManagerService } from './index-manager.service.js';
+import { Prisma } from '@prisma/client';
 import { getPrismaClient } from '../../adapters/database/client.js';
 import { getLogger } from '../../utils/logger.js';
 import { getEnvironment } from '../../config/environment.js';
@@ -30,6 +31,51 @@ export interface SearchDocument {
   instrument_id?: string;
 }
 
+/**
+ * Options for full indexing runs. A reindex writes into its new versioned
+ * index and then catches up on entities changed since the backfill began.
+ */
+export interface IndexAllOptions {
+  index?: string; // Target index; defaults to the alias
+  since?: Date; // Only entities changed at or after this time
+  onProgress?: (indexed: number) => Promise<void>;
+}
+
+/**
+ * Full-text documents for the document index: parsed filing content and
+ * ingested documents (news, transcripts, regulatory releases)
+ */
+export interface FullTextDocument {
+  source: 'filing' | 'document';
+  entity_id: string;
+  title: string;
+  body: string;
+  form_type: string | null;
+  document_type: string;
+  instrument_ids: string[];
+  cik: string | null;
+  company_name: string | null;
+  published_at: Date;
+  link: string;
+}
+
+/**
+ * Bodies beyond this are truncated; it matches the default highlighter
+ * max_analyzed_offset, so every indexed character can be highlighted
+ */
+const MAX_BODY_CHARS = 1_000_000;
+
+/**
+ * Filing and document bodies run to megabytes, so they are indexed in
+ * smaller batches than the unified index entities
+ */
+const FULL_TEXT_BATCH_SIZE = 10;
+
+type FilingWithContent = Prisma.FilingGetPayload<{ include: { parsedContent: true } }>;
+type DocumentWithContent = Prisma.DocumentGetPayload<{
+  include: { content: true; instruments: { select: { instrumentId: true } } };
+}>;
+
 /**
  * Indexes data into Elasticsearch for global search.
  */
@@ -174,13 +220,14 @@ export class SearchIndexerService {
 
   /**
    * Index all markets in batches.
+   * @returns Number of markets indexed
    */
-  async indexAllMarkets(): Promise<void> {
+  async indexAllMarkets(options: IndexAllOptions = {}): Promise<number> {
     // Check if search is available
     if (!esClient.isAvailable()) {
       const logger = getLogger();
       logger.warn('Search indexing unavailable, skipping full market indexing');
-      return;
+      return 0;
     }
 
     const logger = getLogger();
@@ -195,6 +242,7 @@ export class SearchIndexerService {
         take: this.batchSize,
         skip: offset,
         orderBy: { lastUpdated: 'desc' },
+        where: options.since ? { lastUpdated: { gte: options.since } } : undefined,
       });
 
       if (markets.length === 0) {
@@ -223,26 +271,29 @@ export class SearchIndexerService {
         },
       }));
 
-      await this.bulkIndexDocuments(documents);
+      await this.bulkIndexDocuments(documents, options.index);
 
       indexed += documents.length;
       offset += this.batchSize;
+      await options.onProgress?.(indexed);
 
       logger.info(`Indexed ${indexed} markets...`);
     }
 
     logger.info(`Completed market indexing: ${indexed} total markets`);
+    return indexed;
   }
 
   /**
    * Index all instruments in batches.
+   * @returns Number of instruments indexed
    */
-  async indexAllInstruments(): Promise<void> {
+  async indexAllInstruments(options: IndexAllOptions = {}): Promise<number> {
     // Check if search is available
     if (!esClient.isAvailable()) {
       const logger = getLogger();
       logger.warn('Search indexing unavailable, skipping full instrument indexing');
-      return;
+      return 0;
     }
 
     const logger = getLogger();
@@ -257,6 +308,7 @@ export class SearchIndexerService {
         take: this.batchSize,
         skip: offset,
         orderBy: { updatedAt: 'desc' },
+        where: options.since ? { updatedAt: { gte: options.since } } : undefined,
         include: {
           identifiers: true,
           signals: {
@@ -304,15 +356,17 @@ export class SearchIndexerService {
         };
       });
 
-      await this.bulkIndexDocuments(documents);
+      await this.bulkIndexDocuments(documents, options.index);
 
       indexed += documents.length;
       offset += this.batchSize;
+      await options.onProgress?.(indexed);
 
       logger.info(`Indexed ${indexed} instruments...`);
     }
 
     logger.info(`Completed instrument indexing: ${indexed} total instruments`);
+    return indexed;
   }
 
   /**
@@ -377,13 +431,14 @@ export class SearchIndexerService {
 
   /**
    * Index all active signals in batches.
+   * @returns Number of signals indexed
    */
-  async indexAllSignals(): Promise<void> {
+  async indexAllSignals(options: IndexAllOptions = {}): Promise<number> {
     // Check if search is available
     if (!esClient.isAvailable()) {
       const logger = getLogger();
       logger.warn('Search indexing unavailable, skipping signal indexing');
-      return;
+      return 0;
     }
 
     const logger = getLogger();
@@ -408,6 +463,7 @@ export class SearchIndexerService {
             { expiresAt: null },
             { expiresAt: { gt: new Date() } },
           ],
+          ...(options.since && { computedAt: { gte: options.since } }),
         },
       });
 
@@ -437,14 +493,170 @@ export class SearchIndexerService {
         instrument_id: signal.instrumentId,
       }));
 
-      await this.bulkIndexDocuments(documents);
+      await this.bulkIndexDocuments(documents, options.index);
       indexed += documents.length;
       offset += this.batchSize;
+      await options.onProgress?.(indexed);
 
       logger.info(`Indexed ${indexed} signals...`);
     }
 
     logger.info(`Completed signal indexing: ${indexed} total`);
+    return indexed;
+  }
+
+  /**
+   * Index the parsed content of a single filing.
+   */
+  async indexFilingContent(filingId: string): Promise<void> {
+    if (!esClient.isAvailable()) {
+      const logger = getLogger();
+      logger.debug(`Search indexing unavailable, skipping filing ${filingId}`);
+      return;
+    }
+
+    try {
+      const db = getPrismaClient();
+      const filing = await db.filing.findUnique({
+        where: { id: filingId },
+        include: { parsedContent: true },
+      });
+
+      if (!filing?.parsedContent) {
+        const logger = getLogger();
+        logger.warn(`Filing ${filingId} has no parsed content to index`);
+        return;
+      }
+
+      const instrumentsByCik = await this.findInstrumentsByCik([filing.cik]);
+      await this.bulkIndexFullText([this.toFilingDocument(filing, instrumentsByCik)]);
+      await this.indexManager.refreshDocumentIndex();
+
+      const logger = getLogger();
+      logger.debug(`Indexed content of filing ${filingId}`);
+    } catch (error) {
+      const logger = getLogger();
+      logger.error({ error, filingId }, `Failed to index filing ${filingId}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Index the content of a single document (news, transcript, regulatory release).
+   */
+  async indexDocumentContent(documentId: string): Promise<void> {
+    if (!esClient.isAvailable()) {
+      const logger = getLogger();
+      logger.debug(`Search indexing unavailable, skipping document ${documentId}`);
+      return;
+    }
+
+    try {
+      const db = getPrismaClient();
+      const document = await db.document.findUnique({
+        where: { id: documentId },
+        include: { content: true, instruments: { select: { instrumentId: true } } },
+      });
+
+      if (!document?.content) {
+        const logger = getLogger();
+        logger.warn(`Document ${documentId} has no content to index`);
+        return;
+      }
+
+      await this.bulkIndexFullText([this.toDocumentDocument(document)]);
+      await this.indexManager.refreshDocumentIndex();
+
+      const logger = getLogger();
+      logger.debug(`Indexed content of document ${documentId}`);
+    } catch (error) {
+      const logger = getLogger();
+      logger.error({ error, documentId }, `Failed to index document ${documentId}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Index all parsed filing content in batches.
+   */
+  async indexAllFilings(): Promise<void> {
+    if (!esClient.isAvailable()) {
+      const logger = getLogger();
+      logger.warn('Search indexing unavailable, skipping filing content indexing');
+      return;
+    }
+
+    const logger = getLogger();
+    logger.info('Starting filing content indexing...');
+
+    const db = getPrismaClient();
+    let offset = 0;
+    let indexed = 0;
+
+    while (true) {
+      const filings = await db.filing.findMany({
+        take: FULL_TEXT_BATCH_SIZE,
+        skip: offset,
+        orderBy: { filingDate: 'desc' },
+        where: { parsedContent: { isNot: null } },
+        include: { parsedContent: true },
+      });
+
+      if (filings.length === 0) break;
+
+      const instrumentsByCik = await this.findInstrumentsByCik(filings.map(f => f.cik));
+      const documents = filings.map(filing => this.toFilingDocument(filing, instrumentsByCik));
+
+      await this.bulkIndexFullText(documents);
+      indexed += documents.length;
+      offset += FULL_TEXT_BATCH_SIZE;
+
+      if (indexed % (FULL_TEXT_BATCH_SIZE * 10) === 0) {
+        logger.info(`Indexed ${indexed} filings...`);
+      }
+    }
+
+    logger.info(`Completed filing content indexing: ${indexed} total`);
+  }
+
+  /**
+   * Index all document content in batches.
+   */
+  async indexAllDocuments(): Promise<void> {
+    if (!esClient.isAvailable()) {
+      const logger = getLogger();
+      logger.warn('Search indexing unavailable, skipping document content indexing');
+      return;
+    }
+
+    const logger = getLogger();
+    logger.info('Starting document content indexing...');
+
+    const db = getPrismaClient();
+    let offset = 0;
+    let indexed = 0;
+
+    while (true) {
+      const documents = await db.document.findMany({
+        take: FULL_TEXT_BATCH_SIZE,
+        skip: offset,
+        orderBy: { publishedAt: 'desc' },
+        where: { content: { isNot: null } },
+        include: { content: true, instruments: { select: { instrumentId: true } } },
+      });
+
+      if (documents.length === 0) break;
+
+      await this.bulkIndexFullText(documents.map(document => this.toDocumentDocument(document)));
+      indexed += documents.length;
+      offset += FULL_TEXT_BATCH_SIZE;
+
+      if (indexed % (FULL_TEXT_BATCH_SIZE * 10) === 0) {
+        logger.info(`Indexed ${indexed} documents...`);
+      }
+    }
+
+    logger.info(`Completed document content indexing: ${indexed} total`);
   }
 
   /**
@@ -511,16 +723,18 @@ export class SearchIndexerService {
   }
 
   /**
-   * Bulk index multiple documents.
+   * Bulk index multiple documents, into the alias unless another index is given.
    */
-  private async bulkIndexDocuments(documents: SearchDocument[]): Promise<void> {
+  private async bulkIndexDocuments(
+    documents: SearchDocument[],
+    indexName: string = this.indexManager.getIndexName()
+  ): Promise<void> {
     if (documents.length === 0) {
       return;
     }
 
     try {
       const client = esClient.getClient();
-      const indexName = this.indexManager.getIndexName();
 
       const operations = documents.flatMap(doc => [
         { index: { _index: indexName, _id: doc.entity_id } },
@@ -546,4 +760,99 @@ export class SearchIndexerService {
       throw error;
     }
   }
+
+  private toFilingDocument(
+    filing: FilingWithContent,
+    instrumentsByCik: Map<string, string[]>
+  ): FullTextDocument {
+    const company = filing.companyName || `CIK ${filing.cik}`;
+
+    return {
+      source: 'filing',
+      entity_id: filing.id,
+      title: `${filing.formType} - ${company}`,
+      body: (filing.parsedContent?.fullText ?? '').slice(0, MAX_BODY_CHARS),
+      form_type: filing.formType,
+      document_type: 'SEC_FILING',
+      instrument_ids: instrumentsByCik.get(filing.cik) ?? [],
+      cik: filing.cik,
+      company_name: filing.companyName,
+      published_at: filing.filingDate,
+      link: `/api/v1/filings/${filing.id}/content`,
+    };
+  }
+
+  private toDocumentDocument(document: DocumentWithContent): FullTextDocument {
+    return {
+      source: 'document',
+      entity_id: document.id,
+      title: document.title,
+      body: (document.content?.fullText ?? '').slice(0, MAX_BODY_CHARS),
+      form_type: null,
+      document_type: document.documentType,
+      instrument_ids: document.instruments.map(link => link.instrumentId),
+      cik: null,
+      company_name: null,
+      published_at: document.publishedAt,
+      link: `/api/v1/documents/${document.id}/content`,
+    };
+  }
+
+  /**
+   * Map filer CIKs to the instruments carrying them as an identifier
+   */
+  private async findInstrumentsByCik(ciks: string[]): Promise<Map<string, string[]>> {
+    const db = getPrismaClient();
+    const identifiers = await db.instrumentIdentifier.findMany({
+      where: { type: 'CIK', value: { in: [...new Set(ciks)] } },
+      select: { instrumentId: true, value: true },
+    });
+
+    const byCik = new Map<string, string[]>();
+    for (const identifier of identifiers) {
+      const list = byCik.get(identifier.value) ?? [];
+      list.push(identifier.instrumentId);
+      byCik.set(identifier.value, list);
+    }
+    return byCik;
+  }
+
+  /**
+   * Bulk index full-text documents into the document index.
+   * IDs are prefixed by source since filings and documents are separate tables.
+   */
+  private async bulkIndexFullText(documents: FullTextDocument[]): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+
+    try {
+      const client = esClient.getClient();
+      const indexName = this.indexManager.getDocumentIndexName();
+
+      const operations = documents.flatMap(doc => [
+        { index: { _index: indexName, _id: `${doc.source}:${doc.entity_id}` } },
+        doc,
+      ]);
+
+      const result = await client.bulk({ body: operations });
+
+      if (result.body.errors) {
+        const erroredItems = result.body.items.filter(item => item.index?.error);
+        const logger = getLogger();
+        logger.error({ erroredItems, errorCount: erroredItems.length }, `Full-text bulk indexing had ${erroredItems.length} errors`);
+      }
+    } catch (error: unknown) {
+      // Same graceful degradation as bulkIndexDocuments
+      if (
+        error instanceof Error &&
+        (error.name === 'ConfigurationError' || error.message.includes('No Living connections'))
+      ) {
+        const logger = getLogger();
+        logger.debug({ error }, 'OpenSearch unavailable during bulkIndexFullText, skipping');
+        return;
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,121 @@
+/**
+ * Pure relevance scoring for the database search backend.
+ *
+ * Mirrors the OpenSearch query in SearchService: exact symbol and name
+ * matches first, then symbol and word prefixes, then secondary text, with the
+ * same boosts for entities carrying signals. Trigram similarity (as in
+ * pg_trgm) stands in for the n-gram analyzers and tolerates small typos.
+ */
+
+export interface RankableEntry {
+  symbol?: string | null;
+  primaryText: string;
+  secondaryText?: string;
+  hasSignals: boolean;
+  signalCount: number;
+  isActive: boolean;
+  lastUpdated: Date;
+}
+
+/**
+ * Share of the query's trigrams that must appear in the primary text for a
+ * fuzzy-only match
+ */
+export const MIN_TRIGRAM_SIMILARITY = 0.5;
+
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase();
+}
+
+export function queryWords(query: string): string[] {
+  return normalizeQuery(query)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Trigrams of each word, padded like pg_trgm: two spaces before, one after
+ */
+export function trigrams(text: string): Set<string> {
+  const result = new Set<string>();
+
+  for (const word of queryWords(text)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fraction of the query's trigrams found in the text, 0-1 (pg_trgm's
+ * word_similarity, without the contiguous-extent refinement)
+ */
+export function trigramSimilarity(query: string, text: string): number {
+  const queryTrigrams = trigrams(query);
+  if (queryTrigrams.size === 0) return 0;
+
+  const textTrigrams = trigrams(text);
+  let shared = 0;
+  for (const trigram of queryTrigrams) {
+    if (textTrigrams.has(trigram)) shared++;
+  }
+
+  return shared / queryTrigrams.size;
+}
+
+/**
+ * Relevance of an entry for a query; 0 when it doesn't match
+ */
+export function scoreEntry(query: string, entry: RankableEntry): number {
+  const normalized = normalizeQuery(query);
+  const words = queryWords(query);
+  if (!normalized || words.length === 0) return 0;
+
+  const symbol = entry.symbol?.toLowerCase() ?? '';
+  const primary = entry.primaryText.toLowerCase();
+  const primaryWords = queryWords(entry.primaryText);
+  const secondary = entry.secondaryText?.toLowerCase() ?? '';
+
+  let score = 0;
+
+  if (symbol && symbol === normalized) score += 10;
+  else if (symbol && symbol.startsWith(normalized)) score += 8;
+
+  if (primary === normalized) score += 5;
+
+  if (words.every((word) => primaryWords.some((candidate) => candidate.startsWith(word)))) {
+    score += 3;
+  } else {
+    const similarity = trigramSimilarity(normalized, primary);
+    if (similarity >= MIN_TRIGRAM_SIMILARITY) score += 3 * similarity;
+  }
+
+  if (secondary && words.every((word) => secondary.includes(word))) score += 1;
+
+  if (score === 0) return 0;
+
+  // Same boosts as the OpenSearch should clauses
+  if (entry.hasSignals) score += 5;
+  if (entry.isActive) score += 2;
+  if (entry.signalCount >= 1) score += 3;
+
+  return score;
+}
+
+/**
+ * Sort order for scored entries, matching the OpenSearch sort
+ */
+export function compareRanked(
+  a: { score: number; entry: RankableEntry },
+  b: { score: number; entry: RankableEntry },
+): number {
+  return (
+    b.score - a.score ||
+    b.entry.signalCount - a.entry.signalCount ||
+    Number(b.entry.hasSignals) - Number(a.entry.hasSignals) ||
+    b.entry.lastUpdated.getTime() - a.entry.lastUpdated.getTime()
+  );
+}
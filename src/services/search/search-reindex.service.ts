@@ -0,0 +1,206 @@
+import { esClient } from './elasticsearch.client.js';
+import { IndexManagerService } from './index-manager.service.js';
+import { SearchIndexerService } from './search-indexer.service.js';
+import { describeAliasTarget } from './index-versioning.js';
+import {
+  SearchReindexRunRecord,
+  SearchReindexRunRepository,
+} from '../../adapters/database/repositories/search-reindex-run.repository.js';
+import { AppError, ConflictError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+
+/**
+ * A run with no progress for this long is treated as abandoned (its process
+ * died), so a new rebuild may start
+ */
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+/**
+ * Catch-up starts this far before each watermark, absorbing clock skew
+ * between the app and the database; reindexing a document twice is harmless
+ */
+const CATCH_UP_MARGIN_MS = 60 * 1000;
+
+/**
+ * Blue/green rebuild of the unified search index.
+ *
+ * 1. Create a new versioned index while the alias keeps serving the old one
+ * 2. Backfill markets, instruments and signals into it
+ * 3. Catch up on entities changed since the backfill began
+ * 4. Swap the alias atomically
+ * 5. Catch up again on changes that landed in the old index during 3-4,
+ *    then delete the old index
+ *
+ * Progress is stored as a SearchReindexRun so it can be watched from any
+ * process. Deletions made during a rebuild are not replayed.
+ */
+export class SearchReindexService {
+  private readonly indexManager: IndexManagerService;
+  private readonly indexer: SearchIndexerService;
+  private readonly runRepo: SearchReindexRunRepository;
+
+  constructor() {
+    this.indexManager = new IndexManagerService();
+    this.indexer = new SearchIndexerService();
+    this.runRepo = new SearchReindexRunRepository();
+  }
+
+  /**
+   * Start a rebuild in the background.
+   * @returns The new run, in progress
+   */
+  async startRebuild(): Promise<SearchReindexRunRecord> {
+    const run = await this.prepare();
+
+    this.execute(run).catch((error) => {
+      const logger = getLogger();
+      logger.error({ error, runId: run.id }, 'Search reindex failed');
+    });
+
+    return run;
+  }
+
+  /**
+   * Run a rebuild to completion.
+   * @returns The finished run, completed or failed
+   */
+  async rebuild(): Promise<SearchReindexRunRecord> {
+    const run = await this.prepare();
+    return this.execute(run);
+  }
+
+  async getRun(id: string): Promise<SearchReindexRunRecord | null> {
+    return this.runRepo.findById(id);
+  }
+
+  async getRecentRuns(limit = 10): Promise<SearchReindexRunRecord[]> {
+    return this.runRepo.findRecent(limit);
+  }
+
+  /**
+   * Check nothing else is rebuilding, then create the new index and its run
+   */
+  private async prepare(): Promise<SearchReindexRunRecord> {
+    if (!esClient.isAvailable() || !(await esClient.ping())) {
+      throw new AppError('OpenSearch is unavailable', 'SEARCH_UNAVAILABLE', 503);
+    }
+
+    const alias = this.indexManager.getIndexName();
+    const active = await this.runRepo.findInProgress(alias);
+
+    if (active) {
+      if (Date.now() - active.updatedAt.getTime() < STALE_RUN_MS) {
+        throw new ConflictError(`Search reindex ${active.id} is already in progress`, {
+          runId: active.id,
+        });
+      }
+
+      await this.runRepo.update(active.id, {
+        status: 'failed',
+        errorMessage: `Abandoned: no progress since ${active.updatedAt.toISOString()}`,
+        completedAt: new Date(),
+      });
+    }
+
+    const current = await this.indexManager.resolveAliasTarget();
+    const targetIndex = await this.indexManager.createVersionedIndex();
+
+    return this.runRepo.create({
+      alias,
+      targetIndex,
+      previousIndex: describeAliasTarget(current),
+    });
+  }
+
+  private async execute(run: SearchReindexRunRecord): Promise<SearchReindexRunRecord> {
+    const logger = getLogger();
+    const index = run.targetIndex;
+    let swapped = false;
+
+    try {
+      logger.info({ runId: run.id, index }, 'Starting search reindex');
+
+      await this.runRepo.update(run.id, { phase: 'backfilling' });
+      const markets = await this.indexer.indexAllMarkets({
+        index,
+        onProgress: async (indexed) => {
+          await this.runRepo.update(run.id, { marketsIndexed: indexed });
+        },
+      });
+      const instruments = await this.indexer.indexAllInstruments({
+        index,
+        onProgress: async (indexed) => {
+          await this.runRepo.update(run.id, { instrumentsIndexed: indexed });
+        },
+      });
+      const signals = await this.indexer.indexAllSignals({
+        index,
+        onProgress: async (indexed) => {
+          await this.runRepo.update(run.id, { signalsIndexed: indexed });
+        },
+      });
+      await this.runRepo.update(run.id, {
+        marketsIndexed: markets,
+        instrumentsIndexed: instruments,
+        signalsIndexed: signals,
+        phase: 'catching_up',
+      });
+
+      const catchUpStartedAt = new Date();
+      let caughtUp = await this.catchUp(index, run.startedAt);
+      await this.runRepo.update(run.id, { caughtUp, phase: 'swapping' });
+
+      await this.indexManager.refreshIndex(index);
+      const previous = await this.indexManager.resolveAliasTarget();
+      await this.indexManager.swapAlias(index, previous);
+      swapped = true;
+
+      // Writes went to the old index until the swap; replay them from the database
+      caughtUp += await this.catchUp(index, catchUpStartedAt);
+      await this.runRepo.update(run.id, { caughtUp, phase: 'cleaning_up' });
+
+      await this.indexManager.deleteRetiredIndices(previous, index);
+
+      const completed = await this.runRepo.update(run.id, {
+        status: 'completed',
+        phase: 'done',
+        completedAt: new Date(),
+      });
+
+      logger.info(
+        { runId: run.id, index, markets, instruments, signals, caughtUp },
+        'Search reindex complete',
+      );
+      return completed;
+    } catch (error) {
+      logger.error({ error, runId: run.id, index }, 'Search reindex failed');
+
+      // The alias only moves once the new index is complete, so a failed
+      // rebuild leaves search serving the previous index
+      if (!swapped) {
+        await this.indexManager.deleteVersionedIndex(index).catch((cleanupError) => {
+          logger.warn({ error: cleanupError, index }, 'Failed to delete abandoned index');
+        });
+      }
+
+      return this.runRepo.update(run.id, {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Reindex entities changed since `watermark` into `index`
+   */
+  private async catchUp(index: string, watermark: Date): Promise<number> {
+    const since = new Date(watermark.getTime() - CATCH_UP_MARGIN_MS);
+
+    const markets = await this.indexer.indexAllMarkets({ index, since });
+    const instruments = await this.indexer.indexAllInstruments({ index, since });
+    const signals = await this.indexer.indexAllSignals({ index, since });
+
+    return markets + instruments + signals;
+  }
+}
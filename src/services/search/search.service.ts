@@ -1,7 +1,10 @@
 import { esClient } from './elasticsearch.client.js';
 import { IndexManagerService } from './index-manager.service.js';
+import { DatabaseSearchService } from './database-search.service.js';
 import { getLogger } from '../../utils/logger.js';
-import type { SearchDocument } from './search-indexer.service.js';
+import { getEnvironment } from '../../config/environment.js';
+import { parseDocumentQuery, toOpenSearchQuery } from './document-query.js';
+import type { FullTextDocument, SearchDocument } from './search-indexer.service.js';
 
 export interface SearchResult {
   entity_type: 'polymarket' | 'equity' | 'issuer' | 'tradingview_symbol' | 'signal';
@@ -25,6 +28,35 @@ export interface SearchOptions {
   entity_types?: string[];
 }
 
+export interface DocumentSearchResult {
+  source: 'filing' | 'document';
+  entity_id: string;
+  title: string;
+  form_type: string | null;
+  document_type: string;
+  instrument_ids: string[];
+  company_name: string | null;
+  published_at: string;
+  link: string;
+  score: number;
+  highlights: string[];
+}
+
+export interface DocumentSearchOptions {
+  limit?: number;
+  offset?: number;
+  form_types?: string[];
+  document_types?: string[];
+  instrument_id?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Fields searched by document queries; titles weigh more than body text
+ */
+const DOCUMENT_SEARCH_FIELDS = ['title^2', 'company_name', 'body'];
+
 /**
  * TradingView symbol pattern: EXCHANGE:TICKER (e.g., NASDAQ:AAPL, NYSE:TSLA)
  */
@@ -32,12 +64,24 @@ const TRADINGVIEW_SYMBOL_PATTERN = /^([A-Z]+):([A-Z]+)$/;
 
 /**
  * Executes search queries against the unified search index.
+ *
+ * Entity search (autocomplete, full search) runs on OpenSearch or on the
+ * primary database, per SEARCH_BACKEND. In `auto` mode the database serves
+ * while OpenSearch fails its (cached) ping or a query, so search keeps
+ * working in environments without a cluster. Document search needs OpenSearch.
  */
 export class SearchService {
   private indexManager: IndexManagerService | null = null;
+  private databaseSearch: DatabaseSearchService | null = null;
+  private readonly backend: 'auto' | 'opensearch' | 'database';
+  private readonly healthCheckIntervalMs: number;
+  private openSearchHealthy = true;
+  private healthCheckedAt: number | null = null;
 
   constructor() {
-    // Lazy initialization
+    const env = getEnvironment();
+    this.backend = env.SEARCH_BACKEND;
+    this.healthCheckIntervalMs = env.SEARCH_HEALTH_CHECK_INTERVAL_MS;
   }
 
   private getIndexManager(): IndexManagerService {
@@ -47,6 +91,13 @@ export class SearchService {
     return this.indexManager;
   }
 
+  private getDatabaseSearch(): DatabaseSearchService {
+    if (!this.databaseSearch) {
+      this.databaseSearch = new DatabaseSearchService();
+    }
+    return this.databaseSearch;
+  }
+
   /**
    * Autocomplete search - returns top 3 results.
    */
@@ -70,7 +121,115 @@ export class SearchService {
   }
 
   /**
-   * Core search method with TradingView synthetic symbol detection.
+   * Full-text search over filing and document content.
+   * Supports quoted phrases and AND/OR/NOT; returns highlighted snippets
+   * with a deep link to each match's content.
+   */
+  async searchDocuments(query: string, options: DocumentSearchOptions = {}): Promise<{
+    results: DocumentSearchResult[];
+    total: number;
+  }> {
+    const parsed = parseDocumentQuery(query);
+    if (!parsed) {
+      return { results: [], total: 0 };
+    }
+
+    const client = esClient.getClient();
+    const indexName = this.getIndexManager().getDocumentIndexName();
+    const limit = options.limit || 20;
+    const offset = options.offset || 0;
+
+    try {
+      const filters: Record<string, unknown>[] = [];
+
+      if (options.form_types && options.form_types.length > 0) {
+        filters.push({ terms: { form_type: options.form_types } });
+      }
+      if (options.document_types && options.document_types.length > 0) {
+        filters.push({ terms: { document_type: options.document_types } });
+      }
+      if (options.instrument_id) {
+        filters.push({ term: { instrument_ids: options.instrument_id } });
+      }
+      if (options.from || options.to) {
+        filters.push({
+          range: {
+            published_at: {
+              gte: options.from?.toISOString(),
+              lte: options.to?.toISOString(),
+            },
+          },
+        });
+      }
+
+      const response = await client.search({
+        index: indexName,
+        body: {
+          query: {
+            bool: {
+              must: [toOpenSearchQuery(parsed, DOCUMENT_SEARCH_FIELDS)],
+              filter: filters.length > 0 ? filters : undefined,
+            },
+          },
+          _source: { excludes: ['body'] },
+          highlight: {
+            pre_tags: ['<mark>'],
+            post_tags: ['</mark>'],
+            encoder: 'html',
+            fields: {
+              body: { fragment_size: 160, number_of_fragments: 3 },
+              title: { number_of_fragments: 0 },
+            },
+          },
+          sort: [
+            { _score: { order: 'desc' } },
+            { published_at: { order: 'desc' } },
+          ],
+          from: offset,
+          size: limit,
+        },
+      });
+
+      const hits = response.body.hits.hits;
+      const total = typeof response.body.hits.total === 'object'
+        ? response.body.hits.total.value
+        : response.body.hits.total;
+
+      const results: DocumentSearchResult[] = hits.map((hit) => {
+        const source = hit._source as Omit<FullTextDocument, 'body' | 'published_at'> & {
+          published_at: string;
+        };
+        return {
+          source: source.source,
+          entity_id: source.entity_id,
+          title: source.title,
+          form_type: source.form_type,
+          document_type: source.document_type,
+          instrument_ids: source.instrument_ids,
+          company_name: source.company_name,
+          published_at: source.published_at,
+          link: source.link,
+          score: hit._score ?? 0,
+          highlights: hit.highlight?.body ?? hit.highlight?.title ?? [],
+        };
+      });
+
+      return { results, total: total ?? 0 };
+    } catch (error) {
+      const logger = getLogger();
+      logger.error({
+        err: error,
+        message: error instanceof Error ? error.message : String(error),
+        query,
+        options,
+      }, 'Document search failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Core search method: picks the backend, with TradingView synthetic symbol
+   * detection on top of either.
    */
   private async search(
     query: string,
@@ -78,6 +237,69 @@ export class SearchService {
   ): Promise<{
     results: SearchResult[];
     total: number;
+  }> {
+    if (await this.shouldUseDatabase()) {
+      const found = await this.getDatabaseSearch().search(query, options);
+      return this.withTradingViewFallback(query, found);
+    }
+
+    try {
+      const found = await this.searchOpenSearch(query, options);
+      return this.withTradingViewFallback(query, found);
+    } catch (error) {
+      if (this.backend !== 'auto') {
+        throw error;
+      }
+
+      this.setOpenSearchHealth(false);
+      const found = await this.getDatabaseSearch().search(query, options);
+      return this.withTradingViewFallback(query, found);
+    }
+  }
+
+  /**
+   * Whether entity search should run on the database right now.
+   */
+  private async shouldUseDatabase(): Promise<boolean> {
+    if (this.backend !== 'auto') {
+      return this.backend === 'database';
+    }
+
+    if (!esClient.isAvailable()) {
+      return true;
+    }
+
+    const now = Date.now();
+    if (this.healthCheckedAt === null || now - this.healthCheckedAt >= this.healthCheckIntervalMs) {
+      this.setOpenSearchHealth(await esClient.ping());
+    }
+
+    return !this.openSearchHealthy;
+  }
+
+  private setOpenSearchHealth(healthy: boolean): void {
+    if (healthy !== this.openSearchHealthy) {
+      const logger = getLogger();
+      if (healthy) {
+        logger.info('OpenSearch is healthy again, switching search back from the database');
+      } else {
+        logger.warn('OpenSearch is unhealthy, falling back to database search');
+      }
+    }
+
+    this.openSearchHealthy = healthy;
+    this.healthCheckedAt = Date.now();
+  }
+
+  /**
+   * Search the unified OpenSearch index.
+   */
+  private async searchOpenSearch(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<{
+    results: SearchResult[];
+    total: number;
   }> {
     const client = esClient.getClient();
     const indexName = this.getIndexManager().getIndexName();
@@ -205,7 +427,7 @@ export class SearchService {
         ? response.body.hits.total.value
         : response.body.hits.total;
 
-      let results: SearchResult[] = hits.map((hit: any) => {
+      const results: SearchResult[] = hits.map((hit: any) => {
         const source = hit._source as SearchDocument;
         return {
           entity_type: source.entity_type,
@@ -224,37 +446,7 @@ export class SearchService {
         };
       });
 
-      // TradingView synthetic symbol detection
-      if (results.length === 0 && TRADINGVIEW_SYMBOL_PATTERN.test(query)) {
-        const match = query.match(TRADINGVIEW_SYMBOL_PATTERN);
-        if (match) {
-          const [, exchange, ticker] = match;
-          const syntheticId = `synthetic_${exchange}_${ticker}`;
-
-          const logger = getLogger();
-          logger.info(`No results found for TradingView symbol ${query}, returning synthetic result`);
-
-          results = [{
-            entity_type: 'tradingview_symbol',
-            entity_id: syntheticId,
-            primary_text: `${exchange}:${ticker}`,
-            secondary_text: 'TradingView Symbol',
-            symbol: `${exchange}:${ticker}`,
-            category: 'tradingview',
-            has_signals: false,
-            signal_count: 0,
-            metadata: {
-              exchange,
-              ticker,
-              synthetic: true,
-            },
-          }];
-
-          return { results, total: 1 };
-        }
-      }
-
-      return { results, total };
+      return { results, total: total ?? 0 };
     } catch (error) {
       const logger = getLogger();
       logger.error({
@@ -267,4 +459,47 @@ export class SearchService {
       throw error;
     }
   }
+
+  /**
+   * TradingView synthetic symbol detection: an EXCHANGE:TICKER query with no
+   * results gets a synthetic result so the client can still open a chart.
+   */
+  private withTradingViewFallback(
+    query: string,
+    found: { results: SearchResult[]; total: number }
+  ): { results: SearchResult[]; total: number } {
+    if (found.results.length > 0 || !TRADINGVIEW_SYMBOL_PATTERN.test(query)) {
+      return found;
+    }
+
+    const match = query.match(TRADINGVIEW_SYMBOL_PATTERN);
+    if (!match) {
+      return found;
+    }
+
+    const [, exchange, ticker] = match;
+    const syntheticId = `synthetic_${exchange}_${ticker}`;
+
+    const logger = getLogger();
+    logger.info(`No results found for TradingView symbol ${query}, returning synthetic result`);
+
+    return {
+      results: [{
+        entity_type: 'tradingview_symbol',
+        entity_id: syntheticId,
+        primary_text: `${exchange}:${ticker}`,
+        secondary_text: 'TradingView Symbol',
+        symbol: `${exchange}:${ticker}`,
+        category: 'tradingview',
+        has_signals: false,
+        signal_count: 0,
+        metadata: {
+          exchange,
+          ticker,
+          synthetic: true,
+        },
+      }],
+      total: 1,
+    };
+  }
 }
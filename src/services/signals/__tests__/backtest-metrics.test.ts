@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  closeAsOf,
+  computeOutcome,
+  expectedDirection,
+  summarizeByHorizon,
+} from '../backtest-metrics';
+import { SignalRecord, SignalSeverity, SignalType } from '../../../types/edgar.types';
+import { PricePoint } from '../../../types/backtest.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 5);
+
+function series(closes: number[]): PricePoint[] {
+  return closes.map((close, i) => ({
+    timestamp: new Date(START + i * DAY_MS),
+    endTime: new Date(START + i * DAY_MS + 16 * 60 * 60 * 1000),
+    close,
+  }));
+}
+
+function makeSignal(overrides: Partial<SignalRecord> = {}): SignalRecord {
+  return {
+    id: 'sig-1',
+    instrumentId: 'inst-1',
+    signalType: SignalType.DILUTION_RISK,
+    severity: SignalSeverity.HIGH,
+    score: '70',
+    reason: 'Shelf registration',
+    evidenceFacts: [],
+    sourceFiling: null,
+    computedAt: new Date(START + 12 * 60 * 60 * 1000), // Midday on the first bar
+    firstSeenAt: null,
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+describe('backtest metrics', () => {
+  describe('expectedDirection', () => {
+    it('should treat risk signals as bearish', () => {
+      expect(expectedDirection(makeSignal())).toBe('down');
+    });
+
+    it('should follow the peer move for PEER_IMPACT', () => {
+      const signal = makeSignal({
+        signalType: SignalType.PEER_IMPACT,
+        evidenceFacts: [{ type: 'PEER_PRICE_MOVEMENT', priceChangePct: 6.2 }] as unknown as string[],
+      });
+      expect(expectedDirection(signal)).toBe('up');
+    });
+
+    it('should invert factor moves for negative exposure', () => {
+      const signal = makeSignal({
+        signalType: SignalType.FACTOR_EXPOSURE_ALERT,
+        evidenceFacts: [
+          { type: 'FACTOR_MOVEMENT', factorChangePct: 4, exposureDirection: 'NEGATIVE' },
+        ] as unknown as string[],
+      });
+      expect(expectedDirection(signal)).toBe('down');
+    });
+
+    it('should treat volatility signals as magnitude-only', () => {
+      expect(expectedDirection(makeSignal({ signalType: SignalType.VOLATILITY_SPIKE }))).toBe(
+        'magnitude',
+      );
+    });
+  });
+
+  describe('computeOutcome', () => {
+    it('should enter on the first close after the signal and measure excess return', () => {
+      const prices = series([100, 98, 95, 90]);
+      const benchmark = series([200, 200, 202, 204]);
+
+      const outcome = computeOutcome(makeSignal(), prices, benchmark, 2);
+
+      expect(outcome).not.toBeNull();
+      expect(outcome!.entryTime).toEqual(prices[0].timestamp);
+      expect(outcome!.forwardReturn).toBeCloseTo(-0.05);
+      expect(outcome!.benchmarkReturn).toBeCloseTo(0.01);
+      expect(outcome!.excessReturn).toBeCloseTo(-0.06);
+      expect(outcome!.hit).toBe(true);
+    });
+
+    it('should measure from the first emission, not the last recompute', () => {
+      const prices = series([100, 98, 95, 90]);
+      const signal = makeSignal({
+        firstSeenAt: new Date(START + 12 * 60 * 60 * 1000),
+        computedAt: new Date(START + 2 * DAY_MS + 12 * 60 * 60 * 1000),
+      });
+
+      const outcome = computeOutcome(signal, prices, [], 1);
+
+      expect(outcome!.entryTime).toEqual(prices[0].timestamp);
+      expect(outcome!.forwardReturn).toBeCloseTo(-0.02);
+    });
+
+    it('should skip signals without enough forward bars', () => {
+      expect(computeOutcome(makeSignal(), series([100, 101]), [], 5)).toBeNull();
+    });
+
+    it('should leave excess return null without a benchmark', () => {
+      const outcome = computeOutcome(makeSignal(), series([100, 110]), [], 1);
+      expect(outcome!.excessReturn).toBeNull();
+      expect(outcome!.hit).toBe(false);
+    });
+  });
+
+  describe('closeAsOf', () => {
+    it('should return the last close at or before the time', () => {
+      const points = series([1, 2, 3]);
+      expect(closeAsOf(points, new Date(START + 1.5 * DAY_MS))).toBe(2);
+      expect(closeAsOf(points, new Date(START - DAY_MS))).toBeNull();
+    });
+  });
+
+  describe('summarizeByHorizon', () => {
+    it('should aggregate hit rate and mean excess return per horizon', () => {
+      const prices = series([100, 90, 110, 80]);
+      const benchmark = series([100, 100, 100, 100]);
+      const outcomes = [1, 2].flatMap((h) => {
+        const outcome = computeOutcome(makeSignal(), prices, benchmark, h);
+        return outcome ? [outcome] : [];
+      });
+
+      const stats = summarizeByHorizon(outcomes, [1, 2, 20]);
+
+      expect(stats['1d'].count).toBe(1);
+      expect(stats['1d'].hitRate).toBe(1);
+      expect(stats['2d'].meanExcessReturn).toBeCloseTo(0.1);
+      expect(stats['2d'].hitRate).toBe(0);
+      expect(stats['20d'].count).toBe(0);
+      expect(stats['20d'].meanReturn).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeConstituentStress,
+  signalStrength,
+  ConstituentHolding,
+  ConstituentSignal,
+} from '../constituent-stress';
+import { SignalType } from '../../../types/edgar.types';
+
+function holding(
+  underlyingInstrumentId: string,
+  weight: number,
+  liquidityBucket: ConstituentHolding['liquidityBucket'] = 'HIGHLY_LIQUID',
+): ConstituentHolding {
+  return { underlyingInstrumentId, issuerName: underlyingInstrumentId, weight, liquidityBucket };
+}
+
+function signal(
+  signalType: SignalType,
+  score = 100,
+  confidence = 1,
+  signalId = `${signalType}-${score}`,
+): ConstituentSignal {
+  return { signalId, signalType, score, confidence };
+}
+
+describe('signalStrength', () => {
+  it('weights bankruptcy above distress and ignores other types', () => {
+    expect(signalStrength(signal(SignalType.BANKRUPTCY_INDICATOR))).toBe(1);
+    expect(signalStrength(signal(SignalType.DISTRESS_RISK))).toBe(0.75);
+    expect(signalStrength(signal(SignalType.DILUTION_RISK))).toBe(0);
+  });
+});
+
+describe('computeConstituentStress', () => {
+  it('returns null when no holding is stressed', () => {
+    const signals = new Map([['B', [signal(SignalType.DILUTION_RISK)]]]);
+
+    expect(computeConstituentStress([holding('A', 0.5), holding('B', 0.5)], signals)).toBeNull();
+  });
+
+  it('scales by portfolio weight', () => {
+    const signals = new Map([['A', [signal(SignalType.BANKRUPTCY_INDICATOR)]]]);
+
+    const small = computeConstituentStress([holding('A', 0.02)], signals)!;
+    const large = computeConstituentStress([holding('A', 0.05)], signals)!;
+
+    expect(small.score).toBeCloseTo(20);
+    expect(large.score).toBeCloseTo(50);
+    expect(large.stressedWeight).toBeCloseTo(0.05);
+  });
+
+  it('amplifies illiquid holdings', () => {
+    const signals = new Map([['A', [signal(SignalType.BANKRUPTCY_INDICATOR)]]]);
+
+    const liquid = computeConstituentStress([holding('A', 0.02, 'HIGHLY_LIQUID')], signals)!;
+    const illiquid = computeConstituentStress([holding('A', 0.02, 'ILLIQUID')], signals)!;
+
+    expect(illiquid.score).toBeCloseTo(liquid.score * 2);
+    expect(illiquid.contributions[0].liquidityMultiplier).toBe(2);
+  });
+
+  it('uses the strongest signal per holding and lists contributions largest first', () => {
+    const signals = new Map([
+      [
+        'A',
+        [
+          signal(SignalType.DISTRESS_RISK, 60, 0.8),
+          signal(SignalType.BANKRUPTCY_INDICATOR, 90, 0.9),
+        ],
+      ],
+      ['B', [signal(SignalType.DISTRESS_RISK, 80, 0.5)]],
+    ]);
+
+    const result = computeConstituentStress(
+      [holding('B', 0.04), holding('A', 0.01), holding('C', 0.2)],
+      signals,
+    )!;
+
+    expect(result.contributions.map((c) => c.holding.underlyingInstrumentId)).toEqual(['B', 'A']);
+    expect(result.contributions[1].signal.signalType).toBe(SignalType.BANKRUPTCY_INDICATOR);
+    expect(result.confidence).toBeCloseTo((0.04 * 0.5 + 0.01 * 0.9) / 0.05);
+  });
+
+  it('caps the score at 100', () => {
+    const signals = new Map([['A', [signal(SignalType.BANKRUPTCY_INDICATOR)]]]);
+
+    expect(computeConstituentStress([holding('A', 0.3)], signals)!.score).toBe(100);
+  });
+});
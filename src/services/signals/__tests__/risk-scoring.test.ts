@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { computeRiskScore, decayFactor, riskCategoryFor } from '../risk-scoring';
+import { SignalRecord, SignalSeverity, SignalType } from '../../../types/edgar.types';
+import { RiskCategory } from '../../../types/risk-score.types';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeSignal(overrides: Partial<SignalRecord> = {}): SignalRecord {
+  return {
+    id: 'sig-1',
+    instrumentId: 'inst-1',
+    signalType: SignalType.DILUTION_RISK,
+    severity: SignalSeverity.CRITICAL,
+    score: '80',
+    reason: 'Shelf registration',
+    evidenceFacts: [],
+    sourceFiling: null,
+    computedAt: NOW,
+    firstSeenAt: NOW,
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+describe('risk scoring', () => {
+  it('should map signal types to categories', () => {
+    expect(riskCategoryFor(SignalType.DISTRESS_RISK)).toBe(RiskCategory.EDGAR);
+    expect(riskCategoryFor(SignalType.GUIDANCE_DETERIORATION)).toBe(RiskCategory.EARNINGS);
+    expect(riskCategoryFor(SignalType.BANKRUPTCY_INDICATOR)).toBe(RiskCategory.NEWS);
+    expect(riskCategoryFor(SignalType.PEER_IMPACT)).toBe(RiskCategory.PEER_FACTOR);
+    expect(riskCategoryFor(SignalType.VOLATILITY_SPIKE)).toBe(RiskCategory.PEER_FACTOR);
+    expect(riskCategoryFor(SignalType.ETF_TRACKING_STRESS)).toBe(RiskCategory.ETF);
+    expect(riskCategoryFor(SignalType.FDA_CATALYST_UPCOMING)).toBe(RiskCategory.CATALYST);
+  });
+
+  it('should not count bullish signals as risk', () => {
+    expect(riskCategoryFor(SignalType.MA_SPECULATION)).toBeNull();
+
+    const result = computeRiskScore([makeSignal({ signalType: SignalType.MA_SPECULATION })], NOW);
+    expect(result.score).toBe(0);
+    expect(result.signalCount).toBe(0);
+  });
+
+  it('should halve a contribution every half-life', () => {
+    const threeDaysAgo = new Date(NOW.getTime() - 3 * DAY_MS);
+    expect(decayFactor(RiskCategory.NEWS, threeDaysAgo, NOW)).toBeCloseTo(0.5);
+    expect(decayFactor(RiskCategory.NEWS, NOW, NOW)).toBe(1);
+  });
+
+  it('should score zero without signals', () => {
+    const result = computeRiskScore([], NOW);
+    expect(result.score).toBe(0);
+    expect(result.contributors).toHaveLength(0);
+  });
+
+  it('should weight a fresh critical EDGAR signal at full strength', () => {
+    const result = computeRiskScore([makeSignal()], NOW);
+    expect(result.subScores.EDGAR).toBe(80);
+    expect(result.score).toBe(80);
+    expect(result.contributors[0].signalId).toBe('sig-1');
+  });
+
+  it('should compound signals without exceeding 100', () => {
+    const signals = [
+      makeSignal({ id: 'a' }),
+      makeSignal({ id: 'b', signalType: SignalType.DISTRESS_RISK }),
+      makeSignal({ id: 'c', signalType: SignalType.BANKRUPTCY_INDICATOR, score: '100' }),
+    ];
+    const result = computeRiskScore(signals, NOW);
+
+    expect(result.subScores.EDGAR).toBeCloseTo(96);
+    expect(result.score).toBeGreaterThan(result.subScores.EDGAR);
+    expect(result.score).toBeLessThanOrEqual(100);
+    expect(result.contributors.map((c) => c.signalId)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should decay older signals below fresh ones', () => {
+    const stale = makeSignal({ id: 'old', computedAt: new Date(NOW.getTime() - 60 * DAY_MS) });
+    const result = computeRiskScore([stale], NOW);
+    expect(result.subScores.EDGAR).toBeCloseTo(20);
+  });
+});
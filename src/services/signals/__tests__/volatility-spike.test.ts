@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bucketCloses,
+  detectVolatilitySpike,
+  robustZScore,
+  PriceObservation,
+} from '../volatility-spike';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = Date.UTC(2026, 0, 5);
+
+/**
+ * Prices moving ±step each period; `steps` gives the step size per period
+ */
+function zigzag(start: number, steps: number[], periodMs = DAY_MS): PriceObservation[] {
+  const points: PriceObservation[] = [{ timestamp: new Date(START), price: start }];
+  steps.forEach((step, i) => {
+    const previous = points[points.length - 1].price;
+    points.push({
+      timestamp: new Date(START + (i + 1) * periodMs),
+      price: previous + (i % 2 === 0 ? step : -step),
+    });
+  });
+  return points;
+}
+
+function baselineSteps(windows: number, window: number): number[] {
+  // Slightly different calm amplitude per window so the baseline has spread
+  return Array.from(
+    { length: windows * window },
+    (_, i) => 0.5 + (Math.floor(i / window) % 3) * 0.1,
+  );
+}
+
+describe('robustZScore', () => {
+  it('should ignore a single outlier in the sample', () => {
+    const result = robustZScore(2, [1, 1.1, 0.9, 1, 1.05, 0.95, 10]);
+
+    expect(result?.median).toBe(1);
+    expect(result!.zScore).toBeGreaterThan(10);
+  });
+
+  it('should return null for a sample without spread', () => {
+    expect(robustZScore(1, [0.5, 0.5, 0.5])).toBeNull();
+  });
+});
+
+describe('detectVolatilitySpike', () => {
+  const options = { window: 5, mode: 'log' as const, minBaselineWindows: 6 };
+
+  it('should score the latest window against earlier windows', () => {
+    const steps = [...baselineSteps(8, 5), 4, 4, 4, 4, 4];
+    const result = detectVolatilitySpike(zigzag(100, steps), options);
+
+    expect(result).not.toBeNull();
+    expect(result!.baselineWindows).toBe(8);
+    expect(result!.observations).toBe(5);
+    expect(result!.volatilityRatio).toBeGreaterThan(5);
+    expect(result!.robustZScore).toBeGreaterThan(10);
+    expect(result!.windowEnd).toEqual(new Date(START + steps.length * DAY_MS));
+    expect(result!.windowStart).toEqual(new Date(START + (steps.length - 5) * DAY_MS));
+  });
+
+  it('should not flag a calm latest window', () => {
+    const result = detectVolatilitySpike(zigzag(100, baselineSteps(9, 5)), options);
+
+    expect(result).not.toBeNull();
+    expect(Math.abs(result!.robustZScore)).toBeLessThan(2);
+  });
+
+  it('should need enough baseline windows', () => {
+    expect(detectVolatilitySpike(zigzag(100, baselineSteps(4, 5)), options)).toBeNull();
+  });
+});
+
+describe('bucketCloses', () => {
+  it('should keep the last trade per bucket and carry prices through quiet buckets', () => {
+    const series = bucketCloses(
+      [
+        { timestamp: new Date(START + 10 * 60_000), price: 0.4 },
+        { timestamp: new Date(START + 50 * 60_000), price: 0.42 },
+        { timestamp: new Date(START + 2 * HOUR_MS + 5 * 60_000), price: 0.5 },
+      ],
+      HOUR_MS,
+      new Date(START + 3 * HOUR_MS + 1),
+    );
+
+    expect(series.map((point) => point.price)).toEqual([0.42, 0.42, 0.5, 0.5]);
+    expect(series[0].timestamp).toEqual(new Date(START + HOUR_MS));
+  });
+});
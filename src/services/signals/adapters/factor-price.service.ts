@@ -1,191 +1,195 @@
 /**
- * Phase 3: Signal Generation Framework - Factor Price Service
+ * Factor Price Service
  *
- * Mock factor price tracking for Phase 3. Returns hardcoded prices and
- * simulates market movements for testing. Will be replaced with real API
- * integration in Phase 4.
+ * Reads factor prices and change windows from the candles stored by the
+ * factor ingestion service (TradingView or CSV imports). Hourly candles are
+ * preferred; daily candles cover windows beyond the intraday retention.
  */
 
+import { CandleRepository } from '../../../adapters/database/repositories/candle.repository.js';
+import {
+  FACTOR_INTERVAL_MS,
+  mergeCandleSources,
+  windowChange,
+} from '../../factors/factor-series.js';
+import { getEnvironment } from '../../../config/environment.js';
 import { FactorType } from '../../../types/document.types.js';
-import type { FactorPrice, PriceSnapshot } from '../types/generator.types.js';
+import type {
+  FactorCandleOutput,
+  FactorInterval,
+  FactorPriceChange,
+} from '../../../types/factor.types.js';
+import type { FactorPrice } from '../types/generator.types.js';
 import { logger } from '../../../utils/logger.js';
 
-/**
- * Factor price change result
- */
-interface FactorPriceChange {
-  factorType: FactorType;
-  previousPrice: number;
-  currentPrice: number;
-  changePct: number;
-  timestamp: Date;
-}
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
 
 /**
- * Mock service for factor price tracking
- * TODO: Replace with real API integration in Phase 4
+ * Candles older than this are treated as a dead feed rather than a quiet
+ * market (covers weekends and long holiday closures)
  */
-export class FactorPriceService {
-  /**
-   * Mock baseline prices for factors
-   */
-  private readonly mockBasePrices: Record<FactorType, number> = {
-    COMMODITY_GOLD: 2050.0,
-    COMMODITY_SILVER: 24.5,
-    COMMODITY_OIL: 78.0,
-    COMMODITY_NATURAL_GAS: 2.8,
-    COMMODITY_COPPER: 3.85,
-    INDEX_SPX: 5200.0,
-    INDEX_NASDAQ: 16500.0,
-    VOLATILITY_VIX: 15.0,
-    INTEREST_RATE_10Y: 4.2,
-    INTEREST_RATE_FED_FUNDS: 5.25,
-    CURRENCY_USD: 103.5,
-  };
+const MAX_STALENESS_MS = 4 * DAY_MS;
 
-  /**
-   * In-memory price snapshot cache
-   * Map: FactorType => PriceSnapshot
-   */
-  private priceSnapshots: Map<FactorType, PriceSnapshot> = new Map();
+export class FactorPriceService {
+  private candleRepo: CandleRepository;
 
-  /**
-   * Initialize with baseline prices
-   */
   constructor() {
-    // Seed initial snapshots
-    const now = new Date();
-    for (const [factorType, price] of Object.entries(this.mockBasePrices)) {
-      this.priceSnapshots.set(factorType as FactorType, {
-        value: price,
-        timestamp: now,
-      });
-    }
+    this.candleRepo = new CandleRepository();
   }
 
   /**
-   * Get current price for a factor
+   * Get the latest close for a factor
    *
    * @param factorType - Factor to get price for
-   * @returns Current price or null if unknown factor
+   * @returns Latest price or null if no recent candles are stored
    */
-  getCurrentPrice(factorType: FactorType): number | null {
-    const snapshot = this.priceSnapshots.get(factorType);
-    return snapshot ? snapshot.value : null;
+  async getCurrentPrice(factorType: FactorType): Promise<number | null> {
+    const latest = await this.getLatestPoint(factorType);
+    return latest ? latest.close : null;
   }
 
   /**
-   * Update factor price and return percentage change
+   * Price change over a trailing window, measured back from the latest candle
    *
-   * @param factorType - Factor to update
-   * @param newPrice - New price value
-   * @returns Price change info or null if no previous data
+   * @param factorType - Factor to measure
+   * @param windowHours - Window length in hours
+   * @returns Change info or null if the stored history doesn't cover the window
    */
-  updateFactorPrice(
-    factorType: FactorType,
-    newPrice: number
-  ): FactorPriceChange | null {
-    const previousSnapshot = this.priceSnapshots.get(factorType);
-    const now = new Date();
-
-    // Store new snapshot
-    this.priceSnapshots.set(factorType, {
-      value: newPrice,
-      timestamp: now,
-    });
-
-    if (!previousSnapshot) {
-      return null;
-    }
+  async getChange(factorType: FactorType, windowHours: number): Promise<FactorPriceChange | null> {
+    const windowMs = windowHours * HOUR_MS;
+    const to = new Date();
+
+    for (const interval of ['1h', '1d'] as FactorInterval[]) {
+      // Extra slack so the window start still has a candle at or before it
+      const from = new Date(
+        to.getTime() - windowMs - MAX_STALENESS_MS - FACTOR_INTERVAL_MS[interval],
+      );
+      const series = await this.loadSeries(factorType, interval, from, to);
+      if (series.length === 0) continue;
+
+      const latest = series[series.length - 1];
+      if (to.getTime() - latest.timestamp.getTime() > MAX_STALENESS_MS) {
+        return null;
+      }
 
-    const changePct =
-      ((newPrice - previousSnapshot.value) / previousSnapshot.value) * 100;
+      const change = windowChange(series, windowMs);
+      if (change) {
+        return {
+          factorType,
+          previousPrice: change.previous.close,
+          currentPrice: change.latest.close,
+          changePct: change.changePct,
+          timestamp: change.latest.timestamp,
+          previousTimestamp: change.previous.timestamp,
+        };
+      }
+    }
 
-    return {
-      factorType,
-      previousPrice: previousSnapshot.value,
-      currentPrice: newPrice,
-      changePct,
-      timestamp: now,
-    };
+    return null;
   }
 
   /**
-   * Simulate random market movements for testing
-   * Generates 5-10% moves for a random subset of factors
+   * Factors whose move over the configured window meets the threshold
    *
    * @returns Map of FactorType to FactorPriceChange for moved factors
    */
-  simulateMarketMovement(): Map<FactorType, FactorPriceChange> {
+  async getSignificantMovements(): Promise<Map<FactorType, FactorPriceChange>> {
+    const env = getEnvironment();
     const movements = new Map<FactorType, FactorPriceChange>();
 
-    // Get all factor types
-    const allFactors = Object.keys(this.mockBasePrices) as FactorType[];
-
-    // Select 2-4 random factors to move
-    const numFactorsToMove = 2 + Math.floor(Math.random() * 3);
-    const shuffled = [...allFactors].sort(() => Math.random() - 0.5);
-    const factorsToMove = shuffled.slice(0, numFactorsToMove);
-
-    logger.info('Simulating factor market movements', {
-      factorsToMove,
-    });
-
-    for (const factorType of factorsToMove) {
-      const currentPrice = this.getCurrentPrice(factorType);
-      if (currentPrice === null) continue;
-
-      // Generate random movement between -10% and +10%
-      const changeDirection = Math.random() > 0.5 ? 1 : -1;
-      const changeMagnitude = 5 + Math.random() * 5; // 5-10%
-      const changePct = changeDirection * changeMagnitude;
-
-      const newPrice = currentPrice * (1 + changePct / 100);
-
-      const change = this.updateFactorPrice(factorType, newPrice);
-      if (change) {
+    for (const factorType of Object.values(FactorType)) {
+      const change = await this.getChange(factorType, env.FACTOR_MOVE_WINDOW_HOURS);
+      if (change && Math.abs(change.changePct) >= env.FACTOR_MOVE_THRESHOLD_PCT) {
         movements.set(factorType, change);
       }
     }
 
-    logger.info('Factor simulation complete', {
-      movements: movements.size,
-    });
+    logger.info(
+      {
+        windowHours: env.FACTOR_MOVE_WINDOW_HOURS,
+        thresholdPct: env.FACTOR_MOVE_THRESHOLD_PCT,
+        movements: movements.size,
+      },
+      'Factor movements computed',
+    );
 
     return movements;
   }
 
   /**
-   * Get all current factor prices
+   * Get the latest price of every factor with recent candles
    *
    * @returns Array of FactorPrice objects
    */
-  getAllPrices(): FactorPrice[] {
+  async getAllPrices(): Promise<FactorPrice[]> {
     const prices: FactorPrice[] = [];
 
-    for (const [factorType, snapshot] of this.priceSnapshots.entries()) {
-      prices.push({
-        factorType,
-        price: snapshot.value,
-        timestamp: snapshot.timestamp,
-      });
+    for (const factorType of Object.values(FactorType)) {
+      const latest = await this.getLatestPoint(factorType);
+      if (latest) {
+        prices.push({ factorType, price: latest.close, timestamp: latest.timestamp });
+      }
     }
 
     return prices;
   }
 
   /**
-   * Reset all prices to baseline (for testing)
+   * Stored candles for a factor, CSV imports taking precedence over fetched
+   * candles at the same timestamp
+   *
+   * @returns Up to `limit` of the most recent candles in the range, oldest first
    */
-  resetToBaseline(): void {
-    const now = new Date();
-    for (const [factorType, price] of Object.entries(this.mockBasePrices)) {
-      this.priceSnapshots.set(factorType as FactorType, {
-        value: price,
-        timestamp: now,
-      });
+  async getCandles(
+    factorType: FactorType,
+    interval: FactorInterval,
+    from: Date,
+    to: Date,
+    limit: number,
+  ): Promise<FactorCandleOutput[]> {
+    const candles = await this.candleRepo.findByFactor(factorType, interval, from, to);
+
+    return mergeCandleSources(candles)
+      .slice(-limit)
+      .map((c) => ({
+        open: c.open.toString(),
+        high: c.high.toString(),
+        low: c.low.toString(),
+        close: c.close.toString(),
+        volume: c.volume.toString(),
+        startTime: c.timestamp,
+        endTime: c.endTime,
+        source: c.source,
+      }));
+  }
+
+  private async getLatestPoint(
+    factorType: FactorType,
+  ): Promise<{ close: number; timestamp: Date } | null> {
+    const to = new Date();
+    const from = new Date(to.getTime() - MAX_STALENESS_MS);
+
+    for (const interval of ['1h', '1d'] as FactorInterval[]) {
+      const series = await this.loadSeries(factorType, interval, from, to);
+      if (series.length > 0) {
+        return series[series.length - 1];
+      }
     }
 
-    logger.info('Reset factor prices to baseline');
+    return null;
+  }
+
+  private async loadSeries(
+    factorType: FactorType,
+    interval: FactorInterval,
+    from: Date,
+    to: Date,
+  ): Promise<{ close: number; timestamp: Date }[]> {
+    const candles = await this.candleRepo.findByFactor(factorType, interval, from, to);
+    return mergeCandleSources(candles).map((c) => ({
+      close: Number(c.close),
+      timestamp: c.timestamp,
+    }));
   }
 }
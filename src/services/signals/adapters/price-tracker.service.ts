@@ -3,24 +3,35 @@
  *
  * In-memory price snapshot tracking for detecting significant market movements.
  * Queries MarketRepository for current prices and calculates percentage changes.
+ *
+ * The "price" is the YES probability of the instrument's linked prediction
+ * market, not a share price; changes carry the market so signals can say so.
  */
 
 import { MarketRepository } from '../../../adapters/database/repositories/market.repository.js';
 import { InstrumentRepository } from '../../../adapters/database/repositories/instrument.repository.js';
 import type { PriceSnapshot } from '../types/generator.types.js';
+import { getEnvironment } from '../../../config/environment.js';
 import { logger } from '../../../utils/logger.js';
 
 /**
  * Price change result
  */
-interface PriceChange {
+export interface PriceChange {
   instrumentId: string;
+  /** Linked market whose YES probability moved */
+  marketId: string;
   previousPrice: number;
   currentPrice: number;
   changePct: number;
   timestamp: Date;
 }
 
+interface LinkedMarketPrice {
+  marketId: string;
+  price: number;
+}
+
 /**
  * Service for tracking instrument price snapshots and detecting movements
  */
@@ -32,7 +43,7 @@ export class PriceTrackerService {
    * In-memory price snapshot cache
    * Map: instrumentId => PriceSnapshot
    */
-  private priceSnapshots: Map<string, PriceSnapshot> = new Map();
+  private priceSnapshots: Map<string, PriceSnapshot & { marketId: string }> = new Map();
 
   /**
    * Threshold for significant price movement (percent)
@@ -49,29 +60,29 @@ export class PriceTrackerService {
 
   /**
    * Get current market price for an instrument
-   * Uses midpoint of yesPrice/noPrice from linked market
+   * Uses the YES probability of the strongest trusted linked market: a
+   * confirmed link, or a proposed one of at least MARKET_LINK_TRUSTED_CONFIDENCE
    *
    * @param instrumentId - Instrument to get price for
-   * @returns Current price or null if no market data
+   * @returns Current probability and its market, or null if no market data
    */
-  async getCurrentPrice(instrumentId: string): Promise<number | null> {
+  async getCurrentPrice(instrumentId: string): Promise<LinkedMarketPrice | null> {
     try {
-      // Find market linked to this instrument
-      const markets = await this.marketRepo.findByInstrument(instrumentId);
+      // Linked markets, highest-confidence link first
+      const markets = await this.marketRepo.findByInstrument(
+        instrumentId,
+        getEnvironment().MARKET_LINK_TRUSTED_CONFIDENCE,
+      );
 
-      if (markets.length === 0) {
+      const market = markets.find((m) => m.active && m.yesPrice !== null);
+      if (!market || market.yesPrice === null) {
         return null;
       }
 
-      // Use first market (typically only one per instrument)
-      const market = markets[0];
-
-      // Calculate midpoint from yesPrice/noPrice (stored in cents)
-      const yesPrice = market.yesPrice ?? 50;
-      const noPrice = market.noPrice ?? 50;
-      const midpoint = (yesPrice + noPrice) / 2;
-
-      return midpoint;
+      const yesPrice = parseFloat(market.yesPrice);
+      return Number.isFinite(yesPrice) && yesPrice > 0
+        ? { marketId: market.id, price: yesPrice }
+        : null;
     } catch (error) {
       logger.error('Error fetching current price', {
         instrumentId,
@@ -90,12 +101,13 @@ export class PriceTrackerService {
   async updateInstrumentPrice(
     instrumentId: string
   ): Promise<PriceChange | null> {
-    const currentPrice = await this.getCurrentPrice(instrumentId);
+    const current = await this.getCurrentPrice(instrumentId);
 
-    if (currentPrice === null) {
+    if (current === null) {
       return null;
     }
 
+    const currentPrice = current.price;
     const previousSnapshot = this.priceSnapshots.get(instrumentId);
     const now = new Date();
 
@@ -103,10 +115,11 @@ export class PriceTrackerService {
     this.priceSnapshots.set(instrumentId, {
       value: currentPrice,
       timestamp: now,
+      marketId: current.marketId,
     });
 
-    // Calculate change if we have previous data
-    if (!previousSnapshot) {
+    // Calculate change if we have previous data for the same market
+    if (!previousSnapshot || previousSnapshot.marketId !== current.marketId) {
       return null;
     }
 
@@ -115,6 +128,7 @@ export class PriceTrackerService {
 
     return {
       instrumentId,
+      marketId: current.marketId,
       previousPrice: previousSnapshot.value,
       currentPrice,
       changePct,
@@ -0,0 +1,220 @@
+/**
+ * Pure helpers for signal backtesting: expected direction per signal,
+ * forward returns over daily closes and aggregate statistics.
+ */
+
+import { SignalRecord, SignalType } from '../../types/edgar.types.js';
+import type {
+  HorizonStats,
+  HorizonStatsMap,
+  PricePoint,
+  SignalDirection,
+  SignalOutcome,
+} from '../../types/backtest.types.js';
+
+/**
+ * Signals that predict underperformance of the instrument
+ */
+const BEARISH_SIGNALS = new Set<SignalType>([
+  SignalType.DILUTION_RISK,
+  SignalType.TOXIC_FINANCING_RISK,
+  SignalType.DISTRESS_RISK,
+  SignalType.INSIDER_CLUSTER_SELLING,
+  SignalType.LIQUIDITY_STRESS_CALL,
+  SignalType.CAPITAL_RAISE_IMMINENT,
+  SignalType.GUIDANCE_DETERIORATION,
+  SignalType.MANAGEMENT_UNCERTAINTY,
+  SignalType.BANKRUPTCY_INDICATOR,
+  SignalType.FINANCING_EVENT,
+  SignalType.LEGAL_REGULATORY_RISK,
+  SignalType.MANAGEMENT_INSTABILITY,
+  SignalType.ETF_CONSTITUENT_STRESS,
+]);
+
+const BULLISH_SIGNALS = new Set<SignalType>([
+  SignalType.MA_SPECULATION,
+  SignalType.ACTIVIST_STAKE_CROSSED,
+]);
+
+export function horizonKey(horizon: number): string {
+  return `${horizon}d`;
+}
+
+/**
+ * Expected direction of a signal. Peer and factor signals carry the sign of
+ * the move that triggered them in their evidence.
+ */
+export function expectedDirection(signal: SignalRecord): SignalDirection {
+  if (BEARISH_SIGNALS.has(signal.signalType)) {
+    return 'down';
+  }
+  if (BULLISH_SIGNALS.has(signal.signalType)) {
+    return 'up';
+  }
+
+  // Generator evidence is stored as objects despite the string[] record type
+  const first: unknown = signal.evidenceFacts?.[0];
+  const evidence = (first && typeof first === 'object' ? first : {}) as Record<string, unknown>;
+
+  if (signal.signalType === SignalType.PEER_IMPACT && typeof evidence.priceChangePct === 'number') {
+    return evidence.priceChangePct >= 0 ? 'up' : 'down';
+  }
+
+  if (
+    signal.signalType === SignalType.FACTOR_EXPOSURE_ALERT &&
+    typeof evidence.factorChangePct === 'number'
+  ) {
+    const inverse =
+      evidence.exposureDirection === 'NEGATIVE' || evidence.exposureDirection === 'INVERSE';
+    const factorUp = evidence.factorChangePct >= 0;
+    return factorUp !== inverse ? 'up' : 'down';
+  }
+
+  return 'magnitude';
+}
+
+/**
+ * When a signal first fired. upsertSignal refreshes computedAt on every
+ * recompute, so it is only the fallback for rows stored before firstSeenAt.
+ */
+export function emittedAt(signal: SignalRecord): Date {
+  return signal.firstSeenAt ?? signal.computedAt;
+}
+
+/**
+ * Index of the first daily bar that closes at or after the signal time.
+ * Entering on that close avoids look-ahead on intraday signals.
+ */
+export function entryIndex(points: PricePoint[], signalTime: Date): number {
+  const t = signalTime.getTime();
+  return points.findIndex((p) => p.endTime.getTime() >= t);
+}
+
+/**
+ * Last close at or before the given time (benchmark alignment)
+ */
+export function closeAsOf(points: PricePoint[], time: Date): number | null {
+  const t = time.getTime();
+  let lo = 0;
+  let hi = points.length - 1;
+  let found = -1;
+
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].timestamp.getTime() <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  return found >= 0 ? points[found].close : null;
+}
+
+/**
+ * Forward outcome of a signal at a horizon in trading days
+ *
+ * @returns null when the instrument has no bar at entry or at entry + horizon
+ */
+export function computeOutcome(
+  signal: SignalRecord,
+  prices: PricePoint[],
+  benchmark: PricePoint[],
+  horizon: number,
+): SignalOutcome | null {
+  const start = entryIndex(prices, emittedAt(signal));
+  if (start < 0 || start + horizon >= prices.length) {
+    return null;
+  }
+
+  const entry = prices[start];
+  const exit = prices[start + horizon];
+  if (entry.close <= 0) {
+    return null;
+  }
+
+  const forwardReturn = exit.close / entry.close - 1;
+
+  const benchEntry = closeAsOf(benchmark, entry.timestamp);
+  const benchExit = closeAsOf(benchmark, exit.timestamp);
+  const benchmarkReturn =
+    benchEntry !== null && benchExit !== null && benchEntry > 0 ? benchExit / benchEntry - 1 : null;
+  const excessReturn = benchmarkReturn !== null ? forwardReturn - benchmarkReturn : null;
+
+  const direction = expectedDirection(signal);
+
+  return {
+    signalId: signal.id,
+    instrumentId: signal.instrumentId,
+    signalType: signal.signalType,
+    severity: signal.severity,
+    direction,
+    horizon,
+    entryTime: entry.timestamp,
+    exitTime: exit.timestamp,
+    forwardReturn,
+    benchmarkReturn,
+    excessReturn,
+    hit: isHit(direction, forwardReturn, benchmarkReturn),
+  };
+}
+
+/**
+ * A hit is a move in the predicted direction relative to the benchmark, or
+ * for magnitude signals a move larger than the benchmark's.
+ */
+export function isHit(
+  direction: SignalDirection,
+  forwardReturn: number,
+  benchmarkReturn: number | null,
+): boolean {
+  const bench = benchmarkReturn ?? 0;
+
+  switch (direction) {
+    case 'up':
+      return forwardReturn > bench;
+    case 'down':
+      return forwardReturn < bench;
+    case 'magnitude':
+      return Math.abs(forwardReturn) > Math.abs(bench);
+  }
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function summarizeOutcomes(outcomes: SignalOutcome[]): HorizonStats {
+  const returns = outcomes.map((o) => o.forwardReturn);
+  const excess = outcomes
+    .map((o) => o.excessReturn)
+    .filter((r): r is number => r !== null);
+
+  return {
+    count: outcomes.length,
+    meanReturn: mean(returns),
+    medianReturn: median(returns),
+    meanExcessReturn: mean(excess),
+    hitRate: outcomes.length > 0 ? outcomes.filter((o) => o.hit).length / outcomes.length : null,
+  };
+}
+
+/**
+ * Per-horizon statistics, keyed "1d", "5d", ...
+ */
+export function summarizeByHorizon(outcomes: SignalOutcome[], horizons: number[]): HorizonStatsMap {
+  const result: HorizonStatsMap = {};
+  for (const horizon of horizons) {
+    result[horizonKey(horizon)] = summarizeOutcomes(outcomes.filter((o) => o.horizon === horizon));
+  }
+  return result;
+}
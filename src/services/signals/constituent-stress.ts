@@ -0,0 +1,128 @@
+/**
+ * Pure holdings-weighted constituent stress.
+ *
+ * Each stressed holding contributes `weight * liquidityMultiplier * strength`,
+ * where strength is the constituent signal's score and confidence scaled by
+ * how severe its type is. Illiquid holdings count for more: an ETF facing
+ * redemptions can't sell them at a fair price. The ETF score is the summed
+ * contribution relative to FULL_STRESS_WEIGHT, capped at 100.
+ */
+
+import { SignalType } from '../../types/edgar.types.js';
+import { LiquidityBucket } from '../../types/etf.types.js';
+
+/**
+ * Stressed portfolio weight that maps to a score of 100: 10% of NAV in
+ * highly liquid constituents with certain, maximum-score bankruptcy signals
+ */
+export const FULL_STRESS_WEIGHT = 0.1;
+
+/**
+ * Constituent signal types that propagate, with their relative severity
+ */
+export const CONSTITUENT_SIGNAL_WEIGHTS: Partial<Record<SignalType, number>> = {
+  [SignalType.BANKRUPTCY_INDICATOR]: 1.0,
+  [SignalType.DISTRESS_RISK]: 0.75,
+};
+
+const LIQUIDITY_MULTIPLIERS: Record<LiquidityBucket, number> = {
+  HIGHLY_LIQUID: 1.0,
+  MODERATELY_LIQUID: 1.5,
+  ILLIQUID: 2.0,
+};
+
+// Holdings without a reported fair value level are treated as moderately liquid
+const UNKNOWN_LIQUIDITY_MULTIPLIER = 1.5;
+
+export interface ConstituentSignal {
+  signalId: string;
+  signalType: SignalType;
+  score: number; // 0-100
+  confidence: number; // 0-1
+}
+
+export interface ConstituentHolding {
+  underlyingInstrumentId: string;
+  issuerName: string;
+  weight: number; // Fraction of the ETF's portfolio, 0-1
+  liquidityBucket: LiquidityBucket | null;
+}
+
+export interface ConstituentContribution {
+  holding: ConstituentHolding;
+  signal: ConstituentSignal;
+  liquidityMultiplier: number;
+  contribution: number;
+}
+
+export interface ConstituentStressResult {
+  score: number; // 0-100
+  confidence: number; // Weight-averaged confidence of the contributing signals
+  stressedWeight: number; // Portfolio weight held in stressed constituents
+  contributions: ConstituentContribution[]; // Largest first
+}
+
+export function liquidityMultiplier(bucket: LiquidityBucket | null): number {
+  return bucket ? LIQUIDITY_MULTIPLIERS[bucket] : UNKNOWN_LIQUIDITY_MULTIPLIER;
+}
+
+/**
+ * Stress carried by one signal, 0-1; zero for types that don't propagate
+ */
+export function signalStrength(signal: ConstituentSignal): number {
+  const typeWeight = CONSTITUENT_SIGNAL_WEIGHTS[signal.signalType] ?? 0;
+  const score = Math.min(Math.max(signal.score, 0), 100) / 100;
+  const confidence = Math.min(Math.max(signal.confidence, 0), 1);
+  return typeWeight * score * confidence;
+}
+
+/**
+ * Aggregate constituent signals into ETF-level stress. A holding with several
+ * signals counts once, through its strongest signal.
+ *
+ * @returns null when no holding has a propagating signal
+ */
+export function computeConstituentStress(
+  holdings: ConstituentHolding[],
+  signalsByInstrument: Map<string, ConstituentSignal[]>,
+): ConstituentStressResult | null {
+  const contributions: ConstituentContribution[] = [];
+
+  for (const holding of holdings) {
+    if (holding.weight <= 0) continue;
+
+    let strongest: ConstituentSignal | null = null;
+    for (const signal of signalsByInstrument.get(holding.underlyingInstrumentId) ?? []) {
+      if (signalStrength(signal) <= 0) continue;
+      if (!strongest || signalStrength(signal) > signalStrength(strongest)) {
+        strongest = signal;
+      }
+    }
+    if (!strongest) continue;
+
+    const multiplier = liquidityMultiplier(holding.liquidityBucket);
+    contributions.push({
+      holding,
+      signal: strongest,
+      liquidityMultiplier: multiplier,
+      contribution: holding.weight * multiplier * signalStrength(strongest),
+    });
+  }
+
+  if (contributions.length === 0) return null;
+
+  contributions.sort((a, b) => b.contribution - a.contribution);
+
+  const total = contributions.reduce((sum, c) => sum + c.contribution, 0);
+  const stressedWeight = contributions.reduce((sum, c) => sum + c.holding.weight, 0);
+  const confidence =
+    contributions.reduce((sum, c) => sum + c.holding.weight * c.signal.confidence, 0) /
+    stressedWeight;
+
+  return {
+    score: Math.min(100, (total / FULL_STRESS_WEIGHT) * 100),
+    confidence,
+    stressedWeight,
+    contributions,
+  };
+}
@@ -2,7 +2,9 @@
  * Phase 3: Signal Generation Framework - Competitor Impact Generator
  *
  * Detects when peer companies have significant price movements and generates
- * alerts for related instruments based on competitor relationships.
+ * alerts for related instruments based on competitor relationships. Moves are
+ * in the YES probability of each peer's linked prediction market (see
+ * PriceTrackerService), and the signals say so.
  */
 
 import { SignalGeneratorBase } from './signal-generator.base.js';
@@ -81,6 +83,7 @@ export class CompetitorImpactGenerator extends SignalGeneratorBase {
             const signal = this.createCompetitorSignal(
               competitor.competitorId,
               movedInstrumentId,
+              change.marketId,
               change.changePct,
               competitor.confidence,
               competitor.relationshipType,
@@ -120,6 +123,7 @@ export class CompetitorImpactGenerator extends SignalGeneratorBase {
   private createCompetitorSignal(
     targetInstrumentId: string,
     peerInstrumentId: string,
+    marketId: string,
     priceChangePct: number,
     relationshipConfidence: number,
     relationshipType: string,
@@ -145,12 +149,14 @@ export class CompetitorImpactGenerator extends SignalGeneratorBase {
       peerInstrumentId,
       peerSymbol: peerInstrumentId, // TODO: Resolve to actual symbol
       priceChangePct,
+      priceSource: 'LINKED_MARKET_PROBABILITY',
+      marketId,
       correlationStrength: relationshipConfidence,
     };
 
-    // Build reason text
+    // Build reason text; the move is in prediction-market odds, not the share price
     const direction = priceChangePct > 0 ? 'up' : 'down';
-    const reason = `Competitor moved ${Math.abs(priceChangePct).toFixed(1)}% ${direction} (${relationshipType} relationship)`;
+    const reason = `Competitor's linked prediction market odds moved ${Math.abs(priceChangePct).toFixed(1)}% ${direction} (${relationshipType} relationship)`;
 
     return {
       instrumentId: targetInstrumentId,
@@ -0,0 +1,207 @@
+import { SignalGeneratorBase } from './signal-generator.base.js';
+import { SignalSeverity, SignalType } from '../../../types/edgar.types.js';
+import {
+  GeneratorContext,
+  GeneratedSignal,
+  ConstituentStressEvidence,
+} from '../types/generator.types.js';
+import { EtfHoldingRepository } from '../../../adapters/database/repositories/etf-holding.repository.js';
+import { SignalRepository } from '../../../adapters/database/repositories/signal.repository.js';
+import { EtfExposureRecord } from '../../../types/etf.types.js';
+import { getLogger } from '../../../utils/logger.js';
+import {
+  CONSTITUENT_SIGNAL_WEIGHTS,
+  ConstituentSignal,
+  ConstituentStressResult,
+  FULL_STRESS_WEIGHT,
+  computeConstituentStress,
+} from '../constituent-stress.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stored signals don't keep their confidence; severity was graded on
+ * score weighted by confidence, so it stands in for it
+ */
+const SEVERITY_CONFIDENCE: Record<SignalSeverity, number> = {
+  [SignalSeverity.LOW]: 0.4,
+  [SignalSeverity.MEDIUM]: 0.6,
+  [SignalSeverity.HIGH]: 0.8,
+  [SignalSeverity.CRITICAL]: 0.95,
+};
+
+/**
+ * Signal Generator for ETF Constituent Stress
+ *
+ * Propagates issuer distress and bankruptcy signals into the ETFs holding
+ * the issuer, through the holdings of each ETF's latest N-PORT. Stressed
+ * holdings are weighted by portfolio weight and scaled up for illiquid
+ * positions; one signal per ETF lists every contributing holding as
+ * evidence.
+ */
+export class ConstituentStressGenerator extends SignalGeneratorBase {
+  readonly generatorName = 'ETF Constituent Stress';
+  readonly signalType = SignalType.ETF_CONSTITUENT_STRESS;
+
+  private logger = getLogger().child({ generator: this.generatorName });
+  private etfHoldingRepo: EtfHoldingRepository;
+  private signalRepo: SignalRepository;
+
+  // Detection thresholds
+  private readonly MIN_SCORE = 10;
+  private readonly SOURCE_LOOKBACK_DAYS = 30;
+
+  constructor(etfHoldingRepo: EtfHoldingRepository, signalRepo: SignalRepository) {
+    super();
+    this.etfHoldingRepo = etfHoldingRepo;
+    this.signalRepo = signalRepo;
+  }
+
+  async generate(context: GeneratorContext): Promise<GeneratedSignal[]> {
+    const signals: GeneratedSignal[] = [];
+    const stats = {
+      stressedConstituents: 0,
+      processed: 0,
+      skippedBelowThreshold: 0,
+      skippedLowConfidence: 0,
+      errors: 0,
+    };
+
+    try {
+      const signalsByInstrument = await this.loadConstituentSignals(context.currentTime);
+      stats.stressedConstituents = signalsByInstrument.size;
+
+      if (signalsByInstrument.size === 0) {
+        this.logger.debug('No stressed constituents to propagate');
+        return signals;
+      }
+
+      const exposures = await this.etfHoldingRepo.findLatestExposuresTo([
+        ...signalsByInstrument.keys(),
+      ]);
+
+      const exposuresByEtf = new Map<string, EtfExposureRecord[]>();
+      for (const exposure of exposures) {
+        const list = exposuresByEtf.get(exposure.etfInstrumentId) ?? [];
+        list.push(exposure);
+        exposuresByEtf.set(exposure.etfInstrumentId, list);
+      }
+
+      for (const [etfId, etfExposures] of exposuresByEtf) {
+        stats.processed++;
+
+        try {
+          const result = computeConstituentStress(
+            etfExposures.map((e) => ({
+              underlyingInstrumentId: e.underlyingInstrumentId,
+              issuerName: e.issuerName,
+              weight: e.weight,
+              liquidityBucket: e.liquidityBucket,
+            })),
+            signalsByInstrument
+          );
+
+          if (!result || result.score < this.MIN_SCORE) {
+            stats.skippedBelowThreshold++;
+            continue;
+          }
+
+          if (!this.meetsConfidenceThreshold(result.confidence)) {
+            stats.skippedLowConfidence++;
+            continue;
+          }
+
+          signals.push(this.createSignal(etfId, result, etfExposures, context));
+        } catch (error) {
+          stats.errors++;
+          this.logger.debug({ instrumentId: etfId, error }, 'Error processing ETF');
+        }
+      }
+
+      this.logger.info(
+        { ...stats, signalsGenerated: signals.length },
+        'Constituent stress generator run complete'
+      );
+    } catch (error) {
+      this.logger.error({ error }, 'Error in constituent stress generator');
+    }
+
+    return signals;
+  }
+
+  /**
+   * Active propagating signals, grouped by the instrument they're on
+   */
+  private async loadConstituentSignals(
+    currentTime: Date
+  ): Promise<Map<string, ConstituentSignal[]>> {
+    const since = new Date(currentTime.getTime() - this.SOURCE_LOOKBACK_DAYS * DAY_MS);
+    const byInstrument = new Map<string, ConstituentSignal[]>();
+
+    for (const signalType of Object.keys(CONSTITUENT_SIGNAL_WEIGHTS) as SignalType[]) {
+      const records = await this.signalRepo.findRecentSignals(signalType, since);
+
+      for (const record of records) {
+        const list = byInstrument.get(record.instrumentId) ?? [];
+        list.push({
+          signalId: record.id,
+          signalType: record.signalType,
+          score: Number(record.score) || 0,
+          confidence: SEVERITY_CONFIDENCE[record.severity],
+        });
+        byInstrument.set(record.instrumentId, list);
+      }
+    }
+
+    return byInstrument;
+  }
+
+  private createSignal(
+    etfId: string,
+    result: ConstituentStressResult,
+    exposures: EtfExposureRecord[],
+    context: GeneratorContext
+  ): GeneratedSignal {
+    const filingByConstituent = new Map(
+      exposures.map((e) => [e.underlyingInstrumentId, e.filingId])
+    );
+
+    const evidence: ConstituentStressEvidence[] = result.contributions.map((c) => ({
+      type: 'CONSTITUENT_STRESS',
+      constituentInstrumentId: c.holding.underlyingInstrumentId,
+      issuerName: c.holding.issuerName,
+      filingId: filingByConstituent.get(c.holding.underlyingInstrumentId) ?? '',
+      sourceSignalId: c.signal.signalId,
+      sourceSignalType: c.signal.signalType,
+      sourceScore: c.signal.score,
+      sourceConfidence: c.signal.confidence,
+      portfolioWeight: c.holding.weight,
+      liquidityBucket: c.holding.liquidityBucket,
+      liquidityMultiplier: c.liquidityMultiplier,
+      scoreContribution: Math.min(100, (c.contribution / FULL_STRESS_WEIGHT) * 100),
+    }));
+
+    const lead = result.contributions[0];
+    const others = result.contributions.length - 1;
+    const reason =
+      `${(result.stressedWeight * 100).toFixed(1)}% of portfolio in stressed constituents, ` +
+      `led by ${lead.holding.issuerName} (${this.formatSignalType(lead.signal.signalType)}, ` +
+      `${(lead.holding.weight * 100).toFixed(1)}%)` +
+      (others > 0 ? ` and ${others} more` : '');
+
+    return {
+      instrumentId: etfId,
+      signalType: this.signalType,
+      severity: this.calculateSeverity(result.score, result.confidence),
+      score: result.score,
+      confidence: result.confidence,
+      reason,
+      evidenceFacts: evidence,
+      expiresAt: this.createExpirationDate(context.currentTime),
+    };
+  }
+
+  private formatSignalType(signalType: SignalType): string {
+    return signalType.toLowerCase().replace(/_/g, ' ');
+  }
+}
@@ -2,7 +2,8 @@
  * Phase 3: Signal Generation Framework - Factor Correlation Generator
  *
  * Detects when correlated factors (gold, oil, rates, indices) have significant
- * movements and generates alerts for instruments with exposure to those factors.
+ * movements over the configured change window and generates alerts for
+ * instruments with exposure to those factors.
  */
 
 import { SignalGeneratorBase } from './signal-generator.base.js';
@@ -39,7 +40,7 @@ export class FactorCorrelationGenerator extends SignalGeneratorBase {
    * Generate factor correlation signals
    *
    * Process:
-   * 1. Simulate factor market movements (mock in Phase 3)
+   * 1. Find factors whose stored prices moved past the threshold
    * 2. For each moved factor, find instruments with exposure
    * 3. Create signals based on exposure magnitude and confidence
    */
@@ -54,8 +55,8 @@ export class FactorCorrelationGenerator extends SignalGeneratorBase {
     };
 
     try {
-      // Simulate factor movements (mock for Phase 3)
-      const factorMovements = this.factorPrices.simulateMarketMovement();
+      // Factor moves over the configured window, from stored factor candles
+      const factorMovements = await this.factorPrices.getSignificantMovements();
 
       logger.info('Processing factor correlations', {
         movedFactors: factorMovements.size,
@@ -0,0 +1,276 @@
+import { SignalGeneratorBase } from './signal-generator.base.js';
+import { SignalType } from '../../../types/edgar.types.js';
+import {
+  GeneratorContext,
+  GeneratedSignal,
+  VolatilitySpikeEvidence,
+} from '../types/generator.types.js';
+import { CandleRepository } from '../../../adapters/database/repositories/candle.repository.js';
+import { MarketLinkRepository } from '../../../adapters/database/repositories/market-link.repository.js';
+import { TradeEventRepository } from '../../../adapters/database/repositories/trade-event.repository.js';
+import { getLogger } from '../../../utils/logger.js';
+import { getEnvironment } from '../../../config/environment.js';
+import {
+  VolatilitySpikeResult,
+  bucketCloses,
+  detectVolatilitySpike,
+} from '../volatility-spike.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface Spike {
+  evidence: VolatilitySpikeEvidence;
+  confidence: number;
+  label: string;
+}
+
+/**
+ * Signal Generator for Volatility Spikes
+ *
+ * Realized volatility of an instrument's daily closes (5-day windows over a
+ * 180-day baseline) and of its linked Polymarket markets' hourly trade
+ * closes (24-hour windows over a 14-day baseline), each scored with a
+ * robust z-score against its own trailing windows. One signal per
+ * instrument, led by the strongest spike; every spiking source is attached
+ * as evidence.
+ */
+export class VolatilitySpikeGenerator extends SignalGeneratorBase {
+  readonly generatorName = 'Volatility Spike';
+  readonly signalType = SignalType.VOLATILITY_SPIKE;
+
+  private logger = getLogger().child({ generator: this.generatorName });
+  private candleRepo: CandleRepository;
+  private linkRepo: MarketLinkRepository;
+  private tradeEventRepo: TradeEventRepository;
+
+  // Detection thresholds
+  private readonly Z_THRESHOLD = 3.0;
+  private readonly MIN_VOL_RATIO = 1.5;
+  private readonly MIN_BASELINE_WINDOWS = 6;
+
+  // Instrument candles
+  private readonly CANDLE_WINDOW = 5; // Daily returns per window
+  private readonly CANDLE_BASELINE_DAYS = 180;
+
+  // Linked market trades
+  private readonly TRADE_WINDOW = 24; // Hourly returns per window
+  private readonly TRADE_BASELINE_DAYS = 14;
+  private readonly MAX_TRADES = 20_000;
+  private readonly MAX_LINKED_MARKETS = 3;
+
+  constructor(
+    candleRepo: CandleRepository,
+    linkRepo: MarketLinkRepository,
+    tradeEventRepo: TradeEventRepository
+  ) {
+    super();
+    this.candleRepo = candleRepo;
+    this.linkRepo = linkRepo;
+    this.tradeEventRepo = tradeEventRepo;
+  }
+
+  async generate(context: GeneratorContext): Promise<GeneratedSignal[]> {
+    const signals: GeneratedSignal[] = [];
+    const stats = {
+      processed: 0,
+      skippedInsufficientHistory: 0,
+      errors: 0,
+    };
+
+    try {
+      const since = new Date(context.currentTime.getTime() - 7 * DAY_MS);
+      const [withCandles, withLinks] = await Promise.all([
+        this.candleRepo.findInstrumentIdsWithCandles('1d', since),
+        this.linkRepo.findLinkedInstrumentIds(),
+      ]);
+      const instrumentIds = [...new Set([...withCandles, ...withLinks])];
+
+      for (const instrumentId of instrumentIds) {
+        stats.processed++;
+
+        try {
+          const spikes: Spike[] = [];
+          const candleSpike = await this.detectCandleSpike(instrumentId, context);
+          if (candleSpike === undefined) stats.skippedInsufficientHistory++;
+          if (candleSpike) spikes.push(candleSpike);
+          spikes.push(...(await this.detectMarketSpikes(instrumentId, context)));
+
+          const signal = this.createSignal(instrumentId, spikes, context);
+          if (signal) signals.push(signal);
+        } catch (error) {
+          stats.errors++;
+          this.logger.debug({ instrumentId, error }, 'Error processing instrument');
+        }
+      }
+
+      this.logger.info({
+        processed: stats.processed,
+        signalsGenerated: signals.length,
+        skippedInsufficientHistory: stats.skippedInsufficientHistory,
+        errors: stats.errors,
+      }, 'Volatility spike generator run complete');
+    } catch (error) {
+      this.logger.error({ error }, 'Error in volatility spike generator');
+    }
+
+    return signals;
+  }
+
+  /**
+   * Spike in daily close-to-close log returns. Undefined when there isn't
+   * enough candle history, null when there's no spike.
+   */
+  private async detectCandleSpike(
+    instrumentId: string,
+    context: GeneratorContext
+  ): Promise<Spike | null | undefined> {
+    const endDate = context.currentTime;
+    const candles = await this.candleRepo.findByInstrument({
+      instrumentId,
+      interval: '1d',
+      from: new Date(endDate.getTime() - this.CANDLE_BASELINE_DAYS * DAY_MS),
+      to: endDate,
+    });
+
+    const result = detectVolatilitySpike(
+      candles.map((c) => ({ timestamp: c.endTime, price: Number(c.close) })),
+      {
+        window: this.CANDLE_WINDOW,
+        mode: 'log',
+        minBaselineWindows: this.MIN_BASELINE_WINDOWS,
+      }
+    );
+    if (!result) return undefined;
+    if (!this.isSpike(result)) return null;
+
+    return {
+      evidence: this.buildEvidence(result, 'INSTRUMENT_CANDLES', null, '1d'),
+      confidence: this.historyConfidence(result),
+      label: `${this.CANDLE_WINDOW}-day realized volatility`,
+    };
+  }
+
+  /**
+   * Spikes in hourly YES price changes of the instrument's strongest
+   * trusted linked markets (confirmed, or proposed at or above
+   * MARKET_LINK_TRUSTED_CONFIDENCE). Confidence is discounted by the link
+   * confidence.
+   */
+  private async detectMarketSpikes(
+    instrumentId: string,
+    context: GeneratorContext
+  ): Promise<Spike[]> {
+    const links = (
+      await this.linkRepo.findByInstrument(instrumentId, {
+        trustedConfidence: getEnvironment().MARKET_LINK_TRUSTED_CONFIDENCE,
+      })
+    )
+      .filter((link) => link.market.active)
+      .slice(0, this.MAX_LINKED_MARKETS);
+
+    const spikes: Spike[] = [];
+    const endDate = context.currentTime;
+    const startDate = new Date(endDate.getTime() - this.TRADE_BASELINE_DAYS * DAY_MS);
+
+    for (const link of links) {
+      const trades = await this.tradeEventRepo.findLatestByMarket(
+        link.marketId,
+        'YES',
+        startDate,
+        endDate,
+        this.MAX_TRADES
+      );
+
+      const series = bucketCloses(
+        trades.map((t) => ({ timestamp: t.timestamp, price: Number(t.price) })),
+        HOUR_MS,
+        endDate
+      );
+      const result = detectVolatilitySpike(series, {
+        window: this.TRADE_WINDOW,
+        mode: 'diff',
+        minBaselineWindows: this.MIN_BASELINE_WINDOWS,
+      });
+      if (!result || !this.isSpike(result)) continue;
+
+      spikes.push({
+        evidence: this.buildEvidence(result, 'MARKET_TRADES', link.marketId, '1h'),
+        confidence: this.historyConfidence(result) * (0.5 + 0.5 * Number(link.confidence)),
+        label: `24h volatility of linked market "${link.market.question}"`,
+      });
+    }
+
+    return spikes;
+  }
+
+  private createSignal(
+    instrumentId: string,
+    spikes: Spike[],
+    context: GeneratorContext
+  ): GeneratedSignal | null {
+    if (spikes.length === 0) return null;
+
+    spikes.sort((a, b) => b.evidence.robustZScore - a.evidence.robustZScore);
+    const [primary] = spikes;
+    const confidence = primary.confidence;
+    if (!this.meetsConfidenceThreshold(confidence)) return null;
+
+    const z = primary.evidence.robustZScore;
+    const score = Math.min(100, 30 + z * 8);
+    const others = spikes.length - 1;
+
+    return {
+      instrumentId,
+      signalType: this.signalType,
+      severity: this.calculateSeverity(score, confidence),
+      score,
+      confidence,
+      reason:
+        `${primary.label} is ${primary.evidence.volatilityRatio.toFixed(1)}x its trailing median ` +
+        `(robust z ${z.toFixed(1)})` +
+        (others > 0 ? `, ${others} more source${others > 1 ? 's' : ''} spiking` : ''),
+      evidenceFacts: spikes.map((spike) => spike.evidence),
+      expiresAt: this.createExpirationDate(context.currentTime),
+    };
+  }
+
+  private isSpike(result: VolatilitySpikeResult): boolean {
+    return (
+      result.robustZScore >= this.Z_THRESHOLD && result.volatilityRatio >= this.MIN_VOL_RATIO
+    );
+  }
+
+  /**
+   * 0.6 at the minimum baseline, 0.95 from 12 baseline windows on
+   */
+  private historyConfidence(result: VolatilitySpikeResult): number {
+    const coverage = Math.min(
+      1,
+      (result.baselineWindows - this.MIN_BASELINE_WINDOWS) / (12 - this.MIN_BASELINE_WINDOWS)
+    );
+    return 0.6 + 0.35 * coverage;
+  }
+
+  private buildEvidence(
+    result: VolatilitySpikeResult,
+    source: VolatilitySpikeEvidence['source'],
+    marketId: string | null,
+    interval: VolatilitySpikeEvidence['interval']
+  ): VolatilitySpikeEvidence {
+    return {
+      type: 'VOLATILITY_SPIKE',
+      source,
+      marketId,
+      interval,
+      windowStart: result.windowStart,
+      windowEnd: result.windowEnd,
+      recentVolatility: result.recentVolatility,
+      baselineMedian: result.baselineMedian,
+      baselineMad: result.baselineMad,
+      robustZScore: result.robustZScore,
+      volatilityRatio: result.volatilityRatio,
+      baselineWindows: result.baselineWindows,
+    };
+  }
+}
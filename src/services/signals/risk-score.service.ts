@@ -0,0 +1,160 @@
+import { SignalRepository } from '../../adapters/database/repositories/signal.repository.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import { RiskScoreRepository } from '../../adapters/database/repositories/risk-score.repository.js';
+import { computeRiskScore } from './risk-scoring.js';
+import { logger } from '../../utils/logger.js';
+import type {
+  RiskLeaderboardEntry,
+  RiskLeaderboardFilters,
+  RiskScoreRecord,
+} from '../../types/risk-score.types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Minimum score movement that is worth a new history row */
+const MIN_SCORE_CHANGE = 0.5;
+
+/** Write a snapshot at least this often even when the score is flat */
+const SNAPSHOT_INTERVAL_MS = DAY_MS;
+
+/** Scores older than this are considered stale and left off the leaderboard */
+const LEADERBOARD_MAX_AGE_MS = 7 * DAY_MS;
+
+/**
+ * Risk Score Service
+ *
+ * Combines an instrument's active signals from every source into a
+ * time-decayed composite score (see risk-scoring.ts) and keeps a history
+ * of it for the instrument detail view and the leaderboard.
+ */
+export class RiskScoreService {
+  private signalRepo: SignalRepository;
+  private instrumentRepo: InstrumentRepository;
+  private riskScoreRepo: RiskScoreRepository;
+
+  constructor() {
+    this.signalRepo = new SignalRepository();
+    this.instrumentRepo = new InstrumentRepository();
+    this.riskScoreRepo = new RiskScoreRepository();
+  }
+
+  /**
+   * Recompute and (if it moved) persist the score for one instrument
+   *
+   * @returns The latest stored score, or null if the instrument was never scored
+   */
+  async refreshInstrument(instrumentId: string, now: Date = new Date()): Promise<RiskScoreRecord | null> {
+    return (await this.refresh(instrumentId, now)).record;
+  }
+
+  private async refresh(
+    instrumentId: string,
+    now: Date,
+  ): Promise<{ record: RiskScoreRecord | null; written: boolean }> {
+    const signals = await this.signalRepo.findByInstrument(instrumentId);
+    const result = computeRiskScore(signals, now);
+    const latest = await this.riskScoreRepo.findLatest(instrumentId);
+
+    // Nothing to record for instruments that never carried risk
+    if (!latest && result.score === 0) {
+      return { record: null, written: false };
+    }
+
+    const moved = !latest || Math.abs(latest.score - result.score) >= MIN_SCORE_CHANGE;
+    const due = !latest || now.getTime() - latest.computedAt.getTime() >= SNAPSHOT_INTERVAL_MS;
+
+    if (!moved && !due) {
+      return { record: latest, written: false };
+    }
+
+    return { record: await this.riskScoreRepo.create(instrumentId, result, now), written: true };
+  }
+
+  /**
+   * Refresh every instrument with active signals, plus previously scored
+   * instruments whose signals have since expired (so they decay to zero).
+   */
+  async refreshAll(): Promise<{ instruments: number; written: number }> {
+    const now = new Date();
+    const active = await this.signalRepo.findInstrumentIdsWithActiveSignals();
+    const previouslyScored = await this.riskScoreRepo.findLatestPerInstrument(
+      new Date(now.getTime() - LEADERBOARD_MAX_AGE_MS),
+    );
+
+    const instrumentIds = new Set(active);
+    for (const record of previouslyScored) {
+      if (record.score > 0) {
+        instrumentIds.add(record.instrumentId);
+      }
+    }
+
+    let written = 0;
+    for (const instrumentId of instrumentIds) {
+      try {
+        if ((await this.refresh(instrumentId, now)).written) {
+          written++;
+        }
+      } catch (error) {
+        logger.error({ error, instrumentId }, 'Failed to refresh risk score');
+      }
+    }
+
+    logger.info({ instruments: instrumentIds.size, written }, 'Risk scores refreshed');
+
+    return { instruments: instrumentIds.size, written };
+  }
+
+  async getLatest(instrumentId: string): Promise<RiskScoreRecord | null> {
+    return this.riskScoreRepo.findLatest(instrumentId);
+  }
+
+  async getHistory(instrumentId: string, days: number = 30, limit: number = 500): Promise<RiskScoreRecord[]> {
+    return this.riskScoreRepo.findHistory(instrumentId, new Date(Date.now() - days * DAY_MS), limit);
+  }
+
+  /**
+   * Instruments ranked by latest composite score (or one category's sub-score)
+   */
+  async getLeaderboard(filters: RiskLeaderboardFilters): Promise<{
+    entries: RiskLeaderboardEntry[];
+    total: number;
+  }> {
+    const limit = Number(filters.limit || 25);
+    const offset = Number(filters.offset || 0);
+    const scoreOf = (record: RiskScoreRecord): number =>
+      filters.category ? record.subScores[filters.category] ?? 0 : record.score;
+
+    const latest = await this.riskScoreRepo.findLatestPerInstrument(
+      new Date(Date.now() - LEADERBOARD_MAX_AGE_MS),
+    );
+
+    const ranked = latest
+      // Without a minScore, instruments with no risk at all are left out
+      .filter((record) =>
+        filters.minScore !== undefined ? scoreOf(record) >= filters.minScore : scoreOf(record) > 0,
+      )
+      .sort((a, b) => scoreOf(b) - scoreOf(a));
+
+    const entries: RiskLeaderboardEntry[] = [];
+    for (const record of ranked.slice(offset, offset + limit)) {
+      const instrument = await this.instrumentRepo.findById(record.instrumentId);
+      if (!instrument) continue;
+
+      entries.push({
+        instrumentId: record.instrumentId,
+        symbol: instrument.symbol,
+        name: instrument.name,
+        type: instrument.type,
+        score: record.score,
+        subScores: record.subScores,
+        topContributors: record.contributors
+          .filter((c) => !filters.category || c.category === filters.category)
+          .slice(0, 3),
+        signalCount: record.signalCount,
+        computedAt: record.computedAt,
+      });
+    }
+
+    return { entries, total: ranked.length };
+  }
+}
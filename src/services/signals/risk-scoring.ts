@@ -0,0 +1,151 @@
+/**
+ * Pure composite risk scoring.
+ *
+ * Each active signal contributes `score * severityWeight * decay` points to
+ * its category, where decay halves every category half-life. Contributions
+ * within a category and category sub-scores in the composite are combined as
+ * independent risks (1 - Π(1 - p)), so several moderate signals compound
+ * but the result stays within 0-100.
+ */
+
+import { SignalRecord, SignalSeverity, SignalType } from '../../types/edgar.types.js';
+import {
+  RiskCategory,
+  RiskContributor,
+  RiskScoreResult,
+  RiskSubScores,
+} from '../../types/risk-score.types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SEVERITY_WEIGHTS: Record<SignalSeverity, number> = {
+  [SignalSeverity.LOW]: 0.25,
+  [SignalSeverity.MEDIUM]: 0.5,
+  [SignalSeverity.HIGH]: 0.75,
+  [SignalSeverity.CRITICAL]: 1.0,
+};
+
+/**
+ * Half-life per category: filings stay relevant for weeks, price-driven
+ * peer/factor moves and volatility spikes for a couple of days.
+ */
+const CATEGORY_HALF_LIFE_HOURS: Record<RiskCategory, number> = {
+  [RiskCategory.EDGAR]: 30 * 24,
+  [RiskCategory.EARNINGS]: 14 * 24,
+  [RiskCategory.NEWS]: 3 * 24,
+  [RiskCategory.CATALYST]: 7 * 24,
+  [RiskCategory.PEER_FACTOR]: 2 * 24,
+  [RiskCategory.ETF]: 7 * 24,
+};
+
+/**
+ * How much of each category's sub-score carries into the composite
+ */
+const CATEGORY_WEIGHTS: Record<RiskCategory, number> = {
+  [RiskCategory.EDGAR]: 1.0,
+  [RiskCategory.EARNINGS]: 0.8,
+  [RiskCategory.NEWS]: 0.7,
+  [RiskCategory.CATALYST]: 0.5,
+  [RiskCategory.PEER_FACTOR]: 0.5,
+  [RiskCategory.ETF]: 0.8,
+};
+
+const CATEGORY_BY_TYPE: Partial<Record<SignalType, RiskCategory>> = {
+  [SignalType.DILUTION_RISK]: RiskCategory.EDGAR,
+  [SignalType.TOXIC_FINANCING_RISK]: RiskCategory.EDGAR,
+  [SignalType.DISTRESS_RISK]: RiskCategory.EDGAR,
+  [SignalType.INSIDER_CLUSTER_SELLING]: RiskCategory.EDGAR,
+  [SignalType.ACTIVIST_STAKE_CROSSED]: RiskCategory.EDGAR,
+  [SignalType.LIQUIDITY_STRESS_CALL]: RiskCategory.EARNINGS,
+  [SignalType.CAPITAL_RAISE_IMMINENT]: RiskCategory.EARNINGS,
+  [SignalType.GUIDANCE_DETERIORATION]: RiskCategory.EARNINGS,
+  [SignalType.MANAGEMENT_UNCERTAINTY]: RiskCategory.EARNINGS,
+  [SignalType.BANKRUPTCY_INDICATOR]: RiskCategory.NEWS,
+  [SignalType.FINANCING_EVENT]: RiskCategory.NEWS,
+  [SignalType.LEGAL_REGULATORY_RISK]: RiskCategory.NEWS,
+  [SignalType.MANAGEMENT_INSTABILITY]: RiskCategory.NEWS,
+  [SignalType.PEER_IMPACT]: RiskCategory.PEER_FACTOR,
+  [SignalType.FACTOR_EXPOSURE_ALERT]: RiskCategory.PEER_FACTOR,
+  [SignalType.VOLATILITY_SPIKE]: RiskCategory.PEER_FACTOR,
+};
+
+/**
+ * Signals that point upward (see BULLISH_SIGNALS in backtest-metrics) and
+ * so add no downside risk
+ */
+const NON_RISK_TYPES = new Set<SignalType>([SignalType.MA_SPECULATION]);
+
+export const MAX_CONTRIBUTORS = 10;
+
+/**
+ * Category a signal type scores in; null for signals that carry no risk
+ */
+export function riskCategoryFor(signalType: SignalType): RiskCategory | null {
+  if (NON_RISK_TYPES.has(signalType)) return null;
+  const mapped = CATEGORY_BY_TYPE[signalType];
+  if (mapped) return mapped;
+  if (signalType.startsWith('ETF_')) return RiskCategory.ETF;
+  return RiskCategory.CATALYST;
+}
+
+export function decayFactor(category: RiskCategory, computedAt: Date, now: Date): number {
+  const ageHours = Math.max(0, now.getTime() - computedAt.getTime()) / HOUR_MS;
+  return Math.pow(0.5, ageHours / CATEGORY_HALF_LIFE_HOURS[category]);
+}
+
+function combine(points: number[]): number {
+  const remaining = points.reduce((acc, p) => acc * (1 - Math.min(Math.max(p, 0), 100) / 100), 1);
+  return (1 - remaining) * 100;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function emptySubScores(): RiskSubScores {
+  return Object.fromEntries(Object.values(RiskCategory).map((c) => [c, 0])) as RiskSubScores;
+}
+
+export function computeRiskScore(signals: SignalRecord[], now: Date = new Date()): RiskScoreResult {
+  const contributors: RiskContributor[] = signals.flatMap((signal) => {
+    const category = riskCategoryFor(signal.signalType);
+    if (!category) return [];
+
+    const decay = decayFactor(category, signal.computedAt, now);
+    const signalScore = Number(signal.score) || 0;
+
+    return {
+      signalId: signal.id,
+      signalType: signal.signalType,
+      category,
+      severity: signal.severity,
+      signalScore,
+      decay: Math.round(decay * 1000) / 1000,
+      contribution: round(signalScore * SEVERITY_WEIGHTS[signal.severity] * decay),
+      computedAt: signal.computedAt,
+    };
+  });
+
+  const subScores = emptySubScores();
+  for (const category of Object.values(RiskCategory)) {
+    subScores[category] = round(
+      combine(contributors.filter((c) => c.category === category).map((c) => c.contribution)),
+    );
+  }
+
+  const score = round(
+    combine(
+      Object.values(RiskCategory).map((category) => subScores[category] * CATEGORY_WEIGHTS[category]),
+    ),
+  );
+
+  return {
+    score,
+    subScores,
+    contributors: contributors
+      .filter((c) => c.contribution > 0)
+      .sort((a, b) => b.contribution - a.contribution)
+      .slice(0, MAX_CONTRIBUTORS),
+    signalCount: contributors.length,
+  };
+}
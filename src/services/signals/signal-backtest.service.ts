@@ -0,0 +1,269 @@
+import { Candle as PrismaCandle } from '@prisma/client';
+import { SignalRepository } from '../../adapters/database/repositories/signal.repository.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import { CandleRepository } from '../../adapters/database/repositories/candle.repository.js';
+import { SignalRecord, SignalSeverity, SignalType } from '../../types/edgar.types.js';
+import { FactorType } from '../../types/document.types.js';
+import { ValidationError } from '../../utils/errors.js';
+import { getLogger } from '../../utils/logger.js';
+import { computeOutcome, emittedAt, summarizeByHorizon } from './backtest-metrics.js';
+import type {
+  PricePoint,
+  SignalBacktestRequest,
+  SignalBacktestResult,
+  SignalOutcome,
+} from '../../types/backtest.types.js';
+
+const DEFAULT_HORIZONS = [1, 5, 20];
+const MAX_HORIZON = 252;
+const DEFAULT_SIGNAL_LIMIT = 5000;
+const MAX_SIGNAL_LIMIT = 20000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Listed proxies used as the benchmark price series for each factor
+ */
+const BENCHMARK_PROXY_SYMBOLS: Record<FactorType, string> = {
+  [FactorType.INDEX_SPX]: 'SPY',
+  [FactorType.INDEX_NASDAQ]: 'QQQ',
+  [FactorType.COMMODITY_GOLD]: 'GLD',
+  [FactorType.COMMODITY_SILVER]: 'SLV',
+  [FactorType.COMMODITY_OIL]: 'USO',
+  [FactorType.COMMODITY_NATURAL_GAS]: 'UNG',
+  [FactorType.COMMODITY_COPPER]: 'CPER',
+  [FactorType.INTEREST_RATE_10Y]: 'IEF',
+  [FactorType.INTEREST_RATE_FED_FUNDS]: 'BIL',
+  [FactorType.CURRENCY_USD]: 'UUP',
+  [FactorType.VOLATILITY_VIX]: 'VIXY',
+};
+
+/**
+ * Signal Backtest Service
+ *
+ * Replays stored InstrumentSignal rows against daily candles and reports
+ * forward returns, excess returns vs a benchmark factor and hit rates,
+ * overall and broken down by signal type and severity.
+ *
+ * Returns are measured from each signal's first emission (firstSeenAt).
+ * Rows stored before that column existed only have their last recompute
+ * time, which starts the measurement late for long-lived signals.
+ */
+export class SignalBacktestService {
+  private signalRepo: SignalRepository;
+  private instrumentRepo: InstrumentRepository;
+  private candleRepo: CandleRepository;
+  private logger = getLogger();
+
+  constructor() {
+    this.signalRepo = new SignalRepository();
+    this.instrumentRepo = new InstrumentRepository();
+    this.candleRepo = new CandleRepository();
+  }
+
+  async runBacktest(request: SignalBacktestRequest): Promise<SignalBacktestResult> {
+    const horizons = this.validateHorizons(request.horizons ?? DEFAULT_HORIZONS);
+    const benchmarkFactor = request.benchmark ?? FactorType.INDEX_SPX;
+    const from = this.parseDate(request.from, 'from');
+    const to = this.parseDate(request.to, 'to');
+
+    if (from && to && from > to) {
+      throw new ValidationError('from must be before to');
+    }
+    if (!Object.values(FactorType).includes(benchmarkFactor)) {
+      throw new ValidationError(`Unknown benchmark factor: ${benchmarkFactor}`);
+    }
+
+    const signals = await this.signalRepo.findForBacktest({
+      signalTypes: request.signalTypes,
+      severities: request.severities,
+      instrumentIds: request.instrumentIds,
+      minScore: request.minScore,
+      from: from ?? undefined,
+      to: to ?? undefined,
+      limit: Math.min(request.limit ?? DEFAULT_SIGNAL_LIMIT, MAX_SIGNAL_LIMIT),
+    });
+
+    const benchmarkSymbol = BENCHMARK_PROXY_SYMBOLS[benchmarkFactor];
+    const benchmarkInstrument = await this.instrumentRepo.findBySymbol(benchmarkSymbol);
+
+    const result: SignalBacktestResult = {
+      parameters: {
+        signalTypes: request.signalTypes ?? null,
+        severities: request.severities ?? null,
+        instrumentIds: request.instrumentIds ?? null,
+        minScore: request.minScore ?? null,
+        from: from?.toISOString() ?? null,
+        to: to?.toISOString() ?? null,
+        horizons,
+        benchmark: benchmarkFactor,
+      },
+      benchmark: {
+        factorType: benchmarkFactor,
+        symbol: benchmarkSymbol,
+        instrumentId: benchmarkInstrument?.id ?? null,
+        available: false,
+      },
+      coverage: {
+        signalsReplayed: signals.length,
+        signalsWithPrices: 0,
+        signalsWithoutCandles: 0,
+      },
+      overall: summarizeByHorizon([], horizons),
+      bySignalType: {},
+      bySeverity: {},
+    };
+
+    if (signals.length === 0) {
+      return result;
+    }
+
+    // Candle window: first signal through last signal plus the longest horizon
+    // (trading days -> calendar days with headroom for weekends and holidays)
+    const maxHorizon = Math.max(...horizons);
+    const emissionTimes = signals.map((signal) => emittedAt(signal).getTime());
+    const windowStart = new Date(Math.min(...emissionTimes) - DAY_MS);
+    const windowEnd = new Date(Math.max(...emissionTimes) + (maxHorizon * 1.5 + 10) * DAY_MS);
+
+    const benchmarkPrices = benchmarkInstrument
+      ? await this.loadDailyPrices(benchmarkInstrument.id, windowStart, windowEnd)
+      : [];
+    result.benchmark.available = benchmarkPrices.length > 0;
+
+    if (!result.benchmark.available) {
+      this.logger.warn(
+        { benchmarkFactor, benchmarkSymbol },
+        'No benchmark candles for backtest, excess returns will be null',
+      );
+    }
+
+    const outcomes: SignalOutcome[] = [];
+    const signalsByInstrument = this.groupByInstrument(signals);
+
+    for (const [instrumentId, instrumentSignals] of signalsByInstrument) {
+      const prices = await this.loadDailyPrices(instrumentId, windowStart, windowEnd);
+      if (prices.length === 0) {
+        result.coverage.signalsWithoutCandles += instrumentSignals.length;
+        continue;
+      }
+
+      for (const signal of instrumentSignals) {
+        let priced = false;
+        for (const horizon of horizons) {
+          const outcome = computeOutcome(signal, prices, benchmarkPrices, horizon);
+          if (outcome) {
+            outcomes.push(outcome);
+            priced = true;
+          }
+        }
+        if (priced) {
+          result.coverage.signalsWithPrices++;
+        }
+      }
+    }
+
+    result.overall = summarizeByHorizon(outcomes, horizons);
+    result.bySignalType = this.breakdown(outcomes, horizons, signals, (o) => o.signalType);
+    result.bySeverity = this.breakdown(outcomes, horizons, signals, (o) => o.severity);
+
+    this.logger.info(
+      {
+        signals: signals.length,
+        priced: result.coverage.signalsWithPrices,
+        horizons,
+        benchmark: benchmarkFactor,
+      },
+      'Signal backtest complete',
+    );
+
+    return result;
+  }
+
+  private breakdown(
+    outcomes: SignalOutcome[],
+    horizons: number[],
+    signals: SignalRecord[],
+    keyOf: (item: { signalType: SignalType; severity: SignalSeverity }) => string,
+  ): SignalBacktestResult['bySignalType'] {
+    const groups = new Map<string, SignalOutcome[]>();
+    for (const outcome of outcomes) {
+      const key = keyOf(outcome);
+      const group = groups.get(key) ?? [];
+      group.push(outcome);
+      groups.set(key, group);
+    }
+
+    const signalCounts = new Map<string, number>();
+    for (const signal of signals) {
+      const key = keyOf(signal);
+      signalCounts.set(key, (signalCounts.get(key) ?? 0) + 1);
+    }
+
+    const result: SignalBacktestResult['bySignalType'] = {};
+    for (const [key, count] of signalCounts) {
+      result[key] = {
+        signals: count,
+        horizons: summarizeByHorizon(groups.get(key) ?? [], horizons),
+      };
+    }
+    return result;
+  }
+
+  private groupByInstrument(signals: SignalRecord[]): Map<string, SignalRecord[]> {
+    const groups = new Map<string, SignalRecord[]>();
+    for (const signal of signals) {
+      const group = groups.get(signal.instrumentId) ?? [];
+      group.push(signal);
+      groups.set(signal.instrumentId, group);
+    }
+    return groups;
+  }
+
+  /**
+   * Daily closes for an instrument, one bar per timestamp across sources
+   */
+  private async loadDailyPrices(instrumentId: string, from: Date, to: Date): Promise<PricePoint[]> {
+    const candles: PrismaCandle[] = await this.candleRepo.findByInstrument({
+      instrumentId,
+      interval: '1d',
+      from,
+      to,
+    });
+
+    const seen = new Set<number>();
+    const points: PricePoint[] = [];
+    for (const candle of candles) {
+      const ts = candle.timestamp.getTime();
+      if (seen.has(ts)) continue;
+      seen.add(ts);
+      points.push({
+        timestamp: candle.timestamp,
+        endTime: candle.endTime,
+        close: Number(candle.close),
+      });
+    }
+    return points;
+  }
+
+  private validateHorizons(horizons: number[]): number[] {
+    if (horizons.length === 0) {
+      throw new ValidationError('At least one horizon is required');
+    }
+    for (const horizon of horizons) {
+      if (!Number.isInteger(horizon) || horizon < 1 || horizon > MAX_HORIZON) {
+        throw new ValidationError(`Horizons must be whole trading days between 1 and ${MAX_HORIZON}`, {
+          horizon,
+        });
+      }
+    }
+    return [...new Set(horizons)].sort((a, b) => a - b);
+  }
+
+  private parseDate(value: string | undefined, field: string): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`Invalid ${field} date: ${value}`);
+    }
+    return date;
+  }
+}
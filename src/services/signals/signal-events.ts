@@ -0,0 +1,24 @@
+import { EventEmitter } from 'node:events';
+import type { SignalPersistedEvent } from '../../types/alert.types.js';
+
+/**
+ * In-process notification hook for persisted signals.
+ *
+ * SignalRepository emits here after every upsert so consumers (alert
+ * delivery, caches) can react without each signal producer knowing about them.
+ */
+const emitter = new EventEmitter();
+emitter.setMaxListeners(50);
+
+const SIGNAL_PERSISTED = 'signal:persisted';
+
+export function emitSignalPersisted(event: SignalPersistedEvent): void {
+  emitter.emit(SIGNAL_PERSISTED, event);
+}
+
+export function onSignalPersisted(listener: (event: SignalPersistedEvent) => void): () => void {
+  emitter.on(SIGNAL_PERSISTED, listener);
+  return () => {
+    emitter.off(SIGNAL_PERSISTED, listener);
+  };
+}
@@ -71,6 +71,12 @@ export interface PeerPriceMovementEvidence extends EvidenceFact {
   /** Price change percentage (e.g., -7.5 for 7.5% drop) */
   priceChangePct: number;
 
+  /** What moved: the YES probability of a market linked to the peer */
+  priceSource: 'LINKED_MARKET_PROBABILITY';
+
+  /** Linked market whose probability moved */
+  marketId: string;
+
   /** Strength of competitor relationship (0-1) */
   correlationStrength: number;
 }
@@ -476,3 +482,71 @@ export interface BasketPolicyChangeEvidence extends EvidenceFact {
   /** Keywords searched */
   keywords: string[];
 }
+
+/**
+ * Evidence: Realized volatility spike against a trailing baseline
+ */
+export interface VolatilitySpikeEvidence extends EvidenceFact {
+  type: 'VOLATILITY_SPIKE';
+
+  /** INSTRUMENT_CANDLES (daily closes) or MARKET_TRADES (hourly trade closes) */
+  source: 'INSTRUMENT_CANDLES' | 'MARKET_TRADES';
+
+  /** Linked Polymarket market (MARKET_TRADES only) */
+  marketId: string | null;
+
+  /** Bar interval the returns were computed on */
+  interval: '1d' | '1h';
+
+  /** Evidence window: start and end of the latest window */
+  windowStart: Date;
+  windowEnd: Date;
+
+  /** Std dev of returns in the latest window (price units for MARKET_TRADES) */
+  recentVolatility: number;
+
+  /** Median and scaled MAD of the baseline windows' volatility */
+  baselineMedian: number;
+  baselineMad: number;
+
+  /** (recent - median) / MAD */
+  robustZScore: number;
+
+  /** recentVolatility / baselineMedian */
+  volatilityRatio: number;
+
+  /** Number of baseline windows */
+  baselineWindows: number;
+}
+
+/**
+ * Evidence: One stressed constituent of an ETF
+ */
+export interface ConstituentStressEvidence extends EvidenceFact {
+  type: 'CONSTITUENT_STRESS';
+
+  /** Held instrument carrying the signal */
+  constituentInstrumentId: string;
+
+  /** Issuer name as reported in the N-PORT */
+  issuerName: string;
+
+  /** N-PORT filing the holding comes from */
+  filingId: string;
+
+  /** Constituent signal that was propagated */
+  sourceSignalId: string;
+  sourceSignalType: SignalType;
+  sourceScore: number;
+  sourceConfidence: number;
+
+  /** Fraction of the ETF's portfolio in the constituent (0-1) */
+  portfolioWeight: number;
+
+  /** Liquidity bucket of the holding and the multiplier applied for it */
+  liquidityBucket: string | null;
+  liquidityMultiplier: number;
+
+  /** Share of the ETF's stress score from this holding (0-100 points) */
+  scoreContribution: number;
+}
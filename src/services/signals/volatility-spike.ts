@@ -0,0 +1,169 @@
+/**
+ * Pure realized-volatility spike detection.
+ *
+ * The latest window of period returns is compared with the preceding
+ * non-overlapping windows of the same length. The comparison uses a robust
+ * z-score (median and MAD instead of mean and standard deviation), so one
+ * earlier shock in the baseline doesn't mask the next one.
+ */
+
+/**
+ * `log` for instrument prices; `diff` for prediction-market prices, which
+ * are probabilities where log returns blow up near 0
+ */
+export type ReturnMode = 'log' | 'diff';
+
+export interface PriceObservation {
+  timestamp: Date;
+  price: number;
+}
+
+export interface VolatilitySpikeOptions {
+  window: number; // Returns per window
+  mode: ReturnMode;
+  minBaselineWindows: number;
+}
+
+export interface VolatilitySpikeResult {
+  recentVolatility: number; // Std dev of returns in the latest window
+  baselineMedian: number; // Median volatility of the baseline windows
+  baselineMad: number; // Scaled MAD of the baseline windows
+  robustZScore: number;
+  volatilityRatio: number; // recentVolatility / baselineMedian
+  baselineWindows: number;
+  observations: number; // Returns in the latest window
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+// Scales MAD and mean absolute deviation to a standard deviation under normality
+const MAD_SCALE = 1.4826;
+const MEAN_ABS_DEV_SCALE = 1.2533;
+
+/**
+ * Last price per bucket from first trade to `end`, carrying the previous
+ * price through buckets without trades
+ */
+export function bucketCloses(
+  points: PriceObservation[],
+  bucketMs: number,
+  end: Date,
+): PriceObservation[] {
+  if (points.length === 0) return [];
+
+  const closes = new Map<number, number>();
+  for (const point of points) {
+    closes.set(Math.floor(point.timestamp.getTime() / bucketMs), point.price);
+  }
+
+  const first = Math.floor(points[0].timestamp.getTime() / bucketMs);
+  const last = Math.floor(end.getTime() / bucketMs);
+  const series: PriceObservation[] = [];
+  let price = closes.get(first)!;
+
+  for (let bucket = first; bucket <= last; bucket++) {
+    price = closes.get(bucket) ?? price;
+    series.push({ timestamp: new Date((bucket + 1) * bucketMs), price });
+  }
+
+  return series;
+}
+
+export function periodReturns(prices: number[], mode: ReturnMode): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    if (mode === 'log') {
+      if (prices[i - 1] > 0 && prices[i] > 0) {
+        returns.push(Math.log(prices[i] / prices[i - 1]));
+      } else {
+        returns.push(NaN);
+      }
+    } else {
+      returns.push(prices[i] - prices[i - 1]);
+    }
+  }
+  return returns;
+}
+
+/**
+ * Sample standard deviation, ignoring non-finite values
+ */
+export function standardDeviation(values: number[]): number {
+  const finite = values.filter((value) => Number.isFinite(value));
+  if (finite.length < 2) return 0;
+
+  const mean = finite.reduce((sum, value) => sum + value, 0) / finite.length;
+  const variance =
+    finite.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (finite.length - 1);
+  return Math.sqrt(variance);
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * (value - median) / scaled MAD. Falls back to the mean absolute deviation
+ * when more than half the sample sits on the median; null when the sample
+ * has no spread at all.
+ */
+export function robustZScore(
+  value: number,
+  sample: number[],
+): { zScore: number; median: number; scale: number } | null {
+  if (sample.length === 0) return null;
+
+  const center = median(sample);
+  const deviations = sample.map((x) => Math.abs(x - center));
+  let scale = MAD_SCALE * median(deviations);
+  if (scale === 0) {
+    scale = (MEAN_ABS_DEV_SCALE * deviations.reduce((sum, d) => sum + d, 0)) / sample.length;
+  }
+  if (scale === 0) return null;
+
+  return { zScore: (value - center) / scale, median: center, scale };
+}
+
+/**
+ * Robust z-score of the latest window's realized volatility against the
+ * windows before it. Null when there isn't enough history.
+ */
+export function detectVolatilitySpike(
+  series: PriceObservation[],
+  options: VolatilitySpikeOptions,
+): VolatilitySpikeResult | null {
+  const returns = periodReturns(
+    series.map((point) => point.price),
+    options.mode,
+  );
+  if (returns.length < options.window * (options.minBaselineWindows + 1)) return null;
+
+  const recent = returns.slice(-options.window);
+  const baselineVols: number[] = [];
+  for (let end = returns.length - options.window; end >= options.window; end -= options.window) {
+    baselineVols.push(standardDeviation(returns.slice(end - options.window, end)));
+  }
+  if (baselineVols.length < options.minBaselineWindows) return null;
+
+  const recentVolatility = standardDeviation(recent);
+  const robust = robustZScore(recentVolatility, baselineVols);
+  if (!robust || robust.median === 0) return null;
+
+  // returns[i] ends at series[i + 1]
+  const windowStart = series[series.length - options.window - 1].timestamp;
+  const windowEnd = series[series.length - 1].timestamp;
+
+  return {
+    recentVolatility,
+    baselineMedian: robust.median,
+    baselineMad: robust.scale,
+    robustZScore: robust.zScore,
+    volatilityRatio: recentVolatility / robust.median,
+    baselineWindows: baselineVols.length,
+    observations: recent.filter((value) => Number.isFinite(value)).length,
+    windowStart,
+    windowEnd,
+  };
+}
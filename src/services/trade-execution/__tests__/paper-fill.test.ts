@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { simulateFill } from '../paper-fill';
+
+const book = {
+  bids: [
+    { price: '0.48', size: '100' },
+    { price: '0.50', size: '50' },
+  ],
+  asks: [
+    { price: '0.55', size: '40' },
+    { price: '0.52', size: '60' },
+  ],
+};
+
+describe('simulateFill', () => {
+  it('should walk asks from the lowest price for buys', () => {
+    const fill = simulateFill('buy', 80, book);
+
+    expect(fill?.filledSize).toBe(80);
+    expect(fill?.bestPrice).toBe(0.52);
+    expect(fill?.notional).toBeCloseTo(60 * 0.52 + 20 * 0.55);
+    expect(fill?.avgPrice).toBeCloseTo((60 * 0.52 + 20 * 0.55) / 80);
+    expect(fill?.slippagePct).toBeCloseTo(((fill!.avgPrice - 0.52) / 0.52) * 100);
+    expect(fill?.levelsConsumed).toBe(2);
+  });
+
+  it('should walk bids from the highest price for sells', () => {
+    const fill = simulateFill('sell', 30, book);
+
+    expect(fill?.avgPrice).toBeCloseTo(0.5);
+    expect(fill?.slippagePct).toBeCloseTo(0);
+    expect(fill?.levelsConsumed).toBe(1);
+  });
+
+  it('should report a partial fill when the book runs out', () => {
+    expect(simulateFill('buy', 500, book)?.filledSize).toBe(100);
+  });
+
+  it('should stop at the limit price', () => {
+    const fill = simulateFill('buy', 80, book, 0.53);
+    expect(fill?.filledSize).toBe(60);
+
+    expect(simulateFill('buy', 10, book, 0.5)).toBeNull();
+    expect(simulateFill('sell', 10, book, 0.51)).toBeNull();
+  });
+
+  it('should return null for an empty side', () => {
+    expect(simulateFill('buy', 1, { bids: book.bids, asks: [] })).toBeNull();
+  });
+});
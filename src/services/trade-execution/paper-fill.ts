@@ -0,0 +1,70 @@
+import type { OrderbookLevel } from '../../types/market.types.js';
+import type { TradeSide } from '../../types/trade.types.js';
+
+export interface SimulatedFill {
+  filledSize: number;
+  avgPrice: number;
+  bestPrice: number;
+  notional: number;
+  slippagePct: number;
+  levelsConsumed: number;
+}
+
+/**
+ * Fill an order against a book snapshot, walking levels from the best price.
+ *
+ * Buys take asks (lowest first), sells hit bids (highest first). With a
+ * limit price only levels at or better than the limit are taken and the
+ * remainder is cancelled (immediate-or-cancel). Returns null when nothing
+ * can be filled.
+ */
+export function simulateFill(
+  side: TradeSide,
+  size: number,
+  book: { bids: OrderbookLevel[]; asks: OrderbookLevel[] },
+  limitPrice?: number,
+): SimulatedFill | null {
+  const levels = (side === 'buy' ? book.asks : book.bids)
+    .map((level) => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+    .filter((level) => level.price > 0 && level.size > 0)
+    .sort((a, b) => (side === 'buy' ? a.price - b.price : b.price - a.price));
+
+  if (levels.length === 0) {
+    return null;
+  }
+
+  let remaining = size;
+  let filledSize = 0;
+  let notional = 0;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    if (limitPrice !== undefined) {
+      const crosses = side === 'buy' ? level.price <= limitPrice : level.price >= limitPrice;
+      if (!crosses) break;
+    }
+
+    const take = Math.min(remaining, level.size);
+    filledSize += take;
+    notional += take * level.price;
+    remaining -= take;
+    levelsConsumed += 1;
+  }
+
+  if (filledSize === 0) {
+    return null;
+  }
+
+  const bestPrice = levels[0].price;
+  const avgPrice = notional / filledSize;
+
+  return {
+    filledSize,
+    avgPrice,
+    bestPrice,
+    notional,
+    slippagePct: (Math.abs(avgPrice - bestPrice) / bestPrice) * 100,
+    levelsConsumed,
+  };
+}
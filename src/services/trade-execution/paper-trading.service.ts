@@ -0,0 +1,154 @@
+import { getPrismaClient } from '../../adapters/database/client.js';
+import { MarketRepository } from '../../adapters/database/repositories/market.repository.js';
+import { PositionRepository } from '../../adapters/database/repositories/position.repository.js';
+import { TradeRepository } from '../../adapters/database/repositories/trade.repository.js';
+import { MarketDataService } from '../market-data/market-data.service.js';
+import { PositionTrackingService } from '../position-tracking/position-tracking.service.js';
+import { simulateFill } from './paper-fill.js';
+import { PaperOrderRequest, PaperOrderResponse, Trade } from '../../types/trade.types.js';
+import { ValidationError, NotFoundError, InsufficientLiquidityError } from '../../utils/errors.js';
+import { validateAddress, validateSize, validateMarketId } from '../../utils/validators.js';
+import { getLogger } from '../../utils/logger.js';
+
+// Fills within this much of the requested size count as complete
+const SIZE_EPSILON = 1e-9;
+
+/**
+ * Paper Trading Service
+ *
+ * Validates orders like prepareTrade, then fills them against the current
+ * orderbook instead of building a transaction. Fills are recorded as Trade
+ * and Position rows in the `paper` account, which never mixes with live
+ * (CLOB-ingested) rows for the same wallet.
+ *
+ * The holding check, trade and position update run in one transaction under
+ * a per-position lock, so concurrent sells cannot oversell.
+ */
+export class PaperTradingService {
+  private marketRepo: MarketRepository;
+  private tradeRepo: TradeRepository;
+  private marketDataService: MarketDataService;
+  private positionService: PositionTrackingService;
+  private logger;
+
+  constructor() {
+    this.marketRepo = new MarketRepository();
+    this.tradeRepo = new TradeRepository();
+    this.marketDataService = new MarketDataService();
+    this.positionService = new PositionTrackingService();
+    this.logger = getLogger();
+  }
+
+  async placeOrder(request: PaperOrderRequest): Promise<PaperOrderResponse> {
+    validateAddress(request.walletAddress);
+    validateMarketId(request.marketId);
+    validateSize(request.size);
+
+    const walletAddress = request.walletAddress.toLowerCase();
+    const orderType = request.orderType || 'market';
+    if (orderType === 'limit' && !request.limitPrice) {
+      throw new ValidationError('limitPrice is required for limit orders');
+    }
+    const limitPrice =
+      orderType === 'limit' && request.limitPrice ? parseFloat(request.limitPrice) : undefined;
+    if (limitPrice !== undefined && (isNaN(limitPrice) || limitPrice <= 0 || limitPrice >= 1)) {
+      throw new ValidationError('limitPrice must be between 0 and 1');
+    }
+
+    const market = await this.marketRepo.findById(request.marketId);
+    if (!market) {
+      throw new NotFoundError('Market', request.marketId);
+    }
+    if (!market.active) {
+      throw new ValidationError('Market is not active');
+    }
+
+    const size = parseFloat(request.size);
+
+    const orderbook = await this.marketDataService.getOrderbook(request.marketId, request.outcome);
+    const fill = simulateFill(request.side, size, orderbook, limitPrice);
+
+    if (!fill) {
+      if (limitPrice !== undefined) {
+        throw new ValidationError(`Limit price ${request.limitPrice} does not cross the book`);
+      }
+      throw new InsufficientLiquidityError(request.marketId);
+    }
+    if (orderType === 'market' && fill.filledSize < size - SIZE_EPSILON) {
+      throw new InsufficientLiquidityError(request.marketId);
+    }
+
+    const { trade, position } = await getPrismaClient().$transaction(async (tx) => {
+      const positionRepo = new PositionRepository(tx);
+      const tradeRepo = new TradeRepository(tx);
+
+      await positionRepo.lock(walletAddress, request.marketId, request.outcome, 'paper');
+
+      // Paper accounts cannot go short
+      if (request.side === 'sell') {
+        const current = await positionRepo.findOne(
+          walletAddress,
+          request.marketId,
+          request.outcome,
+          'paper',
+        );
+        const held = current ? parseFloat(current.size) : 0;
+        if (size > held + SIZE_EPSILON) {
+          throw new ValidationError(
+            `Cannot sell ${request.size} ${request.outcome}: paper position holds ${held}`,
+          );
+        }
+      }
+
+      const created = await tradeRepo.create({
+        account: 'paper',
+        walletAddress,
+        marketId: request.marketId,
+        outcome: request.outcome,
+        side: request.side,
+        price: fill.avgPrice.toFixed(6),
+        size: fill.filledSize.toFixed(6),
+        txHash: null,
+        blockNumber: null,
+        gasUsed: null,
+        fee: null,
+      });
+
+      return {
+        trade: created,
+        position: await this.positionService.updatePositionFromTrade(created, positionRepo),
+      };
+    });
+
+    this.logger.info(
+      {
+        walletAddress,
+        marketId: request.marketId,
+        outcome: request.outcome,
+        side: request.side,
+        filledSize: fill.filledSize,
+        avgPrice: fill.avgPrice,
+      },
+      'Paper order filled',
+    );
+
+    return {
+      trade,
+      position,
+      fill: {
+        requestedSize: request.size,
+        filledSize: fill.filledSize.toFixed(6),
+        avgPrice: fill.avgPrice.toFixed(6),
+        bestPrice: fill.bestPrice.toString(),
+        notional: fill.notional.toFixed(2),
+        slippage: fill.slippagePct.toFixed(2),
+        levelsConsumed: fill.levelsConsumed,
+      },
+    };
+  }
+
+  async getTrades(walletAddress: string): Promise<Trade[]> {
+    validateAddress(walletAddress);
+    return this.tradeRepo.findByWallet(walletAddress.toLowerCase(), 'paper');
+  }
+}
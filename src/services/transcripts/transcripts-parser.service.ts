@@ -2,6 +2,8 @@ import { DocumentRepository } from '../../adapters/database/repositories/documen
 import { TranscriptsStorage } from './storage.interface.js';
 import { createTranscriptsStorage } from './storage.factory.js';
 import { getLogger } from '../../utils/logger.js';
+import { SearchIndexerService } from '../search/search-indexer.service.js';
+import { getEnvironment } from '../../config/environment.js';
 import { DocumentRecord } from '../../types/document.types.js';
 import { ParsedTranscript } from '../../types/transcripts.types.js';
 
@@ -24,6 +26,7 @@ export class TranscriptsParserService {
   private documentRepo: DocumentRepository;
   private storage: TranscriptsStorage;
   private logger;
+  private searchIndexer: SearchIndexerService | null = null;
 
   // Regex patterns for Q&A session detection
   private readonly QA_MARKERS = [
@@ -51,6 +54,11 @@ export class TranscriptsParserService {
     this.documentRepo = new DocumentRepository();
     this.storage = storage || createTranscriptsStorage();
     this.logger = getLogger();
+
+    // Initialize search indexer if enabled
+    if (getEnvironment().SEARCH_INDEXER_ENABLED) {
+      this.searchIndexer = new SearchIndexerService();
+    }
   }
 
   /**
@@ -171,6 +179,13 @@ export class TranscriptsParserService {
         parsedAt: new Date(),
       });
 
+      // Index content for full-text search (don't block)
+      if (this.searchIndexer) {
+        this.searchIndexer.indexDocumentContent(document.id).catch((error) => {
+          this.logger.warn({ error, documentId: document.id }, 'Search indexing failed');
+        });
+      }
+
       this.logger.info(
         {
           documentId: document.id,
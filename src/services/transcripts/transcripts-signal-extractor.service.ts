@@ -12,7 +12,6 @@ import {
   TranscriptSnippet,
   ParsedTranscript,
 } from '../../types/transcripts.types.js';
-import { Decimal } from '@prisma/client/runtime/library';
 
 interface DetectedSignal {
   signalType: SignalType;
@@ -151,14 +150,13 @@ export class TranscriptsSignalExtractorService {
 
       for (const docInstrument of documentInstruments) {
         for (const signal of signals) {
-          await this.signalRepo.upsert({
+          await this.signalRepo.upsertSignal({
             instrumentId: docInstrument.instrumentId,
-            signalType: signal.signalType as any,
-            severity: signal.severity as any,
-            score: new Decimal(signal.score),
+            signalType: signal.signalType,
+            severity: signal.severity,
+            score: signal.score,
             reason: signal.reason,
             evidenceFacts: signal.evidence as any,
-            sourceFiling: null,
             expiresAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
           });
         }
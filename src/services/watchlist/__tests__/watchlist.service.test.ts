@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WatchlistService } from '../watchlist.service';
+import { NotFoundError } from '../../../utils/errors';
+import { LEGACY_WATCHLIST_OWNER, WatchlistRecord } from '../../../types/watchlist.types';
+
+const state = vi.hoisted(() => ({
+  watchlists: [] as WatchlistRecord[],
+  defaultOwner: undefined as string | undefined,
+}));
+
+// In-memory stand-in with the repository's owner scoping
+vi.mock('../../../adapters/database/repositories/watchlist.repository', () => ({
+  WatchlistRepository: class {
+    async findByOwner(ownerWallet: string): Promise<WatchlistRecord[]> {
+      return state.watchlists.filter((w) => w.ownerWallet === ownerWallet.toLowerCase());
+    }
+
+    async findByIdForOwner(id: string, ownerWallet: string): Promise<WatchlistRecord | null> {
+      return (
+        state.watchlists.find((w) => w.id === id && w.ownerWallet === ownerWallet.toLowerCase()) ??
+        null
+      );
+    }
+
+    async findByIdWithItems(id: string): Promise<(WatchlistRecord & { items: [] }) | null> {
+      const watchlist = state.watchlists.find((w) => w.id === id);
+      return watchlist ? { ...watchlist, items: [] } : null;
+    }
+
+    async findByShareToken(shareToken: string): Promise<(WatchlistRecord & { items: [] }) | null> {
+      const watchlist = state.watchlists.find((w) => w.shareToken === shareToken);
+      return watchlist ? { ...watchlist, items: [] } : null;
+    }
+
+    async setShareToken(id: string, shareToken: string | null): Promise<WatchlistRecord> {
+      const watchlist = state.watchlists.find((w) => w.id === id)!;
+      watchlist.shareToken = shareToken;
+      return { ...watchlist };
+    }
+
+    async update(id: string, input: { name?: string }): Promise<WatchlistRecord> {
+      const watchlist = state.watchlists.find((w) => w.id === id)!;
+      Object.assign(watchlist, input);
+      return { ...watchlist };
+    }
+
+    async delete(id: string): Promise<void> {
+      state.watchlists = state.watchlists.filter((w) => w.id !== id);
+    }
+
+    async reassignOwner(fromWallet: string, toWallet: string): Promise<number> {
+      const taken = new Set(
+        state.watchlists
+          .filter((w) => w.ownerWallet === toWallet.toLowerCase())
+          .map((w) => w.sortOrder),
+      );
+      const moving = state.watchlists.filter(
+        (w) => w.ownerWallet === fromWallet.toLowerCase() && !taken.has(w.sortOrder),
+      );
+      for (const watchlist of moving) {
+        watchlist.ownerWallet = toWallet.toLowerCase();
+      }
+      return moving.length;
+    }
+  },
+}));
+
+vi.mock('../../../adapters/database/repositories/market.repository', () => ({
+  MarketRepository: class {},
+}));
+
+vi.mock('../../../adapters/database/repositories/instrument.repository', () => ({
+  InstrumentRepository: class {},
+}));
+
+vi.mock('../../../config/environment', () => ({
+  getEnvironment: (): { WATCHLIST_DEFAULT_OWNER: string | undefined } => ({
+    WATCHLIST_DEFAULT_OWNER: state.defaultOwner,
+  }),
+}));
+
+vi.mock('../../../utils/logger', () => ({
+  getLogger: (): { info: () => void } => ({ info: () => undefined }),
+}));
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+function makeWatchlist(overrides: Partial<WatchlistRecord> = {}): WatchlistRecord {
+  return {
+    id: 'wl-1',
+    ownerWallet: ALICE,
+    name: 'Biotech',
+    sortOrder: 1,
+    shareToken: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('WatchlistService', () => {
+  beforeEach(() => {
+    state.watchlists = [makeWatchlist()];
+    state.defaultOwner = undefined;
+  });
+
+  describe('owner scoping', () => {
+    it("should not expose another wallet's watchlist", async () => {
+      const service = new WatchlistService();
+
+      await expect(service.getWatchlistWithItems(BOB, 'wl-1')).rejects.toBeInstanceOf(
+        NotFoundError,
+      );
+      await expect(service.getWatchlistWithItems(ALICE, 'wl-1')).resolves.toMatchObject({
+        id: 'wl-1',
+      });
+      expect(await service.getWatchlists(BOB)).toHaveLength(0);
+    });
+
+    it("should reject changes to another wallet's watchlist", async () => {
+      const service = new WatchlistService();
+
+      await expect(service.updateWatchlist(BOB, 'wl-1', { name: 'Mine' })).rejects.toBeInstanceOf(
+        NotFoundError,
+      );
+      await expect(service.shareWatchlist(BOB, 'wl-1')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(service.deleteWatchlist(BOB, 'wl-1')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(service.toggleItem(BOB, 'wl-1', 'market', 'm-1')).rejects.toBeInstanceOf(
+        NotFoundError,
+      );
+
+      expect(state.watchlists).toEqual([makeWatchlist()]);
+    });
+  });
+
+  describe('share links', () => {
+    it('should resolve a share token to a read-only view', async () => {
+      const service = new WatchlistService();
+      const shared = await service.shareWatchlist(ALICE, 'wl-1');
+
+      expect(shared.shareToken).toMatch(/^[A-Za-z0-9_-]{32}$/);
+
+      const view = await service.getSharedWatchlist(shared.shareToken!);
+      expect(view).toMatchObject({ id: 'wl-1', name: 'Biotech', items: [] });
+      expect(view).not.toHaveProperty('ownerWallet');
+      expect(view).not.toHaveProperty('shareToken');
+    });
+
+    it('should stop resolving a token once revoked', async () => {
+      const service = new WatchlistService();
+      const { shareToken } = await service.shareWatchlist(ALICE, 'wl-1');
+
+      await service.unshareWatchlist(ALICE, 'wl-1');
+
+      await expect(service.getSharedWatchlist(shareToken!)).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should invalidate the previous token when re-shared', async () => {
+      const service = new WatchlistService();
+      const first = await service.shareWatchlist(ALICE, 'wl-1');
+      const second = await service.shareWatchlist(ALICE, 'wl-1');
+
+      expect(second.shareToken).not.toBe(first.shareToken);
+      await expect(service.getSharedWatchlist(first.shareToken!)).rejects.toBeInstanceOf(
+        NotFoundError,
+      );
+    });
+  });
+
+  describe('claimLegacyWatchlists', () => {
+    it('should leave legacy rows alone without a default owner', async () => {
+      state.watchlists = [makeWatchlist({ ownerWallet: LEGACY_WATCHLIST_OWNER })];
+
+      expect(await new WatchlistService().claimLegacyWatchlists()).toBe(0);
+      expect(state.watchlists[0].ownerWallet).toBe(LEGACY_WATCHLIST_OWNER);
+    });
+
+    it('should move legacy rows to the default owner, skipping taken slots', async () => {
+      state.defaultOwner = ALICE;
+      state.watchlists = [
+        makeWatchlist({ id: 'mine', sortOrder: 1 }),
+        makeWatchlist({ id: 'legacy-1', ownerWallet: LEGACY_WATCHLIST_OWNER, sortOrder: 1 }),
+        makeWatchlist({ id: 'legacy-2', ownerWallet: LEGACY_WATCHLIST_OWNER, sortOrder: 2 }),
+      ];
+
+      expect(await new WatchlistService().claimLegacyWatchlists()).toBe(1);
+
+      const owners = Object.fromEntries(state.watchlists.map((w) => [w.id, w.ownerWallet]));
+      expect(owners).toEqual({
+        mine: ALICE,
+        'legacy-1': LEGACY_WATCHLIST_OWNER,
+        'legacy-2': ALICE,
+      });
+    });
+  });
+});
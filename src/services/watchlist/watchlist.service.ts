@@ -1,79 +1,99 @@
+import { randomBytes } from 'node:crypto';
 import { WatchlistRepository } from '../../adapters/database/repositories/watchlist.repository.js';
-import type {
-  WatchlistRecord,
-  WatchlistWithMarkets,
-  CreateWatchlistInput,
-  UpdateWatchlistInput,
-  ToggleMarketResult,
+import { MarketRepository } from '../../adapters/database/repositories/market.repository.js';
+import { InstrumentRepository } from '../../adapters/database/repositories/instrument.repository.js';
+import { getEnvironment } from '../../config/environment.js';
+import { getLogger } from '../../utils/logger.js';
+import { NotFoundError, ValidationError } from '../../utils/errors.js';
+import {
+  LEGACY_WATCHLIST_OWNER,
+  type WatchlistRecord,
+  type WatchlistWithItems,
+  type WatchlistTargetType,
+  type SharedWatchlistView,
+  type CreateWatchlistInput,
+  type UpdateWatchlistInput,
+  type ToggleItemResult,
 } from '../../types/watchlist.types.js';
 
 /**
  * Watchlist Service
- * Business logic for watchlist-related operations
+ * Business logic for a wallet's watchlists and their read-only share links
  */
 export class WatchlistService {
   private watchlistRepo: WatchlistRepository;
+  private marketRepo: MarketRepository;
+  private instrumentRepo: InstrumentRepository;
+  private logger;
 
   constructor() {
     this.watchlistRepo = new WatchlistRepository();
+    this.marketRepo = new MarketRepository();
+    this.instrumentRepo = new InstrumentRepository();
+    this.logger = getLogger();
   }
 
   /**
-   * Get all watchlists
+   * Get all watchlists for a wallet
    */
-  async getAllWatchlists(): Promise<WatchlistRecord[]> {
-    return this.watchlistRepo.findAll();
+  async getWatchlists(ownerWallet: string): Promise<WatchlistRecord[]> {
+    return this.watchlistRepo.findByOwner(ownerWallet);
   }
 
   /**
-   * Get a watchlist by ID
+   * Get a wallet's watchlist with all its items
    */
-  async getWatchlistById(id: string): Promise<WatchlistRecord | null> {
-    return this.watchlistRepo.findById(id);
+  async getWatchlistWithItems(ownerWallet: string, id: string): Promise<WatchlistWithItems> {
+    await this.getOwnedWatchlist(ownerWallet, id);
+
+    const watchlist = await this.watchlistRepo.findByIdWithItems(id);
+    if (!watchlist) {
+      throw new NotFoundError('Watchlist', id);
+    }
+    return watchlist;
   }
 
   /**
-   * Get a watchlist with all its markets
+   * Get a watchlist through its read-only share link
    */
-  async getWatchlistWithMarkets(id: string): Promise<WatchlistWithMarkets | null> {
-    return this.watchlistRepo.findByIdWithMarkets(id);
+  async getSharedWatchlist(shareToken: string): Promise<SharedWatchlistView> {
+    const watchlist = await this.watchlistRepo.findByShareToken(shareToken);
+    if (!watchlist) {
+      throw new NotFoundError('Shared watchlist');
+    }
+
+    return {
+      id: watchlist.id,
+      name: watchlist.name,
+      sortOrder: watchlist.sortOrder,
+      createdAt: watchlist.createdAt,
+      updatedAt: watchlist.updatedAt,
+      items: watchlist.items,
+    };
   }
 
   /**
    * Create a new watchlist
-   * Validates that sortOrder is between 1-9
+   * Validates that sortOrder is between 1-9 and free for this wallet
    */
-  async createWatchlist(input: CreateWatchlistInput): Promise<WatchlistRecord> {
-    // Validate sortOrder range
-    if (input.sortOrder < 1 || input.sortOrder > 9) {
-      throw new Error('sortOrder must be between 1 and 9');
-    }
-
-    // Check if sortOrder is already taken
-    const existing = await this.watchlistRepo.findBySortOrder(input.sortOrder);
-    if (existing) {
-      throw new Error(`A watchlist with sortOrder ${input.sortOrder} already exists`);
-    }
-
-    return this.watchlistRepo.create(input);
+  async createWatchlist(ownerWallet: string, input: CreateWatchlistInput): Promise<WatchlistRecord> {
+    await this.validateSortOrder(ownerWallet, input.sortOrder);
+    return this.watchlistRepo.create(ownerWallet, input);
   }
 
   /**
    * Update a watchlist
    * Validates sortOrder if provided
    */
-  async updateWatchlist(id: string, input: UpdateWatchlistInput): Promise<WatchlistRecord | null> {
-    // Validate sortOrder range if provided
-    if (input.sortOrder !== undefined) {
-      if (input.sortOrder < 1 || input.sortOrder > 9) {
-        throw new Error('sortOrder must be between 1 and 9');
-      }
+  async updateWatchlist(
+    ownerWallet: string,
+    id: string,
+    input: UpdateWatchlistInput,
+  ): Promise<WatchlistRecord> {
+    await this.getOwnedWatchlist(ownerWallet, id);
 
-      // Check if sortOrder is already taken by another watchlist
-      const existing = await this.watchlistRepo.findBySortOrder(input.sortOrder);
-      if (existing && existing.id !== id) {
-        throw new Error(`A watchlist with sortOrder ${input.sortOrder} already exists`);
-      }
+    if (input.sortOrder !== undefined) {
+      await this.validateSortOrder(ownerWallet, input.sortOrder, id);
     }
 
     return this.watchlistRepo.update(id, input);
@@ -82,23 +102,109 @@ export class WatchlistService {
   /**
    * Delete a watchlist
    */
-  async deleteWatchlist(id: string): Promise<boolean> {
-    return this.watchlistRepo.delete(id);
+  async deleteWatchlist(ownerWallet: string, id: string): Promise<void> {
+    await this.getOwnedWatchlist(ownerWallet, id);
+    await this.watchlistRepo.delete(id);
+  }
+
+  /**
+   * Create a read-only share link, replacing any existing one
+   */
+  async shareWatchlist(ownerWallet: string, id: string): Promise<WatchlistRecord> {
+    await this.getOwnedWatchlist(ownerWallet, id);
+    return this.watchlistRepo.setShareToken(id, randomBytes(24).toString('base64url'));
   }
 
   /**
-   * Toggle market membership in a watchlist
-   * Returns true if market was added, false if removed
+   * Revoke the share link; previously shared URLs stop resolving
    */
-  async toggleMarket(watchlistId: string, marketId: string): Promise<ToggleMarketResult> {
-    const added = await this.watchlistRepo.toggleMarket(watchlistId, marketId);
+  async unshareWatchlist(ownerWallet: string, id: string): Promise<WatchlistRecord> {
+    await this.getOwnedWatchlist(ownerWallet, id);
+    return this.watchlistRepo.setShareToken(id, null);
+  }
+
+  /**
+   * Toggle a market or instrument in a watchlist
+   * Returns true if it was added, false if removed
+   */
+  async toggleItem(
+    ownerWallet: string,
+    watchlistId: string,
+    targetType: WatchlistTargetType,
+    targetId: string,
+  ): Promise<ToggleItemResult> {
+    await this.getOwnedWatchlist(ownerWallet, watchlistId);
+    await this.assertTargetExists(targetType, targetId);
+
+    const added = await this.watchlistRepo.toggleItem(watchlistId, { type: targetType, id: targetId });
     return { added };
   }
 
   /**
-   * Get all watchlists that contain a specific market
+   * Get a wallet's watchlists that contain a specific market or instrument
+   */
+  async getWatchlistsContaining(
+    ownerWallet: string,
+    targetType: WatchlistTargetType,
+    targetId: string,
+  ): Promise<WatchlistRecord[]> {
+    return this.watchlistRepo.findByOwnerContaining(ownerWallet, { type: targetType, id: targetId });
+  }
+
+  /**
+   * Hand watchlists created before per-wallet ownership to WATCHLIST_DEFAULT_OWNER.
+   * Safe to run on every startup; lists whose slot the owner already uses stay unassigned.
    */
-  async getWatchlistsForMarket(marketId: string): Promise<WatchlistRecord[]> {
-    return this.watchlistRepo.findWatchlistsForMarket(marketId);
+  async claimLegacyWatchlists(): Promise<number> {
+    const defaultOwner = getEnvironment().WATCHLIST_DEFAULT_OWNER;
+    if (!defaultOwner) {
+      return 0;
+    }
+
+    const moved = await this.watchlistRepo.reassignOwner(LEGACY_WATCHLIST_OWNER, defaultOwner);
+    const remaining = await this.watchlistRepo.findByOwner(LEGACY_WATCHLIST_OWNER);
+
+    if (moved > 0 || remaining.length > 0) {
+      this.logger.info(
+        { owner: defaultOwner, moved, unassigned: remaining.length },
+        'Assigned legacy watchlists to default owner',
+      );
+    }
+
+    return moved;
+  }
+
+  private async getOwnedWatchlist(ownerWallet: string, id: string): Promise<WatchlistRecord> {
+    const watchlist = await this.watchlistRepo.findByIdForOwner(id, ownerWallet);
+    if (!watchlist) {
+      throw new NotFoundError('Watchlist', id);
+    }
+    return watchlist;
+  }
+
+  private async validateSortOrder(ownerWallet: string, sortOrder: number, currentId?: string): Promise<void> {
+    if (sortOrder < 1 || sortOrder > 9) {
+      throw new ValidationError('sortOrder must be between 1 and 9');
+    }
+
+    const existing = await this.watchlistRepo.findBySortOrder(ownerWallet, sortOrder);
+    if (existing && existing.id !== currentId) {
+      throw new ValidationError(`A watchlist with sortOrder ${sortOrder} already exists`);
+    }
+  }
+
+  private async assertTargetExists(targetType: WatchlistTargetType, targetId: string): Promise<void> {
+    if (targetType === 'market') {
+      const market = await this.marketRepo.findById(targetId);
+      if (!market) {
+        throw new NotFoundError('Market', targetId);
+      }
+      return;
+    }
+
+    const instrument = await this.instrumentRepo.findById(targetId);
+    if (!instrument) {
+      throw new NotFoundError('Instrument', targetId);
+    }
   }
 }
@@ -0,0 +1,90 @@
+/**
+ * Type definitions for signal alert subscriptions
+ */
+
+import { SignalRecord, SignalSeverity, SignalType } from './edgar.types.js';
+
+export type AlertChannel = 'webhook' | 'websocket';
+
+export type AlertDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'failed';
+
+export interface AlertRuleRecord {
+  id: string;
+  walletAddress: string;
+  name: string;
+  signalTypes: SignalType[]; // Empty = all signal types
+  minSeverity: SignalSeverity;
+  instrumentIds: string[] | null; // null = all instruments
+  watchlistId: string | null; // Instruments on this watchlist; null = no watchlist scope
+  minScore: number | null;
+  webhookUrl: string | null;
+  websocketEnabled: boolean;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Rule as loaded for delivery (includes the webhook signing secret)
+ */
+export interface AlertRuleWithSecret extends AlertRuleRecord {
+  webhookSecret: string | null;
+}
+
+export interface CreateAlertRuleInput {
+  name: string;
+  signalTypes?: SignalType[];
+  minSeverity?: SignalSeverity;
+  instrumentIds?: string[] | null;
+  watchlistId?: string | null;
+  minScore?: number | null;
+  webhookUrl?: string | null;
+  websocketEnabled?: boolean;
+  enabled?: boolean;
+}
+
+export type UpdateAlertRuleInput = Partial<CreateAlertRuleInput>;
+
+export interface AlertDeliveryRecord {
+  id: string;
+  ruleId: string;
+  signalId: string;
+  channel: AlertChannel;
+  status: AlertDeliveryStatus;
+  payload: SignalAlertPayload;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+}
+
+export interface AlertDeliveryFilters {
+  ruleId?: string;
+  status?: AlertDeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Body sent to webhooks and over the `alerts` WebSocket channel
+ */
+export interface SignalAlertPayload {
+  type: 'signal_alert';
+  alertId: string;
+  ruleId: string;
+  ruleName: string;
+  trigger: 'created' | 'escalated';
+  signal: SignalRecord;
+  timestamp: string;
+}
+
+/**
+ * Emitted by SignalRepository whenever a signal row is written
+ */
+export interface SignalPersistedEvent {
+  signal: SignalRecord;
+  created: boolean;
+  previousSeverity: SignalSeverity | null;
+}
@@ -0,0 +1,75 @@
+/**
+ * Type definitions for cross-market arbitrage and overround detection
+ */
+
+import type { MarketOutcome } from './market-data.types.js';
+
+export type ArbitrageKind =
+  | 'BOOK_UNDERPRICED' // YES ask + NO ask < 1: buy both, redeem the full set for 1
+  | 'BOOK_OVERPRICED' // YES bid + NO bid > 1: split 1 into a full set, sell both
+  | 'EVENT_UNDERPRICED' // YES asks of a mutually exclusive event sum below 1
+  | 'EVENT_OVERPRICED'; // YES bids of a mutually exclusive event sum above 1
+
+export const ARBITRAGE_KINDS: ArbitrageKind[] = [
+  'BOOK_UNDERPRICED',
+  'BOOK_OVERPRICED',
+  'EVENT_UNDERPRICED',
+  'EVENT_OVERPRICED',
+];
+
+export type ArbitrageStatus = 'open' | 'closed';
+
+export interface BookLevel {
+  price: string;
+  size: string;
+}
+
+/**
+ * One side of a book, best level first
+ */
+export type BookLadder = BookLevel[];
+
+export interface ArbitrageLeg {
+  marketId: string;
+  outcome: MarketOutcome;
+  side: 'buy' | 'sell';
+  price: string; // Best level
+  size: string; // Size available at the best level
+}
+
+export interface DetectedOpportunity {
+  kind: ArbitrageKind;
+  key: string; // Stable identity while the mispricing persists, e.g. "BOOK_UNDERPRICED:<marketId>"
+  eventId: string | null;
+  marketIds: string[];
+  legs: ArbitrageLeg[];
+  priceSum: number; // Sum of the legs' best prices
+  edge: number; // Per-share edge at the best levels
+  executableSize: number; // Full sets tradeable before the edge disappears
+  expectedProfit: number; // Profit over executableSize, walking the books
+  sizeAdjustedEdge: number; // expectedProfit / executableSize
+}
+
+export interface ArbitrageOpportunityRecord extends DetectedOpportunity {
+  id: string;
+  status: ArbitrageStatus;
+  detectedAt: Date;
+  updatedAt: Date;
+  closedAt: Date | null;
+}
+
+export interface ArbitrageFilters {
+  status?: ArbitrageStatus;
+  kind?: ArbitrageKind;
+  marketId?: string;
+  eventId?: string;
+  minEdge?: number; // On sizeAdjustedEdge
+  limit?: number;
+  offset?: number;
+}
+
+export interface ArbitrageEventPayload {
+  type: 'arbitrage_opened' | 'arbitrage_updated' | 'arbitrage_closed';
+  opportunity: ArbitrageOpportunityRecord;
+  timestamp: Date;
+}
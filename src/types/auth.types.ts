@@ -15,3 +15,43 @@ export interface NonceResponse {
   timestamp: number;
   message: string;
 }
+
+export interface AccessTokenClaims {
+  sub: string; // Wallet address (lowercase)
+  sid: string; // Session ID
+  iat: number; // Seconds since epoch
+  exp: number; // Seconds since epoch
+}
+
+export interface AuthSessionRecord {
+  id: string;
+  walletAddress: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
+
+export interface LoginRequest {
+  wallet: string;
+  signature: `0x${string}`;
+}
+
+export interface SessionTokens {
+  tokenType: 'Bearer';
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+  sessionId: string;
+}
+
+/**
+ * Wallet proven by authMiddleware, via a signed nonce or an access token
+ */
+export interface AuthContext {
+  wallet: string;
+  sessionId: string | null; // null for one-off signature auth
+}
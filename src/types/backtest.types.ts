@@ -0,0 +1,99 @@
+/**
+ * Type definitions for signal backtesting
+ */
+
+import { FactorType } from './document.types.js';
+import { SignalSeverity, SignalType } from './edgar.types.js';
+
+/**
+ * Direction a signal expects the instrument to move relative to the benchmark.
+ * `magnitude` signals (volatility, catalysts, ETF stress) predict a large move
+ * without predicting its sign.
+ */
+export type SignalDirection = 'up' | 'down' | 'magnitude';
+
+export interface SignalBacktestRequest {
+  signalTypes?: SignalType[];
+  severities?: SignalSeverity[];
+  instrumentIds?: string[];
+  minScore?: number;
+  from?: string; // ISO date, inclusive (signal computedAt)
+  to?: string; // ISO date, inclusive (signal computedAt)
+  horizons?: number[]; // Trading days, default [1, 5, 20]
+  benchmark?: FactorType; // Default INDEX_SPX
+  limit?: number; // Max signals replayed
+}
+
+export interface SignalBacktestQuery {
+  signalTypes?: SignalType[];
+  severities?: SignalSeverity[];
+  instrumentIds?: string[];
+  minScore?: number;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+/**
+ * Daily close used for forward-return calculation
+ */
+export interface PricePoint {
+  timestamp: Date;
+  endTime: Date;
+  close: number;
+}
+
+/**
+ * Realised outcome of one signal at one horizon
+ */
+export interface SignalOutcome {
+  signalId: string;
+  instrumentId: string;
+  signalType: SignalType;
+  severity: SignalSeverity;
+  direction: SignalDirection;
+  horizon: number;
+  entryTime: Date;
+  exitTime: Date;
+  forwardReturn: number;
+  benchmarkReturn: number | null;
+  excessReturn: number | null;
+  hit: boolean;
+}
+
+export interface HorizonStats {
+  count: number;
+  meanReturn: number | null;
+  medianReturn: number | null;
+  meanExcessReturn: number | null;
+  hitRate: number | null;
+}
+
+export type HorizonStatsMap = Record<string, HorizonStats>; // Keyed by horizon, e.g. "5d"
+
+export interface SignalBacktestResult {
+  parameters: {
+    signalTypes: SignalType[] | null;
+    severities: SignalSeverity[] | null;
+    instrumentIds: string[] | null;
+    minScore: number | null;
+    from: string | null;
+    to: string | null;
+    horizons: number[];
+    benchmark: FactorType;
+  };
+  benchmark: {
+    factorType: FactorType;
+    symbol: string | null;
+    instrumentId: string | null;
+    available: boolean;
+  };
+  coverage: {
+    signalsReplayed: number;
+    signalsWithPrices: number;
+    signalsWithoutCandles: number;
+  };
+  overall: HorizonStatsMap;
+  bySignalType: Record<string, { signals: number; horizons: HorizonStatsMap }>;
+  bySeverity: Record<string, { signals: number; horizons: HorizonStatsMap }>;
+}
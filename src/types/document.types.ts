@@ -117,6 +117,32 @@ export interface InstrumentClassificationRecord {
   updatedAt: Date;
 }
 
+/**
+ * SAME_INDUSTRY/SAME_SECTOR come from classification alone; the rest from
+ * peer discovery (return correlation, 10-K Competition sections, news
+ * co-mentions)
+ */
+export type CompetitorRelationshipType =
+  | 'SAME_INDUSTRY'
+  | 'SAME_SECTOR'
+  | 'PRICE_CORRELATED'
+  | 'NAMED_COMPETITOR'
+  | 'CO_MENTIONED';
+
+/**
+ * Per-source evidence behind a discovered peer
+ */
+export interface PeerEvidence {
+  /** Pearson correlation of daily returns over the window */
+  correlation?: number;
+  correlationObservations?: number;
+  /** News documents linked to both instruments */
+  coMentions?: number;
+  /** Matcher confidence of the name found in the 10-K Competition section */
+  namedConfidence?: number;
+  namedAccessionNumber?: string;
+}
+
 export interface CompetitorRelationshipRecord {
   id: string;
   instrumentId: string;
@@ -124,6 +150,7 @@ export interface CompetitorRelationshipRecord {
   relationshipType: string;
   confidence: string;
   rationale: string | null;
+  evidence: PeerEvidence | null;
   discoveredAt: Date;
   updatedAt: Date;
 }
@@ -138,6 +165,13 @@ export interface FactorExposureRecord {
   rationale: string | null;
   discoveredAt: Date;
   updatedAt: Date;
+  beta: string | null;
+  betaStdError: string | null;
+  rSquared: string | null;
+  betaObservations: number | null;
+  betaWindowDays: number | null;
+  betaEstimatedAt: Date | null;
+  betaDisagreement: string | null;
 }
 
 export interface SyncWatermarkRecord {
@@ -209,6 +243,7 @@ export interface CreateCompetitorRelationshipInput {
   relationshipType: string;
   confidence?: number;
   rationale?: string;
+  evidence?: PeerEvidence;
 }
 
 export interface CreateFactorExposureInput {
@@ -281,6 +316,8 @@ export interface ConnectionCompetitor {
   symbol: string;
   relationshipType: string;
   confidence: number;
+  rationale: string | null;
+  evidence: PeerEvidence | null;
   discoveredAt: string;
 }
 
@@ -291,6 +328,17 @@ export interface ConnectionFactorExposure {
   magnitude: number;
   confidence: number;
   discoveredAt: string;
+  realized: ConnectionFactorBeta | null;
+}
+
+export interface ConnectionFactorBeta {
+  beta: number;
+  rSquared: number;
+  stdError: number;
+  observations: number;
+  windowDays: number;
+  estimatedAt: string;
+  disagreement: string | null;
 }
 
 export interface ConnectionMetadata {
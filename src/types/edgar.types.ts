@@ -8,6 +8,11 @@ export enum FilingType {
   PROXY_DEF14A = 'PROXY_DEF14A',
   FORM_N_CEN = 'FORM_N_CEN',
   FORM_N_PORT = 'FORM_N_PORT',
+  FORM_3 = 'FORM_3',
+  FORM_4 = 'FORM_4',
+  FORM_5 = 'FORM_5',
+  SC_13D = 'SC_13D',
+  SC_13G = 'SC_13G',
   OTHER = 'OTHER',
 }
 
@@ -75,6 +80,10 @@ export enum SignalType {
   DISTRESS_RISK = 'DISTRESS_RISK',
   VOLATILITY_SPIKE = 'VOLATILITY_SPIKE',
 
+  // Ownership signals (Forms 3/4/5, Schedules 13D/13G)
+  INSIDER_CLUSTER_SELLING = 'INSIDER_CLUSTER_SELLING',
+  ACTIVIST_STAKE_CROSSED = 'ACTIVIST_STAKE_CROSSED',
+
   // Earnings signals
   LIQUIDITY_STRESS_CALL = 'LIQUIDITY_STRESS_CALL',
   CAPITAL_RAISE_IMMINENT = 'CAPITAL_RAISE_IMMINENT',
@@ -128,6 +137,9 @@ export enum SignalType {
   ETF_DISCLOSURE_REPEATED_PREM_DISC_EPISODES = 'ETF_DISCLOSURE_REPEATED_PREM_DISC_EPISODES',
   ETF_STRATEGY_DRIFT_INDICATOR = 'ETF_STRATEGY_DRIFT_INDICATOR',
   ETF_BASKET_POLICY_CHANGE_SIGNAL = 'ETF_BASKET_POLICY_CHANGE_SIGNAL',
+
+  // ETF Constituent signals (propagated through N-PORT holdings)
+  ETF_CONSTITUENT_STRESS = 'ETF_CONSTITUENT_STRESS',
 }
 
 export enum SignalSeverity {
@@ -166,6 +178,99 @@ export interface FilingContentRecord {
   parsedAt: Date;
 }
 
+export enum FinancialMetric {
+  CASH = 'CASH',
+  REVENUE = 'REVENUE',
+  NET_INCOME = 'NET_INCOME',
+  OPERATING_CASH_FLOW = 'OPERATING_CASH_FLOW',
+  SHARES_OUTSTANDING = 'SHARES_OUTSTANDING',
+  TOTAL_ASSETS = 'TOTAL_ASSETS',
+  TOTAL_LIABILITIES = 'TOTAL_LIABILITIES',
+  CURRENT_ASSETS = 'CURRENT_ASSETS',
+  CURRENT_LIABILITIES = 'CURRENT_LIABILITIES',
+  STOCKHOLDERS_EQUITY = 'STOCKHOLDERS_EQUITY',
+  DEBT_CURRENT = 'DEBT_CURRENT',
+  DEBT_NONCURRENT = 'DEBT_NONCURRENT',
+  TOTAL_DEBT = 'TOTAL_DEBT',
+}
+
+/**
+ * Tagged value extracted from a filing's XBRL (before persistence)
+ */
+export interface XbrlFinancialFact {
+  metric: FinancialMetric;
+  concept: string;
+  value: number;
+  unit: string;
+  periodStart: Date;
+  periodEnd: Date;
+  fiscalYear: number | null;
+  fiscalPeriod: string | null;
+}
+
+export interface FinancialFactRecord extends XbrlFinancialFact {
+  id: string;
+  filingId: string;
+  cik: string;
+  extractedAt: Date;
+}
+
+export enum InsiderTransactionDirection {
+  BUY = 'BUY',
+  SELL = 'SELL',
+}
+
+/**
+ * Open-market purchase or sale reported on Form 4/5 (before persistence)
+ */
+export interface ParsedInsiderTransaction {
+  issuerCik: string;
+  ownerCik: string;
+  ownerName: string;
+  isDirector: boolean;
+  isOfficer: boolean;
+  isTenPercentOwner: boolean;
+  officerTitle: string | null;
+  securityTitle: string;
+  transactionDate: Date;
+  transactionCode: string; // SEC code: P = open-market purchase, S = open-market sale
+  direction: InsiderTransactionDirection;
+  shares: number;
+  pricePerShare: number | null;
+  sharesOwnedAfter: number | null;
+}
+
+export interface InsiderTransactionRecord extends ParsedInsiderTransaction {
+  id: string;
+  filingId: string;
+  instrumentId: string;
+  formType: string;
+  createdAt: Date;
+}
+
+/**
+ * Beneficial ownership reported on Schedule 13D/13G (before persistence)
+ */
+export interface ParsedOwnershipStake {
+  subjectCik: string;
+  filerCik: string | null;
+  filerName: string | null;
+  isActivist: boolean; // 13D filers may seek to influence control; 13G filers are passive
+  isAmendment: boolean;
+  percentOfClass: number;
+  sharesOwned: number | null;
+  eventDate: Date | null;
+}
+
+export interface OwnershipStakeRecord extends ParsedOwnershipStake {
+  id: string;
+  filingId: string;
+  instrumentId: string;
+  formType: string;
+  filingDate: Date;
+  createdAt: Date;
+}
+
 export interface FilingFactRecord {
   id: string;
   filingId: string;
@@ -185,7 +290,8 @@ export interface SignalRecord {
   reason: string;
   evidenceFacts: string[];
   sourceFiling: string | null;
-  computedAt: Date;
+  computedAt: Date; // Last (re)computation, refreshed by every upsert
+  firstSeenAt: Date | null; // First emission; null for rows predating the column
   expiresAt: Date | null;
 }
 
@@ -101,17 +101,116 @@ export interface PremiumDiscountStats {
   sampleSize: number;
 }
 
+/**
+ * Liquidity bucket assigned to a holding
+ */
+export type LiquidityBucket = 'HIGHLY_LIQUID' | 'MODERATELY_LIQUID' | 'ILLIQUID';
+
 /**
  * Holding from N-PORT filing
  */
 export interface NPortHolding {
   name: string;
+  title?: string;
+  lei?: string;
   cusip?: string;
   isin?: string;
+  ticker?: string;
   shares: Decimal;
+  units?: string;
   price: Decimal;
   value: Decimal;
   percentOfNav?: number;
+  assetCategory?: string;
+  issuerCategory?: string;
+  country?: string;
+  fairValueLevel?: number;
+  liquidityBucket?: LiquidityBucket;
+}
+
+/**
+ * ETF Holding Record
+ * One line of an ETF's N-PORT portfolio, optionally resolved to the held instrument
+ */
+export interface EtfHoldingRecord {
+  id: string;
+  instrumentId: string;
+  filingId: string;
+  asOfDate: Date;
+  position: number;
+  issuerName: string;
+  title: string | null;
+  lei: string | null;
+  cusip: string | null;
+  isin: string | null;
+  ticker: string | null;
+  balance: string | null;
+  units: string | null;
+  valueUsd: string;
+  pctOfNav: number | null;
+  assetCategory: string | null;
+  issuerCategory: string | null;
+  country: string | null;
+  fairValueLevel: number | null;
+  liquidityBucket: LiquidityBucket | null;
+  underlyingInstrumentId: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Input for storing a filing's holdings
+ */
+export type CreateEtfHoldingInput = Omit<EtfHoldingRecord, 'id' | 'createdAt'>;
+
+/**
+ * Share of an ETF's portfolio in one liquidity bucket
+ */
+export interface LiquidityExposure {
+  liquidityBucket: LiquidityBucket | null; // null when the fair value level wasn't reported
+  valueUsd: string;
+  pctOfPortfolio: number;
+  holdingCount: number;
+}
+
+/**
+ * An ETF's latest holdings with its liquidity breakdown
+ */
+export interface EtfHoldingsView {
+  filingId: string;
+  asOfDate: Date;
+  total: number;
+  totalValueUsd: string;
+  liquidity: LiquidityExposure[];
+  holdings: EtfHoldingRecord[];
+}
+
+/**
+ * An ETF holding a given issuer, from that ETF's latest N-PORT
+ */
+export interface EtfHolderRecord {
+  etfInstrumentId: string;
+  etfSymbol: string;
+  etfName: string;
+  filingId: string;
+  asOfDate: Date;
+  valueUsd: string;
+  pctOfNav: number | null;
+  balance: string | null;
+  units: string | null;
+}
+
+/**
+ * One ETF's current position in an underlying instrument
+ */
+export interface EtfExposureRecord {
+  etfInstrumentId: string;
+  underlyingInstrumentId: string;
+  filingId: string;
+  asOfDate: Date;
+  issuerName: string;
+  valueUsd: string;
+  weight: number; // Fraction of the ETF's portfolio, 0-1
+  liquidityBucket: LiquidityBucket | null;
 }
 
 /**
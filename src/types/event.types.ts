@@ -0,0 +1,67 @@
+import type { Candle } from './market-data.types.js';
+import type { MarketResolution, Orderbook } from './market.types.js';
+
+export interface EventRecord {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  negRisk: boolean; // Sibling markets are mutually exclusive
+  active: boolean;
+  closed: boolean;
+  endDate: Date | null;
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
+export interface UpsertEventInput {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  negRisk: boolean;
+  active: boolean;
+  closed: boolean;
+  endDate: Date | null;
+}
+
+export interface EventOutcome {
+  marketId: string;
+  title: string; // groupItemTitle, falling back to the market question
+  yesPrice: string | null;
+  noPrice: string | null;
+  active: boolean;
+  resolution: MarketResolution | null;
+}
+
+export type ProbabilityStatus =
+  | 'CONSISTENT'
+  | 'OVERPRICED' // YES prices sum above 1 + tolerance
+  | 'UNDERPRICED' // YES prices sum below 1 - tolerance
+  | 'INCOMPLETE' // Some live outcome has no price
+  | 'NOT_EXCLUSIVE'; // Outcomes can co-occur, the sum has no target
+
+export interface ProbabilityCheck {
+  status: ProbabilityStatus;
+  sum: number | null; // Sum of YES prices over live outcomes
+  deviation: number | null; // sum - 1
+  pricedOutcomes: number;
+  liveOutcomes: number;
+}
+
+export interface EventDetail extends EventRecord {
+  outcomes: EventOutcome[];
+  probability: ProbabilityCheck;
+}
+
+export interface EventCandles {
+  marketId: string;
+  title: string;
+  candles: Candle[];
+}
+
+export interface EventOrderbook {
+  marketId: string;
+  title: string;
+  orderbook: Orderbook | null;
+}
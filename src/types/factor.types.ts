@@ -0,0 +1,87 @@
+/**
+ * Type definitions for factor price series (gold, oil, SPX, VIX, 10Y, DXY, ...)
+ */
+
+import { FactorType } from './document.types.js';
+
+/**
+ * Intraday ('1h') series back change-window calculations; daily ('1d')
+ * series are kept indefinitely
+ */
+export type FactorInterval = '1h' | '1d';
+
+export const FACTOR_INTERVALS: FactorInterval[] = ['1h', '1d'];
+
+export type FactorCandleSource = 'tradingview' | 'csv';
+
+export interface FactorCandle {
+  factorType: FactorType;
+  interval: FactorInterval;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  timestamp: Date;
+  endTime: Date;
+  source: FactorCandleSource;
+}
+
+export interface FactorPriceChange {
+  factorType: FactorType;
+  previousPrice: number;
+  currentPrice: number;
+  changePct: number;
+  /** Start time of the latest candle */
+  timestamp: Date;
+  /** Start time of the candle the change is measured from */
+  previousTimestamp: Date;
+}
+
+export interface FactorSyncResult {
+  source: string;
+  candlesStored: number;
+  intradayPruned: number;
+  errors: number;
+}
+
+/**
+ * Factor candle as returned by the API (one per timestamp after merging sources)
+ */
+export interface FactorCandleOutput {
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  startTime: Date;
+  endTime: Date;
+  source: string;
+}
+
+/**
+ * How a realized beta disagrees with the keyword-mapped exposure
+ */
+export type FactorBetaDisagreement = 'SIGN_MISMATCH' | 'NOT_SIGNIFICANT';
+
+/**
+ * Beta of an instrument's daily returns on a factor's daily returns (or
+ * daily changes for rate factors) over a trailing window
+ */
+export interface FactorBetaEstimate {
+  beta: number;
+  rSquared: number;
+  stdError: number;
+  observations: number;
+  windowDays: number;
+  estimatedAt: Date;
+  disagreement: FactorBetaDisagreement | null;
+}
+
+export interface FactorBetaRunResult {
+  instrumentsProcessed: number;
+  exposuresEstimated: number;
+  exposuresFlagged: number;
+  skippedInsufficientData: number;
+  errors: number;
+}
@@ -0,0 +1,105 @@
+/**
+ * Macro economic calendar types
+ */
+
+import type { FactorType } from './document.types.js';
+import type { SignalSeverity, SignalType } from './edgar.types.js';
+
+export const MACRO_SERIES = [
+  'FED_FUNDS_RATE',
+  'CPI_YOY',
+  'CORE_CPI_MOM',
+  'NONFARM_PAYROLLS',
+  'UNEMPLOYMENT_RATE',
+  'INDUSTRIAL_PRODUCTION_MOM',
+] as const;
+
+export type MacroSeries = (typeof MACRO_SERIES)[number];
+
+export const MACRO_IMPORTANCE = ['LOW', 'MEDIUM', 'HIGH'] as const;
+
+export type MacroImportance = (typeof MACRO_IMPORTANCE)[number];
+
+export interface MacroReleaseRecord {
+  id: string;
+  series: MacroSeries;
+  period: string;
+  releaseAt: Date;
+  importance: MacroImportance;
+  consensus: string | null;
+  previous: string | null;
+  actual: string | null;
+  surprise: string | null;
+  standardizedSurprise: string | null;
+  source: string;
+  documentId: string | null;
+  processedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Calendar entry as imported or fetched. Omitted values leave the stored
+ * value unchanged; a changed actual queues the release for reprocessing.
+ */
+export interface UpsertMacroReleaseInput {
+  series: MacroSeries;
+  period: string;
+  releaseAt: Date;
+  importance?: MacroImportance;
+  consensus?: number | null;
+  previous?: number | null;
+  actual?: number | null;
+  source?: string;
+}
+
+export interface MacroCalendarFilters {
+  from: Date;
+  to: Date;
+  series?: MacroSeries;
+  limit?: number;
+}
+
+/**
+ * A released value with its surprise, ready for fan-out
+ */
+export interface MacroSurprise {
+  releaseId: string;
+  series: MacroSeries;
+  period: string;
+  releaseAt: Date;
+  actual: number;
+  consensus: number;
+  surprise: number;
+  standardizedSurprise: number;
+}
+
+/**
+ * Exposure as needed by the fan-out: the factor sign the instrument moves
+ * with and how strongly
+ */
+export interface MacroExposure {
+  instrumentId: string;
+  factorType: FactorType;
+  sign: 1 | -1;
+  magnitude: number;
+}
+
+export interface MacroSignalCandidate {
+  instrumentId: string;
+  signalType: SignalType;
+  severity: SignalSeverity;
+  score: number;
+  reason: string;
+  releaseId: string;
+  factorType: FactorType;
+  expiresAt: Date;
+}
+
+export interface MacroCalendarRunResult {
+  fetched: number;
+  released: number;
+  surpriseSignals: number;
+  upcomingSignals: number;
+  errors: number;
+}
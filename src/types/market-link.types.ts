@@ -0,0 +1,70 @@
+/**
+ * Type definitions for market ↔ instrument links
+ */
+
+export type MarketLinkStatus = 'proposed' | 'confirmed' | 'rejected';
+
+/**
+ * How a link was found:
+ * - CASHTAG: "$NVDA" in the question
+ * - SYMBOL: bare ticker in the question ("Will NVDA close above $150?")
+ * - NAME: company name (or a former name) in the question
+ * - SLUG: ticker or name in the market slug
+ * - CATEGORY: category tag names the company
+ * - MANUAL: created by an override, not by the matcher
+ */
+export type MarketLinkMatchMethod = 'CASHTAG' | 'SYMBOL' | 'NAME' | 'SLUG' | 'CATEGORY' | 'MANUAL';
+
+export interface MarketInstrumentLinkRecord {
+  id: string;
+  marketId: string;
+  instrumentId: string;
+  confidence: string;
+  matchMethods: MarketLinkMatchMethod[];
+  evidence: string | null;
+  status: MarketLinkStatus;
+  manualOverride: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProposedMarketLinkInput {
+  marketId: string;
+  instrumentId: string;
+  confidence: number;
+  matchMethods: MarketLinkMatchMethod[];
+  evidence: string | null;
+}
+
+export interface LinkedMarketSummary {
+  id: string;
+  question: string;
+  marketSlug: string;
+  categoryTag: string | null;
+  yesPrice: string | null;
+  noPrice: string | null;
+  expiryDate: Date;
+  active: boolean;
+}
+
+export interface LinkedInstrumentSummary {
+  id: string;
+  type: string;
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  lastPrice: string | null;
+}
+
+export type InstrumentMarketLink = MarketInstrumentLinkRecord & { market: LinkedMarketSummary };
+
+export type MarketInstrumentLink = MarketInstrumentLinkRecord & {
+  instrument: LinkedInstrumentSummary;
+};
+
+export interface MarketLinkRunResult {
+  marketsScanned: number;
+  linksProposed: number;
+  linksRemoved: number;
+  errors: number;
+}
@@ -12,12 +12,24 @@ export interface Market {
   yesPrice: string | null;
   noPrice: string | null;
   completedEarly: boolean;
+  eventId?: string | null; // Polymarket event grouping sibling markets
+  resolution?: MarketResolution | null;
   createdAt: Date;
   lastUpdated: Date;
 }
 
+export type ResolutionSource = 'gamma' | 'onchain';
+
+export interface MarketResolution {
+  outcome: string | null; // Canonical winning outcome; null when payouts are split
+  payouts: Record<string, number>; // Canonical outcome -> payout per share (0-1)
+  resolvedAt: Date;
+  source: ResolutionSource;
+}
+
 export interface MarketRecord extends Market {
   polymarketMarketId: string | null;
+  groupItemTitle?: string | null;
   volume: string | null;
   lastIndexedBlock: string | null;
   imageUrl?: string | null;
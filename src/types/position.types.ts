@@ -1,6 +1,7 @@
-import { Outcome } from './trade.types.js';
+import { Outcome, TradingAccount } from './trade.types.js';
 
 export interface Position {
+  account: TradingAccount;
   walletAddress: string;
   marketId: string;
   outcome: Outcome;
@@ -8,11 +9,58 @@ export interface Position {
   size: string;
   realizedPnl: string;
   unrealizedPnl: string;
+  settlementPrice: string | null;
+  settledAt: Date | null;
   lastTradeAt: Date;
   updatedAt: Date;
 }
 
 export interface PositionListResponse {
+  account: TradingAccount;
   positions: Position[];
   totalPnl: string;
 }
+
+export interface ExposureBucket {
+  key: string;
+  marketValue: string;
+  share: number; // fraction of total open market value
+  positions: number;
+}
+
+export interface EquityPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  realizedPnl: string;
+  unrealizedPnl: string;
+  equity: string; // realized + unrealized
+  marketValue: string;
+}
+
+export interface PortfolioAnalytics {
+  walletAddress: string;
+  account: TradingAccount;
+  asOf: Date;
+  summary: {
+    realizedPnl: string;
+    unrealizedPnl: string;
+    totalPnl: string;
+    marketValue: string;
+    openPositions: number;
+  };
+  exposure: {
+    byCategory: ExposureBucket[];
+    byResolution: ExposureBucket[];
+  };
+  concentration: {
+    herfindahl: number; // sum of squared market shares, 1 = single market
+    largestPositionShare: number;
+    top5Share: number;
+  };
+  winRate: {
+    resolvedPositions: number;
+    wins: number;
+    losses: number;
+    rate: number | null;
+  };
+  equityCurve: EquityPoint[];
+}
@@ -0,0 +1,81 @@
+/**
+ * Regulatory catalyst types (FDA announcements, advisory committees,
+ * ClinicalTrials.gov records)
+ */
+
+import type { SignalSeverity, SignalType } from './edgar.types.js';
+
+export type RegulatoryRecordKind =
+  | 'PRESS_RELEASE' // FDA press release
+  | 'ADVISORY_COMMITTEE' // Advisory committee meeting announcement
+  | 'PDUFA' // PDUFA target action date (file drop)
+  | 'TRIAL_UPDATE'; // ClinicalTrials.gov record update
+
+export type RegulatorySource = 'fda' | 'clinicaltrials.gov' | 'drop';
+
+export type TrialOutcome = 'POSITIVE' | 'NEGATIVE' | 'STOPPED';
+
+export type FdaAction = 'FDA_APPROVAL' | 'FDA_REJECTION' | 'FDA_HOLD';
+
+export interface ClinicalTrialInfo {
+  nctId: string;
+  phase: string | null; // e.g. "PHASE3", "PHASE2/PHASE3"
+  status: string; // ClinicalTrials.gov overall status, e.g. "RECRUITING", "TERMINATED"
+  primaryCompletionDate: Date | null;
+  hasResults: boolean;
+  whyStopped: string | null;
+}
+
+/**
+ * One regulatory item, normalized across feeds and file drops
+ */
+export interface RegulatoryRecord {
+  sourceId: string;
+  documentType: 'FDA_ANNOUNCEMENT' | 'CLINICAL_TRIAL';
+  kind: RegulatoryRecordKind;
+  source: RegulatorySource;
+  title: string;
+  url: string | null;
+  publishedAt: Date;
+  summary: string;
+  sponsor: string | null;
+  tickers: string[];
+  drug: string | null;
+  eventDate: Date | null; // PDUFA date or committee meeting date
+  trial: ClinicalTrialInfo | null;
+}
+
+/**
+ * Stored on Document.metadata for FDA_ANNOUNCEMENT / CLINICAL_TRIAL documents
+ */
+export interface RegulatoryDocumentMetadata {
+  kind: RegulatoryRecordKind;
+  source: RegulatorySource;
+  summary: string;
+  sponsor: string | null;
+  tickers: string[];
+  drug: string | null;
+  eventDate: string | null; // ISO
+  trial:
+    | (Omit<ClinicalTrialInfo, 'primaryCompletionDate'> & {
+        primaryCompletionDate: string | null; // ISO
+      })
+    | null;
+}
+
+export interface CatalystSignal {
+  signalType: SignalType;
+  severity: SignalSeverity;
+  score: number;
+  reason: string;
+  eventDate: Date | null;
+  expiresAt: Date;
+}
+
+export interface RegulatoryIngestionResult {
+  fetched: number;
+  inserted: number;
+  linked: number;
+  dropFilesProcessed: number;
+  errors: number;
+}
@@ -0,0 +1,59 @@
+/**
+ * Type definitions for composite instrument risk scores
+ */
+
+import { SignalSeverity, SignalType } from './edgar.types.js';
+
+export enum RiskCategory {
+  EDGAR = 'EDGAR',
+  EARNINGS = 'EARNINGS',
+  NEWS = 'NEWS',
+  CATALYST = 'CATALYST',
+  PEER_FACTOR = 'PEER_FACTOR',
+  ETF = 'ETF',
+}
+
+export type RiskSubScores = Record<RiskCategory, number>;
+
+export interface RiskContributor {
+  signalId: string;
+  signalType: SignalType;
+  category: RiskCategory;
+  severity: SignalSeverity;
+  signalScore: number;
+  decay: number; // 0-1 time-decay factor applied
+  contribution: number; // Points this signal adds to its category (0-100)
+  computedAt: Date;
+}
+
+export interface RiskScoreResult {
+  score: number;
+  subScores: RiskSubScores;
+  contributors: RiskContributor[];
+  signalCount: number;
+}
+
+export interface RiskScoreRecord extends RiskScoreResult {
+  id: string;
+  instrumentId: string;
+  computedAt: Date;
+}
+
+export interface RiskLeaderboardEntry {
+  instrumentId: string;
+  symbol: string;
+  name: string;
+  type: string;
+  score: number;
+  subScores: RiskSubScores;
+  topContributors: RiskContributor[];
+  signalCount: number;
+  computedAt: Date;
+}
+
+export interface RiskLeaderboardFilters {
+  category?: RiskCategory;
+  minScore?: number;
+  limit?: number;
+  offset?: number;
+}
@@ -1,8 +1,17 @@
+import type { Position } from './position.types.js';
+
 export type Outcome = 'YES' | 'NO';
 export type TradeSide = 'buy' | 'sell';
 
+/**
+ * Trades and positions are namespaced by account: `live` rows come from the
+ * CLOB, `paper` rows from simulated fills against the live orderbook.
+ */
+export type TradingAccount = 'live' | 'paper';
+
 export interface Trade {
   id: string;
+  account: TradingAccount;
   walletAddress: string;
   marketId: string;
   outcome: Outcome;
@@ -39,3 +48,28 @@ export interface PrepareTradeResponse {
   estimatedCost: string;
   slippageEstimate: string;
 }
+
+/**
+ * Order for POST /api/v1/trades. Only the paper account is filled by the
+ * server; live trades are signed by the wallet via /trades/prepare.
+ */
+export interface PaperOrderRequest extends PrepareTradeRequest {
+  account: 'paper';
+  walletAddress: string;
+}
+
+export interface PaperFill {
+  requestedSize: string;
+  filledSize: string;
+  avgPrice: string;
+  bestPrice: string;
+  notional: string;
+  slippage: string; // percent vs. best price
+  levelsConsumed: number;
+}
+
+export interface PaperOrderResponse {
+  trade: Trade;
+  position: Position;
+  fill: PaperFill;
+}
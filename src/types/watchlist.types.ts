@@ -2,10 +2,19 @@
  * Type definitions for Watchlist functionality
  */
 
+/**
+ * Owner of watchlists created before they were scoped per wallet
+ */
+export const LEGACY_WATCHLIST_OWNER = '0x0000000000000000000000000000000000000000';
+
+export type WatchlistTargetType = 'market' | 'instrument';
+
 export interface WatchlistRecord {
   id: string;
+  ownerWallet: string;
   name: string;
   sortOrder: number; // 1-9 for keyboard shortcuts
+  shareToken: string | null; // null = not shared
   createdAt: Date;
   updatedAt: Date;
 }
@@ -13,27 +22,45 @@ export interface WatchlistRecord {
 export interface WatchlistItemRecord {
   id: string;
   watchlistId: string;
-  marketId: string;
+  targetType: WatchlistTargetType;
+  marketId: string | null;
+  instrumentId: string | null;
   addedAt: Date;
 }
 
-export interface WatchlistWithMarkets extends WatchlistRecord {
-  items: Array<{
-    id: string;
-    marketId: string;
-    addedAt: Date;
-    market: {
-      id: string;
-      question: string;
-      categoryTag: string | null;
-      yesPrice: string | null;
-      noPrice: string | null;
-      expiryDate: Date;
-      active: boolean;
-    };
-  }>;
+export interface WatchlistItemMarket {
+  id: string;
+  question: string;
+  categoryTag: string | null;
+  yesPrice: string | null;
+  noPrice: string | null;
+  expiryDate: Date;
+  active: boolean;
+}
+
+export interface WatchlistItemInstrument {
+  id: string;
+  type: string;
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  lastPrice: string | null;
+}
+
+export interface WatchlistWithItems extends WatchlistRecord {
+  items: Array<
+    WatchlistItemRecord & {
+      market: WatchlistItemMarket | null;
+      instrument: WatchlistItemInstrument | null;
+    }
+  >;
 }
 
+/**
+ * Read-only view served through a share link (no owner or token details)
+ */
+export type SharedWatchlistView = Omit<WatchlistWithItems, 'ownerWallet' | 'shareToken'>;
+
 export interface CreateWatchlistInput {
   name: string;
   sortOrder: number; // Must be 1-9
@@ -44,6 +71,6 @@ export interface UpdateWatchlistInput {
   sortOrder?: number; // Must be 1-9
 }
 
-export interface ToggleMarketResult {
-  added: boolean; // true if market was added, false if removed
+export interface ToggleItemResult {
+  added: boolean; // true if the target was added, false if removed
 }
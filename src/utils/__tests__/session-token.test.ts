@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateRefreshToken,
+  hashRefreshToken,
+  isAccessToken,
+  signAccessToken,
+  verifyAccessToken,
+} from '../session-token';
+
+const SECRET = 'test-secret';
+const WALLET = '0xAbC0000000000000000000000000000000000001';
+const NOW = Date.UTC(2026, 2, 1);
+
+describe('session tokens', () => {
+  it('should round-trip wallet and session claims', () => {
+    const token = signAccessToken(WALLET, 'session-1', SECRET, 15 * 60 * 1000, NOW);
+    const claims = verifyAccessToken(token, SECRET, NOW + 60_000);
+
+    expect(isAccessToken(token)).toBe(true);
+    expect(claims.sub).toBe(WALLET.toLowerCase());
+    expect(claims.sid).toBe('session-1');
+    expect(claims.exp - claims.iat).toBe(900);
+  });
+
+  it('should reject expired tokens', () => {
+    const token = signAccessToken(WALLET, 'session-1', SECRET, 60_000, NOW);
+    expect(() => verifyAccessToken(token, SECRET, NOW + 61_000)).toThrow('Access token expired');
+  });
+
+  it('should reject tampered or foreign tokens', () => {
+    const token = signAccessToken(WALLET, 'session-1', SECRET, 60_000, NOW);
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sub: '0xother', sid: 'session-1', iat: 0, exp: 9_999_999_999 }),
+    ).toString('base64url');
+
+    expect(() => verifyAccessToken(`${header}.${forged}.${signature}`, SECRET, NOW)).toThrow(
+      'Invalid access token',
+    );
+    expect(() => verifyAccessToken(token, 'other-secret', NOW)).toThrow('Invalid access token');
+  });
+
+  it('should not mistake wallet signatures for access tokens', () => {
+    expect(isAccessToken('0x1234abcd')).toBe(false);
+  });
+
+  it('should hash refresh tokens deterministically', () => {
+    const token = generateRefreshToken();
+    expect(token).not.toBe(generateRefreshToken());
+    expect(hashRefreshToken(token)).toBe(hashRefreshToken(token));
+    expect(hashRefreshToken(token)).not.toContain(token);
+  });
+});
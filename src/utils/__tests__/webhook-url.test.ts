@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { LookupAddress } from 'node:dns';
+import { isPublicAddress, parseWebhookUrl, publicLookup } from '../webhook-url';
+import { ValidationError } from '../errors';
+
+function resolve(hostname: string): Promise<LookupAddress[]> {
+  return new Promise((done, fail) => {
+    publicLookup(hostname, { all: true }, (error, addresses) =>
+      error ? fail(error) : done(addresses as LookupAddress[]),
+    );
+  });
+}
+
+describe('isPublicAddress', () => {
+  it('should reject loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '172.31.255.255',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00:ec2::254',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:169.254.169.254',
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('should accept public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '1.1.1.1', '2606:4700:4700::1111']) {
+      expect(isPublicAddress(address), address).toBe(true);
+    }
+  });
+});
+
+describe('parseWebhookUrl', () => {
+  it('should reject internal hosts', () => {
+    for (const url of [
+      'http://localhost:3000/hook',
+      'http://api.localhost/hook',
+      'http://127.0.0.1/hook',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://10.0.0.5/hook',
+      'http://192.168.0.10:8080/hook',
+      'http://[::1]/hook',
+      'http://metadata.google.internal/computeMetadata/v1/',
+    ]) {
+      expect(() => parseWebhookUrl(url), url).toThrow(ValidationError);
+    }
+  });
+
+  it('should reject other protocols and malformed URLs', () => {
+    expect(() => parseWebhookUrl('ftp://example.com/hook')).toThrow(ValidationError);
+    expect(() => parseWebhookUrl('not a url')).toThrow(ValidationError);
+  });
+
+  it('should accept public hosts', () => {
+    expect(parseWebhookUrl('https://hooks.example.com/alerts').hostname).toBe('hooks.example.com');
+    expect(parseWebhookUrl('http://8.8.8.8/hook').hostname).toBe('8.8.8.8');
+  });
+});
+
+describe('publicLookup', () => {
+  it('should fail for hostnames resolving to internal addresses', async () => {
+    await expect(resolve('localhost')).rejects.toThrow(/non-public address/);
+  });
+
+  it('should pass public addresses through', async () => {
+    await expect(resolve('8.8.8.8')).resolves.toEqual([{ address: '8.8.8.8', family: 4 }]);
+  });
+});
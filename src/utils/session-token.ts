@@ -0,0 +1,78 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { UnauthorizedError } from './errors.js';
+import { AccessTokenClaims } from '../types/auth.types.js';
+
+const JWT_HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+function sign(input: string, secret: string): string {
+  return createHmac('sha256', secret).update(input).digest('base64url');
+}
+
+/**
+ * Issue an HS256 JWT carrying the wallet (sub) and session id (sid)
+ */
+export function signAccessToken(
+  wallet: string,
+  sessionId: string,
+  secret: string,
+  ttlMs: number,
+  now: number = Date.now(),
+): string {
+  const claims: AccessTokenClaims = {
+    sub: wallet.toLowerCase(),
+    sid: sessionId,
+    iat: Math.floor(now / 1000),
+    exp: Math.floor((now + ttlMs) / 1000),
+  };
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${JWT_HEADER}.${payload}.${sign(`${JWT_HEADER}.${payload}`, secret)}`;
+}
+
+/**
+ * Verify signature and expiry of an access token
+ */
+export function verifyAccessToken(
+  token: string,
+  secret: string,
+  now: number = Date.now(),
+): AccessTokenClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== JWT_HEADER) {
+    throw new UnauthorizedError('Malformed access token');
+  }
+
+  const expected = Buffer.from(sign(`${parts[0]}.${parts[1]}`, secret));
+  const actual = Buffer.from(parts[2]);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new UnauthorizedError('Invalid access token');
+  }
+
+  let claims: AccessTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8')) as AccessTokenClaims;
+  } catch {
+    throw new UnauthorizedError('Malformed access token');
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) {
+    throw new UnauthorizedError('Access token expired');
+  }
+
+  return claims;
+}
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(`${JWT_HEADER}.`);
+}
+
+export function generateRefreshToken(): string {
+  return `rt_${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Refresh tokens are stored hashed so a database leak does not expose live sessions
+ */
+export function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,126 @@
+import { lookup, type LookupAddress, type LookupOptions } from 'node:dns';
+import { Agent as HttpAgent } from 'node:http';
+import { Agent as HttpsAgent } from 'node:https';
+import { BlockList, isIP } from 'node:net';
+import { ValidationError } from './errors.js';
+
+/**
+ * Address ranges a user-supplied webhook must never reach: loopback,
+ * private, carrier-grade NAT, link-local (cloud metadata), multicast and
+ * reserved space
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+const IPV4_MAPPED_PATTERN = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i;
+
+/**
+ * Whether an IP address is publicly routable. IPv4-mapped IPv6 addresses
+ * are judged by the IPv4 address they carry.
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(IPV4_MAPPED_PATTERN)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Parse a webhook URL and reject anything that names an internal host
+ * directly. Hostnames are checked again after DNS resolution at delivery.
+ */
+export function parseWebhookUrl(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ValidationError(`Invalid webhook URL: ${rawUrl}`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new ValidationError('Webhook URL must use http or https');
+  }
+
+  // URL keeps the brackets around IPv6 literals
+  const host = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  const internalName =
+    host === 'localhost' || BLOCKED_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix));
+  if (internalName || (isIP(host) !== 0 && !isPublicAddress(host))) {
+    throw new ValidationError('Webhook URL must point to a public host');
+  }
+
+  return url;
+}
+
+type LookupCallback = (
+  error: NodeJS.ErrnoException | null,
+  address: string | LookupAddress[],
+  family?: number,
+) => void;
+
+/**
+ * dns.lookup that fails when a hostname resolves to a non-public address.
+ * Used as the socket lookup so the check applies to the address actually
+ * connected to, not an earlier resolution a DNS rebind could change.
+ */
+export function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: LookupCallback,
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+      callback(
+        Object.assign(new Error(`Webhook host ${hostname} resolves to a non-public address`), {
+          code: 'EADDRNOTPUBLIC',
+        }),
+        [],
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Agents for webhook requests, resolving hosts through publicLookup
+ */
+export const webhookHttpAgent = new HttpAgent({ lookup: publicLookup });
+export const webhookHttpsAgent = new HttpsAgent({ lookup: publicLookup });